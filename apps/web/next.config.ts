@@ -6,7 +6,7 @@ import "./src/env";
 const nextConfig: NextConfig = {
   typedRoutes: true,
   reactCompiler: true,
-  serverExternalPackages: ["sharp"],
+  serverExternalPackages: ["sharp", "@babel/standalone"],
   images: {
     remotePatterns: [
       {
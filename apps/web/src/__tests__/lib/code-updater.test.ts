@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import {
+  deleteElement,
+  duplicateElement,
+  insertBlock,
+  moveElement,
+  StructureEditError,
+  updateReactEmailCode,
+  wrapElement,
+} from "@/lib/react-email/code-updater";
+import type { ElementData } from "@/lib/react-email/element-extractor";
+import { buildElementTree, extractStyleDefinitions } from "@/lib/react-email/jsx-parser";
+import { EMAIL_BLOCKS } from "@/lib/react-email/blocks";
+
+const CODE = `import { Html, Body, Container, Heading, Text, Button } from "@react-email/components";
+
+export default function Email() {
+  return (
+    <Html data-mocah-id="mhtml000">
+      <Body data-mocah-id="mbody000">
+        <Container data-mocah-id="mcont000">
+          <Heading data-mocah-id="mhead000">Welcome</Heading>
+          <Text data-mocah-id="mtext000">Thanks for joining</Text>
+          <Button data-mocah-id="mbutt000" href="https://example.com">Get started</Button>
+        </Container>
+      </Body>
+    </Html>
+  );
+}`;
+
+function order(code: string) {
+  const [html] = buildElementTree(code);
+  return html!.children[0]!.children[0]!.children.map((node) => node.label);
+}
+
+describe("structural edits", () => {
+  it("moves an element before another", () => {
+    const updated = moveElement(CODE, "mbutt000", "mhead000", "before");
+    expect(order(updated)).toEqual(["Get started", "Welcome", "Thanks for joining"]);
+  });
+
+  it("duplicates an element with a fresh id", () => {
+    const { updatedCode, newElementId } = duplicateElement(CODE, "mtext000");
+    expect(order(updatedCode)).toEqual(["Welcome", "Thanks for joining", "Thanks for joining", "Get started"]);
+    expect(newElementId).toMatch(/^m[a-z0-9]{7}$/);
+    expect(newElementId).not.toBe("mtext000");
+  });
+
+  it("deletes an element but not the document shell", () => {
+    expect(order(deleteElement(CODE, "mtext000"))).toEqual(["Welcome", "Get started"]);
+    expect(() => deleteElement(CODE, "mbody000")).toThrow(StructureEditError);
+  });
+
+  it("adds the wrappers a Column needs and imports them", () => {
+    const { updatedCode } = wrapElement(CODE, "mtext000", "Column");
+    const [html] = buildElementTree(updatedCode);
+    const section = html!.children[0]!.children[0]!.children[1]!;
+
+    expect(section.type).toBe("Section");
+    expect(section.children[0]!.type).toBe("Row");
+    expect(section.children[0]!.children[0]!.type).toBe("Column");
+    expect(section.children[0]!.children[0]!.children[0]!.label).toBe("Thanks for joining");
+    expect(updatedCode).toMatch(/import \{[^}]*Section, Row, Column[^}]*\}/);
+  });
+
+  it("rejects moves that break email table layout", () => {
+    expect(() => moveElement(CODE, "mcont000", "mtext000", "inside")).toThrow(StructureEditError);
+    expect(() => moveElement(CODE, "mcont000", "mhead000", "before")).toThrow(/inside itself/);
+  });
+
+  it("inserts a palette block into the main container", () => {
+    const columns = EMAIL_BLOCKS.find((block) => block.id === "columns")!;
+    const { updatedCode, newElementId } = insertBlock(CODE, columns.code, null);
+    const [html] = buildElementTree(updatedCode);
+    const added = html!.children[0]!.children[0]!.children[3]!;
+
+    expect(added.id).toBe(newElementId);
+    expect(added.children[0]!.children).toHaveLength(2);
+    expect(updatedCode).toMatch(/import \{[^}]*Section, Row, Column[^}]*\}/);
+  });
+});
+
+describe("brand token references", () => {
+  const TOKEN_CODE = `import { Html, Button } from "@react-email/components";
+
+const button = { backgroundColor: brand.primary, padding: "12px" };
+
+export default function Email() {
+  return (
+    <Html data-mocah-id="mhtml000">
+      <Button data-mocah-id="mbutt000" style={button} href="https://example.com">Go</Button>
+    </Html>
+  );
+}`;
+
+  const BUTTON: ElementData = {
+    id: "mbutt000",
+    type: "Button",
+    line: 7,
+    content: "Go",
+    styleType: "style-object",
+    styleName: "button",
+    attributes: {},
+  };
+
+  it("reads token references symbolically", () => {
+    expect(extractStyleDefinitions(TOKEN_CODE).button).toEqual({
+      backgroundColor: "brand.primary",
+      padding: "12px",
+    });
+  });
+
+  it("writes token references as brand member expressions and keeps existing ones", () => {
+    const { updatedCode } = updateReactEmailCode(
+      TOKEN_CODE,
+      BUTTON,
+      { styles: { color: "brand.background", padding: "16px" } },
+      {}
+    );
+
+    expect(updatedCode).toContain("backgroundColor: brand.primary");
+    expect(updatedCode).toContain("color: brand.background");
+    expect(updatedCode).toContain('padding: "16px"');
+  });
+});
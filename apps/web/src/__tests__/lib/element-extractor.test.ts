@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { getTranslatableStringKey } from "@mocah/shared";
+import {
+  extractTranslatableStrings,
+  localizeReactEmailCode,
+} from "@/lib/react-email/element-extractor";
+
+const CODE = `import { Html, Body, Heading, Text, Button, Img } from '@react-email/components';
+
+export default function Email() {
+  return (
+    <Html>
+      <Body>
+        <Img src="https://cdn.mocah.ai/logo.png" alt="Logo" />
+        <Heading style={heading}>
+          Welcome back
+        </Heading>
+        <Text>Hi {"{{first_name|there}}"}, your order <strong>has shipped</strong>!</Text>
+        <Text>{"{{order.total}}"}</Text>
+        <Button href="https://shop.com">Track order</Button>
+        <Text>Welcome back</Text>
+      </Body>
+    </Html>
+  );
+}`;
+
+describe("extractTranslatableStrings", () => {
+  it("extracts copy from text elements once per unique string", () => {
+    const strings = extractTranslatableStrings(CODE);
+
+    expect(strings.map((entry) => entry.text)).toEqual([
+      "Welcome back",
+      "Hi {{first_name|there}}, your order",
+      "has shipped",
+      "Track order",
+    ]);
+    expect(strings[0]!.key).toBe(getTranslatableStringKey("Welcome back"));
+  });
+});
+
+describe("localizeReactEmailCode", () => {
+  it("replaces translated copy and keeps structure", () => {
+    const localized = localizeReactEmailCode(CODE, {
+      [getTranslatableStringKey("Welcome back")]: "Bon retour",
+      [getTranslatableStringKey("Track order")]: "Suivre la commande",
+    });
+
+    expect(localized).toContain('"Bon retour"');
+    expect(localized).toContain('"Suivre la commande"');
+    expect(localized).not.toContain("Welcome back");
+    expect(localized).toContain('href="https://shop.com"');
+    expect(localized).toContain("style={heading}");
+  });
+
+  it("translates text around merge tags and inline formatting as one sentence", () => {
+    const localized = localizeReactEmailCode(CODE, {
+      [getTranslatableStringKey("Hi {{first_name|there}}, your order")]:
+        "Bonjour {{first_name|vous}}, votre commande",
+      [getTranslatableStringKey("has shipped")]: "est partie",
+    });
+
+    expect(localized).toContain('{"Bonjour {{first_name|vous}}, votre commande "}<strong>');
+    expect(localized).toContain('<strong>{"est partie"}</strong>');
+  });
+
+  it("returns the source untouched without translations", () => {
+    expect(localizeReactEmailCode(CODE, {})).toBe(CODE);
+  });
+});
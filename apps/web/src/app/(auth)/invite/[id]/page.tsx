@@ -0,0 +1,136 @@
+"use client";
+
+import { use } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { AuthCard } from "@/components/authentication/auth-card";
+import Loader from "@/components/loader";
+import { Button } from "@/components/ui/button";
+import { authClient } from "@/lib/auth-client";
+import { trpc } from "@/utils/trpc";
+
+interface Invitation {
+  id: string;
+  email: string;
+  role: string;
+  status: string;
+  organization: { id: string; name: string; logo: string | null };
+  inviter: { name: string; email: string } | null;
+}
+
+export default function InvitePage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const router = useRouter();
+  const { data: session, isPending: sessionLoading } = authClient.useSession();
+
+  // Note: Type assertion to prevent "Type instantiation is excessively deep" error
+  const { data: invitation, isLoading, error } = trpc.member.getInvitation.useQuery(
+    { invitationId: id },
+    { retry: false }
+  ) as { data: Invitation | undefined; isLoading: boolean; error: { message: string } | null };
+
+  // Note: Using `any` for callback parameters to prevent "Type instantiation is excessively deep" error
+  const acceptMutation = trpc.member.accept.useMutation({
+    onSuccess: async (data: any) => {
+      await authClient.organization.setActive({ organizationId: data.organizationId });
+      toast.success(`Joined ${invitation?.organization.name ?? "workspace"}`);
+      router.push("/app");
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to accept invitation");
+    },
+  });
+
+  if (isLoading || sessionLoading) {
+    return (
+      <AuthCard title="Workspace invitation">
+        <Loader />
+      </AuthCard>
+    );
+  }
+
+  if (error || !invitation) {
+    return (
+      <AuthCard
+        title="Invitation not found"
+        description="This invitation link is invalid. Ask a workspace admin to send a new one."
+      >
+        <Button asChild className="w-full">
+          <Link href="/app">Go to dashboard</Link>
+        </Button>
+      </AuthCard>
+    );
+  }
+
+  if (invitation.status !== "pending") {
+    return (
+      <AuthCard
+        title={invitation.status === "expired" ? "Invitation expired" : "Invitation unavailable"}
+        description={
+          invitation.status === "accepted"
+            ? "This invitation has already been accepted."
+            : "This invitation is no longer valid. Ask a workspace admin to send a new one."
+        }
+      >
+        <Button asChild className="w-full">
+          <Link href="/app">Go to dashboard</Link>
+        </Button>
+      </AuthCard>
+    );
+  }
+
+  const inviterName = invitation.inviter?.name || invitation.inviter?.email || "Someone";
+  const description = `${inviterName} invited ${invitation.email} to join ${invitation.organization.name} as ${
+    invitation.role === "admin" ? "an admin" : "a member"
+  }.`;
+  const callbackUrl = encodeURIComponent(`/invite/${id}`);
+
+  if (!session?.user) {
+    return (
+      <AuthCard title={`Join ${invitation.organization.name}`} description={description}>
+        <div className="space-y-2">
+          <Button asChild className="w-full">
+            <Link href={`/login?callbackUrl=${callbackUrl}`}>Sign in to accept</Link>
+          </Button>
+          <Button asChild variant="outline" className="w-full">
+            <Link href={`/register?callbackUrl=${callbackUrl}`}>Create an account</Link>
+          </Button>
+        </div>
+      </AuthCard>
+    );
+  }
+
+  const isWrongAccount = session.user.email.toLowerCase() !== invitation.email.toLowerCase();
+
+  return (
+    <AuthCard title={`Join ${invitation.organization.name}`} description={description}>
+      {isWrongAccount ? (
+        <div className="space-y-3">
+          <p className="text-sm text-center text-muted-foreground">
+            You're signed in as {session.user.email}. Sign in with {invitation.email} to accept
+            this invitation.
+          </p>
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={async () => {
+              await authClient.signOut();
+              router.push(`/login?callbackUrl=${callbackUrl}`);
+            }}
+          >
+            Switch account
+          </Button>
+        </div>
+      ) : (
+        <Button
+          className="w-full"
+          disabled={acceptMutation.isPending}
+          onClick={() => acceptMutation.mutate({ invitationId: id })}
+        >
+          {acceptMutation.isPending ? "Joining..." : "Accept invitation"}
+        </Button>
+      )}
+    </AuthCard>
+  );
+}
@@ -3,10 +3,10 @@ import { auth } from "@mocah/auth";
 import {
   getCachedMembership,
   cacheMembership,
+  invalidateBrandKitCache,
 } from "@mocah/shared/cache";
 import { logger } from "@mocah/shared";
 import prisma from "@mocah/db";
-import { invalidateBrandKitCache } from "../../template/generate/cache";
 
 /**
  * API endpoint to invalidate server-side caches
@@ -29,9 +29,11 @@ export async function POST(req: NextRequest) {
 
     // 2. Parse and validate request body
     let organizationId: string;
+    let brandKitId: string | undefined;
     try {
       const body = await req.json();
       organizationId = body.organizationId;
+      brandKitId = typeof body.brandKitId === "string" ? body.brandKitId : undefined;
 
       if (!organizationId || typeof organizationId !== "string") {
         return new Response(
@@ -88,13 +90,14 @@ export async function POST(req: NextRequest) {
     }
 
     // 4. Perform cache invalidation
-    await invalidateBrandKitCache(organizationId);
+    await invalidateBrandKitCache(organizationId, brandKitId);
 
     logger.info("Cache invalidated successfully", {
       component: "api/cache/invalidate",
       action: "POST",
       userId: session.user.id,
       organizationId,
+      brandKitId,
     });
 
     return new Response(JSON.stringify({ success: true }), {
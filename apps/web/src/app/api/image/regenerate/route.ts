@@ -17,8 +17,8 @@ import {
 import { isPremiumModel, getDefaultModel } from "@mocah/api/lib/image-models";
 
 const regenerateSchema = imageGenerationInputSchema.refine(
-  (value) => value.imageUrls && value.imageUrls.length > 0,
-  { message: "imageUrls are required for regeneration", path: ["imageUrls"] }
+  (value) => (value.imageUrls && value.imageUrls.length > 0) || value.sourceImageId,
+  { message: "imageUrls or sourceImageId are required for regeneration", path: ["imageUrls"] }
 );
 
 export const runtime = "nodejs";
@@ -109,8 +109,26 @@ export async function POST(req: NextRequest) {
       }
     }
 
+    // Regenerating a stored image: its outputs join that image's version tree
+    if (parsed.sourceImageId) {
+      const source = await prisma.imageAsset.findUnique({
+        where: { id: parsed.sourceImageId },
+        select: { organizationId: true, url: true },
+      });
+      if (!source || source.organizationId !== parsed.organizationId) {
+        return new Response(JSON.stringify({ error: "Source image not found" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      if (!parsed.imageUrls?.length) {
+        parsed.imageUrls = [source.url];
+      }
+    }
+
     const result = await runFalImageGeneration(parsed, {
       userId: session.user.id,
+      operation: "image.regenerate",
     });
 
     // Increment usage after successful regeneration
@@ -121,6 +139,7 @@ export async function POST(req: NextRequest) {
       userId: session.user.id,
       organizationId: parsed.organizationId,
       templateId: parsed.templateId,
+      sourceImageId: parsed.sourceImageId,
       requestId: result.requestId,
       model: result.model,
       images: imageCount,
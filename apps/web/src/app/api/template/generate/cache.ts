@@ -18,12 +18,14 @@ const BRAND_GUIDE_PREFERENCE_TTL_SECONDS = 30 * 60; // 30 minutes (user preferen
 
 /**
  * Get cached brand kit or null if not cached/expired
+ * @param brandKitId - Kit to look up; the organization default when omitted
  */
 export async function getCachedBrandKit(
-  orgId: string
+  orgId: string,
+  brandKitId?: string | null
 ): Promise<unknown | null> {
   const redis = getRedis();
-  const key = CACHE_KEYS.brandKit(orgId);
+  const key = CACHE_KEYS.brandKit(orgId, brandKitId);
 
   if (!isRedisAvailable() || !redis) {
     logger.warn("Redis not available for brand kit cache lookup");
@@ -44,10 +46,11 @@ export async function getCachedBrandKit(
  */
 export async function cacheBrandKit(
   orgId: string,
+  brandKitId: string | null | undefined,
   brandKit: unknown
 ): Promise<void> {
   const redis = getRedis();
-  const key = CACHE_KEYS.brandKit(orgId);
+  const key = CACHE_KEYS.brandKit(orgId, brandKitId);
 
   if (!isRedisAvailable() || !redis) {
     logger.warn("Redis not available for brand kit cache set");
@@ -61,27 +64,6 @@ export async function cacheBrandKit(
   }
 }
 
-/**
- * Invalidate brand kit cache (call when brand kit is updated)
- * Redis TTL handles automatic expiration, but manual invalidation ensures
- * immediate consistency when brand kit is updated
- */
-export async function invalidateBrandKitCache(orgId: string): Promise<void> {
-  const redis = getRedis();
-  const key = CACHE_KEYS.brandKit(orgId);
-
-  if (!isRedisAvailable() || !redis) {
-    logger.warn("Redis not available for brand kit cache invalidation");
-    return;
-  }
-
-  try {
-    await redis.del(key);
-  } catch (error) {
-    logger.error("Redis del error for brand kit cache", error as Error);
-  }
-}
-
 /**
  * Get cached brand guide preference or null if not cached/expired
  * Returns true if brand guide should be included, false if excluded, null if not set
@@ -41,7 +41,7 @@ export async function POST(req: NextRequest) {
     }
 
     // 2. Parse request body
-    const { prompt, organizationId, imageUrls, includeBrandGuide } = await req.json();
+    const { prompt, organizationId, imageUrls, includeBrandGuide, brandKitId } = await req.json();
 
     if (!prompt || !organizationId) {
       return new Response(JSON.stringify({ error: "Missing required fields" }), {
@@ -60,7 +60,10 @@ export async function POST(req: NextRequest) {
       ? includeBrandGuide 
       : (await getCachedBrandGuidePreference(userId, organizationId)) ?? true;
     
-    let brandKit = shouldIncludeBrandGuide ? await getCachedBrandKit(organizationId) : null;
+    // Brand picked for this template, or the organization default
+    let brandKit = shouldIncludeBrandGuide
+      ? await getCachedBrandKit(organizationId, brandKitId)
+      : null;
 
     // Collect promises for any cache misses
     const dbQueries: Promise<void>[] = [];
@@ -77,13 +80,21 @@ export async function POST(req: NextRequest) {
     }
 
     if (shouldIncludeBrandGuide && brandKit === null) {
+      const brandKitQuery = brandKitId
+        ? prisma.brandKit.findFirst({
+            where: { id: brandKitId, organizationId, deletedAt: null },
+          })
+        : prisma.organization
+            .findUnique({
+              where: { id: organizationId },
+              select: { brandKit: true },
+            })
+            .then((org) => org?.brandKit ?? null);
+
       dbQueries.push(
-        prisma.organization.findUnique({
-          where: { id: organizationId },
-          select: { brandKit: true },
-        }).then(async (org) => {
-          brandKit = org?.brandKit ?? null;
-          await cacheBrandKit(organizationId, brandKit);
+        brandKitQuery.then(async (found) => {
+          brandKit = found;
+          await cacheBrandKit(organizationId, brandKitId, brandKit);
         })
       );
     }
@@ -155,6 +166,12 @@ export async function POST(req: NextRequest) {
         temperature: 0.7,
         maxRetries: 3,
         imageUrls: imageUrls as string[] | undefined, // Pass images as multi-modal content
+        audit: {
+          organizationId,
+          userId,
+          operation: "template.generate",
+          type: "template",
+        },
         onError: (error: unknown) => {
           logger.error("Stream error in template generation", {
             error: String(error),
@@ -5,6 +5,10 @@ import {
   reactEmailGenerationSchema,
 } from "@mocah/api/lib/prompts";
 import { checkUsageLimit } from "@mocah/api/lib/usage-tracking";
+import { parseTemplateVariables } from "@mocah/api/lib/template-helpers";
+import { getTemplatePermission, hasPermissionLevel } from "@mocah/api/lib/template-permissions";
+import { getTemplateLockMessage } from "@mocah/api/lib/template-review";
+import { getTemplateBrandKit } from "@mocah/api/lib/brand-kits";
 import { auth } from "@mocah/auth";
 import prisma from "@mocah/db";
 import { logger } from "@mocah/shared";
@@ -41,7 +45,7 @@ export async function POST(req: NextRequest) {
     }
 
     // 2. Parse request body
-    const { prompt, templateId, imageUrls, includeBrandGuide } = await req.json();
+    const { prompt, templateId, imageUrls, includeBrandGuide, brandKitId } = await req.json();
 
     if (!prompt || !templateId) {
       return new Response(JSON.stringify({ error: "Missing required fields" }), {
@@ -58,7 +62,12 @@ export async function POST(req: NextRequest) {
       select: {
         id: true,
         organizationId: true,
+        teamId: true,
+        reviewState: true,
         reactEmailCode: true,
+        variables: true,
+        brandKitId: true,
+        brandKit: true,
         organization: {
           select: {
             brandKit: true,
@@ -82,7 +91,11 @@ export async function POST(req: NextRequest) {
       ? includeBrandGuide 
       : (await getCachedBrandGuidePreference(userId, template.organizationId)) ?? true;
     
-    let brandKit = shouldIncludeBrandGuide ? await getCachedBrandKit(template.organizationId) : null;
+    // Brand picked in the regenerate flow, otherwise the template's own brand
+    const activeBrandKitId: string | null = brandKitId || template.brandKitId;
+    let brandKit = shouldIncludeBrandGuide
+      ? await getCachedBrandKit(template.organizationId, activeBrandKitId)
+      : null;
 
     // Collect promises for any cache misses
     const dbQueries: Promise<void>[] = [];
@@ -98,10 +111,21 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    if (shouldIncludeBrandGuide && brandKit === null && template.organization.brandKit) {
-      brandKit = template.organization.brandKit;
+    if (shouldIncludeBrandGuide && brandKit === null) {
+      const brandKitQuery =
+        brandKitId && brandKitId !== template.brandKitId
+          ? prisma.brandKit.findFirst({
+              where: { id: brandKitId, organizationId: template.organizationId, deletedAt: null },
+            })
+          : Promise.resolve(getTemplateBrandKit(template));
+
       dbQueries.push(
-        cacheBrandKit(template.organizationId, brandKit)
+        brandKitQuery.then(async (found) => {
+          brandKit = found ?? template.organization.brandKit;
+          if (brandKit) {
+            await cacheBrandKit(template.organizationId, activeBrandKitId, brandKit);
+          }
+        })
       );
     }
 
@@ -117,6 +141,35 @@ export async function POST(req: NextRequest) {
       });
     }
 
+    // Team-owned or shared templates need edit access
+    const permission = await getTemplatePermission(prisma, userId, template);
+    if (!hasPermissionLevel(permission, "edit")) {
+      return new Response(
+        JSON.stringify({
+          error: "Forbidden",
+          message: permission
+            ? "You need edit access to this template"
+            : "You do not have access to this template",
+        }),
+        {
+          status: 403,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // In-review and approved templates are locked until reopened
+    const lockMessage = getTemplateLockMessage(template.reviewState);
+    if (lockMessage) {
+      return new Response(
+        JSON.stringify({ error: "Template locked", message: lockMessage }),
+        {
+          status: 409,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
     // 5. Check usage quota (validates subscription exists internally)
     let usageCheck;
     try {
@@ -161,7 +214,8 @@ export async function POST(req: NextRequest) {
     const promptText = buildReactEmailRegenerationPrompt(
       prompt,
       template.reactEmailCode || "",  // Current template code for context
-      brandKit as any
+      brandKit as any,
+      parseTemplateVariables(template.variables)
     );
 
     logger.info("🔄 [Regeneration Stream] Starting regeneration", {
@@ -184,6 +238,13 @@ export async function POST(req: NextRequest) {
         temperature: 0.7,
         maxRetries: 3,
         imageUrls: imageUrls as string[] | undefined, // Pass images as multi-modal content
+        audit: {
+          organizationId: template.organizationId,
+          userId,
+          operation: "template.regenerate",
+          type: "template",
+          templateId,
+        },
         onError: (error: unknown) => {
           logger.error("Stream error in template regeneration", {
             error: String(error),
@@ -35,6 +35,8 @@ type PublishedTemplateEntry = {
   thumbnail: string | null;
   isPremium: boolean;
   tags: string[];
+  industry: string | null;
+  categories: { category: { slug: string } }[];
   createdAt: Date | string;
   updatedAt: Date | string;
   sourceTemplate: {
@@ -14,6 +14,7 @@ import { HistoryProvider, useHistory } from "./components/providers/HistoryProvi
 import { InfiniteCanvas } from "./components/canvas/InfiniteCanvas";
 import { FloatingNav } from "./components/floating-panels/FloatingNav";
 import { SaveDesignEdit } from "./components/canvas/SaveDesignEdit";
+import { LibraryUpdateBanner } from "./components/canvas/LibraryUpdateBanner";
 import { useCanvas } from "./components/providers/CanvasProvider";
 import { useEditorMode } from "./components/providers/EditorModeProvider";
 import { useTemplateCreation } from "@/utils/store-prompt-in-session";
@@ -50,6 +51,20 @@ const SmartEditorPanel = dynamic(
   { ssr: false }
 );
 
+const CommentsPanel = dynamic(
+  () => import("./components/floating-panels/CommentsPanel").then(
+    (mod) => mod.CommentsPanel
+  ),
+  { ssr: false }
+);
+
+const LayersPanel = dynamic(
+  () => import("./components/floating-panels/LayersPanel").then(
+    (mod) => mod.LayersPanel
+  ),
+  { ssr: false }
+);
+
 const VersionHistoryPanel = dynamic(
   () => import("./components/floating-panels/VersionHistoryPanel").then(
     (mod) => mod.VersionHistoryPanel
@@ -57,6 +72,34 @@ const VersionHistoryPanel = dynamic(
   { ssr: false }
 );
 
+const VariablesPanel = dynamic(
+  () => import("./components/floating-panels/VariablesPanel").then(
+    (mod) => mod.VariablesPanel
+  ),
+  { ssr: false }
+);
+
+const LocalesPanel = dynamic(
+  () => import("./components/floating-panels/LocalesPanel").then(
+    (mod) => mod.LocalesPanel
+  ),
+  { ssr: false }
+);
+
+const ReviewPanel = dynamic(
+  () => import("./components/floating-panels/ReviewPanel").then(
+    (mod) => mod.ReviewPanel
+  ),
+  { ssr: false }
+);
+
+const ExportPanel = dynamic(
+  () => import("./components/floating-panels/ExportPanel").then(
+    (mod) => mod.ExportPanel
+  ),
+  { ssr: false }
+);
+
 const ImageStudioModal = dynamic(
   () => import("./components/image-studio/ImageStudioModal").then(
     (mod) => mod.ImageStudioModal
@@ -260,9 +303,12 @@ function EditorContent({ templateId }: { templateId: string }) {
   }, [dataFromStorage]);
 
   // Auto-open editor panel when an element is selected
+  // (the comments and layers panels stay open; selecting there picks the element to act on)
   useEffect(() => {
     if (editorState.selectedElement) {
-      setActivePanel("editor");
+      setActivePanel((panel) =>
+        panel === "comments" || panel === "layers" ? panel : "editor"
+      );
     }
     // Note: Don't auto-close editor when element is deselected
     // User should be able to keep editor open to see instructions
@@ -280,25 +326,52 @@ function EditorContent({ templateId }: { templateId: string }) {
     }
   }, [searchParams, router, templateId]);
 
+  // Open the comments panel when a thread is focused (preview pin or ?comment= link)
+  useEffect(() => {
+    if (editorState.activeCommentThread) {
+      setActivePanel("comments");
+      editorActions.setDesignMode(true);
+    }
+  }, [editorState.activeCommentThread, editorActions]);
+
+  useEffect(() => {
+    const commentParam = searchParams.get('comment');
+    if (commentParam) {
+      editorActions.setActiveCommentThread(commentParam);
+      // Remove the param from URL
+      const params = new URLSearchParams(searchParams.toString());
+      params.delete('comment');
+      router.replace(`/app/${templateId}?${params.toString()}`, { scroll: false });
+    }
+  }, [searchParams, router, templateId, editorActions]);
+
   // Handle panel toggle with mutual exclusivity
   const handlePanelToggle = useCallback((panel: string) => {
     if (activePanel === panel) {
       // Close the currently open panel
       setActivePanel(null);
-      // If closing editor, also deselect element and disable design mode
-      if (panel === "editor") {
+      // If closing editor, comments or layers, also deselect element and disable design mode
+      if (panel === "editor" || panel === "comments" || panel === "layers") {
         editorActions.selectElement(null);
         editorActions.setDesignMode(false);
       }
+      if (panel === "comments") {
+        editorActions.setActiveCommentThread(null);
+      }
     } else {
       // Open the new panel and close any other
       setActivePanel(panel);
 
-      // If opening editor, enable design mode for element selection
-      if (panel === "editor") {
+      // If opening editor, comments or layers, enable design mode for element selection
+      if (panel === "editor" || panel === "comments" || panel === "layers") {
         editorActions.setDesignMode(true);
       }
 
+      // Leaving comments drops the focused thread so its pin can reopen it
+      if (panel !== "comments") {
+        editorActions.setActiveCommentThread(null);
+      }
+
       // If opening chat, close editor and deselect element
       if (panel === "chat") {
         if (editorState.selectedElement) {
@@ -344,6 +417,13 @@ ${error}`;
     editorActions.setDesignMode(false);
   }, [editorActions]);
 
+  const handleCloseComments = useCallback(() => {
+    setActivePanel(null);
+    editorActions.selectElement(null);
+    editorActions.setDesignMode(false);
+    editorActions.setActiveCommentThread(null);
+  }, [editorActions]);
+
   // Handle consuming error fix prompt
   const handleErrorFixConsumed = useCallback(() => {
     setErrorFixPrompt(undefined);
@@ -561,19 +641,43 @@ ${error}`;
               initialInput={initialChatInput}
               onInputConsumed={handleInputConsumed}
             />
+            <CommentsPanel
+              isOpen={activePanel === "comments"}
+              onClose={handleCloseComments}
+            />
             <SmartEditorPanel
               isOpen={activePanel === "editor"}
               onClose={handleCloseEditor}
               onOpenChat={handleOpenChatWithText}
             />
+            <LayersPanel
+              isOpen={activePanel === "layers"}
+              onClose={handleCloseEditor}
+            />
             <ImageLibraryPanel
               isOpen={activePanel === "library"}
               onClose={handleClosePanel}
             />
+            <VariablesPanel
+              isOpen={activePanel === "variables"}
+              onClose={handleClosePanel}
+            />
+            <LocalesPanel
+              isOpen={activePanel === "languages"}
+              onClose={handleClosePanel}
+            />
             <VersionHistoryPanel
               isOpen={activePanel === "versions"}
               onClose={handleClosePanel}
             />
+            <ReviewPanel
+              isOpen={activePanel === "review"}
+              onClose={handleClosePanel}
+            />
+            <ExportPanel
+              isOpen={activePanel === "export"}
+              onClose={handleClosePanel}
+            />
           </div>
           <InfiniteCanvas />
 
@@ -602,6 +706,9 @@ ${error}`;
             isSaving={isSaving}
           />
 
+          {/* Upstream changes for templates installed from the library */}
+          <LibraryUpdateBanner templateId={templateId} />
+
           {/* Image Studio Modal - triggered by URL param */}
           <Suspense fallback={null}>
             <ImageStudioModal />
@@ -0,0 +1,133 @@
+"use client";
+
+import React, { useCallback } from "react";
+import { BookOpen, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import Loader from "@/components/loader";
+import { trpc } from "@/utils/trpc";
+import { useTemplate } from "../providers/TemplateProvider";
+
+interface LibraryInstall {
+  id: string;
+  updateAvailable: boolean;
+  hasLocalEdits: boolean;
+  templateLibrary: { id: string; name: string };
+}
+
+/**
+ * Notice for templates installed from the library when the library entry
+ * has been updated. Merging keeps local edits; replacing discards them.
+ */
+export function LibraryUpdateBanner({ templateId }: { templateId: string }) {
+  const utils = trpc.useUtils();
+  const { state: templateState, actions: templateActions } = useTemplate();
+
+  // Only once the template is saved - new templates are still generating
+  const isSaved = templateState.currentTemplate?.id === templateId;
+
+  // Note: Type assertion to prevent "Type instantiation is excessively deep" error
+  const { data: install } = trpc.template.library.getInstallForTemplate.useQuery(
+    { templateId },
+    { enabled: isSaved, refetchOnWindowFocus: false }
+  ) as { data: LibraryInstall | null | undefined };
+
+  const applyUpdate = trpc.template.library.applyUpstreamUpdate.useMutation({
+    // Note: Using `any` for callback parameters to prevent "Type instantiation is excessively deep" error
+    onSuccess: async (data: any) => {
+      await templateActions.refetchTemplate();
+      utils.template.library.getInstallForTemplate.invalidate({ templateId });
+      utils.template.versions.list.invalidate({ templateId });
+      toast.success("Library update applied", {
+        description:
+          data.conflicts > 0
+            ? `${data.conflicts} overlapping change${data.conflicts === 1 ? "" : "s"} kept your version. The previous state is in version history.`
+            : "The previous state is saved in version history.",
+      });
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to apply library update");
+    },
+  });
+
+  const dismiss = trpc.template.library.dismissUpstreamUpdate.useMutation({
+    onSuccess: () => {
+      utils.template.library.getInstallForTemplate.invalidate({ templateId });
+    },
+  });
+
+  const handleApply = useCallback(
+    (strategy: "merge" | "replace") => {
+      if (!install) return;
+      applyUpdate.mutate({ installId: install.id, strategy });
+    },
+    [install, applyUpdate]
+  );
+
+  if (!install?.updateAvailable) return null;
+
+  const isBusy = applyUpdate.isPending || dismiss.isPending;
+
+  return (
+    <div
+      className="fixed top-4 left-1/2 -translate-x-1/2 z-40"
+      role="status"
+      aria-live="polite"
+    >
+      <div className="flex items-center gap-3 bg-secondary backdrop-blur-sm border border-primary/20 rounded-full pl-4 pr-2 py-1.5 shadow-lg">
+        <div className="flex items-center gap-2 text-sm text-foreground">
+          <BookOpen className="h-4 w-4 text-primary" />
+          <span>
+            <span className="font-medium">{install.templateLibrary.name}</span>{" "}
+            was updated in the library
+          </span>
+        </div>
+
+        <div className="flex items-center gap-1">
+          {install.hasLocalEdits ? (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button size="sm" className="rounded-full px-4" disabled={isBusy}>
+                  {applyUpdate.isPending ? <Loader /> : "Update"}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleApply("merge")}>
+                  Merge, keep my edits
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleApply("replace")}>
+                  Replace with library version
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          ) : (
+            <Button
+              size="sm"
+              className="rounded-full px-4"
+              disabled={isBusy}
+              onClick={() => handleApply("replace")}
+            >
+              {applyUpdate.isPending ? <Loader /> : "Update"}
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-8 rounded-full"
+            aria-label="Dismiss library update"
+            disabled={isBusy}
+            onClick={() => dismiss.mutate({ installId: install.id })}
+          >
+            <X className="size-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -446,6 +446,7 @@ Fix all issues in a single pass.`;
                 reactEmailCode={reactEmailCode}
                 cachedHtml={cachedHtml}
                 template={templateState.currentTemplate}
+                designTokens={templateState.designTokens}
               />
             </div>
           </TabsContent>
@@ -4,25 +4,42 @@ import React, { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Send, Loader2 } from "lucide-react";
 import { trpc } from "@/utils/trpc";
 import { toast } from "sonner";
 import { renderReactEmailClientSide } from "@/lib/react-email/client-renderer";
 import type { Template } from "@mocah/db";
+import type { DesignTokens, LocaleCode } from "@mocah/shared";
+import { useTemplate } from "../providers/TemplateProvider";
+
+type EmailVariant = "html" | "table";
 
 interface EmailTestTabProps {
   reactEmailCode: string;
   cachedHtml?: { code: string; html: string } | null;
   template: Template | null;
+  /** Values the code's brand.* references render with */
+  designTokens?: DesignTokens;
 }
 
 export function EmailTestTab({
   reactEmailCode,
   cachedHtml,
   template,
+  designTokens,
 }: EmailTestTabProps) {
   const [testEmail, setTestEmail] = useState("");
   const [isSendingEmail, setIsSendingEmail] = useState(false);
+  const [variant, setVariant] = useState<EmailVariant>("html");
+  // Sends the language shown in the preview; the server localizes the code
+  const locale = (useTemplate().state.activeLocale ?? undefined) as LocaleCode | undefined;
 
   const sendTestEmailMutation = trpc.emailTest.sendTest.useMutation({
     onSuccess: () => {
@@ -59,15 +76,17 @@ export function EmailTestTab({
         html = cachedHtml.html;
       } else {
         // Render HTML client-side
-        html = await renderReactEmailClientSide(reactEmailCode);
+        html = await renderReactEmailClientSide(reactEmailCode, { designTokens });
       }
 
-      // Send test email
+      // Send test email - a translation uses its own subject
       await sendTestEmailMutation.mutateAsync({
         templateId,
         to: testEmail,
         html,
-        subject: template?.subject || undefined,
+        subject: locale ? undefined : template?.subject || undefined,
+        variant,
+        locale,
       });
     } catch (error) {
       // Error is handled by mutation onError
@@ -101,6 +120,25 @@ export function EmailTestTab({
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="test-email-variant" className="text-sm font-medium">
+              HTML Variant
+            </Label>
+            <Select
+              value={variant}
+              onValueChange={(value) => setVariant(value as EmailVariant)}
+              disabled={isSendingEmail}
+            >
+              <SelectTrigger id="test-email-variant" className="h-10 w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="html">Standard HTML</SelectItem>
+                <SelectItem value="table">Email-safe tables (Outlook fallbacks)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
           {template?.subject && (
             <div className="space-y-2">
               <Label className="text-sm font-medium">Subject</Label>
@@ -6,7 +6,7 @@ import {
   RenderError, 
   RenderErrorCode 
 } from '@/lib/react-email';
-import { logger } from '@mocah/shared';
+import { logger, type DesignTokens } from '@mocah/shared';
 import { useCallback, useEffect, useState } from 'react';
 import { CodeEditor } from './CodeEditor';
 
@@ -37,6 +37,8 @@ interface HtmlCodeViewerProps {
   onLoadingChange?: (loading: boolean) => void;
   onErrorChange?: (error: string | null) => void;
   refreshTrigger?: number;
+  /** Values the code's brand.* references render with */
+  designTokens?: DesignTokens;
 }
 
 export function HtmlCodeViewer({ 
@@ -46,6 +48,7 @@ export function HtmlCodeViewer({
   onLoadingChange,
   onErrorChange,
   refreshTrigger = 0,
+  designTokens,
 }: HtmlCodeViewerProps) {
   const [renderedHtml, setRenderedHtml] = useState<string>('');
   const [isLoading, setIsLoading] = useState(false);
@@ -83,7 +86,7 @@ export function HtmlCodeViewer({
 
     try {
       // Client-side rendering - runs in browser sandbox
-      const html = await renderReactEmailClientSide(reactEmailCode);
+      const html = await renderReactEmailClientSide(reactEmailCode, { designTokens });
       setRenderedHtml(html);
       // Update cache via callback
       if (onHtmlRendered) {
@@ -97,7 +100,7 @@ export function HtmlCodeViewer({
     } finally {
       setIsLoading(false);
     }
-  }, [reactEmailCode, cachedHtml, onHtmlRendered]);
+  }, [reactEmailCode, cachedHtml, onHtmlRendered, designTokens]);
 
   // Auto-fetch on mount and when code changes
   useEffect(() => {
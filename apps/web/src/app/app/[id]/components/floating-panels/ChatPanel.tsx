@@ -15,6 +15,7 @@ import type { Message, GenerationResult } from "../chat-panel/MessageItem";
 import { MessageList } from "../chat-panel/MessageList";
 import AttachmentPopover from "@/app/app/new/components/AttachmentPopover";
 import FilterPopover from "@/app/app/new/components/FilterPopover";
+import BrandPicker from "@/app/app/new/components/BrandPicker";
 import ImagePreviewBlob from "@/app/app/new/components/ImagePreviewBlob";
 import { useImageUpload } from "../image-studio/hooks/useImageUpload";
 import { useOrganization } from "@/contexts/organization-context";
@@ -74,6 +75,8 @@ export const ChatPanel = ({
   const [urlInput, setUrlInput] = useState("");
   const [textareaMinHeight, setTextareaMinHeight] = useState(100);
   const [includeBrandGuide, setIncludeBrandGuide] = useState(true);
+  // Brand picked for the next regeneration (the template's own brand until changed)
+  const [brandKitId, setBrandKitId] = useState<string | undefined>();
 
   // Image preview modal state
   const [imagePreviewOpen, setImagePreviewOpen] = useState(false);
@@ -433,8 +436,8 @@ export const ChatPanel = ({
         // 3. Start generation immediately (UX: user sees streaming right away)
         // imageUrls was already determined above when creating the user message
         const generationPromise = isNewTemplate
-          ? templateActions.generateTemplateStream(trimmedPrompt, imageUrls, includeBrandGuide)
-          : templateActions.regenerateTemplate(trimmedPrompt, imageUrls, includeBrandGuide);
+          ? templateActions.generateTemplateStream(trimmedPrompt, imageUrls, includeBrandGuide, brandKitId)
+          : templateActions.regenerateTemplate(trimmedPrompt, imageUrls, includeBrandGuide, brandKitId);
 
         // 4. Define message persistence function
         const persistMessages = async () => {
@@ -601,6 +604,7 @@ export const ChatPanel = ({
       templateState.currentTemplate,
       templateState.generationPhase,
       templateActions,
+      brandKitId,
       createMessageMutation,
       updateMessageMutation,
       utils.chat.list,
@@ -789,6 +793,13 @@ export const ChatPanel = ({
                 includeBrandGuide={includeBrandGuide}
                 onBrandGuideChange={setIncludeBrandGuide}
               />
+              {includeBrandGuide && (
+                <BrandPicker
+                  value={brandKitId ?? templateState.currentTemplate?.brandKitId ?? undefined}
+                  onChange={setBrandKitId}
+                  disabled={isLoading}
+                />
+              )}
             </div>
 
             {isLoading ? (
@@ -0,0 +1,541 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import { authClient } from "@/lib/auth-client";
+import { cn } from "@/lib/utils";
+import { trpc } from "@/utils/trpc";
+import { formatDistanceToNow } from "date-fns";
+import {
+  AtSign,
+  Check,
+  Loader2,
+  MessageSquareText,
+  RotateCcw,
+  Send,
+  Trash2,
+  X,
+} from "lucide-react";
+import { useParams } from "next/navigation";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+import { useEditorMode } from "../providers/EditorModeProvider";
+
+interface CommentsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface CommentUser {
+  id: string;
+  name: string;
+  email: string;
+  image: string | null;
+}
+
+interface CommentRecord {
+  id: string;
+  body: string;
+  createdAt: string | Date;
+  editedAt: string | Date | null;
+  author: CommentUser | null;
+  mentions: { user: CommentUser }[];
+}
+
+interface CommentThread {
+  id: string;
+  elementId: string;
+  elementTag: string;
+  elementText: string | null;
+  detached: boolean;
+  resolvedAt: string | Date | null;
+  version: { id: string; version: number } | null;
+  resolvedBy: CommentUser | null;
+  comments: CommentRecord[];
+}
+
+interface CommentList {
+  threads: CommentThread[];
+  canComment: boolean;
+  canModerate: boolean;
+}
+
+interface TeamsData {
+  members: CommentUser[];
+}
+
+type ThreadFilter = "open" | "resolved";
+
+export const CommentsPanel = ({ isOpen, onClose }: CommentsPanelProps) => {
+  const params = useParams();
+  const templateId = params.id as string;
+  const utils = trpc.useUtils();
+  const { data: session } = authClient.useSession();
+  const { state: editorState, actions: editorActions } = useEditorMode();
+  const [filter, setFilter] = useState<ThreadFilter>("open");
+
+  // Note: Type assertion to prevent "Type instantiation is excessively deep" error
+  const { data: commentList, isLoading } = trpc.template.comments.list.useQuery(
+    { templateId },
+    { enabled: !!templateId }
+  ) as { data: CommentList | undefined; isLoading: boolean };
+
+  const { data: teamsData } = trpc.team.list.useQuery(undefined, {
+    enabled: isOpen,
+  }) as { data: TeamsData | undefined };
+
+  const invalidate = () => {
+    utils.template.comments.list.invalidate({ templateId });
+  };
+
+  // Note: Using `any` for callback parameters to prevent "Type instantiation is excessively deep" error
+  const onError = (error: any) => {
+    toast.error(error.message || "Something went wrong");
+  };
+
+  const createMutation = trpc.template.comments.create.useMutation({
+    onSuccess: (thread: any) => {
+      invalidate();
+      editorActions.selectElement(null);
+      editorActions.setActiveCommentThread(thread.id);
+    },
+    onError,
+  });
+  const replyMutation = trpc.template.comments.reply.useMutation({
+    onSuccess: invalidate,
+    onError,
+  });
+  const resolveMutation = trpc.template.comments.setResolved.useMutation({
+    onSuccess: invalidate,
+    onError,
+  });
+  const deleteMutation = trpc.template.comments.delete.useMutation({
+    onSuccess: invalidate,
+    onError,
+  });
+
+  // Element picked in the preview (design mode is on while this panel is open)
+  const selectedElement = useMemo(() => {
+    if (!editorState.selectedElement) return null;
+    try {
+      const parsed = JSON.parse(editorState.selectedElement);
+      return { id: parsed.id as string, type: parsed.type as string, content: parsed.content as string };
+    } catch {
+      return null;
+    }
+  }, [editorState.selectedElement]);
+
+  const members = (teamsData?.members ?? []).filter((member) => member.id !== session?.user.id);
+  const threads = commentList?.threads ?? [];
+  const openCount = threads.filter((thread) => !thread.resolvedAt).length;
+  const visibleThreads = threads.filter((thread) =>
+    filter === "open" ? !thread.resolvedAt : !!thread.resolvedAt
+  );
+
+  // Show the thread a pin or link pointed at
+  const activeThreadId = editorState.activeCommentThread;
+  useEffect(() => {
+    if (!activeThreadId) return;
+    const thread = threads.find((entry) => entry.id === activeThreadId);
+    if (thread) setFilter(thread.resolvedAt ? "resolved" : "open");
+  }, [activeThreadId, threads]);
+
+  // Transition delay pattern (same as ChatPanel)
+  const [enableTransition, setEnableTransition] = useState(false);
+
+  React.useLayoutEffect(() => {
+    if (!enableTransition) {
+      requestAnimationFrame(() => {
+        requestAnimationFrame(() => setEnableTransition(true));
+      });
+    }
+  }, [enableTransition]);
+
+  return (
+    <div
+      className={cn(
+        "bg-card rounded-r-xl shadow-2xl border border-border overflow-hidden flex flex-col z-40 h-dvh",
+        enableTransition && "transition-all duration-300 ease-in-out",
+        isOpen
+          ? "translate-x-0 opacity-100 w-80"
+          : "-translate-x-full opacity-0 pointer-events-none w-0"
+      )}
+    >
+      {/* Header */}
+      <div className="p-2 border-b border-border flex justify-between items-center bg-muted">
+        <div className="flex items-center gap-2">
+          <MessageSquareText className="size-3 text-primary" />
+          <h3 className="font-semibold text-sm">Comments</h3>
+        </div>
+        <Button onClick={onClose} variant="outline" size="icon">
+          <X size={16} />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1 overflow-y-auto">
+        <div className="p-4 space-y-6">
+          {/* New thread */}
+          {commentList?.canComment && (
+            <div className="space-y-2">
+              <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider px-2">
+                New comment
+              </h4>
+              {selectedElement ? (
+                <>
+                  <p className="text-xs text-muted-foreground px-2 truncate">
+                    On <span className="font-medium text-foreground">{selectedElement.type}</span>
+                    {selectedElement.content && ` · "${selectedElement.content}"`}
+                  </p>
+                  <CommentComposer
+                    members={members}
+                    placeholder="Leave feedback on this element..."
+                    submitLabel="Comment"
+                    isPending={createMutation.isPending}
+                    onSubmit={(body, mentionIds) =>
+                      createMutation.mutateAsync({
+                        templateId,
+                        elementId: selectedElement.id,
+                        body,
+                        mentionIds,
+                      })
+                    }
+                  />
+                </>
+              ) : (
+                <p className="text-xs text-muted-foreground px-2">
+                  Click an element in the preview to comment on it.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Threads */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-1 px-2">
+              <Button
+                size="sm"
+                variant={filter === "open" ? "secondary" : "ghost"}
+                className="h-7 text-xs"
+                onClick={() => setFilter("open")}
+              >
+                Open ({openCount})
+              </Button>
+              <Button
+                size="sm"
+                variant={filter === "resolved" ? "secondary" : "ghost"}
+                className="h-7 text-xs"
+                onClick={() => setFilter("resolved")}
+              >
+                Resolved ({threads.length - openCount})
+              </Button>
+            </div>
+
+            {isLoading && (
+              <p className="text-sm text-muted-foreground px-2">Loading comments...</p>
+            )}
+            {!isLoading && visibleThreads.length === 0 && (
+              <p className="text-xs text-muted-foreground px-2">
+                {filter === "open" ? "No open comments." : "No resolved comments."}
+              </p>
+            )}
+            {visibleThreads.map((thread) => (
+              <ThreadCard
+                key={thread.id}
+                thread={thread}
+                members={members}
+                currentUserId={session?.user.id}
+                canComment={!!commentList?.canComment}
+                canModerate={!!commentList?.canModerate}
+                isActive={thread.id === activeThreadId}
+                isReplying={replyMutation.isPending}
+                onFocus={() => editorActions.setActiveCommentThread(thread.id)}
+                onReply={(body, mentionIds) =>
+                  replyMutation.mutateAsync({ threadId: thread.id, body, mentionIds })
+                }
+                onToggleResolved={() =>
+                  resolveMutation.mutate({ threadId: thread.id, resolved: !thread.resolvedAt })
+                }
+                onDelete={(commentId) => deleteMutation.mutate({ commentId })}
+              />
+            ))}
+          </div>
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+// ============================================================================
+// Thread card
+// ============================================================================
+
+interface ThreadCardProps {
+  thread: CommentThread;
+  members: CommentUser[];
+  currentUserId: string | undefined;
+  canComment: boolean;
+  canModerate: boolean;
+  isActive: boolean;
+  isReplying: boolean;
+  onFocus: () => void;
+  onReply: (body: string, mentionIds: string[]) => Promise<unknown>;
+  onToggleResolved: () => void;
+  onDelete: (commentId: string) => void;
+}
+
+function ThreadCard({
+  thread,
+  members,
+  currentUserId,
+  canComment,
+  canModerate,
+  isActive,
+  isReplying,
+  onFocus,
+  onReply,
+  onToggleResolved,
+  onDelete,
+}: ThreadCardProps) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (isActive) ref.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [isActive]);
+
+  return (
+    <div
+      ref={ref}
+      onClick={onFocus}
+      className={cn(
+        "rounded-lg border p-2 space-y-2 cursor-pointer",
+        isActive ? "border-primary" : "border-border"
+      )}
+    >
+      <div className="flex items-center gap-1">
+        <div className="min-w-0 flex-1">
+          <p className="text-xs font-medium truncate">
+            {thread.elementTag}
+            {thread.elementText && (
+              <span className="font-normal text-muted-foreground"> · {thread.elementText}</span>
+            )}
+          </p>
+          <div className="flex items-center gap-1 mt-0.5">
+            {thread.version && (
+              <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                v{thread.version.version}
+              </Badge>
+            )}
+            {thread.detached && (
+              <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                Element removed
+              </Badge>
+            )}
+          </div>
+        </div>
+        {canComment && (
+          <Button
+            size="icon"
+            variant="ghost"
+            className="size-7"
+            aria-label={thread.resolvedAt ? "Reopen thread" : "Resolve thread"}
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleResolved();
+            }}
+          >
+            {thread.resolvedAt ? <RotateCcw className="size-3.5" /> : <Check className="size-3.5" />}
+          </Button>
+        )}
+      </div>
+
+      <ul className="space-y-2">
+        {thread.comments.map((comment) => (
+          <li key={comment.id} className="group space-y-0.5">
+            <div className="flex items-center gap-1">
+              <span className="text-xs font-medium truncate">
+                {comment.author?.name ?? "Deleted user"}
+              </span>
+              <span className="text-[10px] text-muted-foreground shrink-0">
+                {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+                {comment.editedAt && " (edited)"}
+              </span>
+              {(comment.author?.id === currentUserId || canModerate) && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="size-5 ml-auto opacity-0 group-hover:opacity-100"
+                  aria-label="Delete comment"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete(comment.id);
+                  }}
+                >
+                  <Trash2 className="size-3" />
+                </Button>
+              )}
+            </div>
+            <p className="text-xs whitespace-pre-wrap break-words">
+              <CommentBody body={comment.body} mentions={comment.mentions} />
+            </p>
+          </li>
+        ))}
+      </ul>
+
+      {thread.resolvedAt && (
+        <p className="text-[10px] text-muted-foreground">
+          Resolved {thread.resolvedBy ? `by ${thread.resolvedBy.name} ` : ""}
+          {formatDistanceToNow(new Date(thread.resolvedAt), { addSuffix: true })}
+        </p>
+      )}
+
+      {isActive && canComment && (
+        <div onClick={(e) => e.stopPropagation()}>
+          <CommentComposer
+            members={members}
+            placeholder="Reply..."
+            submitLabel="Reply"
+            isPending={isReplying}
+            onSubmit={onReply}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Comment body with highlighted mentions
+// ============================================================================
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function CommentBody({ body, mentions }: { body: string; mentions: { user: CommentUser }[] }) {
+  const names = mentions.map(({ user }) => user.name).filter(Boolean);
+  if (names.length === 0) return <>{body}</>;
+
+  const pattern = new RegExp(`(@(?:${names.map(escapeRegExp).join("|")}))`, "g");
+
+  return (
+    <>
+      {body.split(pattern).map((part, index) =>
+        index % 2 === 1 ? (
+          <span key={index} className="font-medium text-primary">
+            {part}
+          </span>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+// ============================================================================
+// Composer
+// ============================================================================
+
+interface CommentComposerProps {
+  members: CommentUser[];
+  placeholder: string;
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (body: string, mentionIds: string[]) => Promise<unknown>;
+}
+
+function CommentComposer({
+  members,
+  placeholder,
+  submitLabel,
+  isPending,
+  onSubmit,
+}: CommentComposerProps) {
+  const [body, setBody] = useState("");
+  const [mentioned, setMentioned] = useState<CommentUser[]>([]);
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+  const addMention = (member: CommentUser) => {
+    setBody((prev) => `${prev}${prev && !prev.endsWith(" ") ? " " : ""}@${member.name} `);
+    setMentioned((prev) => (prev.some((m) => m.id === member.id) ? prev : [...prev, member]));
+    setIsPickerOpen(false);
+  };
+
+  const handleSubmit = async () => {
+    const text = body.trim();
+    if (!text) return;
+
+    // Mentions removed from the text don't notify anyone
+    const mentionIds = mentioned
+      .filter((member) => text.includes(`@${member.name}`))
+      .map((member) => member.id);
+
+    try {
+      await onSubmit(text, mentionIds);
+      setBody("");
+      setMentioned([]);
+    } catch {
+      // Mutation's onError shows the toast; keep the draft
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            handleSubmit();
+          }
+        }}
+        placeholder={placeholder}
+        className="min-h-16 text-xs"
+      />
+      <div className="flex items-center gap-2">
+        <Popover open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+          <PopoverTrigger asChild>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="size-7"
+              aria-label="Mention someone"
+              disabled={members.length === 0}
+            >
+              <AtSign className="size-3.5" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-56 p-1">
+            <ul className="max-h-48 overflow-y-auto">
+              {members.map((member) => (
+                <li key={member.id}>
+                  <button
+                    type="button"
+                    className="w-full rounded-sm px-2 py-1.5 text-left text-xs hover:bg-muted"
+                    onClick={() => addMention(member)}
+                  >
+                    <span className="block truncate font-medium">{member.name}</span>
+                    <span className="block truncate text-muted-foreground">{member.email}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </PopoverContent>
+        </Popover>
+        <Button
+          size="sm"
+          className="ml-auto"
+          disabled={!body.trim() || isPending}
+          onClick={handleSubmit}
+        >
+          {isPending ? <Loader2 className="size-3.5 animate-spin" /> : <Send className="size-3.5" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
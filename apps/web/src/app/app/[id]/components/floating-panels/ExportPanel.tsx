@@ -0,0 +1,285 @@
+"use client";
+
+import type { LocaleCode } from "@mocah/shared";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import { trpc } from "@/utils/trpc";
+import { format } from "date-fns";
+import { Download, FileArchive, FileJson, Loader2, Lock, Mail, Send, X } from "lucide-react";
+import { useParams } from "next/navigation";
+import React, { useCallback, useState } from "react";
+import { toast } from "sonner";
+import { useTemplate } from "../providers/TemplateProvider";
+
+interface ExportPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type ExportFormatId =
+  | "html"
+  | "json"
+  | "mailchimp"
+  | "sendgrid"
+  | "campaign_monitor"
+  | "constant_contact"
+  | "liquid";
+
+interface ExportRecord {
+  id: string;
+  format: string;
+  fileUrl: string | null;
+  fileSize: number | null;
+  createdAt: string | Date;
+}
+
+interface ConnectedIntegration {
+  id: string;
+  type: string;
+  name: string;
+}
+
+const FORMAT_DESCRIPTIONS: Record<ExportFormatId, string> = {
+  html: "Rendered and email-safe HTML with hosted images",
+  json: "React Email source, styles and rendered HTML",
+  mailchimp: "Email-safe HTML with *|MERGE|* tags",
+  sendgrid: "Email-safe HTML with Handlebars tags",
+  campaign_monitor: "Email-safe HTML with [field] tags",
+  constant_contact: "Email-safe HTML with [[field]] tags",
+  liquid: "Email-safe HTML with {{ field }} Liquid tags",
+};
+
+const FORMAT_ICONS: Record<ExportFormatId, typeof Download> = {
+  html: FileArchive,
+  json: FileJson,
+  mailchimp: Mail,
+  sendgrid: Mail,
+  campaign_monitor: Mail,
+  constant_contact: Mail,
+  liquid: Mail,
+};
+
+function formatFileSize(bytes: number | null): string {
+  if (!bytes) return "—";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export const ExportPanel = ({ isOpen, onClose }: ExportPanelProps) => {
+  const params = useParams();
+  const templateId = params.id as string;
+  const utils = trpc.useUtils();
+  // Exports and pushes use the language shown in the preview
+  const locale = (useTemplate().state.activeLocale ?? undefined) as LocaleCode | undefined;
+
+  const { data: formats, isLoading: isLoadingFormats } =
+    trpc.template.export.formats.useQuery(undefined, { enabled: isOpen });
+
+  // Note: Type assertion to prevent "Type instantiation is excessively deep" error
+  const { data: exports } = trpc.template.export.list.useQuery(
+    { templateId },
+    { enabled: isOpen && !!templateId }
+  ) as { data: ExportRecord[] | undefined };
+
+  // Note: Type assertion to prevent "Type instantiation is excessively deep" error
+  const { data: integrations } = trpc.integration.list.useQuery(undefined, {
+    enabled: isOpen,
+  }) as { data: ConnectedIntegration[] | undefined };
+
+  const [pendingFormat, setPendingFormat] = useState<ExportFormatId | null>(null);
+  const [pushingIntegrationId, setPushingIntegrationId] = useState<string | null>(null);
+
+  // Note: Using `any` for callback parameters to prevent "Type instantiation is excessively deep" error
+  const createExportMutation = trpc.template.export.create.useMutation({
+    onSuccess: (record: any) => {
+      utils.template.export.list.invalidate({ templateId });
+      if (record.fileUrl) {
+        window.open(record.fileUrl, "_blank", "noopener,noreferrer");
+      }
+      toast.success("Export ready");
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Export failed");
+    },
+    onSettled: () => {
+      setPendingFormat(null);
+    },
+  });
+
+  const pushMutation = trpc.integration.push.useMutation({
+    onSuccess: (result: any) => {
+      utils.integration.list.invalidate();
+      toast.success(
+        result.action === "update"
+          ? `Updated "${result.remoteTemplate.name}"`
+          : `Created "${result.remoteTemplate.name}"`
+      );
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Push failed");
+    },
+    onSettled: () => {
+      setPushingIntegrationId(null);
+    },
+  });
+
+  const handlePush = useCallback(
+    (integrationId: string) => {
+      setPushingIntegrationId(integrationId);
+      pushMutation.mutate({ integrationId, templateId, locale });
+    },
+    [pushMutation, templateId, locale]
+  );
+
+  const handleExport = useCallback(
+    (exportFormat: ExportFormatId) => {
+      setPendingFormat(exportFormat);
+      createExportMutation.mutate({ templateId, format: exportFormat, locale });
+    },
+    [createExportMutation, templateId, locale]
+  );
+
+  // Transition delay pattern (same as ChatPanel)
+  const [enableTransition, setEnableTransition] = useState(false);
+
+  React.useLayoutEffect(() => {
+    if (!enableTransition) {
+      requestAnimationFrame(() => {
+        requestAnimationFrame(() => setEnableTransition(true));
+      });
+    }
+  }, [enableTransition]);
+
+  return (
+    <div
+      className={cn(
+        "bg-card rounded-r-xl shadow-2xl border border-border overflow-hidden flex flex-col z-40 h-dvh",
+        enableTransition && "transition-all duration-300 ease-in-out",
+        isOpen
+          ? "translate-x-0 opacity-100 w-80"
+          : "-translate-x-full opacity-0 pointer-events-none w-0"
+      )}
+    >
+      {/* Header */}
+      <div className="p-2 border-b border-border flex justify-between items-center bg-muted">
+        <div className="flex items-center gap-2">
+          <Download className="size-3 text-primary" />
+          <h3 className="font-semibold text-sm">Export</h3>
+        </div>
+        <Button onClick={onClose} variant="outline" size="icon">
+          <X size={16} />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1 overflow-y-auto">
+        <div className="p-4 space-y-4">
+          {/* Formats */}
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider px-2">
+              Formats
+            </h4>
+            {isLoadingFormats && (
+              <p className="text-sm text-muted-foreground px-2">Loading formats...</p>
+            )}
+            {formats?.map((item) => {
+              const Icon = FORMAT_ICONS[item.format];
+              const isPending = pendingFormat === item.format;
+
+              return (
+                <button
+                  key={item.format}
+                  type="button"
+                  disabled={!item.allowed || !!pendingFormat}
+                  onClick={() => handleExport(item.format)}
+                  className={cn(
+                    "w-full text-left rounded-lg border border-border p-2 flex items-start gap-2 transition-colors",
+                    item.allowed ? "hover:bg-muted/50" : "opacity-60 cursor-not-allowed"
+                  )}
+                >
+                  <Icon className="size-4 mt-0.5 text-primary shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-sm">{item.label}</span>
+                      {isPending ? (
+                        <Loader2 className="size-3 animate-spin" />
+                      ) : !item.allowed ? (
+                        <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                          <Lock className="size-2.5 mr-1" />
+                          Upgrade
+                        </Badge>
+                      ) : null}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {FORMAT_DESCRIPTIONS[item.format]}
+                    </p>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Push to connected ESPs */}
+          {integrations && integrations.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider px-2">
+                Push to ESP
+              </h4>
+              {integrations.map((integration) => (
+                <button
+                  key={integration.id}
+                  type="button"
+                  disabled={!!pushingIntegrationId}
+                  onClick={() => handlePush(integration.id)}
+                  className="w-full text-left rounded-lg border border-border p-2 flex items-center gap-2 transition-colors hover:bg-muted/50"
+                >
+                  <Send className="size-4 text-primary shrink-0" />
+                  <span className="flex-1 min-w-0 text-sm font-medium truncate">
+                    {integration.name}
+                  </span>
+                  {pushingIntegrationId === integration.id && (
+                    <Loader2 className="size-3 animate-spin" />
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Recent exports */}
+          {exports && exports.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider px-2">
+                Recent Exports
+              </h4>
+              {exports.map((record) => (
+                <div
+                  key={record.id}
+                  className="rounded-lg border border-border p-2 flex items-center justify-between gap-2"
+                >
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium truncate">
+                      {formats?.find((f) => f.format === record.format)?.label ?? record.format}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {format(new Date(record.createdAt), "MMM d, HH:mm")} ·{" "}
+                      {formatFileSize(record.fileSize)}
+                    </div>
+                  </div>
+                  {record.fileUrl && (
+                    <Button asChild variant="ghost" size="icon" className="size-7">
+                      <a href={record.fileUrl} target="_blank" rel="noopener noreferrer" aria-label="Download export">
+                        <Download className="size-3.5" />
+                      </a>
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
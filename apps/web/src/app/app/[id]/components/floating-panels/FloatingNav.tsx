@@ -7,12 +7,17 @@ import {
 } from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
 import {
+  Braces,
   Download,
   FileSliders,
   History,
   Home,
+  Languages,
+  Layers,
   LibraryBig,
   MessageCircle,
+  MessageSquareText,
+  ShieldCheck,
 } from "lucide-react";
 import Link from "next/link";
 
@@ -23,9 +28,14 @@ interface FloatingNavProps {
 
 const NAV_ITEMS = [
   { id: "chat", icon: MessageCircle, label: "Chat" },
+  { id: "comments", icon: MessageSquareText, label: "Comments" },
   { id: "editor", icon: FileSliders, label: "Editor" },
+  { id: "layers", icon: Layers, label: "Layers" },
   { id: "library", icon: LibraryBig, label: "Library" },
+  { id: "variables", icon: Braces, label: "Variables" },
+  { id: "languages", icon: Languages, label: "Languages" },
   { id: "versions", icon: History, label: "Versions" },
+  { id: "review", icon: ShieldCheck, label: "Review" },
   { id: "export", icon: Download, label: "Export" },
 ] as const;
 
@@ -0,0 +1,377 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  buildElementTree,
+  canContainElement,
+  EMAIL_BLOCKS,
+  isMovableElement,
+  type DropPlacement,
+  type ElementTreeNode,
+  type EmailBlock,
+  type WrapperComponent,
+} from "@/lib/react-email";
+import { cn } from "@/lib/utils";
+import {
+  ChevronDown,
+  ChevronRight,
+  Copy,
+  GripVertical,
+  Layers,
+  MoreHorizontal,
+  Plus,
+  Trash2,
+  X,
+} from "lucide-react";
+import React, { useMemo, useState } from "react";
+import { useEditorMode } from "../providers/EditorModeProvider";
+import { useTemplate } from "../providers/TemplateProvider";
+import { useStructureEditing } from "../smart-editor/hooks";
+
+interface LayersPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/** What is being dragged over the tree: an existing element or a palette block */
+type DragItem = { kind: "element"; id: string; type: string } | { kind: "block"; block: EmailBlock };
+
+interface DropTarget {
+  id: string;
+  placement: DropPlacement;
+}
+
+const WRAPPERS: WrapperComponent[] = ["Section", "Row", "Column"];
+
+/**
+ * Select an element the same way a click in the preview does
+ * The preview's click handler extracts the element data for the editor panel.
+ */
+function selectPreviewElement(elementId: string) {
+  const iframe = document.querySelector('iframe[title="Email Preview"]') as HTMLIFrameElement;
+  const element = iframe?.contentDocument?.querySelector(`[data-element-id="${elementId}"]`);
+  (element as HTMLElement | null)?.click();
+}
+
+/**
+ * Where a drop lands: the middle of a row that can hold the dragged type
+ * drops inside it, otherwise the top or bottom half drops before or after
+ */
+function getDropPlacement(
+  event: React.DragEvent<HTMLElement>,
+  node: ElementTreeNode,
+  draggedType: string
+): DropPlacement {
+  const rect = event.currentTarget.getBoundingClientRect();
+  const offset = (event.clientY - rect.top) / rect.height;
+
+  if (canContainElement(node.type, draggedType) && offset > 0.25 && offset < 0.75) {
+    return "inside";
+  }
+  return offset < 0.5 ? "before" : "after";
+}
+
+function findNode(nodes: ElementTreeNode[], elementId: string): ElementTreeNode | null {
+  for (const node of nodes) {
+    if (node.id === elementId) return node;
+    const found = findNode(node.children, elementId);
+    if (found) return found;
+  }
+  return null;
+}
+
+function containsElement(node: ElementTreeNode, elementId: string): boolean {
+  return node.children.some(
+    (child) => child.id === elementId || containsElement(child, elementId)
+  );
+}
+
+export const LayersPanel = ({ isOpen, onClose }: LayersPanelProps) => {
+  const { state: templateState } = useTemplate();
+  const { state: editorState } = useEditorMode();
+  const structure = useStructureEditing();
+
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const { reactEmailCode } = templateState;
+  const tree = useMemo(() => {
+    if (!reactEmailCode) return [];
+    try {
+      return buildElementTree(reactEmailCode);
+    } catch {
+      // Mid-edit code may not parse; the tree comes back once it does
+      return [];
+    }
+  }, [reactEmailCode]);
+
+  const selectedElementId = useMemo(() => {
+    if (!editorState.selectedElement) return null;
+    try {
+      return JSON.parse(editorState.selectedElement).id as string;
+    } catch {
+      return null;
+    }
+  }, [editorState.selectedElement]);
+
+  // Transition delay pattern (same as ChatPanel)
+  const [enableTransition, setEnableTransition] = useState(false);
+
+  React.useLayoutEffect(() => {
+    if (!enableTransition) {
+      requestAnimationFrame(() => {
+        requestAnimationFrame(() => setEnableTransition(true));
+      });
+    }
+  }, [enableTransition]);
+
+  const toggleCollapsed = (elementId: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(elementId)) {
+        next.delete(elementId);
+      } else {
+        next.add(elementId);
+      }
+      return next;
+    });
+  };
+
+  const endDrag = () => {
+    setDragItem(null);
+    setDropTarget(null);
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLElement>, node: ElementTreeNode) => {
+    if (!dragItem || !structure.canEdit) return;
+
+    // An element can't be dropped on itself or anything inside it
+    if (dragItem.kind === "element") {
+      const source = findNode(tree, dragItem.id);
+      if (dragItem.id === node.id || (source && containsElement(source, node.id))) return;
+    }
+
+    event.preventDefault();
+    event.stopPropagation();
+
+    const draggedType = dragItem.kind === "element" ? dragItem.type : dragItem.block.type;
+    const placement = getDropPlacement(event, node, draggedType);
+    if (dropTarget?.id !== node.id || dropTarget.placement !== placement) {
+      setDropTarget({ id: node.id, placement });
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLElement>, node: ElementTreeNode) => {
+    event.preventDefault();
+    event.stopPropagation();
+
+    const placement = dropTarget?.id === node.id ? dropTarget.placement : "after";
+    if (dragItem?.kind === "element") {
+      structure.moveElement(dragItem.id, node.id, placement);
+    } else if (dragItem?.kind === "block") {
+      structure.insertBlock(dragItem.block, node.id, placement);
+    }
+    endDrag();
+  };
+
+  // Palette clicks insert after the selected element, or at the end of the email
+  const handleInsertBlock = (block: EmailBlock) => {
+    structure.insertBlock(block, selectedElementId, "after");
+  };
+
+  const renderNode = (node: ElementTreeNode, depth: number): React.ReactNode => {
+    const movable = isMovableElement(node.type);
+    const isCollapsed = collapsed.has(node.id);
+    const isSelected = node.id === selectedElementId;
+    const isDropTarget = dropTarget?.id === node.id;
+
+    return (
+      <li key={node.id}>
+        <div
+          role="treeitem"
+          aria-selected={isSelected}
+          aria-expanded={node.children.length > 0 ? !isCollapsed : undefined}
+          draggable={movable && structure.canEdit}
+          onDragStart={(event) => {
+            event.stopPropagation();
+            event.dataTransfer.effectAllowed = "move";
+            event.dataTransfer.setData("text/plain", node.id);
+            setDragItem({ kind: "element", id: node.id, type: node.type });
+          }}
+          onDragOver={(event) => handleDragOver(event, node)}
+          onDrop={(event) => handleDrop(event, node)}
+          onDragEnd={endDrag}
+          onClick={() => selectPreviewElement(node.id)}
+          className={cn(
+            "group flex items-center gap-1 rounded-md pr-1 py-1 text-sm cursor-pointer hover:bg-muted",
+            isSelected && "bg-primary/10 text-primary hover:bg-primary/15",
+            dragItem?.kind === "element" && dragItem.id === node.id && "opacity-40",
+            isDropTarget && dropTarget.placement === "before" && "shadow-[inset_0_2px_0_var(--primary)]",
+            isDropTarget && dropTarget.placement === "after" && "shadow-[inset_0_-2px_0_var(--primary)]",
+            isDropTarget && dropTarget.placement === "inside" && "ring-1 ring-primary"
+          )}
+          style={{ paddingLeft: `${depth * 12 + 4}px` }}
+        >
+          {node.children.length > 0 ? (
+            <button
+              type="button"
+              onClick={(event) => {
+                event.stopPropagation();
+                toggleCollapsed(node.id);
+              }}
+              className="text-muted-foreground hover:text-foreground"
+              aria-label={isCollapsed ? "Expand" : "Collapse"}
+            >
+              {isCollapsed ? <ChevronRight className="size-3.5" /> : <ChevronDown className="size-3.5" />}
+            </button>
+          ) : (
+            <span className="w-3.5" />
+          )}
+
+          {movable && structure.canEdit && (
+            <GripVertical className="size-3.5 shrink-0 text-muted-foreground opacity-0 group-hover:opacity-100 cursor-grab" />
+          )}
+
+          <span className="font-medium shrink-0">{node.type}</span>
+          {node.label && (
+            <span className="truncate text-xs text-muted-foreground">{node.label}</span>
+          )}
+
+          {movable && structure.canEdit && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="ml-auto size-6 shrink-0 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+                  onClick={(event) => event.stopPropagation()}
+                  aria-label={`${node.type} actions`}
+                >
+                  <MoreHorizontal className="size-3.5" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" onClick={(event) => event.stopPropagation()}>
+                <DropdownMenuItem onSelect={() => structure.duplicateElement(node.id)}>
+                  <Copy className="size-3.5" />
+                  Duplicate
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel className="text-xs text-muted-foreground">Wrap in</DropdownMenuLabel>
+                {WRAPPERS.map((wrapper) => (
+                  <DropdownMenuItem key={wrapper} onSelect={() => structure.wrapElement(node.id, wrapper)}>
+                    {wrapper}
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  variant="destructive"
+                  onSelect={() => structure.deleteElement(node.id)}
+                >
+                  <Trash2 className="size-3.5" />
+                  Delete
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+
+        {node.children.length > 0 && !isCollapsed && (
+          <ul role="group">{node.children.map((child) => renderNode(child, depth + 1))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div
+      className={cn(
+        "bg-card rounded-r-xl shadow-2xl border border-border overflow-hidden flex flex-col z-40 h-dvh",
+        enableTransition && "transition-all duration-300 ease-in-out",
+        isOpen
+          ? "translate-x-0 opacity-100 w-80"
+          : "-translate-x-full opacity-0 pointer-events-none w-0"
+      )}
+    >
+      {/* Header */}
+      <div className="p-2 border-b border-border flex justify-between items-center bg-muted">
+        <div className="flex items-center gap-2">
+          <Layers className="size-3 text-primary" />
+          <h3 className="font-semibold text-sm">Layers</h3>
+        </div>
+        <Button onClick={onClose} variant="outline" size="icon">
+          <X size={16} />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1 overflow-y-auto">
+        <div className="p-4 space-y-6">
+          {/* Block palette */}
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider px-2">
+              Add block
+            </h4>
+            <p className="text-xs text-muted-foreground px-2">
+              Click to add after the selected element, or drag onto a layer.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              {EMAIL_BLOCKS.map((block) => (
+                <button
+                  key={block.id}
+                  type="button"
+                  draggable={structure.canEdit}
+                  disabled={!structure.canEdit}
+                  onDragStart={(event) => {
+                    event.dataTransfer.effectAllowed = "copy";
+                    event.dataTransfer.setData("text/plain", block.id);
+                    setDragItem({ kind: "block", block });
+                  }}
+                  onDragEnd={endDrag}
+                  onClick={() => handleInsertBlock(block)}
+                  className="flex flex-col items-start gap-0.5 rounded-lg border border-border p-2 text-left hover:bg-muted disabled:opacity-50 disabled:pointer-events-none"
+                >
+                  <span className="flex items-center gap-1 text-sm font-medium">
+                    <Plus className="size-3" />
+                    {block.label}
+                  </span>
+                  <span className="text-xs text-muted-foreground">{block.description}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Layer tree */}
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider px-2">
+              Structure
+            </h4>
+            {tree.length > 0 ? (
+              <ul role="tree" aria-label="Template layers">
+                {tree.map((node) => renderNode(node, 0))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground px-2">
+                No elements to show yet.
+              </p>
+            )}
+            {!structure.canEdit && tree.length > 0 && (
+              <p className="text-xs text-muted-foreground px-2">
+                Layout editing is paused while the template is generating or an older version is
+                being previewed.
+              </p>
+            )}
+          </div>
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
@@ -0,0 +1,468 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { extractTranslatableStrings } from "@/lib/react-email";
+import { cn } from "@/lib/utils";
+import { trpc } from "@/utils/trpc";
+import {
+  SUPPORTED_LOCALES,
+  diffLocaleStrings,
+  getLocaleLabel,
+  type LocaleCode,
+  type TranslatableString,
+} from "@mocah/shared";
+import {
+  ChevronDown,
+  ChevronRight,
+  Eye,
+  Languages,
+  Loader2,
+  RefreshCw,
+  Sparkles,
+  Trash2,
+  X,
+} from "lucide-react";
+import { useParams } from "next/navigation";
+import React, { useCallback, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { useTemplate } from "../providers/TemplateProvider";
+
+interface LocalesPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface TemplateLocaleRecord {
+  id: string;
+  locale: string;
+  strings: Record<string, string>;
+  subject: string | null;
+  previewText: string | null;
+  translatedAt: string | Date | null;
+}
+
+interface LocaleList {
+  defaultLocale: string;
+  locales: TemplateLocaleRecord[];
+}
+
+export const LocalesPanel = ({ isOpen, onClose }: LocalesPanelProps) => {
+  const params = useParams();
+  const templateId = params.id as string;
+  const utils = trpc.useUtils();
+  const { state: templateState, actions: templateActions } = useTemplate();
+
+  // Note: Type assertion to prevent "Type instantiation is excessively deep" error
+  const { data: localeList, isLoading } = trpc.template.locales.list.useQuery(
+    { templateId },
+    { enabled: !!templateId }
+  ) as { data: LocaleList | undefined; isLoading: boolean };
+
+  const [expandedLocale, setExpandedLocale] = useState<string | null>(null);
+  const [translatingLocale, setTranslatingLocale] = useState<string | null>(null);
+
+  // Source copy from the current (default-locale) code
+  const sourceStrings = useMemo<TranslatableString[]>(() => {
+    if (!templateState.reactEmailCode) return [];
+    try {
+      return extractTranslatableStrings(templateState.reactEmailCode);
+    } catch {
+      // Code mid-edit may not parse
+      return [];
+    }
+  }, [templateState.reactEmailCode]);
+
+  const invalidate = useCallback(() => {
+    utils.template.locales.list.invalidate({ templateId });
+  }, [utils, templateId]);
+
+  // Note: Using `any` for callback parameters to prevent "Type instantiation is excessively deep" error
+  const addMutation = trpc.template.locales.add.useMutation({
+    onSuccess: (record: any) => {
+      invalidate();
+      setExpandedLocale(record.locale);
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to add language");
+    },
+  });
+
+  const removeMutation = trpc.template.locales.remove.useMutation({
+    onSuccess: () => invalidate(),
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to remove language");
+    },
+  });
+
+  const translateMutation = trpc.template.locales.translate.useMutation({
+    onSuccess: (result: any) => {
+      invalidate();
+      if (result.skipped > 0) {
+        toast.warning(`Translated ${result.translated} strings; ${result.skipped} need a manual translation`);
+      } else {
+        toast.success(`Translated ${result.translated} strings`);
+      }
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Translation failed");
+    },
+    onSettled: () => {
+      setTranslatingLocale(null);
+    },
+  });
+
+  const updateStringsMutation = trpc.template.locales.updateStrings.useMutation({
+    onSuccess: () => {
+      invalidate();
+      toast.success("Translations saved");
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to save translations");
+    },
+  });
+
+  const updateTemplateMutation = trpc.template.core.update.useMutation({
+    onSuccess: () => {
+      invalidate();
+      templateActions.setActiveLocale(null);
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to change source language");
+    },
+  });
+
+  const handleTranslate = (locale: string, overwrite: boolean) => {
+    if (sourceStrings.length === 0) {
+      toast.error("No text found to translate");
+      return;
+    }
+    setTranslatingLocale(locale);
+    // The server translates the saved code's copy
+    translateMutation.mutate({
+      templateId,
+      locale: locale as LocaleCode,
+      overwrite,
+    });
+  };
+
+  const handleRemove = (locale: string) => {
+    if (templateState.activeLocale === locale) {
+      templateActions.setActiveLocale(null);
+    }
+    removeMutation.mutate({ templateId, locale });
+  };
+
+  const defaultLocale = localeList?.defaultLocale ?? "en";
+  const locales = localeList?.locales ?? [];
+  const availableLocales = SUPPORTED_LOCALES.filter(
+    (option) =>
+      option.code !== defaultLocale && !locales.some((entry) => entry.locale === option.code)
+  );
+
+  // Transition delay pattern (same as ChatPanel)
+  const [enableTransition, setEnableTransition] = useState(false);
+
+  React.useLayoutEffect(() => {
+    if (!enableTransition) {
+      requestAnimationFrame(() => {
+        requestAnimationFrame(() => setEnableTransition(true));
+      });
+    }
+  }, [enableTransition]);
+
+  return (
+    <div
+      className={cn(
+        "bg-card rounded-r-xl shadow-2xl border border-border overflow-hidden flex flex-col z-40 h-dvh",
+        enableTransition && "transition-all duration-300 ease-in-out",
+        isOpen
+          ? "translate-x-0 opacity-100 w-80"
+          : "-translate-x-full opacity-0 pointer-events-none w-0"
+      )}
+    >
+      {/* Header */}
+      <div className="p-2 border-b border-border flex justify-between items-center bg-muted">
+        <div className="flex items-center gap-2">
+          <Languages className="size-3 text-primary" />
+          <h3 className="font-semibold text-sm">Languages</h3>
+        </div>
+        <Button onClick={onClose} variant="outline" size="icon">
+          <X size={16} />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1 overflow-y-auto">
+        <div className="p-4 space-y-6">
+          {/* Source language */}
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider px-2">
+              Source language
+            </h4>
+            <Select
+              value={defaultLocale}
+              onValueChange={(value) =>
+                updateTemplateMutation.mutate({
+                  id: templateId,
+                  defaultLocale: value as LocaleCode,
+                })
+              }
+              disabled={isLoading || updateTemplateMutation.isPending}
+            >
+              <SelectTrigger className="h-8 w-full text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_LOCALES.map((option) => (
+                  <SelectItem key={option.code} value={option.code}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground px-2">
+              Layout and styles are shared by every language. {sourceStrings.length} strings to
+              translate.
+            </p>
+          </div>
+
+          {/* Translations */}
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider px-2">
+              Translations
+            </h4>
+            {isLoading && (
+              <p className="text-sm text-muted-foreground px-2">Loading languages...</p>
+            )}
+            {locales.map((entry) => (
+              <LocaleCard
+                key={entry.id}
+                record={entry}
+                sourceStrings={sourceStrings}
+                isExpanded={expandedLocale === entry.locale}
+                isPreviewing={templateState.activeLocale === entry.locale}
+                isTranslating={translatingLocale === entry.locale}
+                isBusy={!!translatingLocale}
+                isSaving={updateStringsMutation.isPending}
+                onToggleExpanded={() =>
+                  setExpandedLocale(expandedLocale === entry.locale ? null : entry.locale)
+                }
+                onPreview={() =>
+                  templateActions.setActiveLocale(
+                    templateState.activeLocale === entry.locale ? null : entry.locale
+                  )
+                }
+                onTranslate={(overwrite) => handleTranslate(entry.locale, overwrite)}
+                onRemove={() => handleRemove(entry.locale)}
+                onSave={(strings, subject, previewText) =>
+                  updateStringsMutation.mutate({
+                    templateId,
+                    locale: entry.locale,
+                    strings,
+                    subject,
+                    previewText,
+                  })
+                }
+              />
+            ))}
+
+            {availableLocales.length > 0 && (
+              <Select
+                value=""
+                onValueChange={(value) =>
+                  addMutation.mutate({
+                    templateId,
+                    locale: value as LocaleCode,
+                  })
+                }
+                disabled={addMutation.isPending}
+              >
+                <SelectTrigger className="h-8 w-full text-xs">
+                  <SelectValue placeholder="Add language..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableLocales.map((option) => (
+                    <SelectItem key={option.code} value={option.code}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+// ============================================================================
+// Locale card
+// ============================================================================
+
+interface LocaleCardProps {
+  record: TemplateLocaleRecord;
+  sourceStrings: TranslatableString[];
+  isExpanded: boolean;
+  isPreviewing: boolean;
+  isTranslating: boolean;
+  isBusy: boolean;
+  isSaving: boolean;
+  onToggleExpanded: () => void;
+  onPreview: () => void;
+  onTranslate: (overwrite: boolean) => void;
+  onRemove: () => void;
+  onSave: (strings: Record<string, string>, subject: string | null, previewText: string | null) => void;
+}
+
+function LocaleCard({
+  record,
+  sourceStrings,
+  isExpanded,
+  isPreviewing,
+  isTranslating,
+  isBusy,
+  isSaving,
+  onToggleExpanded,
+  onPreview,
+  onTranslate,
+  onRemove,
+  onSave,
+}: LocaleCardProps) {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [subject, setSubject] = useState<string | null>(null);
+  const [previewText, setPreviewText] = useState<string | null>(null);
+
+  const { translated, missing, stale } = useMemo(
+    () => diffLocaleStrings(sourceStrings, record.strings),
+    [sourceStrings, record.strings]
+  );
+
+  const isDirty = Object.keys(drafts).length > 0 || subject !== null || previewText !== null;
+
+  const handleSave = () => {
+    onSave(drafts, subject ?? record.subject, previewText ?? record.previewText);
+    setDrafts({});
+    setSubject(null);
+    setPreviewText(null);
+  };
+
+  return (
+    <div
+      className={cn(
+        "rounded-lg border p-2 space-y-2",
+        isPreviewing ? "border-primary" : "border-border"
+      )}
+    >
+      <div className="flex items-center gap-1">
+        <button
+          type="button"
+          onClick={onToggleExpanded}
+          className="flex-1 min-w-0 flex items-center gap-1 text-left"
+        >
+          {isExpanded ? <ChevronDown className="size-3.5" /> : <ChevronRight className="size-3.5" />}
+          <span className="text-sm font-medium truncate">{getLocaleLabel(record.locale)}</span>
+        </button>
+        <Button
+          size="icon"
+          variant={isPreviewing ? "default" : "ghost"}
+          className="size-7"
+          aria-label="Preview this language"
+          aria-pressed={isPreviewing}
+          onClick={onPreview}
+        >
+          <Eye className="size-3.5" />
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="size-7"
+          aria-label="Remove language"
+          onClick={onRemove}
+        >
+          <Trash2 className="size-3.5" />
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-1 flex-wrap">
+        <Badge variant={missing.length === 0 ? "default" : "secondary"} className="text-[10px] px-1.5 py-0">
+          {translated}/{sourceStrings.length} translated
+        </Badge>
+        {stale.length > 0 && (
+          <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+            {stale.length} outdated
+          </Badge>
+        )}
+      </div>
+
+      <div className="flex items-center gap-1">
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 flex-1 text-xs"
+          disabled={isBusy || missing.length === 0}
+          onClick={() => onTranslate(false)}
+        >
+          {isTranslating ? <Loader2 className="size-3 animate-spin" /> : <Sparkles className="size-3" />}
+          Translate missing
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="size-7"
+          aria-label="Retranslate everything"
+          title="Retranslate everything"
+          disabled={isBusy}
+          onClick={() => onTranslate(true)}
+        >
+          <RefreshCw className="size-3.5" />
+        </Button>
+      </div>
+
+      {isExpanded && (
+        <div className="space-y-2 pt-1">
+          <div className="space-y-1">
+            <label className="text-[11px] text-muted-foreground">Subject</label>
+            <Input
+              value={subject ?? record.subject ?? ""}
+              onChange={(e) => setSubject(e.target.value)}
+              className="h-7 text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-[11px] text-muted-foreground">Preview text</label>
+            <Input
+              value={previewText ?? record.previewText ?? ""}
+              onChange={(e) => setPreviewText(e.target.value)}
+              className="h-7 text-xs"
+            />
+          </div>
+          {sourceStrings.map((entry) => (
+            <div key={entry.key} className="space-y-1">
+              <p className="text-[11px] text-muted-foreground line-clamp-2">{entry.text}</p>
+              <Input
+                value={drafts[entry.key] ?? record.strings[entry.key] ?? ""}
+                onChange={(e) => setDrafts((prev) => ({ ...prev, [entry.key]: e.target.value }))}
+                placeholder="Not translated"
+                className="h-7 text-xs"
+              />
+            </div>
+          ))}
+          <Button size="sm" className="h-7 w-full text-xs" disabled={!isDirty || isSaving} onClick={handleSave}>
+            {isSaving && <Loader2 className="size-3 animate-spin" />}
+            Save translations
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,421 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import { authClient } from "@/lib/auth-client";
+import { cn } from "@/lib/utils";
+import { trpc } from "@/utils/trpc";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Check,
+  Loader2,
+  LockOpen,
+  Send,
+  ShieldCheck,
+  X,
+} from "lucide-react";
+import { useParams } from "next/navigation";
+import React, { useState } from "react";
+import { toast } from "sonner";
+
+interface ReviewPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type ReviewState = "draft" | "in_review" | "approved" | "rejected";
+type Decision = "pending" | "approved" | "rejected" | "canceled";
+
+interface ReviewUser {
+  id: string;
+  name: string;
+  email: string;
+  image: string | null;
+}
+
+interface ReviewVersion {
+  id: string;
+  version: number;
+  name: string | null;
+}
+
+interface ReviewRecord {
+  id: string;
+  status: Decision;
+  message: string | null;
+  createdAt: string | Date;
+  decidedAt: string | Date | null;
+  version: ReviewVersion | null;
+  requestedBy: ReviewUser | null;
+  reviewers: {
+    id: string;
+    userId: string;
+    decision: Decision;
+    comment: string | null;
+    decidedAt: string | Date | null;
+    user: ReviewUser;
+  }[];
+}
+
+interface ReviewData {
+  reviewState: ReviewState;
+  approvedAt: string | Date | null;
+  approvedVersion: ReviewVersion | null;
+  activeReview: ReviewRecord | null;
+  reviews: ReviewRecord[];
+  canEdit: boolean;
+  canDecide: boolean;
+}
+
+interface TeamsData {
+  members: ReviewUser[];
+}
+
+const STATE_LABELS: Record<ReviewState, string> = {
+  draft: "Draft",
+  in_review: "In review",
+  approved: "Approved",
+  rejected: "Changes requested",
+};
+
+const DECISION_LABELS: Record<Decision, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+  canceled: "Canceled",
+};
+
+export const ReviewPanel = ({ isOpen, onClose }: ReviewPanelProps) => {
+  const params = useParams();
+  const templateId = params.id as string;
+  const utils = trpc.useUtils();
+  const { data: session } = authClient.useSession();
+
+  const [reviewerIds, setReviewerIds] = useState<string[]>([]);
+  const [message, setMessage] = useState("");
+  const [comment, setComment] = useState("");
+
+  // Note: Type assertion to prevent "Type instantiation is excessively deep" error
+  const { data: review, isLoading } = trpc.template.review.get.useQuery(
+    { templateId },
+    { enabled: !!templateId && isOpen }
+  ) as { data: ReviewData | undefined; isLoading: boolean };
+
+  const { data: teamsData } = trpc.team.list.useQuery(undefined, {
+    enabled: isOpen,
+  }) as { data: TeamsData | undefined };
+
+  const invalidate = () => {
+    utils.template.review.get.invalidate({ templateId });
+    utils.template.versions.list.invalidate({ templateId });
+  };
+
+  // Note: Using `any` for callback parameters to prevent "Type instantiation is excessively deep" error
+  const onError = (error: any) => {
+    toast.error(error.message || "Something went wrong");
+  };
+
+  const requestMutation = trpc.template.review.request.useMutation({
+    onSuccess: () => {
+      setReviewerIds([]);
+      setMessage("");
+      invalidate();
+      toast.success("Review requested");
+    },
+    onError,
+  });
+
+  const decideMutation = trpc.template.review.decide.useMutation({
+    onSuccess: (result: any) => {
+      setComment("");
+      invalidate();
+      if (result.status === "approved") {
+        toast.success("Template approved");
+      } else if (result.status === "rejected") {
+        toast.success("Changes requested");
+      } else {
+        toast.success("Approval recorded");
+      }
+    },
+    onError,
+  });
+
+  const reopenMutation = trpc.template.review.reopen.useMutation({
+    onSuccess: () => {
+      invalidate();
+      toast.success("Template reopened for editing");
+    },
+    onError,
+  });
+
+  const candidates = (teamsData?.members ?? []).filter(
+    (member) => member.id !== session?.user.id
+  );
+  const reviewState = review?.reviewState ?? "draft";
+  const isLocked = reviewState === "in_review" || reviewState === "approved";
+  const history = (review?.reviews ?? []).filter(
+    (entry) => entry.id !== review?.activeReview?.id
+  );
+
+  const toggleReviewer = (userId: string, checked: boolean) => {
+    setReviewerIds((prev) =>
+      checked ? [...prev, userId] : prev.filter((id) => id !== userId)
+    );
+  };
+
+  // Transition delay pattern (same as ChatPanel)
+  const [enableTransition, setEnableTransition] = useState(false);
+
+  React.useLayoutEffect(() => {
+    if (!enableTransition) {
+      requestAnimationFrame(() => {
+        requestAnimationFrame(() => setEnableTransition(true));
+      });
+    }
+  }, [enableTransition]);
+
+  return (
+    <div
+      className={cn(
+        "bg-card rounded-r-xl shadow-2xl border border-border overflow-hidden flex flex-col z-40 h-dvh",
+        enableTransition && "transition-all duration-300 ease-in-out",
+        isOpen
+          ? "translate-x-0 opacity-100 w-80"
+          : "-translate-x-full opacity-0 pointer-events-none w-0"
+      )}
+    >
+      {/* Header */}
+      <div className="p-2 border-b border-border flex justify-between items-center bg-muted">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="size-3 text-primary" />
+          <h3 className="font-semibold text-sm">Review</h3>
+        </div>
+        <Button onClick={onClose} variant="outline" size="icon">
+          <X size={16} />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1 overflow-y-auto">
+        <div className="p-4 space-y-6">
+          {isLoading || !review ? (
+            <p className="text-sm text-muted-foreground px-2">Loading review status...</p>
+          ) : (
+            <>
+              {/* Status */}
+              <div className="space-y-2">
+                <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider px-2">
+                  Status
+                </h4>
+                <div className="px-2 space-y-1">
+                  <Badge variant={reviewState === "approved" ? "default" : "secondary"}>
+                    {STATE_LABELS[reviewState]}
+                  </Badge>
+                  {review.approvedVersion && review.approvedAt && (
+                    <p className="text-xs text-muted-foreground">
+                      Version {review.approvedVersion.version} approved{" "}
+                      {formatDistanceToNow(new Date(review.approvedAt), { addSuffix: true })}
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {isLocked
+                      ? "Editing is locked. Reopen the template to make changes."
+                      : "Exporting, pushing and publishing need an approved template."}
+                  </p>
+                </div>
+                {isLocked && review.canEdit && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="w-full"
+                    disabled={reopenMutation.isPending}
+                    onClick={() => reopenMutation.mutate({ templateId })}
+                  >
+                    {reopenMutation.isPending ? (
+                      <Loader2 className="size-3.5 animate-spin" />
+                    ) : (
+                      <LockOpen className="size-3.5" />
+                    )}
+                    Reopen for editing
+                  </Button>
+                )}
+              </div>
+
+              {/* Active review */}
+              {review.activeReview && (
+                <div className="space-y-2">
+                  <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider px-2">
+                    Pending review
+                  </h4>
+                  <ReviewCard record={review.activeReview} />
+                  {review.canDecide && (
+                    <div className="space-y-2">
+                      <Textarea
+                        value={comment}
+                        onChange={(e) => setComment(e.target.value)}
+                        placeholder="Comment (required to request changes)"
+                        className="min-h-16 text-xs"
+                      />
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          className="flex-1"
+                          disabled={decideMutation.isPending}
+                          onClick={() =>
+                            decideMutation.mutate({
+                              reviewId: review.activeReview!.id,
+                              decision: "approved",
+                              comment: comment.trim() || undefined,
+                            })
+                          }
+                        >
+                          <Check className="size-3.5" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="flex-1"
+                          disabled={decideMutation.isPending || !comment.trim()}
+                          onClick={() =>
+                            decideMutation.mutate({
+                              reviewId: review.activeReview!.id,
+                              decision: "rejected",
+                              comment: comment.trim(),
+                            })
+                          }
+                        >
+                          <X className="size-3.5" />
+                          Request changes
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Request a review */}
+              {!isLocked && review.canEdit && (
+                <div className="space-y-2">
+                  <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider px-2">
+                    Request review
+                  </h4>
+                  {candidates.length === 0 ? (
+                    <p className="text-xs text-muted-foreground px-2">
+                      Invite a colleague to this workspace to request a review.
+                    </p>
+                  ) : (
+                    <div className="rounded-lg border divide-y">
+                      {candidates.map((member) => (
+                        <label
+                          key={member.id}
+                          className="flex items-center gap-2 px-2 py-1.5 cursor-pointer"
+                        >
+                          <Checkbox
+                            checked={reviewerIds.includes(member.id)}
+                            onCheckedChange={(checked) => toggleReviewer(member.id, checked === true)}
+                          />
+                          <span className="min-w-0 flex-1 truncate text-xs">
+                            {member.name || member.email}
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                  <Textarea
+                    value={message}
+                    onChange={(e) => setMessage(e.target.value)}
+                    placeholder="What should reviewers look at?"
+                    className="min-h-16 text-xs"
+                  />
+                  <Button
+                    size="sm"
+                    className="w-full"
+                    disabled={reviewerIds.length === 0 || requestMutation.isPending}
+                    onClick={() =>
+                      requestMutation.mutate({
+                        templateId,
+                        reviewerIds,
+                        message: message.trim() || undefined,
+                      })
+                    }
+                  >
+                    {requestMutation.isPending ? (
+                      <Loader2 className="size-3.5 animate-spin" />
+                    ) : (
+                      <Send className="size-3.5" />
+                    )}
+                    Request review
+                  </Button>
+                </div>
+              )}
+
+              {/* History */}
+              {history.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider px-2">
+                    History
+                  </h4>
+                  {history.map((entry) => (
+                    <ReviewCard key={entry.id} record={entry} />
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+// ============================================================================
+// Review card
+// ============================================================================
+
+function ReviewCard({ record }: { record: ReviewRecord }) {
+  return (
+    <div className="rounded-lg border p-2 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-medium truncate">
+          {record.version ? `Version ${record.version.version}` : "Deleted version"}
+        </span>
+        <Badge
+          variant={record.status === "approved" ? "default" : "secondary"}
+          className="text-[10px] px-1.5 py-0"
+        >
+          {DECISION_LABELS[record.status]}
+        </Badge>
+      </div>
+      <p className="text-[11px] text-muted-foreground">
+        {record.requestedBy?.name ?? "Someone"} requested{" "}
+        {formatDistanceToNow(new Date(record.createdAt), { addSuffix: true })}
+      </p>
+      {record.message && <p className="text-xs">{record.message}</p>}
+      <ul className="space-y-1">
+        {record.reviewers.map((reviewer) => (
+          <li key={reviewer.id} className="text-xs">
+            <div className="flex items-center justify-between gap-2">
+              <span className="truncate">{reviewer.user.name || reviewer.user.email}</span>
+              <span
+                className={cn(
+                  "text-[10px]",
+                  reviewer.decision === "approved" && "text-primary",
+                  reviewer.decision === "rejected" && "text-destructive",
+                  reviewer.decision === "pending" && "text-muted-foreground"
+                )}
+              >
+                {DECISION_LABELS[reviewer.decision]}
+              </span>
+            </div>
+            {reviewer.comment && (
+              <p className="text-[11px] text-muted-foreground">{reviewer.comment}</p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { useCanvas } from "../providers/CanvasProvider";
 import { EditorShell } from "../smart-editor/EditorShell";
 import type { TemplateNodeData } from "../nodes/TemplateNode";
 import type { ElementData, ElementUpdates } from "@/lib/react-email";
+import { resolveDesignTokenValue } from "@mocah/shared";
 
 interface SmartEditorPanelProps {
   isOpen: boolean;
@@ -51,6 +52,8 @@ export const SmartEditorPanel = ({
     accent: templateState.brandKit?.accentColor || null,
   };
 
+  const { designTokens } = templateState;
+
   // Handle live preview updates (DOM manipulation, no save)
   const handlePreviewUpdate = useCallback((elementId: string, updates: ElementUpdates) => {
     // Find the iframe and update the element directly in the DOM
@@ -66,7 +69,11 @@ export const SmartEditorPanel = ({
         if (value !== undefined && value !== null) {
           // Convert camelCase to kebab-case for CSS
           const cssProperty = property.replace(/([A-Z])/g, '-$1').toLowerCase();
-          (element as HTMLElement).style.setProperty(cssProperty, String(value));
+          // Token references (brand.primary) show their current value
+          (element as HTMLElement).style.setProperty(
+            cssProperty,
+            String(resolveDesignTokenValue(value, designTokens))
+          );
         }
       });
     }
@@ -104,7 +111,7 @@ export const SmartEditorPanel = ({
         }
       });
     }
-  }, []);
+  }, [designTokens]);
 
   return (
     <EditorShell
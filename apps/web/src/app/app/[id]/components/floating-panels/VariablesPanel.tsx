@@ -0,0 +1,356 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import {
+  TEMPLATE_VARIABLE_TYPES,
+  extractTemplateVariableKeys,
+  previewDataSetsSchema,
+  templateVariablesSchema,
+  type PreviewDataSet,
+  type TemplateVariable,
+  type TemplateVariableType,
+} from "@mocah/shared";
+import { Braces, Eye, Loader2, Plus, Trash2, X } from "lucide-react";
+import React, { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { useTemplate } from "../providers/TemplateProvider";
+
+interface VariablesPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const VariablesPanel = ({ isOpen, onClose }: VariablesPanelProps) => {
+  const { state: templateState, actions: templateActions } = useTemplate();
+
+  // Local drafts, saved together
+  const [variables, setVariables] = useState<TemplateVariable[]>(templateState.variables);
+  const [dataSets, setDataSets] = useState<PreviewDataSet[]>(templateState.previewDataSets);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset drafts when the saved declarations change (load, save, version restore)
+  useEffect(() => {
+    setVariables(templateState.variables);
+    setDataSets(templateState.previewDataSets);
+    setIsDirty(false);
+  }, [templateState.variables, templateState.previewDataSets]);
+
+  // Tags used in the code that have no declaration yet
+  const undeclaredTags = useMemo(() => {
+    const declared = new Set(variables.map((variable) => variable.key));
+    return extractTemplateVariableKeys(templateState.reactEmailCode || "").filter(
+      (tag) => !declared.has(tag.key)
+    );
+  }, [templateState.reactEmailCode, variables]);
+
+  const usedKeys = useMemo(
+    () => new Set(extractTemplateVariableKeys(templateState.reactEmailCode || "").map((tag) => tag.key)),
+    [templateState.reactEmailCode]
+  );
+
+  const updateVariables = (next: TemplateVariable[]) => {
+    setVariables(next);
+    setIsDirty(true);
+  };
+
+  const updateDataSets = (next: PreviewDataSet[]) => {
+    setDataSets(next);
+    setIsDirty(true);
+  };
+
+  const updateVariable = (index: number, changes: Partial<TemplateVariable>) => {
+    updateVariables(variables.map((variable, i) => (i === index ? { ...variable, ...changes } : variable)));
+  };
+
+  const declareTag = (key: string, fallback: string | null) => {
+    updateVariables([...variables, { key, type: "text", defaultValue: fallback ?? "" }]);
+  };
+
+  const addDataSet = () => {
+    updateDataSets([
+      ...dataSets,
+      { id: crypto.randomUUID(), name: `Data set ${dataSets.length + 1}`, values: {} },
+    ]);
+  };
+
+  const updateDataSetValue = (dataSetId: string, key: string, value: string) => {
+    updateDataSets(
+      dataSets.map((dataSet) =>
+        dataSet.id === dataSetId ? { ...dataSet, values: { ...dataSet.values, [key]: value } } : dataSet
+      )
+    );
+  };
+
+  const handleSave = async () => {
+    const keys = variables.map((variable) => variable.key);
+    if (new Set(keys).size !== keys.length) {
+      toast.error("Variable keys must be unique");
+      return;
+    }
+
+    const parsedVariables = templateVariablesSchema.safeParse(variables);
+    const parsedDataSets = previewDataSetsSchema.safeParse(dataSets);
+    if (!parsedVariables.success || !parsedDataSets.success) {
+      const issue = (parsedVariables.error ?? parsedDataSets.error)?.issues[0];
+      toast.error(issue?.message || "Some variables are invalid");
+      return;
+    }
+
+    // Values for removed variables are dropped
+    const declared = new Set(keys);
+    const cleanedDataSets = parsedDataSets.data.map((dataSet) => ({
+      ...dataSet,
+      values: Object.fromEntries(
+        Object.entries(dataSet.values).filter(([key, value]) => declared.has(key) && value !== "")
+      ),
+    }));
+
+    setIsSaving(true);
+    try {
+      await templateActions.saveVariables(parsedVariables.data, cleanedDataSets);
+      toast.success("Variables saved");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save variables");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Transition delay pattern (same as ChatPanel)
+  const [enableTransition, setEnableTransition] = useState(false);
+
+  React.useLayoutEffect(() => {
+    if (!enableTransition) {
+      requestAnimationFrame(() => {
+        requestAnimationFrame(() => setEnableTransition(true));
+      });
+    }
+  }, [enableTransition]);
+
+  return (
+    <div
+      className={cn(
+        "bg-card rounded-r-xl shadow-2xl border border-border overflow-hidden flex flex-col z-40 h-dvh",
+        enableTransition && "transition-all duration-300 ease-in-out",
+        isOpen
+          ? "translate-x-0 opacity-100 w-80"
+          : "-translate-x-full opacity-0 pointer-events-none w-0"
+      )}
+    >
+      {/* Header */}
+      <div className="p-2 border-b border-border flex justify-between items-center bg-muted">
+        <div className="flex items-center gap-2">
+          <Braces className="size-3 text-primary" />
+          <h3 className="font-semibold text-sm">Variables</h3>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button size="sm" onClick={handleSave} disabled={!isDirty || isSaving}>
+            {isSaving && <Loader2 className="size-3 animate-spin" />}
+            Save
+          </Button>
+          <Button onClick={onClose} variant="outline" size="icon">
+            <X size={16} />
+          </Button>
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1 overflow-y-auto">
+        <div className="p-4 space-y-6">
+          {/* Undeclared tags */}
+          {undeclaredTags.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider px-2">
+                Found in template
+              </h4>
+              {undeclaredTags.map((tag) => (
+                <div
+                  key={tag.key}
+                  className="rounded-lg border border-dashed border-border p-2 flex items-center justify-between gap-2"
+                >
+                  <code className="text-xs truncate">{`{{${tag.key}}}`}</code>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 text-xs"
+                    onClick={() => declareTag(tag.key, tag.fallback)}
+                  >
+                    Declare
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Declared variables */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between px-2">
+              <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                Declared
+              </h4>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="size-7"
+                aria-label="Add variable"
+                onClick={() => updateVariables([...variables, { key: "", type: "text", defaultValue: "" }])}
+              >
+                <Plus className="size-3.5" />
+              </Button>
+            </div>
+            {variables.length === 0 && (
+              <p className="text-xs text-muted-foreground px-2">
+                Use {"{{first_name}}"} in your copy, or add a variable here.
+              </p>
+            )}
+            {variables.map((variable, index) => (
+              <div key={index} className="rounded-lg border border-border p-2 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={variable.key}
+                    onChange={(e) => updateVariable(index, { key: e.target.value.trim() })}
+                    placeholder="first_name"
+                    className="h-8 text-xs font-mono"
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="size-8 shrink-0"
+                    aria-label="Remove variable"
+                    onClick={() => updateVariables(variables.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="size-3.5" />
+                  </Button>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={variable.type}
+                    onValueChange={(type) => updateVariable(index, { type: type as TemplateVariableType })}
+                  >
+                    <SelectTrigger className="h-8 w-28 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TEMPLATE_VARIABLE_TYPES.map((type) => (
+                        <SelectItem key={type} value={type} className="capitalize">
+                          {type}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={variable.defaultValue}
+                    onChange={(e) => updateVariable(index, { defaultValue: e.target.value })}
+                    placeholder="Default value"
+                    className="h-8 text-xs"
+                  />
+                </div>
+                {variable.key && !usedKeys.has(variable.key) && (
+                  <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                    Not used in template
+                  </Badge>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Preview data sets */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between px-2">
+              <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                Preview data
+              </h4>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="size-7"
+                aria-label="Add data set"
+                onClick={addDataSet}
+              >
+                <Plus className="size-3.5" />
+              </Button>
+            </div>
+            {dataSets.length === 0 && (
+              <p className="text-xs text-muted-foreground px-2">
+                Add data sets to preview the email as different recipients.
+              </p>
+            )}
+            {dataSets.map((dataSet) => {
+              const isActive = templateState.activePreviewDataSetId === dataSet.id;
+
+              return (
+                <div
+                  key={dataSet.id}
+                  className={cn(
+                    "rounded-lg border p-2 space-y-2",
+                    isActive ? "border-primary" : "border-border"
+                  )}
+                >
+                  <div className="flex items-center gap-1">
+                    <Input
+                      value={dataSet.name}
+                      onChange={(e) =>
+                        updateDataSets(
+                          dataSets.map((set) =>
+                            set.id === dataSet.id ? { ...set, name: e.target.value } : set
+                          )
+                        )
+                      }
+                      className="h-8 text-xs font-medium"
+                    />
+                    <Button
+                      size="icon"
+                      variant={isActive ? "default" : "ghost"}
+                      className="size-8 shrink-0"
+                      aria-label="Preview with this data set"
+                      aria-pressed={isActive}
+                      disabled={isDirty}
+                      onClick={() => templateActions.setActivePreviewDataSet(isActive ? null : dataSet.id)}
+                    >
+                      <Eye className="size-3.5" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="size-8 shrink-0"
+                      aria-label="Remove data set"
+                      onClick={() => updateDataSets(dataSets.filter((set) => set.id !== dataSet.id))}
+                    >
+                      <Trash2 className="size-3.5" />
+                    </Button>
+                  </div>
+                  {variables
+                    .filter((variable) => variable.key)
+                    .map((variable) => (
+                      <div key={variable.key} className="flex items-center gap-2">
+                        <code className="text-[11px] text-muted-foreground w-24 truncate shrink-0">
+                          {variable.key}
+                        </code>
+                        <Input
+                          value={dataSet.values[variable.key] ?? ""}
+                          onChange={(e) => updateDataSetValue(dataSet.id, variable.key, e.target.value)}
+                          placeholder={variable.defaultValue || "—"}
+                          className="h-7 text-xs"
+                        />
+                      </div>
+                    ))}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { trpc } from "@/utils/trpc";
+import { ArrowRight, GitCompare, X } from "lucide-react";
+
+interface VersionDiffViewProps {
+  templateId: string;
+  fromVersionId: string;
+  toVersionId: string | null;
+  onClose: () => void;
+}
+
+const CHANGE_STYLES = {
+  added: "text-emerald-700 dark:text-emerald-400 bg-emerald-500/10",
+  removed: "text-red-700 dark:text-red-400 bg-red-500/10",
+  modified: "text-amber-700 dark:text-amber-400 bg-amber-500/10",
+} as const;
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+/**
+ * Shows what changed between two versions (or a version and the current state)
+ */
+export const VersionDiffView = ({
+  templateId,
+  fromVersionId,
+  toVersionId,
+  onClose,
+}: VersionDiffViewProps) => {
+  const { data: diff, isLoading, error } = trpc.template.versions.diff.useQuery({
+    templateId,
+    fromVersionId,
+    toVersionId: toVersionId ?? undefined,
+  });
+
+  const fromLabel = diff?.from.name || (diff ? `V ${diff.from.version}` : "…");
+  const toLabel = diff?.to ? diff.to.name || `V ${diff.to.version}` : "Current";
+
+  return (
+    <div className="rounded-lg border border-border bg-muted/30">
+      <div className="flex items-center justify-between gap-2 p-2 border-b border-border">
+        <div className="flex items-center gap-1.5 text-xs font-medium min-w-0">
+          <GitCompare className="size-3 text-primary shrink-0" />
+          <span className="truncate">{fromLabel}</span>
+          <ArrowRight className="size-3 shrink-0" />
+          <span className="truncate">{toLabel}</span>
+        </div>
+        <Button onClick={onClose} variant="ghost" size="icon" className="size-6">
+          <X className="size-3" />
+        </Button>
+      </div>
+
+      {!toVersionId && (
+        <p className="px-2 pt-2 text-[11px] text-muted-foreground">
+          Pick a second version to compare, or review changes against the current state.
+        </p>
+      )}
+
+      <div className="p-2 space-y-2 max-h-80 overflow-y-auto">
+        {isLoading && (
+          <p className="text-xs text-muted-foreground">Computing diff...</p>
+        )}
+
+        {error && (
+          <p className="text-xs text-destructive">Failed to load diff: {error.message}</p>
+        )}
+
+        {diff && !diff.summary.hasChanges && (
+          <p className="text-xs text-muted-foreground">No differences.</p>
+        )}
+
+        {diff && diff.summary.hasChanges && (
+          <>
+            <div className="flex flex-wrap gap-1">
+              {diff.summary.elementsAdded > 0 && (
+                <Badge variant="secondary" className={cn("text-[10px]", CHANGE_STYLES.added)}>
+                  +{diff.summary.elementsAdded} elements
+                </Badge>
+              )}
+              {diff.summary.elementsRemoved > 0 && (
+                <Badge variant="secondary" className={cn("text-[10px]", CHANGE_STYLES.removed)}>
+                  −{diff.summary.elementsRemoved} elements
+                </Badge>
+              )}
+              {diff.summary.elementsModified > 0 && (
+                <Badge variant="secondary" className={cn("text-[10px]", CHANGE_STYLES.modified)}>
+                  {diff.summary.elementsModified} edited
+                </Badge>
+              )}
+              {diff.summary.stylesChanged > 0 && (
+                <Badge variant="secondary" className={cn("text-[10px]", CHANGE_STYLES.modified)}>
+                  {diff.summary.stylesChanged} styles
+                </Badge>
+              )}
+            </div>
+
+            {diff.metadata.map((change) => (
+              <div key={change.field} className="text-[11px] rounded bg-background p-1.5">
+                <span className="font-medium">{change.field === "subject" ? "Subject" : "Preview text"}: </span>
+                <span className="line-through text-muted-foreground">{formatValue(change.before)}</span>{" "}
+                <span>{formatValue(change.after)}</span>
+              </div>
+            ))}
+
+            {diff.jsx.map((change, index) => (
+              <div
+                key={`${change.type}-${change.path}-${index}`}
+                className={cn("text-[11px] rounded p-1.5 space-y-0.5", CHANGE_STYLES[change.type])}
+              >
+                <div className="font-mono break-all">
+                  {change.type === "added" ? "+ " : change.type === "removed" ? "− " : "~ "}
+                  {change.path}
+                </div>
+                {change.textChange && (
+                  <div className="text-foreground/80">
+                    <span className="line-through">{change.textChange.before || "—"}</span>{" "}
+                    <span>{change.textChange.after || "—"}</span>
+                  </div>
+                )}
+                {change.attributeChanges?.map((attribute) => (
+                  <div key={attribute.name} className="font-mono text-foreground/80 break-all">
+                    {attribute.name}: {formatValue(attribute.before)} → {formatValue(attribute.after)}
+                  </div>
+                ))}
+              </div>
+            ))}
+
+            {diff.styles.map((change) => (
+              <div
+                key={`style-${change.styleName}`}
+                className={cn("text-[11px] rounded p-1.5 space-y-0.5", CHANGE_STYLES[change.type])}
+              >
+                <div className="font-mono">{change.styleName}</div>
+                {change.properties.map((property) => (
+                  <div key={property.property} className="font-mono text-foreground/80 break-all">
+                    {property.property}: {formatValue(property.before)} → {formatValue(property.after)}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -2,6 +2,7 @@
 
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
 import { trpc } from "@/utils/trpc";
@@ -10,12 +11,17 @@ import {
   Check,
   History,
   X,
-  Eye
+  Eye,
+  GitCompare,
+  Pencil,
+  Pin,
+  PinOff
 } from "lucide-react";
 import { useParams } from "next/navigation";
 import React, { useCallback, useMemo, useState } from "react";
 import { toast } from "sonner";
 import { useTemplate } from "../providers/TemplateProvider";
+import { VersionDiffView } from "./VersionDiffView";
 
 interface VersionHistoryPanelProps {
   isOpen: boolean;
@@ -37,8 +43,93 @@ export const VersionHistoryPanel = ({
     { enabled: !!templateId }
   );
 
+  const { data: retention } = trpc.template.versions.retention.useQuery(
+    { templateId },
+    { enabled: !!templateId }
+  );
+
+  const utils = trpc.useUtils();
+  // Note: Using `any` for callback parameters to prevent "Type instantiation is excessively deep" error
+  const updateVersionMutation = trpc.template.versions.update.useMutation({
+    onSuccess: () => {
+      utils.template.versions.list.invalidate({ templateId });
+      utils.template.versions.retention.invalidate({ templateId });
+    },
+    onError: (error: any) => {
+      toast.error(`Failed to update version: ${error.message}`);
+    },
+  });
+
   const currentVersionId = templateState.currentVersion;
 
+  // Inline rename
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+
+  const startRename = useCallback(
+    (event: React.MouseEvent, versionId: string, currentName: string) => {
+      event.stopPropagation();
+      setRenamingId(versionId);
+      setRenameValue(currentName);
+    },
+    []
+  );
+
+  const submitRename = useCallback(() => {
+    const name = renameValue.trim();
+    if (renamingId && name) {
+      updateVersionMutation.mutate({ versionId: renamingId, name });
+    }
+    setRenamingId(null);
+  }, [renamingId, renameValue, updateVersionMutation]);
+
+  const handleTogglePin = useCallback(
+    (event: React.MouseEvent, versionId: string, isPinned: boolean) => {
+      event.stopPropagation();
+      updateVersionMutation.mutate(
+        { versionId, isPinned: !isPinned },
+        {
+          onSuccess: () => {
+            toast.success(isPinned ? "Version unpinned" : "Version pinned");
+          },
+        }
+      );
+    },
+    [updateVersionMutation]
+  );
+
+  // Compare mode: first pick is the base, second pick is the target
+  // (no target = compare against the current template state)
+  const [compareFromId, setCompareFromId] = useState<string | null>(null);
+  const [compareToId, setCompareToId] = useState<string | null>(null);
+
+  const handleCompareClick = useCallback(
+    (event: React.MouseEvent, versionId: string) => {
+      event.stopPropagation();
+
+      if (compareFromId === versionId) {
+        setCompareFromId(null);
+        setCompareToId(null);
+        return;
+      }
+      if (compareToId === versionId) {
+        setCompareToId(null);
+        return;
+      }
+      if (!compareFromId) {
+        setCompareFromId(versionId);
+        return;
+      }
+      setCompareToId(versionId);
+    },
+    [compareFromId, compareToId]
+  );
+
+  const clearCompare = useCallback(() => {
+    setCompareFromId(null);
+    setCompareToId(null);
+  }, []);
+
   // Transition delay pattern (same as ChatPanel)
   const [enableTransition, setEnableTransition] = useState(false);
 
@@ -77,6 +168,7 @@ export const VersionHistoryPanel = ({
     createdAt: string | Date;
     changeNote: string | null;
     createdBy: string | null;
+    isPinned: boolean;
     metadata: unknown;
   };
 
@@ -87,6 +179,9 @@ export const VersionHistoryPanel = ({
     ) as VersionItem[];
   }, [versions]);
 
+  // Pinned versions don't count toward the plan's retention limit
+  const unpinnedCount = sortedVersions.filter((v) => !v.isPinned).length;
+
   return (
     <div
       className={cn(
@@ -116,6 +211,16 @@ export const VersionHistoryPanel = ({
           </div>
         ) : (
           <div className="p-4 space-y-3">
+            {/* Diff Section */}
+            {compareFromId && (
+              <VersionDiffView
+                templateId={templateId}
+                fromVersionId={compareFromId}
+                toVersionId={compareToId}
+                onClose={clearCompare}
+              />
+            )}
+
             {/* Current Version Section */}
             <div>
               <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-2 px-2">
@@ -156,11 +261,20 @@ export const VersionHistoryPanel = ({
             {sortedVersions.length > 0 && (
               <div>
                 <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-2 px-2">
-                  Version History ({sortedVersions.length}/10)
+                  Version History
+                  {retention && ` (${unpinnedCount}/${retention.maxVersions})`}
                 </h4>
+                {retention && retention.pinnedCount > 0 && (
+                  <p className="text-[11px] text-muted-foreground mb-2 px-2">
+                    {retention.pinnedCount} pinned {retention.pinnedCount === 1 ? "version is" : "versions are"} kept permanently
+                  </p>
+                )}
                 <div className="space-y-2">
                   {sortedVersions.map((version: VersionItem) => {
               const isPreviewing = templateState.previewingVersionId === version.id;
+              const isCompareBase = compareFromId === version.id;
+              const isCompareTarget = compareToId === version.id;
+              const isRenaming = renamingId === version.id;
              
               return (
                 <div
@@ -168,23 +282,81 @@ export const VersionHistoryPanel = ({
                   className={cn(
                     "rounded-lg border border-border cursor-pointer transition-colors",
                     isPreviewing && "border-amber-500 bg-amber-500/5",
-                    !isPreviewing && "hover:bg-muted/50"
+                    !isPreviewing && "hover:bg-muted/50",
+                    version.isPinned && !isPreviewing && "border-primary/40"
                   )}
                   onClick={() => handlePreviewVersion(version.id)}
                 >
                   <div className="flex items-start justify-between gap-2">
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center justify-between gap-2 p-2">
-                        <span className="font-medium text-sm">
-                          {version.name || `V ${version.version}`}
-                        </span>
-
-                        {isPreviewing && (
-                          <Badge variant="secondary" className="text-xs px-2 py-0.5 bg-amber-500/20 text-amber-700 dark:text-amber-400">
-                            <Eye className="w-3 h-3 mr-1" />
-                            Previewing
-                          </Badge>
+                        {isRenaming ? (
+                          <Input
+                            autoFocus
+                            value={renameValue}
+                            maxLength={100}
+                            className="h-6 text-sm"
+                            onClick={(event) => event.stopPropagation()}
+                            onChange={(event) => setRenameValue(event.target.value)}
+                            onBlur={submitRename}
+                            onKeyDown={(event) => {
+                              if (event.key === "Enter") submitRename();
+                              if (event.key === "Escape") setRenamingId(null);
+                            }}
+                          />
+                        ) : (
+                          <span className="flex items-center gap-1 font-medium text-sm min-w-0">
+                            {version.isPinned && <Pin className="size-3 text-primary shrink-0" />}
+                            <span className="truncate">{version.name || `V ${version.version}`}</span>
+                          </span>
                         )}
+
+                        <div className="flex items-center gap-1">
+                          {isPreviewing && (
+                            <Badge variant="secondary" className="text-xs px-2 py-0.5 bg-amber-500/20 text-amber-700 dark:text-amber-400">
+                              <Eye className="w-3 h-3 mr-1" />
+                              Previewing
+                            </Badge>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="size-6"
+                            title="Rename version"
+                            onClick={(event) =>
+                              startRename(event, version.id, version.name || `V ${version.version}`)
+                            }
+                          >
+                            <Pencil className="size-3" />
+                          </Button>
+                          <Button
+                            variant={version.isPinned ? "secondary" : "ghost"}
+                            size="icon"
+                            className="size-6"
+                            title={version.isPinned ? "Unpin version" : "Pin version (never auto-deleted)"}
+                            disabled={updateVersionMutation.isPending}
+                            onClick={(event) => handleTogglePin(event, version.id, version.isPinned)}
+                          >
+                            {version.isPinned ? <PinOff className="size-3" /> : <Pin className="size-3" />}
+                          </Button>
+                          <Button
+                            variant={isCompareBase || isCompareTarget ? "secondary" : "ghost"}
+                            size="icon"
+                            className="size-6"
+                            title={
+                              isCompareBase
+                                ? "Comparing from this version"
+                                : isCompareTarget
+                                  ? "Comparing to this version"
+                                  : compareFromId
+                                    ? "Compare to this version"
+                                    : "Compare from this version"
+                            }
+                            onClick={(event) => handleCompareClick(event, version.id)}
+                          >
+                            <GitCompare className="size-3" />
+                          </Button>
+                        </div>
                       </div>
 
                       {version.changeNote && (
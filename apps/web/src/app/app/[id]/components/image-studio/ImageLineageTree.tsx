@@ -0,0 +1,158 @@
+"use client";
+
+import React, { memo } from "react";
+import { toast } from "sonner";
+import { GitBranch } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import { trpc } from "@/utils/trpc";
+import type { GeneratedImage } from "./types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface LineageNode {
+  id: string;
+  depth: number;
+  version: number;
+  variationType: string;
+  isActive: boolean;
+  prompt: string;
+  image: {
+    id: string;
+    url: string;
+    width: number | null;
+    height: number | null;
+  };
+}
+
+interface ImageLineageTreeProps {
+  /** Image asset ID of the image being previewed */
+  imageId: string;
+  onSelectImage: (image: GeneratedImage) => void;
+}
+
+const VARIATION_LABELS: Record<string, string> = {
+  original: "Original",
+  regeneration: "Regenerated",
+  variation: "Variation",
+  upscale: "Upscaled",
+  edit: "Edited",
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * Version tree of the previewed image
+ * Lets designers step back to any ancestor and choose the active version.
+ * Hidden for images with no other versions.
+ */
+export const ImageLineageTree = memo(function ImageLineageTree({
+  imageId,
+  onSelectImage,
+}: ImageLineageTreeProps) {
+  const utils = trpc.useUtils();
+
+  // Note: Type assertion to prevent "Type instantiation is excessively deep" error
+  const { data: lineage } = trpc.imageAsset.getLineage.useQuery(
+    { imageId },
+    { staleTime: 30_000 }
+  ) as {
+    data:
+      | { rootImageId: string; nodeId: string; ancestorIds: string[]; nodes: LineageNode[] }
+      | null
+      | undefined;
+  };
+
+  const setActive = trpc.imageAsset.setActiveVersion.useMutation({
+    onSuccess: () => {
+      utils.imageAsset.getLineage.invalidate();
+      toast.success("Active version updated");
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to update active version");
+    },
+  });
+
+  if (!lineage || lineage.nodes.length < 2) return null;
+
+  const ancestorIds = new Set(lineage.ancestorIds);
+
+  return (
+    <div className="w-64 shrink-0 border-l bg-background flex flex-col">
+      <div className="flex items-center gap-2 px-4 py-3 border-b">
+        <GitBranch className="size-4 text-muted-foreground" />
+        <p className="text-xs font-medium text-muted-foreground">
+          Versions ({lineage.nodes.length})
+        </p>
+      </div>
+      <ScrollArea className="flex-1">
+        <ul className="p-2 space-y-1">
+          {lineage.nodes.map((node) => {
+            const isSelected = node.image.id === imageId;
+            return (
+              <li key={node.id} style={{ paddingLeft: node.depth * 12 }}>
+                <div
+                  className={cn(
+                    "group flex items-center gap-2 rounded-md p-1.5 text-left transition-colors",
+                    isSelected
+                      ? "bg-primary/10 ring-1 ring-primary"
+                      : ancestorIds.has(node.id)
+                        ? "bg-muted/60 hover:bg-muted"
+                        : "hover:bg-muted"
+                  )}
+                >
+                  <button
+                    type="button"
+                    className="flex flex-1 items-center gap-2 min-w-0"
+                    title={node.prompt}
+                    onClick={() =>
+                      onSelectImage({
+                        id: node.image.id,
+                        url: node.image.url,
+                        width: node.image.width ?? undefined,
+                        height: node.image.height ?? undefined,
+                      })
+                    }
+                  >
+                    <img
+                      src={node.image.url}
+                      alt={`Version ${node.version}`}
+                      className="size-10 shrink-0 rounded object-cover"
+                    />
+                    <div className="min-w-0">
+                      <p className="text-xs font-medium">V{node.version}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {VARIATION_LABELS[node.variationType] ?? node.variationType}
+                      </p>
+                    </div>
+                  </button>
+                  {node.isActive ? (
+                    <Badge variant="secondary" className="text-[10px] px-1.5">
+                      Active
+                    </Badge>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-[10px] opacity-0 group-hover:opacity-100"
+                      disabled={setActive.isPending}
+                      onClick={() => setActive.mutate({ imageId: node.image.id })}
+                    >
+                      Mark active
+                    </Button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </ScrollArea>
+    </div>
+  );
+});
@@ -20,6 +20,7 @@ import { useRouter, useSearchParams } from "next/navigation";
 import { useImageStudio } from "./ImageStudioContext";
 import { ImageStudioControls } from "./ImageStudioControls";
 import { ImageStudioPreview } from "./ImageStudioPreview";
+import { ImageLineageTree } from "./ImageLineageTree";
 import { useImageUpload, useImageGeneration } from "./hooks";
 import {
   MODEL_AUTO,
@@ -77,6 +78,11 @@ export function ImageStudioModal() {
   const [referenceImages, setReferenceImages] = useState<string[]>(
     initialImageUrl ? [initialImageUrl] : []
   );
+  // Stored image picked via "Use as Reference" - generating from it adds a version
+  const [referenceSource, setReferenceSource] = useState<{
+    id: string;
+    url: string;
+  } | null>(null);
 
   // Generation state
   const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>([]);
@@ -237,6 +243,15 @@ export function ImageStudioModal() {
 
     setSelectedImage(null);
 
+    // Only while the reference is still exactly that image
+    const sourceImageId =
+      useReferenceImages &&
+      referenceSource &&
+      referenceImages.length === 1 &&
+      referenceImages[0] === referenceSource.url
+        ? referenceSource.id
+        : undefined;
+
     await generate({
       prompt,
       model,
@@ -248,6 +263,7 @@ export function ImageStudioModal() {
           : undefined,
       numImages: 1,
       includeBrandGuide,
+      sourceImageId,
     });
   }, [
     canGenerateImage,
@@ -260,6 +276,7 @@ export function ImageStudioModal() {
     outputFormat,
     useReferenceImages,
     referenceImages,
+    referenceSource,
     includeBrandGuide,
   ]);
 
@@ -285,7 +302,9 @@ export function ImageStudioModal() {
     toast.success("Image URL copied to clipboard");
   }, [selectedImage]);
 
-  const handleUseAsReference = useCallback((url: string) => {
+  const handleUseAsReference = useCallback((url: string, imageId: string) => {
+    // Placeholder IDs for images passed in from the editor aren't stored assets
+    setReferenceSource(imageId.startsWith("initial") ? null : { id: imageId, url });
     setUseReferenceImages(true);
     setReferenceImageUrls(url);
     setReferenceImages([url]);
@@ -440,6 +459,14 @@ export function ImageStudioModal() {
               onImageError={handleImageError}
             />
           </div>
+
+          {/* Version tree of the selected image */}
+          {selectedImage && !selectedImage.id.startsWith("initial") && (
+            <ImageLineageTree
+              imageId={selectedImage.id}
+              onSelectImage={setSelectedImage}
+            />
+          )}
         </div>
       </DialogContent>
     </Dialog>
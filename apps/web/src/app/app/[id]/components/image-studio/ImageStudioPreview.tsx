@@ -346,7 +346,7 @@ interface ImageStudioPreviewProps {
   zoomLevel: number;
   onZoomLevelChange: (zoom: number) => void;
   onSelectImage: (image: GeneratedImage) => void;
-  onUseAsReference: (url: string) => void;
+  onUseAsReference: (url: string, imageId: string) => void;
   onUseImage: () => void;
   onCopyImageUrl: () => void;
   onClearImages: () => void;
@@ -391,7 +391,7 @@ export const ImageStudioPreview = memo(function ImageStudioPreview({
                     size="icon"
                     className="size-8"
                     aria-label="Use as Reference"
-                    onClick={() => onUseAsReference(selectedImage.url)}
+                    onClick={() => onUseAsReference(selectedImage.url, selectedImage.id)}
                   >
                     <RefreshCw className="size-4" />
                   </Button>
@@ -35,6 +35,8 @@ interface GenerateParams {
   imageUrls?: string[];
   numImages?: number;
   includeBrandGuide?: boolean;
+  /** Image asset being reworked - outputs become new versions in its tree */
+  sourceImageId?: string;
 }
 
 // ============================================================================
@@ -115,7 +117,14 @@ export function useImageGeneration({
           body.imageUrls = params.imageUrls;
         }
 
-        const response = await fetch("/api/image/generate", {
+        // Reworking a stored image goes through regenerate so the outputs
+        // are linked to it as new versions
+        if (params.sourceImageId) {
+          body.sourceImageId = params.sourceImageId;
+        }
+
+        const endpoint = body.sourceImageId ? "/api/image/regenerate" : "/api/image/generate";
+        const response = await fetch(endpoint, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify(body),
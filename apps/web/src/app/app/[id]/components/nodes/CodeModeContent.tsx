@@ -3,12 +3,14 @@
 import Loader from "@/components/loader";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { stripElementIds } from "@mocah/shared";
 import { AlertTriangle, Copy, RefreshCw } from "lucide-react";
 import React, { useCallback, useEffect, useRef, useState } from "react";
 import { toast } from "sonner";
 import type { CodeEditorRef } from "../code-editor/CodeEditor";
 import { HtmlCodeViewer } from "../code-editor/HtmlCodeViewer";
 import { ReactEmailCodeEditor } from "../code-editor/ReactEmailCodeEditor";
+import { useTemplate } from "../providers/TemplateProvider";
 
 interface CodeModeContentProps {
   template: {
@@ -49,6 +51,7 @@ export function CodeModeContent({
   onEditorScrollRef,
   drawerState,
 }: CodeModeContentProps) {
+  const { state: templateState } = useTemplate();
   const [activeTab, setActiveTab] = useState<"react" | "html">("react");
   // Cache rendered HTML to prevent unnecessary re-renders when switching tabs
   const [cachedHtml, setCachedHtml] = useState<{
@@ -165,7 +168,7 @@ export function CodeModeContent({
                 size="sm"
                 className="scale-100 focus-visible:scale-105 transition-transform"
                 onClick={() => {
-                  navigator.clipboard.writeText(reactEmailCode);
+                  navigator.clipboard.writeText(stripElementIds(reactEmailCode));
                   toast.success("React Email code copied to clipboard");
                 }}
               >
@@ -232,6 +235,7 @@ export function CodeModeContent({
             onLoadingChange={setHtmlLoading}
             onErrorChange={setHtmlError}
             refreshTrigger={htmlRefreshTrigger}
+            designTokens={templateState.designTokens}
           />
         )}
       </div>
@@ -1,10 +1,28 @@
 "use client";
 
-import { ReactEmailPreview } from "../view-mode/ReactEmailPreview";
+import { useEffect, useMemo } from "react";
+import { ReactEmailPreview, type CommentPin } from "../view-mode/ReactEmailPreview";
+import { PreviewDataSetSelect } from "../view-mode/PreviewDataSetSelect";
 import { useEditorMode } from "../providers/EditorModeProvider";
-import { useTemplate } from "../providers/TemplateProvider";
+import { getPreviewData, useTemplate } from "../providers/TemplateProvider";
 import { useErrorFix } from "../providers/ErrorFixProvider";
+import { useStructureEditing } from "../smart-editor/hooks";
 import type { ElementData } from "@/lib/react-email";
+import { trpc } from "@/utils/trpc";
+
+interface LocaleList {
+  defaultLocale: string;
+  locales: Array<{ locale: string; strings: Record<string, string> }>;
+}
+
+interface CommentThreadList {
+  threads: Array<{
+    id: string;
+    elementId: string;
+    detached: boolean;
+    resolvedAt: string | Date | null;
+  }>;
+}
 
 interface ViewModeContentProps {
   template: {
@@ -19,6 +37,51 @@ export function ViewModeContent({ template }: ViewModeContentProps) {
   const { state: editorState, actions: editorActions } = useEditorMode();
   const { state: templateState, actions: templateActions } = useTemplate();
   const { onRequestErrorFix } = useErrorFix();
+  const structure = useStructureEditing();
+
+  const templateId = templateState.currentTemplate?.id;
+  // Note: Type assertion to prevent "Type instantiation is excessively deep" error
+  const { data: localeList } = trpc.template.locales.list.useQuery(
+    { templateId: templateId! },
+    { enabled: !!templateId }
+  ) as { data: LocaleList | undefined };
+
+  // Note: Type assertion to prevent "Type instantiation is excessively deep" error
+  const { data: commentList } = trpc.template.comments.list.useQuery(
+    { templateId: templateId! },
+    { enabled: !!templateId }
+  ) as { data: CommentThreadList | undefined };
+
+  // Threads are re-anchored on load, so refetch once saved code settles
+  const utils = trpc.useUtils();
+  const { isStreaming } = templateState;
+  useEffect(() => {
+    if (templateId && !isStreaming) {
+      utils.template.comments.list.invalidate({ templateId });
+    }
+  }, [template.reactEmailCode, templateId, isStreaming, utils]);
+
+  // One pin per element with open threads; clicking opens the first one
+  const commentPins = useMemo<CommentPin[]>(() => {
+    const pins = new Map<string, CommentPin>();
+    for (const thread of commentList?.threads ?? []) {
+      if (thread.resolvedAt || thread.detached) continue;
+      const pin = pins.get(thread.elementId);
+      if (pin) {
+        pin.count++;
+      } else {
+        pins.set(thread.elementId, { elementId: thread.elementId, threadId: thread.id, count: 1 });
+      }
+    }
+    return [...pins.values()];
+  }, [commentList]);
+
+  // Stable reference so the preview only re-renders when the data actually changes
+  const { variables, previewDataSets, activePreviewDataSetId } = templateState;
+  const previewData = useMemo(
+    () => getPreviewData({ variables, previewDataSets, activePreviewDataSetId }),
+    [variables, previewDataSets, activePreviewDataSetId]
+  );
 
   // Handle element selection in React Email templates
   const handleElementSelect = (elementData: ElementData | null) => {
@@ -42,18 +105,38 @@ export function ViewModeContent({ template }: ViewModeContentProps) {
   };
 
   return (
-    <div className="w-full h-full overflow-hidden bg-background">
+    <div className="relative w-full h-full overflow-hidden bg-background">
       <ReactEmailPreview 
         reactEmailCode={template.reactEmailCode || ""}
         styleDefinitions={template.styleDefinitions}
         enableSelection={editorState.designMode} // Only enable when design mode is active
         onElementSelect={handleElementSelect}
+        onElementMove={structure.canEdit ? structure.moveElement : undefined}
         renderKey={editorState.previewRenderKey} // Force re-render when this changes
         onRenderComplete={templateActions.onPreviewRenderComplete}
         validationError={templateState.validationError}
         onFixValidationError={handleFixValidationError}
         onDismissValidationError={handleDismissValidationError}
+        previewData={previewData}
+        designTokens={templateState.designTokens}
+        locales={localeList?.locales}
+        defaultLocale={localeList?.defaultLocale}
+        activeLocale={templateState.activeLocale}
+        onLocaleChange={templateActions.setActiveLocale}
+        commentPins={commentPins}
+        activeCommentThreadId={editorState.activeCommentThread}
+        onCommentPinClick={editorActions.setActiveCommentThread}
       />
+
+      {previewDataSets.length > 0 && (
+        <div className="absolute right-3 top-3 z-10">
+          <PreviewDataSetSelect
+            dataSets={previewDataSets}
+            activeDataSetId={activePreviewDataSetId}
+            onChange={templateActions.setActivePreviewDataSet}
+          />
+        </div>
+      )}
     </div>
   );
 }
@@ -26,6 +26,7 @@ interface EditorModeState {
   pendingChanges: PendingElementChanges | null; // Current element's pending changes (for backward compat)
   allPendingChanges: PendingChangesMap; // All pending changes across all elements
   previewRenderKey: number; // Increment to force preview re-render
+  activeCommentThread: string | null; // Thread focused from a preview pin or link
 }
 
 export interface EditorModeActions {
@@ -48,6 +49,8 @@ export interface EditorModeActions {
   getPendingChangesForElement: (elementId: string) => PendingElementChanges | undefined;
   // Preview re-render
   refreshPreview: () => void;
+  // Comments
+  setActiveCommentThread: (threadId: string | null) => void;
 }
 
 interface EditorModeContextValue {
@@ -78,6 +81,7 @@ export function EditorModeProvider({ children }: { children: React.ReactNode })
     pendingChanges: null,
     allPendingChanges: new Map(),
     previewRenderKey: 0,
+    activeCommentThread: null,
   });
 
   const setGlobalMode = useCallback((mode: EditorMode) => {
@@ -304,6 +308,13 @@ export function EditorModeProvider({ children }: { children: React.ReactNode })
     }));
   }, []);
 
+  const setActiveCommentThread = useCallback((threadId: string | null) => {
+    setState((prev) => ({
+      ...prev,
+      activeCommentThread: threadId,
+    }));
+  }, []);
+
   const getNodeMode = useCallback(
     (nodeId: string): EditorMode => {
       return state.nodeOverrides[nodeId] || state.globalMode;
@@ -354,6 +365,7 @@ export function EditorModeProvider({ children }: { children: React.ReactNode })
     getAllPendingChanges,
     getPendingChangesForElement,
     refreshPreview,
+    setActiveCommentThread,
   };
 
   return (
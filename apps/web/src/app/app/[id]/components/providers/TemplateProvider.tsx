@@ -8,8 +8,19 @@ import React, {
   useContext,
   useState,
   useEffect,
+  useRef,
 } from "react";
-import { convertDates, logger } from "@mocah/shared";
+import {
+  convertDates,
+  logger,
+  previewDataSetsSchema,
+  resolveDesignTokens,
+  templateVariablesSchema,
+  type DesignTokens,
+  type PreviewData,
+  type PreviewDataSet,
+  type TemplateVariable,
+} from "@mocah/shared";
 import { useStreamTemplate } from "@/hooks/use-stream-template";
 import { useOrganization } from "@/contexts/organization-context";
 import {
@@ -36,6 +47,7 @@ interface TemplateState {
   versions: TemplateVersion[];
   currentVersion: string | null;
   brandKit: BrandKit | null;
+  designTokens: DesignTokens; // Values the code's brand.* references render with
   isDirty: boolean;
   isLoading: boolean;
   isSwitchingVersion: boolean; // True when switching to a different version
@@ -56,6 +68,14 @@ interface TemplateState {
   // React Email specific state
   reactEmailCode: string | null;
   styleDefinitions: Record<string, React.CSSProperties>;
+
+  // Personalization variables
+  variables: TemplateVariable[];
+  previewDataSets: PreviewDataSet[];
+  activePreviewDataSetId: string | null; // Data set substituted into the preview (null = defaults)
+
+  // Localization
+  activeLocale: string | null; // Locale shown in the preview (null = source language)
 }
 
 export interface TemplateActions {
@@ -67,9 +87,9 @@ export interface TemplateActions {
   deleteVersion: (versionId: string) => Promise<void>;
   updateElement: (elementPath: string, data: any) => void;
   regenerateElement: (elementPath: string, prompt: string) => Promise<void>;
-  regenerateTemplate: (prompt: string, imageUrls?: string[], includeBrandGuide?: boolean) => Promise<void>;
+  regenerateTemplate: (prompt: string, imageUrls?: string[], includeBrandGuide?: boolean, brandKitId?: string) => Promise<void>;
   generateTemplate: (prompt: string) => Promise<Template | null>;
-  generateTemplateStream: (prompt: string, imageUrls?: string[], includeBrandGuide?: boolean) => Promise<void>;
+  generateTemplateStream: (prompt: string, imageUrls?: string[], includeBrandGuide?: boolean, brandKitId?: string) => Promise<void>;
   cancelGeneration: () => void;
   setIsDirty: (dirty: boolean) => void;
   onPreviewRenderComplete: () => void; // Called when preview finishes rendering
@@ -85,6 +105,13 @@ export interface TemplateActions {
   saveReactEmailCode: (code: string, styleDefinitions?: Record<string, React.CSSProperties>) => Promise<void>;
   resetReactEmailCode: () => void;
   refetchTemplate: () => Promise<void>;
+
+  // Personalization variable actions
+  saveVariables: (variables: TemplateVariable[], previewDataSets: PreviewDataSet[]) => Promise<void>;
+  setActivePreviewDataSet: (dataSetId: string | null) => void;
+
+  // Localization actions
+  setActiveLocale: (locale: string | null) => void;
 }
 
 interface TemplateContextValue {
@@ -104,6 +131,19 @@ export function useTemplate() {
   return context;
 }
 
+/**
+ * Preview values for the active data set (declared defaults when none is selected)
+ */
+export function getPreviewData(
+  state: Pick<TemplateState, "variables" | "previewDataSets" | "activePreviewDataSetId">
+): PreviewData | undefined {
+  if (state.variables.length === 0 && state.previewDataSets.length === 0) {
+    return undefined;
+  }
+  const dataSet = state.previewDataSets.find((set) => set.id === state.activePreviewDataSetId);
+  return { variables: state.variables, values: dataSet?.values };
+}
+
 export function TemplateProvider({
   children,
   templateId,
@@ -117,6 +157,7 @@ export function TemplateProvider({
     versions: [],
     currentVersion: null,
     brandKit: null,
+    designTokens: resolveDesignTokens(null),
     isDirty: false,
     isLoading: false,
     isSwitchingVersion: false,
@@ -130,8 +171,18 @@ export function TemplateProvider({
     previewVersionData: null,
     reactEmailCode: null,
     styleDefinitions: {},
+    variables: [],
+    previewDataSets: [],
+    activePreviewDataSetId: null,
+    activeLocale: null,
   });
 
+  // Latest tokens for the streaming callbacks, which outlive renders
+  const designTokensRef = useRef(state.designTokens);
+  useEffect(() => {
+    designTokensRef.current = state.designTokens;
+  }, [state.designTokens]);
+
   // Streaming hook for initial generation
   const {
     partialTemplate,
@@ -179,7 +230,10 @@ export function TemplateProvider({
         if (template.reactEmailCode) {
           try {
             const { renderReactEmailClientSide } = await import("@/lib/react-email/client-renderer");
-            htmlCode = await renderReactEmailClientSide(template.reactEmailCode, { skipCache: false });
+            htmlCode = await renderReactEmailClientSide(template.reactEmailCode, {
+              skipCache: false,
+              designTokens: designTokensRef.current,
+            });
           } catch (renderError) {
             // Log but don't fail the save if HTML generation fails
             logger.warn("[TemplateProvider] Failed to generate HTML for preview:", {
@@ -302,6 +356,9 @@ export function TemplateProvider({
     },
   });
 
+  // Brand kit picked for the running regeneration, saved with its result
+  const regenerationBrandKitIdRef = useRef<string | null>(null);
+
   // Streaming hook for regeneration
   const {
     partialTemplate: regenerationPartialTemplate,
@@ -351,6 +408,10 @@ export function TemplateProvider({
           styleType: mappedStyleType,
           styleDefinitions,
           previewText: template.previewText,
+          // Record the brand picked for this regeneration
+          ...(regenerationBrandKitIdRef.current && {
+            brandKitId: regenerationBrandKitIdRef.current,
+          }),
         };
         
         logger.info("🔄 [TemplateProvider] Saving regenerated template data:", {
@@ -527,6 +588,14 @@ export function TemplateProvider({
     },
   });
 
+  const restoreVersionMutation = trpc.template.versions.restore.useMutation({
+    onSuccess: () => {
+      if (templateId) {
+        utils.template.versions.list.invalidate({ templateId });
+      }
+    },
+  });
+
   // tRPC queries - fetch template data
   // Note: No retry needed for NOT_FOUND since skeleton is created before navigation
   const {
@@ -559,13 +628,23 @@ export function TemplateProvider({
   useEffect(() => {
     if (templateData) {
       const processedData = convertDates(templateData);
+      const variables = templateVariablesSchema.safeParse(processedData.variables ?? []);
+      const previewDataSets = previewDataSetsSchema.safeParse(processedData.previewDataSets ?? []);
+
+      // Template's own brand unless it was deleted, otherwise the organization default
+      const brandKit = (processedData.brandKit && !processedData.brandKit.deletedAt
+        ? processedData.brandKit
+        : processedData.organization.brandKit) as BrandKit;
 
       setState((prev) => ({
         ...prev,
+        variables: variables.success ? variables.data : [],
+        previewDataSets: previewDataSets.success ? previewDataSets.data : [],
         currentTemplate: processedData as Template,
         versions: processedData.versions as TemplateVersion[],
         currentVersion: processedData.currentVersionId,
-        brandKit: processedData.organization.brandKit as BrandKit,
+        brandKit,
+        designTokens: resolveDesignTokens(brandKit),
         reactEmailCode: processedData.reactEmailCode || null,
         styleDefinitions: (processedData.styleDefinitions as Record<string, React.CSSProperties>) || {},
         // Only set isLoading to false if we're not waiting for render
@@ -623,7 +702,10 @@ export function TemplateProvider({
       if (state.reactEmailCode) {
         try {
           const { renderReactEmailClientSide } = await import("@/lib/react-email/client-renderer");
-          htmlCode = await renderReactEmailClientSide(state.reactEmailCode, { skipCache: false });
+          htmlCode = await renderReactEmailClientSide(state.reactEmailCode, {
+            skipCache: false,
+            designTokens: state.designTokens,
+          });
         } catch (renderError) {
           // Log but don't fail the save if HTML generation fails
           logger.warn("[TemplateProvider] Failed to generate HTML for preview:", {
@@ -643,7 +725,7 @@ export function TemplateProvider({
     } catch (error) {
       console.error("Failed to save template:", error);
     }
-  }, [state.currentTemplate, state.reactEmailCode, state.styleDefinitions, updateMutation]);
+  }, [state.currentTemplate, state.reactEmailCode, state.styleDefinitions, state.designTokens, updateMutation]);
 
   const createVersion = useCallback(
     async (name?: string, changeNote?: string) => {
@@ -768,7 +850,7 @@ export function TemplateProvider({
   );
 
   const regenerateTemplate = useCallback(
-    async (prompt: string, imageUrls?: string[], includeBrandGuide?: boolean) => {
+    async (prompt: string, imageUrls?: string[], includeBrandGuide?: boolean, brandKitId?: string) => {
       if (!state.currentTemplate) {
         throw new Error("No template loaded");
       }
@@ -788,7 +870,10 @@ export function TemplateProvider({
           imageCount: imageUrls?.length || 0,
         });
 
-        await regenerateStream(prompt, imageUrls, includeBrandGuide);
+        regenerationBrandKitIdRef.current =
+          brandKitId && brandKitId !== state.currentTemplate.brandKitId ? brandKitId : null;
+
+        await regenerateStream(prompt, imageUrls, includeBrandGuide, brandKitId);
       } catch (error) {
         console.error("Failed to regenerate template:", error);
         setState((prev) => ({
@@ -890,7 +975,10 @@ export function TemplateProvider({
       let htmlCode: string | undefined;
       try {
         const { renderReactEmailClientSide } = await import("@/lib/react-email/client-renderer");
-        htmlCode = await renderReactEmailClientSide(code, { skipCache: false });
+        htmlCode = await renderReactEmailClientSide(code, {
+          skipCache: false,
+          designTokens: state.designTokens,
+        });
       } catch (renderError) {
         // Log but don't fail the save if HTML generation fails
         logger.warn("[TemplateProvider] Failed to generate HTML for preview");
@@ -920,7 +1008,41 @@ export function TemplateProvider({
       logger.error("[TemplateProvider] Failed to save React Email code");
       throw error;
     }
-  }, [state.currentTemplate, updateMutation, refetch]);
+  }, [state.currentTemplate, state.designTokens, updateMutation, refetch]);
+
+  // Save variable declarations and preview data sets (no version snapshot - content is unchanged)
+  const saveVariables = useCallback(async (
+    variables: TemplateVariable[],
+    previewDataSets: PreviewDataSet[]
+  ) => {
+    if (!state.currentTemplate) {
+      throw new Error("No template loaded");
+    }
+
+    await updateMutation.mutateAsync({
+      id: state.currentTemplate.id,
+      variables,
+      previewDataSets,
+    });
+
+    setState((prev) => ({
+      ...prev,
+      variables,
+      previewDataSets,
+      // Drop the selection if its data set was deleted
+      activePreviewDataSetId: previewDataSets.some((set) => set.id === prev.activePreviewDataSetId)
+        ? prev.activePreviewDataSetId
+        : null,
+    }));
+  }, [state.currentTemplate, updateMutation]);
+
+  const setActivePreviewDataSet = useCallback((dataSetId: string | null) => {
+    setState((prev) => ({ ...prev, activePreviewDataSetId: dataSetId }));
+  }, []);
+
+  const setActiveLocale = useCallback((locale: string | null) => {
+    setState((prev) => ({ ...prev, activeLocale: locale }));
+  }, []);
 
   // Expose refetch for revalidation
   const refetchTemplate = useCallback(async () => {
@@ -928,7 +1050,7 @@ export function TemplateProvider({
   }, [refetch]);
 
   const generateTemplateStream = useCallback(
-    async (prompt: string, imageUrls?: string[], includeBrandGuide?: boolean) => {
+    async (prompt: string, imageUrls?: string[], includeBrandGuide?: boolean, brandKitId?: string) => {
       if (!activeOrganization?.id) {
         throw new Error("No organization selected");
       }
@@ -942,7 +1064,13 @@ export function TemplateProvider({
       }));
 
       try {
-        await generateStream(prompt, imageUrls, includeBrandGuide);
+        // Brand picked when the template was created unless overridden
+        await generateStream(
+          prompt,
+          imageUrls,
+          includeBrandGuide,
+          brandKitId ?? state.currentTemplate?.brandKitId
+        );
       } catch (error) {
         console.error("Failed to generate template stream:", error);
         setState((prev) => ({
@@ -955,7 +1083,7 @@ export function TemplateProvider({
         throw error;
       }
     },
-    [generateStream, activeOrganization?.id]
+    [generateStream, activeOrganization?.id, state.currentTemplate?.brandKitId]
   );
 
   const cancelGeneration = useCallback(() => {
@@ -1037,8 +1165,10 @@ export function TemplateProvider({
 
     // Capture version data from current state before async operations
     let versionToRestore: TemplateVersion | undefined;
+    let designTokens: DesignTokens | undefined;
     setState((prev) => {
       versionToRestore = prev.versions.find((v) => v.id === versionId);
+      designTokens = prev.designTokens;
       return {
         ...prev,
         isSwitchingVersion: true,
@@ -1053,50 +1183,35 @@ export function TemplateProvider({
     try {
       logger.info("[TemplateProvider] Restoring version", { versionId });
 
-      // 1. Create snapshot of CURRENT template state before restoring
-      try {
-        await createVersionMutation.mutateAsync({
-          templateId,
-          name: undefined,
-          changeNote: "Auto-save before version restore",
-        });
-        logger.info("[TemplateProvider] Created snapshot before restore");
-      } catch (versionError) {
-        logger.warn("[TemplateProvider] Failed to create snapshot before restore");
-      }
+      // 1. Clear preview mode FIRST so the canvas will re-render with new data
+      setState((prev) => ({
+        ...prev,
+        previewingVersionId: null,
+        previewVersionData: null,
+      }));
 
-      // 2. Generate HTML for the restored version
-      let htmlCode: string | undefined;
-      if (versionToRestore.reactEmailCode) {
+      // 2. Server snapshots the current state, then copies the version onto the template
+      await restoreVersionMutation.mutateAsync({ templateId, versionId });
+
+      // 3. Older snapshots may predate the HTML cache - render it client-side
+      if (!versionToRestore.htmlCode && versionToRestore.reactEmailCode) {
         try {
           const { renderReactEmailClientSide } = await import("@/lib/react-email/client-renderer");
-          htmlCode = await renderReactEmailClientSide(versionToRestore.reactEmailCode, { skipCache: false });
+          const htmlCode = await renderReactEmailClientSide(versionToRestore.reactEmailCode, {
+            skipCache: false,
+            designTokens,
+          });
+          await updateMutation.mutateAsync({ id: templateId, htmlCode });
         } catch (renderError) {
           logger.warn("[TemplateProvider] Failed to generate HTML for restored version");
         }
       }
 
-      // 3. Clear preview mode FIRST (before update) so the canvas will re-render with new data
-      setState((prev) => ({
-        ...prev,
-        previewingVersionId: null,
-        previewVersionData: null,
-      }));
-
-      // 4. Update template with the VERSION's data (not just the pointer!)
-      await updateMutation.mutateAsync({
-        id: templateId,
-        reactEmailCode: versionToRestore.reactEmailCode,
-        htmlCode: htmlCode,
-        styleDefinitions: versionToRestore.styleDefinitions,
-        currentVersionId: versionId, // Also update the pointer
-      } as any);
-
-      // 5. Refetch to ensure UI is in sync
+      // 4. Refetch to ensure UI is in sync
       // This will trigger the canvas update because preview is already cleared
       await refetch();
 
-      // 6. Clear switching state
+      // 5. Clear switching state
       setState((prev) => ({
         ...prev,
         isSwitchingVersion: false,
@@ -1150,6 +1265,9 @@ export function TemplateProvider({
     saveReactEmailCode,
     resetReactEmailCode,
     refetchTemplate,
+    saveVariables,
+    setActivePreviewDataSet,
+    setActiveLocale,
   };
 
   return (
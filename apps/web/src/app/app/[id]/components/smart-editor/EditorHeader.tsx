@@ -1,20 +1,37 @@
 'use client';
 
 import React from 'react';
-import { X, ChevronRight, Component } from 'lucide-react';
+import { X, ChevronRight, Component, Copy, BoxSelect, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { WrapperComponent } from '@/lib/react-email';
+
+const WRAPPERS: WrapperComponent[] = ['Section', 'Row', 'Column'];
 
 interface EditorHeaderProps {
   breadcrumb: string[];
   elementType?: string;
   onClose: () => void;
+  /** Structural actions; omitted for elements that can't be moved */
+  onDuplicate?: () => void;
+  onWrap?: (wrapper: WrapperComponent) => void;
+  onDelete?: () => void;
 }
 
 export function EditorHeader({
   breadcrumb,
   elementType,
   onClose,
+  onDuplicate,
+  onWrap,
+  onDelete,
 }: EditorHeaderProps) {
   return (
     <div className="px-3 py-2 border-b border-border bg-muted/50">
@@ -36,14 +53,60 @@ export function EditorHeader({
             </React.Fragment>
           ))}
         </div>
-        <Button
-          variant="ghost"
-          size="icon"
-          onClick={onClose}
-          className="h-6 w-6"
-        >
-          <X className="h-4 w-4" />
-        </Button>
+        <div className="flex items-center gap-0.5">
+          {onDuplicate && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onDuplicate}
+              className="h-6 w-6"
+              aria-label={`Duplicate ${elementType ?? 'element'}`}
+            >
+              <Copy className="h-3.5 w-3.5" />
+            </Button>
+          )}
+          {onWrap && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  aria-label={`Wrap ${elementType ?? 'element'}`}
+                >
+                  <BoxSelect className="h-3.5 w-3.5" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel className="text-xs text-muted-foreground">Wrap in</DropdownMenuLabel>
+                {WRAPPERS.map((wrapper) => (
+                  <DropdownMenuItem key={wrapper} onSelect={() => onWrap(wrapper)}>
+                    {wrapper}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          {onDelete && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onDelete}
+              className="h-6 w-6 text-destructive hover:text-destructive"
+              aria-label={`Delete ${elementType ?? 'element'}`}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onClose}
+            className="h-6 w-6"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
       </div>
     </div>
   );
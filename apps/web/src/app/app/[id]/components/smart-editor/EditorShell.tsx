@@ -3,11 +3,12 @@
 import React, { useEffect, useState, useCallback, useMemo, useRef } from "react";
 import { MousePointer } from "lucide-react";
 import type { ElementData, ElementUpdates } from "@/lib/react-email";
-import { getCurrentStyles } from "@/lib/react-email";
+import { getCurrentStyles, isMovableElement } from "@/lib/react-email";
 import { cn } from "@/lib/utils";
 import { EditorHeader } from "./EditorHeader";
 import { useEditorMode } from "../providers/EditorModeProvider";
 import { useHistory } from "../providers/HistoryProvider";
+import { useStructureEditing } from "./hooks";
 import {
   TextElementEditor,
   ButtonElementEditor,
@@ -50,6 +51,7 @@ export function EditorShell({
 }: EditorShellProps) {
   const { actions: editorActions, state: editorState } = useEditorMode();
   const { actions: historyActions } = useHistory();
+  const structure = useStructureEditing();
   
   // Local state for accumulated changes (within current session for this element)
   const [localUpdates, setLocalUpdates] = useState<ElementUpdates>({});
@@ -260,6 +262,12 @@ export function EditorShell({
     };
   }, [elementData, currentContent, currentAttributes]);
 
+  // Element the header's duplicate/wrap/delete actions apply to
+  const restructureId =
+    elementData && structure.canEdit && isMovableElement(elementData.type)
+      ? elementData.id
+      : null;
+
   return (
     <div
       className={cn(
@@ -275,6 +283,13 @@ export function EditorShell({
         breadcrumb={breadcrumb}
         elementType={elementData?.type}
         onClose={onClose}
+        onDuplicate={
+          restructureId ? () => structure.duplicateElement(restructureId) : undefined
+        }
+        onWrap={
+          restructureId ? (wrapper) => structure.wrapElement(restructureId, wrapper) : undefined
+        }
+        onDelete={restructureId ? () => structure.deleteElement(restructureId) : undefined}
       />
 
       {/* Scrollable Content */}
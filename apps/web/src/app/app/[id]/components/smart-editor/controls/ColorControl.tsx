@@ -2,6 +2,11 @@
 
 import React, { useState, useCallback, useEffect } from "react";
 import { colord } from "colord";
+import {
+  DESIGN_TOKENS,
+  formatDesignTokenReference,
+  parseDesignTokenReference,
+} from "@mocah/shared";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
@@ -13,6 +18,7 @@ import {
 import { ColorPickerContent } from "@/components/ui/color-picker";
 import { cn } from "@/lib/utils";
 import { COLOR_PRESETS } from "../constants/editor-constants";
+import { useTemplate } from "../../providers/TemplateProvider";
 import { RotateCcw, Pipette } from "lucide-react";
 
 // Checkerboard pattern for transparent backgrounds
@@ -23,6 +29,8 @@ const CHECKERBOARD_STYLE = {
   backgroundPosition: "0 0, 0 4px, 4px -4px, -4px 0px",
 };
 
+const COLOR_TOKENS = DESIGN_TOKENS.filter((token) => token.kind === "color");
+
 interface ColorControlProps {
   label?: string;
   value: string | undefined;
@@ -46,7 +54,13 @@ export function ColorControl({
   presets,
 }: ColorControlProps) {
   const [open, setOpen] = useState(false);
-  const isTransparent = value === "transparent" || !value;
+  const { state: templateState } = useTemplate();
+  const { designTokens } = templateState;
+
+  // A brand token reference (brand.primary) is shown with its current value
+  const token = parseDesignTokenReference(value);
+  const resolvedValue = token ? designTokens[token] : value;
+  const isTransparent = resolvedValue === "transparent" || !resolvedValue;
   const [inputValue, setInputValue] = useState(
     isTransparent ? "transparent" : value || ""
   );
@@ -59,6 +73,7 @@ export function ColorControl({
   // Validate color
   const isValidColor = useCallback((color: string): boolean => {
     if (color === "transparent" || !color) return true;
+    if (parseDesignTokenReference(color)) return true;
     return colord(color).isValid();
   }, []);
 
@@ -70,6 +85,8 @@ export function ColorControl({
 
       if (newValue === "transparent" || !newValue) {
         onChange("transparent");
+      } else if (parseDesignTokenReference(newValue)) {
+        onChange(newValue.trim());
       } else if (isValidColor(newValue)) {
         onChange(colord(newValue).toHex());
       }
@@ -105,7 +122,7 @@ export function ColorControl({
             <div
               className="w-full h-full"
               style={{
-                backgroundColor: isTransparent ? "transparent" : value,
+                backgroundColor: isTransparent ? "transparent" : resolvedValue,
                 ...(isTransparent ? CHECKERBOARD_STYLE : {}),
               }}
             />
@@ -137,7 +154,7 @@ export function ColorControl({
             </Button>
           </PopoverTrigger>
           <PopoverContent className="w-64 p-3" align="end">
-            <ColorPickerContent value={value} onChange={onChange} />
+            <ColorPickerContent value={resolvedValue} onChange={onChange} />
           </PopoverContent>
         </Popover>
 
@@ -155,6 +172,30 @@ export function ColorControl({
         )}
       </div>
 
+      {/* Brand tokens - follow the brand kit when it changes */}
+      <div className="flex items-center gap-1 pt-1">
+        <span className="text-[10px] text-muted-foreground mr-1">Brand</span>
+        {COLOR_TOKENS.map((colorToken) => {
+          const reference = formatDesignTokenReference(colorToken.name);
+          const tokenValue = designTokens[colorToken.name];
+
+          return (
+            <button
+              key={colorToken.name}
+              type="button"
+              onClick={() => onChange(reference)}
+              className={cn(
+                "w-5 h-5 rounded-full border border-border hover:scale-110 transition-transform",
+                token === colorToken.name && "ring-2 ring-primary ring-offset-1"
+              )}
+              style={{ backgroundColor: tokenValue }}
+              title={`${colorToken.label} (${reference}): ${tokenValue}`}
+              aria-label={`Use brand ${colorToken.label.toLowerCase()} color`}
+            />
+          );
+        })}
+      </div>
+
       {/* Inline Presets */}
       {showPresets && (
         <div className="flex flex-wrap gap-1 pt-1">
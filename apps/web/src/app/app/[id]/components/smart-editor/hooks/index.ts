@@ -0,0 +1 @@
+export { useStructureEditing } from "./useStructureEditing";
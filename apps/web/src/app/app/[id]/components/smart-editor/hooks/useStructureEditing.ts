@@ -0,0 +1,159 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { toast } from "sonner";
+import { parseLineElementId } from "@mocah/shared";
+import {
+  deleteElement,
+  duplicateElement,
+  insertBlock,
+  moveElement,
+  wrapElement,
+  StructureEditError,
+  type DropPlacement,
+  type EmailBlock,
+  type WrapperComponent,
+} from "@/lib/react-email";
+import { useTemplate } from "../../providers/TemplateProvider";
+import { useHistory } from "../../providers/HistoryProvider";
+import { useEditorMode } from "../../providers/EditorModeProvider";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface UseStructureEditingReturn {
+  /** False while generating or previewing an old version */
+  canEdit: boolean;
+  moveElement: (elementId: string, targetId: string, placement: DropPlacement) => void;
+  duplicateElement: (elementId: string) => void;
+  deleteElement: (elementId: string) => void;
+  wrapElement: (elementId: string, wrapper: WrapperComponent) => void;
+  insertBlock: (block: EmailBlock, targetId: string | null, placement?: DropPlacement) => void;
+}
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+/**
+ * Structural edits (move, duplicate, delete, wrap, insert) on the template code
+ * Each edit updates the working copy like a code-editor change and is
+ * recorded as an undoable CodeUpdateCommand; saving works as for code edits.
+ */
+export function useStructureEditing(): UseStructureEditingReturn {
+  const { state: templateState, actions: templateActions } = useTemplate();
+  const { actions: historyActions } = useHistory();
+  const { state: editorState, actions: editorActions } = useEditorMode();
+
+  const { reactEmailCode, styleDefinitions } = templateState;
+  const canEdit =
+    !!reactEmailCode && !templateState.isStreaming && !templateState.previewingVersionId;
+
+  const selectedElementId = useMemo(() => {
+    if (!editorState.selectedElement) return null;
+    try {
+      return JSON.parse(editorState.selectedElement).id as string;
+    } catch {
+      return null;
+    }
+  }, [editorState.selectedElement]);
+
+  const applyChange = useCallback(
+    (change: (code: string) => string, removedId?: string): boolean => {
+      if (!canEdit || !reactEmailCode) return false;
+
+      // Pending style edits point at elements by id; apply them first
+      if (editorState.allPendingChanges.size > 0) {
+        toast.error("Save or discard your design edits before changing the layout");
+        return false;
+      }
+
+      let updatedCode: string;
+      try {
+        updatedCode = change(reactEmailCode);
+      } catch (error) {
+        toast.error(
+          error instanceof StructureEditError ? error.message : "Couldn't update the layout"
+        );
+        return false;
+      }
+
+      if (updatedCode === reactEmailCode) return false;
+
+      templateActions.updateReactEmailCode(updatedCode, styleDefinitions);
+      historyActions.recordCodeChange(
+        reactEmailCode,
+        updatedCode,
+        styleDefinitions,
+        styleDefinitions
+      );
+
+      // Line-based ids shift when elements move, and deleted elements can't be edited
+      if (
+        selectedElementId &&
+        (selectedElementId === removedId || parseLineElementId(selectedElementId))
+      ) {
+        editorActions.selectElement(null);
+      }
+      return true;
+    },
+    [
+      canEdit,
+      reactEmailCode,
+      styleDefinitions,
+      selectedElementId,
+      editorState.allPendingChanges,
+      templateActions,
+      historyActions,
+      editorActions,
+    ]
+  );
+
+  const handleMove = useCallback(
+    (elementId: string, targetId: string, placement: DropPlacement) => {
+      applyChange((code) => moveElement(code, elementId, targetId, placement));
+    },
+    [applyChange]
+  );
+
+  const handleDuplicate = useCallback(
+    (elementId: string) => {
+      applyChange((code) => duplicateElement(code, elementId).updatedCode);
+    },
+    [applyChange]
+  );
+
+  const handleDelete = useCallback(
+    (elementId: string) => {
+      applyChange((code) => deleteElement(code, elementId), elementId);
+    },
+    [applyChange]
+  );
+
+  const handleWrap = useCallback(
+    (elementId: string, wrapper: WrapperComponent) => {
+      applyChange((code) => wrapElement(code, elementId, wrapper).updatedCode);
+    },
+    [applyChange]
+  );
+
+  const handleInsert = useCallback(
+    (block: EmailBlock, targetId: string | null, placement: DropPlacement = "after") => {
+      const inserted = applyChange(
+        (code) => insertBlock(code, block.code, targetId, placement).updatedCode
+      );
+      if (inserted) toast.success(`${block.label} added`);
+    },
+    [applyChange]
+  );
+
+  return {
+    canEdit,
+    moveElement: handleMove,
+    duplicateElement: handleDuplicate,
+    deleteElement: handleDelete,
+    wrapElement: handleWrap,
+    insertBlock: handleInsert,
+  };
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { Braces } from "lucide-react";
+import type { PreviewDataSet } from "@mocah/shared";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Radix Select can't use an empty string as an item value
+const DEFAULTS_VALUE = "__defaults__";
+
+interface PreviewDataSetSelectProps {
+  dataSets: PreviewDataSet[];
+  activeDataSetId: string | null;
+  onChange: (dataSetId: string | null) => void;
+}
+
+/**
+ * Picks which preview data set fills merge tags in the preview
+ */
+export function PreviewDataSetSelect({
+  dataSets,
+  activeDataSetId,
+  onChange,
+}: PreviewDataSetSelectProps) {
+  return (
+    <Select
+      value={activeDataSetId ?? DEFAULTS_VALUE}
+      onValueChange={(value) => onChange(value === DEFAULTS_VALUE ? null : value)}
+    >
+      <SelectTrigger
+        className="h-8 w-44 bg-background/90 text-xs shadow-sm backdrop-blur"
+        aria-label="Preview data"
+      >
+        <Braces className="size-3.5 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={DEFAULTS_VALUE}>Default values</SelectItem>
+        {dataSets.map((dataSet) => (
+          <SelectItem key={dataSet.id} value={dataSet.id}>
+            {dataSet.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
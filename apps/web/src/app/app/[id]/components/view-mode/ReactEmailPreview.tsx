@@ -1,19 +1,29 @@
 "use client";
 
-import React, { useState, useEffect, useRef, useCallback } from "react";
+import React, { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import {
   injectElementIds,
+  localizeReactEmailCode,
   renderReactEmailClientSide,
   clearRenderCache,
   RenderError,
   RenderErrorCode,
 } from "@/lib/react-email";
-import type { ElementData } from "@/lib/react-email";
+import type { DropPlacement, ElementData } from "@/lib/react-email";
 import Loader from "@/components/loader";
 import { useErrorFix } from "../providers/ErrorFixProvider";
-import { logger } from "@mocah/shared";
+import { getLocaleLabel, logger, simulateOutlookFonts, type DesignTokens, type PreviewData } from "@mocah/shared";
+import { Languages, Type } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import MocahLoadingIcon from "@/components/mocah-brand/MocahLoadingIcon";
 import { PreviewErrorCard } from "./PreviewErrorCard";
+import { cn } from "@/lib/utils";
 
 // ============================================================================
 // Types
@@ -29,14 +39,50 @@ interface ReactEmailPreviewProps {
   reactEmailCode: string;
   styleDefinitions?: Record<string, React.CSSProperties>;
   onElementSelect?: (elementData: ElementData | null) => void;
+  /** Called when an element is dragged onto another one; enables drag reordering */
+  onElementMove?: (elementId: string, targetId: string, placement: DropPlacement) => void;
   enableSelection?: boolean;
   renderKey?: number;
   onRenderComplete?: () => void;
   validationError?: ValidationErrorProps | null;
   onFixValidationError?: (errorDetails: string, code: string) => void;
   onDismissValidationError?: () => void;
+  /** Values substituted for merge tags in the preview (display only) */
+  previewData?: PreviewData;
+  /** Values the code's brand.* references render with */
+  designTokens?: DesignTokens;
+  /** Locale string tables; the source code supplies structure for every locale */
+  locales?: PreviewLocale[];
+  defaultLocale?: string;
+  activeLocale?: string | null;
+  onLocaleChange?: (locale: string | null) => void;
+  /** Open comment threads drawn as pins over their elements */
+  commentPins?: CommentPin[];
+  activeCommentThreadId?: string | null;
+  onCommentPinClick?: (threadId: string) => void;
+}
+
+export interface CommentPin {
+  elementId: string;
+  /** Thread opened when the pin is clicked */
+  threadId: string;
+  /** Open threads on the element */
+  count: number;
+}
+
+interface PreviewLocale {
+  locale: string;
+  strings: Record<string, string>;
 }
 
+// Stable default so the pin effect doesn't re-run every render
+const NO_COMMENT_PINS: CommentPin[] = [];
+
+// Radix Select can't use an empty string as an item value
+const SOURCE_LOCALE_VALUE = "__source__";
+
+type FontPreview = "web" | "outlook";
+
 // ============================================================================
 // Helpers
 // ============================================================================
@@ -117,6 +163,46 @@ const SELECTION_STYLES = `
     outline-offset: 0px;
     cursor: pointer;
   }
+  .mocah-dragging-element {
+    opacity: 0.4;
+  }
+  .mocah-drop-before {
+    box-shadow: inset 0 3px 0 #8b5cf6 !important;
+  }
+  .mocah-drop-after {
+    box-shadow: inset 0 -3px 0 #8b5cf6 !important;
+  }
+`;
+
+/** Elements that are part of the document shell and can't be dragged */
+const FIXED_TAGS = new Set(["HTML", "HEAD", "BODY"]);
+
+const DROP_INDICATOR_CLASSES = ["mocah-drop-before", "mocah-drop-after"];
+
+/** Comment pin styles injected into the iframe */
+const COMMENT_PIN_STYLES = `
+  .mocah-comment-pin {
+    position: absolute;
+    z-index: 10001;
+    width: 20px;
+    height: 20px;
+    padding: 0;
+    border: 2px solid white;
+    border-radius: 10px 10px 10px 2px;
+    background: #8b5cf6;
+    color: white;
+    font-size: 10px;
+    font-weight: 600;
+    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    line-height: 16px;
+    text-align: center;
+    cursor: pointer;
+    box-shadow: 0 1px 3px rgba(0, 0, 0, 0.3);
+  }
+  .mocah-comment-pin.is-active {
+    background: #6d28d9;
+    transform: scale(1.15);
+  }
 `;
 
 const SAFARI_STYLES = `
@@ -142,12 +228,22 @@ export const ReactEmailPreview = ({
   reactEmailCode,
   styleDefinitions,
   onElementSelect,
+  onElementMove,
   enableSelection = false,
   renderKey = 0,
   onRenderComplete,
   validationError,
   onFixValidationError,
   onDismissValidationError,
+  previewData,
+  designTokens,
+  locales = [],
+  defaultLocale = "en",
+  activeLocale = null,
+  onLocaleChange,
+  commentPins = NO_COMMENT_PINS,
+  activeCommentThreadId = null,
+  onCommentPinClick,
 }: ReactEmailPreviewProps) => {
   // State
   const [html, setHtml] = useState<string>("");
@@ -156,10 +252,13 @@ export const ReactEmailPreview = ({
   const [rawError, setRawError] = useState<unknown>(null);
   const [selectedElementId, setSelectedElementId] = useState<string | null>(null);
   const [isSelectableReady, setIsSelectableReady] = useState(false);
+  const [frameLoadCount, setFrameLoadCount] = useState(0);
+  const [fontPreview, setFontPreview] = useState<FontPreview>("web");
 
   // Refs
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const selectedElementIdRef = useRef<string | null>(null);
+  const dragSourceIdRef = useRef<string | null>(null);
   const selectableReadyTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const attachedHandlersRef = useRef<
     Array<{
@@ -253,6 +352,16 @@ export const ReactEmailPreview = ({
     []
   );
 
+  const localeStrings = locales.find((entry) => entry.locale === activeLocale)?.strings;
+
+  // Outlook for Windows ignores web fonts, so the brand's fonts can be swapped
+  // for their Outlook fallback
+  const webFonts = designTokens?.webFonts;
+  const displayedHtml = useMemo(
+    () => (fontPreview === "outlook" && webFonts?.length ? simulateOutlookFonts(html, webFonts) : html),
+    [html, fontPreview, webFonts]
+  );
+
   // Render email when code changes
   useEffect(() => {
     async function renderEmail() {
@@ -270,11 +379,15 @@ export const ReactEmailPreview = ({
           clearRenderCache();
         }
 
-        const codeToRender = enableSelection
+        // IDs first so selection keeps pointing at lines in the source code
+        const codeWithIds = enableSelection
           ? injectElementIds(reactEmailCode)
           : reactEmailCode;
+        const codeToRender = localeStrings
+          ? localizeReactEmailCode(codeWithIds, localeStrings)
+          : codeWithIds;
 
-        const renderedHtml = await renderReactEmailClientSide(codeToRender);
+        const renderedHtml = await renderReactEmailClientSide(codeToRender, { previewData, designTokens });
         setHtml(renderedHtml);
         onRenderComplete?.();
       } catch (err) {
@@ -287,7 +400,7 @@ export const ReactEmailPreview = ({
     }
 
     renderEmail();
-  }, [reactEmailCode, enableSelection, renderKey, onRenderComplete]);
+  }, [reactEmailCode, enableSelection, renderKey, onRenderComplete, previewData, designTokens, localeStrings]);
 
   // Handle iframe load for element selection
   const handleIframeLoad = useCallback(() => {
@@ -377,12 +490,84 @@ export const ReactEmailPreview = ({
 
       addTrackedListener(element, "mouseenter", mouseEnterHandler);
       addTrackedListener(element, "mouseleave", mouseLeaveHandler);
+
+      if (!onElementMove || !elementId || FIXED_TAGS.has(element.tagName)) return;
+
+      // Drag reordering: drop on the top half to place before, bottom half after
+      htmlElement.draggable = true;
+
+      const clearDropIndicator = () => {
+        element.classList.remove(...DROP_INDICATOR_CLASSES);
+      };
+
+      const dragStartHandler = (e: Event) => {
+        // Nested elements are draggable too; the innermost one wins
+        e.stopPropagation();
+        dragSourceIdRef.current = elementId;
+        element.classList.add("mocah-dragging-element");
+        const dataTransfer = (e as DragEvent).dataTransfer;
+        if (dataTransfer) {
+          dataTransfer.effectAllowed = "move";
+          dataTransfer.setData("text/plain", elementId);
+        }
+      };
+
+      const dragOverHandler = (e: Event) => {
+        const dragEvent = e as DragEvent;
+        const target = (dragEvent.target as Element).closest("[data-element-id]");
+        if (target !== element) return;
+
+        const sourceId = dragSourceIdRef.current;
+        if (!sourceId || sourceId === elementId) return;
+
+        e.preventDefault();
+        e.stopPropagation();
+
+        const rect = element.getBoundingClientRect();
+        const before = dragEvent.clientY < rect.top + rect.height / 2;
+        element.classList.toggle("mocah-drop-before", before);
+        element.classList.toggle("mocah-drop-after", !before);
+      };
+
+      const dropHandler = (e: Event) => {
+        const target = (e.target as Element).closest("[data-element-id]");
+        if (target !== element) return;
+
+        e.preventDefault();
+        e.stopPropagation();
+
+        const sourceId = dragSourceIdRef.current;
+        const placement: DropPlacement = element.classList.contains("mocah-drop-before")
+          ? "before"
+          : "after";
+        clearDropIndicator();
+        dragSourceIdRef.current = null;
+
+        if (sourceId && sourceId !== elementId) {
+          onElementMove(sourceId, elementId, placement);
+        }
+      };
+
+      const dragEndHandler = () => {
+        dragSourceIdRef.current = null;
+        element.classList.remove("mocah-dragging-element");
+        doc.querySelectorAll(".mocah-drop-before, .mocah-drop-after").forEach((el) => {
+          el.classList.remove(...DROP_INDICATOR_CLASSES);
+        });
+      };
+
+      addTrackedListener(element, "dragstart", dragStartHandler);
+      addTrackedListener(element, "dragover", dragOverHandler);
+      addTrackedListener(element, "dragleave", clearDropIndicator);
+      addTrackedListener(element, "drop", dropHandler);
+      addTrackedListener(element, "dragend", dragEndHandler);
     });
 
     selectableReadyTimeoutRef.current = setTimeout(() => setIsSelectableReady(true), 100);
   }, [
     enableSelection,
     onElementSelect,
+    onElementMove,
     reactEmailCode,
     styleDefinitions,
     injectStyles,
@@ -390,6 +575,54 @@ export const ReactEmailPreview = ({
     cleanupIframeListeners,
   ]);
 
+  const handleFrameLoad = useCallback(() => {
+    setFrameLoadCount((count) => count + 1);
+    if (enableSelection) handleIframeLoad();
+  }, [enableSelection, handleIframeLoad]);
+
+  // Draw comment pins at the top-right corner of their elements
+  useEffect(() => {
+    const doc = iframeRef.current?.contentDocument;
+    if (!doc?.body) return;
+
+    doc.querySelectorAll(".mocah-comment-pin").forEach((el) => el.remove());
+    if (commentPins.length === 0) return;
+
+    if (!doc.getElementById("mocah-comment-pin-styles")) {
+      const style = doc.createElement("style");
+      style.id = "mocah-comment-pin-styles";
+      style.textContent = COMMENT_PIN_STYLES;
+      doc.head.appendChild(style);
+    }
+
+    const scrollX = doc.defaultView?.scrollX ?? 0;
+    const scrollY = doc.defaultView?.scrollY ?? 0;
+
+    commentPins.forEach((pin) => {
+      const element = doc.querySelector(`[data-element-id="${pin.elementId}"]`);
+      const rect = element?.getBoundingClientRect();
+      // Elements that don't render (Head, Preview) have no box
+      if (!rect || (rect.width === 0 && rect.height === 0)) return;
+
+      const marker = doc.createElement("button");
+      marker.type = "button";
+      marker.className = cn(
+        "mocah-comment-pin",
+        pin.threadId === activeCommentThreadId && "is-active"
+      );
+      marker.textContent = String(pin.count);
+      marker.title = pin.count === 1 ? "1 comment thread" : `${pin.count} comment threads`;
+      marker.style.top = `${Math.max(0, rect.top + scrollY - 10)}px`;
+      marker.style.left = `${Math.max(0, rect.right + scrollX - 12)}px`;
+      marker.addEventListener("click", (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        onCommentPinClick?.(pin.threadId);
+      });
+      doc.body.appendChild(marker);
+    });
+  }, [commentPins, activeCommentThreadId, onCommentPinClick, frameLoadCount]);
+
   // ============================================================================
   // Render States
   // ============================================================================
@@ -437,7 +670,7 @@ export const ReactEmailPreview = ({
     );
   }
 
-  if (!html) {
+  if (!displayedHtml) {
     return (
       <div className="flex h-full w-full items-center justify-center text-muted-foreground italic">
         No preview available
@@ -455,16 +688,61 @@ export const ReactEmailPreview = ({
     <div className="relative mx-auto h-full w-full overflow-auto">
       <iframe
         ref={iframeRef}
-        srcDoc={html}
+        srcDoc={displayedHtml}
         className="h-full w-full border-0"
         sandbox={isSafari ? "allow-same-origin allow-scripts" : "allow-same-origin"}
         title="Email Preview"
-        onLoad={enableSelection ? handleIframeLoad : undefined}
+        onLoad={handleFrameLoad}
       />
 
       {enableSelection && !isSelectableReady && (
         <MocahLoadingIcon isLoading={true} size="sm" />
       )}
+
+      {locales.length > 0 && onLocaleChange && (
+        <div className="absolute left-3 top-3 z-10">
+          <Select
+            value={activeLocale ?? SOURCE_LOCALE_VALUE}
+            onValueChange={(value) => onLocaleChange(value === SOURCE_LOCALE_VALUE ? null : value)}
+          >
+            <SelectTrigger
+              className="h-8 w-44 bg-background/90 text-xs shadow-sm backdrop-blur"
+              aria-label="Preview language"
+            >
+              <Languages className="size-3.5 text-muted-foreground" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={SOURCE_LOCALE_VALUE}>
+                {getLocaleLabel(defaultLocale)} (source)
+              </SelectItem>
+              {locales.map((entry) => (
+                <SelectItem key={entry.locale} value={entry.locale}>
+                  {getLocaleLabel(entry.locale)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {webFonts && webFonts.length > 0 && (
+        <div className="absolute right-3 top-3 z-10">
+          <Select value={fontPreview} onValueChange={(value) => setFontPreview(value as FontPreview)}>
+            <SelectTrigger
+              className="h-8 w-44 bg-background/90 text-xs shadow-sm backdrop-blur"
+              aria-label="Preview fonts"
+            >
+              <Type className="size-3.5 text-muted-foreground" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="web">Web fonts</SelectItem>
+              <SelectItem value="outlook">Outlook fallback</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
     </div>
   );
 };
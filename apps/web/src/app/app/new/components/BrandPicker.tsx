@@ -0,0 +1,62 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/utils/trpc";
+
+export interface BrandPickerProps {
+  /** Selected brand kit; the organization default when undefined */
+  value?: string;
+  onChange: (brandKitId: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Picks which brand kit a template is generated with
+ * Hidden until the organization has more than one brand kit.
+ */
+export default function BrandPicker({
+  value,
+  onChange,
+  disabled = false,
+}: BrandPickerProps) {
+  const { data: brandKits } = trpc.brandKit.list.useQuery(undefined, {
+    staleTime: 60 * 1000,
+  });
+
+  if (!brandKits || brandKits.length < 2) {
+    return null;
+  }
+
+  const selectedId =
+    value && brandKits.some((brandKit) => brandKit.id === value)
+      ? value
+      : brandKits.find((brandKit) => brandKit.isDefault)?.id;
+
+  return (
+    <Select value={selectedId} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger size="sm" aria-label="Brand kit" className="max-w-40">
+        <SelectValue placeholder="Brand" />
+      </SelectTrigger>
+      <SelectContent align="start">
+        {brandKits.map((brandKit) => (
+          <SelectItem key={brandKit.id} value={brandKit.id}>
+            <span
+              className="size-3 rounded-full border border-border shrink-0"
+              style={{ backgroundColor: brandKit.primaryColor || undefined }}
+            />
+            <span className="truncate">{brandKit.name}</span>
+            {brandKit.isDefault && (
+              <span className="text-xs text-muted-foreground">Default</span>
+            )}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
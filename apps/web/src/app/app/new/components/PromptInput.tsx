@@ -7,6 +7,7 @@ import type { Attachment } from "@/types/images";
 import { Send } from "lucide-react";
 import React from "react";
 import AttachmentPopover from "./AttachmentPopover";
+import BrandPicker from "./BrandPicker";
 import FilterPopover from "./FilterPopover";
 import ImagePreviewBlob from "./ImagePreviewBlob";
 
@@ -24,6 +25,8 @@ export interface PromptInputProps {
   placeholder?: string;
   includeBrandGuide: boolean;
   onBrandGuideChange: (include: boolean) => void;
+  brandKitId?: string;
+  onBrandKitChange: (brandKitId: string) => void;
   disabled?: boolean;
 }
 
@@ -41,6 +44,8 @@ export default function PromptInput({
   placeholder = "Please create black friday email showing our trending products",
   includeBrandGuide,
   onBrandGuideChange,
+  brandKitId,
+  onBrandKitChange,
   disabled = false,
 }: PromptInputProps) {
   const hasUploadingAttachment = attachments.some(
@@ -75,6 +80,13 @@ export default function PromptInput({
               includeBrandGuide={includeBrandGuide}
               onBrandGuideChange={onBrandGuideChange}
             />
+            {includeBrandGuide && (
+              <BrandPicker
+                value={brandKitId}
+                onChange={onBrandKitChange}
+                disabled={isLoading || disabled}
+              />
+            )}
 
             {/* Attachment Preview Blobs */}
             {attachments.map((attachment) => (
@@ -38,6 +38,7 @@ export default function NewTemplatePage() {
   const [isUrlDialogOpen, setIsUrlDialogOpen] = useState(false);
   const [urlInput, setUrlInput] = useState("");
   const [includeBrandGuide, setIncludeBrandGuide] = useState(true);
+  const [brandKitId, setBrandKitId] = useState<string | undefined>();
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Check subscription status
@@ -286,6 +287,7 @@ export default function NewTemplatePage() {
         reactEmailCode: "", // Empty - will be populated by AI generation
         styleType: "STYLE_OBJECTS",
         isPublic: false,
+        brandKitId,
       });
 
       // Store prompt and image URLs for the streaming process
@@ -398,6 +400,8 @@ export default function NewTemplatePage() {
           onPaste={handlePaste}
           includeBrandGuide={includeBrandGuide}
           onBrandGuideChange={setIncludeBrandGuide}
+          brandKitId={brandKitId}
+          onBrandKitChange={setBrandKitId}
           disabled={hasNoSubscription}
         />
 
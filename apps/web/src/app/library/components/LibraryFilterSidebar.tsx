@@ -0,0 +1,338 @@
+"use client";
+
+import { Check, Pencil, Plus } from "lucide-react";
+import type { ColorFamily } from "@mocah/shared";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { cn } from "@/lib/utils";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LibraryFilters {
+  categories: string[];
+  tags: string[];
+  industries: string[];
+  colors: ColorFamily[];
+  isPremium?: boolean;
+}
+
+export const EMPTY_LIBRARY_FILTERS: LibraryFilters = {
+  categories: [],
+  tags: [],
+  industries: [],
+  colors: [],
+};
+
+interface FacetCount<T extends string = string> {
+  value: T;
+  count: number;
+}
+
+export interface LibraryFacets {
+  categories: FacetCount[];
+  tags: FacetCount[];
+  industries: FacetCount[];
+  colors: FacetCount<ColorFamily>[];
+  premium: { premium: number; free: number };
+}
+
+interface LibraryCategory {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+}
+
+interface LibraryFilterSidebarProps {
+  categories: LibraryCategory[];
+  facets: LibraryFacets | undefined;
+  filters: LibraryFilters;
+  onFiltersChange: (filters: LibraryFilters) => void;
+  canPublish?: boolean;
+  onCreateCategory?: () => void;
+  onEditCategory?: (category: LibraryCategory) => void;
+  className?: string;
+}
+
+const COLOR_SWATCHES: Record<ColorFamily, string> = {
+  red: "#ef4444",
+  orange: "#f97316",
+  yellow: "#eab308",
+  green: "#22c55e",
+  teal: "#14b8a6",
+  blue: "#3b82f6",
+  purple: "#8b5cf6",
+  pink: "#ec4899",
+  neutral: "#a1a1aa",
+};
+
+const MAX_TAGS = 16;
+
+export function countActiveFilters(filters: LibraryFilters): number {
+  return (
+    filters.categories.length +
+    filters.tags.length +
+    filters.industries.length +
+    filters.colors.length +
+    (filters.isPremium === undefined ? 0 : 1)
+  );
+}
+
+function toggleValue<T extends string>(values: T[], value: T): T[] {
+  return values.includes(value)
+    ? values.filter((v) => v !== value)
+    : [...values, value];
+}
+
+function FilterSection({
+  title,
+  children,
+  action,
+}: {
+  title: string;
+  children: React.ReactNode;
+  action?: React.ReactNode;
+}) {
+  return (
+    <section className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+          {title}
+        </h3>
+        {action}
+      </div>
+      {children}
+    </section>
+  );
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * Faceted filters for the template library
+ * Counts come from getTemplates and reflect every other active filter.
+ */
+export function LibraryFilterSidebar({
+  categories,
+  facets,
+  filters,
+  onFiltersChange,
+  canPublish,
+  onCreateCategory,
+  onEditCategory,
+  className,
+}: LibraryFilterSidebarProps) {
+  const countOf = (facet: FacetCount[] | undefined, value: string) =>
+    facet?.find((f) => f.value === value)?.count ?? 0;
+
+  const activeCount = countActiveFilters(filters);
+  const pricing =
+    filters.isPremium === undefined ? "all" : filters.isPremium ? "premium" : "free";
+
+  return (
+    <aside className={cn("space-y-6 text-left", className)}>
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold">Filters</h2>
+        {activeCount > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => onFiltersChange(EMPTY_LIBRARY_FILTERS)}
+          >
+            Clear all ({activeCount})
+          </Button>
+        )}
+      </div>
+
+      {/* Categories */}
+      <FilterSection
+        title="Categories"
+        action={
+          canPublish && onCreateCategory ? (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-6"
+              aria-label="Create category"
+              onClick={onCreateCategory}
+            >
+              <Plus className="size-3.5" />
+            </Button>
+          ) : undefined
+        }
+      >
+        <ul className="space-y-1">
+          {categories.map((category) => {
+            const id = `library-category-${category.id}`;
+            return (
+              <li key={category.id} className="group flex items-center gap-2">
+                <Checkbox
+                  id={id}
+                  checked={filters.categories.includes(category.slug)}
+                  onCheckedChange={() =>
+                    onFiltersChange({
+                      ...filters,
+                      categories: toggleValue(filters.categories, category.slug),
+                    })
+                  }
+                />
+                <Label
+                  htmlFor={id}
+                  className="flex-1 min-w-0 truncate font-normal cursor-pointer"
+                >
+                  {category.name}
+                </Label>
+                {canPublish && onEditCategory && (
+                  <button
+                    type="button"
+                    onClick={() => onEditCategory(category)}
+                    className="p-1 rounded hover:bg-accent opacity-0 group-hover:opacity-100 transition-opacity"
+                    aria-label={`Edit ${category.name}`}
+                  >
+                    <Pencil className="size-3 text-muted-foreground" />
+                  </button>
+                )}
+                <span className="text-xs tabular-nums text-muted-foreground">
+                  {countOf(facets?.categories, category.slug)}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      </FilterSection>
+
+      {/* Industries */}
+      {facets && facets.industries.length > 0 && (
+        <FilterSection title="Industry">
+          <ul className="space-y-1">
+            {facets.industries.map(({ value, count }) => {
+              const id = `library-industry-${value}`;
+              return (
+                <li key={value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={id}
+                    checked={filters.industries.includes(value)}
+                    onCheckedChange={() =>
+                      onFiltersChange({
+                        ...filters,
+                        industries: toggleValue(filters.industries, value),
+                      })
+                    }
+                  />
+                  <Label
+                    htmlFor={id}
+                    className="flex-1 min-w-0 truncate font-normal cursor-pointer"
+                  >
+                    {value}
+                  </Label>
+                  <span className="text-xs tabular-nums text-muted-foreground">
+                    {count}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </FilterSection>
+      )}
+
+      {/* Colors */}
+      {facets && facets.colors.length > 0 && (
+        <FilterSection title="Color">
+          <div className="flex flex-wrap gap-2">
+            {facets.colors.map(({ value, count }) => {
+              const selected = filters.colors.includes(value);
+              return (
+                <button
+                  key={value}
+                  type="button"
+                  title={`${value} (${count})`}
+                  aria-label={`${value} (${count})`}
+                  aria-pressed={selected}
+                  onClick={() =>
+                    onFiltersChange({
+                      ...filters,
+                      colors: toggleValue(filters.colors, value),
+                    })
+                  }
+                  className={cn(
+                    "size-7 rounded-full border border-border flex items-center justify-center transition-shadow",
+                    selected && "ring-2 ring-primary ring-offset-2 ring-offset-background"
+                  )}
+                  style={{ backgroundColor: COLOR_SWATCHES[value] }}
+                >
+                  {selected && <Check className="size-3.5 text-white" />}
+                </button>
+              );
+            })}
+          </div>
+        </FilterSection>
+      )}
+
+      {/* Pricing */}
+      <FilterSection title="Pricing">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={pricing}
+          onValueChange={(value) => {
+            if (!value) return;
+            onFiltersChange({
+              ...filters,
+              isPremium: value === "all" ? undefined : value === "premium",
+            });
+          }}
+        >
+          <ToggleGroupItem value="all">All</ToggleGroupItem>
+          <ToggleGroupItem value="free">
+            Free {facets && `(${facets.premium.free})`}
+          </ToggleGroupItem>
+          <ToggleGroupItem value="premium">
+            Premium {facets && `(${facets.premium.premium})`}
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </FilterSection>
+
+      {/* Tags */}
+      {facets && facets.tags.length > 0 && (
+        <FilterSection title="Tags">
+          <div className="flex flex-wrap gap-1.5">
+            {facets.tags.slice(0, MAX_TAGS).map(({ value, count }) => {
+              const selected = filters.tags.includes(value);
+              return (
+                <Badge
+                  key={value}
+                  asChild
+                  variant={selected ? "default" : "outline"}
+                  className="cursor-pointer"
+                >
+                  <button
+                    type="button"
+                    aria-pressed={selected}
+                    onClick={() =>
+                      onFiltersChange({
+                        ...filters,
+                        tags: toggleValue(filters.tags, value),
+                      })
+                    }
+                  >
+                    {value}
+                    <span className="opacity-60">{count}</span>
+                  </button>
+                </Badge>
+              );
+            })}
+          </div>
+        </FilterSection>
+      )}
+    </aside>
+  );
+}
@@ -7,18 +7,32 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
-  DropdownMenu,
-  DropdownMenuContent,
-  DropdownMenuItem,
-  DropdownMenuSeparator,
-  DropdownMenuTrigger,
-} from "@/components/ui/dropdown-menu";
-import { Search, Filter, Check, Plus, Pencil } from "lucide-react";
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Search, Filter } from "lucide-react";
 import { trpc } from "@/utils/trpc";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
 import { TemplateLibraryPreviewModal } from "./TemplateLibraryPreviewModal";
 import { CreateCategoryModal } from "./CreateCategoryModal";
+import {
+  EMPTY_LIBRARY_FILTERS,
+  LibraryFilterSidebar,
+  countActiveFilters,
+  type LibraryFacets,
+  type LibraryFilters,
+} from "./LibraryFilterSidebar";
 import { cn } from "@/lib/utils";
 
+interface LibraryTemplateItem {
+  id: string;
+  name: string;
+  thumbnail: string | null;
+}
+
 // Masonry layout helper - assigns row spans based on position for natural distribution
 const getMasonrySpan = (index: number, columnCount: number): number => {
   // Create a varied but consistent pattern
@@ -36,9 +50,9 @@ export function LibraryGrid() {
   const searchParams = useSearchParams();
   const router = useRouter();
   const [search, setSearch] = useState("");
-  const [selectedCategory, setSelectedCategory] = useState<
-    string | undefined
-  >();
+  const debouncedSearch = useDebouncedValue(search, 300);
+  const [filters, setFilters] = useState<LibraryFilters>(EMPTY_LIBRARY_FILTERS);
+  const [filtersSheetOpen, setFiltersSheetOpen] = useState(false);
   const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(
     null
   );
@@ -77,14 +91,48 @@ export function LibraryGrid() {
     }
   );
 
-  // Fetch templates
-  const { data, isLoading } = trpc.template.library.getTemplates.useQuery({
-    search: search || undefined,
-    categorySlug: selectedCategory,
-    limit: 50,
-  });
+  // Fetch templates with facet counts
+  // Note: Type assertion to prevent "Type instantiation is excessively deep" error
+  const { data, isLoading } = trpc.template.library.getTemplates.useQuery(
+    {
+      search: debouncedSearch || undefined,
+      categories: filters.categories,
+      tags: filters.tags,
+      industries: filters.industries,
+      colors: filters.colors,
+      isPremium: filters.isPremium,
+      limit: 50,
+    },
+    { placeholderData: (previous: any) => previous }
+  ) as {
+    data:
+      | { items: LibraryTemplateItem[]; total: number; facets: LibraryFacets }
+      | undefined;
+    isLoading: boolean;
+  };
 
   const templates = data?.items || [];
+  const activeFilterCount = countActiveFilters(filters);
+
+  const handleEditCategory = (category: {
+    id: string;
+    name: string;
+    slug: string;
+    description: string | null;
+  }) => {
+    setEditingCategory(category);
+    setEditCategoryOpen(true);
+  };
+
+  const sidebarProps = {
+    categories,
+    facets: data?.facets,
+    filters,
+    onFiltersChange: setFilters,
+    canPublish: !!canPublish,
+    onCreateCategory: () => setCreateCategoryOpen(true),
+    onEditCategory: handleEditCategory,
+  };
 
   // Handle template query parameter
   useEffect(() => {
@@ -130,189 +178,124 @@ export function LibraryGrid() {
                 />
               </div>
 
-              {/* Category Filter Dropdown */}
-              <DropdownMenu>
-                <DropdownMenuTrigger asChild>
+              {/* Filters (sidebar is inline on large screens) */}
+              <Sheet open={filtersSheetOpen} onOpenChange={setFiltersSheetOpen}>
+                <SheetTrigger asChild>
                   <Button
                     variant="outline"
-                    className="gap-2 sm:mr-2 whitespace-nowrap h-auto text-sm sm:text-base"
+                    className="lg:hidden gap-2 sm:mr-2 whitespace-nowrap h-auto text-sm sm:text-base"
                   >
                     <Filter className="size-4" />
-                    <span className="hidden sm:inline">
-                      {selectedCategory
-                        ? categories.find((c) => c.slug === selectedCategory)
-                            ?.name
-                        : "All Categories"}
-                    </span>
-                    <span className="sm:hidden">
-                      {selectedCategory
-                        ? categories.find((c) => c.slug === selectedCategory)
-                            ?.name
-                        : "All"}
-                    </span>
+                    Filters
+                    {activeFilterCount > 0 && ` (${activeFilterCount})`}
                   </Button>
-                </DropdownMenuTrigger>
-                <DropdownMenuContent align="end" className="w-48">
-                  <DropdownMenuItem
-                    onClick={() => setSelectedCategory(undefined)}
-                    className="cursor-pointer"
-                  >
-                    <Check
+                </SheetTrigger>
+                <SheetContent side="left" className="overflow-y-auto">
+                  <SheetHeader>
+                    <SheetTitle className="sr-only">Filter templates</SheetTitle>
+                  </SheetHeader>
+                  <LibraryFilterSidebar {...sidebarProps} className="px-4 pb-6" />
+                </SheetContent>
+              </Sheet>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex gap-8">
+          <LibraryFilterSidebar
+            {...sidebarProps}
+            className="hidden lg:block w-56 shrink-0 self-start sticky top-6"
+          />
+
+          <div className="flex-1 min-w-0">
+            {data && (activeFilterCount > 0 || debouncedSearch) && (
+              <p className="mb-3 text-sm text-muted-foreground">
+                {data.total} template{data.total === 1 ? "" : "s"}
+              </p>
+            )}
+
+            {/* Template Grid with Masonry Layout */}
+            {isLoading ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4 auto-rows-[200px] sm:auto-rows-[240px] lg:auto-rows-[280px]">
+                {Array.from({ length: 9 }).map((_, i) => {
+                  const span = getMasonrySpan(i, columnCount);
+                  return (
+                    <Skeleton
+                      key={i}
                       className={cn(
-                        "mr-2 size-4",
-                        selectedCategory === undefined
-                          ? "opacity-100"
-                          : "opacity-0"
+                        "w-full h-full rounded-lg",
+                        span === 2 && "row-span-2"
                       )}
                     />
-                    All Templates
-                  </DropdownMenuItem>
-                  {categories.map((category) => (
-                    <DropdownMenuItem
-                      key={category.id}
-                      onClick={(e) => {
-                        // Only select category if edit button wasn't clicked
-                        const target = e.target as HTMLElement;
-                        if (!target.closest('button[aria-label*="Edit"]')) {
-                          setSelectedCategory(category.slug);
+                  );
+                })}
+              </div>
+            ) : templates.length === 0 ? (
+              <div className="text-center py-16">
+                <p className="text-muted-foreground text-lg">
+                  No templates found. Try a different search or fewer filters.
+                </p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4 auto-rows-[200px] sm:auto-rows-[240px] lg:auto-rows-[280px]">
+                {templates.map((template, index) => {
+                  const rowSpan = getMasonrySpan(index, columnCount);
+                  const spanClass = rowSpan === 2 ? "row-span-2" : "";
+
+                  return (
+                    <div
+                      key={template.id}
+                      onClick={() => handleTemplateClick(template.id)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter" || e.key === " ") {
+                          e.preventDefault();
+                          handleTemplateClick(template.id);
                         }
                       }}
-                      className="cursor-pointer"
+                      role="button"
+                      tabIndex={0}
+                      className={cn(
+                        "relative group overflow-hidden bg-card border border-border cursor-pointer rounded-lg transition-all duration-300 ease-out",
+                        "hover:shadow-xl hover:scale-[1.02] hover:z-10",
+                        spanClass
+                      )}
                     >
-                      <div className="flex items-center justify-between w-full group">
-                        <div className="flex items-center flex-1 min-w-0">
-                          <Check
-                            className={cn(
-                              "mr-2 size-4 shrink-0",
-                              selectedCategory === category.slug
-                                ? "opacity-100"
-                                : "opacity-0"
-                            )}
+                      {/* Template Preview */}
+                      <div className="absolute inset-0">
+                        {template.thumbnail ? (
+                          <Image
+                            src={template.thumbnail}
+                            alt={template.name}
+                            fill
+                            sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw"
+                            className="object-cover object-center transition-transform duration-500 group-hover:scale-105"
+                            unoptimized
                           />
-                          <span className="truncate">{category.name}</span>
-                        </div>
-                        {canPublish && (
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              e.preventDefault();
-                              setEditingCategory(category);
-                              setEditCategoryOpen(true);
-                            }}
-                            onMouseDown={(e) => {
-                              // Prevent dropdown from closing
-                              e.stopPropagation();
-                            }}
-                            className="ml-2 p-1 rounded hover:bg-accent opacity-0 group-hover:opacity-100 transition-opacity shrink-0"
-                            aria-label={`Edit ${category.name}`}
-                          >
-                            <Pencil className="size-3.5 text-muted-foreground" />
-                          </button>
+                        ) : (
+                          <div className="absolute inset-0 bg-linear-to-br from-primary/10 via-secondary/10 to-accent/10 flex items-center justify-center text-muted-foreground text-sm">
+                            No thumbnail available
+                          </div>
                         )}
                       </div>
-                    </DropdownMenuItem>
-                  ))}
-                  {canPublish && (
-                    <>
-                      <DropdownMenuSeparator />
-                      <DropdownMenuItem
-                        onClick={() => setCreateCategoryOpen(true)}
-                        asChild
-                        className="w-full"
-                      >
-                        <Button>
-                          <Plus className="size-4" />
-                          Create Category
-                        </Button>
-                      </DropdownMenuItem>
-                    </>
-                  )}
-                </DropdownMenuContent>
-              </DropdownMenu>
-            </div>
-          </div>
-        </div>
 
-        {/* Template Grid with Masonry Layout */}
-        {isLoading ? (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4 auto-rows-[200px] sm:auto-rows-[240px] lg:auto-rows-[280px]">
-            {Array.from({ length: 9 }).map((_, i) => {
-              const span = getMasonrySpan(i, columnCount);
-              return (
-                <Skeleton
-                  key={i}
-                  className={cn(
-                    "w-full h-full rounded-lg",
-                    span === 2 && "row-span-2"
-                  )}
-                />
-              );
-            })}
-          </div>
-        ) : templates.length === 0 ? (
-          <div className="text-center py-16">
-            <p className="text-muted-foreground text-lg">
-              No templates found. Try a different search or category.
-            </p>
-          </div>
-        ) : (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4 auto-rows-[200px] sm:auto-rows-[240px] lg:auto-rows-[280px]">
-            {templates.map((template, index) => {
-              const rowSpan = getMasonrySpan(index, columnCount);
-              const spanClass = rowSpan === 2 ? "row-span-2" : "";
-
-              return (
-                <div
-                  key={template.id}
-                  onClick={() => handleTemplateClick(template.id)}
-                  onKeyDown={(e) => {
-                    if (e.key === "Enter" || e.key === " ") {
-                      e.preventDefault();
-                      handleTemplateClick(template.id);
-                    }
-                  }}
-                  role="button"
-                  tabIndex={0}
-                  className={cn(
-                    "relative group overflow-hidden bg-card border border-border cursor-pointer rounded-lg transition-all duration-300 ease-out",
-                    "hover:shadow-xl hover:scale-[1.02] hover:z-10",
-                    spanClass
-                  )}
-                >
-                  {/* Template Preview */}
-                  <div className="absolute inset-0">
-                    {template.thumbnail ? (
-                      <Image
-                        src={template.thumbnail}
-                        alt={template.name}
-                        fill
-                        sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw"
-                        className="object-cover object-center transition-transform duration-500 group-hover:scale-105"
-                        unoptimized
-                      />
-                    ) : (
-                      <div className="absolute inset-0 bg-linear-to-br from-primary/10 via-secondary/10 to-accent/10 flex items-center justify-center text-muted-foreground text-sm">
-                        No thumbnail available
+                      {/* Overlay on Hover */}
+                      <div className="absolute inset-0 bg-linear-to-t from-black/60 via-black/0 to-black/0 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+                        <div className="absolute inset-0 flex flex-col items-center justify-center gap-2">
+                          <span className="inline-flex items-center justify-center whitespace-nowrap rounded-md text-sm font-medium transition-all h-9 px-4 bg-white text-black hover:bg-white/90 shadow-lg transform translate-y-2 group-hover:translate-y-0">
+                            Preview Template
+                          </span>
+                          <p className="text-white text-sm font-medium px-4 text-center line-clamp-2 opacity-0 group-hover:opacity-100 transition-opacity delay-75">
+                            {template.name}
+                          </p>
+                        </div>
                       </div>
-                    )}
-                  </div>
-
-                  {/* Overlay on Hover */}
-                  <div className="absolute inset-0 bg-linear-to-t from-black/60 via-black/0 to-black/0 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
-                    <div className="absolute inset-0 flex flex-col items-center justify-center gap-2">
-                      <span className="inline-flex items-center justify-center whitespace-nowrap rounded-md text-sm font-medium transition-all h-9 px-4 bg-white text-black hover:bg-white/90 shadow-lg transform translate-y-2 group-hover:translate-y-0">
-                        Preview Template
-                      </span>
-                      <p className="text-white text-sm font-medium px-4 text-center line-clamp-2 opacity-0 group-hover:opacity-100 transition-opacity delay-75">
-                        {template.name}
-                      </p>
                     </div>
-                  </div>
-                </div>
-              );
-            })}
+                  );
+                })}
+              </div>
+            )}
           </div>
-        )}
+        </div>
       </div>
 
       {/* Preview Modal */}
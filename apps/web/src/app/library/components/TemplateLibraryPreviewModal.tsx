@@ -90,16 +90,12 @@ export function TemplateLibraryPreviewModal({
     } | null;
   } | undefined;
 
-  // Remix mutation
-  const remixMutation = trpc.template.core.duplicate.useMutation({
-    onSuccess: (data: { id: string }) => {
-      toast.success("Template remixed successfully");
+  // Remix = install into the workspace (branded, linked to the library entry)
+  const remixMutation = trpc.template.library.install.useMutation({
+    onSuccess: (data: { templateId: string }) => {
       utils.template.core.list.invalidate();
       onOpenChange(false);
-      router.push(`/app/${data.id}`);
-    },
-    onError: (error: { message?: string }) => {
-      toast.error(error.message || "Failed to remix template");
+      router.push(`/app/${data.templateId}`);
     },
   });
 
@@ -117,8 +113,8 @@ export function TemplateLibraryPreviewModal({
       return;
     }
 
-    if (!template?.sourceTemplate?.id) {
-      toast.error("Template source not found");
+    if (!template?.id) {
+      toast.error("Template not found");
       return;
     }
     if (!activeOrganization) {
@@ -127,14 +123,25 @@ export function TemplateLibraryPreviewModal({
     }
 
     const toastId = `remix-${template.id}`;
-    toast.loading("Remixing template...", { id: toastId });
+    toast.loading("Adding template to your workspace...", { id: toastId });
     remixMutation.mutate(
-      { id: template.sourceTemplate.id },
+      { libraryId: template.id },
       {
-        onSuccess: () => {
-          toast.success("Template remixed successfully", { id: toastId });
+        // Note: Using `any` for callback parameters to prevent "Type instantiation is excessively deep" error
+        onSuccess: (data: any) => {
+          if (data.alreadyInstalled) {
+            toast.success("Opening your workspace copy", { id: toastId });
+            return;
+          }
+          toast.success("Template added to your workspace", {
+            id: toastId,
+            description:
+              data.brandApplied.length > 0
+                ? "Your brand colors, font and logo were applied."
+                : undefined,
+          });
         },
-        onError: (error) => {
+        onError: (error: any) => {
           toast.error(error.message || "Failed to remix template", {
             id: toastId,
           });
@@ -299,7 +306,7 @@ export function TemplateLibraryPreviewModal({
               onClick={handleRemix}
               disabled={
                 remixMutation.isPending || 
-                !template?.sourceTemplate?.id
+                !template?.id
               }
             >
               {!session ? (
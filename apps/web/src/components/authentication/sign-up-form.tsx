@@ -26,9 +26,12 @@ function SignUpFormContent() {
   const searchParams = useSearchParams();
   const plan = searchParams.get("plan");
   const interval = searchParams.get("interval");
+  const callbackUrl = searchParams.get("callbackUrl");
   
   // Build callback URL with plan/interval params if present
   const buildCallbackUrl = () => {
+    // Invitation links send new users back to accept the invite
+    if (callbackUrl?.startsWith("/invite/")) return callbackUrl;
     const baseUrl = "/brand-setup";
     if (plan && interval) {
       const params = new URLSearchParams({ plan, interval });
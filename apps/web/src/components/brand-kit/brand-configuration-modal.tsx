@@ -10,16 +10,21 @@ import {
 } from "@/components/ui/dialog";
 import { useOrganization } from "@/contexts/organization-context";
 import { trpcClient } from "@/utils/trpc";
-import { AlertCircle, Building2, Check, Loader2, X } from "lucide-react";
+import { AlertCircle, Building2, Check, Globe, History, Loader2, X } from "lucide-react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useCallback, useEffect, useRef, useState } from "react";
 import { toast } from "sonner";
+import { parseWebFonts, type WebFont } from "@mocah/shared";
 
 // Section Components
 import { LiveEmailPreview } from "@/components/onboarding/live-email-preview";
 import MocahLoadingIcon from "../mocah-brand/MocahLoadingIcon";
 import { Avatar, AvatarFallback, AvatarImage } from "../ui/avatar";
 import { BrandConfigNav, type SectionId } from "./brand-config-nav";
+import { BrandCrawlDialog } from "./brand-crawl-dialog";
+import { BrandKitHistoryDialog } from "./brand-kit-history-dialog";
+import { BrandKitSwitcher } from "./brand-kit-switcher";
+import { RebrandTemplatesDialog } from "./rebrand-templates-dialog";
 import { BrandAIDataSection } from "./sections/brand-ai-data-section";
 import { BrandColorsSection } from "./sections/brand-colors-section";
 import { BrandCompanySection } from "./sections/brand-company-section";
@@ -52,6 +57,7 @@ export interface BrandKitData {
 
   // Typography & Layout
   fontFamily: string | null;
+  webFonts: WebFont[] | null;
   borderRadius: string | null;
 
   // Personality
@@ -84,6 +90,16 @@ export interface BrandKitData {
   scrapeConfidence: number | null;
 }
 
+// Fields whose old values templates may still carry
+const REBRANDABLE_FIELDS = [
+  "primaryColor",
+  "accentColor",
+  "backgroundColor",
+  "textPrimaryColor",
+  "fontFamily",
+  "borderRadius",
+] as const satisfies ReadonlyArray<keyof BrandKitData>;
+
 // ============================================================================
 // Main Component
 // ============================================================================
@@ -95,10 +111,17 @@ export function BrandConfigurationModal() {
 
   const isOpen = searchParams.get("brand") === "configuration";
   const [activeSection, setActiveSection] = useState<SectionId>("identity");
+  // Kit being edited; the organization default when undefined
+  const [brandKitId, setBrandKitId] = useState<string | undefined>(undefined);
   const [brandData, setBrandData] = useState<BrandKitData | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isCrawlOpen, setIsCrawlOpen] = useState(false);
+  const [rebrandRevisionId, setRebrandRevisionId] = useState<string | null>(null);
+  // Brand data as last saved, to spot style changes worth re-branding
+  const savedBrandDataRef = useRef<BrandKitData | null>(null);
 
   // Refs for scroll-spy
   const sectionRefs = useRef<Record<SectionId, HTMLDivElement | null>>(
@@ -116,6 +139,7 @@ export function BrandConfigurationModal() {
   // Reset state when organization changes
   useEffect(() => {
     setBrandData(null);
+    setBrandKitId(undefined);
     setHasChanges(false);
     setActiveSection("identity");
   }, [activeOrganization?.id]);
@@ -125,7 +149,7 @@ export function BrandConfigurationModal() {
     if (isOpen && activeOrganization?.id) {
       setIsLoading(true);
       trpcClient.brandKit.get
-        .query({ organizationId: activeOrganization.id })
+        .query({ organizationId: activeOrganization.id, brandKitId })
         .then((data: any) => {
           // Note: Using `any` here to prevent "Type instantiation is excessively deep" error
           // caused by tRPC's complex type inference with Prisma JSON fields.
@@ -141,6 +165,7 @@ export function BrandConfigurationModal() {
               backgroundColor: data.backgroundColor ?? null,
               textPrimaryColor: data.textPrimaryColor ?? null,
               fontFamily: data.fontFamily ?? null,
+              webFonts: parseWebFonts(data.webFonts),
               borderRadius: data.borderRadius ?? null,
               brandVoice: data.brandVoice ?? null,
               brandTone: data.brandTone ?? null,
@@ -161,6 +186,7 @@ export function BrandConfigurationModal() {
               scrapeConfidence: data.scrapeConfidence ?? null,
             };
             setBrandData(brandKitData);
+            savedBrandDataRef.current = brandKitData;
           }
         })
         .catch((error) => {
@@ -169,7 +195,7 @@ export function BrandConfigurationModal() {
         })
         .finally(() => setIsLoading(false));
     }
-  }, [isOpen, activeOrganization?.id]);
+  }, [isOpen, activeOrganization?.id, brandKitId]);
 
   // Scroll spy effect
   useEffect(() => {
@@ -235,6 +261,7 @@ export function BrandConfigurationModal() {
     try {
       await trpcClient.brandKit.update.mutate({
         organizationId: activeOrganization.id,
+        brandKitId,
         // Identity
         companyName: brandData.companyName ?? undefined,
         logo: brandData.logo ?? undefined,
@@ -247,6 +274,7 @@ export function BrandConfigurationModal() {
         textPrimaryColor: brandData.textPrimaryColor ?? undefined,
         // Typography
         fontFamily: brandData.fontFamily ?? undefined,
+        webFonts: brandData.webFonts ?? undefined,
         borderRadius: brandData.borderRadius ?? undefined,
         // Personality
         brandVoice: brandData.brandVoice ?? undefined,
@@ -272,7 +300,27 @@ export function BrandConfigurationModal() {
 
       toast.success("Brand settings saved successfully", { id: savingToast });
       setHasChanges(false);
+
+      const previous = savedBrandDataRef.current;
+      savedBrandDataRef.current = brandData;
       await refreshOrganizations();
+
+      // Offer to carry color, font and radius changes over to existing templates
+      const stylesChanged = REBRANDABLE_FIELDS.some(
+        (field) => previous?.[field] && previous[field] !== brandData[field]
+      );
+      if (stylesChanged) {
+        const [latest] = await trpcClient.brandKit.history.query({ brandKitId, limit: 1 });
+        if (latest && latest.replacements.length > 0) {
+          toast("Update existing templates?", {
+            description: "Some templates may still use your old colors or fonts.",
+            action: {
+              label: "Re-brand",
+              onClick: () => setRebrandRevisionId(latest.id),
+            },
+          });
+        }
+      }
     } catch (error) {
       console.error("Failed to save brand kit:", error);
       toast.error("Failed to save brand settings", { id: savingToast });
@@ -281,6 +329,33 @@ export function BrandConfigurationModal() {
     }
   };
 
+  // Take in the fields accepted from a website crawl; they are already saved,
+  // so unsaved edits to other fields are kept
+  const handleCrawlSaved = async (values: Partial<BrandKitData>) => {
+    const previous = savedBrandDataRef.current;
+    setBrandData((prev) => (prev ? { ...prev, ...values } : null));
+    if (previous) {
+      savedBrandDataRef.current = { ...previous, ...values };
+    }
+    await refreshOrganizations();
+
+    const stylesChanged = REBRANDABLE_FIELDS.some(
+      (field) => field in values && previous?.[field] && previous[field] !== values[field]
+    );
+    if (stylesChanged) {
+      const [latest] = await trpcClient.brandKit.history.query({ brandKitId, limit: 1 });
+      if (latest && latest.replacements.length > 0) {
+        toast("Update existing templates?", {
+          description: "Some templates may still use your old colors or fonts.",
+          action: {
+            label: "Re-brand",
+            onClick: () => setRebrandRevisionId(latest.id),
+          },
+        });
+      }
+    }
+  };
+
   // All sections config
   const sections = [
     {
@@ -331,193 +406,246 @@ export function BrandConfigurationModal() {
   ];
 
   return (
-    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
-      <DialogContent
-        className="sm:max-w-full h-screen p-0 gap-0 overflow-hidden rounded-none grid grid-cols-1 grid-rows-[auto_1fr]"
-        showCloseButton={false}
-      >
-        {/* Header */}
-        <DialogHeader className="px-6 py-4 border-b bg-muted/30 shrink-0">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-3">
-              <div className="flex items-end gap-1">
-                <DialogTitle className="text-xl font-bold flex items-center gap-2">
-                  {isLoading ? (
-                    <Skeleton className="h-6 w-40 rounded-full animate-pulse" />
-                  ) : (
-                    <>
-                      {activeOrganization?.logo ? (
-                        <Avatar className="h-6 w-6 border border-border rounded-full">
-                          <AvatarImage
-                            src={activeOrganization.logo}
-                            className="object-contain p-1"
-                            alt={activeOrganization.name || "Brand Logo"}
-                          />
-                          <AvatarFallback>
-                            {activeOrganization.name?.charAt(0) || "B"}
-                          </AvatarFallback>
-                        </Avatar>
-                      ) : (
-                        <Building2 className="h-4 w-4" />
-                      )}
-                      {activeOrganization?.name || "Brand Name"}
-                    </>
-                  )}
-                </DialogTitle>
-                <DialogDescription className="text-sm font-normal">
-                  <Badge className="text-xs font-normal px-2 py-0.5">
-                    Brand Kit
-                  </Badge>
-                </DialogDescription>
+    <>
+      <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+        <DialogContent
+          className="sm:max-w-full h-screen p-0 gap-0 overflow-hidden rounded-none grid grid-cols-1 grid-rows-[auto_1fr]"
+          showCloseButton={false}
+        >
+          {/* Header */}
+          <DialogHeader className="px-6 py-4 border-b bg-muted/30 shrink-0">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className="flex items-end gap-1">
+                  <DialogTitle className="text-xl font-bold flex items-center gap-2">
+                    {isLoading ? (
+                      <Skeleton className="h-6 w-40 rounded-full animate-pulse" />
+                    ) : (
+                      <>
+                        {activeOrganization?.logo ? (
+                          <Avatar className="h-6 w-6 border border-border rounded-full">
+                            <AvatarImage
+                              src={activeOrganization.logo}
+                              className="object-contain p-1"
+                              alt={activeOrganization.name || "Brand Logo"}
+                            />
+                            <AvatarFallback>
+                              {activeOrganization.name?.charAt(0) || "B"}
+                            </AvatarFallback>
+                          </Avatar>
+                        ) : (
+                          <Building2 className="h-4 w-4" />
+                        )}
+                        {activeOrganization?.name || "Brand Name"}
+                      </>
+                    )}
+                  </DialogTitle>
+                  <DialogDescription className="text-sm font-normal">
+                    <Badge className="text-xs font-normal px-2 py-0.5">
+                      Brand Kit
+                    </Badge>
+                  </DialogDescription>
+                </div>
+                {activeOrganization?.id && (
+                  <BrandKitSwitcher
+                    organizationId={activeOrganization.id}
+                    value={brandKitId}
+                    onChange={setBrandKitId}
+                    onKitsChanged={refreshOrganizations}
+                    hasChanges={hasChanges}
+                  />
+                )}
               </div>
-            </div>
-            <div className="flex items-center gap-2">
-              <Button variant="ghost" size="icon" onClick={handleClose}>
-                <X className="h-4 w-4" />
-              </Button>
-            </div>
-          </div>
-        </DialogHeader>
-
-        {/* Content */}
-        <div className="flex flex-col md:flex-row flex-1 h-full overflow-hidden">
-          {/* Sidebar Navigation */}
-          <BrandConfigNav
-            activeSection={activeSection}
-            onNavigate={scrollToSection}
-          />
-
-          {/* Main Content Area - Split Layout */}
-          <div className="flex-1 flex overflow-hidden border-t md:border-t-0 md:border-x border-border">
-            {isLoading ? (
-              <div className="flex-1 flex items-center justify-center">
-                <MocahLoadingIcon />
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsCrawlOpen(true)}
+                  disabled={!brandData}
+                >
+                  <Globe className="h-4 w-4" />
+                  Import
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsHistoryOpen(true)}
+                  disabled={!brandData}
+                >
+                  <History className="h-4 w-4" />
+                  History
+                </Button>
+                <Button variant="ghost" size="icon" onClick={handleClose}>
+                  <X className="h-4 w-4" />
+                </Button>
               </div>
-            ) : !brandData ? (
-              <div className="flex-1 flex items-center justify-center">
-                <div className="flex flex-col items-center gap-3 text-muted-foreground">
-                  <AlertCircle className="h-8 w-8" />
-                  <p className="text-sm">No brand kit found</p>
-                  <Button variant="outline" size="sm" onClick={handleClose}>
-                    Set up brand
-                  </Button>
+            </div>
+          </DialogHeader>
+
+          {/* Content */}
+          <div className="flex flex-col md:flex-row flex-1 h-full overflow-hidden">
+            {/* Sidebar Navigation */}
+            <BrandConfigNav
+              activeSection={activeSection}
+              onNavigate={scrollToSection}
+            />
+
+            {/* Main Content Area - Split Layout */}
+            <div className="flex-1 flex overflow-hidden border-t md:border-t-0 md:border-x border-border">
+              {isLoading ? (
+                <div className="flex-1 flex items-center justify-center">
+                  <MocahLoadingIcon />
                 </div>
-              </div>
-            ) : (
-              <>
-                {/* Left Side - Scrollable Form Content */}
-                <div className="flex-1 flex flex-col overflow-hidden relative border-r">
-                  <div
-                    ref={scrollContainerRef}
-                    className="flex-1 overflow-y-auto pb-24 scroll-smooth"
-                  >
-                    <div className="space-y-8">
-                      {sections.map(({ id, Component, title }, index) => {
-                        const props = {
-                          data: brandData,
-                          onUpdate: updateBrandData,
-                          disabled: false, // Non-blocking
-                          ...(id === "identity" && {
-                            organizationId: activeOrganization?.id,
-                          }),
-                        };
-                        const isLastSection = index === sections.length - 1;
-
-                        return (
-                          <div key={id}>
-                            <div
-                              ref={(el) => {
-                                sectionRefs.current[id] = el;
-                              }}
-                              data-section={id}
-                              className="space-y-4"
-                            >
-                              <Component {...(props as any)} />
-                            </div>
+              ) : !brandData ? (
+                <div className="flex-1 flex items-center justify-center">
+                  <div className="flex flex-col items-center gap-3 text-muted-foreground">
+                    <AlertCircle className="h-8 w-8" />
+                    <p className="text-sm">No brand kit found</p>
+                    <Button variant="outline" size="sm" onClick={handleClose}>
+                      Set up brand
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  {/* Left Side - Scrollable Form Content */}
+                  <div className="flex-1 flex flex-col overflow-hidden relative border-r">
+                    <div
+                      ref={scrollContainerRef}
+                      className="flex-1 overflow-y-auto pb-24 scroll-smooth"
+                    >
+                      <div className="space-y-8">
+                        {sections.map(({ id, Component, title }, index) => {
+                          const props = {
+                            data: brandData,
+                            onUpdate: updateBrandData,
+                            disabled: false, // Non-blocking
+                            ...(id === "identity" && {
+                              organizationId: activeOrganization?.id,
+                            }),
+                          };
+                          const isLastSection = index === sections.length - 1;
+
+                          return (
+                            <div key={id}>
+                              <div
+                                ref={(el) => {
+                                  sectionRefs.current[id] = el;
+                                }}
+                                data-section={id}
+                                className="space-y-4"
+                              >
+                                <Component {...(props as any)} />
+                              </div>
 
-                            {/* Visual Divider */}
-                            {!isLastSection && (
-                              <div className="flex items-center gap-2 justify-between h-1 bg-primary/5 my-8">
-                                <div className="w-2 h-2 bg-primary/10 backdrop-blur-sm rounded-full" />
+                              {/* Visual Divider */}
+                              {!isLastSection && (
+                                <div className="flex items-center gap-2 justify-between h-1 bg-primary/5 my-8">
+                                  <div className="w-2 h-2 bg-primary/10 backdrop-blur-sm rounded-full" />
 
-                                <div className="w-2 h-2 bg-primary/10 backdrop-blur-sm rounded-full" />
-                              </div>
-                            )}
-                          </div>
-                        );
-                      })}
+                                  <div className="w-2 h-2 bg-primary/10 backdrop-blur-sm rounded-full" />
+                                </div>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
                     </div>
-                  </div>
 
-                  {/* Fixed Save Button at Bottom */}
-                  <div className="absolute bottom-0 left-0 right-0 border-t bg-background/95 backdrop-blur supports-backdrop-filter:bg-background/80 px-6 py-4 z-10">
-                    <div className="flex items-center justify-between">
-                      <div className="text-sm">
-                        {hasChanges ? (
-                          <span className="flex items-center gap-2 text-amber-600 dark:text-amber-500">
-                            <AlertCircle className="h-4 w-4" />
-                            Unsaved changes
-                          </span>
-                        ) : isSaving ? (
-                          <span className="flex items-center gap-2 text-muted-foreground">
-                            <Loader2 className="h-4 w-4 animate-spin" />
-                            Saving...
-                          </span>
-                        ) : (
-                          <span className="flex items-center gap-2 text-green-600 dark:text-green-500">
-                            <Check className="h-4 w-4" />
-                            All changes saved
-                          </span>
-                        )}
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <Button
-                          variant="outline"
-                          onClick={handleClose}
-                          size="sm"
-                        >
-                          Close
-                        </Button>
-                        <Button
-                          onClick={handleSave}
-                          disabled={!hasChanges}
-                          size="sm"
-                        >
-                          Save Changes
-                          {isSaving ? (
-                            <Loader />
+                    {/* Fixed Save Button at Bottom */}
+                    <div className="absolute bottom-0 left-0 right-0 border-t bg-background/95 backdrop-blur supports-backdrop-filter:bg-background/80 px-6 py-4 z-10">
+                      <div className="flex items-center justify-between">
+                        <div className="text-sm">
+                          {hasChanges ? (
+                            <span className="flex items-center gap-2 text-amber-600 dark:text-amber-500">
+                              <AlertCircle className="h-4 w-4" />
+                              Unsaved changes
+                            </span>
+                          ) : isSaving ? (
+                            <span className="flex items-center gap-2 text-muted-foreground">
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                              Saving...
+                            </span>
                           ) : (
-                            null
+                            <span className="flex items-center gap-2 text-green-600 dark:text-green-500">
+                              <Check className="h-4 w-4" />
+                              All changes saved
+                            </span>
                           )}
-                        </Button>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="outline"
+                            onClick={handleClose}
+                            size="sm"
+                          >
+                            Close
+                          </Button>
+                          <Button
+                            onClick={handleSave}
+                            disabled={!hasChanges}
+                            size="sm"
+                          >
+                            Save Changes
+                            {isSaving ? (
+                              <Loader />
+                            ) : (
+                              null
+                            )}
+                          </Button>
+                        </div>
                       </div>
                     </div>
                   </div>
-                </div>
 
-                {/* Right Side - Fixed Preview */}
-                <div className="hidden lg:flex w-[480px] shrink-0 bg-muted/20 items-center justify-center p-6 overflow-hidden">
-                  <div className="w-full h-full flex items-center justify-center">
-                    <LiveEmailPreview
-                      brand={{
-                        brandName: brandData.companyName || undefined,
-                        primaryColor: brandData.primaryColor || undefined,
-                        accentColor: brandData.accentColor || undefined,
-                        backgroundColor: brandData.backgroundColor || undefined,
-                        textColor: brandData.textPrimaryColor || undefined,
-                        borderRadius: brandData.borderRadius || undefined,
-                        fontFamily: brandData.fontFamily || undefined,
-                        logo: brandData.logo || undefined,
-                        brandVoice: brandData.brandVoice || undefined,
-                      }}
-                    />
+                  {/* Right Side - Fixed Preview */}
+                  <div className="hidden lg:flex w-[480px] shrink-0 bg-muted/20 items-center justify-center p-6 overflow-hidden">
+                    <div className="w-full h-full flex items-center justify-center">
+                      <LiveEmailPreview
+                        brand={{
+                          brandName: brandData.companyName || undefined,
+                          primaryColor: brandData.primaryColor || undefined,
+                          accentColor: brandData.accentColor || undefined,
+                          backgroundColor: brandData.backgroundColor || undefined,
+                          textColor: brandData.textPrimaryColor || undefined,
+                          borderRadius: brandData.borderRadius || undefined,
+                          fontFamily: brandData.fontFamily || undefined,
+                          logo: brandData.logo || undefined,
+                          brandVoice: brandData.brandVoice || undefined,
+                        }}
+                      />
+                    </div>
                   </div>
-                </div>
-              </>
-            )}
+                </>
+              )}
+            </div>
           </div>
-        </div>
-      </DialogContent>
-    </Dialog>
+        </DialogContent>
+      </Dialog>
+
+      <BrandKitHistoryDialog
+        open={isHistoryOpen}
+        brandKitId={brandKitId}
+        onOpenChange={setIsHistoryOpen}
+        onRebrand={(revisionId) => {
+          setIsHistoryOpen(false);
+          setRebrandRevisionId(revisionId);
+        }}
+      />
+      {activeOrganization?.id && (
+        <BrandCrawlDialog
+          open={isCrawlOpen}
+          onOpenChange={setIsCrawlOpen}
+          organizationId={activeOrganization.id}
+          brandKitId={brandKitId}
+          defaultUrl={brandData?.websiteUrl}
+          onSaved={(values) => handleCrawlSaved(values as Partial<BrandKitData>)}
+        />
+      )}
+      <RebrandTemplatesDialog
+        revisionId={rebrandRevisionId}
+        onOpenChange={(open) => !open && setRebrandRevisionId(null)}
+      />
+    </>
   );
 }
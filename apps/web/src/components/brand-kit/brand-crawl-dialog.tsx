@@ -0,0 +1,283 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import type { BrandCrawlReviewItem, CrawledPage, CrawlField } from "@mocah/api/lib/brand-crawl";
+import { trpc } from "@/utils/trpc";
+import { ArrowRight, CheckCircle2, Globe, XCircle } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import Loader from "../loader";
+import { ReplacementValue } from "./brand-kit-history-dialog";
+
+const FIELD_LABELS: Record<CrawlField, string> = {
+  primaryColor: "Primary color",
+  accentColor: "Accent color",
+  backgroundColor: "Background color",
+  textPrimaryColor: "Text color",
+  fontFamily: "Font",
+  borderRadius: "Corner radius",
+  logo: "Logo",
+  favicon: "Favicon",
+  ogImage: "Social image",
+  brandVoice: "Voice",
+  brandTone: "Tone",
+  brandEnergy: "Energy",
+  companyName: "Company name",
+  companyDescription: "Description",
+  tagline: "Tagline",
+  industry: "Industry",
+  productsServices: "Products & services",
+  targetAudience: "Target audience",
+  brandValues: "Brand values",
+  socialLinks: "Social links",
+  contactEmail: "Contact email",
+  foundingYear: "Founded",
+  websiteUrl: "Website",
+  summary: "Summary",
+  links: "Links",
+};
+
+const PAGE_LABELS: Record<CrawledPage["kind"], string> = {
+  home: "Home",
+  about: "About",
+  product: "Product",
+  pricing: "Pricing",
+};
+
+function valueKind(field: CrawlField) {
+  if (field === "fontFamily") return "fontFamily";
+  if (field.endsWith("Color")) return "color";
+  return undefined;
+}
+
+interface CrawlResult {
+  pages: CrawledPage[];
+  review: BrandCrawlReviewItem[];
+  scrapeConfidence: number | null;
+}
+
+interface BrandCrawlDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  organizationId: string;
+  /** Kit to fill; the organization default when omitted */
+  brandKitId?: string;
+  defaultUrl?: string | null;
+  /** Called with the saved kit's values for the accepted fields */
+  onSaved: (values: Partial<Record<CrawlField, unknown>>) => void;
+}
+
+/**
+ * Crawl a website and review what it found against the brand kit
+ * Changed fields found with enough confidence are accepted by default; the
+ * rest can be opted into one by one.
+ */
+export function BrandCrawlDialog({
+  open,
+  onOpenChange,
+  organizationId,
+  brandKitId,
+  defaultUrl,
+  onSaved,
+}: BrandCrawlDialogProps) {
+  const [url, setUrl] = useState(defaultUrl ?? "");
+  const [result, setResult] = useState<CrawlResult | null>(null);
+  const [accepted, setAccepted] = useState<Set<CrawlField>>(new Set());
+
+  // Start over each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setUrl(defaultUrl ?? "");
+      setResult(null);
+      setAccepted(new Set());
+    }
+  }, [open, defaultUrl]);
+
+  const crawlMutation = trpc.brandBuilder.crawl.useMutation({
+    onSuccess: (data) => {
+      const crawl = data as CrawlResult;
+      setResult(crawl);
+      setAccepted(new Set(crawl.review.filter((item) => item.recommended).map((item) => item.field)));
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to scan website");
+    },
+  });
+
+  // Note: Using `any` for callback parameters to prevent "Type instantiation is excessively deep" error
+  const saveMutation = trpc.brandBuilder.saveReviewed.useMutation({
+    onSuccess: (result: any, input) => {
+      const fields = Object.keys(input.values) as CrawlField[];
+      toast.success(`Imported ${fields.length} field${fields.length === 1 ? "" : "s"} from the website`);
+      // Images come back re-uploaded to our CDN
+      onSaved(Object.fromEntries(fields.map((field) => [field, result.data[field] ?? input.values[field]])));
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to save brand kit");
+    },
+  });
+
+  const changed = useMemo(
+    () => result?.review.filter((item) => item.changed) ?? [],
+    [result]
+  );
+  const unchangedCount = (result?.review.length ?? 0) - changed.length;
+
+  const toggle = (field: CrawlField, checked: boolean) => {
+    setAccepted((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(field);
+      else next.delete(field);
+      return next;
+    });
+  };
+
+  const handleScan = () => {
+    if (!url.trim()) return;
+    crawlMutation.mutate({ url, organizationId, brandKitId });
+  };
+
+  const handleSave = () => {
+    if (!result) return;
+
+    const fields = changed.filter((item) => accepted.has(item.field));
+    saveMutation.mutate({
+      organizationId,
+      brandKitId,
+      values: Object.fromEntries(fields.map((item) => [item.field, item.value])),
+      scrapeConfidence: result.scrapeConfidence,
+    });
+  };
+
+  const isBusy = crawlMutation.isPending || saveMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import from website</DialogTitle>
+          <DialogDescription>
+            We scan the home, about, product and pricing pages and show what
+            differs from your brand kit. Pick the fields to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="flex gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            handleScan();
+          }}
+        >
+          <Input
+            value={url}
+            onChange={(event) => setUrl(event.target.value)}
+            placeholder="yourcompany.com"
+            disabled={isBusy}
+          />
+          <Button type="submit" variant="outline" disabled={!url.trim() || isBusy}>
+            {crawlMutation.isPending ? <Loader /> : <Globe className="size-4" />}
+            {result ? "Scan again" : "Scan"}
+          </Button>
+        </form>
+
+        {crawlMutation.isPending && (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            Scanning pages, this can take up to a minute…
+          </p>
+        )}
+
+        {result && !crawlMutation.isPending && (
+          <>
+            <div className="flex flex-wrap gap-1.5">
+              {result.pages.map((page) => (
+                <Badge
+                  key={page.url}
+                  variant="secondary"
+                  className="gap-1 font-normal"
+                  title={page.error ?? page.url}
+                >
+                  {page.status === "ok" ? (
+                    <CheckCircle2 className="size-3 text-green-600" />
+                  ) : (
+                    <XCircle className="size-3 text-destructive" />
+                  )}
+                  {PAGE_LABELS[page.kind]}
+                </Badge>
+              ))}
+            </div>
+
+            <div className="max-h-[50vh] overflow-y-auto -mx-2">
+              {changed.length === 0 ? (
+                <p className="px-2 py-8 text-center text-sm text-muted-foreground">
+                  Your brand kit already matches the website.
+                </p>
+              ) : (
+                changed.map((item) => (
+                  <label
+                    key={item.field}
+                    className="flex items-center gap-3 rounded-md px-2 py-2 text-sm hover:bg-muted/50"
+                  >
+                    <Checkbox
+                      checked={accepted.has(item.field)}
+                      onCheckedChange={(checked) => toggle(item.field, checked === true)}
+                      disabled={saveMutation.isPending}
+                    />
+                    <span className="w-36 shrink-0 text-muted-foreground">
+                      {FIELD_LABELS[item.field]}
+                    </span>
+                    <div className="flex min-w-0 flex-1 items-center gap-2">
+                      <ReplacementValue kind={valueKind(item.field)} value={item.current} />
+                      <ArrowRight className="size-3 shrink-0 text-muted-foreground" />
+                      <ReplacementValue kind={valueKind(item.field)} value={item.value} />
+                    </div>
+                    <span
+                      className="shrink-0 text-xs text-muted-foreground"
+                      title={`Found on ${item.agreement} page${item.agreement === 1 ? "" : "s"} · ${item.source.url}`}
+                    >
+                      {PAGE_LABELS[item.source.kind]}
+                    </span>
+                    <Badge
+                      variant={item.confidence >= 0.5 ? "secondary" : "outline"}
+                      className="w-12 shrink-0 justify-center font-normal tabular-nums"
+                    >
+                      {Math.round(item.confidence * 100)}%
+                    </Badge>
+                  </label>
+                ))
+              )}
+            </div>
+
+            {unchangedCount > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {unchangedCount} field{unchangedCount === 1 ? "" : "s"} already match the website.
+              </p>
+            )}
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={accepted.size === 0 || isBusy}>
+            {saveMutation.isPending ? <Loader /> : null}
+            Save {accepted.size} field{accepted.size === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
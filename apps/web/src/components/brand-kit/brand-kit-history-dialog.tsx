@@ -0,0 +1,151 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { trpc } from "@/utils/trpc";
+import { formatDistanceToNow } from "date-fns";
+import { ArrowRight, Paintbrush } from "lucide-react";
+import Loader from "../loader";
+
+const SOURCE_LABELS: Record<string, string> = {
+  create: "Created",
+  update: "Edited",
+  scrape: "Imported from website",
+};
+
+const COLOR_VALUE = /^(#[0-9a-f]{3,8}|rgba?\(.+\)|hsla?\(.+\))$/i;
+
+/**
+ * A changed value, with a swatch for colors and the font itself for fonts
+ */
+export function ReplacementValue({ kind, value }: { kind?: string; value: unknown }) {
+  if (value === null || value === undefined || value === "") {
+    return <span className="text-muted-foreground italic">empty</span>;
+  }
+
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+
+  if (typeof value === "string" && (kind === "color" || COLOR_VALUE.test(value))) {
+    return (
+      <span className="inline-flex items-center gap-1.5 font-mono text-xs">
+        <span
+          className="size-3 shrink-0 rounded-full border border-border"
+          style={{ backgroundColor: value }}
+        />
+        {value}
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className="max-w-48 truncate text-xs"
+      title={text}
+      style={kind === "fontFamily" ? { fontFamily: text } : undefined}
+    >
+      {text}
+    </span>
+  );
+}
+
+interface BrandKitHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Kit to show; the organization default when omitted */
+  brandKitId?: string;
+  onRebrand: (revisionId: string) => void;
+}
+
+/**
+ * Change history of a brand kit, newest first
+ */
+export function BrandKitHistoryDialog({
+  open,
+  onOpenChange,
+  brandKitId,
+  onRebrand,
+}: BrandKitHistoryDialogProps) {
+  const { data: revisions, isLoading } = trpc.brandKit.history.useQuery(
+    { brandKitId },
+    { enabled: open }
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Brand kit history</DialogTitle>
+          <DialogDescription>
+            Every change to this brand kit. Color, font and corner radius
+            changes can be applied to templates that still use the old values.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto -mx-2">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader />
+            </div>
+          ) : !revisions || revisions.length === 0 ? (
+            <p className="px-2 py-8 text-center text-sm text-muted-foreground">
+              No changes recorded yet.
+            </p>
+          ) : (
+            revisions.map((revision) => (
+              <div key={revision.id} className="flex flex-col gap-2 border-b px-2 py-3 last:border-b-0">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <Badge variant="secondary">v{revision.version}</Badge>
+                    <span className="font-medium">
+                      {SOURCE_LABELS[revision.source] ?? revision.source}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}
+                    </span>
+                  </div>
+                  {revision.replacements.length > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onRebrand(revision.id)}
+                    >
+                      <Paintbrush className="size-3.5" />
+                      Re-brand templates
+                    </Button>
+                  )}
+                </div>
+                <div className="flex flex-col gap-1">
+                  {revision.changes.map((change) => (
+                    <div key={change.field} className="flex items-center gap-2 text-sm">
+                      <span className="w-36 shrink-0 text-muted-foreground">{change.field}</span>
+                      {revision.source !== "create" && (
+                        <>
+                          <ReplacementValue
+                            kind={change.field === "fontFamily" ? "fontFamily" : undefined}
+                            value={change.from}
+                          />
+                          <ArrowRight className="size-3 shrink-0 text-muted-foreground" />
+                        </>
+                      )}
+                      <ReplacementValue
+                        kind={change.field === "fontFamily" ? "fontFamily" : undefined}
+                        value={change.to}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
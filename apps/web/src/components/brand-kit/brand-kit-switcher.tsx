@@ -0,0 +1,264 @@
+"use client";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { trpc } from "@/utils/trpc";
+import { Check, ChevronDown, Pencil, Plus, Star, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import Loader from "../loader";
+
+interface BrandKitSummary {
+  id: string;
+  name: string;
+  primaryColor: string | null;
+  isDefault: boolean;
+}
+
+type NameDialog = { mode: "create" } | { mode: "rename"; brandKit: BrandKitSummary };
+
+interface BrandKitSwitcherProps {
+  organizationId: string;
+  /** Kit being edited; the organization default when undefined */
+  value?: string;
+  onChange: (brandKitId: string | undefined) => void;
+  /** Called after a kit is created, renamed, deleted or made the default */
+  onKitsChanged?: () => void;
+  /** Switching is blocked while the open kit has unsaved changes */
+  hasChanges?: boolean;
+}
+
+/**
+ * Picks which of the organization's brand kits the modal edits, and creates,
+ * renames, deletes or changes the default kit
+ */
+export function BrandKitSwitcher({
+  organizationId,
+  value,
+  onChange,
+  onKitsChanged,
+  hasChanges,
+}: BrandKitSwitcherProps) {
+  const utils = trpc.useUtils();
+  const [nameDialog, setNameDialog] = useState<NameDialog | null>(null);
+  const [name, setName] = useState("");
+  const [kitToDelete, setKitToDelete] = useState<BrandKitSummary | null>(null);
+
+  // Note: Type assertion to prevent "Type instantiation is excessively deep" error
+  const { data: brandKits } = trpc.brandKit.list.useQuery() as {
+    data: BrandKitSummary[] | undefined;
+  };
+
+  const current =
+    brandKits?.find((brandKit) => brandKit.id === value) ??
+    brandKits?.find((brandKit) => brandKit.isDefault);
+
+  const refresh = () => {
+    utils.brandKit.list.invalidate();
+    onKitsChanged?.();
+  };
+
+  // Note: Using `any` for callback parameters to prevent "Type instantiation is excessively deep" error
+  const onError = (error: any) => {
+    toast.error(error.message || "Failed to update brand kit");
+  };
+
+  const createKit = trpc.brandKit.create.useMutation({
+    onSuccess: (brandKit: any) => {
+      setNameDialog(null);
+      refresh();
+      onChange(brandKit.id);
+      toast.success("Brand kit created");
+    },
+    onError,
+  });
+  const renameKit = trpc.brandKit.update.useMutation({
+    onSuccess: () => {
+      setNameDialog(null);
+      refresh();
+      toast.success("Brand kit renamed");
+    },
+    onError,
+  });
+  const setDefault = trpc.brandKit.setDefault.useMutation({
+    onSuccess: () => {
+      refresh();
+      toast.success("Default brand kit changed");
+    },
+    onError,
+  });
+  const deleteKit = trpc.brandKit.delete.useMutation({
+    onSuccess: (_result: any, input) => {
+      setKitToDelete(null);
+      if (input.brandKitId === current?.id) onChange(undefined);
+      refresh();
+      toast.success("Brand kit deleted");
+    },
+    onError,
+  });
+
+  const select = (brandKitId: string) => {
+    if (brandKitId === current?.id) return;
+    if (hasChanges) {
+      toast.error("Save your changes before switching brand kits");
+      return;
+    }
+    onChange(brandKitId);
+  };
+
+  const openNameDialog = (dialog: NameDialog) => {
+    setName(dialog.mode === "rename" ? dialog.brandKit.name : "");
+    setNameDialog(dialog);
+  };
+
+  const handleNameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!nameDialog || !name.trim()) return;
+
+    if (nameDialog.mode === "create") {
+      createKit.mutate({ name: name.trim() });
+    } else {
+      renameKit.mutate({
+        organizationId,
+        brandKitId: nameDialog.brandKit.id,
+        name: name.trim(),
+      });
+    }
+  };
+
+  const isNaming = createKit.isPending || renameKit.isPending;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="max-w-56 gap-2" disabled={!brandKits}>
+            <span
+              className="size-3 shrink-0 rounded-full border border-border"
+              style={{ backgroundColor: current?.primaryColor || undefined }}
+            />
+            <span className="truncate">{current?.name ?? "Brand kit"}</span>
+            <ChevronDown className="size-3.5 text-muted-foreground" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuLabel className="text-xs text-muted-foreground">Brand kits</DropdownMenuLabel>
+          {brandKits?.map((brandKit) => (
+            <DropdownMenuItem key={brandKit.id} onSelect={() => select(brandKit.id)}>
+              <span
+                className="size-3 shrink-0 rounded-full border border-border"
+                style={{ backgroundColor: brandKit.primaryColor || undefined }}
+              />
+              <span className="flex-1 truncate">{brandKit.name}</span>
+              {brandKit.isDefault && <span className="text-xs text-muted-foreground">Default</span>}
+              {brandKit.id === current?.id && <Check className="size-3.5" />}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => openNameDialog({ mode: "create" })}>
+            <Plus className="size-4" />
+            New brand kit
+          </DropdownMenuItem>
+          {current && (
+            <>
+              <DropdownMenuItem onSelect={() => openNameDialog({ mode: "rename", brandKit: current })}>
+                <Pencil className="size-4" />
+                Rename
+              </DropdownMenuItem>
+              {!current.isDefault && (
+                <DropdownMenuItem onSelect={() => setDefault.mutate({ brandKitId: current.id })}>
+                  <Star className="size-4" />
+                  Make default
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem variant="destructive" onSelect={() => setKitToDelete(current)}>
+                <Trash2 className="size-4" />
+                Delete
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={!!nameDialog} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent className="sm:max-w-sm">
+          <form onSubmit={handleNameSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{nameDialog?.mode === "rename" ? "Rename brand kit" : "New brand kit"}</DialogTitle>
+              <DialogDescription>
+                {nameDialog?.mode === "rename"
+                  ? "The name is only shown to your team."
+                  : "Start a separate brand, for example for a sub-brand or product line."}
+              </DialogDescription>
+            </DialogHeader>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Brand kit name"
+              maxLength={100}
+              autoFocus
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setNameDialog(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim() || isNaming}>
+                {isNaming ? <Loader /> : null}
+                {nameDialog?.mode === "rename" ? "Rename" : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!kitToDelete} onOpenChange={(open) => !open && setKitToDelete(null)}>
+        <AlertDialogContent className="sm:max-w-sm">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete brand kit</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete <span className="font-bold text-destructive">{kitToDelete?.name}</span>?
+              Templates that use it switch to the default brand kit.
+              {kitToDelete?.isDefault && " The oldest remaining kit becomes the default."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => kitToDelete && deleteKit.mutate({ organizationId, brandKitId: kitToDelete.id })}
+              disabled={deleteKit.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteKit.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
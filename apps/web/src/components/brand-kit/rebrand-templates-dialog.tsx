@@ -0,0 +1,209 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { StyleReplacement } from "@mocah/api/lib/brand-kit-history";
+import { trpc } from "@/utils/trpc";
+import { ArrowRight, Lock } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import Loader from "../loader";
+import { ReplacementValue } from "./brand-kit-history-dialog";
+
+// Matches MAX_REBRAND_TEMPLATES in the brandKit router
+const MAX_REBRAND_TEMPLATES = 50;
+
+interface RebrandCandidate {
+  id: string;
+  name: string;
+  thumbnailUrl: string | null;
+  /** Values replaced in the code; 0 when only style definitions change */
+  replacedValues: number;
+  lockMessage: string | null;
+}
+
+interface RebrandTemplatesDialogProps {
+  revisionId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Preview and apply a brand kit revision's style changes to existing templates
+ * The server lists the templates that still use the old values and rewrites
+ * the selected ones.
+ */
+export function RebrandTemplatesDialog({
+  revisionId,
+  onOpenChange,
+}: RebrandTemplatesDialogProps) {
+  const utils = trpc.useUtils();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  // Note: Type assertion to prevent "Type instantiation is excessively deep" error
+  const { data, isLoading } = trpc.brandKit.rebrandCandidates.useQuery(
+    { revisionId: revisionId ?? "" },
+    { enabled: !!revisionId, refetchOnWindowFocus: false }
+  ) as {
+    data?: {
+      replacements: StyleReplacement[];
+      templates: RebrandCandidate[];
+    };
+    isLoading: boolean;
+  };
+
+  const affected = data?.templates ?? [];
+
+  // Select every editable template by default
+  useEffect(() => {
+    setSelectedIds(
+      new Set(
+        affected
+          .filter((template) => !template.lockMessage)
+          .slice(0, MAX_REBRAND_TEMPLATES)
+          .map((template) => template.id)
+      )
+    );
+  }, [data]);
+
+  const rebrandMutation = trpc.brandKit.rebrandTemplates.useMutation({
+    onSuccess: (result) => {
+      utils.template.core.list.invalidate();
+      if (result.failed.length > 0) {
+        toast.warning(
+          `Re-branded ${result.updated.length} template(s), ${result.failed.length} failed`,
+          { description: result.failed[0]?.message }
+        );
+      } else {
+        toast.success(`Re-branded ${result.updated.length} template(s)`);
+      }
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to re-brand templates");
+    },
+  });
+
+  const toggle = (templateId: string, checked: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(templateId);
+      else next.delete(templateId);
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    if (!revisionId) return;
+
+    rebrandMutation.mutate({
+      revisionId,
+      templateIds: affected
+        .filter((template) => selectedIds.has(template.id))
+        .map((template) => template.id),
+    });
+  };
+
+  const tooMany = selectedIds.size > MAX_REBRAND_TEMPLATES;
+
+  return (
+    <Dialog open={!!revisionId} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Re-brand existing templates</DialogTitle>
+          <DialogDescription>
+            Replace old brand values in templates that still use them. Each
+            template&apos;s current content is saved as a version you can restore.
+          </DialogDescription>
+        </DialogHeader>
+
+        {data && data.replacements.length > 0 && (
+          <div className="flex flex-col gap-1.5 rounded-md border p-3 text-sm">
+            {data.replacements.map((replacement) => (
+              <div key={replacement.field} className="flex items-center gap-2">
+                <span className="w-32 text-muted-foreground">{replacement.field}</span>
+                <ReplacementValue kind={replacement.kind} value={replacement.from} />
+                <ArrowRight className="size-3 text-muted-foreground" />
+                <ReplacementValue kind={replacement.kind} value={replacement.to} />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="max-h-80 overflow-y-auto -mx-2">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader />
+            </div>
+          ) : affected.length === 0 ? (
+            <p className="px-2 py-8 text-center text-sm text-muted-foreground">
+              No templates use the old values.
+            </p>
+          ) : (
+            affected.map((template) => (
+              <label
+                key={template.id}
+                className="flex items-center gap-3 rounded-md px-2 py-2 hover:bg-muted/50"
+              >
+                <Checkbox
+                  checked={selectedIds.has(template.id)}
+                  onCheckedChange={(checked) => toggle(template.id, checked === true)}
+                  disabled={!!template.lockMessage || rebrandMutation.isPending}
+                />
+                {template.thumbnailUrl ? (
+                  <img
+                    src={template.thumbnailUrl}
+                    alt=""
+                    className="h-10 w-8 shrink-0 rounded border object-cover object-top"
+                  />
+                ) : (
+                  <div className="h-10 w-8 shrink-0 rounded border bg-muted" />
+                )}
+                <div className="flex min-w-0 flex-1 flex-col">
+                  <span className="truncate text-sm font-medium">{template.name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {template.lockMessage ? (
+                      <span className="flex items-center gap-1">
+                        <Lock className="size-3" />
+                        {template.lockMessage}
+                      </span>
+                    ) : (
+                      template.replacedValues > 0
+                        ? `${template.replacedValues} value${template.replacedValues === 1 ? "" : "s"} to update`
+                        : "Style definitions to update"
+                    )}
+                  </span>
+                </div>
+              </label>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          {tooMany && (
+            <p className="mr-auto self-center text-xs text-destructive">
+              Select at most {MAX_REBRAND_TEMPLATES} templates at a time
+            </p>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleApply}
+            disabled={selectedIds.size === 0 || tooMany || rebrandMutation.isPending}
+          >
+            {rebrandMutation.isPending ? <Loader /> : null}
+            Re-brand {selectedIds.size} template{selectedIds.size === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,6 +11,7 @@ import {
 import type { BrandKitData } from "../brand-configuration-modal";
 import { EMAIL_SAFE_FONTS } from "@mocah/shared";
 import { Check } from "lucide-react";
+import { BrandWebFontsField } from "./brand-web-fonts-field";
 
 interface BrandTypographySectionProps {
   data: BrandKitData;
@@ -75,7 +76,8 @@ export function BrandTypographySection({
       <div className="space-y-3">
         <Label>Font Family</Label>
         <p className="text-xs text-muted-foreground mb-2">
-          Email-safe fonts that render consistently across all email clients
+          Email-safe fonts render the same in every email client, or use one
+          of your web fonts below
         </p>
         {currentFont && (
           <div className="flex items-center gap-3 p-3 border rounded-lg bg-muted/50">
@@ -129,6 +131,9 @@ export function BrandTypographySection({
         )}
       </div>
 
+      {/* Web Fonts */}
+      <BrandWebFontsField data={data} onUpdate={onUpdate} disabled={disabled} />
+
       {/* Border Radius */}
       <div className="space-y-3">
         <Label>Border Radius</Label>
@@ -0,0 +1,281 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { BrandKitData } from "../brand-configuration-modal";
+import {
+  getFontFallbacks,
+  getPrimaryFontFamily,
+  inferFontCategory,
+  MAX_WEB_FONT_SIZE,
+  MAX_WEB_FONTS,
+  parseFontFileName,
+  type WebFont,
+} from "@mocah/shared";
+import { trpcClient } from "@/utils/trpc";
+import { Check, Trash2, Upload } from "lucide-react";
+import { useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+import Loader from "../../loader";
+
+const FONT_FILE_TYPES: Record<string, "font/woff2" | "font/woff" | "font/ttf" | "font/otf"> = {
+  woff2: "font/woff2",
+  woff: "font/woff",
+  ttf: "font/ttf",
+  otf: "font/otf",
+};
+
+interface BrandWebFontsFieldProps {
+  data: BrandKitData;
+  onUpdate: (updates: Partial<BrandKitData>) => void;
+  disabled?: boolean;
+}
+
+function sameFile(a: WebFont, b: WebFont) {
+  return a.url === b.url && a.weight === b.weight && a.style === b.style;
+}
+
+/**
+ * Web fonts registered on the brand kit
+ * Fonts come from a Google Fonts link or an uploaded file. The brand font
+ * stores the full fallback stack, and the table shows what each group of
+ * email clients ends up rendering.
+ */
+export function BrandWebFontsField({ data, onUpdate, disabled }: BrandWebFontsFieldProps) {
+  const [googleUrl, setGoogleUrl] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const webFonts = data.webFonts ?? [];
+  const brandFamily = getPrimaryFontFamily(data.fontFamily);
+
+  const families = useMemo(() => {
+    const byFamily = new Map<string, WebFont[]>();
+    for (const font of data.webFonts ?? []) {
+      byFamily.set(font.family, [...(byFamily.get(font.family) ?? []), font]);
+    }
+    return [...byFamily.entries()];
+  }, [data.webFonts]);
+
+  const brandWebFont = webFonts.find((font) => font.family.toLowerCase() === brandFamily.toLowerCase());
+
+  // Load the fonts into the page so the previews in this modal use them
+  const fontFaceCss = webFonts
+    .map(
+      (font) =>
+        `@font-face { font-family: '${font.family}'; src: url(${font.url}) format('${font.format}'); font-weight: ${font.weight}; font-style: ${font.style}; font-display: swap; }`
+    )
+    .join("\n");
+
+  const addFonts = (fonts: WebFont[]) => {
+    const added = fonts.filter((font) => !webFonts.some((existing) => sameFile(existing, font)));
+    const next = [...webFonts, ...added];
+    if (next.length > MAX_WEB_FONTS) {
+      toast.error(`A brand kit can hold up to ${MAX_WEB_FONTS} font files`);
+      return false;
+    }
+    onUpdate({ webFonts: next });
+    return true;
+  };
+
+  const setBrandFont = (family: string) => {
+    const font = webFonts.find((entry) => entry.family === family);
+    onUpdate({ fontFamily: getFontFallbacks(family, font?.category).stack });
+  };
+
+  const handleGoogleImport = async () => {
+    if (!googleUrl.trim()) return;
+
+    setIsImporting(true);
+    try {
+      const fonts = await trpcClient.brandKit.importGoogleFont.mutate({ url: googleUrl });
+      if (addFonts(fonts)) {
+        setGoogleUrl("");
+        toast.success(`Added ${fonts[0]!.family}`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to import font");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const contentType = FONT_FILE_TYPES[file.name.split(".").pop()?.toLowerCase() ?? ""];
+    if (!contentType) {
+      toast.error("Upload a .woff2, .woff, .ttf or .otf file");
+      return;
+    }
+    if (file.size > MAX_WEB_FONT_SIZE) {
+      toast.error("Font file too large. Maximum size is 2MB.");
+      return;
+    }
+
+    const { family, weight, style } = parseFontFileName(file.name);
+    if (!family) {
+      toast.error("Couldn't read a font name from the file name");
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const { uploadUrl, publicUrl, format } = await trpcClient.storage.createFontUploadUrl.mutate({
+        fileName: file.name,
+        contentType,
+        fileSize: file.size,
+      });
+
+      const response = await fetch(uploadUrl, {
+        method: "PUT",
+        body: file,
+        headers: { "Content-Type": contentType },
+      });
+      if (!response.ok) {
+        throw new Error(`Upload failed: ${response.statusText}`);
+      }
+
+      if (
+        addFonts([
+          { family, url: publicUrl, format, weight, style, category: inferFontCategory(family), source: "upload" },
+        ])
+      ) {
+        toast.success(`Added ${family}`);
+      }
+    } catch (error) {
+      console.error("Failed to upload font:", error);
+      toast.error("Failed to upload font");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const removeFamily = (family: string) => {
+    const updates: Partial<BrandKitData> = {
+      webFonts: webFonts.filter((font) => font.family !== family),
+    };
+    // Drop the web font from the brand stack but keep its fallbacks
+    if (family.toLowerCase() === brandFamily.toLowerCase() && brandWebFont) {
+      updates.fontFamily = getFontFallbacks(family, brandWebFont.category).fallbackFontFamily.join(", ");
+    }
+    onUpdate(updates);
+  };
+
+  return (
+    <div className="space-y-3">
+      {fontFaceCss && <style>{fontFaceCss}</style>}
+
+      <Label>Web Fonts</Label>
+      <p className="text-xs text-muted-foreground mb-2">
+        Use your own typeface. Clients that can&apos;t load web fonts show the
+        closest system font instead.
+      </p>
+
+      {families.length > 0 && (
+        <div className="divide-y rounded-lg border">
+          {families.map(([family, fonts]) => {
+            const isBrandFont = family.toLowerCase() === brandFamily.toLowerCase();
+            return (
+              <div key={family} className="flex items-center gap-3 p-3">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-lg font-bold" style={{ fontFamily: `'${family}', sans-serif` }}>
+                    {family}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {fonts.map((font) => `${font.weight}${font.style === "italic" ? " italic" : ""}`).join(" · ")}
+                  </p>
+                </div>
+                <Badge variant="secondary" className="font-normal">
+                  {fonts[0]!.source === "google" ? "Google Fonts" : "Uploaded"}
+                </Badge>
+                {isBrandFont ? (
+                  <Badge variant="outline" className="gap-1 font-normal">
+                    <Check className="size-3" />
+                    Brand font
+                  </Badge>
+                ) : (
+                  <Button type="button" variant="outline" size="sm" onClick={() => setBrandFont(family)} disabled={disabled}>
+                    Use
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeFamily(family)}
+                  disabled={disabled}
+                  aria-label={`Remove ${family}`}
+                >
+                  <Trash2 className="size-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <form
+        className="flex gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          handleGoogleImport();
+        }}
+      >
+        <Input
+          value={googleUrl}
+          onChange={(e) => setGoogleUrl(e.target.value)}
+          placeholder="https://fonts.google.com/specimen/Inter"
+          disabled={disabled || isImporting}
+        />
+        <Button type="submit" variant="outline" disabled={disabled || isImporting || !googleUrl.trim()}>
+          {isImporting ? <Loader /> : null}
+          Add
+        </Button>
+      </form>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".woff2,.woff,.ttf,.otf"
+        className="hidden"
+        onChange={handleUpload}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={disabled || isUploading}
+      >
+        {isUploading ? <Loader /> : <Upload className="size-4" />}
+        Upload font file
+      </Button>
+
+      {brandWebFont && (
+        <div className="rounded-lg border">
+          <p className="border-b px-3 py-2 text-xs font-medium text-muted-foreground">
+            What email clients show
+          </p>
+          <table className="w-full text-sm">
+            <tbody>
+              {getFontFallbacks(brandWebFont.family, brandWebFont.category).clients.map((client) => (
+                <tr key={client.clients} className="border-b last:border-0">
+                  <td className="px-3 py-2 text-muted-foreground">{client.clients}</td>
+                  <td className="px-3 py-2 text-right" style={{ fontFamily: client.webFont ? `'${client.font}'` : client.font }}>
+                    {client.font}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -20,13 +20,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Camera, Loader2, Sparkles } from "lucide-react";
@@ -39,7 +33,8 @@ const formSchema = z.object({
   name: z.string().min(1, "Name is required"),
   prompt: z.string().optional(),
   subject: z.string().optional(),
-  category: z.string().optional(),
+  categories: z.array(z.string()),
+  industry: z.string().optional(),
   tags: z.string().optional(),
   isPremium: z.boolean(),
   regenerateThumbnail: z.boolean(),
@@ -56,6 +51,8 @@ interface EditLibraryEntryDialogProps {
     description: string | null;
     subject: string | null;
     category: string | null;
+    categories?: { category: { slug: string } }[];
+    industry?: string | null;
     tags: string[];
     isPremium: boolean;
   } | null;
@@ -65,7 +62,8 @@ interface EditLibraryEntryDialogProps {
     name: string;
     description?: string;
     subject?: string;
-    category?: string;
+    categories?: string[];
+    industry?: string | null;
     tags?: string[];
     isPremium?: boolean;
     regenerateThumbnail?: boolean;
@@ -73,6 +71,19 @@ interface EditLibraryEntryDialogProps {
   isSaving?: boolean;
 }
 
+/**
+ * Primary category first, then the other related categories
+ */
+function getEntryCategories(
+  entry: NonNullable<EditLibraryEntryDialogProps["libraryEntry"]>
+): string[] {
+  const slugs = entry.categories?.map((relation) => relation.category.slug) ?? [];
+  if (slugs.length === 0) return entry.category ? [entry.category] : [];
+  return entry.category && slugs.includes(entry.category)
+    ? [entry.category, ...slugs.filter((slug) => slug !== entry.category)]
+    : slugs;
+}
+
 export function EditLibraryEntryDialog({
   open,
   onOpenChange,
@@ -87,7 +98,8 @@ export function EditLibraryEntryDialog({
       name: libraryEntry?.name || "",
       prompt: libraryEntry?.description || "",
       subject: libraryEntry?.subject || "",
-      category: libraryEntry?.category || "_none",
+      categories: libraryEntry ? getEntryCategories(libraryEntry) : [],
+      industry: libraryEntry?.industry || "",
       tags: libraryEntry?.tags.join(", ") || "",
       isPremium: libraryEntry?.isPremium || false,
       regenerateThumbnail: false,
@@ -100,7 +112,8 @@ export function EditLibraryEntryDialog({
         name: libraryEntry.name,
         prompt: libraryEntry.description || "",
         subject: libraryEntry.subject || "",
-        category: libraryEntry.category || "_none",
+        categories: getEntryCategories(libraryEntry),
+        industry: libraryEntry.industry || "",
         tags: libraryEntry.tags.join(", "),
         isPremium: libraryEntry.isPremium,
         regenerateThumbnail: false,
@@ -123,7 +136,8 @@ export function EditLibraryEntryDialog({
       name: data.name,
       description: data.prompt,
       subject: data.subject,
-      category: data.category === "_none" ? undefined : data.category,
+      categories: data.categories,
+      industry: data.industry?.trim() || null,
       tags,
       isPremium: data.isPremium,
       regenerateThumbnail: data.regenerateThumbnail,
@@ -197,52 +211,83 @@ export function EditLibraryEntryDialog({
               />
             </div>
 
-            {/* Category & Tags Group */}
-            <div className="grid grid-cols-[auto_1fr] items-start gap-4">
+            {/* Categories, Industry & Tags Group */}
+            <div className="space-y-4">
               <FormField
                 control={form.control}
-                name="category"
+                name="categories"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Category</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value}>
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select category" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        <SelectItem value="_none">No category</SelectItem>
-                        {categories.map((cat) => (
-                          <SelectItem key={cat.slug} value={cat.slug}>
-                            {cat.name}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                    <FormLabel>Categories</FormLabel>
+                    <div className="flex flex-wrap gap-1.5">
+                      {categories.map((cat) => {
+                        const selected = field.value.includes(cat.slug);
+                        return (
+                          <Badge
+                            key={cat.slug}
+                            asChild
+                            variant={selected ? "default" : "outline"}
+                            className="cursor-pointer"
+                          >
+                            <button
+                              type="button"
+                              aria-pressed={selected}
+                              onClick={() =>
+                                field.onChange(
+                                  selected
+                                    ? field.value.filter((slug) => slug !== cat.slug)
+                                    : [...field.value, cat.slug]
+                                )
+                              }
+                            >
+                              {cat.name}
+                            </button>
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                    <FormDescription>
+                      The first selected category is shown as the primary one
+                    </FormDescription>
                     <FormMessage />
                   </FormItem>
                 )}
               />
 
-              <FormField
-                control={form.control}
-                name="tags"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>
-                      Tags
-                      <span className="text-xs text-muted-foreground">
-                        comma-separated
-                      </span>
-                    </FormLabel>
-                    <FormControl>
-                      <Input placeholder="welcome, newsletter" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              <div className="grid grid-cols-2 items-start gap-4">
+                <FormField
+                  control={form.control}
+                  name="industry"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Industry</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. Retail" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="tags"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        Tags
+                        <span className="text-xs text-muted-foreground">
+                          comma-separated
+                        </span>
+                      </FormLabel>
+                      <FormControl>
+                        <Input placeholder="welcome, newsletter" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
             </div>
 
             {/* Options Group */}
@@ -0,0 +1,323 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { trpc } from "@/utils/trpc";
+import { Lock, Unlock, Users, X } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type PermissionLevel = "view" | "comment" | "edit" | "publish";
+
+interface TemplateAccess {
+  team: { id: string; name: string } | null;
+  grants: Array<{
+    id: string;
+    level: PermissionLevel;
+    team: { id: string; name: string } | null;
+    user: { id: string; name: string; email: string; image: string | null } | null;
+  }>;
+  permission: PermissionLevel | null;
+  isRestricted: boolean;
+  canManage: boolean;
+}
+
+interface TeamsData {
+  teams: Array<{ id: string; name: string }>;
+  members: Array<{ id: string; name: string; email: string }>;
+}
+
+interface TemplateAccessDialogProps {
+  templateId: string;
+  templateName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const NO_TEAM = "_none";
+
+const LEVEL_LABELS: Record<PermissionLevel, string> = {
+  view: "Can view",
+  comment: "Can comment",
+  edit: "Can edit",
+  publish: "Can publish",
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * Owning team and per-template permissions
+ * Assigning a team or sharing with anyone restricts the template to them,
+ * plus workspace owners and admins.
+ */
+export function TemplateAccessDialog({
+  templateId,
+  templateName,
+  open,
+  onOpenChange,
+}: TemplateAccessDialogProps) {
+  const utils = trpc.useUtils();
+  const [grantee, setGrantee] = useState<string>("");
+  const [level, setLevel] = useState<PermissionLevel>("edit");
+
+  // Note: Type assertion to prevent "Type instantiation is excessively deep" error
+  const { data: access, isLoading } = trpc.template.access.get.useQuery(
+    { templateId },
+    { enabled: open }
+  ) as { data: TemplateAccess | undefined; isLoading: boolean };
+
+  const { data: teamsData } = trpc.team.list.useQuery(undefined, {
+    enabled: open,
+  }) as { data: TeamsData | undefined };
+
+  const refresh = () => {
+    utils.template.access.get.invalidate({ templateId });
+    utils.template.core.list.invalidate();
+  };
+
+  // Note: Using `any` for callback parameters to prevent "Type instantiation is excessively deep" error
+  const onError = (error: any) => {
+    toast.error(error.message || "Failed to update access");
+  };
+
+  const setTeam = trpc.template.access.setTeam.useMutation({
+    onSuccess: refresh,
+    onError,
+  });
+  const grant = trpc.template.access.grant.useMutation({
+    onSuccess: () => {
+      setGrantee("");
+      refresh();
+    },
+    onError,
+  });
+  const revoke = trpc.template.access.revoke.useMutation({
+    onSuccess: refresh,
+    onError,
+  });
+
+  const canManage = !!access?.canManage;
+  const isBusy = setTeam.isPending || grant.isPending || revoke.isPending;
+
+  const grantedTeamIds = new Set(access?.grants.map((g) => g.team?.id).filter(Boolean));
+  const grantedUserIds = new Set(access?.grants.map((g) => g.user?.id).filter(Boolean));
+  const availableTeams = (teamsData?.teams ?? []).filter(
+    (team) => !grantedTeamIds.has(team.id) && team.id !== access?.team?.id
+  );
+  const availableMembers = (teamsData?.members ?? []).filter(
+    (member) => !grantedUserIds.has(member.id)
+  );
+
+  const handleGrant = () => {
+    const [kind, id] = grantee.split(":");
+    if (!id) return;
+    grant.mutate({
+      templateId,
+      level,
+      ...(kind === "team" ? { teamId: id } : { userId: id }),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg" onClick={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle>Manage access</DialogTitle>
+          <DialogDescription>
+            Who can open and change{" "}
+            <span className="font-medium text-foreground">{templateName}</span>
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !access ? (
+          <div className="space-y-3">
+            <Skeleton className="h-9 w-full" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex items-start gap-3 rounded-md border p-3 text-sm">
+              {access.isRestricted ? (
+                <Lock className="mt-0.5 size-4 shrink-0 text-muted-foreground" />
+              ) : (
+                <Unlock className="mt-0.5 size-4 shrink-0 text-muted-foreground" />
+              )}
+              <p className="text-muted-foreground">
+                {access.isRestricted
+                  ? "Only workspace owners and admins, the owning team and the people below can access this template."
+                  : "Everyone in the workspace can access this template."}
+              </p>
+            </div>
+
+            {/* Owning team */}
+            <div className="space-y-2">
+              <Label>Owning team</Label>
+              <Select
+                value={access.team?.id ?? NO_TEAM}
+                disabled={!canManage || isBusy}
+                onValueChange={(value) =>
+                  setTeam.mutate({ templateId, teamId: value === NO_TEAM ? null : value })
+                }
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TEAM}>No team</SelectItem>
+                  {teamsData?.teams.map((team) => (
+                    <SelectItem key={team.id} value={team.id}>
+                      {team.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Grants */}
+            <div className="space-y-2">
+              <Label>Shared with</Label>
+              {access.grants.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Not shared with anyone else</p>
+              ) : (
+                <ul className="divide-y rounded-md border">
+                  {access.grants.map((g) => (
+                    <li key={g.id} className="flex items-center gap-3 px-3 py-2">
+                      <div className="min-w-0 flex-1">
+                        {g.team ? (
+                          <p className="flex items-center gap-1.5 text-sm font-medium">
+                            <Users className="size-3.5 text-muted-foreground" />
+                            {g.team.name}
+                          </p>
+                        ) : (
+                          <>
+                            <p className="truncate text-sm font-medium">{g.user?.name}</p>
+                            <p className="truncate text-xs text-muted-foreground">{g.user?.email}</p>
+                          </>
+                        )}
+                      </div>
+                      <Select
+                        value={g.level}
+                        disabled={!canManage || isBusy}
+                        onValueChange={(value) =>
+                          grant.mutate({
+                            templateId,
+                            level: value as PermissionLevel,
+                            ...(g.team ? { teamId: g.team.id } : { userId: g.user!.id }),
+                          })
+                        }
+                      >
+                        <SelectTrigger size="sm" className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(LEVEL_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {canManage && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="size-8"
+                          aria-label="Remove access"
+                          disabled={isBusy}
+                          onClick={() => revoke.mutate({ permissionId: g.id })}
+                        >
+                          <X className="size-4" />
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Add grant */}
+            {canManage && (
+              <div className="flex items-end gap-2">
+                <div className="flex-1 space-y-2">
+                  <Label>Share with</Label>
+                  <Select value={grantee} onValueChange={setGrantee}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Choose a team or member" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableTeams.length > 0 && (
+                        <SelectGroup>
+                          <SelectLabel>Teams</SelectLabel>
+                          {availableTeams.map((team) => (
+                            <SelectItem key={team.id} value={`team:${team.id}`}>
+                              {team.name}
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                      )}
+                      {availableMembers.length > 0 && (
+                        <SelectGroup>
+                          <SelectLabel>Members</SelectLabel>
+                          {availableMembers.map((member) => (
+                            <SelectItem key={member.id} value={`user:${member.id}`}>
+                              {member.name || member.email}
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Select value={level} onValueChange={(value) => setLevel(value as PermissionLevel)}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(LEVEL_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button onClick={handleGrant} disabled={!grantee || isBusy}>
+                  Share
+                </Button>
+              </div>
+            )}
+
+            {!canManage && access.permission && (
+              <p className="text-xs text-muted-foreground">
+                You have {LEVEL_LABELS[access.permission].toLowerCase().replace("can ", "")} access.
+                Ask someone with publish access to change sharing.
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
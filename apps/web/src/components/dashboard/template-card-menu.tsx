@@ -30,11 +30,13 @@ import {
   Globe,
   ExternalLink,
   RefreshCw,
+  Lock,
 } from "lucide-react";
 import { useState, useEffect } from "react";
 import { toast } from "sonner";
 import { trpc } from "@/utils/trpc";
 import { cn } from "@/lib/utils";
+import { TemplateAccessDialog } from "./template-access-dialog";
 
 interface TemplateCardMenuProps {
   templateId: string;
@@ -69,6 +71,7 @@ export function TemplateCardMenu({
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [showPublishDialog, setShowPublishDialog] = useState(false);
   const [showUnpublishDialog, setShowUnpublishDialog] = useState(false);
+  const [showAccessDialog, setShowAccessDialog] = useState(false);
   const [publishStage, setPublishStage] = useState<PublishStage>("confirm");
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
@@ -169,6 +172,11 @@ export function TemplateCardMenu({
     }
   };
 
+  const handleAccessClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowAccessDialog(true);
+  };
+
   const handleUnpublishClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     setShowUnpublishDialog(true);
@@ -221,6 +229,10 @@ export function TemplateCardMenu({
             <ChevronsUp className="h-4 w-4" />
             Export
           </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleAccessClick}>
+            <Lock className="h-4 w-4" />
+            Manage access
+          </DropdownMenuItem>
           <DropdownMenuItem variant="destructive" onClick={handleDeleteClick}>
             <Trash2 className="h-4 w-4" />
             Delete
@@ -228,6 +240,13 @@ export function TemplateCardMenu({
         </DropdownMenuContent>
       </DropdownMenu>
 
+      <TemplateAccessDialog
+        templateId={templateId}
+        templateName={templateName}
+        open={showAccessDialog}
+        onOpenChange={setShowAccessDialog}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent className="sm:max-w-sm">
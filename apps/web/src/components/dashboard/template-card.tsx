@@ -4,6 +4,7 @@ import { TemplatePreview } from "@/components/template/TemplatePreview";
 import { Card, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { FileText, Globe } from "lucide-react";
+import Image from "next/image";
 import Link from "next/link";
 import { formatDistanceToNow } from "date-fns";
 import { TemplateCardMenu } from "./template-card-menu";
@@ -15,6 +16,7 @@ interface TemplateCardProps {
     name: string;
     updatedAt: string | Date;
     isFavorite: boolean | null;
+    thumbnailUrl: string | null;
     htmlCode: string | null;
     _count: {
       versions: number;
@@ -37,7 +39,21 @@ export function TemplateCard({ template }: TemplateCardProps) {
           <div className="flex w-full items-start justify-between">
             <div className="flex-1 relative">
               <div className="relative w-full group-hover:scale-105 group-focus:scale-105 transition-all duration-300">
-                <TemplatePreview htmlCode={template.htmlCode} />
+                {/* Static thumbnail once captured; live iframe preview until then */}
+                {template.thumbnailUrl ? (
+                  <div className="relative w-full h-40 sm:h-48 overflow-hidden">
+                    <Image
+                      src={template.thumbnailUrl}
+                      alt={template.name}
+                      fill
+                      sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 25vw"
+                      className="object-cover object-top"
+                      unoptimized
+                    />
+                  </div>
+                ) : (
+                  <TemplatePreview htmlCode={template.htmlCode} />
+                )}
               </div>
               <CardTitle className="group-hover:text-primary transition-colors duration-300 p-4 text-lg">
                 {template.name}
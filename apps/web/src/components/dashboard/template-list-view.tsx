@@ -14,6 +14,7 @@ interface Template {
   name: string;
   updatedAt: string | Date;
   isFavorite: boolean | null;
+  thumbnailUrl: string | null;
   htmlCode: string | null;
   _count: {
     versions: number;
@@ -0,0 +1,408 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useOrganization } from "@/contexts/organization-context";
+import { trpc } from "@/utils/trpc";
+import { format } from "date-fns";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type GenerationTypeFilter = "text" | "image" | "template" | "email";
+type GenerationStatusFilter = "pending" | "processing" | "completed" | "failed";
+type ProviderFilter = "openrouter" | "fal";
+
+interface ActivityItem {
+  id: string;
+  createdAt: string | Date;
+  operation: string | null;
+  type: string;
+  provider: string | null;
+  modelId: string | null;
+  status: string;
+  tokensUsed: number | null;
+  cost: number | null;
+  error: string | null;
+  user: { id: string; name: string | null; email: string } | null;
+  template: { id: string; name: string } | null;
+}
+
+interface ActivityPage {
+  items: ActivityItem[];
+  nextCursor?: string;
+}
+
+interface ActivitySummary {
+  count: number;
+  failed: number;
+  tokensUsed: number;
+  cost: number;
+  byModel: Array<{
+    provider: string | null;
+    modelId: string | null;
+    count: number;
+    tokensUsed: number;
+    cost: number;
+  }>;
+}
+
+const ALL = "_all";
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  completed: "secondary",
+  failed: "destructive",
+  pending: "outline",
+  processing: "outline",
+};
+
+const formatCost = (cost: number) => `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function AiActivitySettingsTab() {
+  const { activeOrganization } = useOrganization();
+
+  // Filters
+  const [type, setType] = useState<GenerationTypeFilter | typeof ALL>(ALL);
+  const [status, setStatus] = useState<GenerationStatusFilter | typeof ALL>(ALL);
+  const [provider, setProvider] = useState<ProviderFilter | typeof ALL>(ALL);
+  const [userId, setUserId] = useState<string>(ALL);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const filter = useMemo(
+    () => ({
+      type: type === ALL ? undefined : type,
+      status: status === ALL ? undefined : status,
+      provider: provider === ALL ? undefined : provider,
+      userId: userId === ALL ? undefined : userId,
+      from: from ? new Date(`${from}T00:00:00`) : undefined,
+      // Inclusive of the whole end day
+      to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+    }),
+    [type, status, provider, userId, from, to]
+  );
+
+  const enabled = !!activeOrganization?.id;
+
+  // Queries
+  const { data: users } = trpc.aiActivity.users.useQuery(undefined, {
+    enabled,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+
+  // Note: Type assertion to prevent "Type instantiation is excessively deep" error
+  const { data: summary } = trpc.aiActivity.summary.useQuery(filter, {
+    enabled,
+    retry: false,
+    refetchOnWindowFocus: false,
+  }) as { data: ActivitySummary | undefined };
+
+  const activityQuery = trpc.aiActivity.list.useInfiniteQuery(
+    { ...filter, limit: 25 },
+    {
+      enabled,
+      retry: false,
+      refetchOnWindowFocus: false,
+      getNextPageParam: (lastPage: ActivityPage) => lastPage.nextCursor,
+    }
+  );
+  const pages = (activityQuery.data?.pages ?? []) as ActivityPage[];
+  const items = pages.flatMap((page) => page.items);
+  const isForbidden = activityQuery.error?.data?.code === "FORBIDDEN";
+
+  // Mutations
+  // Note: Using `any` for callback parameters to prevent "Type instantiation is excessively deep" error
+  const exportMutation = trpc.aiActivity.exportCsv.useMutation({
+    onSuccess: (result: any) => {
+      const blob = new Blob([result.csv], { type: "text/csv;charset=utf-8" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = result.filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      if (result.truncated) {
+        toast.warning(`Exported the first ${result.rowCount} rows. Narrow the date range for the rest.`);
+      } else {
+        toast.success(`Exported ${result.rowCount} rows`);
+      }
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to export activity");
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card className="rounded-none border-none">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">AI activity</CardTitle>
+          <CardDescription>
+            Every AI generation in this workspace with its model, tokens and cost
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6 px-0">
+          {isForbidden ? (
+            <p className="px-6 text-sm text-muted-foreground">
+              Only workspace owners and admins can view AI activity.
+            </p>
+          ) : (
+            <>
+              {/* Filters */}
+              <div className="px-6 grid grid-cols-2 md:grid-cols-3 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="ai-activity-type">Type</Label>
+                  <Select value={type} onValueChange={(value) => setType(value as typeof type)}>
+                    <SelectTrigger id="ai-activity-type" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All types</SelectItem>
+                      <SelectItem value="template">Template</SelectItem>
+                      <SelectItem value="text">Text</SelectItem>
+                      <SelectItem value="image">Image</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ai-activity-status">Status</Label>
+                  <Select value={status} onValueChange={(value) => setStatus(value as typeof status)}>
+                    <SelectTrigger id="ai-activity-status" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All statuses</SelectItem>
+                      <SelectItem value="completed">Completed</SelectItem>
+                      <SelectItem value="failed">Failed</SelectItem>
+                      <SelectItem value="processing">Processing</SelectItem>
+                      <SelectItem value="pending">Pending</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ai-activity-provider">Provider</Label>
+                  <Select value={provider} onValueChange={(value) => setProvider(value as typeof provider)}>
+                    <SelectTrigger id="ai-activity-provider" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All providers</SelectItem>
+                      <SelectItem value="openrouter">OpenRouter</SelectItem>
+                      <SelectItem value="fal">fal.ai</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ai-activity-user">Member</Label>
+                  <Select value={userId} onValueChange={setUserId}>
+                    <SelectTrigger id="ai-activity-user" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All members</SelectItem>
+                      {users?.map((user) => (
+                        <SelectItem key={user.id} value={user.id}>
+                          {user.name || user.email}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ai-activity-from">From</Label>
+                  <Input
+                    id="ai-activity-from"
+                    type="date"
+                    value={from}
+                    max={to || undefined}
+                    onChange={(e) => setFrom(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ai-activity-to">To</Label>
+                  <Input
+                    id="ai-activity-to"
+                    type="date"
+                    value={to}
+                    min={from || undefined}
+                    onChange={(e) => setTo(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              {/* Totals */}
+              <div className="px-6 flex flex-wrap items-end justify-between gap-4">
+                <div className="flex flex-wrap gap-6">
+                  <div>
+                    <p className="text-xs text-muted-foreground">Generations</p>
+                    <p className="text-lg font-semibold">{summary?.count ?? "–"}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Tokens</p>
+                    <p className="text-lg font-semibold">
+                      {summary ? summary.tokensUsed.toLocaleString() : "–"}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Cost</p>
+                    <p className="text-lg font-semibold">
+                      {summary ? formatCost(summary.cost) : "–"}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Failed</p>
+                    <p className="text-lg font-semibold">{summary?.failed ?? "–"}</p>
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => exportMutation.mutate(filter)}
+                  disabled={exportMutation.isPending || !summary?.count}
+                >
+                  {exportMutation.isPending ? (
+                    <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                  ) : (
+                    <Download className="h-3.5 w-3.5" />
+                  )}
+                  Export CSV
+                </Button>
+              </div>
+
+              {summary && summary.byModel.length > 0 && (
+                <div className="px-6 flex flex-wrap gap-2">
+                  {summary.byModel.map((group) => (
+                    <Badge
+                      key={`${group.provider}:${group.modelId}`}
+                      variant="secondary"
+                      className="text-xs font-normal"
+                    >
+                      {group.modelId ?? "unknown"} · {group.count} · {formatCost(group.cost)}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+
+              {/* Log */}
+              <div className="px-6">
+                {activityQuery.isLoading ? (
+                  <div className="h-32 bg-muted animate-pulse rounded-lg" />
+                ) : items.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No AI activity for these filters.
+                  </p>
+                ) : (
+                  <div className="border rounded-lg">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Operation</TableHead>
+                          <TableHead>Member</TableHead>
+                          <TableHead>Model</TableHead>
+                          <TableHead className="text-right">Tokens</TableHead>
+                          <TableHead className="text-right">Cost</TableHead>
+                          <TableHead>Status</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {items.map((item) => (
+                          <TableRow key={item.id}>
+                            <TableCell className="text-xs whitespace-nowrap">
+                              {format(new Date(item.createdAt), "MMM d, HH:mm")}
+                            </TableCell>
+                            <TableCell className="text-xs">
+                              <div>{item.operation ?? item.type}</div>
+                              {item.template && (
+                                <div className="text-muted-foreground truncate max-w-40">
+                                  {item.template.name}
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-xs truncate max-w-32">
+                              {item.user?.name || item.user?.email || "–"}
+                            </TableCell>
+                            <TableCell className="text-xs truncate max-w-40">
+                              {item.modelId ?? "–"}
+                            </TableCell>
+                            <TableCell className="text-xs text-right">
+                              {item.tokensUsed?.toLocaleString() ?? "–"}
+                            </TableCell>
+                            <TableCell className="text-xs text-right">
+                              {item.cost !== null ? formatCost(item.cost) : "–"}
+                            </TableCell>
+                            <TableCell>
+                              <Badge
+                                variant={STATUS_VARIANTS[item.status] ?? "outline"}
+                                className="text-xs capitalize"
+                                title={item.error ?? undefined}
+                              >
+                                {item.status}
+                              </Badge>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+
+                {activityQuery.hasNextPage && (
+                  <div className="flex justify-center pt-4">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => activityQuery.fetchNextPage()}
+                      disabled={activityQuery.isFetchingNextPage}
+                    >
+                      {activityQuery.isFetchingNextPage && (
+                        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                      )}
+                      Load more
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
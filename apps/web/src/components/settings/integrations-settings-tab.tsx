@@ -0,0 +1,260 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useOrganization } from "@/contexts/organization-context";
+import { trpc } from "@/utils/trpc";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, Plug, RefreshCw, Unplug } from "lucide-react";
+import { toast } from "sonner";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type IntegrationTypeId = "mailchimp" | "sendgrid" | "klaviyo";
+
+interface ConnectedIntegration {
+  id: string;
+  type: string;
+  name: string;
+  isActive: boolean;
+  lastSyncAt: string | Date | null;
+  syncStatus: string | null;
+  errorMessage: string | null;
+  syncCount: number;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function IntegrationsSettingsTab() {
+  const { activeOrganization } = useOrganization();
+  const utils = trpc.useUtils();
+
+  // State
+  const [selectedType, setSelectedType] = useState<IntegrationTypeId | "">("");
+  const [credentials, setCredentials] = useState<Record<string, string>>({});
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  // Queries
+  const { data: providers } = trpc.integration.providers.useQuery(undefined, {
+    enabled: !!activeOrganization?.id,
+    refetchOnWindowFocus: false,
+  });
+
+  // Note: Type assertion to prevent "Type instantiation is excessively deep" error
+  const { data: integrations, isLoading } = trpc.integration.list.useQuery(undefined, {
+    enabled: !!activeOrganization?.id,
+    refetchOnWindowFocus: false,
+  }) as { data: ConnectedIntegration[] | undefined; isLoading: boolean };
+
+  const selectedProvider = providers?.find((p) => p.type === selectedType);
+
+  // Mutations
+  // Note: Using `any` for callback parameters to prevent "Type instantiation is excessively deep" error
+  const connectMutation = trpc.integration.connect.useMutation({
+    onSuccess: (integration: any) => {
+      toast.success(`Connected ${integration.name}`);
+      setSelectedType("");
+      setCredentials({});
+      utils.integration.list.invalidate();
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to connect");
+    },
+  });
+
+  const testMutation = trpc.integration.test.useMutation({
+    onSuccess: (result: any) => {
+      if (result.ok) {
+        toast.success("Connection is working");
+      } else {
+        toast.error(`Connection failed: ${result.error}`);
+      }
+      utils.integration.list.invalidate();
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Connection test failed");
+    },
+    onSettled: () => setTestingId(null),
+  });
+
+  const disconnectMutation = trpc.integration.disconnect.useMutation({
+    onSuccess: () => {
+      toast.success("Integration disconnected");
+      utils.integration.list.invalidate();
+    },
+    onError: (error: any) => {
+      toast.error(error.message || "Failed to disconnect");
+    },
+  });
+
+  // Handlers
+  const handleConnect = () => {
+    if (!selectedType) return;
+    connectMutation.mutate({ type: selectedType, credentials });
+  };
+
+  const handleTest = (integrationId: string) => {
+    setTestingId(integrationId);
+    testMutation.mutate({ integrationId });
+  };
+
+  const canConnect =
+    !!selectedProvider &&
+    selectedProvider.credentialFields.every((field) => credentials[field.key]?.trim());
+
+  return (
+    <div className="space-y-6">
+      <Card className="rounded-none border-none">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">Integrations</CardTitle>
+          <CardDescription>
+            Connect your email service provider to push templates directly to it
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6 px-0">
+          {/* Connected integrations */}
+          <div className="px-6 space-y-3">
+            {isLoading ? (
+              <div className="h-16 bg-muted animate-pulse rounded-lg" />
+            ) : integrations && integrations.length > 0 ? (
+              integrations.map((integration) => (
+                <div
+                  key={integration.id}
+                  className="flex items-center justify-between gap-4 p-4 border rounded-lg"
+                >
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium truncate">
+                        {integration.name}
+                      </span>
+                      <Badge variant="secondary" className="text-xs capitalize">
+                        {integration.type.replace(/_/g, " ")}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {integration.lastSyncAt
+                        ? `Last push ${formatDistanceToNow(new Date(integration.lastSyncAt), { addSuffix: true })} · ${integration.syncStatus}`
+                        : "No pushes yet"}
+                    </p>
+                    {integration.errorMessage && (
+                      <p className="text-xs text-destructive truncate">
+                        {integration.errorMessage}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleTest(integration.id)}
+                      disabled={testingId === integration.id}
+                    >
+                      {testingId === integration.id ? (
+                        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                      ) : (
+                        <RefreshCw className="h-3.5 w-3.5" />
+                      )}
+                      Test
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => disconnectMutation.mutate({ integrationId: integration.id })}
+                      disabled={disconnectMutation.isPending}
+                    >
+                      <Unplug className="h-3.5 w-3.5" />
+                      Disconnect
+                    </Button>
+                  </div>
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No integrations connected yet.
+              </p>
+            )}
+          </div>
+
+          {/* Connect a provider */}
+          <div className="pt-4 border-t px-6 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="integration-provider">Connect a provider</Label>
+              <Select
+                value={selectedType}
+                onValueChange={(value) => {
+                  setSelectedType(value as IntegrationTypeId);
+                  setCredentials({});
+                }}
+              >
+                <SelectTrigger id="integration-provider" className="w-full">
+                  <SelectValue placeholder="Choose a provider" />
+                </SelectTrigger>
+                <SelectContent>
+                  {providers?.map((provider) => (
+                    <SelectItem key={provider.type} value={provider.type}>
+                      {provider.displayName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {selectedProvider?.credentialFields.map((field) => (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={`integration-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`integration-${field.key}`}
+                  type={field.type}
+                  autoComplete="off"
+                  placeholder={field.placeholder}
+                  value={credentials[field.key] ?? ""}
+                  onChange={(e) =>
+                    setCredentials((prev) => ({ ...prev, [field.key]: e.target.value }))
+                  }
+                />
+                {field.helpText && (
+                  <p className="text-xs text-muted-foreground">{field.helpText}</p>
+                )}
+              </div>
+            ))}
+
+            {selectedProvider && (
+              <Button
+                onClick={handleConnect}
+                disabled={!canConnect || connectMutation.isPending}
+              >
+                {connectMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Plug className="h-4 w-4 mr-2" />
+                )}
+                Connect {selectedProvider.displayName}
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,339 @@
+"use client";
+
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { trpc } from "@/utils/trpc";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, RotateCw, Send, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type Role = "owner" | "admin" | "member";
+
+interface MemberRow {
+  id: string;
+  roles: string[];
+  createdAt: string | Date;
+  user: { id: string; name: string; email: string; image: string | null };
+}
+
+interface InvitationRow {
+  id: string;
+  email: string;
+  role: string;
+  status: string;
+  expiresAt: string | Date;
+}
+
+interface MembersData {
+  members: MemberRow[];
+  invitations: InvitationRow[];
+  currentUserId: string;
+  roles: string[];
+  canManage: boolean;
+}
+
+const ROLE_LABELS: Record<Role, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+};
+
+function getPrimaryRole(roles: string[]): Role {
+  if (roles.includes("owner")) return "owner";
+  if (roles.includes("admin")) return "admin";
+  return "member";
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function MembersSettingsTab() {
+  const utils = trpc.useUtils();
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<"admin" | "member">("member");
+  const [memberToRemove, setMemberToRemove] = useState<MemberRow | null>(null);
+
+  // Note: Type assertion to prevent "Type instantiation is excessively deep" error
+  const { data, isLoading } = trpc.member.list.useQuery() as {
+    data: MembersData | undefined;
+    isLoading: boolean;
+  };
+
+  const refresh = () => utils.member.list.invalidate();
+
+  // Note: Using `any` for callback parameters to prevent "Type instantiation is excessively deep" error
+  const onError = (error: any) => {
+    toast.error(error.message || "Something went wrong");
+  };
+
+  const inviteMutation = trpc.member.invite.useMutation({
+    onSuccess: (result: any) => {
+      setEmail("");
+      refresh();
+      if (result.emailSent) {
+        toast.success(`Invitation sent to ${result.invitation.email}`);
+      } else {
+        toast.warning("Invitation created, but the email could not be sent. Try resending it.");
+      }
+    },
+    onError,
+  });
+  const resendMutation = trpc.member.resend.useMutation({
+    onSuccess: () => {
+      refresh();
+      toast.success("Invitation resent");
+    },
+    onError,
+  });
+  const revokeMutation = trpc.member.revoke.useMutation({
+    onSuccess: () => {
+      refresh();
+      toast.success("Invitation revoked");
+    },
+    onError,
+  });
+  const changeRoleMutation = trpc.member.changeRole.useMutation({
+    onSuccess: () => {
+      refresh();
+      toast.success("Role updated");
+    },
+    onError,
+  });
+  const removeMutation = trpc.member.remove.useMutation({
+    onSuccess: () => {
+      setMemberToRemove(null);
+      refresh();
+      utils.team.list.invalidate();
+      toast.success("Member removed");
+    },
+    onError,
+  });
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    inviteMutation.mutate({ email: email.trim(), role: inviteRole });
+  };
+
+  const canManage = !!data?.canManage;
+  const isOwner = !!data?.roles.includes("owner");
+
+  return (
+    <div className="space-y-6">
+      <Card className="rounded-none border-none">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">Members</CardTitle>
+          <CardDescription>
+            Invite colleagues to this workspace and manage their roles
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {canManage && (
+            <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-2">
+              <Input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="colleague@company.com"
+                className="flex-1"
+              />
+              <Select
+                value={inviteRole}
+                onValueChange={(value) => setInviteRole(value as "admin" | "member")}
+              >
+                <SelectTrigger className="w-full sm:w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="member">Member</SelectItem>
+                  <SelectItem value="admin">Admin</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button type="submit" disabled={!email.trim() || inviteMutation.isPending}>
+                {inviteMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Send className="h-4 w-4" />
+                )}
+                Invite
+              </Button>
+            </form>
+          )}
+
+          {isLoading || !data ? (
+            <div className="space-y-3">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : (
+            <>
+              {/* Members */}
+              <ul className="divide-y rounded-md border">
+                {data.members.map((member) => {
+                  const role = getPrimaryRole(member.roles);
+                  const isSelf = member.user.id === data.currentUserId;
+                  const canEdit = canManage && !isSelf && (role !== "owner" || isOwner);
+
+                  return (
+                    <li key={member.id} className="flex items-center gap-3 px-4 py-3">
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium">
+                          {member.user.name}
+                          {isSelf && <span className="text-muted-foreground"> (you)</span>}
+                        </p>
+                        <p className="truncate text-xs text-muted-foreground">{member.user.email}</p>
+                      </div>
+                      {canEdit ? (
+                        <Select
+                          value={role}
+                          disabled={changeRoleMutation.isPending}
+                          onValueChange={(value) =>
+                            changeRoleMutation.mutate({ memberId: member.id, role: value as Role })
+                          }
+                        >
+                          <SelectTrigger size="sm" className="w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {isOwner && <SelectItem value="owner">Owner</SelectItem>}
+                            <SelectItem value="admin">Admin</SelectItem>
+                            <SelectItem value="member">Member</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge variant="secondary">{ROLE_LABELS[role]}</Badge>
+                      )}
+                      {canEdit && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="size-8 text-destructive"
+                          aria-label={`Remove ${member.user.name}`}
+                          onClick={() => setMemberToRemove(member)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+
+              {/* Pending invitations */}
+              {data.invitations.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Pending invitations</p>
+                  <ul className="divide-y rounded-md border">
+                    {data.invitations.map((invitation) => (
+                      <li key={invitation.id} className="flex items-center gap-3 px-4 py-3">
+                        <div className="min-w-0 flex-1">
+                          <p className="truncate text-sm">{invitation.email}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {invitation.status === "expired"
+                              ? "Expired"
+                              : `Expires ${formatDistanceToNow(new Date(invitation.expiresAt), { addSuffix: true })}`}
+                          </p>
+                        </div>
+                        <Badge variant="outline">
+                          {ROLE_LABELS[invitation.role as Role] ?? invitation.role}
+                        </Badge>
+                        {canManage && (
+                          <>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="size-8"
+                              aria-label="Resend invitation"
+                              disabled={resendMutation.isPending}
+                              onClick={() => resendMutation.mutate({ invitationId: invitation.id })}
+                            >
+                              <RotateCw className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="size-8"
+                              aria-label="Revoke invitation"
+                              disabled={revokeMutation.isPending}
+                              onClick={() => revokeMutation.mutate({ invitationId: invitation.id })}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {!canManage && (
+                <p className="text-sm text-muted-foreground">
+                  Only workspace owners and admins can invite or manage members.
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog
+        open={!!memberToRemove}
+        onOpenChange={(open) => !open && setMemberToRemove(null)}
+      >
+        <AlertDialogContent className="sm:max-w-sm">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove member</AlertDialogTitle>
+            <AlertDialogDescription>
+              Remove{" "}
+              <span className="font-bold text-destructive">{memberToRemove?.user.name}</span>{" "}
+              from this workspace? They will lose access to all of its templates.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => memberToRemove && removeMutation.mutate({ memberId: memberToRemove.id })}
+              disabled={removeMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {removeMutation.isPending ? "Removing..." : "Remove"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
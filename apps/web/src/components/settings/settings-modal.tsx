@@ -1,7 +1,11 @@
 "use client";
 
+import { AiActivitySettingsTab } from "@/components/settings/ai-activity-settings-tab";
+import { MembersSettingsTab } from "@/components/settings/members-settings-tab";
+import { TeamsSettingsTab } from "@/components/settings/teams-settings-tab";
 import { BrandSettingsTab } from "@/components/settings/brand-settings-tab";
 import { BillingSettingsTab } from "@/components/settings/billing-settings-tab";
+import { IntegrationsSettingsTab } from "@/components/settings/integrations-settings-tab";
 import { SettingsNav, type SectionId } from "@/components/settings/settings-nav";
 import { Button } from "@/components/ui/button";
 import {
@@ -82,7 +86,13 @@ export function SettingsModal() {
     const tabParam = searchParams.get("tab");
     if (
       tabParam &&
-      (tabParam === "brand" || tabParam === "notifications" || tabParam === "billing")
+      (tabParam === "brand" ||
+        tabParam === "integrations" ||
+        tabParam === "members" ||
+        tabParam === "teams" ||
+        tabParam === "notifications" ||
+        tabParam === "ai-activity" ||
+        tabParam === "billing")
     ) {
       setActiveSection(tabParam as SectionId);
     }
@@ -192,6 +202,57 @@ export function SettingsModal() {
                       <div className="w-2 h-2 bg-primary/10 backdrop-blur-sm rounded-full" />
                     </div>
 
+                    {/* Integrations Section */}
+                    <div
+                      ref={(el) => {
+                        sectionRefs.current.integrations = el;
+                      }}
+                      data-section="integrations"
+                      className="space-y-4"
+                    >
+                      <IntegrationsSettingsTab />
+                    </div>
+
+                    {/* Visual Divider */}
+                    <div className="flex items-center gap-2 justify-between h-1 bg-primary/5 my-8">
+                      <div className="w-2 h-2 bg-primary/10 backdrop-blur-sm rounded-full" />
+                      <div className="w-2 h-2 bg-primary/10 backdrop-blur-sm rounded-full" />
+                    </div>
+
+                    {/* Members Section */}
+                    <div
+                      ref={(el) => {
+                        sectionRefs.current.members = el;
+                      }}
+                      data-section="members"
+                      className="space-y-4"
+                    >
+                      <MembersSettingsTab />
+                    </div>
+
+                    {/* Visual Divider */}
+                    <div className="flex items-center gap-2 justify-between h-1 bg-primary/5 my-8">
+                      <div className="w-2 h-2 bg-primary/10 backdrop-blur-sm rounded-full" />
+                      <div className="w-2 h-2 bg-primary/10 backdrop-blur-sm rounded-full" />
+                    </div>
+
+                    {/* Teams Section */}
+                    <div
+                      ref={(el) => {
+                        sectionRefs.current.teams = el;
+                      }}
+                      data-section="teams"
+                      className="space-y-4"
+                    >
+                      <TeamsSettingsTab />
+                    </div>
+
+                    {/* Visual Divider */}
+                    <div className="flex items-center gap-2 justify-between h-1 bg-primary/5 my-8">
+                      <div className="w-2 h-2 bg-primary/10 backdrop-blur-sm rounded-full" />
+                      <div className="w-2 h-2 bg-primary/10 backdrop-blur-sm rounded-full" />
+                    </div>
+
                     {/* Notifications Section */}
                     <div
                       ref={(el) => {
@@ -221,6 +282,23 @@ export function SettingsModal() {
                       <div className="w-2 h-2 bg-primary/10 backdrop-blur-sm rounded-full" />
                     </div>
 
+                    {/* AI Activity Section */}
+                    <div
+                      ref={(el) => {
+                        sectionRefs.current["ai-activity"] = el;
+                      }}
+                      data-section="ai-activity"
+                      className="space-y-4"
+                    >
+                      <AiActivitySettingsTab />
+                    </div>
+
+                    {/* Visual Divider */}
+                    <div className="flex items-center gap-2 justify-between h-1 bg-primary/5 my-8">
+                      <div className="w-2 h-2 bg-primary/10 backdrop-blur-sm rounded-full" />
+                      <div className="w-2 h-2 bg-primary/10 backdrop-blur-sm rounded-full" />
+                    </div>
+
                     {/* Billing Section */}
                     <div
                       ref={(el) => {
@@ -3,14 +3,21 @@
 import * as motion from "motion/react-client";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-import { Bell, DollarSign, Palette } from "lucide-react";
+import { Activity, Bell, DollarSign, Palette, Plug, UserCog, Users } from "lucide-react";
 import { useEffect, useRef } from "react";
 
 // ============================================================================
 // Types
 // ============================================================================
 
-export type SectionId = "brand" | "notifications" | "billing";
+export type SectionId =
+  | "brand"
+  | "integrations"
+  | "members"
+  | "teams"
+  | "notifications"
+  | "ai-activity"
+  | "billing";
 
 interface NavItem {
   id: SectionId;
@@ -35,12 +42,36 @@ const NAV_ITEMS: NavItem[] = [
     icon: Palette,
     description: "Brand settings and preferences",
   },
+  {
+    id: "integrations",
+    label: "Integrations",
+    icon: Plug,
+    description: "Connect email service providers",
+  },
+  {
+    id: "members",
+    label: "Members",
+    icon: UserCog,
+    description: "Invitations and member roles",
+  },
+  {
+    id: "teams",
+    label: "Teams",
+    icon: Users,
+    description: "Teams and template ownership",
+  },
   {
     id: "notifications",
     label: "Notifications",
     icon: Bell,
     description: "Notification preferences",
   },
+  {
+    id: "ai-activity",
+    label: "AI activity",
+    icon: Activity,
+    description: "Generation log, usage and cost",
+  },
   {
     id: "billing",
     label: "Billing",
@@ -0,0 +1,343 @@
+"use client";
+
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { trpc } from "@/utils/trpc";
+import { Check, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface TeamUser {
+  id: string;
+  name: string;
+  email: string;
+  image: string | null;
+}
+
+interface Team {
+  id: string;
+  name: string;
+  members: Array<{ id: string; user: TeamUser }>;
+  _count: { templates: number };
+}
+
+interface TeamsData {
+  teams: Team[];
+  members: Array<TeamUser & { roles: string[] }>;
+  canManage: boolean;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function TeamsSettingsTab() {
+  const utils = trpc.useUtils();
+  const [newTeamName, setNewTeamName] = useState("");
+  const [teamToDelete, setTeamToDelete] = useState<Team | null>(null);
+
+  // Note: Type assertion to prevent "Type instantiation is excessively deep" error
+  const { data, isLoading } = trpc.team.list.useQuery() as {
+    data: TeamsData | undefined;
+    isLoading: boolean;
+  };
+
+  const refresh = () => utils.team.list.invalidate();
+
+  // Note: Using `any` for callback parameters to prevent "Type instantiation is excessively deep" error
+  const onError = (error: any) => {
+    toast.error(error.message || "Failed to update team");
+  };
+
+  const createTeam = trpc.team.create.useMutation({
+    onSuccess: () => {
+      setNewTeamName("");
+      refresh();
+      toast.success("Team created");
+    },
+    onError,
+  });
+  const deleteTeam = trpc.team.delete.useMutation({
+    onSuccess: () => {
+      setTeamToDelete(null);
+      refresh();
+      utils.template.core.list.invalidate();
+      toast.success("Team deleted");
+    },
+    onError,
+  });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTeamName.trim()) return;
+    createTeam.mutate({ name: newTeamName.trim() });
+  };
+
+  const canManage = !!data?.canManage;
+
+  return (
+    <div className="space-y-6">
+      <Card className="rounded-none border-none">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">Teams</CardTitle>
+          <CardDescription>
+            Group members into teams. Templates owned by a team are only visible
+            to that team, workspace admins and anyone they are shared with.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {canManage && (
+            <form onSubmit={handleCreate} className="flex gap-2">
+              <Input
+                value={newTeamName}
+                onChange={(e) => setNewTeamName(e.target.value)}
+                placeholder="New team name"
+                maxLength={100}
+              />
+              <Button type="submit" disabled={!newTeamName.trim() || createTeam.isPending}>
+                {createTeam.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Plus className="h-4 w-4" />
+                )}
+                Create team
+              </Button>
+            </form>
+          )}
+
+          {isLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-24 w-full" />
+              <Skeleton className="h-24 w-full" />
+            </div>
+          ) : !data?.teams.length ? (
+            <p className="text-sm text-muted-foreground">
+              {canManage
+                ? "No teams yet. Create one to start organizing templates."
+                : "No teams yet. Workspace owners and admins can create teams."}
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {data.teams.map((team) => (
+                <TeamRow
+                  key={team.id}
+                  team={team}
+                  workspaceMembers={data.members}
+                  canManage={canManage}
+                  onDelete={() => setTeamToDelete(team)}
+                  onChanged={refresh}
+                  onError={onError}
+                />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog
+        open={!!teamToDelete}
+        onOpenChange={(open) => !open && setTeamToDelete(null)}
+      >
+        <AlertDialogContent className="sm:max-w-sm">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete team</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete{" "}
+              <span className="font-bold text-destructive">{teamToDelete?.name}</span>?
+              Its templates stay in the workspace and become visible to everyone
+              unless they are shared with someone else.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => teamToDelete && deleteTeam.mutate({ teamId: teamToDelete.id })}
+              disabled={deleteTeam.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteTeam.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+// ============================================================================
+// Team Row Component
+// ============================================================================
+
+function TeamRow({
+  team,
+  workspaceMembers,
+  canManage,
+  onDelete,
+  onChanged,
+  onError,
+}: {
+  team: Team;
+  workspaceMembers: TeamUser[];
+  canManage: boolean;
+  onDelete: () => void;
+  onChanged: () => void;
+  onError: (error: any) => void;
+}) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(team.name);
+
+  const renameTeam = trpc.team.update.useMutation({
+    onSuccess: () => {
+      setIsRenaming(false);
+      onChanged();
+    },
+    onError,
+  });
+  const addMember = trpc.team.addMember.useMutation({ onSuccess: onChanged, onError });
+  const removeMember = trpc.team.removeMember.useMutation({ onSuccess: onChanged, onError });
+
+  const memberIds = new Set(team.members.map((member) => member.user.id));
+  const availableMembers = workspaceMembers.filter((member) => !memberIds.has(member.id));
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || name.trim() === team.name) {
+      setIsRenaming(false);
+      return;
+    }
+    renameTeam.mutate({ teamId: team.id, name: name.trim() });
+  };
+
+  return (
+    <div className="rounded-md border p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        {isRenaming ? (
+          <form onSubmit={handleRename} className="flex flex-1 items-center gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              autoFocus
+              className="h-8"
+            />
+            <Button type="submit" size="icon" variant="ghost" className="size-8" aria-label="Save name">
+              <Check className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              className="size-8"
+              aria-label="Cancel"
+              onClick={() => {
+                setName(team.name);
+                setIsRenaming(false);
+              }}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </form>
+        ) : (
+          <div className="flex items-center gap-2 min-w-0">
+            <p className="font-medium truncate">{team.name}</p>
+            <Badge variant="secondary">
+              {team._count.templates} {team._count.templates === 1 ? "template" : "templates"}
+            </Badge>
+          </div>
+        )}
+        {canManage && !isRenaming && (
+          <div className="flex items-center gap-1">
+            <Button
+              size="icon"
+              variant="ghost"
+              className="size-8"
+              aria-label="Rename team"
+              onClick={() => setIsRenaming(true)}
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="size-8 text-destructive"
+              aria-label="Delete team"
+              onClick={onDelete}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {team.members.length === 0 && (
+          <span className="text-sm text-muted-foreground">No members</span>
+        )}
+        {team.members.map(({ id, user }) => (
+          <Badge key={id} variant="outline" className="gap-1 pr-1">
+            {user.name || user.email}
+            {canManage && (
+              <button
+                type="button"
+                aria-label={`Remove ${user.name || user.email}`}
+                className="rounded-sm opacity-60 hover:opacity-100"
+                disabled={removeMember.isPending}
+                onClick={() => removeMember.mutate({ teamId: team.id, userId: user.id })}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </Badge>
+        ))}
+        {canManage && availableMembers.length > 0 && (
+          <Select
+            value=""
+            disabled={addMember.isPending}
+            onValueChange={(userId) => addMember.mutate({ teamId: team.id, userId })}
+          >
+            <SelectTrigger size="sm" className="h-7">
+              <SelectValue placeholder="Add member" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableMembers.map((member) => (
+                <SelectItem key={member.id} value={member.id}>
+                  {member.name || member.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+    </div>
+  );
+}
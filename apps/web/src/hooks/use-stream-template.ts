@@ -90,7 +90,12 @@ export function useStreamTemplate({
   });
 
   const generate = useCallback(
-    async (prompt: string, imageUrls?: string[], brandGuidePreference?: boolean) => {
+    async (
+      prompt: string,
+      imageUrls?: string[],
+      brandGuidePreference?: boolean,
+      brandKitId?: string | null
+    ) => {
       setIsGenerating(true);
       setRetryCount(0);
       lastPromptRef.current = prompt;
@@ -113,6 +118,11 @@ export function useStreamTemplate({
 
       // Add brand guide preference (use parameter if provided, otherwise use hook option)
       body.includeBrandGuide = brandGuidePreference !== undefined ? brandGuidePreference : includeBrandGuide;
+
+      // Brand kit to generate with (server falls back to the template's or the default)
+      if (brandKitId) {
+        body.brandKitId = brandKitId;
+      }
       
       lastBodyRef.current = body;
 
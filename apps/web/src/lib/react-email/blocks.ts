@@ -0,0 +1,97 @@
+/**
+ * Block Palette
+ * Ready-made React Email snippets that can be inserted into a template
+ */
+
+export interface EmailBlock {
+  id: string;
+  label: string;
+  description: string;
+  /** Root component, used to check where the block can be dropped */
+  type: string;
+  /** Single JSX element; ids are assigned on insert */
+  code: string;
+}
+
+export const EMAIL_BLOCKS: EmailBlock[] = [
+  {
+    id: 'heading',
+    label: 'Heading',
+    description: 'Large title text',
+    type: 'Heading',
+    code: `<Heading style={{ fontSize: "24px", fontWeight: "bold", margin: "0 0 16px" }}>
+  New heading
+</Heading>`,
+  },
+  {
+    id: 'text',
+    label: 'Text',
+    description: 'Paragraph of body copy',
+    type: 'Text',
+    code: `<Text style={{ fontSize: "16px", lineHeight: "24px", margin: "0 0 16px" }}>
+  Write something here.
+</Text>`,
+  },
+  {
+    id: 'button',
+    label: 'Button',
+    description: 'Call-to-action link',
+    type: 'Button',
+    code: `<Button
+  href="https://example.com"
+  style={{ backgroundColor: "#000000", color: "#ffffff", fontSize: "16px", padding: "12px 24px", borderRadius: "6px", textDecoration: "none" }}
+>
+  Click here
+</Button>`,
+  },
+  {
+    id: 'image',
+    label: 'Image',
+    description: 'Full-width picture',
+    type: 'Img',
+    code: `<Img
+  src="https://cdn.mocah.ai/placeholder/landscape.png"
+  alt="Placeholder"
+  width="600"
+  style={{ width: "100%", height: "auto" }}
+/>`,
+  },
+  {
+    id: 'divider',
+    label: 'Divider',
+    description: 'Horizontal rule',
+    type: 'Hr',
+    code: `<Hr style={{ borderColor: "#e5e7eb", margin: "24px 0" }} />`,
+  },
+  {
+    id: 'section',
+    label: 'Section',
+    description: 'Padded group of content',
+    type: 'Section',
+    code: `<Section style={{ padding: "24px" }}>
+  <Text style={{ fontSize: "16px", lineHeight: "24px", margin: "0" }}>
+    Section content
+  </Text>
+</Section>`,
+  },
+  {
+    id: 'columns',
+    label: 'Two columns',
+    description: 'Side-by-side content',
+    type: 'Section',
+    code: `<Section>
+  <Row>
+    <Column style={{ width: "50%", padding: "0 8px", verticalAlign: "top" }}>
+      <Text style={{ fontSize: "16px", lineHeight: "24px", margin: "0" }}>
+        Left column
+      </Text>
+    </Column>
+    <Column style={{ width: "50%", padding: "0 8px", verticalAlign: "top" }}>
+      <Text style={{ fontSize: "16px", lineHeight: "24px", margin: "0" }}>
+        Right column
+      </Text>
+    </Column>
+  </Row>
+</Section>`,
+  },
+];
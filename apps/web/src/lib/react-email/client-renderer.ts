@@ -13,11 +13,23 @@
  * - Safari compatible (uses browser-compatible server rendering)
  */
 
-import { createElement } from "react";
+import { createElement, Fragment } from "react";
 import { renderToStaticMarkup } from "react-dom/server.browser";
 import * as ReactEmail from "@react-email/components";
 import * as Babel from "@babel/standalone";
-import { logger } from "@mocah/shared";
+import {
+  ALLOWED_EMAIL_COMPONENTS,
+  bindDesignTokens,
+  finalizeRenderedHtml,
+  logger,
+  removeImports,
+  resolveDesignTokens,
+  stripElementIds,
+  substituteTemplateVariables,
+  transformExport,
+  type DesignTokens,
+  type PreviewData,
+} from "@mocah/shared";
 
 
 // ============================================================================
@@ -37,6 +49,13 @@ export interface RenderOptions {
   timeout?: number;
   /** Pretty print HTML output (default: true) */
   pretty?: boolean;
+  /**
+   * Substitute merge tags with preview values (display only)
+   * The cache always holds the raw HTML, so never pass this when the result is saved.
+   */
+  previewData?: PreviewData;
+  /** Values `brand.*` references resolve to (default: the token fallbacks) */
+  designTokens?: DesignTokens;
 }
 
 export enum RenderErrorCode {
@@ -155,9 +174,10 @@ function hashCode(str: string): string {
 /**
  * Generate cache key that includes code and render options
  */
-function generateCacheKey(code: string, pretty: boolean): string {
+function generateCacheKey(code: string, pretty: boolean, designTokens?: DesignTokens): string {
   const codeHash = hashCode(code);
-  return `${codeHash}:${pretty ? '1' : '0'}`;
+  const tokensHash = designTokens ? hashCode(JSON.stringify(designTokens)) : "default";
+  return `${codeHash}:${pretty ? '1' : '0'}:${tokensHash}`;
 }
 
 /**
@@ -179,49 +199,6 @@ function validateInput(code: string): void {
   }
 }
 
-/**
- * Remove import statements from code
- * React Email components are provided directly at runtime
- */
-function removeImports(code: string): string {
-  // Consolidated regex patterns for import removal
-  const importPatterns = [
-    // import X from 'module'
-    /import\s+\w+\s+from\s+['"][^'"]+['"];?\s*/g,
-    // import { X, Y } from 'module'
-    /import\s+\{[^}]*\}\s+from\s+['"][^'"]+['"];?\s*/g,
-    // import * as X from 'module'
-    /import\s+\*\s+as\s+\w+\s+from\s+['"][^'"]+['"];?\s*/g,
-    // import 'module' (side effects)
-    /import\s+['"][^'"]+['"];?\s*/g,
-    // import X, { Y } from 'module'
-    /import\s+\w+\s*,\s*\{[^}]*\}\s+from\s+['"][^'"]+['"];?\s*/g,
-  ];
-
-  let cleanedCode = code;
-  for (const pattern of importPatterns) {
-    cleanedCode = cleanedCode.replace(pattern, "");
-  }
-
-  return cleanedCode;
-}
-
-/**
- * Transform export default to return statement
- */
-function transformExport(code: string): string {
-  // Handle: export default function ComponentName
-  let transformed = code.replace(
-    /export\s+default\s+function\s+(\w+)/,
-    "return function $1"
-  );
-
-  // Handle: export default ComponentName or export default () => ...
-  transformed = transformed.replace(/export\s+default\s+/, "return ");
-
-  return transformed;
-}
-
 // ============================================================================
 // Core Renderer
 // ============================================================================
@@ -251,6 +228,8 @@ export async function renderReactEmailClientSide(
     skipCache = false,
     timeout = CONFIG.DEFAULT_TIMEOUT,
     pretty = true,
+    previewData,
+    designTokens,
   } = options;
 
   // Validate input
@@ -265,16 +244,21 @@ export async function renderReactEmailClientSide(
   }
 
   // Check cache
-  const cacheKey = generateCacheKey(code, pretty);
+  const cacheKey = generateCacheKey(code, pretty, designTokens);
   if (!skipCache) {
     const cached = renderCache.get(cacheKey);
     if (cached) {
-      return cached;
+      return previewData ? substituteTemplateVariables(cached, previewData) : cached;
     }
   }
 
   // Wrap render in timeout promise
-  const renderPromise = executeRender(code, pretty);
+  // Stable element ids are editor metadata, not part of the email
+  const renderPromise = executeRender(
+    stripElementIds(code),
+    pretty,
+    designTokens ?? resolveDesignTokens(null)
+  );
   
   let timer: ReturnType<typeof setTimeout> | undefined;
   const timeoutPromise = new Promise<never>((_, reject) => {
@@ -305,7 +289,7 @@ export async function renderReactEmailClientSide(
       );
     }
 
-    return html;
+    return previewData ? substituteTemplateVariables(html, previewData) : html;
   } catch (error) {
     // Re-throw RenderErrors as-is
     if (error instanceof RenderError) {
@@ -329,7 +313,11 @@ export async function renderReactEmailClientSide(
 /**
  * Execute the actual render process
  */
-async function executeRender(code: string, pretty: boolean): Promise<string> {
+async function executeRender(
+  code: string,
+  pretty: boolean,
+  designTokens: DesignTokens
+): Promise<string> {
   // Step 1: Remove imports
   const cleanedCode = removeImports(code);
 
@@ -358,16 +346,15 @@ async function executeRender(code: string, pretty: boolean): Promise<string> {
     );
   }
 
-  // Step 3: Transform exports
-  const jsCode = transformExport(transformedResult.code);
+  // Step 3: Transform exports and bind brand tokens
+  const jsCode = bindDesignTokens(transformExport(transformedResult.code), designTokens);
 
   // Step 4: Create component factory
-  // In browser context, this is safe - sandboxed by browser
-  const reactEmailComponentNames = Object.keys(ReactEmail);
-
+  // In browser context, this is safe - sandboxed by browser.
+  // Only allow-listed components are exposed, matching the server renderer.
   const componentFactory = new Function(
     "React",
-    ...reactEmailComponentNames,
+    ...ALLOWED_EMAIL_COMPONENTS,
     `
       'use strict';
       ${jsCode}
@@ -376,8 +363,8 @@ async function executeRender(code: string, pretty: boolean): Promise<string> {
 
   // Step 5: Execute with React and React Email components
   const Component = componentFactory(
-    { createElement },
-    ...Object.values(ReactEmail)
+    { createElement, Fragment },
+    ...ALLOWED_EMAIL_COMPONENTS.map((name) => ReactEmail[name])
   );
 
   if (!Component || typeof Component !== "function") {
@@ -389,51 +376,10 @@ async function executeRender(code: string, pretty: boolean): Promise<string> {
 
   // Step 6: Render to HTML using react-dom/server.browser (Safari compatible)
   // Uses browser-compatible server rendering which doesn't rely on Web Streams
-  let html = renderToStaticMarkup(createElement(Component));
-
-  // Add DOCTYPE and proper HTML structure for email
-  html = `<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">${html}`;
-
-  // Apply pretty formatting if requested
-  if (pretty) {
-    return formatHtml(html);
-  }
-
-  return html;
-}
-
-/**
- * Basic HTML pretty printer
- * Adds indentation to HTML for readability
- */
-function formatHtml(html: string): string {
-  let formatted = "";
-  let indent = 0;
-  const indentSize = 2;
-
-  html.split(/(<[^>]+>)/g).forEach((part) => {
-    if (!part.trim()) return;
-
-    // Closing tag
-    if (part.startsWith("</")) {
-      indent = Math.max(0, indent - indentSize);
-      formatted += " ".repeat(indent) + part + "\n";
-    }
-    // Self-closing or opening tag
-    else if (part.startsWith("<")) {
-      formatted += " ".repeat(indent) + part + "\n";
-      // Don't indent for self-closing tags or DOCTYPE/comments
-      if (!part.endsWith("/>") && !part.startsWith("<!")) {
-        indent += indentSize;
-      }
-    }
-    // Text content
-    else {
-      formatted += " ".repeat(indent) + part.trim() + "\n";
-    }
-  });
+  const markup = renderToStaticMarkup(createElement(Component));
 
-  return formatted.trim();
+  // Add DOCTYPE and apply pretty formatting if requested
+  return finalizeRenderedHtml(markup, pretty);
 }
 
 // ============================================================================
@@ -453,7 +399,7 @@ export async function renderReactEmailWithMetadata(
 ): Promise<RenderResult> {
   const startTime = performance.now();
   const pretty = options.pretty ?? true;
-  const cacheKey = generateCacheKey(code, pretty);
+  const cacheKey = generateCacheKey(code, pretty, options.designTokens);
   const wasInCache = !options.skipCache && renderCache.get(cacheKey) !== null;
 
   const html = await renderReactEmailClientSide(code, options);
@@ -6,13 +6,22 @@
 import { 
   parseJSX, 
   generateCode, 
-  findElementAtLine,
+  matchesElementId,
+  getStableElementId,
   findStyleDefinition,
   evaluateObjectExpression
 } from './jsx-parser';
 import type { ElementData } from './element-extractor';
 import * as t from '@babel/types';
 import traverse from '@babel/traverse';
+import { parseExpression } from '@babel/parser';
+import {
+  DESIGN_TOKEN_NAMESPACE,
+  ELEMENT_ID_ATTRIBUTE,
+  ELEMENT_ID_COMPONENTS,
+  createElementId,
+  parseDesignTokenReference,
+} from '@mocah/shared';
 
 export interface ElementUpdates {
   content?: string;
@@ -36,12 +45,10 @@ export function updateReactEmailCode(
   let updatedStyleDefinitions = { ...styleDefinitions };
   let elementFound = false;
   
-  // Find the element node by line number
+  // Find the element node by its stable id (line number for legacy ids)
   traverse(ast, {
     JSXOpeningElement(path: any) {
-      const nodeLine = path.node.loc?.start.line;
-      
-      if (nodeLine === elementData.line) {
+      if (!elementFound && matchesElementId(path.node, elementData.id, elementData.line)) {
         elementFound = true;
         
         // Update content
@@ -72,9 +79,10 @@ export function updateReactEmailCode(
   });
   
   if (!elementFound) {
-    console.warn('updateReactEmailCode: Element not found at line', elementData.line, {
+    console.warn('updateReactEmailCode: Element not found', {
       elementType: elementData.type,
-      elementId: elementData.id
+      elementId: elementData.id,
+      line: elementData.line
     });
   }
   
@@ -207,7 +215,11 @@ function createObjectExpression(obj: Record<string, any>): any {
   const properties: any[] = Object.entries(obj).map(([key, value]) => {
     let valueNode;
     
-    if (typeof value === 'string') {
+    const token = parseDesignTokenReference(value);
+
+    if (token) {
+      valueNode = t.memberExpression(t.identifier(DESIGN_TOKEN_NAMESPACE), t.identifier(token));
+    } else if (typeof value === 'string') {
       valueNode = t.stringLiteral(value);
     } else if (typeof value === 'number') {
       valueNode = t.numericLiteral(value);
@@ -267,7 +279,7 @@ export function convertInlineToStyleObject(
   // Update element to use style object
   traverse(ast, {
     JSXOpeningElement(path: any) {
-      if (path.node.loc?.start.line === elementData.line) {
+      if (matchesElementId(path.node, elementData.id, elementData.line)) {
         // Remove inline style attribute
         path.node.attributes = path.node.attributes.filter(
           (attr: any) => attr.name?.name !== 'style'
@@ -314,7 +326,7 @@ export function convertStyleObjectToInline(
   // Update element to use inline styles
   traverse(ast, {
     JSXOpeningElement(path: any) {
-      if (path.node.loc?.start.line === elementData.line) {
+      if (matchesElementId(path.node, elementData.id, elementData.line)) {
         // Remove style object reference
         path.node.attributes = path.node.attributes.filter(
           (attr: any) => {
@@ -342,3 +354,439 @@ export function convertStyleObjectToInline(
   return generateCode(ast);
 }
 
+
+// ============================================================================
+// Structural Operations
+// ============================================================================
+
+export type DropPlacement = 'before' | 'after' | 'inside';
+export type WrapperComponent = 'Section' | 'Row' | 'Column';
+
+/**
+ * Thrown when a structural edit would produce invalid email markup
+ */
+export class StructureEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StructureEditError';
+  }
+}
+
+const CONTENT_PARENTS = ['Body', 'Container', 'Section', 'Column'];
+
+/**
+ * Where each movable component may live
+ * Html, Head, Body and Preview are fixed and can't be moved, copied or deleted.
+ */
+const ALLOWED_PARENTS: Record<string, string[]> = {
+  Container: ['Body', 'Section', 'Column'],
+  Section: ['Body', 'Container', 'Column'],
+  Row: ['Section'],
+  Column: ['Row'],
+  Heading: CONTENT_PARENTS,
+  Text: CONTENT_PARENTS,
+  Button: CONTENT_PARENTS,
+  Img: CONTENT_PARENTS,
+  Link: CONTENT_PARENTS,
+  Hr: CONTENT_PARENTS,
+};
+
+/** Wrappers that need a specific parent or child to render as a table */
+const REQUIRED_PARENT: Record<string, string> = { Column: 'Row', Row: 'Section' };
+const REQUIRED_CHILD: Record<string, string> = { Row: 'Column' };
+
+const REACT_EMAIL_SOURCE = '@react-email/components';
+const INDENT = '  ';
+
+/**
+ * Whether a component can be placed directly inside another
+ */
+export function canContainElement(parentType: string, childType: string): boolean {
+  return ALLOWED_PARENTS[childType]?.includes(parentType) ?? false;
+}
+
+/**
+ * Whether a component can be moved, duplicated, wrapped or deleted
+ */
+export function isMovableElement(type: string): boolean {
+  return type in ALLOWED_PARENTS;
+}
+
+function getElementName(element: any): string {
+  const name = element?.openingElement?.name;
+  return name?.type === 'JSXIdentifier' ? name.name : '';
+}
+
+/**
+ * Locate an element and its parent JSX element by data-element-id
+ */
+function findElementWithParent(ast: any, elementId: string): { element: any; parent: any } | null {
+  let found: { element: any; parent: any } | null = null;
+
+  traverse(ast, {
+    JSXElement(path: any) {
+      if (found || !matchesElementId(path.node.openingElement, elementId)) return;
+      found = {
+        element: path.node,
+        parent: path.parentPath?.isJSXElement() ? path.parentPath.node : null,
+      };
+      path.stop();
+    },
+  });
+
+  return found;
+}
+
+function requireElement(ast: any, elementId: string) {
+  const found = findElementWithParent(ast, elementId);
+  if (!found) {
+    throw new StructureEditError('That element no longer exists. Refresh the preview and try again.');
+  }
+  return found;
+}
+
+function requireMovable(element: any): string {
+  const type = getElementName(element);
+  if (!isMovableElement(type)) {
+    throw new StructureEditError(`${type || 'This element'} can't be moved, copied or deleted.`);
+  }
+  return type;
+}
+
+function assertCanContain(parentType: string, childType: string) {
+  if (!canContainElement(parentType, childType)) {
+    throw new StructureEditError(`${childType} can't be placed inside ${parentType || 'this element'}.`);
+  }
+}
+
+function isWhitespaceText(node: any): boolean {
+  return t.isJSXText(node) && node.value.trim() === '';
+}
+
+/** Whitespace before a child, reused so inserted siblings line up */
+function getLeadingWhitespace(children: any[], index: number): string {
+  const previous = children[index - 1];
+  return isWhitespaceText(previous) ? previous.value : '\n';
+}
+
+function containsNode(root: any, target: any): boolean {
+  if (root === target) return true;
+  return (root.children ?? []).some((child: any) => t.isJSXElement(child) && containsNode(child, target));
+}
+
+/**
+ * Remove a child together with the whitespace before it
+ */
+function removeChild(parent: any, node: any) {
+  const children = parent.children;
+  const index = children.indexOf(node);
+  if (index < 0) return;
+  const start = isWhitespaceText(children[index - 1]) ? index - 1 : index;
+  children.splice(start, index - start + 1);
+}
+
+/**
+ * Insert a node next to a sibling, or as the last child of a container
+ */
+function insertNode(target: any, targetParent: any, node: any, placement: DropPlacement) {
+  if (placement === 'inside') {
+    if (target.openingElement.selfClosing) {
+      target.openingElement.selfClosing = false;
+      target.closingElement = t.jsxClosingElement(t.jsxIdentifier(getElementName(target)));
+    }
+
+    const children = target.children;
+    let last = children.length - 1;
+    while (last >= 0 && isWhitespaceText(children[last])) last--;
+    if (last < 0) {
+      target.children = [t.jsxText('\n'), node, t.jsxText('\n')];
+      return;
+    }
+    children.splice(last + 1, 0, t.jsxText(getLeadingWhitespace(children, last)), node);
+    return;
+  }
+
+  const children = targetParent.children;
+  const index = children.indexOf(target);
+  const whitespace = getLeadingWhitespace(children, index);
+
+  if (placement === 'before') {
+    children.splice(index, 0, node, t.jsxText(whitespace));
+  } else {
+    children.splice(index + 1, 0, t.jsxText(whitespace), node);
+  }
+}
+
+/** Parent type a node would get for a drop placement */
+function getPlacementParent(target: any, targetParent: any, placement: DropPlacement): string {
+  return placement === 'inside' ? getElementName(target) : getElementName(targetParent);
+}
+
+/**
+ * Give every React Email element in a subtree a fresh data-mocah-id
+ * Returns the root's new id (null when the root isn't a React Email component).
+ */
+function refreshElementIds(node: any): string | null {
+  let rootId: string | null = null;
+
+  const visit = (element: any, isRoot: boolean) => {
+    const name = getElementName(element);
+    if ((ELEMENT_ID_COMPONENTS as readonly string[]).includes(name)) {
+      const id = createElementId();
+      element.openingElement.attributes = element.openingElement.attributes.filter(
+        (attr: any) => attr.name?.name !== ELEMENT_ID_ATTRIBUTE
+      );
+      element.openingElement.attributes.unshift(
+        t.jsxAttribute(t.jsxIdentifier(ELEMENT_ID_ATTRIBUTE), t.stringLiteral(id))
+      );
+      if (isRoot) rootId = id;
+    }
+    element.children?.forEach((child: any) => {
+      if (t.isJSXElement(child)) visit(child, false);
+    });
+  };
+
+  visit(node, true);
+  return rootId;
+}
+
+/** Indent every line break inside a subtree */
+function indentSubtree(node: any, indent: string) {
+  const visit = (child: any) => {
+    if (t.isJSXText(child) && child.value.includes('\n')) {
+      child.value = child.value.replace(/\n/g, `\n${indent}`);
+    }
+    if (t.isJSXElement(child)) child.children.forEach(visit);
+  };
+  node.children.forEach(visit);
+}
+
+/**
+ * Add missing components to the @react-email/components import
+ */
+function ensureComponentImports(ast: any, names: string[]) {
+  let declaration: any = null;
+  traverse(ast, {
+    ImportDeclaration(path: any) {
+      if (!declaration && path.node.source.value === REACT_EMAIL_SOURCE) {
+        declaration = path.node;
+      }
+    },
+  });
+
+  if (!declaration) {
+    declaration = t.importDeclaration([], t.stringLiteral(REACT_EMAIL_SOURCE));
+    ast.program.body.unshift(declaration);
+  }
+
+  const imported = new Set(
+    declaration.specifiers.map((specifier: any) => specifier.local?.name)
+  );
+  for (const name of names) {
+    if (!imported.has(name)) {
+      declaration.specifiers.push(t.importSpecifier(t.identifier(name), t.identifier(name)));
+      imported.add(name);
+    }
+  }
+}
+
+function collectComponentNames(node: any, names = new Set<string>()): Set<string> {
+  const name = getElementName(node);
+  if (name) names.add(name);
+  node.children?.forEach((child: any) => {
+    if (t.isJSXElement(child)) collectComponentNames(child, names);
+  });
+  return names;
+}
+
+/**
+ * Chain of wrappers from the outermost to the one holding the element
+ * e.g. wrapping a Text inside a Container in a Column gives Section > Row > Column.
+ */
+function buildWrapperChain(wrapper: WrapperComponent, childType: string, parentType: string): string[] {
+  const chain: string[] = [wrapper];
+
+  while (!canContainElement(chain[chain.length - 1]!, childType)) {
+    const next = REQUIRED_CHILD[chain[chain.length - 1]!];
+    if (!next || chain.includes(next)) {
+      throw new StructureEditError(`${childType} can't be wrapped in a ${wrapper}.`);
+    }
+    chain.push(next);
+  }
+
+  while (!canContainElement(parentType, chain[0]!)) {
+    const previous = REQUIRED_PARENT[chain[0]!];
+    if (!previous || chain.includes(previous)) {
+      throw new StructureEditError(`A ${wrapper} can't be placed inside ${parentType || 'this element'}.`);
+    }
+    chain.unshift(previous);
+  }
+
+  return chain;
+}
+
+/**
+ * Move an element before, after or into another element
+ */
+export function moveElement(
+  code: string,
+  elementId: string,
+  targetId: string,
+  placement: DropPlacement
+): string {
+  if (elementId === targetId) return code;
+
+  const ast = parseJSX(code);
+  const source = requireElement(ast, elementId);
+  const target = requireElement(ast, targetId);
+  const type = requireMovable(source.element);
+
+  if (containsNode(source.element, target.element)) {
+    throw new StructureEditError("An element can't be moved inside itself.");
+  }
+  if (placement !== 'inside' && !target.parent) {
+    throw new StructureEditError(`Elements can't be placed next to ${getElementName(target.element)}.`);
+  }
+  assertCanContain(getPlacementParent(target.element, target.parent, placement), type);
+
+  removeChild(source.parent, source.element);
+  insertNode(target.element, target.parent, source.element, placement);
+
+  return generateCode(ast);
+}
+
+/**
+ * Duplicate an element (and its children) right after itself
+ * The copy gets fresh data-mocah-id values.
+ */
+export function duplicateElement(
+  code: string,
+  elementId: string
+): { updatedCode: string; newElementId: string | null } {
+  const ast = parseJSX(code);
+  const { element, parent } = requireElement(ast, elementId);
+  requireMovable(element);
+
+  const copy = t.cloneNode(element, true, true);
+  const newElementId = refreshElementIds(copy);
+  insertNode(element, parent, copy, 'after');
+
+  return { updatedCode: generateCode(ast), newElementId };
+}
+
+/**
+ * Delete an element and its children
+ */
+export function deleteElement(code: string, elementId: string): string {
+  const ast = parseJSX(code);
+  const { element, parent } = requireElement(ast, elementId);
+  requireMovable(element);
+
+  removeChild(parent, element);
+
+  return generateCode(ast);
+}
+
+/**
+ * Wrap an element in a Section, Row or Column
+ * Adds whatever wrappers React Email needs around it (a Column always sits
+ * in a Row inside a Section).
+ */
+export function wrapElement(
+  code: string,
+  elementId: string,
+  wrapper: WrapperComponent
+): { updatedCode: string; newElementId: string | null } {
+  const ast = parseJSX(code);
+  const { element, parent } = requireElement(ast, elementId);
+  const type = requireMovable(element);
+  const chain = buildWrapperChain(wrapper, type, getElementName(parent));
+
+  const children = parent.children;
+  const index = children.indexOf(element);
+  const baseIndent = getLeadingWhitespace(children, index);
+
+  // Build the wrappers inside-out
+  indentSubtree(element, INDENT.repeat(chain.length));
+  let wrapped: any = element;
+  chain
+    .slice()
+    .reverse()
+    .forEach((name, depth) => {
+      const innerIndent = baseIndent + INDENT.repeat(chain.length - depth);
+      const outerIndent = baseIndent + INDENT.repeat(chain.length - depth - 1);
+      wrapped = t.jsxElement(
+        t.jsxOpeningElement(t.jsxIdentifier(name), [
+          t.jsxAttribute(t.jsxIdentifier(ELEMENT_ID_ATTRIBUTE), t.stringLiteral(createElementId())),
+        ]),
+        t.jsxClosingElement(t.jsxIdentifier(name)),
+        [t.jsxText(innerIndent), wrapped, t.jsxText(outerIndent)]
+      );
+    });
+
+  children[index] = wrapped;
+  ensureComponentImports(ast, chain);
+
+  return { updatedCode: generateCode(ast), newElementId: getStableElementId(wrapped.openingElement) };
+}
+
+/** First Container, falling back to Body */
+function findMainContainer(ast: any): any {
+  let body: any = null;
+  let container: any = null;
+
+  traverse(ast, {
+    JSXElement(path: any) {
+      const name = getElementName(path.node);
+      if (name === 'Body' && !body) body = path.node;
+      if (name === 'Container') {
+        container = path.node;
+        path.stop();
+      }
+    },
+  });
+
+  return container ?? body;
+}
+
+/**
+ * Insert a block of React Email JSX next to or into an element
+ * Without a target the block is appended to the main Container (or Body).
+ */
+export function insertBlock(
+  code: string,
+  blockCode: string,
+  targetId: string | null,
+  placement: DropPlacement = 'after'
+): { updatedCode: string; newElementId: string | null } {
+  const ast = parseJSX(code);
+  const block: any = parseExpression(blockCode, { plugins: ['jsx', 'typescript'] });
+  if (!t.isJSXElement(block)) {
+    throw new StructureEditError('Blocks must be a single JSX element.');
+  }
+
+  const { element, parent } = targetId
+    ? requireElement(ast, targetId)
+    : { element: findMainContainer(ast), parent: null };
+
+  if (!element) {
+    throw new StructureEditError('This template has no Body to add blocks to.');
+  }
+  if (!targetId) placement = 'inside';
+  if (placement !== 'inside' && !parent) {
+    throw new StructureEditError(`Blocks can't be placed next to ${getElementName(element)}.`);
+  }
+  assertCanContain(getPlacementParent(element, parent, placement), getElementName(block));
+
+  const newElementId = refreshElementIds(block);
+  insertNode(element, parent, block, placement);
+
+  // Line the block's own lines up with where it landed
+  const siblings = (placement === 'inside' ? element : parent).children;
+  const leading = getLeadingWhitespace(siblings, siblings.indexOf(block));
+  indentSubtree(block, leading.slice(leading.lastIndexOf('\n') + 1));
+
+  ensureComponentImports(ast, [...collectComponentNames(block)]);
+
+  return { updatedCode: generateCode(ast), newElementId };
+}
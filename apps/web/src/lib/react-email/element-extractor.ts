@@ -3,9 +3,18 @@
  * Extract element data from React Email JSX for editing
  */
 
+import traverse from "@babel/traverse";
+import * as t from "@babel/types";
+import {
+  ELEMENT_ID_ATTRIBUTE,
+  getTranslatableStringKey,
+  normalizeTranslatableText,
+  type TranslatableString,
+} from "@mocah/shared";
 import {
   parseJSX,
-  findElementAtLine,
+  generateCode,
+  findElementById,
   extractTextContent,
   hasNestedFormatting,
   evaluateObjectExpression,
@@ -61,20 +70,19 @@ export function extractElementData(
     throw new Error("Element does not have data-element-id attribute");
   }
 
-  const [, type, lineStr] = elementId.split("-");
-  const line = parseInt(lineStr);
-
-  // Parse JSX to find element
+  // Parse JSX to find element (by data-mocah-id, or by line for legacy ids)
   const ast = parseJSX(reactEmailCode);
-  const elementNode: any = findElementAtLine(ast, line);
+  const elementNode: any = findElementById(ast, elementId);
 
   if (!elementNode) {
-    throw new Error(`Element not found at line ${line}`);
+    throw new Error(`Element not found: ${elementId}`);
   }
 
   // Get the opening element (for attributes) and children (for content)
   const openingElement = elementNode.openingElement;
   const children = elementNode.children;
+  const type = openingElement.name?.name;
+  const line = openingElement.loc?.start.line ?? 0;
 
   // Determine style type
   let styleType: ElementData["styleType"] = "inline";
@@ -119,7 +127,7 @@ export function extractElementData(
       const attrName = attr.name?.name;
       if (
         attrName &&
-        !["style", "className", "data-element-id"].includes(attrName)
+        !["style", "className", "data-element-id", ELEMENT_ID_ATTRIBUTE].includes(attrName)
       ) {
         if (attr.value?.type === "StringLiteral") {
           attributes[attrName] = attr.value.value;
@@ -235,3 +243,133 @@ export function getEditableProperties(type: string): string[] {
 
   return typeProperties[type] || baseProperties;
 }
+
+// ============================================================================
+// Translatable Strings
+// ============================================================================
+
+/** Elements whose text content is translated per locale */
+const TRANSLATABLE_ELEMENTS = ["Heading", "Text", "Button", "Link"];
+
+// Copy that is only merge tags or punctuation has nothing to translate
+const MERGE_TAG_ONLY = /^(?:\{\{[^}]*\}\}|[\s\d.,:;!?()\-–—|/·•*&%$€£#@"'])*$/;
+
+interface TranslatableSegment {
+  text: string;
+  line: number;
+  type: string;
+  /** Swap the segment's source nodes for a translation */
+  replace: (translation: string) => void;
+}
+
+function isTranslatableElement(path: any): boolean {
+  return path.isJSXElement() && TRANSLATABLE_ELEMENTS.includes(path.node.openingElement.name?.name);
+}
+
+function isTextChild(node: any): boolean {
+  return (
+    node.type === "JSXText" ||
+    (node.type === "JSXExpressionContainer" && node.expression.type === "StringLiteral")
+  );
+}
+
+/**
+ * Runs of text inside translatable elements (including nested formatting like
+ * <strong>). Adjacent text and string expressions form one segment, so
+ * `Hi {"{{first_name}}"}, welcome` is translated as a single sentence.
+ */
+function visitTranslatableSegments(ast: any, visit: (segment: TranslatableSegment) => void) {
+  traverse(ast, {
+    JSXElement(path: any) {
+      const element = isTranslatableElement(path) ? path : path.findParent(isTranslatableElement);
+      if (!element) return;
+
+      const children: any[] = path.node.children;
+      const replacements: Array<{ start: number; count: number; node: any }> = [];
+
+      let start = 0;
+      while (start < children.length) {
+        if (!isTextChild(children[start])) {
+          start++;
+          continue;
+        }
+
+        let end = start;
+        while (end < children.length && isTextChild(children[end])) end++;
+        const run = children.slice(start, end);
+        const runStart = start;
+        start = end;
+
+        const raw = run
+          .map((child) => (child.type === "JSXText" ? child.value : child.expression.value))
+          .join("");
+        const text = normalizeTranslatableText(raw);
+        if (!text || MERGE_TAG_ONLY.test(text)) continue;
+
+        visit({
+          text,
+          line: run[0].loc?.start.line ?? 0,
+          type: element.node.openingElement.name.name,
+          replace: (translation) => {
+            // JSX keeps whitespace next to text on the same line; keep it as spaces
+            const first = run[0];
+            const last = run[run.length - 1];
+            const leading = first.type === "JSXText" && /^[^\S\n]+\S/.test(first.value) ? " " : "";
+            const trailing = last.type === "JSXText" && /\S[^\S\n]+$/.test(last.value) ? " " : "";
+            // A string expression avoids escaping {, }, < and > in the translation
+            replacements.push({
+              start: runStart,
+              count: run.length,
+              node: t.jsxExpressionContainer(t.stringLiteral(`${leading}${translation}${trailing}`)),
+            });
+          },
+        });
+      }
+
+      // Splice from the end so earlier indexes stay valid
+      for (const { start: index, count, node } of replacements.reverse()) {
+        children.splice(index, count, node);
+      }
+    },
+  });
+}
+
+/**
+ * Extract translatable copy from Text, Heading, Button and Link elements
+ * Keys are hashes of the text, so repeated copy is returned once.
+ */
+export function extractTranslatableStrings(reactEmailCode: string): TranslatableString[] {
+  const ast = parseJSX(reactEmailCode);
+  const strings = new Map<string, TranslatableString>();
+
+  visitTranslatableSegments(ast, ({ text }) => {
+    const key = getTranslatableStringKey(text);
+    if (!strings.has(key)) strings.set(key, { key, text });
+  });
+
+  return [...strings.values()];
+}
+
+/**
+ * Swap source copy for a locale's translations
+ * Structure, styles and attributes come from the source code; strings without
+ * a translation stay in the source language.
+ */
+export function localizeReactEmailCode(
+  reactEmailCode: string,
+  strings: Record<string, string>
+): string {
+  if (Object.keys(strings).length === 0) return reactEmailCode;
+
+  const ast = parseJSX(reactEmailCode);
+  let changed = false;
+
+  visitTranslatableSegments(ast, ({ text, replace }) => {
+    const translation = strings[getTranslatableStringKey(text)];
+    if (!translation) return;
+    replace(translation);
+    changed = true;
+  });
+
+  return changed ? generateCode(ast) : reactEmailCode;
+}
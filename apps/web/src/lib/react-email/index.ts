@@ -8,7 +8,11 @@ export {
   parseJSX,
   generateCode,
   injectElementIds,
+  getStableElementId,
+  matchesElementId,
   findElementAtLine,
+  findElementById,
+  buildElementTree,
   extractTextContent,
   hasNestedFormatting,
   extractStyleDefinitions,
@@ -17,6 +21,7 @@ export {
   getElementStyleProp,
   getElementClassName,
 } from './jsx-parser';
+export type { ElementTreeNode } from './jsx-parser';
 
 // Element Extractor
 export {
@@ -26,6 +31,8 @@ export {
   hasTextContent,
   isLayoutElement,
   getEditableProperties,
+  extractTranslatableStrings,
+  localizeReactEmailCode,
 } from './element-extractor';
 export type { ElementData } from './element-extractor';
 
@@ -42,8 +49,20 @@ export {
   updateReactEmailCode,
   convertInlineToStyleObject,
   convertStyleObjectToInline,
+  canContainElement,
+  isMovableElement,
+  moveElement,
+  duplicateElement,
+  deleteElement,
+  wrapElement,
+  insertBlock,
+  StructureEditError,
 } from './code-updater';
-export type { ElementUpdates } from './code-updater';
+export type { ElementUpdates, DropPlacement, WrapperComponent } from './code-updater';
+
+// Block Palette
+export { EMAIL_BLOCKS } from './blocks';
+export type { EmailBlock } from './blocks';
 
 // React Email Renderer (client-side only)
 export {
@@ -7,6 +7,12 @@ import { parse } from '@babel/parser';
 import traverse from '@babel/traverse';
 import generate from '@babel/generator';
 import * as t from '@babel/types';
+import {
+  ELEMENT_ID_ATTRIBUTE,
+  ELEMENT_ID_COMPONENTS,
+  parseDesignTokenReference,
+  parseLineElementId,
+} from '@mocah/shared';
 
 /**
  * Parse React Email JSX code to AST
@@ -27,24 +33,42 @@ export function generateCode(ast: any): string {
   }).code;
 }
 
+/**
+ * Stable data-mocah-id of a JSX opening element, if it has one
+ */
+export function getStableElementId(openingElement: any): string | null {
+  const attr = openingElement?.attributes?.find(
+    (attribute: any) => attribute.name?.name === ELEMENT_ID_ATTRIBUTE
+  );
+  if (!attr) return null;
+
+  const value =
+    attr.value?.type === 'JSXExpressionContainer' ? attr.value.expression : attr.value;
+  return value?.type === 'StringLiteral' && value.value ? value.value : null;
+}
+
+/**
+ * data-element-id for an element: its stable id, or the legacy line-based id
+ */
+export function getSelectionId(openingElement: any): string {
+  const line = openingElement.loc?.start.line || 0;
+  return getStableElementId(openingElement) ?? `element-${openingElement.name.name}-${line}`;
+}
+
 /**
  * Inject data-element-id attributes for selection
+ * Uses the element's stable data-mocah-id; code saved before stable ids
+ * existed falls back to line-based ids ("element-Text-12").
  */
 export function injectElementIds(reactEmailCode: string): string {
   const ast = parseJSX(reactEmailCode);
+  const reactEmailComponents: readonly string[] = ELEMENT_ID_COMPONENTS;
   
   traverse(ast, {
     JSXOpeningElement(path: any) {
       const elementName = path.node.name.name;
-      const line = path.node.loc?.start.line || 0;
       
       // Only inject for React Email components
-      const reactEmailComponents = [
-        'Html', 'Head', 'Body', 'Container', 'Section',
-        'Row', 'Column', 'Heading', 'Text', 'Button',
-        'Img', 'Link', 'Hr', 'Preview'
-      ];
-      
       if (reactEmailComponents.includes(elementName)) {
         // Check if data-element-id already exists
         const hasElementId = path.node.attributes.some(
@@ -56,7 +80,7 @@ export function injectElementIds(reactEmailCode: string): string {
           path.node.attributes.push(
             t.jsxAttribute(
               t.jsxIdentifier('data-element-id'),
-              t.stringLiteral(`element-${elementName}-${line}`)
+              t.stringLiteral(getSelectionId(path.node))
             )
           );
         }
@@ -90,6 +114,41 @@ export function findElementAtLine(ast: any, line: number) {
   return foundNode;
 }
 
+/**
+ * Whether a JSX opening element is the one a data-element-id refers to
+ * Stable ids match by data-mocah-id, line-based ids by line.
+ */
+export function matchesElementId(openingElement: any, elementId: string, line?: number): boolean {
+  const lineId = parseLineElementId(elementId);
+  if (!lineId) {
+    return getStableElementId(openingElement) === elementId;
+  }
+  return openingElement.loc?.start.line === (line ?? lineId.line);
+}
+
+/**
+ * Find element node by its data-element-id
+ * Same shape as findElementAtLine.
+ */
+export function findElementById(ast: any, elementId: string) {
+  let foundNode: any = null;
+
+  traverse(ast, {
+    JSXElement(path: any) {
+      if (!foundNode && matchesElementId(path.node.openingElement, elementId)) {
+        foundNode = {
+          openingElement: path.node.openingElement,
+          children: path.node.children,
+          closingElement: path.node.closingElement,
+          fullNode: path.node,
+        };
+      }
+    }
+  });
+
+  return foundNode;
+}
+
 /**
  * Extract text content from JSX element (recursively handles nested elements)
  */
@@ -120,6 +179,71 @@ export function extractTextContent(node: any): string {
   return textContent.trim();
 }
 
+export interface ElementTreeNode {
+  /** data-element-id of the element in the preview */
+  id: string;
+  type: string;
+  /** Short text, alt text or link to tell siblings apart */
+  label: string;
+  children: ElementTreeNode[];
+}
+
+/** Longest label shown for an element in the layer tree */
+const MAX_TREE_LABEL_LENGTH = 40;
+
+function getTreeLabel(element: any): string {
+  const attributes = element.openingElement.attributes ?? [];
+  const attributeValue = (name: string) =>
+    attributes.find((attr: any) => attr.name?.name === name)?.value?.value;
+
+  const label =
+    extractTextContent(element).replace(/\s+/g, ' ') ||
+    attributeValue('alt') ||
+    attributeValue('href') ||
+    '';
+  return label.length > MAX_TREE_LABEL_LENGTH
+    ? `${label.slice(0, MAX_TREE_LABEL_LENGTH - 1)}…`
+    : label;
+}
+
+/**
+ * Build the React Email component tree of a template (for the layer panel)
+ * Other JSX (strong, span, ...) is skipped; its components are lifted to
+ * the nearest component ancestor.
+ */
+export function buildElementTree(reactEmailCode: string): ElementTreeNode[] {
+  const ast = parseJSX(reactEmailCode);
+  const components: readonly string[] = ELEMENT_ID_COMPONENTS;
+  let root: any = null;
+
+  traverse(ast, {
+    JSXElement(path: any) {
+      root = path.node;
+      path.stop();
+    },
+  });
+
+  const visit = (element: any): ElementTreeNode[] => {
+    const children = (element.children ?? [])
+      .filter((child: any) => child.type === 'JSXElement')
+      .flatMap(visit);
+    const type = element.openingElement.name?.name;
+
+    if (!components.includes(type)) return children;
+
+    return [
+      {
+        id: getSelectionId(element.openingElement),
+        type,
+        label: getTreeLabel(element),
+        children,
+      },
+    ];
+  };
+
+  return root ? visit(root) : [];
+}
+
 /**
  * Check if element has nested JSX formatting (e.g., <strong>, <Link>, etc.)
  */
@@ -227,6 +351,12 @@ export function evaluateObjectExpression(node: any): any {
         obj[key] = prop.value.value;
       } else if (prop.value.type === 'ObjectExpression') {
         obj[key] = evaluateObjectExpression(prop.value);
+      } else if (prop.value.type === 'MemberExpression') {
+        // Brand token reference, kept symbolic: brand.primary -> "brand.primary"
+        const reference = `${prop.value.object?.name}.${prop.value.property?.name}`;
+        if (!prop.value.computed && parseDesignTokenReference(reference)) {
+          obj[key] = reference;
+        }
       }
     }
   });
@@ -0,0 +1,31 @@
+/**
+ * Re-wrap stored integration credentials with the current vault master key
+ *
+ * Usage (reads apps/web/.env):
+ *   1. Add the old key to VAULT_PREVIOUS_MASTER_KEYS and set the new VAULT_MASTER_KEY
+ *   2. Run: pnpm -F @mocah/api vault:rotate
+ *   3. Once it reports no failures, remove the old key from VAULT_PREVIOUS_MASTER_KEYS
+ */
+
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import dotenv from "dotenv";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.resolve(__dirname, "../../../apps/web/.env"), quiet: true });
+
+// Imported once the env is loaded - the vault and database read it at import time
+const { rotateIntegrationCredentials } = await import("../src/lib/integrations/credentials");
+
+const result = await rotateIntegrationCredentials();
+
+console.log(
+  `🔐 Rotated ${result.rotated}, already current ${result.skipped}, failed ${result.failed}`
+);
+
+if (result.failed > 0) {
+  console.error("❌ Keep the previous keys configured until every integration is rotated");
+  process.exit(1);
+}
+
+process.exit(0);
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildBrandCrawlReview,
+  crawlBrand,
+  selectCrawlPages,
+} from "../../lib/brand-crawl";
+import { createStubScrapeProvider } from "../../test-utils/mocks/scrape-provider";
+
+const HOME_LINKS = [
+  "https://acme.com/",
+  "https://acme.com/blog/launch",
+  "https://acme.com/about",
+  "https://acme.com/products/widgets",
+  "https://acme.com/products",
+  "https://acme.com/pricing?ref=nav",
+  "https://twitter.com/acme",
+];
+
+function acmeSite() {
+  return createStubScrapeProvider({
+    "https://acme.com": {
+      branding: {
+        colors: { primary: "#FF5500", accent: "#0055FF" },
+        typography: { fontFamilies: { primary: "Inter" } },
+        personality: { tone: "friendly", energy: "high" },
+        confidence: { overall: 0.9 },
+      },
+      json: { company_name: "Acme", company_description: "Widgets for everyone" },
+      links: HOME_LINKS,
+    },
+    "https://acme.com/about": {
+      branding: { colors: { primary: "#ff5500" }, confidence: { overall: 0.8 } },
+      json: {
+        company_name: "Acme",
+        company_description: "Acme has made dependable widgets since 1999.",
+        brand_values: ["quality", "care"],
+        founding_year: "1999",
+      },
+    },
+    "https://acme.com/products": {
+      branding: { colors: { primary: "#FF5500" }, confidence: { overall: 0.7 } },
+      json: { company_name: "Acme", products_services: ["Widgets", "Gadgets"] },
+    },
+    "https://acme.com/pricing": new Error("Firecrawl API error (500): timeout"),
+  });
+}
+
+describe("brand-crawl", () => {
+  describe("selectCrawlPages", () => {
+    it("picks the shallowest about, product and pricing page", () => {
+      expect(selectCrawlPages("acme.com", HOME_LINKS)).toEqual([
+        { url: "https://acme.com/about", kind: "about" },
+        { url: "https://acme.com/products", kind: "product" },
+        { url: "https://acme.com/pricing", kind: "pricing" },
+      ]);
+    });
+
+    it("ignores external links and the home page itself", () => {
+      expect(selectCrawlPages("https://acme.com", ["https://other.com/about", "https://acme.com"])).toEqual([]);
+    });
+  });
+
+  describe("crawlBrand", () => {
+    it("scrapes the home page and its key pages", async () => {
+      const provider = acmeSite();
+      const result = await crawlBrand("acme.com", { provider });
+
+      expect(provider.calls).toEqual([
+        "https://acme.com",
+        "https://acme.com/about",
+        "https://acme.com/products",
+        "https://acme.com/pricing",
+      ]);
+      expect(result.pages.map((page) => [page.kind, page.status])).toEqual([
+        ["home", "ok"],
+        ["about", "ok"],
+        ["product", "ok"],
+        ["pricing", "failed"],
+      ]);
+      expect(result.pages[3]?.error).toContain("timeout");
+    });
+
+    it("takes each field from the page most relevant to it", async () => {
+      const { fields } = await crawlBrand("https://acme.com", { provider: acmeSite() });
+      const byField = Object.fromEntries(fields.map((field) => [field.field, field]));
+
+      expect(byField.companyDescription).toMatchObject({
+        value: "Acme has made dependable widgets since 1999.",
+        source: { url: "https://acme.com/about", kind: "about" },
+      });
+      expect(byField.productsServices).toMatchObject({
+        value: ["Widgets", "Gadgets"],
+        source: { kind: "product" },
+      });
+      expect(byField.websiteUrl?.value).toBe("https://acme.com");
+    });
+
+    it("raises confidence when pages agree and lowers it for defaults", async () => {
+      const { fields } = await crawlBrand("https://acme.com", { provider: acmeSite() });
+      const byField = Object.fromEntries(fields.map((field) => [field.field, field]));
+
+      // Found on three pages (case-insensitively)
+      expect(byField.primaryColor).toMatchObject({ value: "#FF5500", agreement: 3, confidence: 1 });
+      // Found on the home page only
+      expect(byField.accentColor?.confidence).toBe(0.9);
+      // Filled in by the mapper, not found on any page
+      expect(byField.backgroundColor).toMatchObject({ value: "#FFFFFF", confidence: 0.2, agreement: 0 });
+    });
+
+    it("fails when the home page can't be scraped", async () => {
+      const provider = createStubScrapeProvider({});
+
+      await expect(crawlBrand("https://acme.com", { provider })).rejects.toThrow("404");
+    });
+  });
+
+  describe("buildBrandCrawlReview", () => {
+    it("recommends changed fields with enough confidence", async () => {
+      const { fields } = await crawlBrand("https://acme.com", { provider: acmeSite() });
+      const review = buildBrandCrawlReview(
+        { primaryColor: "#ff5500", accentColor: "#111111", backgroundColor: "#F0F0F0" },
+        fields
+      );
+      const byField = Object.fromEntries(review.map((item) => [item.field, item]));
+
+      expect(byField.primaryColor).toMatchObject({ current: "#ff5500", changed: false, recommended: false });
+      expect(byField.accentColor).toMatchObject({ current: "#111111", changed: true, recommended: true });
+      expect(byField.backgroundColor).toMatchObject({ changed: true, recommended: false });
+      expect(byField.tagline).toBeUndefined();
+    });
+  });
+});
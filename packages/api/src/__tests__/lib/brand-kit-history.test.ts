@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import {
+  diffBrandKitSnapshots,
+  getRebrandReplacements,
+  parseBrandKitChanges,
+  pickBrandKitSnapshot,
+} from "../../lib/brand-kit-history";
+
+describe("brand-kit-history", () => {
+  describe("diffBrandKitSnapshots", () => {
+    it("lists changed fields only", () => {
+      const before = pickBrandKitSnapshot({ primaryColor: "#3B82F6", fontFamily: "Arial", tagline: "Hi" });
+      const after = pickBrandKitSnapshot({ primaryColor: "#FF0000", fontFamily: "Arial", tagline: "Hi" });
+
+      expect(diffBrandKitSnapshots(before, after)).toEqual([
+        { field: "primaryColor", from: "#3B82F6", to: "#FF0000" },
+      ]);
+    });
+
+    it("compares JSON fields by value", () => {
+      const before = pickBrandKitSnapshot({ brandValues: ["bold", "kind"] });
+      const after = pickBrandKitSnapshot({ brandValues: ["bold", "kind"] });
+
+      expect(diffBrandKitSnapshots(before, after)).toEqual([]);
+    });
+
+    it("lists every set field for a new kit", () => {
+      const after = pickBrandKitSnapshot({ name: "Outlet", accentColor: "#10B981" });
+
+      expect(diffBrandKitSnapshots(null, after).map((change) => change.field)).toEqual([
+        "name",
+        "accentColor",
+      ]);
+    });
+  });
+
+  describe("getRebrandReplacements", () => {
+    it("keeps style fields that changed between two values", () => {
+      expect(
+        getRebrandReplacements([
+          { field: "primaryColor", from: "#3B82F6", to: "#FF0000" },
+          { field: "fontFamily", from: "Arial, sans-serif", to: "Georgia, serif" },
+          { field: "tagline", from: "Old", to: "New" },
+          { field: "accentColor", from: null, to: "#10B981" },
+        ])
+      ).toEqual([
+        { field: "primaryColor", kind: "color", from: "#3B82F6", to: "#FF0000" },
+        { field: "fontFamily", kind: "fontFamily", from: "Arial, sans-serif", to: "Georgia, serif" },
+      ]);
+    });
+
+    it("skips case-only changes and duplicate old values", () => {
+      expect(
+        getRebrandReplacements([
+          { field: "primaryColor", from: "#ffffff", to: "#FFFFFF" },
+          { field: "backgroundColor", from: "#000000", to: "#111111" },
+          { field: "textPrimaryColor", from: "#000000", to: "#222222" },
+        ])
+      ).toEqual([{ field: "backgroundColor", kind: "color", from: "#000000", to: "#111111" }]);
+    });
+  });
+
+  describe("parseBrandKitChanges", () => {
+    it("drops malformed entries", () => {
+      expect(
+        parseBrandKitChanges([
+          { field: "primaryColor", from: "#000", to: "#fff" },
+          { field: "organizationId", from: "a", to: "b" },
+          "oops",
+        ])
+      ).toEqual([{ field: "primaryColor", from: "#000", to: "#fff" }]);
+      expect(parseBrandKitChanges(null)).toEqual([]);
+    });
+  });
+});
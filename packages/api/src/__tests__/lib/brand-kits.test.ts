@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { pickNextDefaultBrandKit, withDefaultFlag } from "../../lib/brand-kits";
+
+const kits = [
+  { id: "spring", createdAt: new Date("2026-03-01") },
+  { id: "main", createdAt: new Date("2026-01-01") },
+  { id: "outlet", createdAt: new Date("2026-02-01") },
+];
+
+describe("brand-kits", () => {
+  describe("pickNextDefaultBrandKit", () => {
+    it("promotes the oldest remaining kit", () => {
+      expect(pickNextDefaultBrandKit(kits, "main")?.id).toBe("outlet");
+      expect(pickNextDefaultBrandKit(kits, "spring")?.id).toBe("main");
+    });
+
+    it("returns null when the last kit is deleted", () => {
+      expect(pickNextDefaultBrandKit([kits[0]!], "spring")).toBeNull();
+    });
+  });
+
+  describe("withDefaultFlag", () => {
+    it("flags the default and lists it first", () => {
+      const flagged = withDefaultFlag(kits, "outlet");
+      expect(flagged.map((kit) => [kit.id, kit.isDefault])).toEqual([
+        ["outlet", true],
+        ["spring", false],
+        ["main", false],
+      ]);
+    });
+
+    it("flags nothing without a default", () => {
+      expect(withDefaultFlag(kits, null).some((kit) => kit.isDefault)).toBe(false);
+    });
+  });
+});
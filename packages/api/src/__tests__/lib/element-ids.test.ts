@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { assignElementIds, getNodeElementId, parseIdentifiableNodes } from "../../lib/element-ids";
+
+const CODE = `import { Html, Body, Container, Text, Button } from "@react-email/components";
+
+export default function Email() {
+  return (
+    <Html>
+      <Body style={main}>
+        <Container>
+          <Text>Welcome!</Text>
+          <Button href="https://example.com">Get Started</Button>
+        </Container>
+      </Body>
+    </Html>
+  );
+}`;
+
+function ids(code: string) {
+  return parseIdentifiableNodes(code).map((node) => getNodeElementId(node));
+}
+
+describe("element-ids", () => {
+  it("gives every React Email element a unique id", () => {
+    const result = assignElementIds(CODE);
+    const assigned = ids(result.code);
+
+    expect(result.created).toBe(5);
+    expect(assigned.every((id) => /^m[a-z0-9]{7}$/.test(id ?? ""))).toBe(true);
+    expect(new Set(assigned).size).toBe(5);
+    expect(result.code).toContain('<Body data-mocah-id="');
+    expect(result.code).toMatch(/<Body data-mocah-id="m[a-z0-9]{7}" style=\{main\}>/);
+  });
+
+  it("leaves code that already has ids untouched", () => {
+    const { code } = assignElementIds(CODE);
+    expect(assignElementIds(code)).toEqual({ code, created: 0, recovered: 0 });
+  });
+
+  it("recovers ids the AI dropped from the previous code", () => {
+    const previous = assignElementIds(CODE).code;
+    const [, , , textId, buttonId] = ids(previous);
+
+    // Regenerated code without ids, with a new paragraph before the button
+    const regenerated = CODE.replace(
+      "<Text>Welcome!</Text>",
+      "<Text>Welcome!</Text>\n          <Text>Thanks for joining</Text>"
+    );
+    const result = assignElementIds(regenerated, previous);
+    const [, , , nextTextId, addedId, nextButtonId] = ids(result.code);
+
+    expect(result.recovered).toBe(5);
+    expect(result.created).toBe(1);
+    expect(nextTextId).toBe(textId);
+    expect(nextButtonId).toBe(buttonId);
+    expect(addedId).not.toBe(textId);
+  });
+
+  it("replaces duplicated ids on copied elements", () => {
+    const code = CODE.replace(
+      "<Text>Welcome!</Text>",
+      '<Text data-mocah-id="mabc1234">Welcome!</Text>\n          <Text data-mocah-id="mabc1234">Copy</Text>'
+    );
+    const result = assignElementIds(code);
+    const textIds = ids(result.code).slice(3, 5);
+
+    expect(textIds[0]).toBe("mabc1234");
+    expect(textIds[1]).not.toBe("mabc1234");
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import prisma from "@mocah/db";
+import {
+  buildGenerationCsv,
+  extractOpenRouterUsage,
+  startGeneration,
+  type GenerationCsvRow,
+} from "../../lib/generation-history";
+
+const generationHistory = {
+  create: vi.fn(),
+  update: vi.fn(),
+};
+
+const AUDIT = {
+  organizationId: "org-1",
+  userId: "user-1",
+  operation: "template.generate",
+  type: "template" as const,
+  provider: "openrouter" as const,
+  modelId: "anthropic/claude-3.5-sonnet",
+  prompt: "Write a welcome email",
+};
+
+describe("generation-history", () => {
+  beforeEach(() => {
+    (prisma as any).generationHistory = generationHistory;
+    generationHistory.create.mockReset().mockResolvedValue({ id: "gen-1" });
+    generationHistory.update.mockReset().mockResolvedValue({});
+  });
+
+  describe("startGeneration", () => {
+    it("records pending, processing and completed in order", async () => {
+      const recorder = startGeneration(AUDIT);
+      recorder.processing();
+      recorder.completed({
+        result: '{"subject":"Hi"}',
+        usage: { promptTokens: 120, completionTokens: 80, tokensUsed: 200, cost: 0.0031 },
+      });
+      await recorder.flush();
+
+      expect(generationHistory.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ status: "pending", organizationId: "org-1" }),
+        })
+      );
+      const statuses = generationHistory.update.mock.calls.map(([args]) => args.data.status);
+      expect(statuses).toEqual(["processing", "completed"]);
+
+      const completed = generationHistory.update.mock.calls[1]![0].data;
+      expect(completed).toMatchObject({ tokensUsed: 200, cost: 0.0031, result: '{"subject":"Hi"}' });
+      expect(completed.durationMs).toBeGreaterThanOrEqual(0);
+      expect(completed.completedAt).toBeInstanceOf(Date);
+    });
+
+    it("keeps the first outcome when a stream reports an error and then finishes", async () => {
+      const recorder = startGeneration(AUDIT);
+      recorder.failed(new Error("Provider returned 502"));
+      recorder.completed({ usage: { tokensUsed: 10 } });
+      await recorder.flush();
+
+      expect(generationHistory.update).toHaveBeenCalledTimes(1);
+      expect(generationHistory.update.mock.calls[0]![0].data).toMatchObject({
+        status: "failed",
+        error: "Provider returned 502",
+      });
+    });
+
+    it("never throws when the audit write fails", async () => {
+      generationHistory.create.mockRejectedValue(new Error("connection refused"));
+
+      const recorder = startGeneration(AUDIT);
+      recorder.processing();
+      recorder.completed({});
+      await expect(recorder.flush()).resolves.toBeUndefined();
+      expect(generationHistory.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("extractOpenRouterUsage", () => {
+    it("prefers OpenRouter usage accounting, including cost", () => {
+      const usage = extractOpenRouterUsage(
+        { inputTokens: 1, outputTokens: 2, totalTokens: 3 },
+        { openrouter: { usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150, cost: 0.002 } } }
+      );
+
+      expect(usage).toEqual({ promptTokens: 100, completionTokens: 50, tokensUsed: 150, cost: 0.002 });
+    });
+
+    it("falls back to SDK token counts without a cost", () => {
+      const usage = extractOpenRouterUsage({ inputTokens: 10, outputTokens: 5, totalTokens: 15 }, undefined);
+
+      expect(usage).toEqual({ promptTokens: 10, completionTokens: 5, tokensUsed: 15, cost: null });
+    });
+  });
+
+  describe("buildGenerationCsv", () => {
+    const row: GenerationCsvRow = {
+      id: "gen-1",
+      createdAt: new Date("2026-10-01T12:00:00.000Z"),
+      operation: "image.generate",
+      type: "image",
+      provider: "fal",
+      modelId: "fal-ai/qwen-image",
+      status: "completed",
+      promptTokens: null,
+      completionTokens: null,
+      tokensUsed: null,
+      cost: 0.04,
+      durationMs: 5400,
+      error: null,
+      user: { name: "Ada, L.", email: "ada@example.com" },
+      template: { id: "tpl-1", name: '=HYPERLINK("x") "Launch"' },
+    };
+
+    it("writes a header and one line per row", () => {
+      const lines = buildGenerationCsv([row]).trimEnd().split("\r\n");
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toMatch(/^Date \(UTC\),Operation,Type,Provider,Model,Status/);
+      expect(lines[1]).toContain("2026-10-01T12:00:00.000Z,image.generate,image,fal,fal-ai/qwen-image,completed");
+      expect(lines[1]).toContain(",0.04,5400,,gen-1");
+    });
+
+    it("quotes commas and quotes and neutralizes formulas", () => {
+      const csv = buildGenerationCsv([row]);
+
+      expect(csv).toContain('"Ada, L."');
+      expect(csv).toContain(`"'=HYPERLINK(""x"") ""Launch"""`);
+    });
+  });
+});
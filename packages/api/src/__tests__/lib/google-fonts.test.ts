@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { parseGoogleFontFaces, resolveGoogleFontsCssUrl } from "../../lib/google-fonts";
+
+const CSS = `
+/* cyrillic */
+@font-face {
+  font-family: 'Inter';
+  font-style: normal;
+  font-weight: 400;
+  font-display: swap;
+  src: url(https://fonts.gstatic.com/s/inter/v13/cyrillic.woff2) format('woff2');
+  unicode-range: U+0301, U+0400-045F;
+}
+/* latin */
+@font-face {
+  font-family: 'Inter';
+  font-style: normal;
+  font-weight: 400;
+  font-display: swap;
+  src: url(https://fonts.gstatic.com/s/inter/v13/latin.woff2) format('woff2');
+  unicode-range: U+0000-00FF;
+}
+/* latin */
+@font-face {
+  font-family: 'Inter';
+  font-style: normal;
+  font-weight: 700;
+  font-display: swap;
+  src: url(https://fonts.gstatic.com/s/inter/v13/latin.woff2) format('woff2');
+  unicode-range: U+0000-00FF;
+}
+`;
+
+describe("google-fonts", () => {
+  describe("resolveGoogleFontsCssUrl", () => {
+    it("accepts stylesheet and specimen links", () => {
+      expect(resolveGoogleFontsCssUrl("https://fonts.googleapis.com/css2?family=Inter:wght@400;700&display=swap")).toBe(
+        "https://fonts.googleapis.com/css2?family=Inter:wght@400;700&display=swap"
+      );
+      expect(resolveGoogleFontsCssUrl("https://fonts.google.com/specimen/Open+Sans")).toBe(
+        "https://fonts.googleapis.com/css2?family=Open+Sans:wght@400;700&display=swap"
+      );
+    });
+
+    it("rejects other links", () => {
+      expect(resolveGoogleFontsCssUrl("https://example.com/font.css")).toBeNull();
+      expect(resolveGoogleFontsCssUrl("not a url")).toBeNull();
+    });
+  });
+
+  describe("parseGoogleFontFaces", () => {
+    it("keeps the latin subset, one file per weight and style", () => {
+      expect(parseGoogleFontFaces(CSS)).toEqual([
+        {
+          family: "Inter",
+          url: "https://fonts.gstatic.com/s/inter/v13/latin.woff2",
+          format: "woff2",
+          weight: 400,
+          style: "normal",
+          category: "sans-serif",
+          source: "google",
+        },
+        {
+          family: "Inter",
+          url: "https://fonts.gstatic.com/s/inter/v13/latin.woff2",
+          format: "woff2",
+          weight: 700,
+          style: "normal",
+          category: "sans-serif",
+          source: "google",
+        },
+      ]);
+    });
+  });
+});
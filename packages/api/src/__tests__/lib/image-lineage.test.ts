@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  flattenLineage,
+  getAncestorIds,
+  recordImageLineage,
+  resolveVariationType,
+} from "../../lib/image-lineage";
+
+const at = (minute: number) => new Date(`2026-10-01T12:${String(minute).padStart(2, "0")}:00.000Z`);
+
+// root ─┬─ v2 ── v4
+//       └─ v3
+const TREE = [
+  { id: "v4", parentImageId: "v2", version: 4, createdAt: at(4) },
+  { id: "v3", parentImageId: "root", version: 3, createdAt: at(3) },
+  { id: "root", parentImageId: null, version: 1, createdAt: at(1) },
+  { id: "v2", parentImageId: "root", version: 2, createdAt: at(2) },
+];
+
+describe("image-lineage", () => {
+  describe("flattenLineage", () => {
+    it("orders the tree depth-first with children by version", () => {
+      const flat = flattenLineage(TREE);
+
+      expect(flat.map((node) => [node.id, node.depth])).toEqual([
+        ["root", 0],
+        ["v2", 1],
+        ["v4", 2],
+        ["v3", 1],
+      ]);
+    });
+
+    it("treats nodes whose parent was deleted as roots", () => {
+      const flat = flattenLineage(TREE.filter((node) => node.id !== "v2"));
+
+      expect(flat.map((node) => [node.id, node.depth])).toEqual([
+        ["root", 0],
+        ["v3", 1],
+        ["v4", 0],
+      ]);
+    });
+  });
+
+  describe("getAncestorIds", () => {
+    it("walks from a node up to the root", () => {
+      expect(getAncestorIds(TREE, "v4")).toEqual(["v2", "root"]);
+      expect(getAncestorIds(TREE, "root")).toEqual([]);
+    });
+
+    it("stops on a cycle", () => {
+      const cyclic = [
+        { id: "a", parentImageId: "b", version: 1, createdAt: at(1) },
+        { id: "b", parentImageId: "a", version: 2, createdAt: at(2) },
+      ];
+
+      expect(getAncestorIds(cyclic, "a")).toEqual(["b", "a"]);
+    });
+  });
+
+  describe("resolveVariationType", () => {
+    it("distinguishes regenerations from edits by prompt", () => {
+      expect(resolveVariationType("A red fox ", "A red fox")).toBe("regeneration");
+      expect(resolveVariationType("A red fox", "A red fox in snow")).toBe("edit");
+    });
+  });
+
+  describe("recordImageLineage", () => {
+    const tx = {
+      generatedImage: {
+        aggregate: vi.fn(),
+        updateMany: vi.fn(),
+        createMany: vi.fn(),
+      },
+    };
+    const db = {
+      imageAsset: { findFirst: vi.fn(), findUnique: vi.fn() },
+      generatedImage: { create: vi.fn(), createMany: vi.fn() },
+      $transaction: vi.fn((fn: (client: typeof tx) => Promise<unknown>) => fn(tx)),
+    };
+    const asset = { id: "asset-new", url: "https://cdn.example.com/new.png", width: 1024, height: 768 };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      tx.generatedImage.aggregate.mockResolvedValue({ _max: { version: 3 } });
+    });
+
+    it("starts a new tree per output without a source image", async () => {
+      await recordImageLineage(db as any, {
+        organizationId: "org-1",
+        generationHistoryId: "gen-1",
+        prompt: "A red fox",
+        assets: [asset],
+      });
+
+      const [node] = db.generatedImage.createMany.mock.calls[0]![0].data;
+      expect(node).toMatchObject({
+        imageAssetId: "asset-new",
+        version: 1,
+        variationType: "original",
+        isActive: true,
+        size: "1024x768",
+      });
+      expect(node.rootImageId).toBe(node.id);
+      expect(db.$transaction).not.toHaveBeenCalled();
+    });
+
+    it("adds outputs as the newest active versions under the source", async () => {
+      db.imageAsset.findFirst.mockResolvedValue({
+        id: "asset-src",
+        lineage: { id: "node-src", rootImageId: "node-root" },
+      });
+      db.imageAsset.findUnique.mockResolvedValue({ prompt: "A red fox" });
+
+      await recordImageLineage(db as any, {
+        organizationId: "org-1",
+        generationHistoryId: "gen-2",
+        prompt: "A red fox in snow",
+        assets: [asset],
+        sourceImageAssetId: "asset-src",
+      });
+
+      expect(tx.generatedImage.updateMany).toHaveBeenCalledWith({
+        where: { rootImageId: "node-root", isActive: true },
+        data: { isActive: false },
+      });
+      expect(tx.generatedImage.createMany.mock.calls[0]![0].data).toEqual([
+        expect.objectContaining({
+          parentImageId: "node-src",
+          rootImageId: "node-root",
+          version: 4,
+          variationType: "edit",
+          isActive: true,
+          generationHistoryId: "gen-2",
+        }),
+      ]);
+    });
+
+    it("creates a root for a source image that has no lineage yet", async () => {
+      db.imageAsset.findFirst.mockResolvedValue({
+        id: "asset-upload",
+        url: "https://cdn.example.com/upload.png",
+        prompt: null,
+        width: null,
+        height: null,
+        lineage: null,
+      });
+      db.imageAsset.findUnique.mockResolvedValue({ prompt: null });
+      tx.generatedImage.aggregate.mockResolvedValue({ _max: { version: 1 } });
+
+      await recordImageLineage(db as any, {
+        organizationId: "org-1",
+        generationHistoryId: null,
+        prompt: "Make it pop",
+        assets: [asset],
+        sourceImageAssetId: "asset-upload",
+      });
+
+      const root = db.generatedImage.create.mock.calls[0]![0].data;
+      expect(root).toMatchObject({ imageAssetId: "asset-upload", version: 1, variationType: "original" });
+      expect(tx.generatedImage.createMany.mock.calls[0]![0].data[0]).toMatchObject({
+        parentImageId: root.id,
+        rootImageId: root.id,
+        version: 2,
+      });
+    });
+  });
+});
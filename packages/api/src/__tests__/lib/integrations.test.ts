@@ -0,0 +1,173 @@
+import { describe, it, expect } from "vitest";
+import { http, HttpResponse } from "msw";
+import { server } from "../../test-utils/mocks";
+import { formatMergeTag } from "../../lib/merge-tags";
+import {
+  IntegrationProviderError,
+  buildProviderTemplate,
+  getIntegrationProvider,
+} from "../../lib/integrations";
+import { mailchimpProvider } from "../../lib/integrations/mailchimp";
+import { sendgridProvider } from "../../lib/integrations/sendgrid";
+import { klaviyoProvider } from "../../lib/integrations/klaviyo";
+
+const TEMPLATE = {
+  name: "Spring Launch",
+  subject: "Hi {{firstName}}",
+  previewText: null,
+  html: "<html><body>Hello</body></html>",
+};
+
+describe("integration registry", () => {
+  it("returns providers for supported types only", () => {
+    expect(getIntegrationProvider("mailchimp")).toBe(mailchimpProvider);
+    expect(getIntegrationProvider("klaviyo")).toBe(klaviyoProvider);
+    expect(getIntegrationProvider("hubspot")).toBeNull();
+  });
+
+  it("converts merge tags to the provider dialect", () => {
+    const template = buildProviderTemplate(mailchimpProvider, {
+      name: "Welcome",
+      subject: null,
+      previewText: null,
+      tableHtmlCode: "<p>Hi {{firstName}}</p>",
+    });
+
+    expect(template.html).toBe("<p>Hi *|FNAME|*</p>");
+  });
+
+  it("formats Klaviyo profile and custom properties", () => {
+    expect(formatMergeTag({ name: "firstName", fallback: "there" }, "klaviyo")).toBe(
+      '{{ first_name|default:"there" }}'
+    );
+    expect(formatMergeTag({ name: "plan", fallback: null }, "klaviyo")).toBe(
+      "{{ person|lookup:'plan' }}"
+    );
+  });
+});
+
+describe("mailchimp provider", () => {
+  const credentials = { apiKey: "0123456789abcdef-us21" };
+
+  it("validates the datacenter suffix", () => {
+    expect(mailchimpProvider.credentialsSchema.safeParse({ apiKey: "abc" }).success).toBe(false);
+    expect(mailchimpProvider.credentialsSchema.safeParse(credentials).success).toBe(true);
+  });
+
+  it("tests the connection against the key's datacenter", async () => {
+    let host: string | null = null;
+    server.use(
+      http.get("https://*.api.mailchimp.com/3.0/", ({ request }) => {
+        host = new URL(request.url).host;
+        return HttpResponse.json({ account_name: "Acme" });
+      })
+    );
+
+    await expect(mailchimpProvider.testConnection(credentials)).resolves.toEqual({
+      accountName: "Acme",
+    });
+    expect(host).toBe("us21.api.mailchimp.com");
+  });
+
+  it("pushes, updates and lists templates", async () => {
+    await expect(mailchimpProvider.pushTemplate(credentials, TEMPLATE)).resolves.toMatchObject({
+      id: "2001",
+      name: "Spring Launch",
+    });
+    await expect(
+      mailchimpProvider.updateTemplate(credentials, "2001", TEMPLATE)
+    ).resolves.toMatchObject({ id: "2001", updatedAt: "2026-01-03T00:00:00Z" });
+    await expect(mailchimpProvider.listRemoteTemplates(credentials)).resolves.toEqual([
+      { id: "1001", name: "Welcome", updatedAt: "2026-01-01T00:00:00Z" },
+    ]);
+  });
+
+  it("surfaces API errors with status", async () => {
+    server.use(
+      http.get("https://*.api.mailchimp.com/3.0/", () =>
+        HttpResponse.json({ detail: "Your API key may be invalid" }, { status: 401 })
+      )
+    );
+
+    const error = await mailchimpProvider.testConnection(credentials).catch((e) => e);
+    expect(error).toBeInstanceOf(IntegrationProviderError);
+    expect(error.message).toBe("Your API key may be invalid");
+    expect(error.isAuthError).toBe(true);
+  });
+});
+
+describe("sendgrid provider", () => {
+  const credentials = { apiKey: "SG.test-key" };
+
+  it("creates a dynamic template with an active version", async () => {
+    const bodies: unknown[] = [];
+    server.use(
+      http.post("https://api.sendgrid.com/v3/templates/:id/versions", async ({ request }) => {
+        bodies.push(await request.json());
+        return HttpResponse.json({ id: "v1", updated_at: "2026-01-02 00:00:00" });
+      })
+    );
+
+    const remote = await sendgridProvider.pushTemplate(credentials, TEMPLATE);
+
+    expect(remote).toEqual({ id: "d-new", name: "Spring Launch", updatedAt: "2026-01-02 00:00:00" });
+    expect(bodies[0]).toMatchObject({
+      subject: "Hi {{firstName}}",
+      html_content: TEMPLATE.html,
+      active: 1,
+    });
+  });
+
+  it("uses the template name when there is no subject", async () => {
+    let subject: unknown;
+    server.use(
+      http.post("https://api.sendgrid.com/v3/templates/:id/versions", async ({ request }) => {
+        subject = ((await request.json()) as { subject: string }).subject;
+        return HttpResponse.json({ id: "v2" });
+      })
+    );
+
+    await sendgridProvider.updateTemplate(credentials, "d-new", { ...TEMPLATE, subject: null });
+    expect(subject).toBe("Spring Launch");
+  });
+
+  it("reads the first error message", async () => {
+    server.use(
+      http.get("https://api.sendgrid.com/v3/templates", () =>
+        HttpResponse.json({ errors: [{ message: "access forbidden" }] }, { status: 403 })
+      )
+    );
+
+    await expect(sendgridProvider.listRemoteTemplates(credentials)).rejects.toThrow(
+      "access forbidden"
+    );
+  });
+});
+
+describe("klaviyo provider", () => {
+  const credentials = { apiKey: "pk_test" };
+
+  it("sends the revision header", async () => {
+    let revision: string | null = null;
+    server.use(
+      http.get("https://a.klaviyo.com/api/accounts/", ({ request }) => {
+        revision = request.headers.get("revision");
+        return HttpResponse.json({ data: [] });
+      })
+    );
+
+    await expect(klaviyoProvider.testConnection(credentials)).resolves.toEqual({
+      accountName: null,
+    });
+    expect(revision).toBe("2024-10-15");
+  });
+
+  it("pushes code templates and lists them", async () => {
+    await expect(klaviyoProvider.pushTemplate(credentials, TEMPLATE)).resolves.toEqual({
+      id: "TPL2",
+      name: "Spring Launch",
+      updatedAt: "2026-01-02T00:00:00Z",
+    });
+    await expect(klaviyoProvider.listRemoteTemplates(credentials)).resolves.toHaveLength(1);
+  });
+});
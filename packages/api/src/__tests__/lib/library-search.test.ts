@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from "vitest";
+
+// The query builders need the real Prisma.sql helpers
+vi.unmock("@mocah/db");
+
+import {
+  buildFacetCountSql,
+  buildLibraryPageSql,
+  buildLibraryWhereSql,
+  getColorFamilies,
+  getColorFamily,
+  searchLibrary,
+  toLibraryFacets,
+  toPrefixTsQuery,
+} from "../../lib/library-search";
+
+describe("library-search", () => {
+  describe("toPrefixTsQuery", () => {
+    it("requires every word as a prefix", () => {
+      expect(toPrefixTsQuery("Black Friday sale")).toBe("black:* & friday:* & sale:*");
+    });
+
+    it("drops tsquery operators and punctuation", () => {
+      expect(toPrefixTsQuery("welcome & (onboarding) | !spam:*")).toBe(
+        "welcome:* & onboarding:* & spam:*"
+      );
+      expect(toPrefixTsQuery("  !&| ")).toBeNull();
+      expect(toPrefixTsQuery(undefined)).toBeNull();
+    });
+  });
+
+  describe("getColorFamily", () => {
+    it("buckets colors by hue", () => {
+      expect(getColorFamily("#dc2626")).toBe("red");
+      expect(getColorFamily("#F97316")).toBe("orange");
+      expect(getColorFamily("#16a34a")).toBe("green");
+      expect(getColorFamily("#0d9488")).toBe("teal");
+      expect(getColorFamily("#1d4ed8")).toBe("blue");
+      expect(getColorFamily("#7c3aed")).toBe("purple");
+      expect(getColorFamily("#db2777")).toBe("pink");
+    });
+
+    it("treats greys as neutral and ignores invalid values", () => {
+      expect(getColorFamily("#6b7280")).toBe("neutral");
+      expect(getColorFamily("#fff")).toBe("neutral");
+      expect(getColorFamily("red")).toBeNull();
+    });
+
+    it("dedupes families of a palette", () => {
+      expect(getColorFamilies(["#1d4ed8", "#2563eb", "#dc2626"])).toEqual(["blue", "red"]);
+    });
+  });
+
+  describe("buildLibraryWhereSql", () => {
+    it("ANDs facets and ORs the values within one", () => {
+      const where = buildLibraryWhereSql(
+        { categories: ["saas", "onboarding"], tags: ["welcome"], colors: ["blue"], isPremium: false },
+        "welcome:*"
+      );
+
+      expect(where.sql).toContain(`tl."deletedAt" IS NULL`);
+      expect(where.sql).toContain(`tl."searchVector" @@ to_tsquery('english', ?)`);
+      expect(where.sql).toContain(`v."value" IN (?,?)`);
+      expect(where.sql).toContain(`tl."tags" && ARRAY[?]::text[]`);
+      expect(where.sql).toContain(`tl."colorFamilies" && ARRAY[?]::text[]`);
+      expect(where.sql).toContain(`tl."isPremium" = ?`);
+      expect(where.values).toEqual(["welcome:*", "saas", "onboarding", "welcome", "blue", false]);
+    });
+
+    it("leaves out the ignored facet and empty filters", () => {
+      const where = buildLibraryWhereSql({ categories: ["saas"], industries: [], isPremium: true }, null, "categories");
+
+      expect(where.sql).toBe(`tl."deletedAt" IS NULL AND tl."isPremium" = ?`);
+      expect(where.values).toEqual([true]);
+    });
+  });
+
+  describe("buildFacetCountSql", () => {
+    it("counts a facet with every filter but its own", () => {
+      const query = buildFacetCountSql("tags", { tags: ["sale"], industries: ["Retail"] }, null);
+
+      expect(query.sql).toContain(`unnest(tl."tags")`);
+      expect(query.sql).toContain(`GROUP BY v."value"`);
+      expect(query.values).toEqual(["Retail"]);
+    });
+  });
+
+  describe("buildLibraryPageSql", () => {
+    it("orders by rank, then newest, and pages after the cursor row", () => {
+      const query = buildLibraryPageSql({}, "sale:*", { limit: 21, cursor: "entry-20" });
+
+      expect(query.sql).toContain(`ORDER BY ts_rank(tl."searchVector", to_tsquery('english', ?)) DESC, tl."createdAt" DESC, tl."id" DESC`);
+      expect(query.sql).toContain(`WHERE tl."id" = ?`);
+      expect(query.values.at(-1)).toBe(21);
+      expect(query.values).toContain("entry-20");
+    });
+
+    it("starts from the top without a cursor", () => {
+      const query = buildLibraryPageSql({}, null, { limit: 21 });
+
+      expect(query.sql).not.toContain(`WHERE tl."id" = ?`);
+      expect(query.values).toEqual([21]);
+    });
+  });
+
+  describe("toLibraryFacets", () => {
+    it("sorts colors by spectrum and other facets by count", () => {
+      const facets = toLibraryFacets({
+        categories: [
+          { value: "onboarding", count: 1 },
+          { value: "saas", count: 2 },
+          { value: "newsletters", count: 1 },
+        ],
+        tags: [],
+        industries: [{ value: "Software", count: 2 }],
+        colors: [
+          { value: "blue", count: 1 },
+          { value: "green", count: 1 },
+          { value: "not-a-family", count: 3 },
+        ],
+        isPremium: [{ value: "false", count: 2 }],
+      });
+
+      expect(facets.categories).toEqual([
+        { value: "saas", count: 2 },
+        { value: "newsletters", count: 1 },
+        { value: "onboarding", count: 1 },
+      ]);
+      expect(facets.colors).toEqual([
+        { value: "green", count: 1 },
+        { value: "blue", count: 1 },
+      ]);
+      expect(facets.premium).toEqual({ premium: 0, free: 2 });
+    });
+  });
+
+  describe("searchLibrary", () => {
+    it("returns a cursor only when another page exists", async () => {
+      const queryRaw = vi.fn(async (query: { sql: string }) => {
+        if (query.sql.includes("ORDER BY")) return [{ id: "a" }, { id: "b" }, { id: "c" }];
+        if (query.sql.includes("GROUP BY")) return [];
+        return [{ count: 3 }];
+      });
+      const db = { $queryRaw: queryRaw } as any;
+
+      await expect(searchLibrary(db, {}, { limit: 2 })).resolves.toMatchObject({
+        ids: ["a", "b"],
+        nextCursor: "b",
+        total: 3,
+      });
+      await expect(searchLibrary(db, {}, { limit: 3 })).resolves.toMatchObject({
+        ids: ["a", "b", "c"],
+        nextCursor: undefined,
+      });
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { canAssignRole, getInvitationStatus, getMemberChangeError } from "../../lib/member-roles";
+
+const owner = { actorUserId: "owner-1", actorRoles: ["owner"] };
+const admin = { actorUserId: "admin-1", actorRoles: ["admin"] };
+
+describe("member-roles", () => {
+  describe("canAssignRole", () => {
+    it("lets only owners hand out the owner role", () => {
+      expect(canAssignRole(["owner"], "owner")).toBe(true);
+      expect(canAssignRole(["admin"], "owner")).toBe(false);
+      expect(canAssignRole(["admin"], "admin")).toBe(true);
+      expect(canAssignRole(["member"], "member")).toBe(false);
+    });
+  });
+
+  describe("getMemberChangeError", () => {
+    it("blocks changing or removing yourself", () => {
+      const target = { userId: "admin-1", roles: ["admin"] };
+
+      expect(getMemberChangeError({ ...admin, target, newRole: "member" })).toBe(
+        "You can't change your own role"
+      );
+      expect(getMemberChangeError({ ...admin, target })).toBe(
+        "You can't remove yourself from the workspace"
+      );
+    });
+
+    it("keeps owners out of admins' reach", () => {
+      const target = { userId: "owner-2", roles: ["owner"] };
+
+      expect(getMemberChangeError({ ...admin, target })).toBe("Only owners can change another owner");
+      expect(getMemberChangeError({ ...owner, target, newRole: "admin" })).toBeNull();
+    });
+
+    it("stops admins from promoting to owner", () => {
+      const target = { userId: "user-1", roles: ["member"] };
+
+      expect(getMemberChangeError({ ...admin, target, newRole: "owner" })).toBe(
+        "Only owners can make someone an owner"
+      );
+      expect(getMemberChangeError({ ...admin, target, newRole: "admin" })).toBeNull();
+    });
+
+    it("rejects plain members", () => {
+      expect(
+        getMemberChangeError({
+          actorUserId: "user-1",
+          actorRoles: ["member"],
+          target: { userId: "user-2", roles: ["member"] },
+        })
+      ).toBe("Only workspace owners and admins can manage members");
+    });
+  });
+
+  describe("getInvitationStatus", () => {
+    it("reports pending invitations past their expiry as expired", () => {
+      const now = new Date("2026-10-19T12:00:00Z");
+
+      expect(getInvitationStatus({ status: "pending", expiresAt: new Date("2026-10-18T12:00:00Z") }, now)).toBe(
+        "expired"
+      );
+      expect(getInvitationStatus({ status: "pending", expiresAt: new Date("2026-10-20T12:00:00Z") }, now)).toBe(
+        "pending"
+      );
+      expect(getInvitationStatus({ status: "accepted", expiresAt: new Date("2026-10-18T12:00:00Z") }, now)).toBe(
+        "accepted"
+      );
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+
+vi.mock("../../lib/screenshot/playwright", () => ({
+  playwrightProvider: {
+    name: "playwright",
+    isAvailable: vi.fn(async () => true),
+    capture: vi.fn(),
+  },
+  closeScreenshotBrowser: vi.fn(),
+}));
+
+vi.mock("../../lib/image-processing", () => ({
+  createThumbnail: vi.fn(async () => ({ buffer: Buffer.from("webp") })),
+}));
+
+import {
+  captureScreenshot,
+  generateTemplateScreenshot,
+  resolveScreenshotProviderName,
+  SCREENSHOT_VIEWPORT,
+} from "../../lib/screenshot";
+import { playwrightProvider } from "../../lib/screenshot/playwright";
+import { s3Client } from "../../lib/s3";
+
+const capture = vi.mocked(playwrightProvider.capture);
+const isAvailable = vi.mocked(playwrightProvider.isAvailable);
+
+describe("screenshot", () => {
+  beforeEach(() => {
+    capture.mockReset();
+    isAvailable.mockResolvedValue(true);
+  });
+
+  describe("resolveScreenshotProviderName", () => {
+    it("uses the configured provider when set", () => {
+      expect(
+        resolveScreenshotProviderName({ preferred: "playwright", apiflashConfigured: true })
+      ).toBe("playwright");
+      expect(
+        resolveScreenshotProviderName({ preferred: "apiflash", apiflashConfigured: false })
+      ).toBe("apiflash");
+    });
+
+    it("falls back to ApiFlash only when it has an API key", () => {
+      expect(resolveScreenshotProviderName({ apiflashConfigured: true })).toBe("apiflash");
+      expect(resolveScreenshotProviderName({ apiflashConfigured: false })).toBe("playwright");
+    });
+  });
+
+  describe("captureScreenshot", () => {
+    it("captures the HTML at email width", async () => {
+      capture.mockResolvedValue(Buffer.from("png"));
+
+      await expect(captureScreenshot("template-1", "<p>Hi</p>")).resolves.toEqual(Buffer.from("png"));
+      expect(capture).toHaveBeenCalledWith({
+        id: "template-1",
+        html: "<p>Hi</p>",
+        ...SCREENSHOT_VIEWPORT,
+      });
+      expect(SCREENSHOT_VIEWPORT.width).toBe(600);
+    });
+
+    it("skips the capture when no browser is available", async () => {
+      isAvailable.mockResolvedValue(false);
+
+      await expect(captureScreenshot("template-1", "<p>Hi</p>")).resolves.toBeNull();
+      expect(capture).not.toHaveBeenCalled();
+    });
+
+    it("returns null when the capture fails", async () => {
+      capture.mockRejectedValue(new Error("Target closed"));
+
+      await expect(captureScreenshot("template-1", "<p>Hi</p>")).resolves.toBeNull();
+    });
+
+    it("runs at most two captures at once", async () => {
+      let active = 0;
+      let maxActive = 0;
+      capture.mockImplementation(async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+        return Buffer.from("png");
+      });
+
+      const results = await Promise.all(
+        ["a", "b", "c", "d", "e"].map((id) => captureScreenshot(id, "<p>Hi</p>"))
+      );
+
+      expect(results.every((result) => result !== null)).toBe(true);
+      expect(capture).toHaveBeenCalledTimes(5);
+      expect(maxActive).toBe(2);
+    });
+  });
+
+  describe("generateTemplateScreenshot", () => {
+    it("uploads the thumbnail and returns its public URL", async () => {
+      capture.mockResolvedValue(Buffer.from("png"));
+      const send = vi.spyOn(s3Client, "send").mockResolvedValue({} as never);
+
+      const url = await generateTemplateScreenshot({
+        templateId: "template-1",
+        htmlCode: "<p>Hi</p>",
+        storagePrefix: "template-thumbnails",
+      });
+
+      expect(url).toMatch(/\/template-thumbnails\/.+-template-1\.webp$/);
+      expect(send).toHaveBeenCalledTimes(1);
+      expect((send.mock.calls[0]![0] as any).input).toMatchObject({
+        ContentType: "image/webp",
+        CacheControl: "public, max-age=31536000, immutable",
+      });
+    });
+
+    it("stores nothing when the capture fails", async () => {
+      capture.mockRejectedValue(new Error("Target closed"));
+      const send = vi.spyOn(s3Client, "send").mockResolvedValue({} as never);
+      send.mockClear();
+
+      await expect(
+        generateTemplateScreenshot({ templateId: "template-1", htmlCode: "<p>Hi</p>" })
+      ).resolves.toBeNull();
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+});
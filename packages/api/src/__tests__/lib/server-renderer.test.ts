@@ -0,0 +1,182 @@
+import { afterAll, describe, expect, it } from "vitest";
+import {
+  ServerRenderErrorCode,
+  renderReactEmailServerSide,
+  shutdownServerRenderer,
+  verifyClientHtml,
+} from "../../lib/server-renderer";
+import { reconcileClientHtml } from "../../lib/template-helpers";
+import { resolveDesignTokens } from "@mocah/shared/design-tokens";
+
+const EMAIL = `
+import { Html, Body, Text, Button } from "@react-email/components";
+
+interface Props {
+  name?: string;
+}
+
+export default function WelcomeEmail({ name = "there" }: Props) {
+  const items = ["One", "Two"];
+  return (
+    <Html>
+      <Body style={{ backgroundColor: "#ffffff" }}>
+        <Text>Hi {name}</Text>
+        <>
+          {items.map((item) => (
+            <Text key={item}>{item}</Text>
+          ))}
+        </>
+        <Button href="https://example.com">Go</Button>
+      </Body>
+    </Html>
+  );
+}
+`;
+
+async function renderError(code: string, timeoutMs?: number) {
+  try {
+    await renderReactEmailServerSide(code, { timeoutMs });
+  } catch (error) {
+    return error as { code: ServerRenderErrorCode; message: string };
+  }
+  throw new Error("Expected render to fail");
+}
+
+describe("server renderer", () => {
+  afterAll(async () => {
+    await shutdownServerRenderer();
+  });
+
+  it("renders allow-listed React Email components", async () => {
+    const html = await renderReactEmailServerSide(EMAIL);
+
+    expect(html.startsWith("<!DOCTYPE html PUBLIC")).toBe(true);
+    expect(html).toContain("Hi there");
+    expect(html).toContain("Two");
+    expect(html).toContain('href="https://example.com"');
+  });
+
+  it("rejects imports outside the allow-list", async () => {
+    const error = await renderError(`import fs from "fs";\n${EMAIL}`);
+    expect(error.code).toBe(ServerRenderErrorCode.DISALLOWED_IMPORT);
+
+    const componentError = await renderError(
+      EMAIL.replace("Button }", "Button, render }")
+    );
+    expect(componentError.code).toBe(ServerRenderErrorCode.DISALLOWED_IMPORT);
+    expect(componentError.message).toContain("render");
+  });
+
+  it("rejects code that reaches for globals or constructors", async () => {
+    const processError = await renderError(
+      EMAIL.replace('const items = ["One", "Two"];', "const items = [process.env.SECRET];")
+    );
+    expect(processError.code).toBe(ServerRenderErrorCode.UNSAFE_CODE);
+
+    const constructorError = await renderError(
+      EMAIL.replace(
+        'const items = ["One", "Two"];',
+        'const items = [Html["constructor"]("return 1")()];'
+      )
+    );
+    expect(constructorError.code).toBe(ServerRenderErrorCode.UNSAFE_CODE);
+  });
+
+  it("blocks host code generation reached through dynamic keys", async () => {
+    const error = await renderError(
+      EMAIL.replace(
+        'const items = ["One", "Two"];',
+        'const key = ["con", "structor"].join(""); const items = [String(Html.render[key]("return 1")())];'
+      )
+    );
+    expect(error.code).toBe(ServerRenderErrorCode.RENDER_FAILED);
+    expect(error.message).toContain("Code generation is not allowed");
+  });
+
+  it("times out runaway renders and keeps serving", async () => {
+    const error = await renderError(
+      EMAIL.replace('const items = ["One", "Two"];', "while (true) {} const items = [];"),
+      200
+    );
+    expect(error.code).toBe(ServerRenderErrorCode.TIMEOUT);
+
+    await expect(renderReactEmailServerSide(EMAIL)).resolves.toContain("Hi there");
+  });
+
+  it("resolves brand token references", async () => {
+    const code = `
+import { Html, Text } from "@react-email/components";
+
+export default function Email() {
+  return (
+    <Html>
+      <Text style={{ color: brand.primary, fontFamily: brand.fontFamily }}>Hi</Text>
+    </Html>
+  );
+}
+`;
+    const html = await renderReactEmailServerSide(code, {
+      designTokens: resolveDesignTokens({ primaryColor: "#FF0000" }),
+    });
+
+    expect(html).toContain("color:#FF0000");
+    expect(html).toContain("font-family:Arial, sans-serif");
+  });
+
+  it("loads the brand's web fonts in Head", async () => {
+    const code = `
+import { Html, Head, Text } from "@react-email/components";
+
+export default function Email() {
+  return (
+    <Html>
+      <Head />
+      <Text style={{ fontFamily: brand.fontFamily }}>Hi</Text>
+    </Html>
+  );
+}
+`;
+    const html = await renderReactEmailServerSide(code, {
+      designTokens: resolveDesignTokens({
+        fontFamily: "Inter, -apple-system, Arial, sans-serif",
+        webFonts: [
+          {
+            family: "Inter",
+            url: "https://fonts.gstatic.com/inter.woff2",
+            format: "woff2",
+            weight: 400,
+            style: "normal",
+            category: "sans-serif",
+            source: "google",
+          },
+        ],
+      }),
+      pretty: false,
+    });
+
+    expect(html).toMatch(/<head>.*@font-face.*font-family: 'Inter'.*mso-font-alt: 'Arial'.*<\/head>/s);
+    expect(html).toContain("src: url(https://fonts.gstatic.com/inter.woff2) format('woff2')");
+    expect(html).toContain("font-family:Inter, -apple-system, Arial, sans-serif");
+  });
+
+  it("verifies client HTML regardless of formatting", async () => {
+    const compact = await renderReactEmailServerSide(EMAIL, { pretty: false });
+
+    await expect(verifyClientHtml(EMAIL, compact)).resolves.toMatchObject({ matches: true });
+    await expect(
+      verifyClientHtml(EMAIL, compact.replace("Hi there", "Hi attacker"))
+    ).resolves.toMatchObject({ matches: false });
+  });
+
+  it("stores the server render in place of client HTML", async () => {
+    const html = await renderReactEmailServerSide(EMAIL);
+
+    await expect(reconcileClientHtml(EMAIL, "<p>Hi attacker</p>")).resolves.toBe(html);
+  });
+
+  it("rejects client HTML when the server can't render the code", async () => {
+    await expect(
+      reconcileClientHtml(`import fs from "fs";\n${EMAIL}`, "<p>Hi attacker</p>")
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { buildTableHtml, generateTableHtml, parseInlineStyle } from "../../lib/table-html";
+
+// Trimmed output of React Email's Html/Head/Body/Container/Text/Button
+const RENDERED_HTML = `<html dir="ltr" lang="en"><head><meta content="text/html; charset=UTF-8" http-equiv="Content-Type"/><style>.lead{color:#333333}</style></head><body style="background-color:#ffffff"><table align="center" width="100%" border="0" cellPadding="0" cellSpacing="0" role="presentation" style="max-width:37.5em"><tbody><tr style="width:100%"><td><p class="lead" style="font-size:14px">Welcome!</p><table><tr><td>Plain table</td></tr></table><img src="https://example.com/logo.png"/><a href="https://example.com?a=1&amp;b=2" style="line-height:100%;text-decoration:none;display:inline-block;max-width:100%;mso-padding-alt:0px;background-color:#5F51E8;color:#ffffff;font-size:16px;padding-top:12px;padding-right:20px;padding-bottom:12px;padding-left:20px;border-radius:6px" target="_blank"><span style="display:inline-block">Get Started</span></a></td></tr></tbody></table></body></html>`;
+
+describe("table-html", () => {
+  describe("parseInlineStyle", () => {
+    it("parses declarations with later ones winning", () => {
+      const styles = parseInlineStyle("padding: 4px; color:#fff;padding:8px 12px;");
+
+      expect(styles.get("padding")).toBe("8px 12px");
+      expect(styles.get("color")).toBe("#fff");
+    });
+  });
+
+  describe("generateTableHtml", () => {
+    const output = generateTableHtml(RENDERED_HTML);
+
+    it("adds an XHTML doctype and Office namespaces", () => {
+      expect(output.startsWith("<!DOCTYPE html PUBLIC")).toBe(true);
+      expect(output).toContain('xmlns:v="urn:schemas-microsoft-com:vml"');
+      expect(output).toContain('xmlns:o="urn:schemas-microsoft-com:office:office"');
+      expect(output).toContain("<o:PixelsPerInch>96</o:PixelsPerInch>");
+    });
+
+    it("inlines CSS from style blocks", () => {
+      expect(output).not.toContain(".lead{");
+      expect(output).toMatch(/<p class="lead" style="[^"]*color: #333333/);
+    });
+
+    it("marks every table as presentational", () => {
+      const tables = output.match(/<table[^>]*>/g) ?? [];
+
+      expect(tables.length).toBeGreaterThan(0);
+      for (const table of tables) {
+        expect(table).toContain('role="presentation"');
+      }
+      expect(output).toContain('<img src="https://example.com/logo.png" border="0" alt="">');
+    });
+
+    it("wraps max-width containers in an MSO ghost table", () => {
+      expect(output).toContain(
+        '<!--[if mso]><table role="presentation" align="center" width="600"'
+      );
+      expect(output).toContain("<!--[if mso]></td></tr></table><![endif]-->");
+    });
+
+    it("adds a VML roundrect fallback for buttons", () => {
+      expect(output).toContain("<v:roundrect");
+      expect(output).toContain('href="https://example.com?a=1&amp;b=2"');
+      expect(output).toContain('fillcolor="#5F51E8"');
+      expect(output).toContain("height:43px");
+      expect(output).toContain("Get Started</center>");
+      expect(output).toMatch(/<!--\[if !mso\]><!--><a href/);
+      expect(output).toContain("</a><!--<![endif]-->");
+    });
+  });
+
+  describe("buildTableHtml", () => {
+    it("returns null for empty input", () => {
+      expect(buildTableHtml(null)).toBeNull();
+      expect(buildTableHtml("   ")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  createCommentAnchor,
+  normalizeMentions,
+  parseElementId,
+  reanchorTemplateComments,
+  reanchorThreads,
+} from "../../lib/template-comments";
+
+const BASE_CODE = `import { Html, Body, Container, Text, Button } from "@react-email/components";
+
+export default function Email() {
+  return (
+    <Html>
+      <Body>
+        <Container>
+          <Text>Welcome!</Text>
+          <Button href="https://example.com">Get Started</Button>
+        </Container>
+      </Body>
+    </Html>
+  );
+}`;
+
+const SHIFTED_CODE = BASE_CODE.replace(
+  "<Container>",
+  "<Container>\n          <Text>Hello there</Text>\n"
+);
+
+function thread(elementId: string, code = BASE_CODE) {
+  const anchor = createCommentAnchor(code, elementId);
+  if (!anchor) throw new Error(`No element ${elementId}`);
+  return { id: "thread-1", detached: false, ...anchor };
+}
+
+describe("template-comments", () => {
+  describe("createCommentAnchor", () => {
+    it("anchors to the element at the id's line", () => {
+      expect(createCommentAnchor(BASE_CODE, "element-Button-9")).toEqual({
+        elementId: "element-Button-9",
+        elementTag: "Button",
+        elementPath: "Html > Body[0] > Container[0] > Button[0]",
+        elementText: "Get Started",
+      });
+    });
+
+    it("returns null for unknown or malformed ids", () => {
+      expect(createCommentAnchor(BASE_CODE, "element-Button-3")).toBeNull();
+      expect(createCommentAnchor(BASE_CODE, "not-an-id")).toBeNull();
+      expect(parseElementId("element-Text-12")).toEqual({ tag: "Text", line: 12 });
+    });
+  });
+
+  describe("reanchorTemplateComments", () => {
+    it("stores only the threads whose anchor moved", async () => {
+      const db = {
+        templateCommentThread: {
+          findMany: vi.fn(async () => [
+            { ...thread("element-Text-8"), id: "thread-text" },
+            { ...thread("element-Button-9"), id: "thread-button" },
+          ]),
+          update: vi.fn((args) => args),
+        },
+        $transaction: vi.fn(async (updates: unknown[]) => updates),
+      } as any;
+
+      await expect(reanchorTemplateComments(db, "template-1", SHIFTED_CODE)).resolves.toBe(2);
+      await expect(reanchorTemplateComments(db, "template-1", BASE_CODE)).resolves.toBe(0);
+
+      expect(db.$transaction).toHaveBeenCalledTimes(1);
+      expect(db.templateCommentThread.update).toHaveBeenCalledWith({
+        where: { id: "thread-button" },
+        data: expect.objectContaining({ elementId: "element-Button-11", detached: false }),
+      });
+    });
+  });
+
+  describe("reanchorThreads", () => {
+    it("leaves threads whose element didn't move", () => {
+      expect(reanchorThreads([thread("element-Text-8")], BASE_CODE)).toEqual([]);
+    });
+
+    it("follows an element when lines shift", () => {
+      const [moved] = reanchorThreads([thread("element-Button-9")], SHIFTED_CODE);
+      expect(moved?.elementId).toBe("element-Button-11");
+      expect(moved?.detached).toBe(false);
+    });
+
+    it("matches by text when a sibling is inserted before the element", () => {
+      // The new Text takes Text[0]; the original is now Text[1]
+      const [moved] = reanchorThreads([thread("element-Text-8")], SHIFTED_CODE);
+      expect(moved?.elementId).toBe("element-Text-10");
+      expect(moved?.elementPath).toBe("Html > Body[0] > Container[0] > Text[1]");
+    });
+
+    it("detaches threads whose element was removed and reattaches them", () => {
+      const withoutButton = BASE_CODE.replace(/\s*<Button[^]*?<\/Button>/, "");
+      const [detached] = reanchorThreads([thread("element-Button-9")], withoutButton);
+      expect(detached?.detached).toBe(true);
+      expect(detached?.elementId).toBe("element-Button-9");
+
+      const [reattached] = reanchorThreads([detached!], BASE_CODE);
+      expect(reattached?.detached).toBe(false);
+    });
+
+    it("follows stable ids even when the text changes", () => {
+      const stableCode = BASE_CODE.replace("<Text>", '<Text data-mocah-id="mwelcome">');
+      const stableThread = thread("mwelcome", stableCode);
+      expect(stableThread.elementId).toBe("mwelcome");
+
+      const edited = SHIFTED_CODE.replace(
+        "<Text>Welcome!</Text>",
+        '<Text data-mocah-id="mwelcome">Welcome aboard!</Text>'
+      );
+      const [moved] = reanchorThreads([stableThread], edited);
+      expect(moved?.elementId).toBe("mwelcome");
+      expect(moved?.elementText).toBe("Welcome aboard!");
+      expect(moved?.detached).toBe(false);
+    });
+
+    it("ignores code that can't be parsed", () => {
+      expect(reanchorThreads([thread("element-Text-8")], "")).toEqual([]);
+    });
+  });
+
+  describe("normalizeMentions", () => {
+    it("dedupes mentions and drops the author", () => {
+      expect(normalizeMentions(["a", "b", "a", "me"], "me")).toEqual(["a", "b"]);
+      expect(normalizeMentions(undefined, "me")).toEqual([]);
+    });
+  });
+});
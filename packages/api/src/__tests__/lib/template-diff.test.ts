@@ -0,0 +1,160 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseJsxTree,
+  diffJsx,
+  diffStyleDefinitions,
+  diffTemplateSnapshots,
+} from "../../lib/template-diff";
+
+const BASE_CODE = `
+import { Html, Body, Container, Text, Button } from "@react-email/components";
+
+const buttonStyle: Record<string, string> = { color: "#fff" };
+
+export default function Email() {
+  return (
+    <Html>
+      <Body style={{ backgroundColor: "#ffffff" }}>
+        <Container>
+          <Text>Welcome!</Text>
+          <Button href="https://example.com" style={buttonStyle}>Get Started</Button>
+        </Container>
+      </Body>
+    </Html>
+  );
+}`;
+
+describe("template-diff", () => {
+  describe("parseJsxTree", () => {
+    it("returns an empty list for empty code", () => {
+      expect(parseJsxTree(null)).toEqual([]);
+      expect(parseJsxTree("")).toEqual([]);
+    });
+
+    it("ignores type annotations before the JSX tree", () => {
+      const nodes = parseJsxTree(BASE_CODE);
+
+      expect(nodes.map((n) => n.tag)).toEqual(["Html", "Body", "Container", "Text", "Button"]);
+    });
+
+    it("builds readable paths and captures text and attributes", () => {
+      const nodes = parseJsxTree(BASE_CODE);
+      const button = nodes.find((n) => n.tag === "Button")!;
+
+      expect(button.path).toBe("Html > Body[0] > Container[0] > Button[0]");
+      expect(button.text).toBe("Get Started");
+      expect(button.attributes.href).toBe('"https://example.com"');
+      expect(button.attributes.style).toBe("{buttonStyle}");
+    });
+
+    it("handles braces containing > inside attributes", () => {
+      const code = `<Html><Text style={{ width: a > b ? 1 : 2 }}>Hi</Text></Html>`;
+      const nodes = parseJsxTree(code);
+
+      expect(nodes).toHaveLength(2);
+      expect(nodes[1]!.text).toBe("Hi");
+    });
+  });
+
+  describe("diffJsx", () => {
+    it("returns no changes for identical code", () => {
+      expect(diffJsx(BASE_CODE, BASE_CODE)).toEqual([]);
+    });
+
+    it("detects added elements", () => {
+      const after = BASE_CODE.replace(
+        "<Text>Welcome!</Text>",
+        "<Text>Welcome!</Text>\n          <Text>New line</Text>"
+      );
+      const changes = diffJsx(BASE_CODE, after);
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0]).toMatchObject({ type: "added", tag: "Text" });
+    });
+
+    it("detects removed elements", () => {
+      const after = BASE_CODE.replace(/\s*<Button[\s\S]*?<\/Button>/, "");
+      const changes = diffJsx(BASE_CODE, after);
+
+      expect(changes).toEqual([
+        { type: "removed", tag: "Button", path: "Html > Body[0] > Container[0] > Button[0]" },
+      ]);
+    });
+
+    it("detects text and attribute modifications", () => {
+      const after = BASE_CODE.replace("Welcome!", "Hello there!").replace(
+        "https://example.com",
+        "https://mocah.ai"
+      );
+      const changes = diffJsx(BASE_CODE, after);
+
+      const text = changes.find((c) => c.tag === "Text")!;
+      expect(text.type).toBe("modified");
+      expect(text.textChange).toEqual({ before: "Welcome!", after: "Hello there!" });
+
+      const button = changes.find((c) => c.tag === "Button")!;
+      expect(button.attributeChanges).toEqual([
+        { name: "href", before: '"https://example.com"', after: '"https://mocah.ai"' },
+      ]);
+    });
+
+    it("ignores injected data-element-id attributes", () => {
+      const after = BASE_CODE.replace("<Text>", '<Text data-element-id="element-Text-10">');
+
+      expect(diffJsx(BASE_CODE, after)).toEqual([]);
+    });
+  });
+
+  describe("diffStyleDefinitions", () => {
+    it("reports added, removed and modified styles", () => {
+      const changes = diffStyleDefinitions(
+        { heading: { color: "#000", fontSize: 24 }, footer: { color: "#999" } },
+        { heading: { color: "#111", fontSize: 24 }, hero: { padding: "20px" } }
+      );
+
+      expect(changes).toContainEqual({
+        type: "modified",
+        styleName: "heading",
+        properties: [{ property: "color", before: "#000", after: "#111" }],
+      });
+      expect(changes).toContainEqual({
+        type: "removed",
+        styleName: "footer",
+        properties: [{ property: "color", before: "#999", after: null }],
+      });
+      expect(changes).toContainEqual({
+        type: "added",
+        styleName: "hero",
+        properties: [{ property: "padding", before: null, after: "20px" }],
+      });
+    });
+
+    it("treats non-object input as empty", () => {
+      expect(diffStyleDefinitions(null, undefined)).toEqual([]);
+      expect(diffStyleDefinitions("nope", [])).toEqual([]);
+    });
+  });
+
+  describe("diffTemplateSnapshots", () => {
+    it("summarizes JSX, style and metadata changes", () => {
+      const diff = diffTemplateSnapshots(
+        { reactEmailCode: BASE_CODE, styleDefinitions: {}, subject: "Hi", previewText: null },
+        {
+          reactEmailCode: BASE_CODE.replace("Welcome!", "Hey!"),
+          styleDefinitions: { hero: { color: "red" } },
+          subject: "Hello",
+          previewText: null,
+        }
+      );
+
+      expect(diff.summary).toEqual({
+        elementsAdded: 0,
+        elementsRemoved: 0,
+        elementsModified: 1,
+        stylesChanged: 1,
+        hasChanges: true,
+      });
+      expect(diff.metadata).toEqual([{ field: "subject", before: "Hi", after: "Hello" }]);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { strFromU8, unzipSync } from "fflate";
+import { convertMergeTags, extractMergeTags, formatMergeTag } from "../../lib/merge-tags";
+import {
+  buildExportArtifact,
+  collectImageUrls,
+  slugifyFileName,
+  type ExportSource,
+} from "../../lib/template-export";
+
+const SOURCE: ExportSource = {
+  id: "tpl_1",
+  name: "Black Friday Sale!",
+  subject: "Hi {{firstName}}",
+  previewText: null,
+  reactEmailCode: "export default function Email() { return <Html />; }",
+  styleType: "STYLE_OBJECTS",
+  styleDefinitions: { hero: { color: "red" } },
+  htmlCode: '<html><body><img src="https://storage.mocah.ai/a.png"/><p>Hi {{firstName}}</p></body></html>',
+  tableHtmlCode:
+    '<html><body><p>Hi {{ firstName | "there" }}</p><a href="https://example.com/unsubscribe">Unsubscribe</a><a href="https://example.com">Shop</a></body></html>',
+  imageUrls: ["https://storage.mocah.ai/a.png"],
+  variables: [],
+};
+
+describe("merge-tags", () => {
+  it("formats tags per ESP", () => {
+    const tag = { name: "firstName", fallback: null };
+
+    expect(formatMergeTag(tag, "mailchimp")).toBe("*|FNAME|*");
+    expect(formatMergeTag(tag, "sendgrid")).toBe("{{firstName}}");
+    expect(formatMergeTag(tag, "campaign_monitor")).toBe("[firstname,fallback=]");
+    expect(formatMergeTag(tag, "constant_contact")).toBe("[[firstName]]");
+  });
+
+  it("keeps fallbacks", () => {
+    const tag = { name: "firstName", fallback: "there" };
+
+    expect(formatMergeTag(tag, "mailchimp")).toBe(
+      "*|IF:FNAME|**|FNAME|**|ELSE:|*there*|END:IF|*"
+    );
+    expect(formatMergeTag(tag, "sendgrid")).toBe(
+      "{{#if firstName}}{{firstName}}{{else}}there{{/if}}"
+    );
+    expect(formatMergeTag(tag, "constant_contact")).toBe('[[firstName OR "there"]]');
+    expect(formatMergeTag(tag, "liquid")).toBe('{{ firstName | default: "there" }}');
+  });
+
+  it("uses declared defaults when a tag has no inline fallback", () => {
+    const html = '<p>{{company}} {{ firstName | "friend" }}</p>';
+
+    expect(convertMergeTags(html, "liquid", { company: "Acme", firstName: "there" })).toBe(
+      '<p>{{ company | default: "Acme" }} {{ firstName | default: "friend" }}</p>'
+    );
+  });
+
+  it("extracts unique tags with fallbacks", () => {
+    expect(extractMergeTags(SOURCE.tableHtmlCode + "{{firstName}} {{ company }}")).toEqual([
+      { name: "firstName", fallback: "there" },
+      { name: "company", fallback: null },
+    ]);
+  });
+
+  it("rewrites unsubscribe links", () => {
+    const html = convertMergeTags(SOURCE.tableHtmlCode, "mailchimp");
+
+    expect(html).toContain('<a href="*|UNSUB|*">Unsubscribe</a>');
+    expect(html).toContain('<a href="https://example.com">Shop</a>');
+    expect(convertMergeTags(SOURCE.tableHtmlCode, "constant_contact")).toContain(
+      'href="https://example.com/unsubscribe"'
+    );
+  });
+});
+
+describe("template-export", () => {
+  it("slugifies file names", () => {
+    expect(slugifyFileName("Black Friday Sale!")).toBe("black-friday-sale");
+    expect(slugifyFileName("!!!")).toBe("template");
+  });
+
+  it("collects image URLs from img tags and CSS", () => {
+    const html = `<img src="https://a.com/1.png"><td style="background:url('https://a.com/2.jpg')"><img src="https://a.com/1.png">`;
+
+    expect(collectImageUrls(html)).toEqual(["https://a.com/1.png", "https://a.com/2.jpg"]);
+  });
+
+  it("zips rendered and email-safe HTML", () => {
+    const artifact = buildExportArtifact(SOURCE, "html");
+    const files = unzipSync(artifact.body);
+
+    expect(artifact.fileName).toBe("black-friday-sale.zip");
+    expect(Object.keys(files).sort()).toEqual(["email-safe.html", "index.html", "manifest.json"]);
+    expect(strFromU8(files["index.html"]!)).toBe(SOURCE.htmlCode);
+    expect(JSON.parse(strFromU8(files["manifest.json"]!)).images).toEqual(SOURCE.imageUrls);
+  });
+
+  it("bundles source and styles as JSON", () => {
+    const artifact = buildExportArtifact(SOURCE, "json");
+    const bundle = JSON.parse(strFromU8(artifact.body));
+
+    expect(artifact.contentType).toBe("application/json");
+    expect(bundle.reactEmailCode).toBe(SOURCE.reactEmailCode);
+    expect(bundle.styleDefinitions).toEqual(SOURCE.styleDefinitions);
+  });
+
+  it("converts merge tags in ESP exports", () => {
+    const artifact = buildExportArtifact(SOURCE, "sendgrid");
+    const html = strFromU8(artifact.body);
+
+    expect(artifact.fileName).toBe("black-friday-sale-sendgrid.html");
+    expect(html).toContain("{{#if firstName}}{{firstName}}{{else}}there{{/if}}");
+    expect(artifact.metadata.mergeTags).toEqual(["firstName"]);
+  });
+
+  it("exports Liquid with declared variables as fallbacks", () => {
+    const artifact = buildExportArtifact(
+      {
+        ...SOURCE,
+        tableHtmlCode: "<p>Hi {{firstName}}</p>",
+        variables: [{ key: "firstName", defaultValue: "there" }],
+      },
+      "liquid"
+    );
+
+    expect(artifact.fileName).toBe("black-friday-sale-liquid.html");
+    expect(strFromU8(artifact.body)).toBe('<p>Hi {{ firstName | default: "there" }}</p>');
+  });
+
+  it("includes variable declarations in the JSON bundle", () => {
+    const variables = [{ key: "order.total", defaultValue: "$0.00" }];
+    const bundle = JSON.parse(strFromU8(buildExportArtifact({ ...SOURCE, variables }, "json").body));
+
+    expect(bundle.variables).toEqual(variables);
+  });
+});
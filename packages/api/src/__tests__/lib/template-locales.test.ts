@@ -0,0 +1,136 @@
+import { describe, it, expect, vi } from "vitest";
+import { getTranslatableStringKey } from "@mocah/shared/template-locales";
+import {
+  extractTranslatableStrings,
+  localizeReactEmailCode,
+  localizeTemplate,
+  mergeTranslations,
+} from "../../lib/template-locales";
+
+const SOURCE = [
+  { key: "s_1", text: "Welcome back" },
+  { key: "s_2", text: "Hi {{first_name|there}}, your order shipped" },
+];
+
+describe("mergeTranslations", () => {
+  it("adds translations for source keys", () => {
+    const result = mergeTranslations(SOURCE, {}, [
+      { key: "s_1", text: "Bon retour" },
+      { key: "s_2", text: "Bonjour {{first_name|vous}}, votre commande est partie" },
+    ]);
+
+    expect(result.strings).toEqual({
+      s_1: "Bon retour",
+      s_2: "Bonjour {{first_name|vous}}, votre commande est partie",
+    });
+    expect(result.translatedKeys).toEqual(["s_1", "s_2"]);
+  });
+
+  it("rejects translations that drop or rename merge tags", () => {
+    const result = mergeTranslations(SOURCE, {}, [
+      { key: "s_2", text: "Bonjour {{prenom}}, votre commande est partie" },
+    ]);
+
+    expect(result.strings).toEqual({});
+    expect(result.translatedKeys).toEqual([]);
+  });
+
+  it("keeps existing translations and drops stale or unknown keys", () => {
+    const result = mergeTranslations(
+      SOURCE,
+      { s_1: "Bon retour", s_old: "Ancien texte" },
+      [{ key: "s_unknown", text: "???" }]
+    );
+
+    expect(result.strings).toEqual({ s_1: "Bon retour" });
+  });
+});
+
+const CODE = `export default function Email() {
+  return (
+    <Html>
+      <Body>
+        <Heading style={heading}>
+          Welcome back
+        </Heading>
+        <Text>Hi {"{{first_name|there}}"}, your order <strong>has shipped</strong>!</Text>
+        <Text>{"{{order.total}}"}</Text>
+        <Button href="https://shop.com">Track order</Button>
+        <Text>Welcome back</Text>
+      </Body>
+    </Html>
+  );
+}`;
+
+describe("extractTranslatableStrings", () => {
+  it("extracts copy with the editor's keys, once per unique string", () => {
+    const strings = extractTranslatableStrings(CODE);
+
+    expect(strings.map((entry) => entry.text)).toEqual([
+      "Welcome back",
+      "Hi {{first_name|there}}, your order",
+      "has shipped",
+      "Track order",
+    ]);
+    expect(strings[0]!.key).toBe(getTranslatableStringKey("Welcome back"));
+  });
+});
+
+describe("localizeReactEmailCode", () => {
+  it("replaces translated copy and keeps structure", () => {
+    const localized = localizeReactEmailCode(CODE, {
+      [getTranslatableStringKey("Welcome back")]: "Bon retour",
+      [getTranslatableStringKey("has shipped")]: "est partie",
+    });
+
+    expect(localized).toContain('"Bon retour"');
+    expect(localized).not.toContain("Welcome back");
+    expect(localized).toContain('<strong>{"est partie"}</strong>');
+    expect(localized).toContain('href="https://shop.com"');
+    expect(localized).toContain("style={heading}");
+  });
+
+  it("returns the source untouched without translations", () => {
+    expect(localizeReactEmailCode(CODE, {})).toBe(CODE);
+  });
+});
+
+describe("localizeTemplate", () => {
+  const template = {
+    id: "template-1",
+    reactEmailCode: CODE,
+    subject: "Your order",
+    previewText: null,
+    defaultLocale: "en",
+  };
+
+  const createDb = (record: unknown) =>
+    ({ templateLocale: { findUnique: vi.fn(async () => record) } }) as any;
+
+  it("swaps in the locale's code and subject", async () => {
+    const db = createDb({
+      strings: { [getTranslatableStringKey("Track order")]: "Suivre la commande" },
+      subject: "Votre commande",
+      previewText: null,
+    });
+
+    const localized = await localizeTemplate(db, template, "fr");
+
+    expect(localized.reactEmailCode).toContain('"Suivre la commande"');
+    expect(localized.subject).toBe("Votre commande");
+  });
+
+  it("leaves the source locale alone", async () => {
+    const db = createDb(null);
+
+    await expect(localizeTemplate(db, template, "en")).resolves.toBe(template);
+    await expect(localizeTemplate(db, template, undefined)).resolves.toBe(template);
+    expect(db.templateLocale.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("rejects a locale the template doesn't have", async () => {
+    await expect(localizeTemplate(createDb(null), template, "de")).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  buildDuplicateGrants,
+  buildTemplateVisibilityFilter,
+  getTemplatePermission,
+  hasPermissionLevel,
+  parseMemberRoles,
+  resolveTemplatePermission,
+  type TemplateAccessGrant,
+} from "../../lib/template-permissions";
+
+const member = { userId: "user-1", roles: ["member"], teamIds: ["team-design"] };
+
+describe("template-permissions", () => {
+  describe("parseMemberRoles", () => {
+    it("reads single, comma-separated and JSON roles", () => {
+      expect(parseMemberRoles("owner")).toEqual(["owner"]);
+      expect(parseMemberRoles("admin,member")).toEqual(["admin", "member"]);
+      expect(parseMemberRoles('["admin","member"]')).toEqual(["admin", "member"]);
+    });
+  });
+
+  describe("hasPermissionLevel", () => {
+    it("treats higher levels as including lower ones", () => {
+      expect(hasPermissionLevel("publish", "edit")).toBe(true);
+      expect(hasPermissionLevel("comment", "view")).toBe(true);
+      expect(hasPermissionLevel("comment", "edit")).toBe(false);
+      expect(hasPermissionLevel(null, "view")).toBe(false);
+    });
+  });
+
+  describe("resolveTemplatePermission", () => {
+    it("keeps unrestricted templates open to every member", () => {
+      expect(resolveTemplatePermission(member, { teamId: null }, [])).toBe("publish");
+    });
+
+    it("gives the owning team and admins full access", () => {
+      expect(resolveTemplatePermission(member, { teamId: "team-design" }, [])).toBe("publish");
+      expect(
+        resolveTemplatePermission({ ...member, roles: ["admin"], teamIds: [] }, { teamId: "team-growth" }, [])
+      ).toBe("publish");
+    });
+
+    it("denies other members of a team-owned template", () => {
+      expect(resolveTemplatePermission(member, { teamId: "team-growth" }, [])).toBeNull();
+    });
+
+    it("uses the highest matching grant", () => {
+      const grants: TemplateAccessGrant[] = [
+        { teamId: "team-design", userId: null, level: "comment" },
+        { teamId: null, userId: "user-1", level: "edit" },
+        { teamId: "team-sales", userId: null, level: "publish" },
+      ];
+
+      expect(resolveTemplatePermission(member, { teamId: "team-growth" }, grants)).toBe("edit");
+    });
+
+    it("restricts a template that only has grants", () => {
+      const grants: TemplateAccessGrant[] = [{ teamId: null, userId: "user-2", level: "view" }];
+
+      expect(resolveTemplatePermission(member, { teamId: null }, grants)).toBeNull();
+    });
+  });
+
+  describe("buildDuplicateGrants", () => {
+    it("leaves copies of unrestricted templates open", () => {
+      expect(buildDuplicateGrants({ teamId: null }, [], "user-1")).toEqual([]);
+    });
+
+    it("carries grants over and makes the copier an editor", () => {
+      const grants: TemplateAccessGrant[] = [
+        { teamId: "team-sales", userId: null, level: "view" },
+        { teamId: null, userId: "user-1", level: "comment" },
+      ];
+
+      expect(buildDuplicateGrants({ teamId: null }, grants, "user-1")).toEqual([
+        { teamId: "team-sales", userId: null, level: "view" },
+        { teamId: null, userId: "user-1", level: "edit" },
+      ]);
+      // The source's grants aren't modified
+      expect(grants[1]!.level).toBe("comment");
+    });
+
+    it("adds the copier to a team-owned template", () => {
+      expect(buildDuplicateGrants({ teamId: "team-design" }, [], "user-1")).toEqual([
+        { teamId: null, userId: "user-1", level: "edit" },
+      ]);
+    });
+
+    it("keeps a higher grant the copier already has", () => {
+      const grants: TemplateAccessGrant[] = [{ teamId: null, userId: "user-1", level: "publish" }];
+
+      expect(buildDuplicateGrants({ teamId: null }, grants, "user-1")).toEqual(grants);
+    });
+  });
+
+  describe("getTemplatePermission", () => {
+    it("skips the member lookup for unrestricted templates", async () => {
+      const db = {
+        templatePermission: { findMany: vi.fn().mockResolvedValue([]) },
+        member: { findFirst: vi.fn() },
+        teamMember: { findMany: vi.fn() },
+      };
+
+      await expect(
+        getTemplatePermission(db as any, "user-1", { id: "t1", organizationId: "org-1", teamId: null })
+      ).resolves.toBe("publish");
+      expect(db.member.findFirst).not.toHaveBeenCalled();
+    });
+
+    it("resolves team-owned templates from the member's teams", async () => {
+      const db = {
+        templatePermission: { findMany: vi.fn().mockResolvedValue([]) },
+        member: { findFirst: vi.fn().mockResolvedValue({ role: "member" }) },
+        teamMember: { findMany: vi.fn().mockResolvedValue([{ teamId: "team-design" }]) },
+      };
+
+      await expect(
+        getTemplatePermission(db as any, "user-1", { id: "t1", organizationId: "org-1", teamId: "team-design" })
+      ).resolves.toBe("publish");
+      expect(db.teamMember.findMany).toHaveBeenCalledWith({
+        where: { userId: "user-1", team: { organizationId: "org-1" } },
+        select: { teamId: true },
+      });
+    });
+  });
+
+  describe("buildTemplateVisibilityFilter", () => {
+    it("does not filter for admins", () => {
+      expect(buildTemplateVisibilityFilter({ ...member, roles: ["owner"] })).toBeUndefined();
+    });
+
+    it("limits members to open, team and shared templates", () => {
+      expect(buildTemplateVisibilityFilter(member)).toEqual({
+        OR: [
+          { teamId: null, permissions: { none: {} } },
+          { teamId: { in: ["team-design"] } },
+          {
+            permissions: {
+              some: {
+                level: { in: ["view", "comment", "edit", "publish"] },
+                OR: [{ userId: "user-1" }, { teamId: { in: ["team-design"] } }],
+              },
+            },
+          },
+        ],
+      });
+    });
+
+    it("only counts grants at the requested level", () => {
+      const filter = buildTemplateVisibilityFilter(member, "edit");
+
+      expect(filter?.OR?.[2]).toEqual({
+        permissions: {
+          some: {
+            level: { in: ["edit", "publish"] },
+            OR: [{ userId: "user-1" }, { teamId: { in: ["team-design"] } }],
+          },
+        },
+      });
+    });
+  });
+});
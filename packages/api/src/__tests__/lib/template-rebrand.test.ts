@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { rebrandReactEmailCode } from "../../lib/template-rebrand";
+
+describe("rebrandReactEmailCode", () => {
+  const BRANDED = `import { Html, Body, Button, Hr } from "@react-email/components";
+
+const styles = {
+  button: { backgroundColor: "#3B82F6", color: "#ffffff", borderRadius: 8, fontFamily: "'Inter', Arial, sans-serif" },
+};
+
+export default function Email() {
+  return (
+    <Html data-mocah-id="mhtml000">
+      <Body data-mocah-id="mbody000" style={{ backgroundColor: "#fff", fontFamily: "Inter, sans-serif" }}>
+        <Button data-mocah-id="mbutt000" href="https://example.com/#3b82f6" style={styles.button}>Go</Button>
+        <Hr data-mocah-id="mhr00000" style={{ borderTop: "1px solid #3b82f6" }} />
+      </Body>
+    </Html>
+  );
+}`;
+
+  it("replaces colors, fonts and radii in style objects", () => {
+    const result = rebrandReactEmailCode(BRANDED, {}, [
+      { field: "primaryColor", kind: "color", from: "#3b82f6", to: "#FF5500" },
+      { field: "fontFamily", kind: "fontFamily", from: "Inter", to: "Georgia, serif" },
+      { field: "borderRadius", kind: "borderRadius", from: "8px", to: "0px" },
+    ]);
+
+    expect(result.counts).toEqual([2, 2, 1]);
+    expect(result.updatedCode).toContain('backgroundColor: "#FF5500"');
+    expect(result.updatedCode).toContain('borderTop: "1px solid #FF5500"');
+    expect(result.updatedCode).toContain('fontFamily: "Georgia, serif"');
+    expect(result.updatedCode).toContain('borderRadius: "0px"');
+    // Non-style strings are left alone
+    expect(result.updatedCode).toContain('href="https://example.com/#3b82f6"');
+  });
+
+  it("doesn't chain swapped colors", () => {
+    const result = rebrandReactEmailCode(BRANDED, {}, [
+      { field: "backgroundColor", kind: "color", from: "#ffffff", to: "#3b82f6" },
+      { field: "primaryColor", kind: "color", from: "#3b82f6", to: "#ffffff" },
+    ]);
+
+    const flat = result.updatedCode.replace(/\s+/g, " ");
+    expect(flat).toContain('button: { backgroundColor: "#ffffff", color: "#3b82f6"');
+    expect(flat).toContain('style={{ backgroundColor: "#3b82f6", fontFamily');
+  });
+
+  it("rewrites style definitions and leaves unmatched code untouched", () => {
+    const result = rebrandReactEmailCode(
+      BRANDED,
+      { card: { backgroundColor: "#10B981", padding: "24px" } },
+      [{ field: "accentColor", kind: "color", from: "#10b981", to: "#000000" }]
+    );
+
+    expect(result.updatedCode).toBe(BRANDED);
+    expect(result.total).toBe(0);
+    expect(result.changed).toBe(true);
+    expect(result.updatedStyleDefinitions).toEqual({ card: { backgroundColor: "#000000", padding: "24px" } });
+  });
+});
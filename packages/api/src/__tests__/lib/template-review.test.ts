@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { TRPCError } from "@trpc/server";
+import {
+  assertTemplateApproved,
+  assertTemplateEditable,
+  getTemplateLockMessage,
+  resolveReviewOutcome,
+  touchesReviewedContent,
+} from "../../lib/template-review";
+
+describe("template-review", () => {
+  describe("resolveReviewOutcome", () => {
+    it("stays pending until every reviewer approves", () => {
+      expect(resolveReviewOutcome(["approved", "pending"])).toBe("pending");
+      expect(resolveReviewOutcome(["approved", "approved"])).toBe("approved");
+    });
+
+    it("rejects as soon as one reviewer rejects", () => {
+      expect(resolveReviewOutcome(["approved", "rejected", "pending"])).toBe("rejected");
+    });
+
+    it("never approves a review without reviewers", () => {
+      expect(resolveReviewOutcome([])).toBe("pending");
+    });
+  });
+
+  describe("locking", () => {
+    it("locks in-review and approved templates", () => {
+      expect(getTemplateLockMessage("in_review")).toMatch(/in review/);
+      expect(getTemplateLockMessage("approved")).toMatch(/approved and locked/);
+      expect(getTemplateLockMessage("draft")).toBeNull();
+      expect(getTemplateLockMessage("rejected")).toBeNull();
+    });
+
+    it("throws a precondition error for locked templates", () => {
+      expect(() => assertTemplateEditable({ reviewState: "approved" })).toThrow(TRPCError);
+      expect(() => assertTemplateEditable({ reviewState: "rejected" })).not.toThrow();
+    });
+
+    it("only treats content fields as reviewed", () => {
+      expect(touchesReviewedContent({ reactEmailCode: "<Html />" })).toBe(true);
+      expect(touchesReviewedContent({ name: "Renamed", isFavorite: true })).toBe(false);
+      expect(touchesReviewedContent({ subject: undefined })).toBe(false);
+    });
+  });
+
+  describe("assertTemplateApproved", () => {
+    it("blocks anything but approved templates", () => {
+      expect(() => assertTemplateApproved({ reviewState: "in_review" }, "exporting")).toThrow(
+        "This template needs to be approved before exporting"
+      );
+      expect(() => assertTemplateApproved({ reviewState: "approved" }, "exporting")).not.toThrow();
+    });
+  });
+});
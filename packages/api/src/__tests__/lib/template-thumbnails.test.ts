@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../../lib/screenshot", () => ({
+  generateTemplateScreenshot: vi.fn(),
+}));
+
+vi.mock("../../lib/server-renderer", () => ({
+  renderReactEmailServerSide: vi.fn(async (code: string) => `<html>${code}</html>`),
+}));
+
+vi.mock("../../lib/brand-kits", () => ({
+  getTemplateDesignTokens: vi.fn(async () => ({})),
+}));
+
+import { generateTemplateScreenshot } from "../../lib/screenshot";
+import { scheduleTemplateThumbnail } from "../../lib/template-thumbnails";
+
+const generateScreenshot = vi.mocked(generateTemplateScreenshot);
+
+function createDb(reactEmailCode = "<Html />") {
+  return {
+    template: {
+      findUnique: vi.fn(async () => ({
+        organizationId: "org-1",
+        brandKitId: null,
+        reactEmailCode,
+        htmlCode: null,
+        updatedAt: new Date("2026-01-01"),
+        deletedAt: null,
+      })),
+      update: vi.fn(async () => ({})),
+    },
+  } as any;
+}
+
+describe("template-thumbnails", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    generateScreenshot.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("collapses saves within the delay into one capture", async () => {
+    generateScreenshot.mockResolvedValue("https://cdn.example.com/thumb.webp");
+    const db = createDb();
+
+    scheduleTemplateThumbnail(db, "template-debounce");
+    await vi.advanceTimersByTimeAsync(10_000);
+    scheduleTemplateThumbnail(db, "template-debounce");
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(generateScreenshot).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(generateScreenshot).toHaveBeenCalledTimes(1);
+    expect(db.template.update).toHaveBeenCalledWith({
+      where: { id: "template-debounce" },
+      data: expect.objectContaining({
+        thumbnailUrl: "https://cdn.example.com/thumb.webp",
+        updatedAt: new Date("2026-01-01"),
+      }),
+    });
+  });
+
+  it("backs off after a failed capture", async () => {
+    generateScreenshot.mockResolvedValue(null);
+    const db = createDb();
+
+    scheduleTemplateThumbnail(db, "template-failing");
+    await vi.advanceTimersByTimeAsync(15_000);
+    expect(generateScreenshot).toHaveBeenCalledTimes(1);
+    expect(db.template.update).not.toHaveBeenCalled();
+
+    // Saves during the backoff don't queue another capture
+    scheduleTemplateThumbnail(db, "template-failing");
+    await vi.advanceTimersByTimeAsync(15_000);
+    expect(generateScreenshot).toHaveBeenCalledTimes(1);
+
+    // Once it runs out, the next save tries again
+    await vi.advanceTimersByTimeAsync(60_000);
+    generateScreenshot.mockResolvedValue("https://cdn.example.com/thumb.webp");
+    scheduleTemplateThumbnail(db, "template-failing");
+    await vi.advanceTimersByTimeAsync(15_000);
+    expect(generateScreenshot).toHaveBeenCalledTimes(2);
+    expect(db.template.update).toHaveBeenCalledTimes(1);
+  });
+
+  it("backs off when the template doesn't render", async () => {
+    const { renderReactEmailServerSide } = await import("../../lib/server-renderer");
+    vi.mocked(renderReactEmailServerSide).mockRejectedValueOnce(new Error("Syntax error"));
+    const db = createDb();
+
+    scheduleTemplateThumbnail(db, "template-broken");
+    await vi.advanceTimersByTimeAsync(15_000);
+
+    scheduleTemplateThumbnail(db, "template-broken");
+    await vi.advanceTimersByTimeAsync(15_000);
+    expect(db.template.findUnique).toHaveBeenCalledTimes(1);
+    expect(generateScreenshot).not.toHaveBeenCalled();
+  });
+});
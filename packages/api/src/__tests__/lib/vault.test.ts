@@ -0,0 +1,155 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { randomBytes } from "node:crypto";
+import { serverEnv } from "@mocah/config/env";
+import { isSealedSecret, openSecret, rewrapSecret, sealSecret } from "../../lib/vault";
+import {
+  decryptIntegrationCredentials,
+  encryptIntegrationCredentials,
+  rotateIntegrationCredentials,
+} from "../../lib/integrations/credentials";
+import { createMockDb } from "../../test-utils/context";
+
+const env = serverEnv as { VAULT_MASTER_KEY?: string; VAULT_PREVIOUS_MASTER_KEYS?: string };
+const ORIGINAL_KEY = env.VAULT_MASTER_KEY;
+
+function rotateMasterKey() {
+  const previous = env.VAULT_MASTER_KEY!;
+  env.VAULT_MASTER_KEY = randomBytes(32).toString("base64");
+  env.VAULT_PREVIOUS_MASTER_KEYS = previous;
+}
+
+afterEach(() => {
+  env.VAULT_MASTER_KEY = ORIGINAL_KEY;
+  env.VAULT_PREVIOUS_MASTER_KEYS = undefined;
+});
+
+describe("vault", () => {
+  it("round-trips values without storing plaintext", () => {
+    const sealed = sealSecret({ apiKey: "super-secret" }, "integration:1");
+
+    expect(isSealedSecret(sealed)).toBe(true);
+    expect(JSON.stringify(sealed)).not.toContain("super-secret");
+    expect(openSecret(sealed, "integration:1")).toEqual({
+      value: { apiKey: "super-secret" },
+      needsRewrap: false,
+    });
+  });
+
+  it("uses a fresh data key per record", () => {
+    const a = sealSecret({ apiKey: "x" }, "integration:1");
+    const b = sealSecret({ apiKey: "x" }, "integration:1");
+
+    expect(a.key.data).not.toBe(b.key.data);
+    expect(a.data).not.toBe(b.data);
+  });
+
+  it("rejects values opened under a different context", () => {
+    const sealed = sealSecret({ apiKey: "x" }, "integration:1");
+
+    expect(() => openSecret(sealed, "integration:2")).toThrow(/different record/);
+  });
+
+  it("detects tampering", () => {
+    const sealed = sealSecret({ apiKey: "x" }, "integration:1");
+    const tampered = { ...sealed, data: Buffer.from("tampered").toString("base64") };
+
+    expect(() => openSecret(tampered, "integration:1")).toThrow();
+  });
+
+  it("opens values wrapped with a previous key and re-wraps them", () => {
+    const sealed = sealSecret({ apiKey: "x" }, "integration:1");
+    rotateMasterKey();
+
+    expect(openSecret(sealed, "integration:1").needsRewrap).toBe(true);
+
+    const rewrapped = rewrapSecret(sealed);
+    expect(rewrapped.kid).not.toBe(sealed.kid);
+    expect(rewrapped.data).toBe(sealed.data);
+
+    env.VAULT_PREVIOUS_MASTER_KEYS = undefined;
+    expect(openSecret(rewrapped, "integration:1")).toEqual({
+      value: { apiKey: "x" },
+      needsRewrap: false,
+    });
+    expect(() => openSecret(sealed, "integration:1")).toThrow(/No master key/);
+  });
+
+  it("fails clearly when no master key is configured", () => {
+    env.VAULT_MASTER_KEY = undefined;
+
+    expect(() => sealSecret({}, "integration:1")).toThrow("VAULT_MASTER_KEY is not configured");
+  });
+});
+
+describe("integration credentials", () => {
+  it("decrypts and validates sealed credentials", async () => {
+    const db = createMockDb();
+    const credentials = encryptIntegrationCredentials("int_1", { apiKey: "SG.key" });
+
+    const result = await decryptIntegrationCredentials(db as any, {
+      id: "int_1",
+      type: "sendgrid",
+      credentials,
+    });
+
+    expect(result).toEqual({ type: "sendgrid", credentials: { apiKey: "SG.key" } });
+    expect(db.integration.update).not.toHaveBeenCalled();
+  });
+
+  it("seals legacy plaintext credentials on read", async () => {
+    const db = createMockDb();
+    db.integration.update.mockResolvedValue({} as any);
+
+    await decryptIntegrationCredentials(db as any, {
+      id: "int_1",
+      type: "klaviyo",
+      credentials: { apiKey: "pk_live" },
+    });
+
+    const stored = db.integration.update.mock.calls[0]![0].data.credentials;
+    expect(isSealedSecret(stored)).toBe(true);
+    expect(JSON.stringify(stored)).not.toContain("pk_live");
+  });
+
+  it("re-wraps credentials sealed with a previous key", async () => {
+    const db = createMockDb();
+    db.integration.update.mockResolvedValue({} as any);
+    const credentials = encryptIntegrationCredentials("int_1", { apiKey: "SG.key" });
+    rotateMasterKey();
+
+    await decryptIntegrationCredentials(db as any, { id: "int_1", type: "sendgrid", credentials });
+
+    const stored = db.integration.update.mock.calls[0]![0].data.credentials as { kid: string };
+    expect(stored.kid).not.toBe(credentials.kid);
+  });
+
+  it("reports missing vault keys as a precondition failure", async () => {
+    const db = createMockDb();
+    const credentials = encryptIntegrationCredentials("int_1", { apiKey: "SG.key" });
+    env.VAULT_MASTER_KEY = randomBytes(32).toString("base64");
+
+    await expect(
+      decryptIntegrationCredentials(db as any, { id: "int_1", type: "sendgrid", credentials })
+    ).rejects.toMatchObject({ code: "PRECONDITION_FAILED", message: /vault keys/ });
+  });
+
+  it("rotates only credentials sealed with an older key", async () => {
+    const db = createMockDb();
+    const stale = encryptIntegrationCredentials("int_1", { apiKey: "SG.key" });
+    rotateMasterKey();
+    const current = encryptIntegrationCredentials("int_2", { apiKey: "SG.other" });
+    db.integration.findMany.mockResolvedValue([
+      { id: "int_1", credentials: stale },
+      { id: "int_2", credentials: current },
+    ] as any);
+    db.integration.update.mockResolvedValue({} as any);
+
+    await expect(rotateIntegrationCredentials(db as any)).resolves.toEqual({
+      rotated: 1,
+      skipped: 1,
+      failed: 0,
+    });
+    expect(db.integration.update).toHaveBeenCalledTimes(1);
+    expect(db.integration.update.mock.calls[0]![0].where).toEqual({ id: "int_1" });
+  });
+});
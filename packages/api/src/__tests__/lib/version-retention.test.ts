@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import { applyTextDelta, createTextDelta } from "../../lib/text-delta";
+import {
+  applyCompactedDelta,
+  createCompactedDelta,
+  planVersionRetention,
+  type RetentionCandidate,
+} from "../../lib/version-retention";
+
+function makeVersions(count: number, overrides: Record<number, Partial<RetentionCandidate>> = {}) {
+  // v1 is the root; every later snapshot chains from the previous one
+  return Array.from({ length: count }, (_, index): RetentionCandidate => {
+    const version = index + 1;
+    return {
+      id: `v${version}`,
+      version,
+      isPinned: false,
+      parentVersionId: version > 1 ? `v${version - 1}` : null,
+      isCompacted: false,
+      ...overrides[version],
+    };
+  });
+}
+
+const CODE = Array.from({ length: 40 }, (_, i) => `  <Text>Line ${i}</Text>`).join("\n");
+
+describe("text-delta", () => {
+  it("round-trips edits, insertions and deletions", () => {
+    const target = CODE.replace("Line 3<", "Line three<")
+      .replace("  <Text>Line 10</Text>\n", "")
+      .concat("\n  <Button>New</Button>");
+
+    expect(applyTextDelta(CODE, createTextDelta(CODE, target))).toBe(target);
+  });
+
+  it("handles empty bases and targets", () => {
+    expect(applyTextDelta("", createTextDelta("", CODE))).toBe(CODE);
+    expect(applyTextDelta(CODE, createTextDelta(CODE, ""))).toBe("");
+  });
+
+  it("rejects a delta applied to the wrong base", () => {
+    const delta = createTextDelta(CODE, CODE.replace("Line 1<", "Line one<"));
+
+    expect(() => applyTextDelta("short", delta)).toThrow(/does not match base/);
+  });
+
+  it("replaces edits too large to diff", () => {
+    const base = Array.from({ length: 1500 }, (_, i) => `a${i}`).join("\n");
+    const target = Array.from({ length: 1500 }, (_, i) => `b${i}`).join("\n");
+    const delta = createTextDelta(base, target);
+
+    expect(delta.ops).toEqual([["-", 1500], ["+", target.split("\n")]]);
+    expect(applyTextDelta(base, delta)).toBe(target);
+  });
+});
+
+describe("version-retention", () => {
+  describe("planVersionRetention", () => {
+    it("prunes the oldest unpinned versions beyond the limit", () => {
+      const plan = planVersionRetention(makeVersions(6), { maxVersions: 3, compactAfter: null });
+
+      expect(plan.deleteIds.sort()).toEqual(["v1", "v2", "v3"]);
+      expect(plan.compactIds).toEqual([]);
+    });
+
+    it("never prunes pinned, current or protected versions", () => {
+      const plan = planVersionRetention(
+        makeVersions(6, { 1: { isPinned: true } }),
+        { maxVersions: 2, compactAfter: null },
+        { currentVersionId: "v2", protectedVersionIds: ["v3"] }
+      );
+
+      expect(plan.deleteIds).toEqual(["v4"]);
+    });
+
+    it("keeps the parents that retained compacted versions depend on", () => {
+      const plan = planVersionRetention(
+        makeVersions(5, { 4: { isCompacted: true }, 3: { isCompacted: true } }),
+        { maxVersions: 2, compactAfter: null }
+      );
+
+      // v4 -> v3 -> v2 chain must stay resolvable
+      expect(plan.deleteIds).toEqual(["v1"]);
+    });
+
+    it("compacts retained versions older than compactAfter", () => {
+      const plan = planVersionRetention(
+        makeVersions(6, { 2: { isPinned: true }, 3: { isCompacted: true } }),
+        { maxVersions: 10, compactAfter: 2 }
+      );
+
+      // v6, v5 stay full; v3 is already compacted; v2 is pinned; v1 has no parent
+      expect(plan.compactIds).toEqual(["v4"]);
+      expect(plan.deleteIds).toEqual([]);
+    });
+  });
+
+  describe("compacted deltas", () => {
+    const base = { reactEmailCode: CODE, htmlCode: `<html>${CODE}</html>`, tableHtmlCode: null };
+
+    it("rebuilds the original content from the parent", () => {
+      const target = {
+        reactEmailCode: CODE.replace("Line 5<", "Line five<"),
+        htmlCode: `<html>${CODE.replace("Line 5<", "Line five<")}</html>`,
+        tableHtmlCode: null,
+      };
+
+      const delta = createCompactedDelta(base, target);
+
+      expect(delta).not.toBeNull();
+      expect(applyCompactedDelta(base, delta!)).toEqual(target);
+    });
+
+    it("skips compaction when the delta is not smaller than the content", () => {
+      const target = { reactEmailCode: "completely different", htmlCode: null, tableHtmlCode: null };
+
+      expect(createCompactedDelta(base, target)).toBeNull();
+    });
+  });
+});
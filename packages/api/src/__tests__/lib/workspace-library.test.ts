@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyBrandKit,
+  detectTemplatePalette,
+  mergeStyleDefinitions,
+  mergeTemplateCode,
+} from "../../lib/workspace-library";
+
+const LIBRARY_CODE = `
+import { Html, Body, Img, Text, Button } from "@react-email/components";
+
+const heading = { color: "#1D4ED8", fontFamily: "Helvetica, sans-serif" };
+const button = { backgroundColor: "#1d4ed8", color: "#ffffff" };
+const badge = { backgroundColor: "#F97316" };
+
+export default function Email() {
+  return (
+    <Html>
+      <Body style={{ backgroundColor: "#f4f4f5", fontFamily: 'Georgia, serif' }}>
+        <Img src="https://cdn.example.com/acme-logo.png" alt="Acme" width="120" />
+        <Img src="https://cdn.example.com/hero.png" alt="Hero" />
+        <Text style={heading}>Welcome</Text>
+        <Button style={button}>Get started</Button>
+      </Body>
+    </Html>
+  );
+}`;
+
+const BRAND_KIT = {
+  primaryColor: "#10B981",
+  accentColor: "#8B5CF6",
+  fontFamily: "Verdana, sans-serif",
+  logo: "https://cdn.example.com/brand/logo.png",
+};
+
+describe("workspace-library", () => {
+  describe("detectTemplatePalette", () => {
+    it("ranks brand colors by use and skips neutrals", () => {
+      expect(detectTemplatePalette({ reactEmailCode: LIBRARY_CODE, styleDefinitions: null })).toEqual([
+        "#1d4ed8",
+        "#f97316",
+      ]);
+    });
+  });
+
+  describe("applyBrandKit", () => {
+    it("swaps colors, fonts and the logo", () => {
+      const branded = applyBrandKit(
+        {
+          reactEmailCode: LIBRARY_CODE,
+          styleDefinitions: { heading: { color: "#1D4ED8", fontFamily: "Helvetica, sans-serif" } },
+        },
+        BRAND_KIT
+      );
+
+      expect(branded.applied).toEqual(["primaryColor", "accentColor", "fontFamily", "logo"]);
+      expect(branded.reactEmailCode).not.toMatch(/#1d4ed8/i);
+      expect(branded.reactEmailCode).toContain('backgroundColor: "#10B981"');
+      expect(branded.reactEmailCode).toContain('backgroundColor: "#8B5CF6"');
+      expect(branded.reactEmailCode).toContain('backgroundColor: "#f4f4f5"');
+      expect(branded.reactEmailCode).not.toMatch(/Georgia|Helvetica/);
+      expect(branded.reactEmailCode).toContain('src="https://cdn.example.com/brand/logo.png" alt="Acme"');
+      expect(branded.reactEmailCode).toContain('src="https://cdn.example.com/hero.png"');
+      expect(branded.styleDefinitions).toEqual({
+        heading: { color: "#10B981", fontFamily: "Verdana, sans-serif" },
+      });
+    });
+
+    it("leaves the template untouched without a brand kit", () => {
+      const branded = applyBrandKit({ reactEmailCode: LIBRARY_CODE, styleDefinitions: null }, null);
+
+      expect(branded.reactEmailCode).toBe(LIBRARY_CODE);
+      expect(branded.applied).toEqual([]);
+    });
+  });
+
+  describe("mergeTemplateCode", () => {
+    const base = ["a", "b", "c", "d", "e"].join("\n");
+
+    it("combines local and upstream edits to different lines", () => {
+      const ours = ["a", "B (local)", "c", "d", "e"].join("\n");
+      const theirs = ["a", "b", "c", "d", "E (library)", "f"].join("\n");
+
+      expect(mergeTemplateCode(base, ours, theirs)).toEqual({
+        merged: ["a", "B (local)", "c", "d", "E (library)", "f"].join("\n"),
+        conflicts: 0,
+      });
+    });
+
+    it("keeps the local lines when both sides change the same lines", () => {
+      const ours = ["a", "b", "C (local)", "d", "e"].join("\n");
+      const theirs = ["a", "b", "C (library)", "d", "e"].join("\n");
+
+      expect(mergeTemplateCode(base, ours, theirs)).toEqual({ merged: ours, conflicts: 1 });
+    });
+
+    it("takes upstream as-is when there are no local edits", () => {
+      const theirs = ["x", "y"].join("\n");
+
+      expect(mergeTemplateCode(base, base, theirs)).toEqual({ merged: theirs, conflicts: 0 });
+    });
+
+    it("does not count identical edits on both sides as a conflict", () => {
+      const edited = ["a", "b", "c", "D", "e"].join("\n");
+
+      expect(mergeTemplateCode(base, edited, edited)).toEqual({ merged: edited, conflicts: 0 });
+    });
+  });
+
+  describe("mergeStyleDefinitions", () => {
+    it("merges per property and keeps local values on conflict", () => {
+      const base = { button: { color: "#fff", padding: "8px" }, old: { margin: 0 } };
+      const ours = { button: { color: "#000", padding: "8px" }, old: { margin: 0 } };
+      const theirs = {
+        button: { color: "#eee", padding: "12px" },
+        card: { borderRadius: "8px" },
+      };
+
+      expect(mergeStyleDefinitions(base, ours, theirs)).toEqual({
+        merged: {
+          button: { color: "#000", padding: "12px" },
+          card: { borderRadius: "8px" },
+        },
+        conflicts: 1,
+      });
+    });
+  });
+});
@@ -94,6 +94,7 @@ vi.mock("@mocah/config/env", () => ({
     GOOGLE_CLIENT_SECRET: "test-google-client-secret",
     RESEND_API_KEY: "test-resend-api-key",
     FAL_API_KEY: "test-fal-api-key",
+    VAULT_MASTER_KEY: "dGVzdC12YXVsdC1tYXN0ZXIta2V5LTMyLWJ5dGVzISE=",
     NODE_ENV: "test",
   },
 }));
@@ -5,12 +5,22 @@ import { z } from "zod";
 import { logger } from "@mocah/shared/logger";
 import { serverEnv } from "@mocah/config/env";
 import { repairJsonOutput } from "./json-repair";
+import {
+  extractOpenRouterUsage,
+  startGeneration,
+  type GenerationAuditContext,
+  type GenerationRecorder,
+} from "./generation-history";
 
 // Initialize OpenRouter provider
 const openrouter = createOpenRouter({
   apiKey: serverEnv.OPENROUTER_API_KEY,
 });
 
+// Usage accounting makes OpenRouter report the billed cost of each call
+const openrouterModel = (modelName: string) =>
+  openrouter(modelName, { usage: { include: true } });
+
 // Default model from environment or fallback
 export const DEFAULT_MODEL =
   serverEnv.OPENROUTER_DEFAULT_MODEL || "anthropic/claude-3.5-sonnet";
@@ -35,6 +45,36 @@ export interface StructuredGenerationOptions {
   onError?: (error: unknown) => void;
   /** Image URLs for multi-modal input */
   imageUrls?: string[];
+  /** Workspace and user the call is billed to - recorded in GenerationHistory */
+  audit?: GenerationAuditContext;
+}
+
+/**
+ * Start an audit record for a structured call
+ * Calls without an audit context can't be attributed to a workspace.
+ */
+function startAudit(
+  action: string,
+  modelName: string,
+  prompt: string,
+  options?: StructuredGenerationOptions
+): GenerationRecorder | null {
+  if (!options?.audit) {
+    logger.warn("AI call without audit context, not recorded", {
+      component: "ai",
+      action,
+      model: modelName,
+    });
+    return null;
+  }
+
+  return startGeneration({
+    ...options.audit,
+    provider: "openrouter",
+    modelId: modelName,
+    prompt,
+    metadata: options.imageUrls?.length ? { imageUrls: options.imageUrls } : undefined,
+  });
 }
 
 
@@ -57,9 +97,11 @@ export const aiClient = {
     options?: StructuredGenerationOptions
   ): Promise<z.infer<T>> {
     const modelName = model || DEFAULT_MODEL;
+    const audit = startAudit("generateStructured", modelName, prompt, options);
     try {
-      const { object } = await generateObject({
-        model: openrouter(modelName),
+      audit?.processing();
+      const { object, usage, providerMetadata } = await generateObject({
+        model: openrouterModel(modelName),
         schema,
         prompt,
         // Reliability options
@@ -76,8 +118,14 @@ export const aiClient = {
         model: modelName,
       });
 
+      audit?.completed({
+        result: JSON.stringify(object),
+        usage: extractOpenRouterUsage(usage, providerMetadata),
+      });
+
       return object as z.infer<T>;
     } catch (error) {
+      audit?.failed(error);
       logger.error("AI generation error", {
         component: "ai",
         action: "generateStructured",
@@ -96,7 +144,7 @@ export const aiClient = {
     const modelName = model || DEFAULT_MODEL;
     try {
       const { text } = await generateText({
-        model: openrouter(modelName),
+        model: openrouterModel(modelName),
         prompt,
       });
 
@@ -134,6 +182,8 @@ export const aiClient = {
   ): ReturnType<typeof streamObject<T>> {
     const modelName = model || DEFAULT_MODEL;
     const hasImages = options?.imageUrls && options.imageUrls.length > 0;
+    const audit = startAudit("streamStructured", modelName, prompt, options);
+    audit?.processing();
 
     logger.info("AI stream request initiated", {
       component: "ai",
@@ -158,7 +208,7 @@ export const aiClient = {
       }
 
       return streamObject({
-        model: openrouter(modelName),
+        model: openrouterModel(modelName),
         schema,
         messages: [
           {
@@ -180,10 +230,12 @@ export const aiClient = {
             model: modelName,
             error: event.error,
           });
+          audit?.failed(event.error);
           options?.onError?.(event.error);
         },
-        onFinish: ({ usage, object, error }) => {
+        onFinish: ({ usage, object, error, providerMetadata }) => {
           if (error) {
+            audit?.failed(error);
             logger.error("AI stream finished with error", {
               component: "ai",
               action: "streamStructured",
@@ -198,6 +250,10 @@ export const aiClient = {
               tokensUsed: usage.totalTokens,
               hasValidObject: !!object,
             });
+            audit?.completed({
+              result: object ? JSON.stringify(object) : undefined,
+              usage: extractOpenRouterUsage(usage, providerMetadata),
+            });
           }
         },
       });
@@ -205,7 +261,7 @@ export const aiClient = {
 
     // Standard text-only prompt
     return streamObject({
-      model: openrouter(modelName),
+      model: openrouterModel(modelName),
       schema,
       prompt,
       // Reliability options
@@ -222,10 +278,12 @@ export const aiClient = {
           model: modelName,
           error: event.error,
         });
+        audit?.failed(event.error);
         options?.onError?.(event.error);
       },
-      onFinish: ({ usage, object, error }) => {
+      onFinish: ({ usage, object, error, providerMetadata }) => {
         if (error) {
+          audit?.failed(error);
           logger.error("AI stream finished with error", {
             component: "ai",
             action: "streamStructured",
@@ -240,6 +298,10 @@ export const aiClient = {
             tokensUsed: usage.totalTokens,
             hasValidObject: !!object,
           });
+          audit?.completed({
+            result: object ? JSON.stringify(object) : undefined,
+            usage: extractOpenRouterUsage(usage, providerMetadata),
+          });
         }
       },
     });
@@ -260,7 +322,7 @@ export const aiClient = {
       });
 
       return streamText({
-        model: openrouter(modelName),
+        model: openrouterModel(modelName),
         prompt,
         onFinish: ({ usage }) => {
           logger.info("AI text stream completed", {
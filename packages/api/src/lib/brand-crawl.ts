@@ -0,0 +1,432 @@
+/**
+ * Multi-page Brand Crawl
+ *
+ * Scrapes a website's home page plus its about, product and pricing pages,
+ * then merges the per-page results field by field. Every merged value keeps
+ * a confidence score and the page it came from, so the brand kit builder can
+ * show a review diff and let users accept or reject each field before saving.
+ */
+
+import { logger } from "@mocah/shared";
+import type { FirecrawlScrapeResponse } from "./firecrawl";
+import { filterInternalLinks, normalizeUrl, scrapeBrand } from "./firecrawl";
+import { mapFirecrawlToBrandKit, type MappedBrandKit } from "./brand-mapper";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Scrapes a single page
+ * Resolves with a successful response or throws; scrapeBrand is the default.
+ */
+export type ScrapeProvider = (url: string) => Promise<FirecrawlScrapeResponse>;
+
+export type CrawlPageKind = "home" | "about" | "product" | "pricing";
+
+/** Brand kit fields a crawl can propose */
+export type CrawlField = Exclude<keyof MappedBrandKit, "scrapeConfidence">;
+
+export interface CrawlPageSource {
+  url: string;
+  kind: CrawlPageKind;
+}
+
+export interface CrawledPage extends CrawlPageSource {
+  status: "ok" | "failed";
+  /** Firecrawl's overall confidence for the page */
+  confidence: number | null;
+  error?: string;
+}
+
+/** A merged field value with its confidence and provenance */
+export interface CrawledField {
+  field: CrawlField;
+  value: unknown;
+  /** 0–1, from page confidence, page relevance and agreement between pages */
+  confidence: number;
+  /** The page the value was taken from */
+  source: CrawlPageSource;
+  /** Number of pages that found this exact value */
+  agreement: number;
+}
+
+export interface BrandCrawlResult {
+  pages: CrawledPage[];
+  fields: CrawledField[];
+  /** Merged values in the single-page mapper's shape */
+  data: MappedBrandKit;
+}
+
+/** A crawled field next to the kit's current value */
+export interface BrandCrawlReviewItem extends CrawledField {
+  current: unknown;
+  changed: boolean;
+  /** Whether the review should accept this field unless the user opts out */
+  recommended: boolean;
+}
+
+export interface CrawlBrandOptions {
+  provider?: ScrapeProvider;
+  /** Pages to scrape including the home page (default 4) */
+  maxPages?: number;
+}
+
+/** A successfully scraped page, ready to merge */
+export interface ScrapedCrawlPage extends CrawlPageSource {
+  confidence: number | null;
+  data: FirecrawlScrapeResponse["data"];
+  mapped: MappedBrandKit;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_MAX_PAGES = 4;
+
+/** Internal links considered when picking pages to crawl */
+const LINK_CANDIDATE_LIMIT = 50;
+
+/** Page confidence when Firecrawl doesn't report one */
+const DEFAULT_PAGE_CONFIDENCE = 0.6;
+
+/** Confidence of values the mapper fills in when a page has nothing */
+const DEFAULTED_CONFIDENCE = 0.2;
+
+/** Confidence added per other page agreeing, removed per page disagreeing */
+const AGREEMENT_STEP = 0.1;
+
+/** Minimum confidence for a changed field to be accepted by default */
+export const REVIEW_ACCEPT_THRESHOLD = 0.5;
+
+/** First path segments that identify each secondary page */
+const PAGE_PATTERNS: Array<[Exclude<CrawlPageKind, "home">, RegExp]> = [
+  ["about", /^(about|about-us|company|our-story|who-we-are)$/i],
+  ["product", /^(products?|features|solutions|platform|services|shop)$/i],
+  ["pricing", /^(pricing|plans)$/i],
+];
+
+const CRAWL_FIELDS: CrawlField[] = [
+  "primaryColor",
+  "accentColor",
+  "backgroundColor",
+  "textPrimaryColor",
+  "fontFamily",
+  "borderRadius",
+  "logo",
+  "favicon",
+  "ogImage",
+  "brandVoice",
+  "brandTone",
+  "brandEnergy",
+  "companyName",
+  "companyDescription",
+  "tagline",
+  "industry",
+  "productsServices",
+  "targetAudience",
+  "brandValues",
+  "socialLinks",
+  "contactEmail",
+  "foundingYear",
+  "websiteUrl",
+  "summary",
+  "links",
+];
+
+type PageWeights = Partial<Record<CrawlPageKind, number>>;
+
+// How much each page is trusted for a field; pages without a weight are ignored
+const HOME_ONLY: PageWeights = { home: 1 };
+const VISUAL: PageWeights = { home: 1, about: 0.7, product: 0.7, pricing: 0.7 };
+const VOICE: PageWeights = { home: 1, about: 0.9, product: 0.8, pricing: 0.7 };
+const COMPANY: PageWeights = { about: 1, home: 0.8, product: 0.6, pricing: 0.5 };
+const OFFERING: PageWeights = { product: 1, pricing: 0.9, home: 0.7, about: 0.6 };
+const CONTACT: PageWeights = { about: 1, home: 0.9, product: 0.7, pricing: 0.7 };
+
+const FIELD_WEIGHTS: Record<CrawlField, PageWeights> = {
+  primaryColor: VISUAL,
+  accentColor: VISUAL,
+  backgroundColor: VISUAL,
+  textPrimaryColor: VISUAL,
+  fontFamily: VISUAL,
+  borderRadius: VISUAL,
+  logo: VISUAL,
+  favicon: VISUAL,
+  ogImage: HOME_ONLY,
+  brandVoice: VOICE,
+  brandTone: VOICE,
+  brandEnergy: VOICE,
+  companyName: { home: 1, about: 0.9, product: 0.6, pricing: 0.6 },
+  companyDescription: COMPANY,
+  tagline: { home: 1, about: 0.8, product: 0.6, pricing: 0.5 },
+  industry: COMPANY,
+  productsServices: OFFERING,
+  targetAudience: { product: 1, home: 0.9, pricing: 0.9, about: 0.8 },
+  brandValues: COMPANY,
+  socialLinks: CONTACT,
+  contactEmail: CONTACT,
+  foundingYear: COMPANY,
+  websiteUrl: HOME_ONLY,
+  summary: HOME_ONLY,
+  links: HOME_ONLY,
+};
+
+// ============================================================================
+// Page Selection
+// ============================================================================
+
+/**
+ * Pick one about, product and pricing page from the home page's links
+ * The shallowest matching path wins for each kind.
+ */
+export function selectCrawlPages(homeUrl: string, links: string[] | undefined | null): CrawlPageSource[] {
+  const home = stripUrl(normalizeUrl(homeUrl));
+  const best = new Map<CrawlPageKind, { url: string; depth: number }>();
+
+  for (const link of filterInternalLinks(links, homeUrl, LINK_CANDIDATE_LIMIT)) {
+    let url: URL;
+    try {
+      url = new URL(normalizeUrl(link));
+    } catch {
+      continue;
+    }
+
+    const stripped = stripUrl(url.href);
+    if (stripped === home) continue;
+
+    const segments = url.pathname.split("/").filter(Boolean);
+    const kind = PAGE_PATTERNS.find(([, pattern]) => pattern.test(segments[0] ?? ""))?.[0];
+    if (!kind) continue;
+
+    const current = best.get(kind);
+    if (!current || segments.length < current.depth) {
+      best.set(kind, { url: stripped, depth: segments.length });
+    }
+  }
+
+  return PAGE_PATTERNS.flatMap(([kind]) => {
+    const page = best.get(kind);
+    return page ? [{ url: page.url, kind }] : [];
+  });
+}
+
+// ============================================================================
+// Crawling
+// ============================================================================
+
+/**
+ * Scrape the home page and its key secondary pages, then merge the results
+ * Only a home page failure is fatal; failed secondary pages are reported in
+ * `pages` and left out of the merge.
+ */
+export async function crawlBrand(url: string, options: CrawlBrandOptions = {}): Promise<BrandCrawlResult> {
+  const provider = options.provider ?? scrapeBrand;
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+  const homeUrl = normalizeUrl(url);
+
+  const home = await provider(homeUrl);
+  const scraped: ScrapedCrawlPage[] = [toScrapedCrawlPage({ url: homeUrl, kind: "home" }, home)];
+  const pages: CrawledPage[] = [{ url: homeUrl, kind: "home", status: "ok", confidence: scraped[0]!.confidence }];
+
+  const secondary = selectCrawlPages(home.data.metadata?.sourceURL || homeUrl, home.data.links).slice(
+    0,
+    Math.max(0, maxPages - 1)
+  );
+  const results = await Promise.allSettled(secondary.map((page) => provider(page.url)));
+
+  results.forEach((result, index) => {
+    const page = secondary[index]!;
+    if (result.status === "fulfilled") {
+      const scrapedPage = toScrapedCrawlPage(page, result.value);
+      scraped.push(scrapedPage);
+      pages.push({ ...page, status: "ok", confidence: scrapedPage.confidence });
+    } else {
+      const error = result.reason instanceof Error ? result.reason.message : "Failed to scrape page";
+      logger.warn("⚠️ [BrandCrawl] Page scrape failed:", { url: page.url, kind: page.kind, error });
+      pages.push({ ...page, status: "failed", confidence: null, error });
+    }
+  });
+
+  const merged = mergeBrandCrawl(scraped);
+
+  logger.info("🕷️ [BrandCrawl] Crawl complete:", {
+    url: homeUrl,
+    pages: pages.map((page) => `${page.kind}:${page.status}`),
+    fields: merged.fields.length,
+  });
+
+  return { pages, ...merged };
+}
+
+function toScrapedCrawlPage(source: CrawlPageSource, response: FirecrawlScrapeResponse): ScrapedCrawlPage {
+  return {
+    ...source,
+    confidence: response.data.branding?.confidence?.overall ?? null,
+    data: response.data,
+    mapped: mapFirecrawlToBrandKit(response.data),
+  };
+}
+
+// ============================================================================
+// Merging
+// ============================================================================
+
+/**
+ * Merge per-page results into one value per field
+ *
+ * Each page's value is scored by the page's confidence times how relevant the
+ * page is for the field (the about page for the description, product pages for
+ * products, and so on). The value with the highest total score wins. Its
+ * confidence is its best single-page score, raised for every other page that
+ * found the same value and lowered for every page that found a different one.
+ * Values the mapper fills in by default only win when no page found anything.
+ */
+export function mergeBrandCrawl(pages: ScrapedCrawlPage[]): Omit<BrandCrawlResult, "pages"> {
+  const fields: CrawledField[] = [];
+
+  for (const field of CRAWL_FIELDS) {
+    const merged = mergeField(field, pages);
+    if (merged) fields.push(merged);
+  }
+
+  const data: Record<string, unknown> = {};
+  for (const field of CRAWL_FIELDS) {
+    data[field] = fields.find((merged) => merged.field === field)?.value ?? null;
+  }
+  data.scrapeConfidence =
+    fields.length > 0
+      ? roundConfidence(fields.reduce((sum, merged) => sum + merged.confidence, 0) / fields.length)
+      : null;
+
+  return { fields, data: data as unknown as MappedBrandKit };
+}
+
+function mergeField(field: CrawlField, pages: ScrapedCrawlPage[]): CrawledField | null {
+  const weights = FIELD_WEIGHTS[field];
+  const candidates = new Map<string, { value: unknown; score: number; best: number; source: CrawlPageSource; pages: number }>();
+  let fallback: { value: unknown; source: CrawlPageSource } | null = null;
+
+  for (const page of pages) {
+    const weight = weights[page.kind];
+    if (!weight) continue;
+
+    const value = page.mapped[field];
+    if (isEmptyValue(value)) continue;
+
+    if (!hasEvidence(field, page.data)) {
+      fallback ??= { value, source: { url: page.url, kind: page.kind } };
+      continue;
+    }
+
+    const score = (page.confidence ?? DEFAULT_PAGE_CONFIDENCE) * weight;
+    const key = valueKey(value);
+    const candidate = candidates.get(key);
+    if (candidate) {
+      candidate.score += score;
+      candidate.pages += 1;
+      if (score > candidate.best) {
+        candidate.best = score;
+        candidate.source = { url: page.url, kind: page.kind };
+      }
+    } else {
+      candidates.set(key, { value, score, best: score, source: { url: page.url, kind: page.kind }, pages: 1 });
+    }
+  }
+
+  if (candidates.size === 0) {
+    return fallback
+      ? { field, value: fallback.value, confidence: DEFAULTED_CONFIDENCE, source: fallback.source, agreement: 0 }
+      : null;
+  }
+
+  const ranked = [...candidates.values()].sort((a, b) => b.score - a.score);
+  const winner = ranked[0]!;
+  const disagreeing = ranked.slice(1).reduce((sum, candidate) => sum + candidate.pages, 0);
+  const confidence = winner.best + AGREEMENT_STEP * (winner.pages - 1) - AGREEMENT_STEP * disagreeing;
+
+  return {
+    field,
+    value: winner.value,
+    confidence: roundConfidence(Math.min(1, Math.max(0, confidence))),
+    source: winner.source,
+    agreement: winner.pages,
+  };
+}
+
+/**
+ * Whether the page actually carried a value for a field the mapper defaults
+ */
+function hasEvidence(field: CrawlField, data: FirecrawlScrapeResponse["data"]): boolean {
+  switch (field) {
+    // The mapper always fills these in
+    case "backgroundColor":
+    case "textPrimaryColor":
+      return false;
+    case "fontFamily":
+      return !!data.branding?.typography?.fontFamilies?.primary;
+    case "brandVoice":
+      return !!data.branding?.personality?.tone;
+    default:
+      return true;
+  }
+}
+
+// ============================================================================
+// Review
+// ============================================================================
+
+/**
+ * Compare crawled fields with a brand kit's current values
+ * Changed fields at or above REVIEW_ACCEPT_THRESHOLD are recommended.
+ */
+export function buildBrandCrawlReview(
+  current: Partial<Record<CrawlField, unknown>> | null,
+  fields: CrawledField[]
+): BrandCrawlReviewItem[] {
+  return fields.map((crawled) => {
+    const currentValue = current?.[crawled.field] ?? null;
+    const changed = isEmptyValue(currentValue) || valueKey(currentValue) !== valueKey(crawled.value);
+
+    return {
+      ...crawled,
+      current: currentValue,
+      changed,
+      recommended: changed && crawled.confidence >= REVIEW_ACCEPT_THRESHOLD,
+    };
+  });
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isEmptyValue(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === "string") return value.trim() === "";
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === "object") return Object.keys(value).length === 0;
+  return false;
+}
+
+/** Comparison key; strings compare case-insensitively */
+function valueKey(value: unknown): string {
+  return typeof value === "string" ? value.trim().toLowerCase() : JSON.stringify(value);
+}
+
+/** URL without hash, query or trailing slash */
+function stripUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    parsed.search = "";
+    return parsed.href.replace(/\/+$/, "");
+  } catch {
+    return url;
+  }
+}
+
+function roundConfidence(value: number): number {
+  return Math.round(value * 100) / 100;
+}
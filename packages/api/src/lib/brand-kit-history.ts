@@ -0,0 +1,213 @@
+/**
+ * Brand kit history
+ * Every change to a brand kit is stored as a BrandKitRevision holding the
+ * versioned fields after the change and the diff against the kit before it.
+ * Color, font and radius changes in a revision can be replayed onto
+ * templates that still carry the old values (see rebrandReactEmailCode in
+ * the web app's code-updater).
+ */
+
+import type { BrandKit, BrandKitRevision, Prisma, PrismaClient } from "@mocah/db";
+import { logger } from "@mocah/shared";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type BrandKitRevisionDb = Pick<PrismaClient, "brandKitRevision">;
+
+export type BrandKitRevisionSource = "create" | "update" | "scrape";
+
+export interface BrandKitRevisionOptions {
+  source: BrandKitRevisionSource;
+  userId?: string;
+}
+
+/** Brand kit fields kept in revisions */
+export const VERSIONED_BRAND_KIT_FIELDS = [
+  "name",
+  "primaryColor",
+  "accentColor",
+  "backgroundColor",
+  "textPrimaryColor",
+  "fontFamily",
+  "webFonts",
+  "borderRadius",
+  "brandVoice",
+  "brandTone",
+  "brandEnergy",
+  "targetAudience",
+  "logo",
+  "favicon",
+  "customCss",
+  "websiteUrl",
+  "companyName",
+  "companyDescription",
+  "tagline",
+  "industry",
+  "productsServices",
+  "brandValues",
+  "socialLinks",
+  "contactEmail",
+  "foundingYear",
+  "ogImage",
+  "summary",
+  "links",
+] as const satisfies ReadonlyArray<keyof BrandKit>;
+
+export type VersionedBrandKitField = (typeof VERSIONED_BRAND_KIT_FIELDS)[number];
+
+export type BrandKitSnapshot = Partial<Record<VersionedBrandKitField, unknown>>;
+
+export interface BrandKitChange {
+  field: VersionedBrandKitField;
+  from: unknown;
+  to: unknown;
+}
+
+export type StyleReplacementKind = "color" | "fontFamily" | "borderRadius";
+
+/** An old style value templates may still carry, and what it became */
+export interface StyleReplacement {
+  field: VersionedBrandKitField;
+  kind: StyleReplacementKind;
+  from: string;
+  to: string;
+}
+
+/** Brand kit fields whose values are written into template styles */
+export const REBRANDABLE_FIELDS: Partial<Record<VersionedBrandKitField, StyleReplacementKind>> = {
+  primaryColor: "color",
+  accentColor: "color",
+  backgroundColor: "color",
+  textPrimaryColor: "color",
+  fontFamily: "fontFamily",
+  borderRadius: "borderRadius",
+};
+
+// ============================================================================
+// Diffing
+// ============================================================================
+
+/**
+ * The versioned fields of a brand kit
+ */
+export function pickBrandKitSnapshot(brandKit: Partial<Record<VersionedBrandKitField, unknown>>): BrandKitSnapshot {
+  const snapshot: BrandKitSnapshot = {};
+  for (const field of VERSIONED_BRAND_KIT_FIELDS) {
+    snapshot[field] = brandKit[field] ?? null;
+  }
+  return snapshot;
+}
+
+/**
+ * Field-level diff between two snapshots
+ * A null `before` (new kit) lists every field that has a value.
+ */
+export function diffBrandKitSnapshots(
+  before: BrandKitSnapshot | null,
+  after: BrandKitSnapshot
+): BrandKitChange[] {
+  const changes: BrandKitChange[] = [];
+
+  for (const field of VERSIONED_BRAND_KIT_FIELDS) {
+    const from = before?.[field] ?? null;
+    const to = after[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from, to });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Style values a revision replaced, in field order
+ * Only changes from one non-empty value to another can be replayed. When two
+ * fields changed away from the same old value, the first one wins.
+ */
+export function getRebrandReplacements(changes: BrandKitChange[]): StyleReplacement[] {
+  const replacements: StyleReplacement[] = [];
+  const seen = new Set<string>();
+
+  for (const change of changes) {
+    const kind = REBRANDABLE_FIELDS[change.field];
+    if (!kind) continue;
+    if (typeof change.from !== "string" || typeof change.to !== "string") continue;
+
+    const from = change.from.trim();
+    const to = change.to.trim();
+    if (!from || !to || from.toLowerCase() === to.toLowerCase()) continue;
+
+    const key = `${kind}:${from.toLowerCase()}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    replacements.push({ field: change.field, kind, from, to });
+  }
+
+  return replacements;
+}
+
+/**
+ * Read a revision's stored diff
+ */
+export function parseBrandKitChanges(value: Prisma.JsonValue): BrandKitChange[] {
+  if (!Array.isArray(value)) return [];
+  return (value as unknown as BrandKitChange[]).filter(
+    (change) =>
+      !!change && typeof change === "object" && VERSIONED_BRAND_KIT_FIELDS.includes(change.field)
+  );
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Store a revision for a brand kit change
+ *
+ * @param before - The kit before the change; null when it was just created
+ * @param after - The kit after the change
+ * @returns The revision, or null when no versioned field changed
+ */
+export async function recordBrandKitRevision(
+  db: BrandKitRevisionDb,
+  before: Partial<Record<VersionedBrandKitField, unknown>> | null,
+  after: Pick<BrandKit, "id"> & Partial<Record<VersionedBrandKitField, unknown>>,
+  options: BrandKitRevisionOptions
+): Promise<BrandKitRevision | null> {
+  const snapshot = pickBrandKitSnapshot(after);
+  const changes = diffBrandKitSnapshots(before ? pickBrandKitSnapshot(before) : null, snapshot);
+
+  if (before && changes.length === 0) {
+    return null;
+  }
+
+  const latest = await db.brandKitRevision.findFirst({
+    where: { brandKitId: after.id },
+    orderBy: { version: "desc" },
+    select: { version: true },
+  });
+  const version = latest ? latest.version + 1 : 1;
+
+  const revision = await db.brandKitRevision.create({
+    data: {
+      brandKitId: after.id,
+      version,
+      snapshot: snapshot as Prisma.InputJsonValue,
+      changes: changes as unknown as Prisma.InputJsonValue,
+      source: options.source,
+      createdBy: options.userId,
+    },
+  });
+
+  logger.info("🎨 [BrandKit] Revision recorded:", {
+    brandKitId: after.id,
+    version,
+    source: options.source,
+    fields: changes.map((change) => change.field),
+  });
+
+  return revision;
+}
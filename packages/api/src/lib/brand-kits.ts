@@ -0,0 +1,168 @@
+/**
+ * Brand kits
+ * An organization holds any number of named brand kits. Organization.brandKit
+ * (defaultBrandKitId) is the default, used when a template doesn't name one.
+ */
+
+import type { Prisma, PrismaClient } from "@mocah/db";
+import { resolveDesignTokens, type DesignTokens } from "@mocah/shared";
+import { TRPCError } from "@trpc/server";
+import { recordBrandKitRevision, type BrandKitRevisionOptions } from "./brand-kit-history";
+
+type BrandKitDb = Pick<PrismaClient, "brandKit" | "organization" | "brandKitRevision">;
+
+/** Fields shown in brand pickers */
+export const BRAND_KIT_SUMMARY_SELECT = {
+  id: true,
+  name: true,
+  primaryColor: true,
+  accentColor: true,
+  fontFamily: true,
+  logo: true,
+  companyName: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.BrandKitSelect;
+
+/**
+ * A brand kit of the organization that hasn't been deleted, or null
+ */
+export function findBrandKit(db: BrandKitDb, organizationId: string, brandKitId: string) {
+  return db.brandKit.findFirst({
+    where: { id: brandKitId, organizationId, deletedAt: null },
+  });
+}
+
+/**
+ * The brand kit a template uses
+ *
+ * @param brandKitId - Requested kit; the organization default when omitted
+ * @returns The kit's ID, or null when the organization has no default
+ * @throws NOT_FOUND when the requested kit isn't in the organization
+ */
+export async function resolveBrandKitId(
+  db: BrandKitDb,
+  organizationId: string,
+  brandKitId?: string | null
+): Promise<string | null> {
+  if (brandKitId) {
+    const brandKit = await findBrandKit(db, organizationId, brandKitId);
+    if (!brandKit) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Brand kit not found",
+      });
+    }
+    return brandKit.id;
+  }
+
+  const organization = await db.organization.findUnique({
+    where: { id: organizationId },
+    select: { defaultBrandKitId: true },
+  });
+  return organization?.defaultBrandKitId ?? null;
+}
+
+/**
+ * Update the organization's default brand kit, creating it if there is none
+ * The change is recorded in the kit's history.
+ */
+export async function saveDefaultBrandKit(
+  db: BrandKitDb,
+  organizationId: string,
+  data: Prisma.BrandKitUpdateWithoutDefaultForInput,
+  revision: BrandKitRevisionOptions
+) {
+  const previous = await db.organization.findUnique({
+    where: { id: organizationId },
+    select: { brandKit: true },
+  });
+
+  const organization = await db.organization.update({
+    where: { id: organizationId },
+    data: {
+      brandKit: {
+        upsert: {
+          update: data,
+          create: {
+            ...data,
+            organization: { connect: { id: organizationId } },
+          } as Prisma.BrandKitCreateWithoutDefaultForInput,
+        },
+      },
+    },
+    select: { brandKit: true },
+  });
+
+  const brandKit = organization.brandKit!;
+  const before = previous?.brandKit ?? null;
+  await recordBrandKitRevision(db, before, brandKit, {
+    ...revision,
+    source: before ? revision.source : "create",
+  });
+
+  return brandKit;
+}
+
+/**
+ * Kit that becomes the default when the default is deleted: the oldest
+ * remaining one, or null when none are left
+ */
+export function pickNextDefaultBrandKit<T extends { id: string; createdAt: Date }>(
+  brandKits: T[],
+  deletedId: string
+): T | null {
+  const remaining = brandKits
+    .filter((brandKit) => brandKit.id !== deletedId)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  return remaining[0] ?? null;
+}
+
+/**
+ * Flag the organization's default kit and list it first
+ */
+export function withDefaultFlag<T extends { id: string }>(
+  brandKits: T[],
+  defaultBrandKitId: string | null
+): Array<T & { isDefault: boolean }> {
+  return brandKits
+    .map((brandKit) => ({ ...brandKit, isDefault: brandKit.id === defaultBrandKitId }))
+    .sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+}
+
+/**
+ * Brand kit a template is generated with: its own unless that was deleted,
+ * otherwise the organization default
+ */
+export function getTemplateBrandKit<T extends { deletedAt: Date | null }>(template: {
+  brandKit: T | null;
+  organization: { brandKit: T | null };
+}): T | null {
+  if (template.brandKit && !template.brandKit.deletedAt) {
+    return template.brandKit;
+  }
+  return template.organization.brandKit;
+}
+
+/**
+ * Design tokens a template's `brand.*` references resolve to: those of its
+ * own kit unless that was deleted, otherwise of the organization default
+ */
+export async function getTemplateDesignTokens(
+  db: BrandKitDb,
+  template: { organizationId: string; brandKitId: string | null }
+): Promise<DesignTokens> {
+  const brandKit = template.brandKitId
+    ? await findBrandKit(db, template.organizationId, template.brandKitId)
+    : null;
+  if (brandKit) {
+    return resolveDesignTokens(brandKit);
+  }
+
+  const organization = await db.organization.findUnique({
+    where: { id: template.organizationId },
+    select: { brandKit: true },
+  });
+  return resolveDesignTokens(organization?.brandKit);
+}
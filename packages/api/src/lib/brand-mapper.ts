@@ -5,7 +5,8 @@
  * Handles font mapping to email-safe fonts and brand voice inference.
  */
 
-import type { EmailSafeFont } from "@mocah/shared";
+import { EMAIL_SAFE_FONTS, type EmailSafeFont } from "@mocah/shared/constants";
+import { getFontFallbacks, getPrimaryFontFamily } from "@mocah/shared/web-fonts";
 import type { FirecrawlScrapeResponse, SocialLinks } from "./firecrawl";
 import { filterInternalLinks } from "./firecrawl";
 
@@ -81,8 +82,8 @@ export function mapFirecrawlToBrandKit(
   const personality = branding?.personality;
   const typography = branding?.typography;
 
-  // Find best font match from email-safe fonts
-  const primaryFont = findBestFontMatch(typography?.fontFamilies?.primary);
+  // Keep the brand's own font, with a fallback stack for clients without web fonts
+  const primaryFont = mapScrapedFont(typography?.fontFamilies?.primary);
 
   // Map brand voice from personality
   const brandVoice = mapBrandVoice(personality?.tone, personality?.energy);
@@ -147,6 +148,42 @@ export function mapFirecrawlToBrandKit(
 // Helper Functions
 // ============================================================================
 
+/**
+ * Maps a scraped font to a brand kit font-family value
+ * Email-safe fonts map as before. Other fonts keep their name at the head of
+ * a fallback stack, so clients that have it (or load it once it is registered
+ * as a web font) show it and the rest fall back to a similar system font.
+ */
+export function mapScrapedFont(fontFamily: string | undefined): string {
+  const family = cleanFontFamily(getPrimaryFontFamily(fontFamily));
+  if (!family) return findBestFontMatch(fontFamily);
+
+  const isEmailSafe = EMAIL_SAFE_FONTS.some(
+    (font) => getPrimaryFontFamily(font).toLowerCase() === family.toLowerCase()
+  );
+  if (isEmailSafe || /^(helvetica|times|courier)\b/i.test(family)) {
+    return findBestFontMatch(fontFamily);
+  }
+
+  return getFontFallbacks(family).stack;
+}
+
+/**
+ * Font name as a user would write it, or null for generic/unusable names
+ * Handles bundler-generated names such as "__Inter_d65c78".
+ */
+function cleanFontFamily(family: string): string | null {
+  const cleaned = family
+    .replace(/^_+/, "")
+    .replace(/_(fallback_)?[0-9a-f]{5,}$/i, "")
+    .replace(/_/g, " ")
+    .trim();
+
+  if (!/^[A-Za-z0-9][A-Za-z0-9 \-]{0,59}$/.test(cleaned)) return null;
+  if (/^(sans-serif|serif|monospace|system-ui|-apple-system|inherit|initial)$/i.test(cleaned)) return null;
+  return cleaned;
+}
+
 /**
  * Finds the best email-safe font match for a given font family
  */
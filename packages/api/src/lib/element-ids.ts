@@ -0,0 +1,142 @@
+/**
+ * Stable element IDs in saved React Email source
+ * Every React Email element gets a data-mocah-id when code is saved. IDs the
+ * AI dropped are recovered by matching elements structurally against the
+ * previous code; new elements get fresh IDs.
+ */
+
+import {
+  ELEMENT_ID_ATTRIBUTE,
+  ELEMENT_ID_COMPONENTS,
+  createElementId,
+} from "@mocah/shared/element-ids";
+import { parseJsxTree, type JsxNode } from "./template-diff";
+
+export interface AssignElementIdsResult {
+  code: string;
+  /** Elements that got a new ID */
+  created: number;
+  /** Elements whose ID was recovered from the previous code */
+  recovered: number;
+}
+
+const ID_COMPONENTS: readonly string[] = ELEMENT_ID_COMPONENTS;
+
+/**
+ * The element's data-mocah-id, or null when it has none
+ */
+export function getNodeElementId(node: Pick<JsxNode, "attributes">): string | null {
+  const raw = node.attributes[ELEMENT_ID_ATTRIBUTE];
+  if (!raw) return null;
+  const value = raw.replace(/^\{\s*|\s*\}$/g, "").replace(/^["']|["']$/g, "");
+  return value || null;
+}
+
+/**
+ * Elements that carry (or should carry) a stable ID
+ */
+export function parseIdentifiableNodes(code: string | null | undefined): JsxNode[] {
+  return parseJsxTree(code).filter((node) => ID_COMPONENTS.includes(node.tag));
+}
+
+/**
+ * Best structural match for an element among candidates of the same tag
+ * Tries, in order: same path and text, a unique element with the same text,
+ * then the same path.
+ */
+export function findMatchingNode(
+  target: Pick<JsxNode, "tag" | "path" | "text">,
+  nodes: JsxNode[]
+): JsxNode | null {
+  const candidates = nodes.filter((node) => node.tag === target.tag);
+
+  const samePathAndText = candidates.find(
+    (node) => node.path === target.path && node.text === target.text
+  );
+  if (samePathAndText) return samePathAndText;
+
+  if (target.text) {
+    const sameText = candidates.filter((node) => node.text === target.text);
+    if (sameText.length === 1) return sameText[0]!;
+  }
+
+  return candidates.find((node) => node.path === target.path) ?? null;
+}
+
+function withElementId(tagSource: string, tag: string, id: string): string {
+  const attribute = `${ELEMENT_ID_ATTRIBUTE}="${id}"`;
+  const existing = new RegExp(`${ELEMENT_ID_ATTRIBUTE}=(?:"[^"]*"|'[^']*'|\\{[^}]*\\})`);
+
+  if (existing.test(tagSource)) {
+    return tagSource.replace(existing, attribute);
+  }
+
+  const nameEnd = 1 + tag.length;
+  return `${tagSource.slice(0, nameEnd)} ${attribute}${tagSource.slice(nameEnd)}`;
+}
+
+/**
+ * Give every React Email element a unique data-mocah-id
+ *
+ * @param code - Code being saved
+ * @param previousCode - Code it replaces; its IDs are reused for matching elements
+ */
+export function assignElementIds(
+  code: string,
+  previousCode?: string | null
+): AssignElementIdsResult {
+  const nodes = parseIdentifiableNodes(code);
+  const used = new Set<string>();
+  const missing: JsxNode[] = [];
+
+  for (const node of nodes) {
+    const id = getNodeElementId(node);
+    // Copied blocks can repeat an ID; the first occurrence keeps it
+    if (id && !used.has(id)) {
+      used.add(id);
+    } else {
+      missing.push(node);
+    }
+  }
+
+  if (missing.length === 0) {
+    return { code, created: 0, recovered: 0 };
+  }
+
+  let available = parseIdentifiableNodes(previousCode).filter((node) => {
+    const id = getNodeElementId(node);
+    return !!id && !used.has(id);
+  });
+
+  const assignments: Array<{ node: JsxNode; id: string }> = [];
+  let recovered = 0;
+
+  for (const node of missing) {
+    const match = findMatchingNode(node, available);
+    let id = match ? getNodeElementId(match) : null;
+
+    if (match && id) {
+      available = available.filter((candidate) => candidate !== match);
+      recovered++;
+    } else {
+      do {
+        id = createElementId();
+      } while (used.has(id));
+    }
+
+    used.add(id!);
+    assignments.push({ node, id: id! });
+  }
+
+  // Splice from the end so earlier offsets stay valid
+  let result = code;
+  for (const { node, id } of [...assignments].sort((a, b) => b.node.tagStart - a.node.tagStart)) {
+    const tagSource = result.slice(node.tagStart, node.tagEnd);
+    result =
+      result.slice(0, node.tagStart) +
+      withElementId(tagSource, node.tag, id) +
+      result.slice(node.tagEnd);
+  }
+
+  return { code: result, created: assignments.length - recovered, recovered };
+}
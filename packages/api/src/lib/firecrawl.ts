@@ -261,13 +261,18 @@ export function extractDomain(url: string): string {
 }
 
 /**
- * Filters links to only include internal links (same domain) and limits to top 10
+ * Filters links to only include internal links (same domain) and limits to the top few
  * 
  * @param links - Array of URLs to filter
  * @param baseUrl - The base website URL to compare against
- * @returns Array of internal links, limited to top 10
+ * @param limit - Maximum number of links to return (default 10)
+ * @returns Array of internal links, limited to `limit`
  */
-export function filterInternalLinks(links: string[] | undefined | null, baseUrl: string | null | undefined): string[] {
+export function filterInternalLinks(
+  links: string[] | undefined | null,
+  baseUrl: string | null | undefined,
+  limit = 10
+): string[] {
   if (!links || !Array.isArray(links) || links.length === 0 || !baseUrl) {
     return [];
   }
@@ -291,8 +296,8 @@ export function filterInternalLinks(links: string[] | undefined | null, baseUrl:
         if (linkDomain === baseDomain) {
           internalLinks.push(link);
           
-          // Stop once we have 10 internal links
-          if (internalLinks.length >= 10) {
+          // Stop once we have enough internal links
+          if (internalLinks.length >= limit) {
             break;
           }
         }
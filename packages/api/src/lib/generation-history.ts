@@ -0,0 +1,253 @@
+/**
+ * Generation audit log
+ * Every billable model call (OpenRouter text, fal.ai images) is recorded in
+ * GenerationHistory with its prompt, model, token usage and cost so
+ * workspaces can reconcile provider invoices. Recording is best-effort: a
+ * failed audit write is logged and never fails the generation itself.
+ */
+
+import prisma from "@mocah/db";
+import type { GenerationStatus, GenerationType, Prisma } from "@mocah/db";
+import { logger } from "@mocah/shared";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type GenerationProvider = "openrouter" | "fal";
+
+/** Who a generation is billed to and what triggered it */
+export interface GenerationAuditContext {
+  organizationId: string;
+  userId: string;
+  /** e.g. "template.generate", "template.translate", "image.edit" */
+  operation: string;
+  type: GenerationType;
+  templateId?: string | null;
+}
+
+export interface GenerationUsage {
+  promptTokens?: number | null;
+  completionTokens?: number | null;
+  tokensUsed?: number | null;
+  /** USD */
+  cost?: number | null;
+}
+
+export interface GenerationRecorder {
+  /** The provider request is in flight */
+  processing(): void;
+  completed(outcome: { result?: string; usage?: GenerationUsage; metadata?: Record<string, unknown> }): void;
+  failed(error: unknown): void;
+  /** GenerationHistory ID, or null if the audit row couldn't be written */
+  getId(): Promise<string | null>;
+  /** Resolves once all queued writes have settled (tests and request teardown) */
+  flush(): Promise<void>;
+}
+
+// Results are kept for auditing, not replay - cap what we store per row
+const MAX_RESULT_LENGTH = 50_000;
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Create a pending GenerationHistory row and return a recorder for its
+ * pending → processing → completed/failed transitions
+ * Synchronous so it can wrap streaming calls; writes are queued in order.
+ */
+export function startGeneration(
+  context: GenerationAuditContext & {
+    provider: GenerationProvider;
+    modelId: string;
+    prompt: string;
+    metadata?: Record<string, unknown>;
+  }
+): GenerationRecorder {
+  const startedAt = Date.now();
+
+  const created: Promise<string | null> = Promise.resolve()
+    .then(() =>
+      prisma.generationHistory.create({
+        data: {
+          organizationId: context.organizationId,
+          userId: context.userId,
+          templateId: context.templateId ?? null,
+          type: context.type,
+          operation: context.operation,
+          provider: context.provider,
+          modelId: context.modelId,
+          prompt: context.prompt,
+          status: "pending",
+          metadata: context.metadata as Prisma.InputJsonValue | undefined,
+        },
+        select: { id: true },
+      })
+    )
+    .then((row) => row.id)
+    .catch((error) => {
+      logger.warn("⚠️ [Generation] Failed to record generation", {
+        operation: context.operation,
+        organizationId: context.organizationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    });
+
+  let queue = created;
+  let settled = false;
+
+  const update = (status: GenerationStatus, data: Record<string, unknown>) => {
+    queue = queue.then(async (id) => {
+      if (!id) return null;
+      try {
+        await prisma.generationHistory.update({
+          where: { id },
+          data: { status, ...data },
+        });
+      } catch (error) {
+        logger.warn("⚠️ [Generation] Failed to update generation status", {
+          id,
+          status,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      return id;
+    });
+  };
+
+  const finish = (status: GenerationStatus, data: Record<string, unknown>) => {
+    // Streams can report both an error and a finish - first outcome wins
+    if (settled) return;
+    settled = true;
+    update(status, {
+      ...data,
+      durationMs: Date.now() - startedAt,
+      completedAt: new Date(),
+    });
+  };
+
+  return {
+    processing() {
+      if (!settled) update("processing", {});
+    },
+
+    completed({ result, usage, metadata }) {
+      finish("completed", {
+        result: result?.slice(0, MAX_RESULT_LENGTH),
+        promptTokens: usage?.promptTokens ?? undefined,
+        completionTokens: usage?.completionTokens ?? undefined,
+        tokensUsed: usage?.tokensUsed ?? undefined,
+        cost: usage?.cost ?? undefined,
+        ...(metadata && { metadata: { ...context.metadata, ...metadata } }),
+      });
+    },
+
+    failed(error) {
+      finish("failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    },
+
+    getId() {
+      return created;
+    },
+
+    async flush() {
+      await queue;
+    },
+  };
+}
+
+// ============================================================================
+// Provider usage
+// ============================================================================
+
+/**
+ * Normalize AI SDK usage plus OpenRouter usage accounting
+ * OpenRouter reports the billed cost in providerMetadata when usage
+ * accounting is enabled; SDK token counts are the fallback.
+ */
+export function extractOpenRouterUsage(
+  usage: { inputTokens?: number; outputTokens?: number; totalTokens?: number } | undefined,
+  providerMetadata: unknown
+): GenerationUsage {
+  const accounting = (providerMetadata as {
+    openrouter?: {
+      usage?: { promptTokens?: number; completionTokens?: number; totalTokens?: number; cost?: number };
+    };
+  } | undefined)?.openrouter?.usage;
+
+  return {
+    promptTokens: accounting?.promptTokens ?? usage?.inputTokens ?? null,
+    completionTokens: accounting?.completionTokens ?? usage?.outputTokens ?? null,
+    tokensUsed: accounting?.totalTokens ?? usage?.totalTokens ?? null,
+    cost: accounting?.cost ?? null,
+  };
+}
+
+// ============================================================================
+// CSV export
+// ============================================================================
+
+export interface GenerationCsvRow {
+  id: string;
+  createdAt: Date;
+  operation: string | null;
+  type: string;
+  provider: string | null;
+  modelId: string | null;
+  status: string;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  tokensUsed: number | null;
+  cost: { toString(): string } | number | null;
+  durationMs: number | null;
+  error: string | null;
+  user: { name: string | null; email: string } | null;
+  template: { id: string; name: string } | null;
+}
+
+const CSV_COLUMNS: Array<[header: string, value: (row: GenerationCsvRow) => unknown]> = [
+  ["Date (UTC)", (row) => row.createdAt.toISOString()],
+  ["Operation", (row) => row.operation],
+  ["Type", (row) => row.type],
+  ["Provider", (row) => row.provider],
+  ["Model", (row) => row.modelId],
+  ["Status", (row) => row.status],
+  ["User", (row) => row.user?.name],
+  ["User email", (row) => row.user?.email],
+  ["Template ID", (row) => row.template?.id],
+  ["Template", (row) => row.template?.name],
+  ["Prompt tokens", (row) => row.promptTokens],
+  ["Completion tokens", (row) => row.completionTokens],
+  ["Total tokens", (row) => row.tokensUsed],
+  ["Cost (USD)", (row) => row.cost],
+  ["Duration (ms)", (row) => row.durationMs],
+  ["Error", (row) => row.error],
+  ["Generation ID", (row) => row.id],
+];
+
+/**
+ * Quote a CSV cell
+ * Cells starting with a formula character are prefixed so spreadsheets
+ * treat user-controlled text (template names, errors) as text.
+ */
+function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Build the AI activity CSV for finance reconciliation */
+export function buildGenerationCsv(rows: GenerationCsvRow[]): string {
+  const lines = [CSV_COLUMNS.map(([header]) => toCsvCell(header)).join(",")];
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map(([, value]) => toCsvCell(value(row))).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
@@ -0,0 +1,133 @@
+/**
+ * Google Fonts import
+ * Turns a Google Fonts link (a css2 stylesheet URL or a specimen page) into
+ * brand kit web fonts. The stylesheet is fetched with a browser user agent so
+ * Google serves woff2 files, and only the latin subset is kept: email clients
+ * can't use unicode-range to pick between subsets.
+ */
+
+import {
+  inferFontCategory,
+  MAX_WEB_FONTS,
+  webFontSchema,
+  type WebFont,
+  type WebFontFormat,
+} from "@mocah/shared/web-fonts";
+import { TRPCError } from "@trpc/server";
+
+const GOOGLE_FONTS_CSS_URL = "https://fonts.googleapis.com/css2";
+
+// Google picks the font format from the user agent
+const BROWSER_USER_AGENT =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36";
+
+// Weights requested for a specimen link
+const DEFAULT_SPECIMEN_WEIGHTS = "400;700";
+
+const FORMAT_NAMES: Record<string, WebFontFormat> = {
+  woff2: "woff2",
+  woff: "woff",
+  truetype: "truetype",
+  opentype: "opentype",
+};
+
+/**
+ * css2 stylesheet URL for a Google Fonts link, or null if it isn't one
+ */
+export function resolveGoogleFontsCssUrl(link: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(link.trim());
+  } catch {
+    return null;
+  }
+
+  if (url.hostname === "fonts.googleapis.com" && (url.pathname === "/css2" || url.pathname === "/css")) {
+    url.protocol = "https:";
+    return url.href;
+  }
+
+  // https://fonts.google.com/specimen/Open+Sans
+  const specimen = url.hostname === "fonts.google.com" && /^\/specimen\/([^/]+)/.exec(url.pathname);
+  if (specimen) {
+    const family = decodeURIComponent(specimen[1]!.replace(/\+/g, " "));
+    return `${GOOGLE_FONTS_CSS_URL}?family=${encodeURIComponent(family).replace(/%20/g, "+")}:wght@${DEFAULT_SPECIMEN_WEIGHTS}&display=swap`;
+  }
+
+  return null;
+}
+
+/**
+ * Web fonts declared by a Google Fonts stylesheet
+ * Blocks labelled with a subset comment other than latin are skipped.
+ */
+export function parseGoogleFontFaces(css: string): WebFont[] {
+  const fonts: WebFont[] = [];
+  const blockPattern = /(?:\/\*\s*([\w-]+)\s*\*\/\s*)?@font-face\s*\{([^}]*)\}/g;
+
+  for (const [, subset, body] of css.matchAll(blockPattern)) {
+    if (subset && subset !== "latin") continue;
+
+    const family = /font-family:\s*['"]?([^;'"]+)['"]?\s*;/.exec(body!)?.[1]?.trim();
+    const src = /src:\s*url\(([^)]+)\)\s*format\(['"]?(\w+)['"]?\)/.exec(body!);
+    const weight = Number(/font-weight:\s*(\d+)/.exec(body!)?.[1] ?? 400);
+    const style = /font-style:\s*italic/.test(body!) ? "italic" : "normal";
+    const format = src ? FORMAT_NAMES[src[2]!] : undefined;
+    if (!family || !src || !format) continue;
+
+    const parsed = webFontSchema.safeParse({
+      family,
+      url: src[1]!.trim().replace(/^['"]|['"]$/g, ""),
+      format,
+      weight,
+      style,
+      category: inferFontCategory(family),
+      source: "google",
+    });
+    if (!parsed.success) continue;
+
+    // Variable fonts repeat the same file for every requested weight
+    if (!fonts.some((font) => font.url === parsed.data.url && font.weight === parsed.data.weight && font.style === parsed.data.style)) {
+      fonts.push(parsed.data);
+    }
+  }
+
+  return fonts.slice(0, MAX_WEB_FONTS);
+}
+
+/**
+ * Fetch a Google Fonts link and read its font files
+ *
+ * @throws BAD_REQUEST when the link isn't a Google Fonts link or declares no fonts
+ */
+export async function importGoogleFonts(link: string): Promise<WebFont[]> {
+  const cssUrl = resolveGoogleFontsCssUrl(link);
+  if (!cssUrl) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Paste a fonts.googleapis.com stylesheet link or a fonts.google.com specimen link",
+    });
+  }
+
+  const response = await fetch(cssUrl, {
+    headers: { "User-Agent": BROWSER_USER_AGENT },
+    signal: AbortSignal.timeout(10000),
+  });
+
+  if (!response.ok) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Google Fonts couldn't load this font (${response.status})`,
+    });
+  }
+
+  const fonts = parseGoogleFontFaces(await response.text());
+  if (fonts.length === 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "No usable fonts found at this link",
+    });
+  }
+
+  return fonts;
+}
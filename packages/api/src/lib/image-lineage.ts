@@ -0,0 +1,221 @@
+/**
+ * Image lineage
+ * Version trees for generated images, stored as GeneratedImage nodes. Every
+ * fal.ai output gets a node; regenerations and edits hang off the image they
+ * were made from, so designers can step back through a tree and choose which
+ * version is active. Nodes in one tree share rootImageId.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { ImageVariationType, PrismaClient } from "@mocah/db";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LineageNodeInput {
+  id: string;
+  parentImageId: string | null;
+  version: number;
+  createdAt: Date;
+}
+
+export type FlattenedLineageNode<T extends LineageNodeInput> = T & {
+  /** 0 for the root */
+  depth: number;
+};
+
+interface LineageAsset {
+  id: string;
+  url: string;
+  width: number | null;
+  height: number | null;
+}
+
+// ============================================================================
+// Tree helpers
+// ============================================================================
+
+/**
+ * Pick the variation type for an image made from an existing one
+ * Same prompt means "try again"; a changed prompt is an edit.
+ */
+export function resolveVariationType(sourcePrompt: string, prompt: string): ImageVariationType {
+  return sourcePrompt.trim() === prompt.trim() ? "regeneration" : "edit";
+}
+
+/**
+ * Order a tree depth-first (children by version) with each node's depth
+ * Nodes whose parent is missing are treated as roots.
+ */
+export function flattenLineage<T extends LineageNodeInput>(nodes: T[]): FlattenedLineageNode<T>[] {
+  const ids = new Set(nodes.map((node) => node.id));
+  const children = new Map<string | null, T[]>();
+
+  for (const node of nodes) {
+    const parentId = node.parentImageId && ids.has(node.parentImageId) ? node.parentImageId : null;
+    const siblings = children.get(parentId) ?? [];
+    siblings.push(node);
+    children.set(parentId, siblings);
+  }
+  for (const siblings of children.values()) {
+    siblings.sort((a, b) => a.version - b.version || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  const result: FlattenedLineageNode<T>[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    for (const node of children.get(parentId) ?? []) {
+      result.push({ ...node, depth });
+      visit(node.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return result;
+}
+
+/**
+ * IDs from a node up to its root (excluding the node itself)
+ */
+export function getAncestorIds(nodes: LineageNodeInput[], nodeId: string): string[] {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const ancestors: string[] = [];
+  let current = byId.get(nodeId)?.parentImageId ?? null;
+
+  // Bounded by the tree size in case of a corrupted cycle
+  while (current && byId.has(current) && ancestors.length < nodes.length) {
+    ancestors.push(current);
+    current = byId.get(current)!.parentImageId;
+  }
+  return ancestors;
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+/**
+ * Get the lineage node for an image asset, creating a root for images that
+ * predate lineage or were uploaded rather than generated
+ * @returns null when the asset doesn't exist in the organization
+ */
+export async function ensureLineageNode(
+  db: PrismaClient,
+  imageAssetId: string,
+  organizationId: string
+): Promise<{ id: string; rootImageId: string } | null> {
+  const asset = await db.imageAsset.findFirst({
+    where: { id: imageAssetId, organizationId },
+    select: {
+      id: true,
+      url: true,
+      prompt: true,
+      width: true,
+      height: true,
+      lineage: { select: { id: true, rootImageId: true } },
+    },
+  });
+  if (!asset) return null;
+  if (asset.lineage) {
+    return { id: asset.lineage.id, rootImageId: asset.lineage.rootImageId ?? asset.lineage.id };
+  }
+
+  const id = randomUUID();
+  await db.generatedImage.create({
+    data: {
+      id,
+      rootImageId: id,
+      imageAssetId: asset.id,
+      url: asset.url,
+      prompt: asset.prompt ?? "",
+      size: formatSize(asset),
+      version: 1,
+      variationType: "original",
+      isActive: true,
+    },
+  });
+  return { id, rootImageId: id };
+}
+
+/**
+ * Record lineage nodes for freshly generated images
+ * With a source image the outputs become the newest versions of its tree and
+ * the first one is made active; otherwise each output starts its own tree.
+ */
+export async function recordImageLineage(
+  db: PrismaClient,
+  input: {
+    organizationId: string;
+    generationHistoryId: string | null;
+    prompt: string;
+    costPerImage?: number;
+    assets: LineageAsset[];
+    sourceImageAssetId?: string;
+  }
+): Promise<void> {
+  const source = input.sourceImageAssetId
+    ? await ensureLineageNode(db, input.sourceImageAssetId, input.organizationId)
+    : null;
+
+  const base = {
+    generationHistoryId: input.generationHistoryId,
+    prompt: input.prompt,
+    cost: input.costPerImage,
+  };
+
+  if (!source) {
+    await db.generatedImage.createMany({
+      data: input.assets.map((asset) => {
+        const id = randomUUID();
+        return {
+          ...base,
+          id,
+          rootImageId: id,
+          imageAssetId: asset.id,
+          url: asset.url,
+          size: formatSize(asset),
+          version: 1,
+          variationType: "original" as const,
+          isActive: true,
+        };
+      }),
+    });
+    return;
+  }
+
+  const sourceAsset = await db.imageAsset.findUnique({
+    where: { id: input.sourceImageAssetId },
+    select: { prompt: true },
+  });
+  const variationType = resolveVariationType(sourceAsset?.prompt ?? "", input.prompt);
+
+  await db.$transaction(async (tx) => {
+    const latest = await tx.generatedImage.aggregate({
+      where: { rootImageId: source.rootImageId },
+      _max: { version: true },
+    });
+    const nextVersion = (latest._max.version ?? 0) + 1;
+
+    await tx.generatedImage.updateMany({
+      where: { rootImageId: source.rootImageId, isActive: true },
+      data: { isActive: false },
+    });
+
+    await tx.generatedImage.createMany({
+      data: input.assets.map((asset, index) => ({
+        ...base,
+        rootImageId: source.rootImageId,
+        parentImageId: source.id,
+        imageAssetId: asset.id,
+        url: asset.url,
+        size: formatSize(asset),
+        version: nextVersion + index,
+        variationType,
+        isActive: index === 0,
+      })),
+    });
+  });
+}
+
+function formatSize(asset: { width: number | null; height: number | null }): string | null {
+  return asset.width && asset.height ? `${asset.width}x${asset.height}` : null;
+}
@@ -0,0 +1,183 @@
+/**
+ * Integration credential storage
+ * Credentials are sealed with the vault before they reach Integration.credentials
+ * and are only decrypted server-side, right before a provider call.
+ */
+
+import prisma, { type IntegrationType, type PrismaClient } from "@mocah/db";
+import { TRPCError } from "@trpc/server";
+import { logger } from "@mocah/shared";
+import {
+  isSealedSecret,
+  openSecret,
+  rewrapSecret,
+  sealSecret,
+  VaultError,
+  type SealedSecret,
+} from "../vault";
+import {
+  getIntegrationProvider,
+  isSupportedIntegrationType,
+  type IntegrationCredentialsMap,
+  type SupportedIntegrationType,
+} from "./index";
+
+/** Decrypted credentials, discriminated by integration type */
+export type DecryptedIntegrationCredentials = {
+  [K in SupportedIntegrationType]: { type: K; credentials: IntegrationCredentialsMap[K] };
+}[SupportedIntegrationType];
+
+interface StoredIntegration {
+  id: string;
+  type: IntegrationType;
+  credentials: unknown;
+}
+
+// Binds the ciphertext to its row so it can't be replayed onto another integration
+function credentialsContext(integrationId: string): string {
+  return `integration:${integrationId}`;
+}
+
+/**
+ * Vault failures mean the server's keys are missing or don't match the stored
+ * credentials; other errors are rethrown as they are
+ */
+function toVaultTRPCError(error: unknown, integrationId: string): unknown {
+  if (!(error instanceof VaultError)) return error;
+
+  logger.error("❌ [Vault] Integration credentials unavailable", {
+    integrationId,
+    error: error.message,
+  });
+
+  return new TRPCError({
+    code: "PRECONDITION_FAILED",
+    message:
+      "Integration credentials can't be encrypted or decrypted on this server. " +
+      "Ask an administrator to check the vault keys, or reconnect the integration.",
+    cause: error,
+  });
+}
+
+/**
+ * Seal credentials for storage on an Integration row
+ */
+export function encryptIntegrationCredentials(
+  integrationId: string,
+  credentials: Record<string, string>
+): SealedSecret {
+  try {
+    return sealSecret(credentials, credentialsContext(integrationId));
+  } catch (error) {
+    throw toVaultTRPCError(error, integrationId);
+  }
+}
+
+/**
+ * Decrypt and validate the credentials of a loaded Integration row
+ * Rows wrapped with a previous master key, or still stored in plaintext,
+ * are re-sealed with the current key as a side effect.
+ */
+export async function decryptIntegrationCredentials(
+  db: PrismaClient,
+  integration: StoredIntegration
+): Promise<DecryptedIntegrationCredentials> {
+  const provider = isSupportedIntegrationType(integration.type)
+    ? getIntegrationProvider(integration.type)
+    : null;
+  if (!provider) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `${integration.type} integrations are not supported yet`,
+    });
+  }
+
+  // 1. Decrypt
+  let raw: unknown;
+  let reseal: SealedSecret | null = null;
+
+  if (isSealedSecret(integration.credentials)) {
+    try {
+      const opened = openSecret(integration.credentials, credentialsContext(integration.id));
+      raw = opened.value;
+      if (opened.needsRewrap) {
+        reseal = rewrapSecret(integration.credentials);
+      }
+    } catch (error) {
+      throw toVaultTRPCError(error, integration.id);
+    }
+  } else {
+    // Stored before the vault existed
+    raw = integration.credentials;
+    reseal = encryptIntegrationCredentials(integration.id, raw as Record<string, string>);
+  }
+
+  // 2. Validate shape
+  const parsed = provider.credentialsSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: "Stored credentials are invalid. Please reconnect the integration.",
+    });
+  }
+
+  // 3. Upgrade storage
+  if (reseal) {
+    await db.integration
+      .update({ where: { id: integration.id }, data: { credentials: reseal } })
+      .catch((error) => {
+        logger.warn("⚠️ [Vault] Failed to re-seal integration credentials", {
+          integrationId: integration.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }
+
+  return { type: integration.type, credentials: parsed.data } as DecryptedIntegrationCredentials;
+}
+
+/**
+ * Re-wrap every integration's data key with the current master key
+ * Run with `pnpm -F @mocah/api vault:rotate` after moving the old key to
+ * VAULT_PREVIOUS_MASTER_KEYS. Rows that are already current are skipped.
+ */
+export async function rotateIntegrationCredentials(
+  db: PrismaClient = prisma
+): Promise<{ rotated: number; skipped: number; failed: number }> {
+  const integrations = await db.integration.findMany({
+    where: { deletedAt: null },
+    select: { id: true, credentials: true },
+  });
+
+  const result = { rotated: 0, skipped: 0, failed: 0 };
+
+  for (const integration of integrations) {
+    try {
+      const current = integration.credentials;
+      const sealed = isSealedSecret(current)
+        ? rewrapSecret(current)
+        : encryptIntegrationCredentials(integration.id, current as Record<string, string>);
+
+      if (isSealedSecret(current) && sealed.kid === current.kid) {
+        result.skipped++;
+        continue;
+      }
+
+      await db.integration.update({
+        where: { id: integration.id },
+        data: { credentials: sealed },
+      });
+      result.rotated++;
+    } catch (error) {
+      result.failed++;
+      logger.error("❌ [Vault] Failed to rotate integration credentials", {
+        integrationId: integration.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  logger.info("🔐 [Vault] Integration credential rotation complete", result);
+
+  return result;
+}
@@ -0,0 +1,76 @@
+import type { IntegrationType } from "@mocah/db";
+import { IntegrationProviderError } from "./types";
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+/**
+ * JSON request against an ESP API
+ * Non-2xx responses and network failures are raised as IntegrationProviderError
+ * with the vendor's own error message when one is present.
+ */
+export async function providerRequest<T>(
+  provider: IntegrationType,
+  url: string,
+  init: { method?: string; headers: Record<string, string>; body?: unknown }
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: init.method ?? "GET",
+      headers: {
+        Accept: "application/json",
+        ...(init.body !== undefined ? { "Content-Type": "application/json" } : {}),
+        ...init.headers,
+      },
+      body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new IntegrationProviderError(
+      provider,
+      error instanceof Error ? error.message : "Request failed"
+    );
+  }
+
+  const text = await response.text();
+  const payload = text ? safeJsonParse(text) : null;
+
+  if (!response.ok) {
+    throw new IntegrationProviderError(
+      provider,
+      extractErrorMessage(payload) ?? `Request failed with status ${response.status}`,
+      response.status
+    );
+  }
+
+  return payload as T;
+}
+
+function safeJsonParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Pull a readable message out of the common ESP error shapes:
+ * Mailchimp `{ detail }`, SendGrid `{ errors: [{ message }] }`,
+ * Klaviyo `{ errors: [{ detail }] }`
+ */
+function extractErrorMessage(payload: unknown): string | null {
+  if (!payload) return null;
+  if (typeof payload === "string") return payload.slice(0, 500);
+  if (typeof payload !== "object") return null;
+
+  const body = payload as {
+    detail?: unknown;
+    message?: unknown;
+    errors?: Array<{ message?: unknown; detail?: unknown }>;
+  };
+
+  const first = Array.isArray(body.errors) ? body.errors[0] : undefined;
+  const message = first?.detail ?? first?.message ?? body.detail ?? body.message;
+  return typeof message === "string" && message ? message : null;
+}
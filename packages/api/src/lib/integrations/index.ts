@@ -0,0 +1,75 @@
+/**
+ * ESP integrations
+ * Provider registry plus helpers shared by the integration router.
+ */
+
+import type { IntegrationType } from "@mocah/db";
+import { convertMergeTags } from "../merge-tags";
+import { klaviyoProvider, type KlaviyoCredentials } from "./klaviyo";
+import { mailchimpProvider, type MailchimpCredentials } from "./mailchimp";
+import { sendgridProvider, type SendGridCredentials } from "./sendgrid";
+import type { IntegrationProvider, ProviderTemplate } from "./types";
+
+export * from "./types";
+
+/** Integration types with a provider implementation */
+export const SUPPORTED_INTEGRATION_TYPES = [
+  "mailchimp",
+  "sendgrid",
+  "klaviyo",
+] as const satisfies readonly IntegrationType[];
+
+export type SupportedIntegrationType = (typeof SUPPORTED_INTEGRATION_TYPES)[number];
+
+/** Decrypted credential shape per integration type */
+export interface IntegrationCredentialsMap {
+  mailchimp: MailchimpCredentials;
+  sendgrid: SendGridCredentials;
+  klaviyo: KlaviyoCredentials;
+}
+
+const PROVIDERS: {
+  [K in SupportedIntegrationType]: IntegrationProvider<IntegrationCredentialsMap[K]>;
+} = {
+  mailchimp: mailchimpProvider,
+  sendgrid: sendgridProvider,
+  klaviyo: klaviyoProvider,
+};
+
+export function isSupportedIntegrationType(type: IntegrationType): type is SupportedIntegrationType {
+  return (SUPPORTED_INTEGRATION_TYPES as readonly IntegrationType[]).includes(type);
+}
+
+/**
+ * Look up the provider for an integration type
+ * Returns null for types that have no provider yet (hubspot, custom_api, …)
+ */
+export function getIntegrationProvider(type: IntegrationType): IntegrationProvider | null {
+  return (PROVIDERS as Partial<Record<IntegrationType, IntegrationProvider>>)[type] ?? null;
+}
+
+/**
+ * Prepare a template for an ESP: email-safe HTML with merge tags in the
+ * provider's dialect; declared variable defaults become fallbacks
+ */
+export function buildProviderTemplate(
+  provider: IntegrationProvider,
+  template: {
+    name: string;
+    subject: string | null;
+    previewText: string | null;
+    tableHtmlCode: string;
+    variables?: Array<{ key: string; defaultValue?: string }>;
+  }
+): ProviderTemplate {
+  const defaults = Object.fromEntries(
+    (template.variables ?? []).map((variable) => [variable.key, variable.defaultValue ?? ""])
+  );
+
+  return {
+    name: template.name,
+    subject: template.subject,
+    previewText: template.previewText,
+    html: convertMergeTags(template.tableHtmlCode, provider.mergeTagDialect, defaults),
+  };
+}
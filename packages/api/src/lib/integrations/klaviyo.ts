@@ -0,0 +1,107 @@
+/**
+ * Klaviyo provider
+ * Uses private API keys against the JSON:API endpoints with a pinned revision.
+ */
+
+import { z } from "zod";
+import { providerRequest } from "./http";
+import type { IntegrationProvider, RemoteTemplate } from "./types";
+
+const KLAVIYO_API_URL = "https://a.klaviyo.com/api";
+const KLAVIYO_REVISION = "2024-10-15";
+
+const credentialsSchema = z.object({
+  apiKey: z.string().trim().startsWith("pk_", "Klaviyo private API keys start with pk_"),
+});
+
+export type KlaviyoCredentials = z.infer<typeof credentialsSchema>;
+
+interface KlaviyoTemplate {
+  id: string;
+  attributes: { name: string; updated?: string | null; created?: string | null };
+}
+
+function headers(credentials: KlaviyoCredentials): Record<string, string> {
+  return {
+    Authorization: `Klaviyo-API-Key ${credentials.apiKey}`,
+    revision: KLAVIYO_REVISION,
+    Accept: "application/vnd.api+json",
+    "Content-Type": "application/vnd.api+json",
+  };
+}
+
+function toRemoteTemplate(template: KlaviyoTemplate): RemoteTemplate {
+  return {
+    id: template.id,
+    name: template.attributes.name,
+    updatedAt: template.attributes.updated || template.attributes.created || null,
+  };
+}
+
+export const klaviyoProvider: IntegrationProvider<KlaviyoCredentials> = {
+  type: "klaviyo",
+  displayName: "Klaviyo",
+  mergeTagDialect: "klaviyo",
+  credentialFields: [
+    {
+      key: "apiKey",
+      label: "Private API key",
+      type: "password",
+      placeholder: "pk_xxxxxxxx",
+      helpText: "Needs Templates read/write scope",
+    },
+  ],
+  credentialsSchema,
+
+  async testConnection(credentials) {
+    const result = await providerRequest<{
+      data: Array<{ attributes?: { contact_information?: { organization_name?: string } } }>;
+    }>("klaviyo", `${KLAVIYO_API_URL}/accounts/`, { headers: headers(credentials) });
+
+    return {
+      accountName: result.data[0]?.attributes?.contact_information?.organization_name ?? null,
+    };
+  },
+
+  async pushTemplate(credentials, template) {
+    const result = await providerRequest<{ data: KlaviyoTemplate }>("klaviyo", `${KLAVIYO_API_URL}/templates/`, {
+      method: "POST",
+      headers: headers(credentials),
+      body: {
+        data: {
+          type: "template",
+          attributes: { name: template.name, editor_type: "CODE", html: template.html },
+        },
+      },
+    });
+    return toRemoteTemplate(result.data);
+  },
+
+  async updateTemplate(credentials, remoteTemplateId, template) {
+    const result = await providerRequest<{ data: KlaviyoTemplate }>(
+      "klaviyo",
+      `${KLAVIYO_API_URL}/templates/${encodeURIComponent(remoteTemplateId)}/`,
+      {
+        method: "PATCH",
+        headers: headers(credentials),
+        body: {
+          data: {
+            type: "template",
+            id: remoteTemplateId,
+            attributes: { name: template.name, html: template.html },
+          },
+        },
+      }
+    );
+    return toRemoteTemplate(result.data);
+  },
+
+  async listRemoteTemplates(credentials) {
+    const result = await providerRequest<{ data: KlaviyoTemplate[] }>(
+      "klaviyo",
+      `${KLAVIYO_API_URL}/templates/?sort=-updated`,
+      { headers: headers(credentials) }
+    );
+    return result.data.map(toRemoteTemplate);
+  },
+};
@@ -0,0 +1,102 @@
+/**
+ * Mailchimp Marketing API provider
+ * API keys end in the datacenter suffix (e.g. `…-us21`) which selects the host.
+ */
+
+import { z } from "zod";
+import { providerRequest } from "./http";
+import type { IntegrationProvider, RemoteTemplate } from "./types";
+
+const credentialsSchema = z.object({
+  apiKey: z
+    .string()
+    .trim()
+    .regex(/^[a-f0-9]+-[a-z]+\d+$/i, "Mailchimp API keys look like xxxxxxxx-us21"),
+});
+
+export type MailchimpCredentials = z.infer<typeof credentialsSchema>;
+
+interface MailchimpTemplate {
+  id: number;
+  name: string;
+  date_edited?: string | null;
+  date_created?: string | null;
+}
+
+function baseUrl(credentials: MailchimpCredentials): string {
+  const datacenter = credentials.apiKey.split("-").pop();
+  return `https://${datacenter}.api.mailchimp.com/3.0`;
+}
+
+function headers(credentials: MailchimpCredentials): Record<string, string> {
+  const token = Buffer.from(`mocah:${credentials.apiKey}`).toString("base64");
+  return { Authorization: `Basic ${token}` };
+}
+
+function toRemoteTemplate(template: MailchimpTemplate): RemoteTemplate {
+  return {
+    id: String(template.id),
+    name: template.name,
+    updatedAt: template.date_edited || template.date_created || null,
+  };
+}
+
+export const mailchimpProvider: IntegrationProvider<MailchimpCredentials> = {
+  type: "mailchimp",
+  displayName: "Mailchimp",
+  mergeTagDialect: "mailchimp",
+  credentialFields: [
+    {
+      key: "apiKey",
+      label: "API key",
+      type: "password",
+      placeholder: "xxxxxxxxxxxxxxxx-us21",
+      helpText: "Account → Extras → API keys",
+    },
+  ],
+  credentialsSchema,
+
+  async testConnection(credentials) {
+    const account = await providerRequest<{ account_name?: string }>(
+      "mailchimp",
+      `${baseUrl(credentials)}/`,
+      { headers: headers(credentials) }
+    );
+    return { accountName: account.account_name ?? null };
+  },
+
+  async pushTemplate(credentials, template) {
+    const created = await providerRequest<MailchimpTemplate>(
+      "mailchimp",
+      `${baseUrl(credentials)}/templates`,
+      {
+        method: "POST",
+        headers: headers(credentials),
+        body: { name: template.name.slice(0, 50), html: template.html },
+      }
+    );
+    return toRemoteTemplate(created);
+  },
+
+  async updateTemplate(credentials, remoteTemplateId, template) {
+    const updated = await providerRequest<MailchimpTemplate>(
+      "mailchimp",
+      `${baseUrl(credentials)}/templates/${encodeURIComponent(remoteTemplateId)}`,
+      {
+        method: "PATCH",
+        headers: headers(credentials),
+        body: { name: template.name.slice(0, 50), html: template.html },
+      }
+    );
+    return toRemoteTemplate(updated);
+  },
+
+  async listRemoteTemplates(credentials) {
+    const result = await providerRequest<{ templates: MailchimpTemplate[] }>(
+      "mailchimp",
+      `${baseUrl(credentials)}/templates?type=user&count=100&sort_field=date_edited&sort_dir=DESC`,
+      { headers: headers(credentials) }
+    );
+    return result.templates.map(toRemoteTemplate);
+  },
+};
@@ -0,0 +1,101 @@
+/**
+ * SendGrid v3 provider
+ * Pushes go to dynamic (Handlebars) templates. Content lives on template
+ * versions, so an update creates a new active version.
+ */
+
+import { z } from "zod";
+import { providerRequest } from "./http";
+import type { IntegrationProvider, ProviderTemplate, RemoteTemplate } from "./types";
+
+const SENDGRID_API_URL = "https://api.sendgrid.com/v3";
+
+const credentialsSchema = z.object({
+  apiKey: z.string().trim().startsWith("SG.", "SendGrid API keys start with SG."),
+});
+
+export type SendGridCredentials = z.infer<typeof credentialsSchema>;
+
+interface SendGridTemplate {
+  id: string;
+  name: string;
+  updated_at?: string | null;
+}
+
+function headers(credentials: SendGridCredentials): Record<string, string> {
+  return { Authorization: `Bearer ${credentials.apiKey}` };
+}
+
+async function createVersion(
+  credentials: SendGridCredentials,
+  remoteTemplateId: string,
+  template: ProviderTemplate
+): Promise<{ updated_at?: string | null }> {
+  return providerRequest("sendgrid", `${SENDGRID_API_URL}/templates/${encodeURIComponent(remoteTemplateId)}/versions`, {
+    method: "POST",
+    headers: headers(credentials),
+    body: {
+      name: template.name.slice(0, 100),
+      subject: template.subject || template.name,
+      html_content: template.html,
+      generate_plain_content: true,
+      active: 1,
+    },
+  });
+}
+
+export const sendgridProvider: IntegrationProvider<SendGridCredentials> = {
+  type: "sendgrid",
+  displayName: "SendGrid",
+  mergeTagDialect: "sendgrid",
+  credentialFields: [
+    {
+      key: "apiKey",
+      label: "API key",
+      type: "password",
+      placeholder: "SG.xxxxxxxx",
+      helpText: "Needs Template Engine full access",
+    },
+  ],
+  credentialsSchema,
+
+  async testConnection(credentials) {
+    const profile = await providerRequest<{ username?: string }>(
+      "sendgrid",
+      `${SENDGRID_API_URL}/user/username`,
+      { headers: headers(credentials) }
+    );
+    return { accountName: profile.username ?? null };
+  },
+
+  async pushTemplate(credentials, template) {
+    const created = await providerRequest<SendGridTemplate>("sendgrid", `${SENDGRID_API_URL}/templates`, {
+      method: "POST",
+      headers: headers(credentials),
+      body: { name: template.name.slice(0, 100), generation: "dynamic" },
+    });
+    const version = await createVersion(credentials, created.id, template);
+
+    return { id: created.id, name: created.name, updatedAt: version.updated_at ?? null };
+  },
+
+  async updateTemplate(credentials, remoteTemplateId, template) {
+    const version = await createVersion(credentials, remoteTemplateId, template);
+    return { id: remoteTemplateId, name: template.name, updatedAt: version.updated_at ?? null };
+  },
+
+  async listRemoteTemplates(credentials) {
+    const result = await providerRequest<{ result: SendGridTemplate[] }>(
+      "sendgrid",
+      `${SENDGRID_API_URL}/templates?generations=dynamic&page_size=100`,
+      { headers: headers(credentials) }
+    );
+    return result.result.map(
+      (template): RemoteTemplate => ({
+        id: template.id,
+        name: template.name,
+        updatedAt: template.updated_at ?? null,
+      })
+    );
+  },
+};
@@ -0,0 +1,89 @@
+/**
+ * ESP integration provider contract
+ * Each provider wraps one ESP's REST API behind the same push/update/list
+ * surface so the integration router never deals with vendor specifics.
+ */
+
+import type { z } from "zod";
+import type { IntegrationType } from "@mocah/db";
+import type { MergeTagDialect } from "../merge-tags";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Form field the settings UI renders when connecting a provider */
+export interface CredentialField {
+  key: string;
+  label: string;
+  type: "password" | "text";
+  placeholder?: string;
+  helpText?: string;
+}
+
+/** Template payload sent to an ESP */
+export interface ProviderTemplate {
+  name: string;
+  subject: string | null;
+  previewText: string | null;
+  /** Email-safe HTML with merge tags already converted to the ESP's dialect */
+  html: string;
+}
+
+/** Template as it exists in the ESP account */
+export interface RemoteTemplate {
+  id: string;
+  name: string;
+  updatedAt: string | null;
+}
+
+export interface ConnectionInfo {
+  /** Account or organization name reported by the ESP */
+  accountName: string | null;
+}
+
+export interface IntegrationProvider<TCredentials extends Record<string, string> = Record<string, string>> {
+  type: IntegrationType;
+  displayName: string;
+  mergeTagDialect: MergeTagDialect;
+  credentialFields: CredentialField[];
+  credentialsSchema: z.ZodType<TCredentials>;
+
+  /** Verify the credentials with a cheap authenticated call */
+  testConnection(credentials: TCredentials): Promise<ConnectionInfo>;
+  /** Create a new template in the ESP */
+  pushTemplate(credentials: TCredentials, template: ProviderTemplate): Promise<RemoteTemplate>;
+  /** Replace the content of a template previously pushed */
+  updateTemplate(
+    credentials: TCredentials,
+    remoteTemplateId: string,
+    template: ProviderTemplate
+  ): Promise<RemoteTemplate>;
+  /** List user-created templates in the ESP account */
+  listRemoteTemplates(credentials: TCredentials): Promise<RemoteTemplate[]>;
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Error returned by an ESP API
+ * `status` is the HTTP status, or null when the request never completed.
+ */
+export class IntegrationProviderError extends Error {
+  readonly provider: IntegrationType;
+  readonly status: number | null;
+
+  constructor(provider: IntegrationType, message: string, status: number | null = null) {
+    super(message);
+    this.name = "IntegrationProviderError";
+    this.provider = provider;
+    this.status = status;
+  }
+
+  /** True when the ESP rejected the credentials */
+  get isAuthError(): boolean {
+    return this.status === 401 || this.status === 403;
+  }
+}
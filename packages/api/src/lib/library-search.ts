@@ -0,0 +1,301 @@
+/**
+ * Template library search
+ * Full-text matching, filtering, facet counts and paging all run in Postgres.
+ * Each facet is counted with every other filter applied but not its own, so
+ * selecting a category still shows how many entries the others have.
+ */
+
+import { Prisma, type PrismaClient } from "@mocah/db";
+import { COLOR_FAMILIES, type ColorFamily } from "@mocah/shared/constants";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LibrarySearchFilters {
+  /** Category slugs - an entry matches if it is in any of them */
+  categories?: string[];
+  tags?: string[];
+  industries?: string[];
+  colors?: ColorFamily[];
+  isPremium?: boolean;
+}
+
+type FacetKey = keyof LibrarySearchFilters;
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface LibraryFacets {
+  categories: FacetCount[];
+  tags: FacetCount[];
+  industries: FacetCount[];
+  colors: FacetCount[];
+  premium: { premium: number; free: number };
+}
+
+// ============================================================================
+// Full-text query
+// ============================================================================
+
+/**
+ * Turn free text into a to_tsquery expression where every word must match
+ * as a prefix, so "news lett" finds "Newsletter". Returns null when the
+ * text has no searchable words.
+ */
+export function toPrefixTsQuery(search: string | undefined): string | null {
+  const words = (search ?? "").toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (words.length === 0) return null;
+  return [...new Set(words)].map((word) => `${word}:*`).join(" & ");
+}
+
+// ============================================================================
+// Colors
+// ============================================================================
+
+/**
+ * Bucket a hex color into a named family by hue
+ */
+export function getColorFamily(hex: string): ColorFamily | null {
+  const match = /^#?([0-9a-f]{6}|[0-9a-f]{3})$/i.exec(hex.trim());
+  if (!match) return null;
+
+  const value =
+    match[1]!.length === 3
+      ? match[1]!.split("").map((c) => c + c).join("")
+      : match[1]!;
+  const r = parseInt(value.slice(0, 2), 16) / 255;
+  const g = parseInt(value.slice(2, 4), 16) / 255;
+  const b = parseInt(value.slice(4, 6), 16) / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+
+  if (delta === 0) return "neutral";
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+  if (saturation < 0.2 || lightness < 0.1 || lightness > 0.95) return "neutral";
+
+  let hue: number;
+  if (max === r) hue = ((g - b) / delta) % 6;
+  else if (max === g) hue = (b - r) / delta + 2;
+  else hue = (r - g) / delta + 4;
+  hue = (hue * 60 + 360) % 360;
+
+  if (hue < 15 || hue >= 345) return "red";
+  if (hue < 45) return "orange";
+  if (hue < 70) return "yellow";
+  if (hue < 160) return "green";
+  if (hue < 195) return "teal";
+  if (hue < 255) return "blue";
+  if (hue < 290) return "purple";
+  return "pink";
+}
+
+/**
+ * Distinct color families of a palette, in palette order
+ */
+export function getColorFamilies(palette: string[]): ColorFamily[] {
+  const families = new Set<ColorFamily>();
+  for (const hex of palette) {
+    const family = getColorFamily(hex);
+    if (family) families.add(family);
+  }
+  return [...families];
+}
+
+// ============================================================================
+// SQL
+// ============================================================================
+
+/** Library rows are aliased "tl" in every query below */
+const LIBRARY_TABLE = Prisma.sql`"template_library" tl`;
+
+/**
+ * Category slugs of an entry: its category relations, or the primary
+ * category for entries without any
+ */
+const ENTRY_CATEGORIES = Prisma.sql`(
+  SELECT c."slug" AS "value"
+  FROM "template_library_category_relation" r
+  JOIN "template_category" c ON c."id" = r."categoryId"
+  WHERE r."templateLibraryId" = tl."id"
+  UNION
+  SELECT tl."category"
+  WHERE tl."category" IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM "template_library_category_relation" r WHERE r."templateLibraryId" = tl."id"
+    )
+)`;
+
+/** Values each facet counts, one row per value of an entry */
+const FACET_VALUES: Record<FacetKey, Prisma.Sql> = {
+  categories: Prisma.sql`LATERAL ${ENTRY_CATEGORIES} v`,
+  tags: Prisma.sql`LATERAL unnest(tl."tags") AS v("value")`,
+  industries: Prisma.sql`LATERAL (SELECT tl."industry" AS "value" WHERE tl."industry" IS NOT NULL) v`,
+  colors: Prisma.sql`LATERAL unnest(tl."colorFamilies") AS v("value")`,
+  isPremium: Prisma.sql`LATERAL (SELECT tl."isPremium"::text AS "value") v`,
+};
+
+function textArray(values: string[]): Prisma.Sql {
+  return Prisma.sql`ARRAY[${Prisma.join(values)}]::text[]`;
+}
+
+/**
+ * WHERE conditions for live entries matching the search and filters
+ * Values within a facet are OR-ed, facets are AND-ed together. `ignore`
+ * leaves one facet out, for counting that facet.
+ */
+export function buildLibraryWhereSql(
+  filters: LibrarySearchFilters,
+  tsQuery: string | null,
+  ignore?: FacetKey
+): Prisma.Sql {
+  const conditions = [Prisma.sql`tl."deletedAt" IS NULL`];
+  const selected = (facet: Exclude<FacetKey, "isPremium">) =>
+    facet !== ignore && filters[facet]?.length ? filters[facet] : null;
+
+  if (tsQuery) {
+    conditions.push(Prisma.sql`tl."searchVector" @@ to_tsquery('english', ${tsQuery})`);
+  }
+
+  const categories = selected("categories");
+  if (categories) {
+    conditions.push(
+      Prisma.sql`EXISTS (SELECT 1 FROM ${ENTRY_CATEGORIES} v WHERE v."value" IN (${Prisma.join(categories)}))`
+    );
+  }
+
+  const tags = selected("tags");
+  if (tags) conditions.push(Prisma.sql`tl."tags" && ${textArray(tags)}`);
+
+  const industries = selected("industries");
+  if (industries) conditions.push(Prisma.sql`tl."industry" IN (${Prisma.join(industries)})`);
+
+  const colors = selected("colors");
+  if (colors) conditions.push(Prisma.sql`tl."colorFamilies" && ${textArray(colors)}`);
+
+  if (ignore !== "isPremium" && filters.isPremium !== undefined) {
+    conditions.push(Prisma.sql`tl."isPremium" = ${filters.isPremium}`);
+  }
+
+  return Prisma.join(conditions, " AND ");
+}
+
+/**
+ * Counts of one facet's values, with every other filter applied but not its own
+ */
+export function buildFacetCountSql(
+  facet: FacetKey,
+  filters: LibrarySearchFilters,
+  tsQuery: string | null
+): Prisma.Sql {
+  return Prisma.sql`
+    SELECT v."value", COUNT(*)::int AS "count"
+    FROM ${LIBRARY_TABLE} CROSS JOIN ${FACET_VALUES[facet]}
+    WHERE ${buildLibraryWhereSql(filters, tsQuery, facet)}
+    GROUP BY v."value"
+  `;
+}
+
+/**
+ * Ids of one page of matching entries
+ * Best matches first when searching, newest first otherwise. The cursor is
+ * the id of the last entry of the previous page; a cursor that no longer
+ * exists yields an empty page rather than starting over.
+ */
+export function buildLibraryPageSql(
+  filters: LibrarySearchFilters,
+  tsQuery: string | null,
+  { limit, cursor }: { limit: number; cursor?: string }
+): Prisma.Sql {
+  const rank = tsQuery
+    ? Prisma.sql`ts_rank(tl."searchVector", to_tsquery('english', ${tsQuery}))`
+    : Prisma.sql`0`;
+  const after = cursor
+    ? Prisma.sql`AND (${rank}, tl."createdAt", tl."id") < (
+        SELECT ${rank}, tl."createdAt", tl."id" FROM ${LIBRARY_TABLE} WHERE tl."id" = ${cursor}
+      )`
+    : Prisma.empty;
+
+  return Prisma.sql`
+    SELECT tl."id"
+    FROM ${LIBRARY_TABLE}
+    WHERE ${buildLibraryWhereSql(filters, tsQuery)} ${after}
+    ORDER BY ${rank} DESC, tl."createdAt" DESC, tl."id" DESC
+    LIMIT ${limit}
+  `;
+}
+
+export function buildLibraryCountSql(filters: LibrarySearchFilters, tsQuery: string | null): Prisma.Sql {
+  return Prisma.sql`SELECT COUNT(*)::int AS "count" FROM ${LIBRARY_TABLE} WHERE ${buildLibraryWhereSql(filters, tsQuery)}`;
+}
+
+// ============================================================================
+// Facets
+// ============================================================================
+
+function sortFacetCounts(counts: FacetCount[]): FacetCount[] {
+  return [...counts].sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/**
+ * Shape per-facet counts for the sidebar
+ * Colors keep the spectrum order; other facets list the most used first.
+ */
+export function toLibraryFacets(counts: Record<FacetKey, FacetCount[]>): LibraryFacets {
+  const premium = counts.isPremium;
+
+  return {
+    categories: sortFacetCounts(counts.categories),
+    tags: sortFacetCounts(counts.tags),
+    industries: sortFacetCounts(counts.industries),
+    colors: counts.colors
+      .filter((facet) => COLOR_FAMILIES.includes(facet.value as ColorFamily))
+      .sort(
+        (a, b) =>
+          COLOR_FAMILIES.indexOf(a.value as ColorFamily) -
+          COLOR_FAMILIES.indexOf(b.value as ColorFamily)
+      ),
+    premium: {
+      premium: premium.find((facet) => facet.value === "true")?.count ?? 0,
+      free: premium.find((facet) => facet.value === "false")?.count ?? 0,
+    },
+  };
+}
+
+/**
+ * One page of library entry ids, the total and the facet counts
+ * Filtering, counting and paging all run in Postgres, so the cost follows
+ * the page size rather than the size of the library.
+ */
+export async function searchLibrary(
+  db: PrismaClient,
+  filters: LibrarySearchFilters,
+  { search, limit, cursor }: { search?: string; limit: number; cursor?: string }
+) {
+  const tsQuery = toPrefixTsQuery(search);
+  const countFacet = (facet: FacetKey) =>
+    db.$queryRaw<FacetCount[]>(buildFacetCountSql(facet, filters, tsQuery));
+
+  const [page, [total], categories, tags, industries, colors, isPremium] = await Promise.all([
+    db.$queryRaw<{ id: string }[]>(buildLibraryPageSql(filters, tsQuery, { limit: limit + 1, cursor })),
+    db.$queryRaw<{ count: number }[]>(buildLibraryCountSql(filters, tsQuery)),
+    countFacet("categories"),
+    countFacet("tags"),
+    countFacet("industries"),
+    countFacet("colors"),
+    countFacet("isPremium"),
+  ]);
+
+  const ids = page.slice(0, limit).map((row) => row.id);
+
+  return {
+    ids,
+    nextCursor: page.length > limit ? ids[ids.length - 1] : undefined,
+    total: total?.count ?? 0,
+    facets: toLibraryFacets({ categories, tags, industries, colors, isPremium }),
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Organization member role rules
+ * Owners can do everything, admins manage members and invitations but can't
+ * touch owners or hand out the owner role.
+ */
+
+import { isOrganizationAdmin } from "./template-permissions";
+
+export const ORGANIZATION_ROLES = ["owner", "admin", "member"] as const;
+
+export type OrganizationRole = (typeof ORGANIZATION_ROLES)[number];
+
+/** Roles an invitation can carry - ownership is transferred with changeRole */
+export const INVITABLE_ROLES = ["admin", "member"] as const satisfies readonly OrganizationRole[];
+
+export const INVITATION_EXPIRY_DAYS = 7;
+
+/**
+ * Whether someone with actorRoles may give a member the role
+ */
+export function canAssignRole(actorRoles: string[], role: string): boolean {
+  if (role === "owner") return actorRoles.includes("owner");
+  return isOrganizationAdmin(actorRoles);
+}
+
+/**
+ * Reason a member can't be changed or removed by the actor, or null if allowed
+ *
+ * @param newRole - Target role for a role change; omit when removing the member
+ */
+export function getMemberChangeError({
+  actorUserId,
+  actorRoles,
+  target,
+  newRole,
+}: {
+  actorUserId: string;
+  actorRoles: string[];
+  target: { userId: string; roles: string[] };
+  newRole?: string;
+}): string | null {
+  if (target.userId === actorUserId) {
+    return newRole ? "You can't change your own role" : "You can't remove yourself from the workspace";
+  }
+
+  if (!isOrganizationAdmin(actorRoles)) {
+    return "Only workspace owners and admins can manage members";
+  }
+
+  if (target.roles.includes("owner") && !actorRoles.includes("owner")) {
+    return "Only owners can change another owner";
+  }
+
+  if (newRole && !canAssignRole(actorRoles, newRole)) {
+    return "Only owners can make someone an owner";
+  }
+
+  return null;
+}
+
+/**
+ * Invitations past their expiry are treated as expired even before a sweep
+ * updates their status
+ */
+export function getInvitationStatus(invitation: { status: string; expiresAt: Date }, now = new Date()): string {
+  if (invitation.status === "pending" && invitation.expiresAt <= now) return "expired";
+  return invitation.status;
+}
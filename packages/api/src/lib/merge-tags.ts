@@ -0,0 +1,147 @@
+/**
+ * Merge tag conversion for ESP exports
+ * Templates use `{{name}}` or `{{name|fallback}}` placeholders; each ESP has
+ * its own personalization syntax and unsubscribe tag.
+ */
+
+import { stripQuotes, VARIABLE_TAG_PATTERN } from "@mocah/shared/template-variables";
+
+export type MergeTagDialect =
+  | "mailchimp"
+  | "sendgrid"
+  | "campaign_monitor"
+  | "constant_contact"
+  | "klaviyo"
+  | "liquid";
+
+export interface MergeTag {
+  name: string;
+  fallback: string | null;
+}
+
+// Well-known fields that ESPs name differently
+const MAILCHIMP_FIELD_ALIASES: Record<string, string> = {
+  firstname: "FNAME",
+  first_name: "FNAME",
+  lastname: "LNAME",
+  last_name: "LNAME",
+  email: "EMAIL",
+  phone: "PHONE",
+  address: "ADDRESS",
+};
+
+// Klaviyo profile properties exposed as top-level template variables
+const KLAVIYO_PROFILE_FIELDS: Record<string, string> = {
+  firstname: "first_name",
+  first_name: "first_name",
+  lastname: "last_name",
+  last_name: "last_name",
+  email: "email",
+  phone: "phone_number",
+  company: "organization",
+  organization: "organization",
+};
+
+const UNSUBSCRIBE_URLS: Record<MergeTagDialect, string | null> = {
+  mailchimp: "*|UNSUB|*",
+  sendgrid: "<%asm_group_unsubscribe_raw_url%>",
+  campaign_monitor: "[unsubscribe]",
+  constant_contact: null, // Constant Contact appends its own unsubscribe footer
+  klaviyo: "{% unsubscribe_url %}",
+  liquid: null, // Liquid platforms (Braze, Customer.io, …) each name this differently
+};
+
+function toMailchimpField(name: string): string {
+  const normalized = name.toLowerCase();
+  if (MAILCHIMP_FIELD_ALIASES[normalized]) return MAILCHIMP_FIELD_ALIASES[normalized]!;
+  // Mailchimp merge fields are uppercase alphanumerics, max 10 chars
+  return name.replace(/[^a-zA-Z0-9]/g, "").toUpperCase().slice(0, 10) || "FIELD";
+}
+
+function toKlaviyoVariable(name: string): string {
+  const field = KLAVIYO_PROFILE_FIELDS[name.toLowerCase()];
+  // Custom properties are read through the person lookup filter
+  return field ?? `person|lookup:'${name}'`;
+}
+
+/**
+ * Render one merge tag in an ESP's syntax
+ */
+export function formatMergeTag(tag: MergeTag, dialect: MergeTagDialect): string {
+  switch (dialect) {
+    case "mailchimp": {
+      const field = toMailchimpField(tag.name);
+      return tag.fallback
+        ? `*|IF:${field}|**|${field}|**|ELSE:|*${tag.fallback}*|END:IF|*`
+        : `*|${field}|*`;
+    }
+    case "sendgrid":
+      return tag.fallback
+        ? `{{#if ${tag.name}}}{{${tag.name}}}{{else}}${tag.fallback}{{/if}}`
+        : `{{${tag.name}}}`;
+    case "campaign_monitor":
+      return `[${tag.name.toLowerCase()},fallback=${tag.fallback ?? ""}]`;
+    case "constant_contact":
+      return tag.fallback
+        ? `[[${tag.name} OR "${tag.fallback.replace(/"/g, "'")}"]]`
+        : `[[${tag.name}]]`;
+    case "klaviyo": {
+      const variable = toKlaviyoVariable(tag.name);
+      return tag.fallback
+        ? `{{ ${variable}|default:"${tag.fallback.replace(/"/g, "'")}" }}`
+        : `{{ ${variable} }}`;
+    }
+    case "liquid":
+      return tag.fallback
+        ? `{{ ${tag.name} | default: "${tag.fallback.replace(/"/g, "'")}" }}`
+        : `{{ ${tag.name} }}`;
+  }
+}
+
+/**
+ * Find all merge tags in a document
+ */
+export function extractMergeTags(content: string): MergeTag[] {
+  const tags = new Map<string, MergeTag>();
+  for (const match of content.matchAll(VARIABLE_TAG_PATTERN)) {
+    const name = match[1]!;
+    if (!tags.has(name)) {
+      tags.set(name, { name, fallback: match[2] ? stripQuotes(match[2]) : null });
+    }
+  }
+  return [...tags.values()];
+}
+
+/**
+ * Rewrite merge tags and unsubscribe links into an ESP's syntax
+ * Unsubscribe links are anchors whose href or text mentions "unsubscribe".
+ * `defaults` supplies fallbacks (declared variable defaults) for tags without
+ * an inline one.
+ */
+export function convertMergeTags(
+  html: string,
+  dialect: MergeTagDialect,
+  defaults: Record<string, string> = {}
+): string {
+  let converted = html.replace(VARIABLE_TAG_PATTERN, (_, name: string, fallback?: string) =>
+    formatMergeTag(
+      { name, fallback: fallback ? stripQuotes(fallback) : defaults[name] || null },
+      dialect
+    )
+  );
+
+  const unsubscribeUrl = UNSUBSCRIBE_URLS[dialect];
+  if (unsubscribeUrl) {
+    converted = converted.replace(
+      /<a\b([^>]*?)href="([^"]*)"([^>]*)>([\s\S]*?)<\/a>/gi,
+      (anchor, before: string, href: string, after: string, text: string) => {
+        const isUnsubscribe = /unsubscribe/i.test(href) || /unsubscribe/i.test(text);
+        return isUnsubscribe
+          ? `<a${before}href="${unsubscribeUrl}"${after}>${text}</a>`
+          : anchor;
+      }
+    );
+  }
+
+  return converted;
+}
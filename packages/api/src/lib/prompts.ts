@@ -1,4 +1,9 @@
 import { z } from "zod";
+import {
+  DESIGN_TOKENS,
+  formatDesignTokenReference,
+  resolveDesignTokens,
+} from "@mocah/shared";
 
 /**
  * Optimized prompt templates for AI React Email generation
@@ -14,6 +19,7 @@ interface BrandKit {
 
   // Typography & Voice
   fontFamily?: string | null;
+  webFonts?: unknown;
   brandVoice?: string | null; // "professional", "casual", "playful", "luxury"
 
   // Brand assets
@@ -47,10 +53,20 @@ interface BrandKit {
   links?: string[] | null;
 }
 
+interface PromptVariable {
+  key: string;
+  label?: string;
+  type?: string;
+  defaultValue?: string;
+  description?: string;
+}
+
 interface PromptConfig {
   includeExamples?: boolean;
   includeValidation?: boolean;
   verbosity?: "minimal" | "standard" | "detailed";
+  /** Personalization variables declared on the template */
+  variables?: PromptVariable[];
 }
 
 // ============================================================================
@@ -197,6 +213,17 @@ EMAIL LENGTH TARGETS:
 
 - Newsletter: 150-300 words total`;
 
+// ============================================================================
+// PERSONALIZATION VARIABLES - ~120 tokens
+// ============================================================================
+
+const VARIABLE_GUIDELINES = `PERSONALIZATION (merge tags):
+- Write variables as literal tags: {{first_name}} or {{first_name|there}} (inline fallback)
+- In JSX text, wrap the tag in a string expression: <Text>Hi {"{{first_name|there}}"},</Text>
+- In attributes, inline the tag: href="https://shop.com/orders/{{order.id}}"
+- Keys are lowercase identifiers with dots for nesting (order.total)
+- NEVER replace a declared variable with made-up example data`;
+
 // ============================================================================
 // VALIDATION CHECKLIST (Modular) - ~100 tokens
 // ============================================================================
@@ -229,6 +256,51 @@ Balance distinction with restraint. Effective emails are concise and focused.
 // PROMPT BUILDERS
 // ============================================================================
 
+/**
+ * Build brand token section: brand styles are written as `brand.*`
+ * references so templates follow later brand kit changes
+ */
+function buildDesignTokensSection(brandKit?: BrandKit): string {
+  if (!brandKit) return "";
+
+  const tokens = resolveDesignTokens(brandKit);
+  const lines = DESIGN_TOKENS.map(
+    (token) => `- ${formatDesignTokenReference(token.name)} = "${tokens[token.name]}" (${token.label.toLowerCase()})`
+  );
+
+  return `BRAND TOKENS:
+For brand styles, reference the \`brand\` object instead of writing the values:
+${lines.join("\n")}
+- Example: const button = { backgroundColor: brand.primary, color: '#ffffff', borderRadius: brand.radius, fontFamily: brand.fontFamily };
+- \`brand\` is provided at render time - never import, declare or redefine it
+- Use literal values only for colors that aren't part of the brand${
+    tokens.webFonts
+      ? "\n- The brand font is a web font loaded through <Head> - always render a <Head> and use brand.fontFamily for text, never a bare font name"
+      : ""
+  }`;
+}
+
+/**
+ * Build personalization section listing the template's declared variables
+ */
+function buildVariablesSection(variables?: PromptVariable[]): string {
+  if (!variables || variables.length === 0) return VARIABLE_GUIDELINES;
+
+  const lines = variables.map((variable) => {
+    const details = [
+      variable.type && variable.type !== "text" ? variable.type : null,
+      variable.label || variable.description || null,
+      variable.defaultValue ? `default "${variable.defaultValue}"` : null,
+    ].filter(Boolean);
+    return `- {{${variable.key}}}${details.length > 0 ? ` (${details.join(", ")})` : ""}`;
+  });
+
+  return `${VARIABLE_GUIDELINES}
+
+DECLARED VARIABLES (use these where personalization fits, keep existing tags):
+${lines.join("\n")}`;
+}
+
 /**
  * Build comprehensive brand context section for AI
  * Includes company info, personality, colors, and design guidelines
@@ -400,9 +472,11 @@ IMPORTANT: Pay close attention to the user's language to understand their intent
     CRITICAL_RULES,
     COMPONENT_REFERENCE,
     STYLE_GUIDELINES,
+    buildDesignTokensSection(brandKit),
     SOCIAL_ICONS_CDN,
     IMAGE_PLACEHOLDERS,
-    CONTENT_GUIDELINES
+    CONTENT_GUIDELINES,
+    buildVariablesSection(config.variables)
   );
 
   if (verbosity !== "minimal") {
@@ -424,7 +498,8 @@ IMPORTANT: Pay close attention to the user's language to understand their intent
 export function buildReactEmailRegenerationPrompt(
   userPrompt: string,
   currentTemplateCode: string,
-  brandKit?: BrandKit
+  brandKit?: BrandKit,
+  variables?: PromptVariable[]
 ): string {
   return `Modify existing React Email template.
 
@@ -447,13 +522,20 @@ MODIFICATION RULES:
 - Only modify what user requested
 - Keep all existing content not mentioned
 - Respect previous customizations
+- Keep every data-mocah-id attribute exactly as-is on the elements you keep (even when you edit or move them)
+- Never copy a data-mocah-id onto another element or invent one; leave it off new elements
+- Keep brand.* token references (e.g. brand.primary) as references; don't replace them with values
 
 ${CRITICAL_RULES}
 
+${buildDesignTokensSection(brandKit)}
+
 ${SOCIAL_ICONS_CDN}
 
 ${IMAGE_PLACEHOLDERS}
 
+${buildVariablesSection(variables)}
+
 ${VALIDATION_CHECKLIST}
 
 Return complete modified component code.`;
@@ -645,6 +727,64 @@ export function buildImageGenerationPrompt(
   return `${userPrompt}${brandContext}`;
 }
 
+// ============================================================================
+// TRANSLATION PROMPTS
+// ============================================================================
+
+interface TranslationRequest {
+  sourceLanguage: string;
+  targetLanguage: string;
+  strings: Array<{ key: string; text: string }>;
+  subject?: string | null;
+  previewText?: string | null;
+}
+
+/**
+ * Build prompt for translating a template's string table
+ * Brand voice and tone carry over so translated copy sounds like the brand.
+ */
+export function buildTranslationPrompt(request: TranslationRequest, brandKit?: BrandKit): string {
+  const voiceParts: string[] = [];
+  if (brandKit?.companyName) voiceParts.push(`Company: ${brandKit.companyName}`);
+  if (brandKit?.brandVoice) voiceParts.push(`Voice: ${brandKit.brandVoice}`);
+  if (brandKit?.brandTone) voiceParts.push(`Tone: ${brandKit.brandTone}`);
+  if (brandKit?.brandEnergy) voiceParts.push(`Energy: ${brandKit.brandEnergy}`);
+  if (brandKit?.targetAudience) voiceParts.push(`Audience: ${brandKit.targetAudience}`);
+
+  const lines = request.strings.map((entry) => `${entry.key}: ${JSON.stringify(entry.text)}`);
+
+  return `Translate email copy from ${request.sourceLanguage} to ${request.targetLanguage}.
+${voiceParts.length > 0 ? `\nBRAND VOICE: ${voiceParts.join(" | ")}\nWrite as this brand would in ${request.targetLanguage}: match the voice and formality, not the literal wording.\n` : ""}
+RULES:
+- Keep merge tags exactly as written: {{first_name}}, {{order.total}}. Only a fallback after "|" may be translated
+- Keep the company name, product names, URLs and email addresses unchanged
+- Keep strings about as long as the source; buttons and headings must stay short
+- Use natural, idiomatic ${request.targetLanguage} for marketing email, not word-for-word translation
+- Return every key exactly once, with the same key
+
+${request.subject ? `SUBJECT: ${JSON.stringify(request.subject)}\n` : ""}${request.previewText ? `PREVIEW TEXT: ${JSON.stringify(request.previewText)}\n` : ""}
+STRINGS:
+${lines.join("\n")}`;
+}
+
+/**
+ * Zod schema for translation output
+ */
+export const translationSchema = z.object({
+  subject: z.string().optional().describe("Translated subject line, if one was provided"),
+  previewText: z.string().optional().describe("Translated preview text, if provided"),
+  translations: z
+    .array(
+      z.object({
+        key: z.string().describe("Key of the source string"),
+        text: z.string().describe("Translated text"),
+      })
+    )
+    .describe("One translation per source string"),
+});
+
+export type TranslationOutput = z.infer<typeof translationSchema>;
+
 // ============================================================================
 // UTILITY EXPORTS (for prompt caching strategies)
 // ============================================================================
@@ -657,6 +797,7 @@ export const STATIC_PROMPT_SECTIONS = {
   socialIconsCdn: SOCIAL_ICONS_CDN,
   imagePlaceholders: IMAGE_PLACEHOLDERS,
   contentGuidelines: CONTENT_GUIDELINES,
+  variableGuidelines: VARIABLE_GUIDELINES,
   validation: VALIDATION_CHECKLIST,
   designPhilosophy: DESIGN_PHILOSOPHY,
 } as const;
@@ -665,6 +806,8 @@ export const STATIC_PROMPT_SECTIONS = {
 export function estimateTokenCount(config: PromptConfig = {}): number {
   const baseTokens = 400; // Request + critical rules
   let total = baseTokens;
+
+  total += 120; // Personalization guidelines
   
   if (config.verbosity !== "minimal") {
     total += 200; // Design philosophy
@@ -0,0 +1,80 @@
+/**
+ * ApiFlash screenshot provider
+ * Hosted Chromium; needs the HTML at a public URL, so the document is
+ * uploaded to a temporary S3 path for the duration of the capture.
+ */
+
+import { DeleteObjectCommand, PutObjectCommand } from "@aws-sdk/client-s3";
+import { serverEnv } from "@mocah/config/env";
+import { logger } from "@mocah/shared";
+import { getPublicUrl, s3Client, TIGRIS_BUCKET } from "../s3";
+import type { ScreenshotProvider, ScreenshotRequest } from "./types";
+
+const APIFLASH_URL = "https://api.apiflash.com/v1/urltoimage";
+
+async function deleteTempHtml(key: string): Promise<void> {
+  try {
+    await s3Client.send(new DeleteObjectCommand({ Bucket: TIGRIS_BUCKET, Key: key }));
+  } catch (error) {
+    // Non-critical, continue
+    logger.warn("⚠️ [Screenshot] Failed to clean up temp HTML file", {
+      key,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+export const apiflashProvider: ScreenshotProvider = {
+  name: "apiflash",
+
+  async isAvailable() {
+    return !!serverEnv.APIFLASH_API_KEY;
+  },
+
+  async capture(request: ScreenshotRequest) {
+    const tempHtmlKey = `temp-screenshots/${request.id}-${Date.now()}.html`;
+
+    // Step 1: Upload HTML to temporary S3 location (public access)
+    await s3Client.send(
+      new PutObjectCommand({
+        Bucket: TIGRIS_BUCKET,
+        Key: tempHtmlKey,
+        Body: Buffer.from(request.html, "utf-8"),
+        ContentType: "text/html",
+        CacheControl: "no-cache",
+      })
+    );
+
+    try {
+      // Step 2: Capture screenshot using ApiFlash
+      const formData = new URLSearchParams({
+        access_key: serverEnv.APIFLASH_API_KEY!,
+        url: getPublicUrl(tempHtmlKey),
+        format: "png",
+        width: request.width.toString(),
+        height: request.height.toString(),
+        full_page: "false",
+        scale_factor: request.scale.toString(),
+        fresh: "true", // Don't use cache
+        wait_until: "network_idle", // Ensure page is fully rendered
+        scroll_page: "false",
+      });
+
+      const response = await fetch(APIFLASH_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: formData.toString(),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`ApiFlash error: ${response.status} - ${error}`);
+      }
+
+      return Buffer.from(await response.arrayBuffer());
+    } finally {
+      // Step 3: Clean up temporary HTML file
+      await deleteTempHtml(tempHtmlKey);
+    }
+  },
+};
@@ -0,0 +1,161 @@
+/**
+ * Template screenshots
+ * Provider registry plus thumbnail generation for library cards and the
+ * dashboard. Captures go through a ScreenshotProvider, get resized with
+ * createThumbnail and are uploaded to S3. At most MAX_CONCURRENT_CAPTURES
+ * run at once; the rest wait their turn.
+ */
+
+import { PutObjectCommand } from "@aws-sdk/client-s3";
+import { serverEnv } from "@mocah/config/env";
+import { logger } from "@mocah/shared";
+import { createThumbnail } from "../image-processing";
+import { generateStoragePath, getPublicUrl, s3Client, TIGRIS_BUCKET } from "../s3";
+import { apiflashProvider } from "./apiflash";
+import { playwrightProvider } from "./playwright";
+import {
+  SCREENSHOT_VIEWPORT,
+  type ScreenshotProvider,
+  type ScreenshotProviderName,
+} from "./types";
+
+export * from "./types";
+export { closeScreenshotBrowser } from "./playwright";
+
+const PROVIDERS: Record<ScreenshotProviderName, ScreenshotProvider> = {
+  playwright: playwrightProvider,
+  apiflash: apiflashProvider,
+};
+
+/** Each local capture holds a browser context, so keep a small ceiling */
+const MAX_CONCURRENT_CAPTURES = 2;
+
+let activeCaptures = 0;
+const captureQueue: Array<() => void> = [];
+
+/**
+ * Run a capture once a slot is free
+ */
+async function withCaptureSlot<T>(capture: () => Promise<T>): Promise<T> {
+  if (activeCaptures >= MAX_CONCURRENT_CAPTURES) {
+    await new Promise<void>((resolve) => captureQueue.push(resolve));
+  }
+  activeCaptures++;
+  try {
+    return await capture();
+  } finally {
+    activeCaptures--;
+    captureQueue.shift()?.();
+  }
+}
+
+/**
+ * Pick a provider: SCREENSHOT_PROVIDER wins, otherwise ApiFlash when it's
+ * configured (hosts without Chromium) and local Chromium everywhere else
+ */
+export function resolveScreenshotProviderName(options: {
+  preferred?: ScreenshotProviderName;
+  apiflashConfigured: boolean;
+}): ScreenshotProviderName {
+  if (options.preferred) return options.preferred;
+  return options.apiflashConfigured ? "apiflash" : "playwright";
+}
+
+/**
+ * Look up the configured provider
+ * Returns null if the selected provider isn't usable in this environment
+ */
+export async function getScreenshotProvider(): Promise<ScreenshotProvider | null> {
+  const provider =
+    PROVIDERS[
+      resolveScreenshotProviderName({
+        preferred: serverEnv.SCREENSHOT_PROVIDER,
+        apiflashConfigured: await apiflashProvider.isAvailable(),
+      })
+    ];
+  return (await provider.isAvailable()) ? provider : null;
+}
+
+/**
+ * Capture an HTML document as a PNG
+ * @returns Image buffer, or null if no provider is available or capture fails
+ */
+export async function captureScreenshot(id: string, html: string): Promise<Buffer | null> {
+  const provider = await getScreenshotProvider();
+  if (!provider) {
+    logger.warn("⚠️ [Screenshot] No screenshot provider available, skipping capture");
+    return null;
+  }
+
+  const { width, height, scale } = SCREENSHOT_VIEWPORT;
+  const startTime = Date.now();
+
+  try {
+    const buffer = await withCaptureSlot(() =>
+      provider.capture({ id, html, width, height, scale })
+    );
+
+    logger.info("📸 [Screenshot] Captured", {
+      id,
+      provider: provider.name,
+      durationMs: Date.now() - startTime,
+    });
+
+    return buffer;
+  } catch (error) {
+    logger.error("❌ [Screenshot] Capture failed", {
+      id,
+      provider: provider.name,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+interface ScreenshotOptions {
+  templateId: string;
+  htmlCode: string;
+  /** "preview" for library cards and modals, "thumbnail" for dashboard grids */
+  size?: "preview" | "thumbnail";
+  /** S3 folder for the image */
+  storagePrefix?: string;
+}
+
+/**
+ * Generate a thumbnail of HTML content and upload it to S3
+ * @returns S3 URL of the uploaded thumbnail, or null if generation is skipped
+ */
+export async function generateTemplateScreenshot({
+  templateId,
+  htmlCode,
+  size = "preview",
+  storagePrefix = "library-thumbnails",
+}: ScreenshotOptions): Promise<string | null> {
+  const screenshot = await captureScreenshot(templateId, htmlCode);
+  if (!screenshot) return null;
+
+  try {
+    const thumbnail = await createThumbnail(screenshot, size);
+
+    // Unique key per capture - thumbnails are served with immutable caching
+    const key = generateStoragePath(`${templateId}.webp`, storagePrefix);
+    await s3Client.send(
+      new PutObjectCommand({
+        Bucket: TIGRIS_BUCKET,
+        Key: key,
+        Body: thumbnail.buffer,
+        ContentType: "image/webp",
+        CacheControl: "public, max-age=31536000, immutable",
+      })
+    );
+
+    return getPublicUrl(key);
+  } catch (error) {
+    // Don't throw - gracefully degrade to no thumbnail
+    logger.error("❌ [Screenshot] Failed to store thumbnail", {
+      templateId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
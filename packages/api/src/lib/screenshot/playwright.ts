@@ -0,0 +1,113 @@
+/**
+ * Local headless Chromium screenshot provider (Playwright)
+ * Renders the HTML directly with page.setContent - nothing is uploaded. One
+ * browser is shared per process; each capture gets an isolated context with
+ * JavaScript disabled, like an email client.
+ *
+ * Requires a Chromium build: `pnpm exec playwright install chromium`, or set
+ * SCREENSHOT_CHROMIUM_PATH to an existing executable. The provider reports
+ * itself unavailable when no executable is found, and for a while after a
+ * failed launch.
+ */
+
+import { existsSync } from "node:fs";
+import type { Browser } from "playwright-core";
+import { serverEnv } from "@mocah/config/env";
+import { logger } from "@mocah/shared";
+import type { ScreenshotProvider, ScreenshotRequest } from "./types";
+
+const CAPTURE_TIMEOUT_MS = 20_000;
+/** Don't try launching again for this long after a launch fails */
+const LAUNCH_RETRY_MS = 10 * 60_000;
+
+let browserPromise: Promise<Browser> | null = null;
+let launchRetryAt = 0;
+
+/**
+ * Chromium executable to launch, or null when Playwright can't name one
+ */
+async function getExecutablePath(): Promise<string | null> {
+  if (serverEnv.SCREENSHOT_CHROMIUM_PATH) return serverEnv.SCREENSHOT_CHROMIUM_PATH;
+  try {
+    const { chromium } = await import("playwright-core");
+    return chromium.executablePath() || null;
+  } catch {
+    return null;
+  }
+}
+
+async function getBrowser(): Promise<Browser> {
+  if (!browserPromise) {
+    browserPromise = import("playwright-core")
+      .then(({ chromium }) =>
+        chromium.launch({
+          executablePath: serverEnv.SCREENSHOT_CHROMIUM_PATH || undefined,
+          headless: true,
+        })
+      )
+      .then((browser) => {
+        browser.on("disconnected", () => {
+          browserPromise = null;
+        });
+        logger.info("🖥️ [Screenshot] Launched headless Chromium");
+        return browser;
+      })
+      .catch((error) => {
+        browserPromise = null;
+        launchRetryAt = Date.now() + LAUNCH_RETRY_MS;
+        logger.warn("⚠️ [Screenshot] Failed to launch headless Chromium", {
+          retryInMs: LAUNCH_RETRY_MS,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      });
+  }
+  return browserPromise;
+}
+
+export const playwrightProvider: ScreenshotProvider = {
+  name: "playwright",
+
+  async isAvailable() {
+    if (browserPromise) return true;
+    if (Date.now() < launchRetryAt) return false;
+
+    const executablePath = await getExecutablePath();
+    return !!executablePath && existsSync(executablePath);
+  },
+
+  async capture(request: ScreenshotRequest) {
+    const browser = await getBrowser();
+    const context = await browser.newContext({
+      viewport: { width: request.width, height: request.height },
+      deviceScaleFactor: request.scale,
+      javaScriptEnabled: false,
+    });
+
+    try {
+      const page = await context.newPage();
+      // Wait for remote images and fonts
+      await page.setContent(request.html, {
+        waitUntil: "networkidle",
+        timeout: CAPTURE_TIMEOUT_MS,
+      });
+      return await page.screenshot({
+        type: "png",
+        timeout: CAPTURE_TIMEOUT_MS,
+      });
+    } finally {
+      await context.close();
+    }
+  },
+};
+
+/**
+ * Close the shared browser (tests and graceful shutdown)
+ */
+export async function closeScreenshotBrowser(): Promise<void> {
+  const pending = browserPromise;
+  browserPromise = null;
+  if (pending) {
+    await pending.then((browser) => browser.close()).catch(() => undefined);
+  }
+}
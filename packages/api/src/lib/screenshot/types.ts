@@ -0,0 +1,36 @@
+/**
+ * Screenshot provider contract
+ * Each provider turns an HTML document into an image so thumbnail code never
+ * deals with a specific browser or screenshot API.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ScreenshotProviderName = "playwright" | "apiflash";
+
+export interface ScreenshotRequest {
+  /** Stable identifier, used for temporary files and logging */
+  id: string;
+  html: string;
+  width: number;
+  height: number;
+  /** Device pixel ratio */
+  scale: number;
+}
+
+export interface ScreenshotProvider {
+  name: ScreenshotProviderName;
+  /** Whether the provider is configured and usable in this environment */
+  isAvailable(): Promise<boolean>;
+  /** Capture the document as a PNG */
+  capture(request: ScreenshotRequest): Promise<Buffer>;
+}
+
+// ============================================================================
+// Viewport
+// ============================================================================
+
+/** Email clients render at ~600px on desktop; thumbnails show the first screen */
+export const SCREENSHOT_VIEWPORT = { width: 600, height: 800, scale: 2 };
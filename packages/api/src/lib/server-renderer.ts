@@ -0,0 +1,538 @@
+/**
+ * Server-Side React Email Renderer
+ *
+ * Renders template code with the same pipeline as the browser's
+ * client-renderer (Babel transform + @react-email/components), so the server
+ * never has to trust HTML computed by the client. Used for test sends,
+ * exports, ESP pushes, library publishing and screenshots, and to verify the
+ * HTML cache the editor saves.
+ *
+ * Isolation (defense in depth - node:vm alone is not a security boundary):
+ * - Imports are checked against a module and component allow-list
+ * - Source is statically rejected if it reaches for globals (process, require,
+ *   Function, …) or prototype/constructor properties
+ * - Code runs in a fresh vm context per render with string code generation
+ *   disabled and a CPU timeout covering both evaluation and React rendering
+ * - That context lives in a dedicated worker thread with heap limits and an
+ *   empty environment; the host-realm Function constructor is locked down
+ *   there and runaway workers are terminated and replaced
+ */
+
+import { Worker } from "node:worker_threads";
+import * as Babel from "@babel/standalone";
+import {
+  ALLOWED_EMAIL_COMPONENTS,
+  finalizeRenderedHtml,
+  findDisallowedImports,
+  normalizeRenderedHtml,
+  removeImports,
+  transformExport,
+} from "@mocah/shared/react-email-pipeline";
+import { logger } from "@mocah/shared/logger";
+import { stripElementIds } from "@mocah/shared/element-ids";
+import {
+  bindDesignTokens,
+  resolveDesignTokens,
+  type DesignTokens,
+} from "@mocah/shared/design-tokens";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ServerRenderOptions {
+  /** Pretty print HTML output (default: true, matching the client renderer) */
+  pretty?: boolean;
+  /** CPU budget for evaluating and rendering the template (default: 5000) */
+  timeoutMs?: number;
+  /** Values `brand.*` references resolve to (default: the token fallbacks) */
+  designTokens?: DesignTokens;
+}
+
+export interface ClientHtmlVerification {
+  /** Server-rendered HTML - always use this, never the client's */
+  html: string;
+  /** Whether the client-provided HTML matched the server render */
+  matches: boolean;
+}
+
+export enum ServerRenderErrorCode {
+  INVALID_INPUT = "INVALID_INPUT",
+  INPUT_TOO_LARGE = "INPUT_TOO_LARGE",
+  DISALLOWED_IMPORT = "DISALLOWED_IMPORT",
+  UNSAFE_CODE = "UNSAFE_CODE",
+  BABEL_TRANSFORM_FAILED = "BABEL_TRANSFORM_FAILED",
+  COMPONENT_NOT_FOUND = "COMPONENT_NOT_FOUND",
+  RENDER_FAILED = "RENDER_FAILED",
+  OUTPUT_TOO_LARGE = "OUTPUT_TOO_LARGE",
+  TIMEOUT = "TIMEOUT",
+  MEMORY_LIMIT = "MEMORY_LIMIT",
+}
+
+export class ServerRenderError extends Error {
+  constructor(
+    public readonly code: ServerRenderErrorCode,
+    message: string,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "ServerRenderError";
+  }
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const CONFIG = {
+  /** Maximum input size in characters (same as the client renderer) */
+  MAX_INPUT_SIZE: 500_000,
+  /** Maximum rendered HTML size in characters */
+  MAX_OUTPUT_SIZE: 5_000_000,
+  /** Default CPU budget per render in ms */
+  DEFAULT_TIMEOUT: 5_000,
+  /** Extra wall-clock time before a stuck worker is terminated */
+  WORKER_GRACE_MS: 5_000,
+  /** Worker heap limits */
+  MAX_OLD_GENERATION_MB: 128,
+  MAX_YOUNG_GENERATION_MB: 16,
+  STACK_SIZE_MB: 4,
+} as const;
+
+// Free identifiers template code may not reference
+const DENIED_GLOBALS = new Set([
+  "process",
+  "require",
+  "module",
+  "exports",
+  "global",
+  "globalThis",
+  "eval",
+  "Function",
+  "WebAssembly",
+  "Proxy",
+  "Reflect",
+]);
+
+// Properties that lead from any object to its prototype chain or constructor
+const DENIED_PROPERTIES = new Set([
+  "constructor",
+  "prototype",
+  "__proto__",
+  "__defineGetter__",
+  "__defineSetter__",
+  "__lookupGetter__",
+  "__lookupSetter__",
+  "caller",
+  "callee",
+]);
+
+// ============================================================================
+// Static Checks
+// ============================================================================
+
+function validateInput(code: string): void {
+  if (!code || typeof code !== "string") {
+    throw new ServerRenderError(
+      ServerRenderErrorCode.INVALID_INPUT,
+      "Code must be a non-empty string"
+    );
+  }
+
+  if (code.length > CONFIG.MAX_INPUT_SIZE) {
+    throw new ServerRenderError(
+      ServerRenderErrorCode.INPUT_TOO_LARGE,
+      `Input exceeds maximum size of ${CONFIG.MAX_INPUT_SIZE} characters`
+    );
+  }
+
+  const disallowed = findDisallowedImports(code);
+  if (disallowed.length > 0) {
+    const names = disallowed.map((entry) =>
+      entry.name ? `${entry.name} from "${entry.module}"` : `"${entry.module}"`
+    );
+    throw new ServerRenderError(
+      ServerRenderErrorCode.DISALLOWED_IMPORT,
+      `Imports are not allowed: ${names.join(", ")}`
+    );
+  }
+}
+
+function getPropertyName(node: any): string | null {
+  if (!node) return null;
+  if (node.type === "Identifier") return node.name;
+  if (node.type === "StringLiteral") return node.value;
+  if (node.type === "TemplateLiteral" && node.expressions.length === 0) {
+    return node.quasis[0]?.value.cooked ?? null;
+  }
+  return null;
+}
+
+/**
+ * Babel plugin that records sandbox-escape patterns instead of transforming
+ */
+function createGuardPlugin(violations: string[]) {
+  const skip = (path: any) => path.skip();
+
+  const checkMember = (path: any) => {
+    const name = path.node.computed
+      ? getPropertyName(path.node.property)
+      : path.node.property.name;
+    if (name && DENIED_PROPERTIES.has(name)) {
+      violations.push(`access to "${name}"`);
+    }
+  };
+
+  return {
+    visitor: {
+      // Type-only syntax is erased and never runs
+      TSType: skip,
+      TSTypeAnnotation: skip,
+      TSTypeParameterDeclaration: skip,
+      TSTypeParameterInstantiation: skip,
+      TSInterfaceDeclaration: skip,
+      TSTypeAliasDeclaration: skip,
+      TSDeclareFunction: skip,
+      TSModuleDeclaration: skip,
+      Identifier(path: any) {
+        const { name } = path.node;
+        if (
+          DENIED_GLOBALS.has(name) &&
+          path.isReferencedIdentifier() &&
+          !path.scope.hasBinding(name, true)
+        ) {
+          violations.push(`reference to "${name}"`);
+        }
+      },
+      MemberExpression: checkMember,
+      OptionalMemberExpression: checkMember,
+      ObjectProperty(path: any) {
+        // const { constructor } = value
+        if (!path.parentPath.isObjectPattern()) return;
+        const name = path.node.computed ? getPropertyName(path.node.key) : path.node.key.name;
+        if (name && DENIED_PROPERTIES.has(name)) {
+          violations.push(`access to "${name}"`);
+        }
+      },
+      Import() {
+        violations.push("dynamic import()");
+      },
+      MetaProperty() {
+        violations.push("import.meta");
+      },
+    },
+  };
+}
+
+/**
+ * Compile template source to the factory body run inside the sandbox
+ */
+function compileTemplate(code: string, designTokens: DesignTokens): string {
+  const cleanedCode = removeImports(code);
+
+  // Step 1: Reject sandbox-escape patterns in the source
+  const violations: string[] = [];
+  try {
+    Babel.transform(cleanedCode, {
+      filename: "email.tsx",
+      parserOpts: { plugins: ["jsx", "typescript"] },
+      plugins: [createGuardPlugin(violations)],
+      code: false,
+    });
+  } catch (error) {
+    throw new ServerRenderError(
+      ServerRenderErrorCode.BABEL_TRANSFORM_FAILED,
+      `Babel transformation failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      error
+    );
+  }
+
+  if (violations.length > 0) {
+    throw new ServerRenderError(
+      ServerRenderErrorCode.UNSAFE_CODE,
+      `Template code uses features that aren't allowed: ${[...new Set(violations)].slice(0, 5).join(", ")}`
+    );
+  }
+
+  // Step 2: Same transform as the client renderer
+  let transformed: { code?: string | null };
+  try {
+    transformed = Babel.transform(cleanedCode, {
+      presets: [
+        ["typescript", { isTSX: true, allExtensions: true }],
+        ["react", { runtime: "classic" }],
+      ],
+      filename: "email.tsx",
+    });
+  } catch (error) {
+    throw new ServerRenderError(
+      ServerRenderErrorCode.BABEL_TRANSFORM_FAILED,
+      `Babel transformation failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      error
+    );
+  }
+
+  if (!transformed.code) {
+    throw new ServerRenderError(
+      ServerRenderErrorCode.BABEL_TRANSFORM_FAILED,
+      "Babel transformation produced no output"
+    );
+  }
+
+  return bindDesignTokens(transformExport(transformed.code), designTokens);
+}
+
+// ============================================================================
+// Sandbox Worker
+// ============================================================================
+
+// Plain CommonJS so it runs without a TypeScript loader or bundler; modules
+// resolve from the server's working directory.
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("node:worker_threads");
+const vm = require("node:vm");
+const React = require("react");
+const { renderToStaticMarkup } = require("react-dom/server");
+const ReactEmail = require("@react-email/components");
+
+function deepFreeze(value, depth) {
+  if (depth < 0 || value === null || (typeof value !== "object" && typeof value !== "function")) {
+    return value;
+  }
+  if (Object.isFrozen(value)) return value;
+  Object.freeze(value);
+  for (const key of Reflect.ownKeys(value)) {
+    const descriptor = Object.getOwnPropertyDescriptor(value, key);
+    if (descriptor && "value" in descriptor) deepFreeze(descriptor.value, depth - 1);
+  }
+  return value;
+}
+
+// Host objects are shared by every render, so templates must not mutate them
+const globals = { React: deepFreeze({ createElement: React.createElement, Fragment: React.Fragment }, 1) };
+for (const name of workerData.components) {
+  globals[name] = deepFreeze(ReactEmail[name], 3);
+}
+globals.__render = deepFreeze((component) => renderToStaticMarkup(React.createElement(component)), 0);
+
+// Every path from a shared host object to the host Function constructor goes
+// through .constructor - block it for this worker
+const blocked = function () {
+  throw new Error("Code generation is not allowed");
+};
+for (const fn of [function () {}, async function () {}, function* () {}, async function* () {}]) {
+  Object.defineProperty(Object.getPrototypeOf(fn), "constructor", {
+    value: blocked,
+    writable: false,
+    configurable: false,
+  });
+}
+
+function readMessage(error) {
+  const descriptor = error && typeof error === "object" ? Object.getOwnPropertyDescriptor(error, "message") : null;
+  return descriptor && typeof descriptor.value === "string" ? descriptor.value : String(typeof error === "string" ? error : "Unknown render error");
+}
+
+parentPort.on("message", ({ id, code, timeoutMs }) => {
+  try {
+    const context = vm.createContext(Object.assign({}, globals), {
+      codeGeneration: { strings: false, wasm: false },
+      microtaskMode: "afterEvaluate",
+    });
+
+    const factory = new vm.Script("(function () {\\n'use strict';\\n" + code + "\\n})()", { filename: "email.js" });
+    const component = factory.runInContext(context, { timeout: timeoutMs });
+    if (typeof component !== "function") {
+      parentPort.postMessage({ id, error: { code: "COMPONENT_NOT_FOUND", message: "No valid React component found in code. Ensure you export a default function component." } });
+      return;
+    }
+
+    context.__component = component;
+    const markup = new vm.Script("__render(__component)", { filename: "render.js" }).runInContext(context, { timeout: timeoutMs });
+    if (typeof markup !== "string") {
+      parentPort.postMessage({ id, error: { code: "RENDER_FAILED", message: "Render produced no markup" } });
+      return;
+    }
+    parentPort.postMessage({ id, markup });
+  } catch (error) {
+    const timedOut = error && typeof error === "object" && error.code === "ERR_SCRIPT_EXECUTION_TIMEOUT";
+    parentPort.postMessage({
+      id,
+      error: {
+        code: timedOut ? "TIMEOUT" : "RENDER_FAILED",
+        message: timedOut ? "Render timed out after " + timeoutMs + "ms" : readMessage(error),
+      },
+    });
+  }
+});
+`;
+
+interface PendingRender {
+  resolve: (markup: string) => void;
+  reject: (error: ServerRenderError) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+let worker: Worker | null = null;
+let nextRenderId = 0;
+const pending = new Map<number, PendingRender>();
+// Renders run one at a time so each gets the worker's full budget
+let queue: Promise<unknown> = Promise.resolve();
+
+function failPending(error: ServerRenderError): void {
+  for (const [id, render] of pending) {
+    clearTimeout(render.timer);
+    render.reject(error);
+    pending.delete(id);
+  }
+}
+
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  const instance = new Worker(WORKER_SOURCE, {
+    eval: true,
+    workerData: { components: ALLOWED_EMAIL_COMPONENTS },
+    env: {},
+    resourceLimits: {
+      maxOldGenerationSizeMb: CONFIG.MAX_OLD_GENERATION_MB,
+      maxYoungGenerationSizeMb: CONFIG.MAX_YOUNG_GENERATION_MB,
+      stackSizeMb: CONFIG.STACK_SIZE_MB,
+    },
+  });
+
+  instance.on("message", (message: { id: number; markup?: string; error?: { code: string; message: string } }) => {
+    const render = pending.get(message.id);
+    if (!render) return;
+    pending.delete(message.id);
+    clearTimeout(render.timer);
+
+    if (message.error) {
+      render.reject(
+        new ServerRenderError(
+          message.error.code as ServerRenderErrorCode,
+          message.error.message
+        )
+      );
+    } else {
+      render.resolve(message.markup!);
+    }
+  });
+
+  instance.on("error", (error: Error & { code?: string }) => {
+    const outOfMemory = error.code === "ERR_WORKER_OUT_OF_MEMORY";
+    logger.error("❌ [ServerRenderer] Sandbox worker crashed", {
+      error: error.message,
+      outOfMemory,
+    });
+    failPending(
+      new ServerRenderError(
+        outOfMemory ? ServerRenderErrorCode.MEMORY_LIMIT : ServerRenderErrorCode.RENDER_FAILED,
+        outOfMemory ? "Render exceeded the memory limit" : "Render failed",
+        error
+      )
+    );
+  });
+
+  instance.on("exit", () => {
+    if (worker === instance) worker = null;
+    failPending(
+      new ServerRenderError(ServerRenderErrorCode.RENDER_FAILED, "Render worker exited unexpectedly")
+    );
+  });
+
+  // An idle sandbox shouldn't keep the process alive
+  instance.unref();
+  worker = instance;
+  return instance;
+}
+
+function runInSandbox(code: string, timeoutMs: number): Promise<string> {
+  const task = () =>
+    new Promise<string>((resolve, reject) => {
+      const sandbox = getWorker();
+      const id = nextRenderId++;
+
+      // Wall-clock backstop for anything the vm timeout can't interrupt
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        logger.warn("⚠️ [ServerRenderer] Terminating unresponsive sandbox worker", { timeoutMs });
+        if (worker === sandbox) worker = null;
+        void sandbox.terminate();
+        reject(
+          new ServerRenderError(ServerRenderErrorCode.TIMEOUT, `Render timed out after ${timeoutMs}ms`)
+        );
+      }, timeoutMs + CONFIG.WORKER_GRACE_MS);
+
+      pending.set(id, { resolve, reject, timer });
+      sandbox.postMessage({ id, code, timeoutMs });
+    });
+
+  const run = queue.then(task, task);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Render React Email code to HTML in the sandbox
+ * Output is identical to the client renderer for the same code and options.
+ */
+export async function renderReactEmailServerSide(
+  code: string,
+  options: ServerRenderOptions = {}
+): Promise<string> {
+  const {
+    pretty = true,
+    timeoutMs = CONFIG.DEFAULT_TIMEOUT,
+    designTokens = resolveDesignTokens(null),
+  } = options;
+  const startTime = Date.now();
+
+  validateInput(code);
+  // Stable element ids are editor metadata, not part of the email
+  const jsCode = compileTemplate(stripElementIds(code), designTokens);
+  const markup = await runInSandbox(jsCode, timeoutMs);
+
+  if (markup.length > CONFIG.MAX_OUTPUT_SIZE) {
+    throw new ServerRenderError(
+      ServerRenderErrorCode.OUTPUT_TOO_LARGE,
+      `Rendered HTML exceeds maximum size of ${CONFIG.MAX_OUTPUT_SIZE} characters`
+    );
+  }
+
+  logger.debug("[ServerRenderer] Rendered template", {
+    renderTimeMs: Date.now() - startTime,
+    htmlLength: markup.length,
+  });
+
+  return finalizeRenderedHtml(markup, pretty);
+}
+
+/**
+ * Render code on the server and compare it with HTML the client computed
+ * The client must have rendered with the same design tokens.
+ */
+export async function verifyClientHtml(
+  code: string,
+  clientHtml: string,
+  designTokens?: DesignTokens
+): Promise<ClientHtmlVerification> {
+  const html = await renderReactEmailServerSide(code, { designTokens });
+  return {
+    html,
+    matches: normalizeRenderedHtml(html) === normalizeRenderedHtml(clientHtml),
+  };
+}
+
+/**
+ * Stop the sandbox worker (tests and graceful shutdown)
+ */
+export async function shutdownServerRenderer(): Promise<void> {
+  const current = worker;
+  worker = null;
+  if (current) await current.terminate();
+}
@@ -0,0 +1,256 @@
+/**
+ * Email-safe table HTML
+ * Turns rendered React Email HTML into a bulletproof variant for legacy clients:
+ * inlined CSS, role="presentation" tables, MSO conditional comments for Outlook
+ * and VML fallbacks for Button backgrounds.
+ */
+
+import juice from "juice";
+import { load, type CheerioAPI } from "cheerio";
+import { logger } from "@mocah/shared";
+
+const XHTML_DOCTYPE =
+  '<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">';
+
+const MSO_HEAD = [
+  "<!--[if mso]><noscript><xml><o:OfficeDocumentSettings><o:AllowPNG/><o:PixelsPerInch>96</o:PixelsPerInch></o:OfficeDocumentSettings></xml></noscript><![endif]-->",
+  "<!--[if mso]><style>table,td{border-collapse:collapse;mso-table-lspace:0pt;mso-table-rspace:0pt}img{-ms-interpolation-mode:bicubic}</style><![endif]-->",
+].join("");
+
+// Browser default; also what React Email's Text falls back to
+const DEFAULT_FONT_SIZE = 14;
+const PX_PER_EM = 16;
+
+// Average glyph width relative to font size, used to size VML buttons
+const CHAR_WIDTH_RATIO = 0.6;
+
+// ============================================================================
+// Style helpers
+// ============================================================================
+
+/**
+ * Parse an inline style attribute into a map (later declarations win)
+ */
+export function parseInlineStyle(style: string | undefined): Map<string, string> {
+  const result = new Map<string, string>();
+  if (!style) return result;
+
+  for (const declaration of style.split(";")) {
+    const colon = declaration.indexOf(":");
+    if (colon === -1) continue;
+    const property = declaration.slice(0, colon).trim().toLowerCase();
+    const value = declaration.slice(colon + 1).trim();
+    if (property && value) result.set(property, value);
+  }
+  return result;
+}
+
+/**
+ * Convert a CSS length to pixels (px, em/rem and unitless are supported)
+ */
+function toPx(value: string | undefined, fontSize = PX_PER_EM): number | null {
+  if (!value) return null;
+  const match = value.trim().match(/^(-?\d*\.?\d+)(px|em|rem)?$/i);
+  if (!match) return null;
+
+  const amount = parseFloat(match[1]!);
+  const unit = match[2]?.toLowerCase();
+  if (unit === "em") return amount * fontSize;
+  if (unit === "rem") return amount * PX_PER_EM;
+  return amount;
+}
+
+/**
+ * Resolve padding for one side from longhand or shorthand declarations
+ */
+function getPadding(styles: Map<string, string>, side: "top" | "right" | "bottom" | "left"): number {
+  const longhand = toPx(styles.get(`padding-${side}`));
+  if (longhand !== null) return longhand;
+
+  const parts = (styles.get("padding") ?? "").split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return 0;
+
+  const index = { top: 0, right: 1, bottom: 2, left: 3 }[side];
+  const fallback = [
+    parts[0],
+    parts[1] ?? parts[0],
+    parts[2] ?? parts[0],
+    parts[3] ?? parts[1] ?? parts[0],
+  ];
+  return toPx(fallback[index]) ?? 0;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// ============================================================================
+// Transforms
+// ============================================================================
+
+function ensureDocumentShell($: CheerioAPI) {
+  const html = $("html");
+  html.attr("xmlns", html.attr("xmlns") ?? "http://www.w3.org/1999/xhtml");
+  html.attr("xmlns:v", "urn:schemas-microsoft-com:vml");
+  html.attr("xmlns:o", "urn:schemas-microsoft-com:office:office");
+
+  const head = $("head");
+  if ($('meta[name="viewport"]').length === 0) {
+    head.prepend('<meta name="viewport" content="width=device-width, initial-scale=1.0"/>');
+  }
+  if ($('meta[http-equiv="X-UA-Compatible"]').length === 0) {
+    head.prepend('<meta http-equiv="X-UA-Compatible" content="IE=edge"/>');
+  }
+  if ($('meta[http-equiv="Content-Type"]').length === 0) {
+    head.prepend('<meta http-equiv="Content-Type" content="text/html; charset=UTF-8"/>');
+  }
+  head.append(MSO_HEAD);
+}
+
+/**
+ * Layout tables must not be announced as data tables by screen readers,
+ * and Outlook needs explicit spacing attributes
+ */
+function normalizeTables($: CheerioAPI) {
+  $("table").each((_, table) => {
+    const $table = $(table);
+    if (!$table.attr("role")) $table.attr("role", "presentation");
+    if ($table.attr("border") === undefined) $table.attr("border", "0");
+    if ($table.attr("cellpadding") === undefined) $table.attr("cellpadding", "0");
+    if ($table.attr("cellspacing") === undefined) $table.attr("cellspacing", "0");
+  });
+
+  $("img").each((_, img) => {
+    const $img = $(img);
+    if ($img.attr("border") === undefined) $img.attr("border", "0");
+    if ($img.attr("alt") === undefined) $img.attr("alt", "");
+  });
+}
+
+/**
+ * Outlook ignores max-width, so fixed-width containers get a "ghost table"
+ * that only MSO renders
+ */
+function wrapMaxWidthContainers($: CheerioAPI) {
+  $("table, div").each((_, element) => {
+    const $element = $(element);
+    const styles = parseInlineStyle($element.attr("style"));
+    const maxWidth = toPx(styles.get("max-width"));
+    if (!maxWidth || maxWidth <= 0) return;
+
+    // Nested fixed-width containers are already constrained by their parent's ghost table
+    if ($element.parents("[data-mso-ghost]").length > 0) return;
+
+    const width = Math.round(maxWidth);
+    $element.attr("data-mso-ghost", "");
+    $element.before(
+      `<!--[if mso]><table role="presentation" align="center" width="${width}" border="0" cellpadding="0" cellspacing="0" style="width:${width}px"><tr><td><![endif]-->`
+    );
+    $element.after("<!--[if mso]></td></tr></table><![endif]-->");
+  });
+
+  $("[data-mso-ghost]").removeAttr("data-mso-ghost");
+}
+
+/**
+ * Outlook drops padding and background on <a>, so Buttons get a VML
+ * roundrect that only MSO renders, with the original link hidden from it
+ */
+function addButtonFallbacks($: CheerioAPI) {
+  $("a").each((_, anchor) => {
+    const $anchor = $(anchor);
+    const styles = parseInlineStyle($anchor.attr("style"));
+    const background = styles.get("background-color") ?? styles.get("background");
+    const href = $anchor.attr("href");
+
+    if (!background || !href || styles.get("display") !== "inline-block") return;
+
+    const text = $anchor.text().replace(/\s+/g, " ").trim();
+    if (!text) return;
+
+    const fontSize = toPx(styles.get("font-size")) ?? DEFAULT_FONT_SIZE;
+    const paddingTop = getPadding(styles, "top");
+    const paddingBottom = getPadding(styles, "bottom");
+    const paddingLeft = getPadding(styles, "left");
+    const paddingRight = getPadding(styles, "right");
+
+    const height = Math.round(fontSize * 1.2 + paddingTop + paddingBottom);
+    const width = Math.round(
+      toPx(styles.get("width")) ??
+        text.length * fontSize * CHAR_WIDTH_RATIO + paddingLeft + paddingRight
+    );
+    const radius = toPx(styles.get("border-radius")) ?? 0;
+    const arcsize = Math.min(50, Math.round((radius / height) * 100));
+
+    const textStyle = [
+      `color:${styles.get("color") ?? "#ffffff"}`,
+      `font-family:${styles.get("font-family") ?? "Arial, sans-serif"}`,
+      `font-size:${fontSize}px`,
+      styles.get("font-weight") ? `font-weight:${styles.get("font-weight")}` : null,
+    ]
+      .filter(Boolean)
+      .join(";");
+
+    const vml =
+      `<!--[if mso]>` +
+      `<v:roundrect xmlns:v="urn:schemas-microsoft-com:vml" xmlns:w="urn:schemas-microsoft-com:office:word" ` +
+      `href="${escapeAttribute(href)}" style="height:${height}px;v-text-anchor:middle;width:${width}px;" ` +
+      `arcsize="${arcsize}%" stroke="f" fillcolor="${escapeAttribute(background)}">` +
+      `<w:anchorlock/><center style="${escapeAttribute(textStyle)}">${escapeText(text)}</center>` +
+      `</v:roundrect>` +
+      `<![endif]-->`;
+
+    $anchor.before(`${vml}<!--[if !mso]><!-->`);
+    $anchor.after("<!--<![endif]-->");
+  });
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Generate the email-safe table HTML variant of rendered template HTML
+ */
+export function generateTableHtml(html: string): string {
+  // 1. Inline CSS from <style> blocks (media queries and @font-face stay in <head>)
+  const inlined = juice(html, {
+    preserveMediaQueries: true,
+    preserveFontFaces: true,
+    applyWidthAttributes: true,
+    applyAttributesTableElements: true,
+  });
+
+  // 2. Structural transforms for Outlook and accessibility
+  const $ = load(inlined);
+  ensureDocumentShell($);
+  normalizeTables($);
+  wrapMaxWidthContainers($);
+  addButtonFallbacks($);
+
+  // 3. Serialize with an XHTML doctype (needed for VML namespaces in Outlook)
+  const body = $.html().replace(/^<!DOCTYPE[^>]*>/i, "").trimStart();
+  return `${XHTML_DOCTYPE}${body}`;
+}
+
+/**
+ * Generate table HTML without failing the caller
+ * Returns null (and logs) when the input is empty or the transform throws
+ */
+export function buildTableHtml(html: string | null | undefined): string | null {
+  if (!html || html.trim().length === 0) return null;
+
+  try {
+    return generateTableHtml(html);
+  } catch (error) {
+    logger.warn("⚠️ [Template] Failed to generate table HTML", {
+      error: error instanceof Error ? error.message : String(error),
+      htmlLength: html.length,
+    });
+    return null;
+  }
+}
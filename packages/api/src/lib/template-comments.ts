@@ -0,0 +1,183 @@
+/**
+ * Template comment anchors
+ * Threads are pinned to elements by their data-mocah-id. Code saved before
+ * stable IDs existed uses line-based ids ("element-<Tag>-<line>") that shift
+ * when the code is edited, so each thread also keeps the element's structural
+ * path and text. Saving code re-anchors the stored threads; loading comments
+ * resolves anchors against the current code without writing.
+ */
+
+import type { PrismaClient } from "@mocah/db";
+import { logger } from "@mocah/shared";
+import { parseLineElementId } from "@mocah/shared/element-ids";
+import { getNodeElementId } from "./element-ids";
+import { parseJsxTree, type JsxNode } from "./template-diff";
+
+export interface CommentAnchor {
+  elementId: string;
+  elementTag: string;
+  elementPath: string;
+  elementText: string | null;
+}
+
+export interface ReanchoredThread extends CommentAnchor {
+  id: string;
+  detached: boolean;
+}
+
+/** Longest element text kept on a thread */
+const MAX_ANCHOR_TEXT_LENGTH = 200;
+
+/**
+ * data-element-id the preview injects for an element: its data-mocah-id,
+ * or the line-based id when it has none
+ */
+export function getElementId(node: Pick<JsxNode, "tag" | "line" | "attributes">): string {
+  return getNodeElementId(node) ?? `element-${node.tag}-${node.line}`;
+}
+
+/**
+ * Split a line-based data-element-id into its tag and line, or null for
+ * stable ids and malformed values
+ */
+export const parseElementId = parseLineElementId;
+
+function toAnchor(node: JsxNode): CommentAnchor {
+  return {
+    elementId: getElementId(node),
+    elementTag: node.tag,
+    elementPath: node.path,
+    elementText: node.text ? node.text.slice(0, MAX_ANCHOR_TEXT_LENGTH) : null,
+  };
+}
+
+/**
+ * Anchor for a data-element-id in the given code, or null when the element
+ * doesn't exist (e.g. the preview is out of date)
+ */
+export function createCommentAnchor(code: string | null, elementId: string): CommentAnchor | null {
+  const nodes = parseJsxTree(code);
+  const parsed = parseElementId(elementId);
+
+  const node = parsed
+    ? nodes.find((candidate) => candidate.tag === parsed.tag && candidate.line === parsed.line)
+    : nodes.find((candidate) => getNodeElementId(candidate) === elementId);
+
+  return node ? toAnchor(node) : null;
+}
+
+/**
+ * Find an anchored element in re-parsed code
+ *
+ * Tries, in order: the same stable id, same path and text, a unique element
+ * with the same text, same path, then the original line. Returns null when
+ * nothing matches.
+ */
+export function resolveCommentAnchor(anchor: CommentAnchor, nodes: JsxNode[]): CommentAnchor | null {
+  const candidates = nodes.filter((node) => node.tag === anchor.elementTag);
+  const text = anchor.elementText;
+
+  if (!parseElementId(anchor.elementId)) {
+    const sameStableId = candidates.find((node) => getNodeElementId(node) === anchor.elementId);
+    if (sameStableId) return toAnchor(sameStableId);
+  }
+
+  const samePathAndText = candidates.find(
+    (node) => node.path === anchor.elementPath && toAnchor(node).elementText === text
+  );
+  if (samePathAndText) return toAnchor(samePathAndText);
+
+  if (text) {
+    const sameText = candidates.filter((node) => toAnchor(node).elementText === text);
+    if (sameText.length === 1) return toAnchor(sameText[0]!);
+  }
+
+  const samePath = candidates.find((node) => node.path === anchor.elementPath);
+  if (samePath) return toAnchor(samePath);
+
+  const sameId = candidates.find((node) => getElementId(node) === anchor.elementId);
+  if (sameId) return toAnchor(sameId);
+
+  return null;
+}
+
+/**
+ * Re-anchor threads against the current code
+ * Returns only the threads whose anchor changed. Detached threads keep their
+ * last known anchor so they can reattach if the element comes back.
+ */
+export function reanchorThreads(
+  threads: Array<CommentAnchor & { id: string; detached: boolean }>,
+  code: string | null
+): ReanchoredThread[] {
+  const nodes = parseJsxTree(code);
+  // Unparseable code (mid-edit, generation in progress) shouldn't detach everything
+  if (nodes.length === 0) return [];
+
+  const changed: ReanchoredThread[] = [];
+
+  for (const thread of threads) {
+    const resolved = resolveCommentAnchor(thread, nodes);
+
+    if (!resolved) {
+      if (!thread.detached) changed.push({ ...thread, detached: true });
+      continue;
+    }
+
+    if (
+      thread.detached ||
+      resolved.elementId !== thread.elementId ||
+      resolved.elementPath !== thread.elementPath ||
+      resolved.elementText !== thread.elementText
+    ) {
+      changed.push({ id: thread.id, ...resolved, detached: false });
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Store re-anchored threads after a template's code is saved
+ * @returns Number of threads whose anchor changed
+ */
+export async function reanchorTemplateComments(
+  db: PrismaClient,
+  templateId: string,
+  code: string | null
+): Promise<number> {
+  const threads = await db.templateCommentThread.findMany({
+    where: { templateId },
+    select: {
+      id: true,
+      elementId: true,
+      elementTag: true,
+      elementPath: true,
+      elementText: true,
+      detached: true,
+    },
+  });
+
+  const moved = reanchorThreads(threads, code);
+  if (moved.length === 0) return 0;
+
+  await db.$transaction(
+    moved.map(({ id, ...anchor }) =>
+      db.templateCommentThread.update({ where: { id }, data: anchor })
+    )
+  );
+
+  logger.info("📌 [Comments] Re-anchored threads:", {
+    templateId,
+    moved: moved.length,
+  });
+
+  return moved.length;
+}
+
+/**
+ * Deduplicated mention ids, excluding the author
+ */
+export function normalizeMentions(mentionIds: string[] | undefined, authorId: string): string[] {
+  return [...new Set(mentionIds ?? [])].filter((id) => id !== authorId);
+}
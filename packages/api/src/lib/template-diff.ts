@@ -0,0 +1,491 @@
+/**
+ * Template diff utilities
+ * Structural JSX + style definition diffs between two template snapshots
+ *
+ * The JSX tree is built with a lightweight scanner rather than a Babel parse;
+ * diffs only need tags, attributes and text, and the scanner tolerates the
+ * malformed markup that older snapshots may hold.
+ */
+
+import { ELEMENT_ID_ATTRIBUTE } from "@mocah/shared/element-ids";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface JsxNode {
+  tag: string;
+  depth: number;
+  /** Human-readable location, e.g. "Html > Body > Container > Section[1] > Text[0]" */
+  path: string;
+  /** Raw attribute source, keyed by attribute name */
+  attributes: Record<string, string>;
+  /** Direct text content (whitespace collapsed) */
+  text: string;
+  /** 1-based source line of the opening tag (matches injected data-element-id values) */
+  line: number;
+  /** Source offsets of the opening tag: its `<` and just past its `>` */
+  tagStart: number;
+  tagEnd: number;
+}
+
+export type JsxChangeType = "added" | "removed" | "modified";
+
+export interface JsxChange {
+  type: JsxChangeType;
+  tag: string;
+  path: string;
+  /** Present for "modified" changes */
+  textChange?: { before: string; after: string };
+  /** Present for "modified" changes */
+  attributeChanges?: Array<{
+    name: string;
+    before: string | null;
+    after: string | null;
+  }>;
+}
+
+export interface StylePropertyChange {
+  property: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface StyleChange {
+  type: JsxChangeType;
+  styleName: string;
+  properties: StylePropertyChange[];
+}
+
+export interface TemplateSnapshotForDiff {
+  reactEmailCode: string | null;
+  styleDefinitions: unknown;
+  subject: string | null;
+  previewText: string | null;
+}
+
+export interface TemplateDiff {
+  jsx: JsxChange[];
+  styles: StyleChange[];
+  metadata: Array<{ field: "subject" | "previewText"; before: string | null; after: string | null }>;
+  summary: {
+    elementsAdded: number;
+    elementsRemoved: number;
+    elementsModified: number;
+    stylesChanged: number;
+    hasChanges: boolean;
+  };
+}
+
+// ============================================================================
+// JSX Scanner
+// ============================================================================
+
+/**
+ * Find where the JSX tree starts so type annotations like Record<string, X>
+ * in the component preamble are not mistaken for elements.
+ */
+function findJsxStart(code: string): number {
+  const htmlIndex = code.search(/<Html[\s>]/);
+  if (htmlIndex >= 0) return htmlIndex;
+
+  const returnMatch = /return\s*\(?\s*</.exec(code);
+  if (returnMatch) return returnMatch.index + returnMatch[0].length - 1;
+
+  return -1;
+}
+
+/**
+ * Read a tag starting at `<`, honoring quotes and {expression} braces.
+ * Returns the index just past the closing `>`.
+ */
+function readTag(code: string, start: number): { source: string; end: number } | null {
+  let i = start + 1;
+  let braceDepth = 0;
+  let quote: string | null = null;
+
+  while (i < code.length) {
+    const char = code[i];
+
+    if (quote) {
+      if (char === quote && code[i - 1] !== "\\") quote = null;
+    } else if (char === '"' || char === "'" || char === "`") {
+      quote = char;
+    } else if (char === "{") {
+      braceDepth++;
+    } else if (char === "}") {
+      braceDepth = Math.max(0, braceDepth - 1);
+    } else if (char === ">" && braceDepth === 0) {
+      return { source: code.slice(start, i + 1), end: i + 1 };
+    }
+    i++;
+  }
+
+  return null;
+}
+
+/**
+ * Split the attribute section of a tag into name → raw value.
+ */
+function parseAttributes(attributeSource: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  let i = 0;
+
+  while (i < attributeSource.length) {
+    // Skip whitespace
+    while (i < attributeSource.length && /\s/.test(attributeSource[i]!)) i++;
+    if (i >= attributeSource.length) break;
+
+    const nameMatch = /^[A-Za-z_][\w:.-]*/.exec(attributeSource.slice(i));
+    if (!nameMatch) {
+      i++;
+      continue;
+    }
+
+    const name = nameMatch[0];
+    i += name.length;
+
+    if (attributeSource[i] !== "=") {
+      attributes[name] = "true";
+      continue;
+    }
+
+    i++; // skip "="
+    const valueStart = i;
+    const opener = attributeSource[i];
+
+    if (opener === '"' || opener === "'") {
+      i++;
+      while (i < attributeSource.length && attributeSource[i] !== opener) i++;
+      i++;
+    } else if (opener === "{") {
+      let depth = 0;
+      while (i < attributeSource.length) {
+        if (attributeSource[i] === "{") depth++;
+        if (attributeSource[i] === "}") {
+          depth--;
+          if (depth === 0) {
+            i++;
+            break;
+          }
+        }
+        i++;
+      }
+    } else {
+      while (i < attributeSource.length && !/\s/.test(attributeSource[i]!)) i++;
+    }
+
+    attributes[name] = attributeSource.slice(valueStart, i).replace(/\s+/g, " ").trim();
+  }
+
+  return attributes;
+}
+
+/**
+ * Parse React Email JSX into a flat, pre-order list of element nodes.
+ */
+export function parseJsxTree(code: string | null | undefined): JsxNode[] {
+  if (!code) return [];
+
+  const start = findJsxStart(code);
+  if (start < 0) return [];
+
+  const nodes: JsxNode[] = [];
+  const stack: Array<{ node: JsxNode; childCounts: Map<string, number> }> = [];
+  const rootCounts = new Map<string, number>();
+  let i = start;
+  let line = 1;
+  let lineScannedTo = 0;
+
+  const lineAt = (index: number) => {
+    for (; lineScannedTo < index; lineScannedTo++) {
+      if (code[lineScannedTo] === "\n") line++;
+    }
+    return line;
+  };
+
+  const appendText = (raw: string) => {
+    const current = stack[stack.length - 1];
+    if (!current) return;
+    const text = raw.replace(/\s+/g, " ").trim();
+    if (text) {
+      current.node.text = current.node.text ? `${current.node.text} ${text}` : text;
+    }
+  };
+
+  while (i < code.length) {
+    const next = code.indexOf("<", i);
+    if (next < 0) break;
+
+    appendText(code.slice(i, next));
+
+    const following = code[next + 1];
+    const isTag = following === "/" || (following !== undefined && /[A-Za-z]/.test(following));
+    if (!isTag) {
+      appendText("<");
+      i = next + 1;
+      continue;
+    }
+
+    const tag = readTag(code, next);
+    if (!tag) break;
+    i = tag.end;
+
+    // Closing tag
+    if (following === "/") {
+      const name = tag.source.slice(2, -1).trim();
+      // Pop until we find the matching element (tolerates malformed markup)
+      while (stack.length > 0) {
+        const popped = stack.pop()!;
+        if (popped.node.tag === name) break;
+      }
+      if (stack.length === 0) break; // End of root element
+      continue;
+    }
+
+    const selfClosing = tag.source.endsWith("/>");
+    const inner = tag.source.slice(1, selfClosing ? -2 : -1);
+    const nameMatch = /^[A-Za-z][\w.]*/.exec(inner);
+    if (!nameMatch) continue;
+
+    const name = nameMatch[0];
+    const parent = stack[stack.length - 1];
+    const counts = parent ? parent.childCounts : rootCounts;
+    const index = counts.get(name) ?? 0;
+    counts.set(name, index + 1);
+
+    const segment = index > 0 || name !== "Html" ? `${name}[${index}]` : name;
+    const node: JsxNode = {
+      tag: name,
+      depth: stack.length,
+      path: parent ? `${parent.node.path} > ${segment}` : segment,
+      attributes: parseAttributes(inner.slice(name.length)),
+      text: "",
+      line: lineAt(next),
+      tagStart: next,
+      tagEnd: tag.end,
+    };
+
+    nodes.push(node);
+
+    if (!selfClosing) {
+      stack.push({ node, childCounts: new Map() });
+    } else if (stack.length === 0) {
+      break;
+    }
+  }
+
+  return nodes;
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+function nodeKey(node: JsxNode): string {
+  return `${node.depth}:${node.tag}`;
+}
+
+/**
+ * Longest common subsequence over node keys.
+ * Returns matched index pairs in order.
+ */
+function matchNodes(before: JsxNode[], after: JsxNode[]): Array<[number, number]> {
+  const n = before.length;
+  const m = after.length;
+  const table: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+
+  for (let a = n - 1; a >= 0; a--) {
+    for (let b = m - 1; b >= 0; b--) {
+      table[a]![b] =
+        nodeKey(before[a]!) === nodeKey(after[b]!)
+          ? table[a + 1]![b + 1]! + 1
+          : Math.max(table[a + 1]![b]!, table[a]![b + 1]!);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let a = 0;
+  let b = 0;
+  while (a < n && b < m) {
+    if (nodeKey(before[a]!) === nodeKey(after[b]!)) {
+      pairs.push([a, b]);
+      a++;
+      b++;
+    } else if (table[a + 1]![b]! >= table[a]![b + 1]!) {
+      a++;
+    } else {
+      b++;
+    }
+  }
+
+  return pairs;
+}
+
+function compareAttributes(
+  before: Record<string, string>,
+  after: Record<string, string>
+): NonNullable<JsxChange["attributeChanges"]> {
+  const names = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: NonNullable<JsxChange["attributeChanges"]> = [];
+
+  for (const name of names) {
+    // Selection and stable element ids carry no meaning
+    if (name === "data-element-id" || name === ELEMENT_ID_ATTRIBUTE) continue;
+    const previous = before[name] ?? null;
+    const next = after[name] ?? null;
+    if (previous !== next) {
+      changes.push({ name, before: previous, after: next });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Structural diff between two React Email sources.
+ */
+export function diffJsx(beforeCode: string | null, afterCode: string | null): JsxChange[] {
+  const before = parseJsxTree(beforeCode);
+  const after = parseJsxTree(afterCode);
+  const pairs = matchNodes(before, after);
+
+  const matchedBefore = new Set(pairs.map(([a]) => a));
+  const matchedAfter = new Set(pairs.map(([, b]) => b));
+  const changes: JsxChange[] = [];
+
+  before.forEach((node, index) => {
+    if (!matchedBefore.has(index)) {
+      changes.push({ type: "removed", tag: node.tag, path: node.path });
+    }
+  });
+
+  after.forEach((node, index) => {
+    if (!matchedAfter.has(index)) {
+      changes.push({ type: "added", tag: node.tag, path: node.path });
+    }
+  });
+
+  for (const [a, b] of pairs) {
+    const previous = before[a]!;
+    const next = after[b]!;
+    const attributeChanges = compareAttributes(previous.attributes, next.attributes);
+    const textChanged = previous.text !== next.text;
+
+    if (textChanged || attributeChanges.length > 0) {
+      changes.push({
+        type: "modified",
+        tag: next.tag,
+        path: next.path,
+        ...(textChanged && { textChange: { before: previous.text, after: next.text } }),
+        ...(attributeChanges.length > 0 && { attributeChanges }),
+      });
+    }
+  }
+
+  return changes;
+}
+
+function asStyleRecord(value: unknown): Record<string, Record<string, unknown>> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const record: Record<string, Record<string, unknown>> = {};
+  for (const [name, styles] of Object.entries(value as Record<string, unknown>)) {
+    if (styles && typeof styles === "object" && !Array.isArray(styles)) {
+      record[name] = styles as Record<string, unknown>;
+    }
+  }
+  return record;
+}
+
+/**
+ * Diff two styleDefinitions JSON blobs (style name → CSS properties).
+ */
+export function diffStyleDefinitions(beforeValue: unknown, afterValue: unknown): StyleChange[] {
+  const before = asStyleRecord(beforeValue);
+  const after = asStyleRecord(afterValue);
+  const names = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: StyleChange[] = [];
+
+  for (const styleName of names) {
+    const previous = before[styleName];
+    const next = after[styleName];
+
+    if (!previous && next) {
+      changes.push({
+        type: "added",
+        styleName,
+        properties: Object.entries(next).map(([property, value]) => ({
+          property,
+          before: null,
+          after: value,
+        })),
+      });
+      continue;
+    }
+
+    if (previous && !next) {
+      changes.push({
+        type: "removed",
+        styleName,
+        properties: Object.entries(previous).map(([property, value]) => ({
+          property,
+          before: value,
+          after: null,
+        })),
+      });
+      continue;
+    }
+
+    const properties: StylePropertyChange[] = [];
+    const propertyNames = new Set([...Object.keys(previous!), ...Object.keys(next!)]);
+    for (const property of propertyNames) {
+      const beforeProp = previous![property] ?? null;
+      const afterProp = next![property] ?? null;
+      if (JSON.stringify(beforeProp) !== JSON.stringify(afterProp)) {
+        properties.push({ property, before: beforeProp, after: afterProp });
+      }
+    }
+
+    if (properties.length > 0) {
+      changes.push({ type: "modified", styleName, properties });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Full diff between two template snapshots (versions or live template).
+ */
+export function diffTemplateSnapshots(
+  before: TemplateSnapshotForDiff,
+  after: TemplateSnapshotForDiff
+): TemplateDiff {
+  const jsx = diffJsx(before.reactEmailCode, after.reactEmailCode);
+  const styles = diffStyleDefinitions(before.styleDefinitions, after.styleDefinitions);
+
+  const metadata: TemplateDiff["metadata"] = [];
+  if ((before.subject ?? null) !== (after.subject ?? null)) {
+    metadata.push({ field: "subject", before: before.subject, after: after.subject });
+  }
+  if ((before.previewText ?? null) !== (after.previewText ?? null)) {
+    metadata.push({ field: "previewText", before: before.previewText, after: after.previewText });
+  }
+
+  const elementsAdded = jsx.filter((c) => c.type === "added").length;
+  const elementsRemoved = jsx.filter((c) => c.type === "removed").length;
+  const elementsModified = jsx.filter((c) => c.type === "modified").length;
+
+  return {
+    jsx,
+    styles,
+    metadata,
+    summary: {
+      elementsAdded,
+      elementsRemoved,
+      elementsModified,
+      stylesChanged: styles.length,
+      hasChanges: jsx.length > 0 || styles.length > 0 || metadata.length > 0,
+    },
+  };
+}
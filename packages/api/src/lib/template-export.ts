@@ -0,0 +1,175 @@
+/**
+ * Template export artifacts
+ * Builds the downloadable file for each ExportFormat. Image hosting and S3
+ * upload happen in the export router; everything here is pure.
+ */
+
+import { strToU8, zipSync } from "fflate";
+import type { ExportFormat } from "@mocah/db";
+import { stripElementIds } from "@mocah/shared/element-ids";
+import { convertMergeTags, extractMergeTags, type MergeTagDialect } from "./merge-tags";
+
+/** Formats we can produce (pdf has no renderer yet) */
+export const EXPORTABLE_FORMATS = [
+  "html",
+  "json",
+  "mailchimp",
+  "sendgrid",
+  "campaign_monitor",
+  "constant_contact",
+  "liquid",
+] as const satisfies readonly ExportFormat[];
+
+export type ExportableFormat = (typeof EXPORTABLE_FORMATS)[number];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportableFormat, string> = {
+  html: "HTML (zip)",
+  json: "JSON bundle",
+  mailchimp: "Mailchimp",
+  sendgrid: "SendGrid",
+  campaign_monitor: "Campaign Monitor",
+  constant_contact: "Constant Contact",
+  liquid: "Liquid",
+};
+
+export interface ExportSource {
+  id: string;
+  name: string;
+  subject: string | null;
+  previewText: string | null;
+  reactEmailCode: string | null;
+  styleType: string;
+  styleDefinitions: unknown;
+  /** Rendered HTML with images already pointing at hosted URLs */
+  htmlCode: string;
+  /** Email-safe table variant of htmlCode */
+  tableHtmlCode: string;
+  imageUrls: string[];
+  /** Declared merge tag variables; defaults become ESP fallbacks */
+  variables: Array<{ key: string; defaultValue?: string }>;
+}
+
+export interface ExportArtifact {
+  body: Uint8Array;
+  contentType: string;
+  fileName: string;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Collect absolute image URLs referenced by <img src> and CSS url()
+ */
+export function collectImageUrls(html: string): string[] {
+  const urls = new Set<string>();
+  for (const match of html.matchAll(/<img\b[^>]*?\bsrc="([^"]+)"/gi)) {
+    urls.add(match[1]!);
+  }
+  for (const match of html.matchAll(/url\((['"]?)(https?:[^'")]+)\1\)/gi)) {
+    urls.add(match[2]!);
+  }
+  return [...urls];
+}
+
+/**
+ * Filesystem-safe slug for export file names
+ */
+export function slugifyFileName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return slug || "template";
+}
+
+function buildHtmlZip(source: ExportSource, slug: string): ExportArtifact {
+  const manifest = {
+    template: { id: source.id, name: source.name, subject: source.subject },
+    files: {
+      "index.html": "Rendered HTML",
+      "email-safe.html": "Table-based HTML with Outlook fallbacks",
+    },
+    images: source.imageUrls,
+    exportedAt: new Date().toISOString(),
+  };
+
+  const body = zipSync({
+    "index.html": strToU8(source.htmlCode),
+    "email-safe.html": strToU8(source.tableHtmlCode),
+    "manifest.json": strToU8(JSON.stringify(manifest, null, 2)),
+  });
+
+  return {
+    body,
+    contentType: "application/zip",
+    fileName: `${slug}.zip`,
+    metadata: { files: Object.keys(manifest.files), imageCount: source.imageUrls.length },
+  };
+}
+
+function buildJsonBundle(source: ExportSource, slug: string): ExportArtifact {
+  const bundle = {
+    schemaVersion: 1,
+    template: {
+      id: source.id,
+      name: source.name,
+      subject: source.subject,
+      previewText: source.previewText,
+    },
+    reactEmailCode: source.reactEmailCode && stripElementIds(source.reactEmailCode),
+    styleType: source.styleType,
+    styleDefinitions: source.styleDefinitions ?? {},
+    variables: source.variables,
+    htmlCode: source.htmlCode,
+    images: source.imageUrls,
+    exportedAt: new Date().toISOString(),
+  };
+
+  return {
+    body: strToU8(JSON.stringify(bundle, null, 2)),
+    contentType: "application/json",
+    fileName: `${slug}.json`,
+    metadata: { schemaVersion: bundle.schemaVersion },
+  };
+}
+
+function buildEspHtml(
+  source: ExportSource,
+  slug: string,
+  dialect: MergeTagDialect
+): ExportArtifact {
+  const defaults = Object.fromEntries(
+    source.variables.map((variable) => [variable.key, variable.defaultValue ?? ""])
+  );
+  const html = convertMergeTags(source.tableHtmlCode, dialect, defaults);
+
+  return {
+    body: strToU8(html),
+    contentType: "text/html; charset=utf-8",
+    fileName: `${slug}-${dialect.replace(/_/g, "-")}.html`,
+    metadata: {
+      dialect,
+      mergeTags: extractMergeTags(source.tableHtmlCode).map((tag) => tag.name),
+    },
+  };
+}
+
+/**
+ * Build the export artifact for a format
+ */
+export function buildExportArtifact(source: ExportSource, format: ExportableFormat): ExportArtifact {
+  const slug = slugifyFileName(source.name);
+
+  switch (format) {
+    case "html":
+      return buildHtmlZip(source, slug);
+    case "json":
+      return buildJsonBundle(source, slug);
+    case "mailchimp":
+    case "sendgrid":
+    case "campaign_monitor":
+    case "constant_contact":
+    case "liquid":
+      return buildEspHtml(source, slug, format);
+  }
+}
@@ -3,11 +3,24 @@
  * Consolidates common patterns to reduce redundancy across template routers
  */
 
-import type { PrismaClient } from "@mocah/db";
+import type { PrismaClient, TemplatePermissionLevel } from "@mocah/db";
 import { TRPCError } from "@trpc/server";
 import { checkMembership } from "./membership-cache";
+import { getTemplatePermission, hasPermissionLevel } from "./template-permissions";
+import { assertTemplateEditable } from "./template-review";
 import { repairHtmlTags } from "./html-tag-repair";
-import { validateReactEmailCode, logger } from "@mocah/shared";
+import {
+  renderReactEmailServerSide,
+  ServerRenderError,
+  verifyClientHtml,
+} from "./server-renderer";
+import {
+  validateReactEmailCode,
+  logger,
+  templateVariablesSchema,
+  type DesignTokens,
+  type TemplateVariable,
+} from "@mocah/shared";
 import { serverEnv } from "@mocah/config/env";
 
 // Valid style type values for templates
@@ -27,17 +40,30 @@ export function validateStyleType(styleType: string): StyleType {
   return "STYLE_OBJECTS";
 }
 
+/**
+ * Reads a template's stored variable declarations.
+ * Invalid or missing JSON yields an empty list rather than failing the caller.
+ */
+export function parseTemplateVariables(value: unknown): TemplateVariable[] {
+  const result = templateVariablesSchema.safeParse(value ?? []);
+  return result.success ? result.data : [];
+}
+
 /**
  * Options for verifyTemplateAccess
  */
 export interface VerifyTemplateAccessOptions {
   include?: Record<string, any>;
   allowPublic?: boolean;
+  /** Minimum template permission required (default: view) */
+  permission?: TemplatePermissionLevel;
+  /** Reject templates whose content is locked by a review or approval */
+  editable?: boolean;
 }
 
 /**
  * Verifies user has access to a template and returns it.
- * Consolidates the repeated pattern: find template → check membership → throw if not found/forbidden
+ * Consolidates the repeated pattern: find template → check membership → check team permission → throw if not found/forbidden
  * 
  * @param db - Prisma client
  * @param userId - User ID to verify access for
@@ -78,6 +104,23 @@ export async function verifyTemplateAccess<T = any>(
     });
   }
 
+  // Team-owned or shared templates are limited to their grants
+  const required = options?.permission ?? "view";
+  const permission = await getTemplatePermission(db, userId, template);
+
+  if (!hasPermissionLevel(permission, required)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: permission
+        ? `You need ${required} access to this template`
+        : "You do not have access to this template",
+    });
+  }
+
+  if (options?.editable) {
+    assertTemplateEditable(template);
+  }
+
   return template as T;
 }
 
@@ -95,6 +138,7 @@ export interface CreateInitialVersionData {
   previewText?: string | null;
   htmlCode?: string | null;
   tableHtmlCode?: string | null;
+  variables?: any;
   metadata?: any;
   isCurrent?: boolean;
 }
@@ -127,6 +171,7 @@ export async function createInitialVersion(
       previewText: versionData.previewText,
       htmlCode: versionData.htmlCode,
       tableHtmlCode: versionData.tableHtmlCode,
+      variables: versionData.variables,
       metadata: versionData.metadata,
     },
   });
@@ -183,6 +228,85 @@ export function validateAndRepairCode(code: string): ValidateAndRepairResult {
   };
 }
 
+/**
+ * Renders a template's HTML on the server for delivery (sends, exports,
+ * pushes, library publishing, screenshots).
+ * Stored htmlCode is computed by the browser, so it's only used for legacy
+ * templates without React Email code.
+ *
+ * @param template - Template (or version/library entry) with code and cached HTML
+ * @param designTokens - Brand tokens the code's `brand.*` references resolve to
+ * @returns Rendered HTML, or null if the template has nothing to render
+ * @throws TRPCError with BAD_REQUEST if the code fails to render
+ */
+export async function renderTemplateHtml(
+  template: {
+    reactEmailCode: string | null;
+    htmlCode?: string | null;
+  },
+  designTokens?: DesignTokens
+): Promise<string | null> {
+  if (!template.reactEmailCode?.trim()) {
+    return template.htmlCode ?? null;
+  }
+
+  try {
+    return await renderReactEmailServerSide(template.reactEmailCode, { designTokens });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown render error";
+    logger.warn("⚠️ [ServerRenderer] Template failed to render", {
+      code: error instanceof ServerRenderError ? error.code : undefined,
+      error: message,
+    });
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Template failed to render: ${message}`,
+    });
+  }
+}
+
+/**
+ * Replaces client-rendered HTML with the server render before it's cached.
+ * Mismatches are logged. If the server can't render the code the save is
+ * rejected, so unverified client HTML is never stored.
+ *
+ * @param code - React Email code the HTML was rendered from
+ * @param clientHtml - HTML computed by the browser
+ * @param templateId - For logging
+ * @param designTokens - Brand tokens in effect, so the stored HTML holds their values
+ * @returns HTML to store
+ * @throws TRPCError with BAD_REQUEST when the server render fails
+ */
+export async function reconcileClientHtml(
+  code: string,
+  clientHtml: string,
+  templateId?: string,
+  designTokens?: DesignTokens
+): Promise<string> {
+  try {
+    const { html, matches } = await verifyClientHtml(code, clientHtml, designTokens);
+    if (!matches) {
+      logger.warn("⚠️ [ServerRenderer] Client HTML differs from server render, storing server HTML", {
+        templateId,
+        clientLength: clientHtml.length,
+        serverLength: html.length,
+      });
+    }
+    return html;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error("❌ [ServerRenderer] Could not verify client HTML", {
+      templateId,
+      code: error instanceof ServerRenderError ? error.code : undefined,
+      error: message,
+    });
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Template failed to render: ${message}`,
+    });
+  }
+}
+
 /**
  * Checks if user has permission to publish templates to library.
  * Consolidates publisher email check logic.
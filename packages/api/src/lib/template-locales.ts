@@ -0,0 +1,261 @@
+/**
+ * Template locale string tables
+ * Extracts translatable copy from a template's saved code, merges AI
+ * translations into a locale's table (keeping only keys that still exist in
+ * the source and rejecting translations that drop merge tags) and swaps
+ * translations into the code for sending and exporting.
+ */
+
+import * as Babel from "@babel/standalone";
+import { TRPCError } from "@trpc/server";
+import type { PrismaClient } from "@mocah/db";
+import {
+  getTranslatableStringKey,
+  normalizeTranslatableText,
+  type TranslatableString,
+} from "@mocah/shared/template-locales";
+import { extractMergeTags } from "./merge-tags";
+
+type SourceString = TranslatableString;
+
+export interface TranslationMergeResult {
+  strings: Record<string, string>;
+  /** Keys that received a new translation */
+  translatedKeys: string[];
+}
+
+function mergeTagNames(text: string): string {
+  return extractMergeTags(text)
+    .map((tag) => tag.name)
+    .sort()
+    .join(",");
+}
+
+/**
+ * Apply translated strings on top of an existing table
+ * Stale keys (copy removed from the template) are dropped.
+ */
+export function mergeTranslations(
+  source: SourceString[],
+  existing: Record<string, string>,
+  translations: Array<{ key: string; text: string }>
+): TranslationMergeResult {
+  const sourceByKey = new Map(source.map((entry) => [entry.key, entry.text]));
+  const strings: Record<string, string> = {};
+
+  for (const [key, text] of Object.entries(existing)) {
+    if (sourceByKey.has(key)) strings[key] = text;
+  }
+
+  const translatedKeys: string[] = [];
+  for (const { key, text } of translations) {
+    const sourceText = sourceByKey.get(key);
+    const value = text.trim();
+    if (sourceText === undefined || !value) continue;
+    // A translation that loses or renames a merge tag would break personalization
+    if (mergeTagNames(value) !== mergeTagNames(sourceText)) continue;
+
+    strings[key] = value;
+    translatedKeys.push(key);
+  }
+
+  return { strings, translatedKeys };
+}
+
+// ============================================================================
+// Source strings
+// ============================================================================
+//
+// Same segments as the editor's extractor (apps/web element-extractor), so
+// keys computed here match the ones the locale panel shows.
+
+/** Elements whose text content is translated per locale */
+const TRANSLATABLE_ELEMENTS = ["Heading", "Text", "Button", "Link"];
+
+// Copy that is only merge tags or punctuation has nothing to translate
+const MERGE_TAG_ONLY = /^(?:\{\{[^}]*\}\}|[\s\d.,:;!?()\-–—|/·•*&%$€£#@"'])*$/;
+
+interface TranslatableSegment {
+  text: string;
+  /** Swap the segment's source nodes for a translation */
+  replace: (translation: string) => void;
+}
+
+function isTranslatableElement(path: any): boolean {
+  return path.isJSXElement() && TRANSLATABLE_ELEMENTS.includes(path.node.openingElement.name?.name);
+}
+
+function isTextChild(node: any): boolean {
+  return (
+    node.type === "JSXText" ||
+    (node.type === "JSXExpressionContainer" && node.expression.type === "StringLiteral")
+  );
+}
+
+/**
+ * Babel plugin visiting runs of text inside translatable elements
+ * Adjacent text and string expressions form one segment, so
+ * `Hi {"{{first_name}}"}, welcome` is translated as a single sentence.
+ */
+function createSegmentPlugin(visit: (segment: TranslatableSegment) => void) {
+  return ({ types: t }: { types: any }) => ({
+    visitor: {
+      JSXElement(path: any) {
+        const element = isTranslatableElement(path) ? path : path.findParent(isTranslatableElement);
+        if (!element) return;
+
+        const children: any[] = path.node.children;
+        const replacements: Array<{ start: number; count: number; node: any }> = [];
+
+        let start = 0;
+        while (start < children.length) {
+          if (!isTextChild(children[start])) {
+            start++;
+            continue;
+          }
+
+          let end = start;
+          while (end < children.length && isTextChild(children[end])) end++;
+          const run = children.slice(start, end);
+          const runStart = start;
+          start = end;
+
+          const raw = run
+            .map((child) => (child.type === "JSXText" ? child.value : child.expression.value))
+            .join("");
+          const text = normalizeTranslatableText(raw);
+          if (!text || MERGE_TAG_ONLY.test(text)) continue;
+
+          visit({
+            text,
+            replace: (translation) => {
+              // JSX keeps whitespace next to text on the same line; keep it as spaces
+              const first = run[0];
+              const last = run[run.length - 1];
+              const leading = first.type === "JSXText" && /^[^\S\n]+\S/.test(first.value) ? " " : "";
+              const trailing = last.type === "JSXText" && /\S[^\S\n]+$/.test(last.value) ? " " : "";
+              // A string expression avoids escaping {, }, < and > in the translation
+              replacements.push({
+                start: runStart,
+                count: run.length,
+                node: t.jsxExpressionContainer(t.stringLiteral(`${leading}${translation}${trailing}`)),
+              });
+            },
+          });
+        }
+
+        // Splice from the end so earlier indexes stay valid
+        for (const { start: index, count, node } of replacements.reverse()) {
+          children.splice(index, count, node);
+        }
+      },
+    },
+  });
+}
+
+function transformSegments(code: string, visit: (segment: TranslatableSegment) => void) {
+  return Babel.transform(code, {
+    filename: "email.tsx",
+    babelrc: false,
+    configFile: false,
+    parserOpts: { plugins: ["jsx", "typescript"] },
+    plugins: [createSegmentPlugin(visit)],
+    generatorOpts: { jsescOption: { minimal: true } },
+  } as any);
+}
+
+/**
+ * Translatable copy of a template's source code, each string once
+ *
+ * @throws when the code doesn't parse
+ */
+export function extractTranslatableStrings(reactEmailCode: string): TranslatableString[] {
+  const strings = new Map<string, TranslatableString>();
+
+  transformSegments(reactEmailCode, ({ text }) => {
+    const key = getTranslatableStringKey(text);
+    if (!strings.has(key)) strings.set(key, { key, text });
+  });
+
+  return [...strings.values()];
+}
+
+/**
+ * Swap source copy for a locale's translations
+ * Strings without a translation stay in the source language.
+ *
+ * @throws when the code doesn't parse
+ */
+export function localizeReactEmailCode(
+  reactEmailCode: string,
+  strings: Record<string, string>
+): string {
+  if (Object.keys(strings).length === 0) return reactEmailCode;
+
+  let changed = false;
+  const result = transformSegments(reactEmailCode, ({ text, replace }) => {
+    const translation = strings[getTranslatableStringKey(text)];
+    if (!translation) return;
+    replace(translation);
+    changed = true;
+  });
+
+  return changed && result.code ? result.code : reactEmailCode;
+}
+
+// ============================================================================
+// Localized templates
+// ============================================================================
+
+interface LocalizableTemplate {
+  id: string;
+  reactEmailCode: string | null;
+  subject: string | null;
+  previewText: string | null;
+}
+
+/**
+ * A template's code, subject and preview text in one of its locales
+ * Returns the template unchanged without a locale or for its source locale.
+ *
+ * @throws TRPCError NOT_FOUND when the template has no such locale, BAD_REQUEST
+ * when its code doesn't parse
+ */
+export async function localizeTemplate<T extends LocalizableTemplate & { defaultLocale: string }>(
+  db: PrismaClient,
+  template: T,
+  locale: string | undefined
+): Promise<T> {
+  if (!locale || locale === template.defaultLocale) return template;
+
+  const record = await db.templateLocale.findUnique({
+    where: { templateId_locale: { templateId: template.id, locale } },
+    select: { strings: true, subject: true, previewText: true },
+  });
+
+  if (!record) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "This template has no translation for that language",
+    });
+  }
+
+  let reactEmailCode = template.reactEmailCode;
+  if (reactEmailCode) {
+    try {
+      reactEmailCode = localizeReactEmailCode(reactEmailCode, (record.strings ?? {}) as Record<string, string>);
+    } catch (error) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `Template failed to render: ${error instanceof Error ? error.message : "Unknown error"}`,
+      });
+    }
+  }
+
+  return {
+    ...template,
+    reactEmailCode,
+    subject: record.subject || template.subject,
+    previewText: record.previewText || template.previewText,
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * Template access control
+ * Templates without an owning team or grants are open to every organization
+ * member, as before. Assigning a team or granting access restricts a template
+ * to org owners/admins, the owning team and whoever holds a TemplatePermission.
+ */
+
+import type { Prisma, PrismaClient, TemplatePermissionLevel } from "@mocah/db";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Lowest to highest - each level includes the ones before it */
+export const TEMPLATE_PERMISSION_LEVELS = ["view", "comment", "edit", "publish"] as const satisfies readonly TemplatePermissionLevel[];
+
+export const TEMPLATE_ADMIN_ROLES = ["owner", "admin"];
+
+export interface TemplateAccessGrant {
+  teamId: string | null;
+  userId: string | null;
+  level: TemplatePermissionLevel;
+}
+
+export interface TemplateAccessSubject {
+  userId: string;
+  /** Organization roles of the user */
+  roles: string[];
+  /** Teams the user belongs to in the template's organization */
+  teamIds: string[];
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Better Auth stores a member's role as a string that may hold a JSON array
+ */
+export function parseMemberRoles(role: string): string[] {
+  try {
+    const parsed = JSON.parse(role);
+    return Array.isArray(parsed) ? parsed.map(String) : [String(parsed)];
+  } catch {
+    return role.split(",").map((r) => r.trim()).filter(Boolean);
+  }
+}
+
+export function isOrganizationAdmin(roles: string[]): boolean {
+  return roles.some((role) => TEMPLATE_ADMIN_ROLES.includes(role));
+}
+
+export function hasPermissionLevel(
+  granted: TemplatePermissionLevel | null,
+  required: TemplatePermissionLevel
+): boolean {
+  if (!granted) return false;
+  return TEMPLATE_PERMISSION_LEVELS.indexOf(granted) >= TEMPLATE_PERMISSION_LEVELS.indexOf(required);
+}
+
+function highestLevel(levels: TemplatePermissionLevel[]): TemplatePermissionLevel | null {
+  let highest: TemplatePermissionLevel | null = null;
+  for (const level of levels) {
+    if (!hasPermissionLevel(highest, level)) highest = level;
+  }
+  return highest;
+}
+
+export function isTemplateRestricted(template: { teamId: string | null }, grants: unknown[]): boolean {
+  return !!template.teamId || grants.length > 0;
+}
+
+/**
+ * A member's effective permission on a template, or null for no access
+ */
+export function resolveTemplatePermission(
+  subject: TemplateAccessSubject,
+  template: { teamId: string | null },
+  grants: TemplateAccessGrant[]
+): TemplatePermissionLevel | null {
+  if (!isTemplateRestricted(template, grants)) return "publish";
+  if (isOrganizationAdmin(subject.roles)) return "publish";
+  if (template.teamId && subject.teamIds.includes(template.teamId)) return "publish";
+
+  return highestLevel(
+    grants
+      .filter(
+        (grant) =>
+          grant.userId === subject.userId ||
+          (grant.teamId !== null && subject.teamIds.includes(grant.teamId))
+      )
+      .map((grant) => grant.level)
+  );
+}
+
+/**
+ * Grants for a copy of a template within the same organization
+ * A restricted source stays restricted: its grants carry over and the user
+ * making the copy becomes an explicit editor, so they can open their copy
+ * even when only a team grant gave them access to the source.
+ */
+export function buildDuplicateGrants(
+  template: { teamId: string | null },
+  grants: TemplateAccessGrant[],
+  userId: string
+): TemplateAccessGrant[] {
+  if (!isTemplateRestricted(template, grants)) return [];
+
+  const copied = grants.map(({ teamId, userId, level }) => ({ teamId, userId, level }));
+  const own = copied.find((grant) => grant.userId === userId);
+  if (!own) {
+    copied.push({ teamId: null, userId, level: "edit" });
+  } else if (!hasPermissionLevel(own.level, "edit")) {
+    own.level = "edit";
+  }
+
+  return copied;
+}
+
+// ============================================================================
+// Database helpers
+// ============================================================================
+
+/**
+ * Roles and team memberships of a user within an organization
+ * Returns null when the user isn't a member.
+ */
+export async function getTemplateAccessSubject(
+  db: PrismaClient,
+  userId: string,
+  organizationId: string
+): Promise<TemplateAccessSubject | null> {
+  const [member, teams] = await Promise.all([
+    db.member.findFirst({
+      where: { userId, organizationId },
+      select: { role: true },
+    }),
+    db.teamMember.findMany({
+      where: { userId, team: { organizationId } },
+      select: { teamId: true },
+    }),
+  ]);
+
+  if (!member) return null;
+
+  return {
+    userId,
+    roles: parseMemberRoles(member.role),
+    teamIds: teams.map((team) => team.teamId),
+  };
+}
+
+/**
+ * Effective permission of an organization member on a template
+ * Unrestricted templates resolve without loading the member's teams.
+ */
+export async function getTemplatePermission(
+  db: PrismaClient,
+  userId: string,
+  template: { id: string; organizationId: string; teamId: string | null }
+): Promise<TemplatePermissionLevel | null> {
+  const grants = await db.templatePermission.findMany({
+    where: { templateId: template.id },
+    select: { teamId: true, userId: true, level: true },
+  });
+
+  if (!isTemplateRestricted(template, grants)) return "publish";
+
+  const subject = await getTemplateAccessSubject(db, userId, template.organizationId);
+  if (!subject) return null;
+
+  return resolveTemplatePermission(subject, template, grants);
+}
+
+/**
+ * Prisma filter for the templates a member can see in lists
+ * Mirrors resolveTemplatePermission; admins see everything. Pass a level to
+ * only match templates the member holds at least that permission on.
+ */
+export function buildTemplateVisibilityFilter(
+  subject: TemplateAccessSubject,
+  level: TemplatePermissionLevel = "view"
+): Prisma.TemplateWhereInput | undefined {
+  if (isOrganizationAdmin(subject.roles)) return undefined;
+
+  const levels = TEMPLATE_PERMISSION_LEVELS.filter((granted) => hasPermissionLevel(granted, level));
+
+  return {
+    OR: [
+      { teamId: null, permissions: { none: {} } },
+      { teamId: { in: subject.teamIds } },
+      {
+        permissions: {
+          some: {
+            level: { in: levels },
+            OR: [{ userId: subject.userId }, { teamId: { in: subject.teamIds } }],
+          },
+        },
+      },
+    ],
+  };
+}
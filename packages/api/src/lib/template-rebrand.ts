@@ -0,0 +1,184 @@
+/**
+ * Template re-branding
+ * Replaces a brand kit revision's old style values (see getRebrandReplacements)
+ * in template source and style definitions. Runs on the server so saved code
+ * never comes from the client.
+ */
+
+import * as Babel from "@babel/standalone";
+import type { StyleReplacement } from "./brand-kit-history";
+
+export interface RebrandResult {
+  updatedCode: string;
+  updatedStyleDefinitions: Record<string, Record<string, unknown>>;
+  /** Values replaced in the code per replacement, in input order */
+  counts: number[];
+  total: number;
+  /** Whether the code or the style definitions changed */
+  changed: boolean;
+}
+
+// Style properties that can carry a brand color (color, backgroundColor, borderTop...)
+const COLOR_PROPERTY = /^(color|background|border|outline|boxShadow|textDecorationColor|fill|stroke)/;
+// Legacy table attributes
+const COLOR_ATTRIBUTES = new Set(["bgcolor", "color"]);
+const HEX_COLOR = /#(?:[0-9a-f]{8}|[0-9a-f]{6}|[0-9a-f]{3,4})\b/gi;
+
+function normalizeColor(value: string): string {
+  const color = value.trim().toLowerCase().replace(/\s+/g, "");
+  // #abc -> #aabbcc
+  if (/^#[0-9a-f]{3,4}$/.test(color)) {
+    return "#" + color.slice(1).split("").map((c) => c + c).join("");
+  }
+  return color;
+}
+
+function firstFontFamily(value: string): string {
+  return (value.split(",")[0] ?? "").trim().replace(/^['"]|['"]$/g, "").toLowerCase();
+}
+
+function normalizeLength(value: string | number): string {
+  return typeof value === "number" ? `${value}px` : value.trim().toLowerCase();
+}
+
+function matchesStyleValue(
+  property: string,
+  value: string | number,
+  replacement: StyleReplacement
+): boolean {
+  switch (replacement.kind) {
+    case "color":
+      return (
+        typeof value === "string" &&
+        COLOR_PROPERTY.test(property) &&
+        normalizeColor(value) === normalizeColor(replacement.from)
+      );
+    case "fontFamily":
+      // Same primary family, whatever the fallbacks
+      return (
+        property === "fontFamily" &&
+        typeof value === "string" &&
+        firstFontFamily(value) === firstFontFamily(replacement.from)
+      );
+    case "borderRadius":
+      return property === "borderRadius" && normalizeLength(value) === normalizeLength(replacement.from);
+  }
+}
+
+/**
+ * Rebrand one style value, or undefined when nothing matches
+ * Always matched against the original value, so swapped colors don't chain.
+ */
+function rebrandStyleValue(
+  property: string,
+  value: string | number,
+  replacements: StyleReplacement[],
+  counts: number[]
+): string | undefined {
+  const index = replacements.findIndex((replacement) => matchesStyleValue(property, value, replacement));
+  if (index !== -1) {
+    counts[index]! += 1;
+    return replacements[index]!.to;
+  }
+
+  // Colors inside shorthands like "1px solid #3b82f6"
+  if (typeof value !== "string" || !COLOR_PROPERTY.test(property)) return undefined;
+
+  let replaced = false;
+  const next = value.replace(HEX_COLOR, (hex) => {
+    const colorIndex = replacements.findIndex(
+      (replacement) => replacement.kind === "color" && normalizeColor(replacement.from) === normalizeColor(hex)
+    );
+    if (colorIndex === -1) return hex;
+    counts[colorIndex]! += 1;
+    replaced = true;
+    return replacements[colorIndex]!.to;
+  });
+
+  return replaced ? next : undefined;
+}
+
+function getPropertyName(key: any): string | null {
+  if (key?.type === "Identifier") return key.name;
+  if (key?.type === "StringLiteral") return key.value;
+  return null;
+}
+
+/**
+ * Babel plugin that rewrites style object properties and legacy color attributes
+ */
+function createRebrandPlugin(replacements: StyleReplacement[], counts: number[]) {
+  return ({ types: t }: { types: any }) => ({
+    visitor: {
+      ObjectProperty(path: any) {
+        const property = getPropertyName(path.node.key);
+        const valueNode = path.node.value;
+        if (!property || !(t.isStringLiteral(valueNode) || t.isNumericLiteral(valueNode))) return;
+
+        const next = rebrandStyleValue(property, valueNode.value, replacements, counts);
+        if (next !== undefined) {
+          path.node.value = t.stringLiteral(next);
+        }
+      },
+      JSXAttribute(path: any) {
+        const name = path.node.name?.name;
+        const valueNode = path.node.value;
+        if (!COLOR_ATTRIBUTES.has(name) || !t.isStringLiteral(valueNode)) return;
+
+        const next = rebrandStyleValue("color", valueNode.value, replacements, counts);
+        if (next !== undefined) {
+          path.node.value = t.stringLiteral(next);
+        }
+      },
+    },
+  });
+}
+
+/**
+ * Replace old brand values with new ones throughout a template
+ * Rewrites style object properties (inline styles and style constants),
+ * legacy bgcolor/color attributes and the stored style definitions.
+ * Deterministic: the same code and replacements always give the same result,
+ * and code without matches is returned untouched.
+ *
+ * @throws when the code doesn't parse
+ */
+export function rebrandReactEmailCode(
+  code: string,
+  styleDefinitions: Record<string, Record<string, unknown>>,
+  replacements: StyleReplacement[]
+): RebrandResult {
+  const counts = replacements.map(() => 0);
+
+  const transformed = Babel.transform(code, {
+    filename: "email.tsx",
+    babelrc: false,
+    configFile: false,
+    parserOpts: { plugins: ["jsx", "typescript"] },
+    plugins: [createRebrandPlugin(replacements, counts)],
+    generatorOpts: { jsescOption: { minimal: true } },
+  } as any);
+
+  const total = counts.reduce((sum, count) => sum + count, 0);
+
+  // Definitions mirror the code's style constants; counted separately
+  const definitionCounts = replacements.map(() => 0);
+  const updatedStyleDefinitions: Record<string, Record<string, unknown>> = {};
+  for (const [name, styles] of Object.entries(styleDefinitions)) {
+    const updated: Record<string, unknown> = { ...styles };
+    for (const [property, value] of Object.entries(styles ?? {})) {
+      if (typeof value !== "string" && typeof value !== "number") continue;
+      const next = rebrandStyleValue(property, value, replacements, definitionCounts);
+      if (next !== undefined) updated[property] = next;
+    }
+    updatedStyleDefinitions[name] = updated;
+  }
+
+  return {
+    updatedCode: total > 0 && transformed.code ? transformed.code : code,
+    updatedStyleDefinitions,
+    counts,
+    total,
+    changed: total > 0 || definitionCounts.some((count) => count > 0),
+  };
+}
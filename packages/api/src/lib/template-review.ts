@@ -0,0 +1,93 @@
+/**
+ * Template approval workflow
+ * draft/rejected → in_review → approved. Content is locked while a review is
+ * pending and after approval until someone reopens the template. Exports,
+ * integration pushes and library publishing need an approved template.
+ */
+
+import type { TemplateReviewDecision, TemplateReviewState } from "@mocah/db";
+import { TRPCError } from "@trpc/server";
+
+/** States in which the template's content can't change */
+export const LOCKED_REVIEW_STATES: readonly TemplateReviewState[] = ["in_review", "approved"];
+
+/** States from which a new review can be requested */
+export const REVIEWABLE_STATES: readonly TemplateReviewState[] = ["draft", "rejected"];
+
+/** Template fields that make up the reviewed content */
+export const REVIEWED_CONTENT_FIELDS = [
+  "reactEmailCode",
+  "htmlCode",
+  "styleType",
+  "styleDefinitions",
+  "subject",
+  "previewText",
+  "variables",
+  "defaultLocale",
+] as const;
+
+/**
+ * Why the template can't be edited, or null when it can
+ */
+export function getTemplateLockMessage(reviewState: TemplateReviewState): string | null {
+  switch (reviewState) {
+    case "in_review":
+      return "This template is in review. Reopen it to make changes.";
+    case "approved":
+      return "This template is approved and locked. Reopen it to make changes.";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Throws when the template's content is locked by the approval workflow
+ */
+export function assertTemplateEditable(template: { reviewState: TemplateReviewState }): void {
+  const message = getTemplateLockMessage(template.reviewState);
+
+  if (message) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message,
+    });
+  }
+}
+
+/**
+ * Throws unless the template has been approved
+ *
+ * @param action - What is being blocked, e.g. "exporting"
+ */
+export function assertTemplateApproved(
+  template: { reviewState: TemplateReviewState },
+  action: string
+): void {
+  if (template.reviewState !== "approved") {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: `This template needs to be approved before ${action}`,
+    });
+  }
+}
+
+/**
+ * Whether an update touches reviewed content
+ */
+export function touchesReviewedContent(update: Record<string, unknown>): boolean {
+  return REVIEWED_CONTENT_FIELDS.some((field) => update[field] !== undefined);
+}
+
+/**
+ * Outcome of a review from its reviewers' decisions
+ * Any rejection rejects it; it's approved once everyone has approved.
+ */
+export function resolveReviewOutcome(
+  decisions: TemplateReviewDecision[]
+): "pending" | "approved" | "rejected" {
+  if (decisions.includes("rejected")) return "rejected";
+  if (decisions.length > 0 && decisions.every((decision) => decision === "approved")) {
+    return "approved";
+  }
+  return "pending";
+}
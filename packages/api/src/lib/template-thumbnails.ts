@@ -0,0 +1,110 @@
+/**
+ * Dashboard template thumbnails
+ * Captured in the background after a template's HTML changes so template
+ * cards show a static image instead of rendering htmlCode in an iframe.
+ * Saves arrive in bursts while editing, so captures are debounced per
+ * template and always use the latest saved code. A template whose capture
+ * failed isn't tried again until its backoff runs out.
+ */
+
+import type { PrismaClient } from "@mocah/db";
+import { logger } from "@mocah/shared";
+import { generateTemplateScreenshot } from "./screenshot";
+import { getTemplateDesignTokens } from "./brand-kits";
+import { renderReactEmailServerSide } from "./server-renderer";
+
+/** Wait this long after the last save before capturing */
+const CAPTURE_DELAY_MS = 15_000;
+/** Backoff after the first failure; doubles with each further failure */
+const FAILURE_BACKOFF_MS = 60_000;
+const MAX_FAILURE_BACKOFF_MS = 6 * 60 * 60_000;
+
+const scheduled = new Map<string, ReturnType<typeof setTimeout>>();
+const failures = new Map<string, { count: number; retryAt: number }>();
+
+function recordFailure(templateId: string): void {
+  const count = (failures.get(templateId)?.count ?? 0) + 1;
+  const backoffMs = Math.min(FAILURE_BACKOFF_MS * 2 ** (count - 1), MAX_FAILURE_BACKOFF_MS);
+  failures.set(templateId, { count, retryAt: Date.now() + backoffMs });
+}
+
+/**
+ * Capture and store a template's thumbnail
+ * @returns Whether a thumbnail was stored, or null when there's nothing to capture
+ */
+async function refreshTemplateThumbnail(
+  db: PrismaClient,
+  templateId: string
+): Promise<boolean | null> {
+  const template = await db.template.findUnique({
+    where: { id: templateId },
+    select: {
+      organizationId: true,
+      brandKitId: true,
+      reactEmailCode: true,
+      htmlCode: true,
+      updatedAt: true,
+      deletedAt: true,
+    },
+  });
+  if (!template || template.deletedAt) return null;
+
+  const html = template.reactEmailCode?.trim()
+    ? await renderReactEmailServerSide(template.reactEmailCode, {
+        designTokens: await getTemplateDesignTokens(db, template),
+      })
+    : template.htmlCode;
+  if (!html) return null;
+
+  const thumbnailUrl = await generateTemplateScreenshot({
+    templateId,
+    htmlCode: html,
+    size: "thumbnail",
+    storagePrefix: "template-thumbnails",
+  });
+  if (!thumbnailUrl) return false;
+
+  await db.template.update({
+    where: { id: templateId },
+    data: {
+      thumbnailUrl,
+      thumbnailUpdatedAt: new Date(),
+      // A new thumbnail isn't an edit - keep the dashboard's sort order
+      updatedAt: template.updatedAt,
+    },
+  });
+  return true;
+}
+
+/**
+ * Queue a thumbnail capture for a template
+ * Repeated calls within the delay collapse into one capture. Skipped while
+ * the template is backing off from a failed capture.
+ */
+export function scheduleTemplateThumbnail(db: PrismaClient, templateId: string): void {
+  const failure = failures.get(templateId);
+  if (failure && Date.now() < failure.retryAt) return;
+
+  const existing = scheduled.get(templateId);
+  if (existing) clearTimeout(existing);
+
+  const timer = setTimeout(() => {
+    scheduled.delete(templateId);
+    refreshTemplateThumbnail(db, templateId)
+      .then((stored) => {
+        if (stored === false) recordFailure(templateId);
+        else failures.delete(templateId);
+      })
+      .catch((error) => {
+        recordFailure(templateId);
+        logger.warn("⚠️ [Thumbnails] Failed to refresh template thumbnail", {
+          templateId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }, CAPTURE_DELAY_MS);
+
+  // Pending captures shouldn't keep the process alive
+  timer.unref?.();
+  scheduled.set(templateId, timer);
+}
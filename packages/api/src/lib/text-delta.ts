@@ -0,0 +1,142 @@
+/**
+ * Line-based text deltas
+ * Used to compact old template version snapshots into a diff chain
+ */
+
+/**
+ * Delta operations applied in order against the base text's lines:
+ * - ["=", n]      keep the next n lines
+ * - ["-", n]      drop the next n lines
+ * - ["+", lines]  insert lines
+ */
+export type TextDeltaOp = ["=", number] | ["-", number] | ["+", string[]];
+
+export interface TextDelta {
+  ops: TextDeltaOp[];
+}
+
+// The LCS table is O(n*m) and built during the save request: at 4 bytes a
+// cell this caps it at 4 MB. Larger edits are stored as a full replace.
+const MAX_LCS_CELLS = 1_000_000;
+
+function pushOp(ops: TextDeltaOp[], op: TextDeltaOp) {
+  const last = ops[ops.length - 1];
+  if (last && last[0] === op[0]) {
+    if (op[0] === "+") {
+      (last[1] as string[]).push(...op[1]);
+    } else {
+      (last as ["=" | "-", number])[1] += op[1];
+    }
+    return;
+  }
+  ops.push(op);
+}
+
+/**
+ * Create a delta that turns `base` into `target`
+ */
+export function createTextDelta(base: string, target: string): TextDelta {
+  const a = base.split("\n");
+  const b = target.split("\n");
+  const ops: TextDeltaOp[] = [];
+
+  // Trim common prefix/suffix so the LCS only covers the edited region
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  if (prefix > 0) pushOp(ops, ["=", prefix]);
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    if (midA.length > 0) pushOp(ops, ["-", midA.length]);
+    if (midB.length > 0) pushOp(ops, ["+", [...midB]]);
+  } else {
+    const n = midA.length;
+    const m = midB.length;
+    // Flat (n+1) x (m+1) table, cell (i, j) at i * width + j
+    const width = m + 1;
+    const table = new Uint32Array((n + 1) * width);
+    const cell = (i: number, j: number) => table[i * width + j]!;
+
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        table[i * width + j] =
+          midA[i] === midB[j]
+            ? cell(i + 1, j + 1) + 1
+            : Math.max(cell(i + 1, j), cell(i, j + 1));
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        pushOp(ops, ["=", 1]);
+        i++;
+        j++;
+      } else if (cell(i + 1, j) >= cell(i, j + 1)) {
+        pushOp(ops, ["-", 1]);
+        i++;
+      } else {
+        pushOp(ops, ["+", [midB[j]!]]);
+        j++;
+      }
+    }
+    if (i < n) pushOp(ops, ["-", n - i]);
+    if (j < m) pushOp(ops, ["+", midB.slice(j)]);
+  }
+
+  if (suffix > 0) pushOp(ops, ["=", suffix]);
+
+  return { ops };
+}
+
+/**
+ * Apply a delta produced by createTextDelta to its base text
+ */
+export function applyTextDelta(base: string, delta: TextDelta): string {
+  const lines = base.split("\n");
+  const result: string[] = [];
+  let cursor = 0;
+
+  for (const op of delta.ops) {
+    switch (op[0]) {
+      case "=":
+        result.push(...lines.slice(cursor, cursor + op[1]));
+        cursor += op[1];
+        break;
+      case "-":
+        cursor += op[1];
+        break;
+      case "+":
+        result.push(...op[1]);
+        break;
+    }
+  }
+
+  if (cursor !== lines.length) {
+    throw new Error(
+      `Text delta does not match base (consumed ${cursor} of ${lines.length} lines)`
+    );
+  }
+
+  return result.join("\n");
+}
+
+/**
+ * Approximate serialized size of a delta, for deciding whether compaction pays off
+ */
+export function textDeltaSize(delta: TextDelta): number {
+  return JSON.stringify(delta.ops).length;
+}
@@ -16,6 +16,7 @@ import prisma from "@mocah/db";
 import { logger } from "@mocah/shared/logger";
 import { getRedis, isRedisAvailable } from "@mocah/shared/redis";
 import { TRPCError } from "@trpc/server";
+import { parseMemberRoles } from "./template-permissions";
 import type { StripeSubscriptionCache } from "@mocah/auth/stripe-sync";
 
 // ============================================================================
@@ -33,6 +34,13 @@ export interface PlanLimits {
   hasPriorityQueue: boolean;
 }
 
+export interface VersionRetentionPolicy {
+  /** Unpinned versions kept per template; older ones are pruned */
+  maxVersions: number;
+  /** Versions beyond this many recent ones are stored as deltas (null = never) */
+  compactAfter: number | null;
+}
+
 export interface UsageCheckResult {
   allowed: boolean;
   used: number;
@@ -798,6 +806,73 @@ export async function canUsePremiumImageModel(userId: string): Promise<boolean>
   return limits.hasPremiumImageModel;
 }
 
+/**
+ * Get template version retention settings for a user's plan
+ * Read from PLAN_LIMITS by plan name so stale cached limits can't drop the fields
+ */
+export async function getVersionRetentionPolicy(userId: string): Promise<VersionRetentionPolicy> {
+  const limits = await getPlanLimits(userId);
+  const planConfig = PLAN_LIMITS[limits.plan] || PLAN_LIMITS.starter;
+
+  return {
+    maxVersions: planConfig.versionHistoryLimit,
+    compactAfter: planConfig.compactVersionsAfter,
+  };
+}
+
+/**
+ * Get version retention settings for a template
+ * History belongs to the template, not to whoever saves it: the policy is the
+ * most generous plan among the organization's owners, so a collaborator on a
+ * smaller plan can't prune versions the workspace pays to keep.
+ */
+export async function getTemplateVersionRetentionPolicy(
+  templateId: string
+): Promise<VersionRetentionPolicy> {
+  const owners = await prisma.member.findMany({
+    where: {
+      organization: { templates: { some: { id: templateId } } },
+      role: { contains: "owner" },
+    },
+    select: { userId: true, role: true },
+  });
+
+  const policies = await Promise.all(
+    owners
+      .filter((owner) => parseMemberRoles(owner.role).includes("owner"))
+      .map((owner) => getVersionRetentionPolicy(owner.userId))
+  );
+
+  return policies.reduce<VersionRetentionPolicy>(
+    (best, policy) => (policy.maxVersions > best.maxVersions ? policy : best),
+    {
+      maxVersions: PLAN_LIMITS.starter.versionHistoryLimit,
+      compactAfter: PLAN_LIMITS.starter.compactVersionsAfter,
+    }
+  );
+}
+
+/**
+ * Get the export formats a user's plan allows
+ * Plan.allowedExportFormats is the source of truth; PLAN_LIMITS covers plans
+ * without a row (or with an empty list)
+ */
+export async function getAllowedExportFormats(userId: string): Promise<string[]> {
+  const limits = await getPlanLimits(userId);
+
+  const plan = await prisma.plan.findUnique({
+    where: { name: limits.plan },
+    select: { allowedExportFormats: true },
+  });
+
+  if (plan && plan.allowedExportFormats.length > 0) {
+    return plan.allowedExportFormats;
+  }
+
+  const planConfig = PLAN_LIMITS[limits.plan] || PLAN_LIMITS.starter;
+  return [...planConfig.exportFormats];
+}
+
 
 
 /**
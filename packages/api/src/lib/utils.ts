@@ -24,6 +24,9 @@ import {
   MAX_FILE_SIZE,
 } from "@mocah/shared";
 import { buildImageGenerationPrompt } from "@mocah/api/lib/prompts";
+import { getModelCost } from "@mocah/api/lib/image-models";
+import { startGeneration } from "@mocah/api/lib/generation-history";
+import { recordImageLineage } from "@mocah/api/lib/image-lineage";
 
 // JSONValue type for providerOptions
 type JSONValue =
@@ -81,9 +84,11 @@ export { imageGenerationInputSchema, type ImageGenerationInput };
 
 interface GenerationContext {
   userId: string;
+  /** Audit label, defaults to "image.generate" or "image.edit" */
+  operation?: string;
 }
 
-export async function runFalImageGeneration(
+async function generateFalImages(
   input: ImageGenerationInput,
   ctx: GenerationContext
 ) {
@@ -477,6 +482,74 @@ export async function runFalImageGeneration(
   };
 }
 
+/**
+ * Generate images with fal.ai, recording the call in the generation audit log
+ * and the results in the image version tree
+ */
+export async function runFalImageGeneration(
+  input: ImageGenerationInput,
+  ctx: GenerationContext
+) {
+  const isEditMode = !!input.imageUrls?.length;
+  const modelId =
+    input.model || (isEditMode ? getDefaultImageEditModelId() : getDefaultImageModelId());
+
+  const audit = startGeneration({
+    organizationId: input.organizationId,
+    userId: ctx.userId,
+    templateId: input.templateId,
+    operation: ctx.operation ?? (isEditMode ? "image.edit" : "image.generate"),
+    type: "image",
+    provider: "fal",
+    modelId,
+    prompt: input.prompt,
+    metadata: {
+      aspectRatio: input.aspectRatio,
+      includeBrandGuide: input.includeBrandGuide !== false,
+      ...(isEditMode && { imageUrls: input.imageUrls }),
+    },
+  });
+  audit.processing();
+
+  let generation: Awaited<ReturnType<typeof generateFalImages>>;
+  try {
+    generation = await generateFalImages(input, ctx);
+  } catch (error) {
+    audit.failed(error);
+    throw error;
+  }
+
+  // fal.ai bills per image; it doesn't report cost on the response
+  audit.completed({
+    result: JSON.stringify(generation.images.map((image) => image.url)),
+    usage: { cost: getModelCost(modelId) * generation.images.length },
+    metadata: {
+      requestId: generation.requestId,
+      imageAssetIds: generation.images.map((image) => image.id),
+    },
+  });
+
+  // Version tree - best-effort like the audit row it points at
+  try {
+    await recordImageLineage(prisma, {
+      organizationId: input.organizationId,
+      generationHistoryId: await audit.getId(),
+      prompt: input.prompt,
+      costPerImage: getModelCost(modelId),
+      assets: generation.images,
+      sourceImageAssetId: input.sourceImageId,
+    });
+  } catch (error) {
+    logger.warn("⚠️ Failed to record image lineage", {
+      requestId: generation.requestId,
+      sourceImageId: input.sourceImageId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return generation;
+}
+
 // ============================================================================
 // External Image Re-upload to CDN
 // ============================================================================
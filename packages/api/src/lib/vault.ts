@@ -0,0 +1,203 @@
+/**
+ * Secret vault - envelope encryption for secrets stored in the database
+ *
+ * Each record gets its own random data key which encrypts the payload with
+ * AES-256-GCM. The data key is itself encrypted ("wrapped") with the master
+ * key from VAULT_MASTER_KEY. Rotating the master key only re-wraps data keys;
+ * payloads are never re-encrypted.
+ *
+ * Rotation: set the new key as VAULT_MASTER_KEY and move the old one to
+ * VAULT_PREVIOUS_MASTER_KEYS (comma-separated). Records wrapped with a previous
+ * key still decrypt and report `needsRewrap` until re-sealed.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+import { serverEnv } from "@mocah/config/env";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// Type aliases (not interfaces) so sealed values are assignable to Prisma Json inputs
+type EncryptedPart = {
+  iv: string;
+  tag: string;
+  data: string;
+};
+
+/** Stored form of a secret (JSON-safe, base64 fields) */
+export type SealedSecret = EncryptedPart & {
+  v: 1;
+  alg: "AES-256-GCM";
+  /** Fingerprint of the master key that wrapped the data key */
+  kid: string;
+  /** Data key encrypted with the master key */
+  key: EncryptedPart;
+};
+
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VaultError";
+  }
+}
+
+interface MasterKey {
+  kid: string;
+  key: Buffer;
+}
+
+// ============================================================================
+// Master keys
+// ============================================================================
+
+function parseMasterKey(value: string): MasterKey {
+  const key = Buffer.from(value.trim(), "base64");
+  if (key.length !== KEY_BYTES) {
+    throw new VaultError(`Vault master keys must be ${KEY_BYTES} bytes, base64 encoded`);
+  }
+  return { kid: createHash("sha256").update(key).digest("hex").slice(0, 16), key };
+}
+
+function getCurrentMasterKey(): MasterKey {
+  const value = serverEnv.VAULT_MASTER_KEY;
+  if (!value) {
+    throw new VaultError("VAULT_MASTER_KEY is not configured");
+  }
+  return parseMasterKey(value);
+}
+
+function findMasterKey(kid: string): MasterKey {
+  const current = getCurrentMasterKey();
+  if (current.kid === kid) return current;
+
+  const previous = (serverEnv.VAULT_PREVIOUS_MASTER_KEYS ?? "")
+    .split(",")
+    .filter((value) => value.trim())
+    .map(parseMasterKey)
+    .find((candidate) => candidate.kid === kid);
+
+  if (!previous) {
+    throw new VaultError(`No master key available for key id ${kid}`);
+  }
+  return previous;
+}
+
+// ============================================================================
+// AES-GCM primitives
+// ============================================================================
+
+function encrypt(key: Buffer, plaintext: Buffer, aad: string): EncryptedPart {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad, "utf8"));
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return {
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+function decrypt(key: Buffer, part: EncryptedPart, aad: string): Buffer {
+  try {
+    const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(part.iv, "base64"));
+    decipher.setAAD(Buffer.from(aad, "utf8"));
+    decipher.setAuthTag(Buffer.from(part.tag, "base64"));
+    return Buffer.concat([decipher.update(Buffer.from(part.data, "base64")), decipher.final()]);
+  } catch {
+    throw new VaultError("Failed to decrypt secret: data is corrupt or bound to a different record");
+  }
+}
+
+function wrapDataKey(dataKey: Buffer, masterKey: MasterKey): EncryptedPart {
+  return encrypt(masterKey.key, dataKey, `kid:${masterKey.kid}`);
+}
+
+function unwrapDataKey(sealed: SealedSecret): Buffer {
+  return decrypt(findMasterKey(sealed.kid).key, sealed.key, `kid:${sealed.kid}`);
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Check whether a stored JSON value is a sealed secret
+ */
+export function isSealedSecret(value: unknown): value is SealedSecret {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as Partial<SealedSecret>;
+  return (
+    candidate.v === 1 &&
+    typeof candidate.kid === "string" &&
+    typeof candidate.data === "string" &&
+    !!candidate.key &&
+    typeof candidate.key.data === "string"
+  );
+}
+
+/**
+ * Encrypt a JSON value
+ * `context` is bound as additional authenticated data (e.g. "integration:<id>"),
+ * so a sealed value copied onto another record fails to open.
+ */
+export function sealSecret(value: unknown, context: string): SealedSecret {
+  const masterKey = getCurrentMasterKey();
+  const dataKey = randomBytes(KEY_BYTES);
+
+  try {
+    const payload = encrypt(dataKey, Buffer.from(JSON.stringify(value), "utf8"), context);
+    return {
+      v: 1,
+      alg: "AES-256-GCM",
+      kid: masterKey.kid,
+      key: wrapDataKey(dataKey, masterKey),
+      ...payload,
+    };
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+/**
+ * Decrypt a sealed value
+ * `needsRewrap` is true when the data key is wrapped with a previous master key.
+ */
+export function openSecret<T = unknown>(
+  sealed: SealedSecret,
+  context: string
+): { value: T; needsRewrap: boolean } {
+  const dataKey = unwrapDataKey(sealed);
+
+  try {
+    const plaintext = decrypt(dataKey, sealed, context);
+    return {
+      value: JSON.parse(plaintext.toString("utf8")) as T,
+      needsRewrap: sealed.kid !== getCurrentMasterKey().kid,
+    };
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+/**
+ * Re-wrap a sealed value's data key with the current master key
+ * The encrypted payload is kept as-is.
+ */
+export function rewrapSecret(sealed: SealedSecret): SealedSecret {
+  const masterKey = getCurrentMasterKey();
+  if (sealed.kid === masterKey.kid) return sealed;
+
+  const dataKey = unwrapDataKey(sealed);
+  try {
+    return { ...sealed, kid: masterKey.kid, key: wrapDataKey(dataKey, masterKey) };
+  } finally {
+    dataKey.fill(0);
+  }
+}
@@ -0,0 +1,396 @@
+/**
+ * Template version retention
+ * Plan-driven pruning of old snapshots and optional compaction of older
+ * snapshots into line deltas chained through parentVersionId
+ */
+
+import { Prisma, type PrismaClient } from "@mocah/db";
+import { logger } from "@mocah/shared";
+import type { VersionRetentionPolicy } from "./usage-tracking";
+import {
+  applyTextDelta,
+  createTextDelta,
+  textDeltaSize,
+  type TextDelta,
+} from "./text-delta";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Content columns that are replaced by deltas when a version is compacted */
+const COMPACTABLE_FIELDS = ["reactEmailCode", "htmlCode", "tableHtmlCode"] as const;
+type CompactableField = (typeof COMPACTABLE_FIELDS)[number];
+
+type VersionContent = Record<CompactableField, string | null>;
+
+/**
+ * Stored in TemplateVersion.compactedDelta
+ * Each field is a delta against the parent version's content, or null when
+ * the field itself was null
+ */
+export type CompactedVersionDelta = Record<CompactableField, TextDelta | null>;
+
+export interface RetentionCandidate {
+  id: string;
+  version: number;
+  isPinned: boolean;
+  parentVersionId: string | null;
+  isCompacted: boolean;
+}
+
+export interface RetentionPlan {
+  deleteIds: string[];
+  compactIds: string[];
+}
+
+interface HydratableVersion extends VersionContent {
+  id: string;
+  parentVersionId: string | null;
+  compactedDelta: unknown;
+}
+
+// Only compact when the deltas are at most half the size of the full content
+const COMPACTION_MAX_RATIO = 0.5;
+
+// Guard against corrupted chains
+const MAX_CHAIN_DEPTH = 500;
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * Decide which versions to prune and which to compact
+ * - Pinned, current and explicitly protected versions are never pruned or compacted
+ * - The newest `maxVersions` unpinned versions are kept, older ones pruned
+ * - Parents of kept compacted versions are kept so their chain stays resolvable
+ * - Kept versions older than the newest `compactAfter` are compacted against their parent
+ */
+export function planVersionRetention(
+  versions: RetentionCandidate[],
+  policy: VersionRetentionPolicy,
+  options: { currentVersionId?: string | null; protectedVersionIds?: string[] } = {}
+): RetentionPlan {
+  const byId = new Map(versions.map((v) => [v.id, v]));
+  const alwaysKeep = new Set<string>(options.protectedVersionIds ?? []);
+  if (options.currentVersionId) alwaysKeep.add(options.currentVersionId);
+  for (const version of versions) {
+    if (version.isPinned) alwaysKeep.add(version.id);
+  }
+
+  const unpinned = [...versions]
+    .filter((v) => !alwaysKeep.has(v.id))
+    .sort((a, b) => b.version - a.version);
+
+  const retained = unpinned.slice(0, Math.max(0, policy.maxVersions));
+  const keep = new Set<string>([...alwaysKeep, ...retained.map((v) => v.id)]);
+
+  // 1. Keep every ancestor a retained compacted version depends on
+  for (const id of [...keep]) {
+    let version = byId.get(id);
+    let depth = 0;
+    while (version?.isCompacted && version.parentVersionId && depth < MAX_CHAIN_DEPTH) {
+      keep.add(version.parentVersionId);
+      version = byId.get(version.parentVersionId);
+      depth++;
+    }
+  }
+
+  const deleteIds = versions.filter((v) => !keep.has(v.id)).map((v) => v.id);
+
+  // 2. Compact older retained versions that have a surviving parent
+  const compactIds =
+    policy.compactAfter === null
+      ? []
+      : retained
+          .slice(Math.max(0, policy.compactAfter))
+          .filter(
+            (v) =>
+              !v.isCompacted &&
+              !!v.parentVersionId &&
+              v.parentVersionId !== v.id &&
+              keep.has(v.parentVersionId)
+          )
+          .map((v) => v.id);
+
+  return { deleteIds, compactIds };
+}
+
+// ============================================================================
+// Delta helpers
+// ============================================================================
+
+function contentSize(content: VersionContent): number {
+  return COMPACTABLE_FIELDS.reduce((size, field) => size + (content[field]?.length ?? 0), 0);
+}
+
+/**
+ * Build a compacted delta for `target` against `base`
+ * Returns null when compaction would not save enough space
+ */
+export function createCompactedDelta(
+  base: VersionContent,
+  target: VersionContent
+): CompactedVersionDelta | null {
+  const delta = {} as CompactedVersionDelta;
+  let deltaSize = 0;
+
+  for (const field of COMPACTABLE_FIELDS) {
+    const value = target[field];
+    if (value === null) {
+      delta[field] = null;
+      continue;
+    }
+    delta[field] = createTextDelta(base[field] ?? "", value);
+    deltaSize += textDeltaSize(delta[field]!);
+  }
+
+  const fullSize = contentSize(target);
+  if (fullSize === 0 || deltaSize > fullSize * COMPACTION_MAX_RATIO) {
+    return null;
+  }
+
+  return delta;
+}
+
+/**
+ * Rebuild full content from a parent's content and a compacted delta
+ */
+export function applyCompactedDelta(
+  base: VersionContent,
+  delta: CompactedVersionDelta
+): VersionContent {
+  const content = {} as VersionContent;
+  for (const field of COMPACTABLE_FIELDS) {
+    const fieldDelta = delta[field];
+    content[field] = fieldDelta ? applyTextDelta(base[field] ?? "", fieldDelta) : null;
+  }
+  return content;
+}
+
+function pickContent(version: VersionContent): VersionContent {
+  return {
+    reactEmailCode: version.reactEmailCode,
+    htmlCode: version.htmlCode,
+    tableHtmlCode: version.tableHtmlCode,
+  };
+}
+
+// ============================================================================
+// Database operations
+// ============================================================================
+
+/**
+ * Restore full content on compacted versions by walking their parent chain
+ * Versions that aren't compacted are returned untouched. Broken chains are
+ * logged and returned with empty content rather than failing the request.
+ */
+export async function hydrateVersions<T extends HydratableVersion>(
+  db: PrismaClient,
+  versions: T[]
+): Promise<T[]> {
+  if (!versions.some((v) => v.compactedDelta)) {
+    return versions;
+  }
+
+  const known = new Map<string, HydratableVersion>(versions.map((v) => [v.id, v]));
+  const resolved = new Map<string, VersionContent>();
+
+  const resolve = async (id: string, depth: number): Promise<VersionContent> => {
+    const cached = resolved.get(id);
+    if (cached) return cached;
+
+    let version = known.get(id);
+    if (!version) {
+      const fetched = await db.templateVersion.findUnique({
+        where: { id },
+        select: {
+          id: true,
+          parentVersionId: true,
+          compactedDelta: true,
+          reactEmailCode: true,
+          htmlCode: true,
+          tableHtmlCode: true,
+        },
+      });
+      if (!fetched) {
+        throw new Error(`Version ${id} missing from compaction chain`);
+      }
+      version = fetched;
+      known.set(id, version);
+    }
+
+    let content: VersionContent;
+    if (!version.compactedDelta) {
+      content = pickContent(version);
+    } else {
+      if (!version.parentVersionId || depth >= MAX_CHAIN_DEPTH) {
+        throw new Error(`Version ${id} has no resolvable parent`);
+      }
+      const base = await resolve(version.parentVersionId, depth + 1);
+      content = applyCompactedDelta(base, version.compactedDelta as CompactedVersionDelta);
+    }
+
+    resolved.set(id, content);
+    return content;
+  };
+
+  const hydrated: T[] = [];
+  for (const version of versions) {
+    if (!version.compactedDelta) {
+      hydrated.push(version);
+      continue;
+    }
+    try {
+      hydrated.push({ ...version, ...(await resolve(version.id, 0)) });
+    } catch (error) {
+      logger.error("❌ [Template] Failed to hydrate compacted version", {
+        versionId: version.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      hydrated.push(version);
+    }
+  }
+
+  return hydrated;
+}
+
+/**
+ * Hydrate a single version (see hydrateVersions)
+ */
+export async function hydrateVersion<T extends HydratableVersion>(
+  db: PrismaClient,
+  version: T
+): Promise<T> {
+  const [hydrated] = await hydrateVersions(db, [version]);
+  return hydrated!;
+}
+
+/**
+ * Store a version's full content again and drop its delta
+ * Used when pinning, since pinned versions are kept uncompacted
+ */
+export async function expandCompactedVersion(db: PrismaClient, versionId: string) {
+  const version = await db.templateVersion.findUnique({ where: { id: versionId } });
+  if (!version?.compactedDelta) {
+    return version;
+  }
+
+  const hydrated = await hydrateVersion(db, version);
+
+  return db.templateVersion.update({
+    where: { id: versionId },
+    data: {
+      ...pickContent(hydrated),
+      compactedDelta: Prisma.DbNull,
+    },
+  });
+}
+
+/**
+ * Apply the plan's retention policy to a template's versions
+ */
+export async function enforceVersionRetention(
+  db: PrismaClient,
+  templateId: string,
+  policy: VersionRetentionPolicy,
+  options: { protectedVersionIds?: string[] } = {}
+): Promise<RetentionPlan> {
+  const [template, versions] = await Promise.all([
+    db.template.findUnique({
+      where: { id: templateId },
+      select: { currentVersionId: true },
+    }),
+    db.templateVersion.findMany({
+      where: { templateId },
+      select: {
+        id: true,
+        version: true,
+        isPinned: true,
+        parentVersionId: true,
+        compactedDelta: true,
+      },
+    }),
+  ]);
+
+  const plan = planVersionRetention(
+    versions.map((v) => ({
+      id: v.id,
+      version: v.version,
+      isPinned: v.isPinned,
+      parentVersionId: v.parentVersionId,
+      isCompacted: v.compactedDelta !== null,
+    })),
+    policy,
+    {
+      currentVersionId: template?.currentVersionId,
+      protectedVersionIds: options.protectedVersionIds,
+    }
+  );
+
+  // 1. Prune versions beyond the retention limit
+  if (plan.deleteIds.length > 0) {
+    await db.templateVersion.deleteMany({
+      where: { id: { in: plan.deleteIds } },
+    });
+
+    logger.info("🗑️ [Template] Deleted old versions:", {
+      templateId,
+      deletedCount: plan.deleteIds.length,
+      maxVersions: policy.maxVersions,
+    });
+  }
+
+  // 2. Compact older versions into deltas against their parent
+  let compactedCount = 0;
+  for (const versionId of plan.compactIds) {
+    const version = await db.templateVersion.findUnique({
+      where: { id: versionId },
+      select: {
+        id: true,
+        parentVersionId: true,
+        reactEmailCode: true,
+        htmlCode: true,
+        tableHtmlCode: true,
+      },
+    });
+    if (!version?.parentVersionId) continue;
+
+    const parent = await db.templateVersion.findUnique({
+      where: { id: version.parentVersionId },
+      select: {
+        id: true,
+        parentVersionId: true,
+        compactedDelta: true,
+        reactEmailCode: true,
+        htmlCode: true,
+        tableHtmlCode: true,
+      },
+    });
+    if (!parent) continue;
+
+    const delta = createCompactedDelta(await hydrateVersion(db, parent), version);
+    if (!delta) continue;
+
+    await db.templateVersion.update({
+      where: { id: version.id },
+      data: {
+        compactedDelta: delta as unknown as Prisma.InputJsonValue,
+        reactEmailCode: null,
+        htmlCode: null,
+        tableHtmlCode: null,
+      },
+    });
+    compactedCount++;
+  }
+
+  if (compactedCount > 0) {
+    logger.info("🗜️ [Template] Compacted old versions:", {
+      templateId,
+      compactedCount,
+    });
+  }
+
+  return plan;
+}
@@ -0,0 +1,319 @@
+/**
+ * Workspace library installs
+ * Organizations install TemplateLibrary entries as their own templates; the
+ * WorkspaceTemplateLibrary row keeps the link. Installs are re-branded with the
+ * workspace BrandKit, and upstream updates are merged three-way against the
+ * branded copy they were installed from, so local edits survive.
+ */
+
+import { createTextDelta } from "./text-delta";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type StyleDefinitions = Record<string, Record<string, unknown>>;
+
+export interface BrandableTemplate {
+  reactEmailCode: string | null;
+  styleDefinitions: unknown;
+}
+
+export interface BrandKitForInstall {
+  primaryColor: string | null;
+  accentColor: string | null;
+  fontFamily: string | null;
+  logo: string | null;
+}
+
+export interface BrandedTemplate {
+  reactEmailCode: string;
+  styleDefinitions: StyleDefinitions;
+  /** What was swapped, e.g. ["primaryColor", "fontFamily"] */
+  applied: string[];
+}
+
+export interface MergeResult<T> {
+  merged: T;
+  /** Regions/properties changed on both sides; the local version was kept */
+  conflicts: number;
+}
+
+// ============================================================================
+// Branding
+// ============================================================================
+
+const HEX_COLOR = /#(?:[0-9a-f]{6}|[0-9a-f]{3})\b/gi;
+
+function normalizeHex(color: string): string {
+  const hex = color.slice(1).toLowerCase();
+  return hex.length === 3
+    ? `#${hex.split("").map((c) => c + c).join("")}`
+    : `#${hex}`;
+}
+
+/** Saturated mid-lightness colors are brand colors; greys, black and white aren't */
+function isBrandLikeColor(hex: string): boolean {
+  const r = parseInt(hex.slice(1, 3), 16) / 255;
+  const g = parseInt(hex.slice(3, 5), 16) / 255;
+  const b = parseInt(hex.slice(5, 7), 16) / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  if (max === min || lightness < 0.12 || lightness > 0.9) return false;
+  const saturation = (max - min) / (1 - Math.abs(2 * lightness - 1));
+  return saturation >= 0.25;
+}
+
+export function parseStyleDefinitions(value: unknown): StyleDefinitions {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  return value as StyleDefinitions;
+}
+
+/**
+ * The template's own brand colors, most used first
+ */
+export function detectTemplatePalette(template: BrandableTemplate): string[] {
+  const source = `${template.reactEmailCode ?? ""}\n${JSON.stringify(template.styleDefinitions ?? {})}`;
+  const counts = new Map<string, number>();
+
+  for (const match of source.match(HEX_COLOR) ?? []) {
+    const hex = normalizeHex(match);
+    if (isBrandLikeColor(hex)) counts.set(hex, (counts.get(hex) ?? 0) + 1);
+  }
+
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([hex]) => hex);
+}
+
+function mapStyleValues(
+  styles: StyleDefinitions,
+  map: (property: string, value: unknown) => unknown
+): StyleDefinitions {
+  return Object.fromEntries(
+    Object.entries(styles).map(([name, properties]) => [
+      name,
+      Object.fromEntries(
+        Object.entries(properties ?? {}).map(([property, value]) => [property, map(property, value)])
+      ),
+    ])
+  );
+}
+
+/**
+ * Swap a library template's colors, font and logo for the workspace brand
+ * The template's most used brand color becomes the primary color and the
+ * next one the accent; every fontFamily becomes the brand font.
+ */
+export function applyBrandKit(
+  template: BrandableTemplate,
+  brandKit: BrandKitForInstall | null
+): BrandedTemplate {
+  let code = template.reactEmailCode ?? "";
+  let styles = parseStyleDefinitions(template.styleDefinitions);
+  const applied: string[] = [];
+
+  if (!brandKit) {
+    return { reactEmailCode: code, styleDefinitions: styles, applied };
+  }
+
+  // Colors
+  const palette = detectTemplatePalette(template);
+  const colorMap = new Map<string, string>();
+  if (brandKit.primaryColor && palette[0]) {
+    colorMap.set(palette[0], brandKit.primaryColor);
+    applied.push("primaryColor");
+  }
+  if (brandKit.accentColor && palette[1]) {
+    colorMap.set(palette[1], brandKit.accentColor);
+    applied.push("accentColor");
+  }
+  if (colorMap.size > 0) {
+    const swap = (text: string) =>
+      text.replace(HEX_COLOR, (match) => colorMap.get(normalizeHex(match)) ?? match);
+    code = swap(code);
+    styles = mapStyleValues(styles, (_, value) => (typeof value === "string" ? swap(value) : value));
+  }
+
+  // Font
+  if (brandKit.fontFamily) {
+    const font = brandKit.fontFamily;
+    const before = code;
+    code = code.replace(
+      /fontFamily:\s*(["'`])(?:(?!\1)[^\\]|\\.)*\1/g,
+      () => `fontFamily: ${JSON.stringify(font)}`
+    );
+    const hadStyleFont = Object.values(styles).some((properties) => "fontFamily" in (properties ?? {}));
+    styles = mapStyleValues(styles, (property, value) => (property === "fontFamily" ? font : value));
+    if (code !== before || hadStyleFont) applied.push("fontFamily");
+  }
+
+  // Logo - images marked as a logo by their alt text or file name
+  if (brandKit.logo && !brandKit.logo.startsWith("data:")) {
+    const logo = brandKit.logo;
+    const before = code;
+    code = code.replace(/<Img\b[^>]*>/g, (tag) =>
+      /logo/i.test(tag)
+        ? tag.replace(
+            /\bsrc=(?:"[^"]*"|'[^']*'|\{\s*(["'`])[^"'`]*\1\s*\})/,
+            `src=${JSON.stringify(logo)}`
+          )
+        : tag
+    );
+    if (code !== before) applied.push("logo");
+  }
+
+  return { reactEmailCode: code, styleDefinitions: styles, applied };
+}
+
+// ============================================================================
+// Three-way merge
+// ============================================================================
+
+interface Hunk {
+  /** Base line range [start, end) replaced by lines */
+  start: number;
+  end: number;
+  lines: string[];
+  side: "ours" | "theirs";
+}
+
+function toHunks(base: string, target: string, side: Hunk["side"]): Hunk[] {
+  const hunks: Hunk[] = [];
+  let cursor = 0;
+  let open: Hunk | null = null;
+
+  for (const op of createTextDelta(base, target).ops) {
+    if (op[0] === "=") {
+      open = null;
+      cursor += op[1];
+      continue;
+    }
+    if (!open) {
+      open = { start: cursor, end: cursor, lines: [], side };
+      hunks.push(open);
+    }
+    if (op[0] === "-") {
+      cursor += op[1];
+      open.end = cursor;
+    } else {
+      open.lines.push(...op[1]);
+    }
+  }
+  return hunks;
+}
+
+/** One side's text for base[start, end) with its hunks in that range applied */
+function applyHunks(baseLines: string[], start: number, end: number, hunks: Hunk[]): string[] {
+  const result: string[] = [];
+  let cursor = start;
+  for (const hunk of hunks) {
+    result.push(...baseLines.slice(cursor, hunk.start), ...hunk.lines);
+    cursor = hunk.end;
+  }
+  result.push(...baseLines.slice(cursor, end));
+  return result;
+}
+
+/**
+ * Line-based three-way merge
+ * Non-overlapping changes from both sides are combined; where both sides
+ * changed the same lines differently, the local ("ours") lines are kept.
+ */
+export function mergeTemplateCode(base: string, ours: string, theirs: string): MergeResult<string> {
+  if (ours === base) return { merged: theirs, conflicts: 0 };
+  if (theirs === base || theirs === ours) return { merged: ours, conflicts: 0 };
+
+  const baseLines = base.split("\n");
+  const hunks = [...toHunks(base, ours, "ours"), ...toHunks(base, theirs, "theirs")].sort(
+    (a, b) => a.start - b.start || a.end - b.end
+  );
+
+  // Group hunks that touch the same base lines (or insert at the same point)
+  const groups: Hunk[][] = [];
+  let groupEnd = -1;
+  for (const hunk of hunks) {
+    const group = groups[groups.length - 1];
+    if (group && (hunk.start < groupEnd || hunk.start === group[group.length - 1]!.start)) {
+      group.push(hunk);
+      groupEnd = Math.max(groupEnd, hunk.end);
+    } else {
+      groups.push([hunk]);
+      groupEnd = hunk.end;
+    }
+  }
+
+  const result: string[] = [];
+  let cursor = 0;
+  let conflicts = 0;
+
+  for (const group of groups) {
+    const start = group[0]!.start;
+    const end = Math.max(...group.map((hunk) => hunk.end));
+    result.push(...baseLines.slice(cursor, start));
+
+    const ourHunks = group.filter((hunk) => hunk.side === "ours");
+    const theirHunks = group.filter((hunk) => hunk.side === "theirs");
+    const ourLines = applyHunks(baseLines, start, end, ourHunks);
+
+    if (theirHunks.length === 0) {
+      result.push(...ourLines);
+    } else if (ourHunks.length === 0) {
+      result.push(...applyHunks(baseLines, start, end, theirHunks));
+    } else {
+      const theirLines = applyHunks(baseLines, start, end, theirHunks);
+      if (ourLines.join("\n") !== theirLines.join("\n")) conflicts++;
+      result.push(...ourLines);
+    }
+    cursor = end;
+  }
+  result.push(...baseLines.slice(cursor));
+
+  return { merged: result.join("\n"), conflicts };
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Three-way merge of style definitions, per style and then per property
+ * A property changed on both sides keeps the local value.
+ */
+export function mergeStyleDefinitions(
+  base: StyleDefinitions,
+  ours: StyleDefinitions,
+  theirs: StyleDefinitions
+): MergeResult<StyleDefinitions> {
+  const merged: StyleDefinitions = {};
+  let conflicts = 0;
+
+  const pick = (b: unknown, o: unknown, t: unknown): { value: unknown; conflict: boolean } => {
+    if (isEqual(o, b)) return { value: t, conflict: false };
+    if (isEqual(t, b) || isEqual(t, o)) return { value: o, conflict: false };
+    return { value: o, conflict: true };
+  };
+
+  const names = new Set([...Object.keys(base), ...Object.keys(ours), ...Object.keys(theirs)]);
+  for (const name of names) {
+    const [b, o, t] = [base[name], ours[name], theirs[name]];
+
+    // A style added, removed or edited on one side only
+    if (!b || !o || !t) {
+      const { value, conflict } = pick(b, o, t);
+      if (conflict) conflicts++;
+      if (value) merged[name] = value as Record<string, unknown>;
+      continue;
+    }
+
+    const properties: Record<string, unknown> = {};
+    const keys = new Set([...Object.keys(b), ...Object.keys(o), ...Object.keys(t)]);
+    for (const key of keys) {
+      const { value, conflict } = pick(b[key], o[key], t[key]);
+      if (conflict) conflicts++;
+      if (value !== undefined) properties[key] = value;
+    }
+    merged[name] = properties;
+  }
+
+  return { merged, conflicts };
+}
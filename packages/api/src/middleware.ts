@@ -6,6 +6,7 @@ import {
   getPlanLimits,
   UsageLimitError,
 } from "./lib/usage-tracking";
+import { parseMemberRoles } from "./lib/template-permissions";
 
 /**
  * Middleware that requires an active organization to be set in the session
@@ -55,12 +56,7 @@ export const requireOrganizationRole = (allowedRoles: string[]) =>
     }
 
     // Better Auth stores role as string, but can be parsed as array
-    let userRoles: string[] = [];
-    try {
-      userRoles = JSON.parse(member.role);
-    } catch {
-      userRoles = [member.role];
-    }
+    const userRoles = parseMemberRoles(member.role);
 
     const hasPermission = allowedRoles.some((role) => userRoles.includes(role));
 
@@ -0,0 +1,171 @@
+import { z } from "zod";
+import type { Prisma } from "@mocah/db";
+import { router } from "../index";
+import { adminProcedure } from "../middleware";
+import { buildGenerationCsv } from "../lib/generation-history";
+
+// Cap per export - finance exports a month at a time
+const MAX_EXPORT_ROWS = 10_000;
+
+const activityFilterSchema = z.object({
+  type: z.enum(["text", "image", "template", "email"]).optional(),
+  status: z.enum(["pending", "processing", "completed", "failed"]).optional(),
+  provider: z.enum(["openrouter", "fal"]).optional(),
+  userId: z.string().optional(),
+  templateId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+type ActivityFilter = z.infer<typeof activityFilterSchema>;
+
+function buildActivityWhere(
+  organizationId: string,
+  filter: ActivityFilter
+): Prisma.GenerationHistoryWhereInput {
+  return {
+    organizationId,
+    ...(filter.type && { type: filter.type }),
+    ...(filter.status && { status: filter.status }),
+    ...(filter.provider && { provider: filter.provider }),
+    ...(filter.userId && { userId: filter.userId }),
+    ...(filter.templateId && { templateId: filter.templateId }),
+    ...((filter.from || filter.to) && {
+      createdAt: {
+        ...(filter.from && { gte: filter.from }),
+        ...(filter.to && { lte: filter.to }),
+      },
+    }),
+  };
+}
+
+const ACTIVITY_SELECT = {
+  id: true,
+  createdAt: true,
+  operation: true,
+  type: true,
+  provider: true,
+  modelId: true,
+  status: true,
+  promptTokens: true,
+  completionTokens: true,
+  tokensUsed: true,
+  cost: true,
+  durationMs: true,
+  error: true,
+  user: { select: { id: true, name: true, email: true } },
+  template: { select: { id: true, name: true } },
+} as const;
+
+/**
+ * Organization AI activity
+ * Audit log of model calls (GenerationHistory) with cost totals and CSV
+ * export, for reconciling OpenRouter and fal.ai invoices per workspace.
+ * Owners and admins only - prompts and spend are workspace-wide.
+ */
+export const aiActivityRouter = router({
+  /**
+   * Paginated generation log for the active organization
+   */
+  list: adminProcedure
+    .input(
+      activityFilterSchema.extend({
+        limit: z.number().min(1).max(100).default(50),
+        cursor: z.string().optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { limit, cursor, ...filter } = input;
+
+      const items = await ctx.db.generationHistory.findMany({
+        where: buildActivityWhere(ctx.organizationId, filter),
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take: limit + 1,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+        select: ACTIVITY_SELECT,
+      });
+
+      const hasMore = items.length > limit;
+      const page = hasMore ? items.slice(0, limit) : items;
+
+      return {
+        items: page.map((item) => ({
+          ...item,
+          cost: item.cost ? Number(item.cost) : null,
+        })),
+        nextCursor: hasMore ? page[page.length - 1]?.id : undefined,
+      };
+    }),
+
+  /**
+   * Totals for the filtered range, overall and per provider/model
+   */
+  summary: adminProcedure.input(activityFilterSchema).query(async ({ ctx, input }) => {
+    const where = buildActivityWhere(ctx.organizationId, input);
+
+    const [totals, failed, byModel] = await Promise.all([
+      ctx.db.generationHistory.aggregate({
+        where,
+        _count: { _all: true },
+        _sum: { tokensUsed: true, cost: true },
+      }),
+      ctx.db.generationHistory.count({ where: { ...where, status: "failed" } }),
+      ctx.db.generationHistory.groupBy({
+        by: ["provider", "modelId"],
+        where,
+        _count: { _all: true },
+        _sum: { tokensUsed: true, cost: true },
+      }),
+    ]);
+
+    return {
+      count: totals._count._all,
+      failed,
+      tokensUsed: totals._sum.tokensUsed ?? 0,
+      cost: Number(totals._sum.cost ?? 0),
+      byModel: byModel
+        .map((group) => ({
+          provider: group.provider,
+          modelId: group.modelId,
+          count: group._count._all,
+          tokensUsed: group._sum.tokensUsed ?? 0,
+          cost: Number(group._sum.cost ?? 0),
+        }))
+        .sort((a, b) => b.cost - a.cost),
+    };
+  }),
+
+  /**
+   * Workspace members, for the user filter
+   */
+  users: adminProcedure.query(async ({ ctx }) => {
+    const members = await ctx.db.member.findMany({
+      where: { organizationId: ctx.organizationId },
+      select: { user: { select: { id: true, name: true, email: true } } },
+      orderBy: { createdAt: "asc" },
+    });
+    return members.map((member) => member.user);
+  }),
+
+  /**
+   * Export the filtered log as CSV
+   */
+  exportCsv: adminProcedure.input(activityFilterSchema).mutation(async ({ ctx, input }) => {
+    const rows = await ctx.db.generationHistory.findMany({
+      where: buildActivityWhere(ctx.organizationId, input),
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      take: MAX_EXPORT_ROWS + 1,
+      select: ACTIVITY_SELECT,
+    });
+
+    const truncated = rows.length > MAX_EXPORT_ROWS;
+    const stamp = new Date().toISOString().slice(0, 10);
+
+    return {
+      filename: `ai-activity-${ctx.organization.slug}-${stamp}.csv`,
+      csv: buildGenerationCsv(truncated ? rows.slice(0, MAX_EXPORT_ROWS) : rows),
+      rowCount: Math.min(rows.length, MAX_EXPORT_ROWS),
+      truncated,
+    };
+  }),
+});
@@ -1,17 +1,155 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
-import { Prisma } from "@mocah/db";
+import { Prisma, type PrismaClient } from "@mocah/db";
 import { protectedProcedure, router } from "../index";
-import { organizationProcedure } from "../middleware";
+import { adminProcedure, organizationProcedure } from "../middleware";
+import {
+	BRAND_KIT_SUMMARY_SELECT,
+	findBrandKit,
+	getTemplateDesignTokens,
+	pickNextDefaultBrandKit,
+	resolveBrandKitId,
+	saveDefaultBrandKit,
+	withDefaultFlag,
+} from "../lib/brand-kits";
+import {
+	getRebrandReplacements,
+	parseBrandKitChanges,
+	recordBrandKitRevision,
+	type StyleReplacement,
+} from "../lib/brand-kit-history";
+import {
+	renderTemplateHtml,
+	validateAndRepairCode,
+	verifyTemplateAccess,
+} from "../lib/template-helpers";
+import { assignElementIds } from "../lib/element-ids";
+import { buildTemplateVisibilityFilter, getTemplateAccessSubject } from "../lib/template-permissions";
+import { rebrandReactEmailCode, type RebrandResult } from "../lib/template-rebrand";
+import { getTemplateLockMessage } from "../lib/template-review";
+import { buildTableHtml } from "../lib/table-html";
+import { scheduleTemplateThumbnail } from "../lib/template-thumbnails";
+import { snapshotAndUpdateTemplate } from "./template-versions";
+import { importGoogleFonts } from "../lib/google-fonts";
+import { logger } from "@mocah/shared";
+import { invalidateBrandKitCache } from "@mocah/shared/cache";
+import { MAX_WEB_FONTS, webFontSchema } from "@mocah/shared/web-fonts";
+
+// Templates re-branded per request
+const MAX_REBRAND_TEMPLATES = 50;
+
+const brandKitNameSchema = z.string().trim().min(1).max(100);
+
+/**
+ * Editable brand kit fields
+ */
+const brandKitFieldsSchema = z.object({
+	// Core brand colors
+	primaryColor: z.string().optional(),
+	accentColor: z.string().optional(),
+	// Typography & Voice
+	fontFamily: z.string().optional(),
+	webFonts: z.array(webFontSchema).max(MAX_WEB_FONTS).optional(),
+	brandVoice: z.string().optional(),
+	// Brand assets
+	logo: z.string().optional(),
+	favicon: z.string().optional(),
+	customCss: z.string().optional(),
+	// Extended brand data (from scraping)
+	websiteUrl: z.string().optional(),
+	backgroundColor: z.string().optional(),
+	textPrimaryColor: z.string().optional(),
+	borderRadius: z.string().optional(),
+	// Brand personality
+	brandTone: z.string().optional(),
+	brandEnergy: z.string().optional(),
+	targetAudience: z.string().optional(),
+	// Company info
+	companyName: z.string().optional(),
+	companyDescription: z.string().optional(),
+	tagline: z.string().optional(),
+	industry: z.string().optional(),
+	productsServices: z.array(z.string()).optional(),
+	brandValues: z.array(z.string()).optional(),
+	socialLinks: z.record(z.string(), z.string()).optional(),
+	contactEmail: z.string().optional(),
+	foundingYear: z.string().optional(),
+	ogImage: z.string().optional(),
+	// Firecrawl content
+	summary: z.string().optional(),
+	links: z.array(z.string()).optional(),
+	// Scraping metadata
+	scrapedAt: z.date().optional(),
+	scrapeConfidence: z.number().optional(),
+});
+
+/**
+ * A revision of one of the active organization's brand kits, or NOT_FOUND
+ */
+async function findOrganizationRevision(
+	db: Pick<PrismaClient, "brandKitRevision">,
+	organizationId: string,
+	revisionId: string,
+) {
+	const revision = await db.brandKitRevision.findFirst({
+		where: {
+			id: revisionId,
+			brandKit: { organizationId, deletedAt: null },
+		},
+	});
+
+	if (!revision) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "Brand kit revision not found",
+		});
+	}
+
+	return revision;
+}
+
+/**
+ * Re-brand a template's code and style definitions, or null when its code doesn't parse
+ */
+function rebrandTemplate(
+	template: { reactEmailCode: string | null; styleDefinitions: Prisma.JsonValue },
+	replacements: StyleReplacement[],
+): RebrandResult | null {
+	try {
+		return rebrandReactEmailCode(
+			template.reactEmailCode ?? "",
+			(template.styleDefinitions ?? {}) as Record<string, Record<string, unknown>>,
+			replacements,
+		);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Cast socialLinks and webFonts to Prisma JSON type if present
+ */
+function toPrismaBrandKitData(fields: z.infer<typeof brandKitFieldsSchema>) {
+	return {
+		...fields,
+		...(fields.socialLinks && {
+			socialLinks: fields.socialLinks as Prisma.InputJsonValue,
+		}),
+		...(fields.webFonts && {
+			webFonts: fields.webFonts as Prisma.InputJsonValue,
+		}),
+	};
+}
 
 export const brandKitRouter = router({
 	/**
-	 * Get brand kit for an organization
+	 * Get a brand kit for an organization (the default unless brandKitId is given)
 	 */
 	get: protectedProcedure
 		.input(
 			z.object({
 				organizationId: z.string(),
+				brandKitId: z.string().optional(),
 			}),
 		)
 		.query(async ({ ctx, input }) => {
@@ -30,67 +168,103 @@ export const brandKitRouter = router({
 				});
 			}
 
-			const brandKit = await ctx.db.brandKit.findUnique({
-				where: { organizationId: input.organizationId },
+			if (input.brandKitId) {
+				return findBrandKit(ctx.db, input.organizationId, input.brandKitId);
+			}
+
+			const organization = await ctx.db.organization.findUnique({
+				where: { id: input.organizationId },
+				select: { brandKit: true },
 			});
 
-			return brandKit;
+			return organization?.brandKit ?? null;
 		}),
 
 	/**
-	 * Get brand kit for active organization
+	 * Get the default brand kit for active organization
 	 */
 	getActive: organizationProcedure.query(async ({ ctx }) => {
-		const brandKit = await ctx.db.brandKit.findUnique({
-			where: { organizationId: ctx.organizationId },
+		const organization = await ctx.db.organization.findUnique({
+			where: { id: ctx.organizationId },
+			select: { brandKit: true },
 		});
 
-		return brandKit;
+		return organization?.brandKit ?? null;
 	}),
 
 	/**
-	 * Update brand kit
+	 * List brand kits of the active organization (default first)
+	 */
+	list: organizationProcedure.query(async ({ ctx }) => {
+		const [organization, brandKits] = await Promise.all([
+			ctx.db.organization.findUnique({
+				where: { id: ctx.organizationId },
+				select: { defaultBrandKitId: true },
+			}),
+			ctx.db.brandKit.findMany({
+				where: { organizationId: ctx.organizationId, deletedAt: null },
+				select: BRAND_KIT_SUMMARY_SELECT,
+				orderBy: { createdAt: "asc" },
+			}),
+		]);
+
+		return withDefaultFlag(brandKits, organization?.defaultBrandKitId ?? null);
+	}),
+
+	/**
+	 * Create a named brand kit in the active organization
+	 * The first kit becomes the default.
+	 */
+	create: organizationProcedure
+		.input(
+			brandKitFieldsSchema.extend({
+				name: brandKitNameSchema,
+				makeDefault: z.boolean().optional(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const { name, makeDefault, ...fields } = input;
+
+			const brandKit = await ctx.db.brandKit.create({
+				data: {
+					name,
+					...toPrismaBrandKitData(fields),
+					organization: {
+						connect: { id: ctx.organizationId },
+					},
+				} as Prisma.BrandKitCreateInput,
+			});
+
+			const organization = await ctx.db.organization.findUnique({
+				where: { id: ctx.organizationId },
+				select: { defaultBrandKitId: true },
+			});
+
+			if (makeDefault || !organization?.defaultBrandKitId) {
+				await ctx.db.organization.update({
+					where: { id: ctx.organizationId },
+					data: { defaultBrandKitId: brandKit.id },
+				});
+			}
+
+			await recordBrandKitRevision(ctx.db, null, brandKit, {
+				source: "create",
+				userId: ctx.session!.user.id,
+			});
+			await invalidateBrandKitCache(ctx.organizationId, brandKit.id);
+
+			return brandKit;
+		}),
+
+	/**
+	 * Update a brand kit (the default unless brandKitId is given; created if missing)
 	 */
 	update: protectedProcedure
 		.input(
-			z.object({
+			brandKitFieldsSchema.extend({
 				organizationId: z.string(),
-				// Core brand colors
-				primaryColor: z.string().optional(),
-				accentColor: z.string().optional(),
-				// Typography & Voice
-				fontFamily: z.string().optional(),
-				brandVoice: z.string().optional(),
-				// Brand assets
-				logo: z.string().optional(),
-				favicon: z.string().optional(),
-				customCss: z.string().optional(),
-				// Extended brand data (from scraping)
-				websiteUrl: z.string().optional(),
-				backgroundColor: z.string().optional(),
-				textPrimaryColor: z.string().optional(),
-				borderRadius: z.string().optional(),
-				// Brand personality
-				brandTone: z.string().optional(),
-				brandEnergy: z.string().optional(),
-				targetAudience: z.string().optional(),
-				// Company info
-				companyName: z.string().optional(),
-				companyDescription: z.string().optional(),
-				tagline: z.string().optional(),
-				industry: z.string().optional(),
-				productsServices: z.array(z.string()).optional(),
-				brandValues: z.array(z.string()).optional(),
-				socialLinks: z.record(z.string(), z.string()).optional(),
-				contactEmail: z.string().optional(),
-				foundingYear: z.string().optional(),
-				ogImage: z.string().optional(),
-				// Firecrawl content
-				summary: z.string().optional(),
-				links: z.array(z.string()).optional(),
-				// Scraping metadata
-				scrapedAt: z.date().optional(),
-				scrapeConfidence: z.number().optional(),
+				brandKitId: z.string().optional(),
+				name: brandKitNameSchema.optional(),
 			}),
 		)
 		.mutation(async ({ ctx, input }) => {
@@ -109,62 +283,363 @@ export const brandKitRouter = router({
 				});
 			}
 
-			const { organizationId, ...updateData } = input;
+			const { organizationId, brandKitId, ...updateData } = input;
+			const prismaUpdateData = toPrismaBrandKitData(updateData);
 
-			// Cast socialLinks to Prisma JSON type if present
-			const prismaUpdateData = {
-				...updateData,
-				...(updateData.socialLinks && {
-					socialLinks: updateData.socialLinks as Prisma.InputJsonValue,
-				}),
-			};
+			if (!brandKitId) {
+				const brandKit = await saveDefaultBrandKit(
+					ctx.db,
+					organizationId,
+					prismaUpdateData as Prisma.BrandKitUpdateWithoutDefaultForInput,
+					{ source: "update", userId: ctx.session.user.id },
+				);
+				await invalidateBrandKitCache(organizationId, brandKit.id);
+				return brandKit;
+			}
 
-			// Upsert brand kit
-			const brandKit = await ctx.db.brandKit.upsert({
-				where: { organizationId },
-				update: prismaUpdateData as Prisma.BrandKitUpdateInput,
-				create: {
-					organization: {
-						connect: { id: organizationId },
-					},
-					...prismaUpdateData,
-				} as Prisma.BrandKitCreateInput,
+			const existing = await findBrandKit(ctx.db, organizationId, brandKitId);
+			if (!existing) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Brand kit not found",
+				});
+			}
+
+			const brandKit = await ctx.db.brandKit.update({
+				where: { id: brandKitId },
+				data: prismaUpdateData as Prisma.BrandKitUpdateInput,
+			});
+
+			await recordBrandKitRevision(ctx.db, existing, brandKit, {
+				source: "update",
+				userId: ctx.session.user.id,
 			});
+			await invalidateBrandKitCache(organizationId, brandKit.id);
 
 			return brandKit;
 		}),
 
 	/**
-	 * Delete brand kit (soft delete)
+	 * Change history of a brand kit (the default unless brandKitId is given)
+	 * Each revision lists its field diff and the style values it replaced.
 	 */
-	delete: protectedProcedure
+	history: organizationProcedure
 		.input(
 			z.object({
-				organizationId: z.string(),
+				brandKitId: z.string().optional(),
+				limit: z.number().int().min(1).max(100).default(30),
 			}),
 		)
-		.mutation(async ({ ctx, input }) => {
-			// Verify membership
-			const membership = await ctx.db.member.findFirst({
+		.query(async ({ ctx, input }) => {
+			const brandKitId = await resolveBrandKitId(ctx.db, ctx.organizationId, input.brandKitId);
+			if (!brandKitId) {
+				return [];
+			}
+
+			const revisions = await ctx.db.brandKitRevision.findMany({
+				where: { brandKitId },
+				orderBy: { version: "desc" },
+				take: input.limit,
+				select: {
+					id: true,
+					brandKitId: true,
+					version: true,
+					changes: true,
+					source: true,
+					createdBy: true,
+					createdAt: true,
+				},
+			});
+
+			return revisions.map((revision) => {
+				const changes = parseBrandKitChanges(revision.changes);
+				return {
+					...revision,
+					changes,
+					replacements: getRebrandReplacements(changes),
+				};
+			});
+		}),
+
+	/**
+	 * Templates a brand kit revision can re-brand
+	 * Looks at the organization's templates generated with the kit (or with no
+	 * recorded kit, when it's the default) and lists the ones the caller can
+	 * edit that still use the revision's old values.
+	 */
+	rebrandCandidates: organizationProcedure
+		.input(
+			z.object({
+				revisionId: z.string(),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			const revision = await findOrganizationRevision(ctx.db, ctx.organizationId, input.revisionId);
+			const replacements = getRebrandReplacements(parseBrandKitChanges(revision.changes));
+
+			if (replacements.length === 0) {
+				return { revision: { id: revision.id, version: revision.version }, replacements, templates: [] };
+			}
+
+			const organization = await ctx.db.organization.findUnique({
+				where: { id: ctx.organizationId },
+				select: { defaultBrandKitId: true },
+			});
+			const isDefault = organization?.defaultBrandKitId === revision.brandKitId;
+			const subject = await getTemplateAccessSubject(ctx.db, ctx.session!.user.id, ctx.organizationId);
+			const editableFilter = subject && buildTemplateVisibilityFilter(subject, "edit");
+
+			const templates = await ctx.db.template.findMany({
 				where: {
-					userId: ctx.session.user.id,
-					organizationId: input.organizationId,
+					organizationId: ctx.organizationId,
+					deletedAt: null,
+					reactEmailCode: { not: "" },
+					OR: [
+						{ brandKitId: revision.brandKitId },
+						...(isDefault ? [{ brandKitId: null }] : []),
+					],
+					// Only templates the caller can edit - the rest would fail to re-brand
+					...(editableFilter && { AND: [editableFilter] }),
+				},
+				select: {
+					id: true,
+					name: true,
+					reactEmailCode: true,
+					styleDefinitions: true,
+					thumbnailUrl: true,
+					reviewState: true,
+					updatedAt: true,
 				},
+				orderBy: { updatedAt: "desc" },
 			});
 
-			if (!membership) {
+			return {
+				revision: { id: revision.id, version: revision.version },
+				replacements,
+				templates: templates.flatMap(({ reactEmailCode, styleDefinitions, reviewState, ...template }) => {
+					const result = rebrandTemplate({ reactEmailCode, styleDefinitions }, replacements);
+					if (!result?.changed) return [];
+
+					return [
+						{
+							...template,
+							replacedValues: result.total,
+							lockMessage: getTemplateLockMessage(reviewState),
+						},
+					];
+				}),
+			};
+		}),
+
+	/**
+	 * Re-brand templates with a revision's replacements
+	 * Code is rewritten here, then validated, given element ids and rendered
+	 * like any other save. The previous content of each template is kept as a
+	 * version. Templates that fail (locked, no access, render error) are
+	 * reported and skipped.
+	 */
+	rebrandTemplates: organizationProcedure
+		.input(
+			z.object({
+				revisionId: z.string(),
+				templateIds: z.array(z.string()).min(1).max(MAX_REBRAND_TEMPLATES),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const revision = await findOrganizationRevision(ctx.db, ctx.organizationId, input.revisionId);
+			const replacements = getRebrandReplacements(parseBrandKitChanges(revision.changes));
+			const changeNote = replacements
+				.map((replacement) => `${replacement.field}: ${replacement.from} → ${replacement.to}`)
+				.join(", ");
+
+			const updated: Array<{ templateId: string; versionId: string }> = [];
+			const failed: Array<{ templateId: string; message: string }> = [];
+
+			// Sequential: each save renders in the shared sandbox
+			for (const templateId of input.templateIds) {
+				try {
+					const template = await verifyTemplateAccess<{
+						organizationId: string;
+						brandKitId: string | null;
+						reactEmailCode: string | null;
+						styleDefinitions: Prisma.JsonValue;
+					}>(
+						ctx.db,
+						ctx.session!.user.id,
+						templateId,
+						{ permission: "edit", editable: true },
+					);
+
+					if (template.organizationId !== ctx.organizationId) {
+						throw new TRPCError({
+							code: "FORBIDDEN",
+							message: "Template belongs to another organization",
+						});
+					}
+
+					const result = rebrandTemplate(template, replacements);
+					if (!result) {
+						throw new TRPCError({
+							code: "BAD_REQUEST",
+							message: "Template code couldn't be parsed",
+						});
+					}
+					if (!result.changed) {
+						throw new TRPCError({
+							code: "BAD_REQUEST",
+							message: "Template no longer uses the old brand values",
+						});
+					}
+
+					const validation = validateAndRepairCode(result.updatedCode);
+					if (!validation.isValid) {
+						throw new TRPCError({
+							code: "BAD_REQUEST",
+							message: `Re-branded code is invalid: ${validation.errors?.[0] ?? "unknown error"}`,
+						});
+					}
+					const reactEmailCode = assignElementIds(validation.code, template.reactEmailCode).code;
+
+					const htmlCode = await renderTemplateHtml(
+						{ reactEmailCode },
+						await getTemplateDesignTokens(ctx.db, template),
+					);
+
+					const { snapshot } = await snapshotAndUpdateTemplate(
+						ctx.db,
+						ctx.session!.user.id,
+						templateId,
+						{
+							name: `Before re-brand (brand v${revision.version})`,
+							changeNote,
+							source: "pre_rebrand",
+						},
+						{
+							reactEmailCode,
+							styleDefinitions: result.updatedStyleDefinitions as Prisma.InputJsonValue,
+							htmlCode,
+							tableHtmlCode: buildTableHtml(htmlCode),
+						},
+					);
+
+					scheduleTemplateThumbnail(ctx.db, templateId);
+
+					updated.push({ templateId, versionId: snapshot.id });
+				} catch (error) {
+					failed.push({
+						templateId,
+						message: error instanceof Error ? error.message : "Unknown error",
+					});
+				}
+			}
+
+			logger.info("🎨 [BrandKit] Templates re-branded:", {
+				organizationId: ctx.organizationId,
+				revisionId: revision.id,
+				updated: updated.length,
+				failed: failed.length,
+			});
+
+			return { updated, failed };
+		}),
+
+	/**
+	 * Read the font files behind a Google Fonts link
+	 * Nothing is saved; the fonts are added to a kit's webFonts on update.
+	 */
+	importGoogleFont: organizationProcedure
+		.input(z.object({ url: z.string().trim().min(1).max(1000) }))
+		.mutation(async ({ input }) => {
+			const fonts = await importGoogleFonts(input.url);
+
+			logger.info("🔤 [BrandKit] Google font imported:", {
+				families: [...new Set(fonts.map((font) => font.family))],
+				files: fonts.length,
+			});
+
+			return fonts;
+		}),
+
+	/**
+	 * Make a brand kit the organization default (owners/admins)
+	 */
+	setDefault: adminProcedure
+		.input(
+			z.object({
+				brandKitId: z.string(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const brandKit = await findBrandKit(ctx.db, ctx.organizationId, input.brandKitId);
+			if (!brandKit) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Brand kit not found",
+				});
+			}
+
+			await ctx.db.organization.update({
+				where: { id: ctx.organizationId },
+				data: { defaultBrandKitId: brandKit.id },
+			});
+			await invalidateBrandKitCache(ctx.organizationId, brandKit.id);
+
+			return { success: true };
+		}),
+
+	/**
+	 * Delete a brand kit (soft delete, owners/admins of the active organization)
+	 * Deleting the default promotes the oldest remaining kit.
+	 */
+	delete: adminProcedure
+		.input(
+			z.object({
+				organizationId: z.string(),
+				brandKitId: z.string().optional(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			if (input.organizationId !== ctx.organizationId) {
 				throw new TRPCError({
 					code: "FORBIDDEN",
-					message: "You are not a member of this organization",
+					message: "Switch to this organization to delete its brand kit",
+				});
+			}
+
+			const [organization, brandKits] = await Promise.all([
+				ctx.db.organization.findUnique({
+					where: { id: ctx.organizationId },
+					select: { defaultBrandKitId: true },
+				}),
+				ctx.db.brandKit.findMany({
+					where: { organizationId: ctx.organizationId, deletedAt: null },
+					select: { id: true, createdAt: true },
+				}),
+			]);
+
+			const defaultBrandKitId = organization?.defaultBrandKitId ?? null;
+			const targetId = input.brandKitId ?? defaultBrandKitId;
+			if (!targetId || !brandKits.some((brandKit) => brandKit.id === targetId)) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Brand kit not found",
 				});
 			}
 
 			await ctx.db.brandKit.update({
-				where: { organizationId: input.organizationId },
+				where: { id: targetId },
 				data: { deletedAt: new Date() },
 			});
 
+			if (targetId === defaultBrandKitId) {
+				const nextDefault = pickNextDefaultBrandKit(brandKits, targetId);
+				await ctx.db.organization.update({
+					where: { id: ctx.organizationId },
+					data: { defaultBrandKitId: nextDefault?.id ?? null },
+				});
+			}
+			await invalidateBrandKitCache(ctx.organizationId, targetId);
+
 			return { success: true };
 		}),
 });
-
@@ -2,16 +2,21 @@
  * Brand Scraping Router
  * 
  * Handles brand extraction from websites using Firecrawl API.
- * Provides preview and scrape+save functionality for onboarding and settings.
+ * Provides a single-page preview for onboarding, and a multi-page crawl with
+ * a per-field review (or straight save) for existing organizations.
  */
 
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { protectedProcedure, router } from "../index";
 import { scrapeBrand, isValidUrl, normalizeUrl } from "../lib/firecrawl";
-import { mapFirecrawlToBrandKit } from "../lib/brand-mapper";
+import { mapFirecrawlToBrandKit, type MappedBrandKit } from "../lib/brand-mapper";
+import { buildBrandCrawlReview, crawlBrand } from "../lib/brand-crawl";
 import { reuploadExternalImageToCdn } from "../lib/utils";
-import type { Prisma } from "@mocah/db";
+import { findBrandKit, resolveBrandKitId, saveDefaultBrandKit } from "../lib/brand-kits";
+import { recordBrandKitRevision } from "../lib/brand-kit-history";
+import type { Prisma, PrismaClient } from "@mocah/db";
+import { invalidateBrandKitCache } from "@mocah/shared/cache";
 
 // ============================================================================
 // Input Schemas
@@ -26,16 +31,167 @@ const urlInputSchema = z.object({
     }),
 });
 
-const scrapeAndSaveInputSchema = z.object({
-  url: z
-    .string()
-    .min(1, "URL is required")
-    .refine((url) => isValidUrl(url), {
-      message: "Please enter a valid URL",
-    }),
+const scrapeAndSaveInputSchema = urlInputSchema.extend({
   organizationId: z.string(),
+  /** Kit to fill; the organization default when omitted */
+  brandKitId: z.string().optional(),
 });
 
+const crawlInputSchema = scrapeAndSaveInputSchema;
+
+/** Values a user accepted from a crawl review */
+const crawledValuesSchema = z
+  .object({
+    primaryColor: z.string(),
+    accentColor: z.string(),
+    backgroundColor: z.string(),
+    textPrimaryColor: z.string(),
+    fontFamily: z.string(),
+    borderRadius: z.string(),
+    logo: z.string().url(),
+    favicon: z.string().url(),
+    ogImage: z.string().url(),
+    brandVoice: z.string(),
+    brandTone: z.string(),
+    brandEnergy: z.string(),
+    companyName: z.string(),
+    companyDescription: z.string(),
+    tagline: z.string(),
+    industry: z.string(),
+    productsServices: z.array(z.string()),
+    targetAudience: z.string(),
+    brandValues: z.array(z.string()),
+    socialLinks: z.record(z.string(), z.string()),
+    contactEmail: z.string(),
+    foundingYear: z.string(),
+    websiteUrl: z.string(),
+    summary: z.string(),
+    links: z.array(z.string()),
+  })
+  .partial();
+
+const saveReviewedInputSchema = z.object({
+  organizationId: z.string(),
+  /** Kit to fill; the organization default when omitted */
+  brandKitId: z.string().optional(),
+  values: crawledValuesSchema,
+  scrapeConfidence: z.number().min(0).max(1).nullable().optional(),
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function verifyMembership(db: PrismaClient, userId: string, organizationId: string) {
+  const membership = await db.member.findFirst({
+    where: { userId, organizationId },
+  });
+
+  if (!membership) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "You are not a member of this organization",
+    });
+  }
+}
+
+/**
+ * Write scraped values to a brand kit, or upsert the organization default
+ * 
+ * External images are re-uploaded to our CDN first. Fields missing from
+ * `values` are left untouched.
+ */
+async function saveScrapedBrandKit(
+  db: PrismaClient,
+  options: {
+    organizationId: string;
+    brandKitId?: string;
+    userId: string;
+    values: Partial<Omit<MappedBrandKit, "scrapeConfidence">>;
+    scrapeConfidence: number | null;
+  }
+) {
+  const { organizationId, brandKitId, userId, values } = options;
+
+  // Re-upload external images to our CDN for reliability
+  const [logoResult, faviconResult, ogImageResult] = await Promise.all([
+    values.logo 
+      ? reuploadExternalImageToCdn(values.logo, { type: "logo", userId }) 
+      : { url: values.logo, wasReuploaded: false },
+    values.favicon 
+      ? reuploadExternalImageToCdn(values.favicon, { type: "favicon", userId }) 
+      : { url: values.favicon, wasReuploaded: false },
+    values.ogImage 
+      ? reuploadExternalImageToCdn(values.ogImage, { type: "og", userId }) 
+      : { url: values.ogImage, wasReuploaded: false },
+  ]);
+
+  // Prepare data for Prisma (JSON fields: null -> undefined, cast to InputJsonValue)
+  const brandKitData = {
+    ...values,
+
+    // Images - use CDN URLs when available
+    logo: logoResult.url,
+    favicon: faviconResult.url,
+    ogImage: ogImageResult.url,
+
+    productsServices: values.productsServices ?? undefined,
+    brandValues: values.brandValues ?? undefined,
+    socialLinks: values.socialLinks
+      ? (values.socialLinks as Prisma.InputJsonValue)
+      : undefined,
+    links: values.links ?? undefined,
+
+    // Scraping metadata
+    scrapedAt: new Date(),
+    scrapeConfidence: options.scrapeConfidence,
+  };
+
+  // Save into the requested kit, or upsert the default
+  let brandKit;
+  if (brandKitId) {
+    const existing = await findBrandKit(db, organizationId, brandKitId);
+    if (!existing) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Brand kit not found",
+      });
+    }
+
+    brandKit = await db.brandKit.update({
+      where: { id: existing.id },
+      data: brandKitData as Prisma.BrandKitUpdateInput,
+    });
+    await recordBrandKitRevision(db, existing, brandKit, { source: "scrape", userId });
+  } else {
+    brandKit = await saveDefaultBrandKit(
+      db,
+      organizationId,
+      brandKitData as Prisma.BrandKitUpdateWithoutDefaultForInput,
+      { source: "scrape", userId }
+    );
+  }
+  await invalidateBrandKitCache(organizationId, brandKit.id);
+
+  // Also update organization name if we extracted a company name
+  // and the org doesn't have a custom name yet
+  if (values.companyName) {
+    const org = await db.organization.findUnique({
+      where: { id: organizationId },
+    });
+
+    // Only update if current name looks like a placeholder
+    if (org && (org.name === "My Organization" || org.name === "Untitled")) {
+      await db.organization.update({
+        where: { id: organizationId },
+        data: { name: values.companyName },
+      });
+    }
+  }
+
+  return brandKit;
+}
+
 // ============================================================================
 // Router
 // ============================================================================
@@ -85,131 +241,96 @@ export const brandBuilderRouter = router({
     }),
 
   /**
-   * Scrape brand and save to organization's brand kit
+   * Crawl a website and review the result against a brand kit
    * 
-   * Use this from settings to re-scan a website or
-   * from onboarding after organization creation.
+   * Scrapes the home, about, product and pricing pages and returns each
+   * merged field with its confidence, the page it came from and the kit's
+   * current value. Nothing is saved; accepted fields go to saveReviewed.
    */
-  scrapeAndSave: protectedProcedure
-    .input(scrapeAndSaveInputSchema)
+  crawl: protectedProcedure
+    .input(crawlInputSchema)
     .mutation(async ({ ctx, input }) => {
-      // Verify membership
-      const membership = await ctx.db.member.findFirst({
-        where: {
-          userId: ctx.session.user.id,
-          organizationId: input.organizationId,
-        },
-      });
+      await verifyMembership(ctx.db, ctx.session.user.id, input.organizationId);
+
+      const brandKitId = await resolveBrandKitId(ctx.db, input.organizationId, input.brandKitId);
+      const current = brandKitId
+        ? await findBrandKit(ctx.db, input.organizationId, brandKitId)
+        : null;
+
+      try {
+        const result = await crawlBrand(input.url);
+
+        return {
+          pages: result.pages,
+          review: buildBrandCrawlReview(current, result.fields),
+          scrapeConfidence: result.data.scrapeConfidence,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+
+        const message =
+          error instanceof Error ? error.message : "Failed to scrape website";
 
-      if (!membership) {
         throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "You are not a member of this organization",
+          code: "INTERNAL_SERVER_ERROR",
+          message,
         });
       }
+    }),
 
-      try {
-        const result = await scrapeBrand(input.url);
+  /**
+   * Save the fields a user accepted from a crawl review
+   * 
+   * Only the given fields are written; the rest of the kit is left as is.
+   */
+  saveReviewed: protectedProcedure
+    .input(saveReviewedInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      await verifyMembership(ctx.db, ctx.session.user.id, input.organizationId);
 
-        if (!result.success) {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: "Could not extract brand information from this website",
-          });
-        }
+      if (Object.keys(input.values).length === 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Select at least one field to save",
+        });
+      }
 
-        const mappedData = mapFirecrawlToBrandKit(result.data);
-
-        // Re-upload external images to our CDN for reliability
-        const userId = ctx.session.user.id;
-        const [logoResult, faviconResult, ogImageResult] = await Promise.all([
-          mappedData.logo 
-            ? reuploadExternalImageToCdn(mappedData.logo, { type: "logo", userId }) 
-            : { url: null, wasReuploaded: false },
-          mappedData.favicon 
-            ? reuploadExternalImageToCdn(mappedData.favicon, { type: "favicon", userId }) 
-            : { url: null, wasReuploaded: false },
-          mappedData.ogImage 
-            ? reuploadExternalImageToCdn(mappedData.ogImage, { type: "og", userId }) 
-            : { url: null, wasReuploaded: false },
-        ]);
-
-        // Prepare data for Prisma (handle null -> undefined conversion for JSON fields)
-        const brandKitData = {
-          // Colors
-          primaryColor: mappedData.primaryColor,
-          accentColor: mappedData.accentColor,
-          backgroundColor: mappedData.backgroundColor,
-          textPrimaryColor: mappedData.textPrimaryColor,
-
-          // Typography
-          fontFamily: mappedData.fontFamily,
-
-          // Layout
-          borderRadius: mappedData.borderRadius,
-
-          // Images - use CDN URLs when available
-          logo: logoResult.url,
-          favicon: faviconResult.url,
-          ogImage: ogImageResult.url,
-
-          // Personality
-          brandVoice: mappedData.brandVoice,
-          brandTone: mappedData.brandTone,
-          brandEnergy: mappedData.brandEnergy,
-
-          // Company Info
-          companyName: mappedData.companyName,
-          companyDescription: mappedData.companyDescription,
-          tagline: mappedData.tagline,
-          industry: mappedData.industry,
-          // JSON fields: convert null to undefined, cast to InputJsonValue
-          productsServices: mappedData.productsServices ?? undefined,
-          targetAudience: mappedData.targetAudience,
-          brandValues: mappedData.brandValues ?? undefined,
-          socialLinks: mappedData.socialLinks
-            ? (mappedData.socialLinks as Prisma.InputJsonValue)
-            : undefined,
-          contactEmail: mappedData.contactEmail,
-          foundingYear: mappedData.foundingYear,
-
-          // Source & Content
-          websiteUrl: mappedData.websiteUrl,
-          summary: mappedData.summary,
-          links: mappedData.links ?? undefined,
-
-          // Scraping metadata
-          scrapedAt: new Date(),
-          scrapeConfidence: mappedData.scrapeConfidence,
-        };
+      const brandKit = await saveScrapedBrandKit(ctx.db, {
+        organizationId: input.organizationId,
+        brandKitId: input.brandKitId,
+        userId: ctx.session.user.id,
+        values: input.values,
+        scrapeConfidence: input.scrapeConfidence ?? null,
+      });
 
-        // Upsert brand kit
-        const brandKit = await ctx.db.brandKit.upsert({
-          where: { organizationId: input.organizationId },
-          update: brandKitData as Prisma.BrandKitUpdateInput,
-          create: {
-            organization: {
-              connect: { id: input.organizationId },
-            },
-            ...brandKitData,
-          } as Prisma.BrandKitCreateInput,
-        });
+      return {
+        success: true,
+        data: brandKit,
+      };
+    }),
 
-        // Also update organization name if we extracted a company name
-        // and the org doesn't have a custom name yet
-        if (mappedData.companyName) {
-          const org = await ctx.db.organization.findUnique({
-            where: { id: input.organizationId },
-          });
+  /**
+   * Crawl a website and save every merged field to one of the organization's brand kits
+   * 
+   * Use this from onboarding after organization creation, where there is no
+   * existing kit to review against.
+   */
+  scrapeAndSave: protectedProcedure
+    .input(scrapeAndSaveInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      await verifyMembership(ctx.db, ctx.session.user.id, input.organizationId);
 
-          // Only update if current name looks like a placeholder
-          if (org && (org.name === "My Organization" || org.name === "Untitled")) {
-            await ctx.db.organization.update({
-              where: { id: input.organizationId },
-              data: { name: mappedData.companyName },
-            });
-          }
-        }
+      try {
+        const { data: mappedData } = await crawlBrand(input.url);
+        const { scrapeConfidence, ...values } = mappedData;
+
+        const brandKit = await saveScrapedBrandKit(ctx.db, {
+          organizationId: input.organizationId,
+          brandKitId: input.brandKitId,
+          userId: ctx.session.user.id,
+          values,
+          scrapeConfidence,
+        });
 
         return {
           success: true,
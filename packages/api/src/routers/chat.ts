@@ -1,43 +1,7 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { protectedProcedure, router } from "../index";
-
-/**
- * Helper to verify user has access to a template
- */
-async function verifyTemplateAccess(
-  db: any,
-  userId: string,
-  templateId: string
-) {
-  const template = await db.template.findUnique({
-    where: { id: templateId },
-    select: { organizationId: true },
-  });
-
-  if (!template) {
-    throw new TRPCError({
-      code: "NOT_FOUND",
-      message: "Template not found",
-    });
-  }
-
-  const membership = await db.member.findFirst({
-    where: {
-      userId,
-      organizationId: template.organizationId,
-    },
-  });
-
-  if (!membership) {
-    throw new TRPCError({
-      code: "FORBIDDEN",
-      message: "You do not have access to this template",
-    });
-  }
-
-  return template;
-}
+import { verifyTemplateAccess } from "../lib/template-helpers";
 
 export const chatRouter = router({
   /**
@@ -87,7 +51,8 @@ export const chatRouter = router({
       await verifyTemplateAccess(
         ctx.db,
         ctx.session.user.id,
-        input.templateId
+        input.templateId,
+        { permission: "edit" }
       );
 
       const message = await ctx.db.chatMessage.create({
@@ -137,7 +102,8 @@ export const chatRouter = router({
       await verifyTemplateAccess(
         ctx.db,
         ctx.session.user.id,
-        message.templateId
+        message.templateId,
+        { permission: "edit" }
       );
 
       const updated = await ctx.db.chatMessage.update({
@@ -181,7 +147,8 @@ export const chatRouter = router({
       await verifyTemplateAccess(
         ctx.db,
         ctx.session.user.id,
-        message.templateId
+        message.templateId,
+        { permission: "edit" }
       );
 
       await ctx.db.chatMessage.delete({
@@ -2,20 +2,29 @@ import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { protectedProcedure, router } from "../index";
 import { EmailService } from "@mocah/auth/email-service";
-import { verifyTemplateAccess } from "../lib/template-helpers";
-import { logger } from "@mocah/shared";
+import { renderTemplateHtml, verifyTemplateAccess } from "../lib/template-helpers";
+import { buildTableHtml } from "../lib/table-html";
+import { getTemplateDesignTokens } from "../lib/brand-kits";
+import { localizeTemplate } from "../lib/template-locales";
+import { localeCodeSchema, logger, normalizeRenderedHtml } from "@mocah/shared";
 
 export const emailTestRouter = router({
   /**
    * Send a test email with the template HTML
+   * HTML is rendered on the server from the template's code. variant "html"
+   * sends it as-is, "table" sends the email-safe table variant (inlined CSS,
+   * MSO conditionals, VML buttons). `locale` sends one of the template's
+   * translations.
    */
   sendTest: protectedProcedure
     .input(
       z.object({
         templateId: z.string(),
         to: z.email("Invalid email address"),
-        html: z.string().optional(), // Optional HTML - will use cached HTML if not provided
+        html: z.string().optional(), // Client-rendered HTML, only checked against the server render
         subject: z.string().optional(), // Optional subject - will use template subject if not provided
+        variant: z.enum(["html", "table"]).default("html"),
+        locale: localeCodeSchema.optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -23,44 +32,65 @@ export const emailTestRouter = router({
       await verifyTemplateAccess(
         ctx.db,
         ctx.session.user.id,
-        input.templateId
+        input.templateId,
+        { permission: "publish" }
       );
 
       // Fetch template with selected fields
-      const template = await ctx.db.template.findUnique({
+      const stored = await ctx.db.template.findUnique({
         where: { id: input.templateId },
         select: {
           id: true,
+          organizationId: true,
+          brandKitId: true,
           subject: true,
+          previewText: true,
+          defaultLocale: true,
           htmlCode: true,
           reactEmailCode: true,
         },
       });
 
-      if (!template) {
+      if (!stored) {
         throw new TRPCError({
           code: "NOT_FOUND",
           message: "Template not found",
         });
       }
 
-      // Determine HTML to send
-      let htmlToSend: string;
-      
-      if (input.html) {
-        // Use provided HTML (from client-side render)
-        htmlToSend = input.html;
-      } else if (template.htmlCode) {
-        // Use cached HTML from database
-        htmlToSend = template.htmlCode;
-      } else {
+      const template = await localizeTemplate(ctx.db, stored, input.locale);
+
+      // Render on the server - client HTML is never sent as-is
+      const renderedHtml = await renderTemplateHtml(
+        template,
+        await getTemplateDesignTokens(ctx.db, template)
+      );
+      if (!renderedHtml) {
         throw new TRPCError({
           code: "BAD_REQUEST",
-          message:
-            "No HTML available. Please provide HTML or ensure template has been rendered.",
+          message: "Template has no content to send yet.",
+        });
+      }
+
+      if (input.html && normalizeRenderedHtml(input.html) !== normalizeRenderedHtml(renderedHtml)) {
+        logger.warn("⚠️ [EmailTest] Client HTML differs from server render, sending server HTML", {
+          templateId: input.templateId,
         });
       }
 
+      let htmlToSend = renderedHtml;
+      if (input.variant === "table") {
+        const tableHtml = buildTableHtml(renderedHtml);
+
+        if (!tableHtml) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to generate table HTML for this template",
+          });
+        }
+        htmlToSend = tableHtml;
+      }
+
       // Determine subject
       const subject =
         input.subject || template.subject || "Test Email from Mocah";
@@ -76,6 +106,8 @@ export const emailTestRouter = router({
         logger.info("Test email sent successfully", {
           templateId: input.templateId,
           to: input.to,
+          variant: input.variant,
+          locale: input.locale,
           emailId: result.data?.id,
         });
 
@@ -1,6 +1,8 @@
 import { z } from "zod";
+import { TRPCError } from "@trpc/server";
 import { router } from "../index";
 import { organizationProcedure } from "../middleware";
+import { flattenLineage, getAncestorIds } from "../lib/image-lineage";
 
 export const imageAssetRouter = router({
   list: organizationProcedure
@@ -110,4 +112,77 @@ export const imageAssetRouter = router({
       .map((m) => m.model)
       .filter((m): m is string => m !== null && m !== "");
   }),
+
+  // Version tree an image belongs to (null for images without lineage)
+  getLineage: organizationProcedure
+    .input(z.object({ imageId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const node = await ctx.db.generatedImage.findFirst({
+        where: {
+          imageAssetId: input.imageId,
+          imageAsset: { organizationId: ctx.organizationId },
+        },
+        select: { id: true, rootImageId: true },
+      });
+      if (!node) return null;
+
+      const rootImageId = node.rootImageId ?? node.id;
+      const nodes = await ctx.db.generatedImage.findMany({
+        where: {
+          rootImageId,
+          imageAsset: { organizationId: ctx.organizationId },
+        },
+        select: {
+          id: true,
+          parentImageId: true,
+          version: true,
+          variationType: true,
+          isActive: true,
+          prompt: true,
+          createdAt: true,
+          imageAsset: {
+            select: { id: true, url: true, blurDataUrl: true, width: true, height: true },
+          },
+        },
+      });
+
+      return {
+        rootImageId,
+        nodeId: node.id,
+        ancestorIds: getAncestorIds(nodes, node.id),
+        nodes: flattenLineage(nodes).flatMap(({ imageAsset, ...rest }) =>
+          imageAsset ? [{ ...rest, image: imageAsset }] : []
+        ),
+      };
+    }),
+
+  // Mark one version of a tree as the active one
+  setActiveVersion: organizationProcedure
+    .input(z.object({ imageId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const node = await ctx.db.generatedImage.findFirst({
+        where: {
+          imageAssetId: input.imageId,
+          imageAsset: { organizationId: ctx.organizationId },
+        },
+        select: { id: true, rootImageId: true },
+      });
+      if (!node) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Image version not found" });
+      }
+
+      const rootImageId = node.rootImageId ?? node.id;
+      await ctx.db.$transaction([
+        ctx.db.generatedImage.updateMany({
+          where: { rootImageId, isActive: true, NOT: { id: node.id } },
+          data: { isActive: false },
+        }),
+        ctx.db.generatedImage.update({
+          where: { id: node.id },
+          data: { isActive: true },
+        }),
+      ]);
+
+      return { success: true, nodeId: node.id };
+    }),
 });
@@ -9,6 +9,10 @@ import { chatRouter } from "./chat";
 import { imageAssetRouter } from "./image-asset";
 import { subscriptionRouter } from "./subscription";
 import { emailTestRouter } from "./email-test";
+import { integrationRouter } from "./integration";
+import { aiActivityRouter } from "./ai-activity";
+import { teamRouter } from "./team";
+import { memberRouter } from "./member";
 
 export const appRouter = router({
   healthCheck: publicProcedure.query(() => {
@@ -32,6 +36,10 @@ export const appRouter = router({
   imageAsset: imageAssetRouter,
   subscription: subscriptionRouter,
   emailTest: emailTestRouter,
+  integration: integrationRouter,
+  aiActivity: aiActivityRouter,
+  team: teamRouter,
+  member: memberRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,492 @@
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import type { PrismaClient, TemplateReviewState } from "@mocah/db";
+import { router } from "../index";
+import { adminProcedure, organizationProcedure } from "../middleware";
+import {
+  parseTemplateVariables,
+  renderTemplateHtml,
+  verifyTemplateAccess,
+} from "../lib/template-helpers";
+import { buildTableHtml } from "../lib/table-html";
+import { getTemplateDesignTokens } from "../lib/brand-kits";
+import { assertTemplateApproved } from "../lib/template-review";
+import {
+  IntegrationProviderError,
+  SUPPORTED_INTEGRATION_TYPES,
+  buildProviderTemplate,
+  getIntegrationProvider,
+  type IntegrationProvider,
+  type RemoteTemplate,
+} from "../lib/integrations";
+import {
+  decryptIntegrationCredentials,
+  encryptIntegrationCredentials,
+} from "../lib/integrations/credentials";
+import { localizeTemplate } from "../lib/template-locales";
+import { localeCodeSchema, logger } from "@mocah/shared";
+
+// Fields safe to return to the client - credentials are never selected, even sealed
+const INTEGRATION_PUBLIC_SELECT = {
+  id: true,
+  type: true,
+  name: true,
+  isActive: true,
+  lastSyncAt: true,
+  syncStatus: true,
+  errorMessage: true,
+  metadata: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+export const integrationRouter = router({
+  /**
+   * List providers that can be connected, with the credential form fields
+   */
+  providers: organizationProcedure.query(() => {
+    return SUPPORTED_INTEGRATION_TYPES.map((type) => {
+      const provider = getIntegrationProvider(type)!;
+      return {
+        type,
+        displayName: provider.displayName,
+        credentialFields: provider.credentialFields,
+      };
+    });
+  }),
+
+  /**
+   * List connected integrations for the active organization
+   */
+  list: organizationProcedure.query(async ({ ctx }) => {
+    const integrations = await ctx.db.integration.findMany({
+      where: { organizationId: ctx.organizationId, deletedAt: null },
+      select: {
+        ...INTEGRATION_PUBLIC_SELECT,
+        _count: { select: { syncs: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return integrations.map(({ _count, ...integration }) => ({
+      ...integration,
+      syncCount: _count.syncs,
+    }));
+  }),
+
+  /**
+   * Connect an ESP account
+   * Credentials are verified against the provider before anything is stored.
+   */
+  connect: adminProcedure
+    .input(
+      z.object({
+        type: z.enum(SUPPORTED_INTEGRATION_TYPES),
+        name: z.string().trim().min(1).max(100).optional(),
+        credentials: z.record(z.string(), z.string()),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const provider = getIntegrationProvider(input.type)!;
+
+      // 1. Validate credential shape
+      const parsed = provider.credentialsSchema.safeParse(input.credentials);
+      if (!parsed.success) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: parsed.error.issues[0]?.message ?? "Invalid credentials",
+        });
+      }
+
+      // 2. Verify with the provider
+      let accountName: string | null;
+      try {
+        ({ accountName } = await provider.testConnection(parsed.data));
+      } catch (error) {
+        throw toTRPCError(error, provider);
+      }
+
+      // 3. Store with credentials sealed by the vault
+      const integrationId = randomUUID();
+      const integration = await ctx.db.integration.create({
+        data: {
+          id: integrationId,
+          organizationId: ctx.organizationId,
+          type: input.type,
+          name: input.name ?? (accountName ? `${provider.displayName} · ${accountName}` : provider.displayName),
+          credentials: encryptIntegrationCredentials(integrationId, parsed.data),
+          metadata: { accountName, connectedBy: ctx.session!.user.id },
+        },
+        select: INTEGRATION_PUBLIC_SELECT,
+      });
+
+      logger.info("🔌 [Integration] Connected", {
+        integrationId: integration.id,
+        organizationId: ctx.organizationId,
+        type: input.type,
+      });
+
+      return integration;
+    }),
+
+  /**
+   * Disconnect an integration
+   * Soft-deletes the row and wipes stored credentials; sync history is kept.
+   */
+  disconnect: adminProcedure
+    .input(z.object({ integrationId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await findIntegration(ctx.db, ctx.organizationId, input.integrationId);
+
+      await ctx.db.integration.update({
+        where: { id: input.integrationId },
+        data: { isActive: false, deletedAt: new Date(), credentials: {} },
+      });
+
+      logger.info("🔌 [Integration] Disconnected", {
+        integrationId: input.integrationId,
+        organizationId: ctx.organizationId,
+      });
+
+      return { success: true };
+    }),
+
+  /**
+   * Re-check stored credentials against the provider
+   */
+  test: organizationProcedure
+    .input(z.object({ integrationId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { integration, provider, credentials } = await loadIntegration(
+        ctx.db,
+        ctx.organizationId,
+        input.integrationId
+      );
+
+      try {
+        const { accountName } = await provider.testConnection(credentials);
+        await ctx.db.integration.update({
+          where: { id: integration.id },
+          data: {
+            errorMessage: null,
+            metadata: { ...asObject(integration.metadata), accountName },
+          },
+        });
+        return { ok: true as const, accountName, error: null };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Connection failed";
+        await ctx.db.integration.update({
+          where: { id: integration.id },
+          data: { errorMessage: message },
+        });
+        return { ok: false as const, accountName: null, error: message };
+      }
+    }),
+
+  /**
+   * List templates in the connected ESP account
+   */
+  listRemoteTemplates: organizationProcedure
+    .input(z.object({ integrationId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const { provider, credentials } = await loadIntegration(
+        ctx.db,
+        ctx.organizationId,
+        input.integrationId
+      );
+
+      try {
+        return await provider.listRemoteTemplates(credentials);
+      } catch (error) {
+        throw toTRPCError(error, provider);
+      }
+    }),
+
+  /**
+   * Recent sync history for an integration
+   */
+  syncs: organizationProcedure
+    .input(
+      z.object({
+        integrationId: z.string(),
+        limit: z.number().min(1).max(50).default(10),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      await findIntegration(ctx.db, ctx.organizationId, input.integrationId);
+
+      return ctx.db.integrationSync.findMany({
+        where: { integrationId: input.integrationId },
+        orderBy: { startedAt: "desc" },
+        take: input.limit,
+      });
+    }),
+
+  /**
+   * Push a template to an ESP
+   * Updates the remote template created by an earlier push when there is one,
+   * otherwise creates a new one. Every attempt is recorded as an IntegrationSync.
+   */
+  push: organizationProcedure
+    .input(
+      z.object({
+        integrationId: z.string(),
+        templateId: z.string(),
+        // Overwrite a specific remote template instead of the linked one
+        remoteTemplateId: z.string().optional(),
+        // Push one of the template's translations
+        locale: localeCodeSchema.optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session!.user.id;
+
+      // 1. Load integration and template
+      const { integration, provider, credentials } = await loadIntegration(
+        ctx.db,
+        ctx.organizationId,
+        input.integrationId
+      );
+
+      const stored = await verifyTemplateAccess<{
+        id: string;
+        organizationId: string;
+        brandKitId: string | null;
+        name: string;
+        subject: string | null;
+        previewText: string | null;
+        reactEmailCode: string | null;
+        htmlCode: string | null;
+        variables: unknown;
+        defaultLocale: string;
+        reviewState: TemplateReviewState;
+      }>(ctx.db, userId, input.templateId, { permission: "publish" });
+
+      assertTemplateApproved(stored, "pushing to an email platform");
+      const template = await localizeTemplate(ctx.db, stored, input.locale);
+
+      if (template.organizationId !== ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Template belongs to a different workspace than this integration",
+        });
+      }
+
+      // Render on the server rather than pushing the browser-computed cache
+      const renderedHtml = await renderTemplateHtml(
+        template,
+        await getTemplateDesignTokens(ctx.db, template)
+      );
+      const tableHtmlCode = renderedHtml ? buildTableHtml(renderedHtml) : null;
+      if (!tableHtmlCode) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Template has no content yet. Save the template before pushing.",
+        });
+      }
+
+      // 2. Resolve the remote template to update, if any
+      const linkedRemoteId =
+        input.remoteTemplateId ??
+        (await findLinkedRemoteTemplateId(ctx.db, integration.id, template.id));
+
+      const payload = buildProviderTemplate(provider, {
+        ...template,
+        tableHtmlCode,
+        variables: parseTemplateVariables(template.variables),
+      });
+      const startedAt = new Date();
+
+      // 3. Push
+      let remote: RemoteTemplate;
+      let action: "create" | "update" = linkedRemoteId ? "update" : "create";
+      try {
+        remote = linkedRemoteId
+          ? await updateOrRecreate(provider, credentials, linkedRemoteId, payload, () => {
+              action = "create";
+            })
+          : await provider.pushTemplate(credentials, payload);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Push failed";
+
+        await recordSync(ctx.db, integration.id, {
+          status: "failed",
+          startedAt,
+          errorMessage: message,
+          metadata: { templateId: template.id, action, remoteTemplateId: linkedRemoteId, triggeredBy: userId },
+        });
+
+        logger.error("❌ [Integration] Push failed", {
+          integrationId: integration.id,
+          templateId: template.id,
+          error: message,
+        });
+
+        throw toTRPCError(error, provider);
+      }
+
+      // 4. Record sync
+      const sync = await recordSync(ctx.db, integration.id, {
+        status: "success",
+        startedAt,
+        errorMessage: null,
+        metadata: {
+          templateId: template.id,
+          action,
+          remoteTemplateId: remote.id,
+          remoteTemplateName: remote.name,
+          triggeredBy: userId,
+        },
+      });
+
+      logger.info("📤 [Integration] Template pushed", {
+        integrationId: integration.id,
+        templateId: template.id,
+        remoteTemplateId: remote.id,
+        action,
+      });
+
+      return { syncId: sync.id, action, remoteTemplate: remote };
+    }),
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function findIntegration(db: PrismaClient, organizationId: string, integrationId: string) {
+  const integration = await db.integration.findFirst({
+    where: { id: integrationId, organizationId, deletedAt: null },
+  });
+
+  if (!integration) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Integration not found",
+    });
+  }
+
+  return integration;
+}
+
+/**
+ * Load an active integration with its provider and decrypted credentials
+ * The returned credentials are for provider calls only - never return them.
+ */
+async function loadIntegration(db: PrismaClient, organizationId: string, integrationId: string) {
+  const integration = await findIntegration(db, organizationId, integrationId);
+
+  if (!integration.isActive) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: "Integration is disabled",
+    });
+  }
+
+  const decrypted = await decryptIntegrationCredentials(db, integration);
+  const provider = getIntegrationProvider(decrypted.type)!;
+
+  return { integration, provider, credentials: decrypted.credentials };
+}
+
+/**
+ * Remote template created by the last successful push of this template
+ */
+async function findLinkedRemoteTemplateId(
+  db: PrismaClient,
+  integrationId: string,
+  templateId: string
+): Promise<string | null> {
+  const lastSync = await db.integrationSync.findFirst({
+    where: {
+      integrationId,
+      status: "success",
+      metadata: { path: ["templateId"], equals: templateId },
+    },
+    orderBy: { startedAt: "desc" },
+    select: { metadata: true },
+  });
+
+  const remoteTemplateId = asObject(lastSync?.metadata).remoteTemplateId;
+  return typeof remoteTemplateId === "string" ? remoteTemplateId : null;
+}
+
+/**
+ * Update the linked remote template, creating a fresh one if it was deleted in the ESP
+ */
+async function updateOrRecreate(
+  provider: IntegrationProvider,
+  credentials: Record<string, string>,
+  remoteTemplateId: string,
+  payload: ReturnType<typeof buildProviderTemplate>,
+  onRecreate: () => void
+): Promise<RemoteTemplate> {
+  try {
+    return await provider.updateTemplate(credentials, remoteTemplateId, payload);
+  } catch (error) {
+    if (error instanceof IntegrationProviderError && error.status === 404) {
+      onRecreate();
+      return provider.pushTemplate(credentials, payload);
+    }
+    throw error;
+  }
+}
+
+async function recordSync(
+  db: PrismaClient,
+  integrationId: string,
+  sync: {
+    status: "success" | "failed";
+    startedAt: Date;
+    errorMessage: string | null;
+    metadata: Record<string, unknown>;
+  }
+) {
+  const completedAt = new Date();
+
+  const [record] = await db.$transaction([
+    db.integrationSync.create({
+      data: {
+        integrationId,
+        status: sync.status,
+        recordsSynced: sync.status === "success" ? 1 : 0,
+        recordsFailed: sync.status === "success" ? 0 : 1,
+        errorMessage: sync.errorMessage,
+        startedAt: sync.startedAt,
+        completedAt,
+        metadata: sync.metadata as object,
+      },
+    }),
+    db.integration.update({
+      where: { id: integrationId },
+      data: {
+        lastSyncAt: completedAt,
+        syncStatus: sync.status,
+        errorMessage: sync.errorMessage,
+      },
+    }),
+  ]);
+
+  return record;
+}
+
+function toTRPCError(error: unknown, provider: IntegrationProvider): TRPCError {
+  if (error instanceof IntegrationProviderError && error.isAuthError) {
+    return new TRPCError({
+      code: "BAD_REQUEST",
+      message: `${provider.displayName} rejected the credentials: ${error.message}`,
+    });
+  }
+
+  return new TRPCError({
+    code: "INTERNAL_SERVER_ERROR",
+    message: `${provider.displayName} request failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+  });
+}
+
+function asObject(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
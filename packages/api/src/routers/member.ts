@@ -0,0 +1,444 @@
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import type { PrismaClient } from "@mocah/db";
+import { EmailService } from "@mocah/auth/email-service";
+import { serverEnv } from "@mocah/config/env";
+import { logger } from "@mocah/shared";
+import { protectedProcedure, publicProcedure, router } from "../index";
+import { adminProcedure, organizationProcedure } from "../middleware";
+import { invalidateMembership } from "../lib/membership-cache";
+import {
+  INVITABLE_ROLES,
+  INVITATION_EXPIRY_DAYS,
+  ORGANIZATION_ROLES,
+  getInvitationStatus,
+  getMemberChangeError,
+} from "../lib/member-roles";
+import { isOrganizationAdmin, parseMemberRoles } from "../lib/template-permissions";
+
+const USER_SELECT = { id: true, name: true, email: true, image: true } as const;
+
+function getInvitationExpiry(): Date {
+  return new Date(Date.now() + INVITATION_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+}
+
+function getInvitationUrl(invitationId: string): string {
+  const origin = serverEnv.CORS_ORIGIN || "http://localhost:3001";
+  return `${origin.replace(/\/$/, "")}/invite/${invitationId}`;
+}
+
+/**
+ * Email an invitation link
+ * Failures are logged and reported back so the invite can be resent.
+ */
+async function sendInvitation(
+  invitation: { id: string; email: string; role: string },
+  organizationName: string,
+  inviter: { email: string; name?: string | null }
+): Promise<boolean> {
+  try {
+    await EmailService.sendInvitationEmail({
+      email: invitation.email,
+      inviter: { email: inviter.email, name: inviter.name ?? undefined },
+      organizationName,
+      role: invitation.role,
+      url: getInvitationUrl(invitation.id),
+      expiresInDays: INVITATION_EXPIRY_DAYS,
+    });
+    return true;
+  } catch (error) {
+    logger.error("❌ Failed to send invitation email", {
+      error: error as Error,
+      invitationId: invitation.id,
+    });
+    return false;
+  }
+}
+
+/**
+ * Load a pending invitation of the organization
+ */
+async function getPendingInvitation(db: PrismaClient, organizationId: string, invitationId: string) {
+  const invitation = await db.invitation.findFirst({
+    where: { id: invitationId, organizationId, status: "pending" },
+  });
+
+  if (!invitation) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Invitation not found",
+    });
+  }
+
+  return invitation;
+}
+
+/**
+ * Load a member of the organization with parsed roles
+ */
+async function getOrganizationMember(db: PrismaClient, organizationId: string, memberId: string) {
+  const member = await db.member.findFirst({
+    where: { id: memberId, organizationId },
+  });
+
+  if (!member) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Member not found",
+    });
+  }
+
+  return { ...member, roles: parseMemberRoles(member.role) };
+}
+
+export const memberRouter = router({
+  /**
+   * Members and pending invitations of the active organization
+   */
+  list: organizationProcedure.query(async ({ ctx }) => {
+    const [members, invitations] = await Promise.all([
+      ctx.db.member.findMany({
+        where: { organizationId: ctx.organizationId },
+        orderBy: { createdAt: "asc" },
+        select: { id: true, role: true, createdAt: true, user: { select: USER_SELECT } },
+      }),
+      ctx.db.invitation.findMany({
+        where: { organizationId: ctx.organizationId, status: "pending" },
+        orderBy: { createdAt: "desc" },
+        select: { id: true, email: true, role: true, status: true, expiresAt: true, createdAt: true },
+      }),
+    ]);
+
+    const me = ctx.organization.members.find((m) => m.userId === ctx.session!.user.id);
+    const myRoles = me ? parseMemberRoles(me.role) : [];
+
+    return {
+      members: members.map((member) => ({
+        ...member,
+        roles: parseMemberRoles(member.role),
+      })),
+      invitations: invitations.map((invitation) => ({
+        ...invitation,
+        status: getInvitationStatus(invitation),
+      })),
+      currentUserId: ctx.session!.user.id,
+      roles: myRoles,
+      canManage: isOrganizationAdmin(myRoles),
+    };
+  }),
+
+  /**
+   * Invite someone by email (owners/admins)
+   */
+  invite: adminProcedure
+    .input(
+      z.object({
+        email: z.email().transform((email) => email.toLowerCase()),
+        role: z.enum(INVITABLE_ROLES).default("member"),
+        teamId: z.string().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const [existingMember, existingInvitation, team] = await Promise.all([
+        ctx.db.member.findFirst({
+          where: {
+            organizationId: ctx.organizationId,
+            user: { email: { equals: input.email, mode: "insensitive" } },
+          },
+          select: { id: true },
+        }),
+        ctx.db.invitation.findFirst({
+          where: {
+            organizationId: ctx.organizationId,
+            email: { equals: input.email, mode: "insensitive" },
+            status: "pending",
+            expiresAt: { gt: new Date() },
+          },
+          select: { id: true },
+        }),
+        input.teamId
+          ? ctx.db.team.findFirst({
+              where: { id: input.teamId, organizationId: ctx.organizationId },
+              select: { id: true },
+            })
+          : null,
+      ]);
+
+      if (existingMember) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "This person is already a member of the workspace",
+        });
+      }
+
+      if (existingInvitation) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "This email already has a pending invitation. Resend it instead.",
+        });
+      }
+
+      if (input.teamId && !team) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Team not found",
+        });
+      }
+
+      const invitation = await ctx.db.invitation.create({
+        data: {
+          id: randomUUID(),
+          email: input.email,
+          role: input.role,
+          status: "pending",
+          inviterId: ctx.session!.user.id,
+          organizationId: ctx.organizationId,
+          teamId: input.teamId ?? null,
+          expiresAt: getInvitationExpiry(),
+          createdAt: new Date(),
+        },
+      });
+
+      const emailSent = await sendInvitation(invitation, ctx.organization.name, ctx.session!.user);
+
+      logger.info(`✉️ Invited ${input.email} to organization ${ctx.organizationId} as ${input.role}`);
+
+      return { invitation, emailSent };
+    }),
+
+  /**
+   * Send the invitation email again and extend its expiry (owners/admins)
+   */
+  resend: adminProcedure
+    .input(z.object({ invitationId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await getPendingInvitation(ctx.db, ctx.organizationId, input.invitationId);
+
+      const invitation = await ctx.db.invitation.update({
+        where: { id: input.invitationId },
+        data: { expiresAt: getInvitationExpiry() },
+      });
+
+      const emailSent = await sendInvitation(invitation, ctx.organization.name, ctx.session!.user);
+
+      if (!emailSent) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to send the invitation email",
+        });
+      }
+
+      return { success: true };
+    }),
+
+  /**
+   * Cancel a pending invitation (owners/admins)
+   */
+  revoke: adminProcedure
+    .input(z.object({ invitationId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await getPendingInvitation(ctx.db, ctx.organizationId, input.invitationId);
+
+      await ctx.db.invitation.update({
+        where: { id: input.invitationId },
+        data: { status: "canceled" },
+      });
+
+      return { success: true };
+    }),
+
+  /**
+   * Invitation details for the accept page
+   * The invitation id is the secret, so this only reveals what the email did.
+   */
+  getInvitation: publicProcedure
+    .input(z.object({ invitationId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const invitation = await ctx.db.invitation.findUnique({
+        where: { id: input.invitationId },
+        include: { organization: { select: { id: true, name: true, logo: true } } },
+      });
+
+      if (!invitation) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Invitation not found",
+        });
+      }
+
+      const inviter = await ctx.db.user.findUnique({
+        where: { id: invitation.inviterId },
+        select: { name: true, email: true },
+      });
+
+      return {
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role,
+        status: getInvitationStatus(invitation),
+        expiresAt: invitation.expiresAt,
+        organization: invitation.organization,
+        inviter,
+      };
+    }),
+
+  /**
+   * Accept an invitation addressed to the signed-in user's email
+   */
+  accept: protectedProcedure
+    .input(z.object({ invitationId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const invitation = await ctx.db.invitation.findUnique({
+        where: { id: input.invitationId },
+      });
+
+      if (!invitation) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Invitation not found",
+        });
+      }
+
+      const status = getInvitationStatus(invitation);
+
+      if (status === "expired" && invitation.status === "pending") {
+        await ctx.db.invitation.update({
+          where: { id: invitation.id },
+          data: { status: "expired" },
+        });
+      }
+
+      if (status !== "pending") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            status === "expired"
+              ? "This invitation has expired. Ask for a new one."
+              : "This invitation is no longer valid",
+        });
+      }
+
+      if (invitation.email.toLowerCase() !== ctx.session.user.email.toLowerCase()) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: `This invitation was sent to ${invitation.email}. Sign in with that email to accept it.`,
+        });
+      }
+
+      const existingMember = await ctx.db.member.findFirst({
+        where: { userId, organizationId: invitation.organizationId },
+        select: { id: true },
+      });
+
+      await ctx.db.$transaction(async (tx) => {
+        const now = new Date();
+
+        if (!existingMember) {
+          await tx.member.create({
+            data: {
+              id: randomUUID(),
+              userId,
+              organizationId: invitation.organizationId,
+              role: invitation.role,
+              createdAt: now,
+            },
+          });
+        }
+
+        if (invitation.teamId) {
+          const team = await tx.team.findFirst({
+            where: { id: invitation.teamId, organizationId: invitation.organizationId },
+            select: { id: true },
+          });
+
+          if (team) {
+            await tx.teamMember.upsert({
+              where: { teamId_userId: { teamId: team.id, userId } },
+              create: { id: randomUUID(), teamId: team.id, userId, createdAt: now },
+              update: {},
+            });
+          }
+        }
+
+        await tx.invitation.update({
+          where: { id: invitation.id },
+          data: { status: "accepted" },
+        });
+      });
+
+      await invalidateMembership(userId, invitation.organizationId);
+
+      logger.info(`✅ User ${userId} joined organization ${invitation.organizationId}`);
+
+      return { organizationId: invitation.organizationId };
+    }),
+
+  /**
+   * Change a member's role (owners/admins; only owners manage owners)
+   */
+  changeRole: adminProcedure
+    .input(
+      z.object({
+        memberId: z.string(),
+        role: z.enum(ORGANIZATION_ROLES),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const member = await getOrganizationMember(ctx.db, ctx.organizationId, input.memberId);
+
+      const error = getMemberChangeError({
+        actorUserId: ctx.session!.user.id,
+        actorRoles: ctx.userRoles,
+        target: member,
+        newRole: input.role,
+      });
+
+      if (error) {
+        throw new TRPCError({ code: "FORBIDDEN", message: error });
+      }
+
+      return ctx.db.member.update({
+        where: { id: member.id },
+        data: { role: input.role },
+        select: { id: true, role: true },
+      });
+    }),
+
+  /**
+   * Remove a member from the workspace (owners/admins; only owners remove owners)
+   * Also drops their team memberships and template grants in this workspace.
+   */
+  remove: adminProcedure
+    .input(z.object({ memberId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const member = await getOrganizationMember(ctx.db, ctx.organizationId, input.memberId);
+
+      const error = getMemberChangeError({
+        actorUserId: ctx.session!.user.id,
+        actorRoles: ctx.userRoles,
+        target: member,
+      });
+
+      if (error) {
+        throw new TRPCError({ code: "FORBIDDEN", message: error });
+      }
+
+      await ctx.db.$transaction([
+        ctx.db.teamMember.deleteMany({
+          where: { userId: member.userId, team: { organizationId: ctx.organizationId } },
+        }),
+        ctx.db.templatePermission.deleteMany({
+          where: { userId: member.userId, template: { organizationId: ctx.organizationId } },
+        }),
+        ctx.db.member.delete({ where: { id: member.id } }),
+      ]);
+
+      await invalidateMembership(member.userId, ctx.organizationId);
+
+      logger.info(`🗑️ Removed user ${member.userId} from organization ${ctx.organizationId}`);
+
+      return { success: true };
+    }),
+});
@@ -3,6 +3,8 @@ import { TRPCError } from "@trpc/server";
 import { Prisma } from "@mocah/db";
 import { protectedProcedure, router } from "../index";
 import { organizationProcedure } from "../middleware";
+import { saveDefaultBrandKit } from "../lib/brand-kits";
+import { invalidateBrandKitCache } from "@mocah/shared/cache";
 
 export const organizationRouter = router({
   /**
@@ -303,7 +305,7 @@ export const organizationRouter = router({
             });
           }
 
-          // Update or create brand kit if data provided
+          // Update or create the default brand kit if data provided
           if (input.brandKit) {
             // Cast socialLinks, productsServices, brandValues, and links as Prisma.JsonValue
             const brandKitData = {
@@ -314,13 +316,9 @@ export const organizationRouter = router({
               links: input.brandKit.links as Prisma.InputJsonValue | undefined,
             };
 
-            await tx.brandKit.upsert({
-              where: { organizationId: input.organizationId },
-              update: brandKitData,
-              create: {
-                organizationId: input.organizationId,
-                ...brandKitData,
-              },
+            await saveDefaultBrandKit(tx, input.organizationId, brandKitData, {
+              source: "update",
+              userId: ctx.session!.user.id,
             });
           }
 
@@ -334,6 +332,10 @@ export const organizationRouter = router({
         }
       );
 
+      if (input.brandKit) {
+        await invalidateBrandKitCache(input.organizationId, result?.brandKit?.id);
+      }
+
       return result;
     }),
 });
@@ -21,6 +21,7 @@ import {
   createUploadUrlSchema,
   confirmUploadSchema,
 } from "@mocah/shared";
+import { createFontUploadUrlSchema, WEB_FONT_CONTENT_TYPES } from "@mocah/shared/web-fonts";
 import { logger, MAX_FILE_SIZE } from "@mocah/shared";
 
 // Helper to calculate simplified aspect ratio
@@ -135,6 +136,51 @@ export const storageRouter = router({
       }
     }),
 
+  /**
+   * Get a presigned URL for a brand web font file
+   * Fonts skip image processing; the public URL goes straight into the
+   * brand kit's webFonts.
+   */
+  createFontUploadUrl: organizationProcedure
+    .input(createFontUploadUrlSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { fileName, contentType } = input;
+      const storageKey = generateStoragePath(fileName, "fonts");
+
+      try {
+        const { uploadUrl, publicUrl } = await createPresignedUploadUrl({
+          key: storageKey,
+          contentType,
+          metadata: {
+            "user-id": ctx.session!.user.id,
+            "organization-id": ctx.organizationId,
+            "original-name": encodeURIComponent(fileName),
+            "upload-timestamp": Date.now().toString(),
+          },
+        });
+
+        logger.info("🔤 Font upload URL created", {
+          storageKey,
+          contentType,
+          organizationId: ctx.organizationId,
+        });
+
+        return {
+          uploadUrl,
+          publicUrl,
+          storageKey,
+          format: WEB_FONT_CONTENT_TYPES[contentType]!,
+        };
+      } catch (error) {
+        logger.error("❌ Failed to create font upload URL", {
+          fileName,
+          storageKey,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw new Error("Failed to generate upload URL");
+      }
+    }),
+
   /**
    * Step 2: Confirm upload, process image, and create database record
    * Downloads the uploaded image from S3, optimizes it, re-uploads, and creates record
@@ -0,0 +1,192 @@
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import type { PrismaClient } from "@mocah/db";
+import { router } from "../index";
+import { adminProcedure, organizationProcedure } from "../middleware";
+import { isOrganizationAdmin, parseMemberRoles } from "../lib/template-permissions";
+
+const USER_SELECT = { id: true, name: true, email: true, image: true } as const;
+
+/**
+ * Load a team and make sure it belongs to the organization
+ */
+async function getOrganizationTeam(db: PrismaClient, organizationId: string, teamId: string) {
+  const team = await db.team.findFirst({
+    where: { id: teamId, organizationId },
+  });
+
+  if (!team) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Team not found",
+    });
+  }
+
+  return team;
+}
+
+export const teamRouter = router({
+  /**
+   * Teams of the active organization with their members
+   * Also returns the workspace members for the member pickers.
+   */
+  list: organizationProcedure.query(async ({ ctx }) => {
+    const [teams, members] = await Promise.all([
+      ctx.db.team.findMany({
+        where: { organizationId: ctx.organizationId },
+        orderBy: { name: "asc" },
+        include: {
+          members: {
+            orderBy: { createdAt: "asc" },
+            select: { id: true, user: { select: USER_SELECT } },
+          },
+          _count: { select: { templates: { where: { deletedAt: null } } } },
+        },
+      }),
+      ctx.db.member.findMany({
+        where: { organizationId: ctx.organizationId },
+        orderBy: { createdAt: "asc" },
+        select: { role: true, user: { select: USER_SELECT } },
+      }),
+    ]);
+
+    const me = ctx.organization.members.find((m) => m.userId === ctx.session!.user.id);
+
+    return {
+      teams,
+      members: members.map((member) => ({
+        ...member.user,
+        roles: parseMemberRoles(member.role),
+      })),
+      canManage: !!me && isOrganizationAdmin(parseMemberRoles(me.role)),
+    };
+  }),
+
+  /**
+   * Create a team (owners/admins)
+   */
+  create: adminProcedure
+    .input(
+      z.object({
+        name: z.string().trim().min(1).max(100),
+        memberIds: z.array(z.string()).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const members = input.memberIds?.length
+        ? await ctx.db.member.findMany({
+            where: { organizationId: ctx.organizationId, userId: { in: input.memberIds } },
+            select: { userId: true },
+          })
+        : [];
+
+      const now = new Date();
+      return ctx.db.team.create({
+        data: {
+          id: randomUUID(),
+          name: input.name,
+          organizationId: ctx.organizationId,
+          createdAt: now,
+          updatedAt: now,
+          members: {
+            create: members.map((member) => ({
+              id: randomUUID(),
+              userId: member.userId,
+              createdAt: now,
+            })),
+          },
+        },
+      });
+    }),
+
+  /**
+   * Rename a team (owners/admins)
+   */
+  update: adminProcedure
+    .input(
+      z.object({
+        teamId: z.string(),
+        name: z.string().trim().min(1).max(100),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await getOrganizationTeam(ctx.db, ctx.organizationId, input.teamId);
+
+      return ctx.db.team.update({
+        where: { id: input.teamId },
+        data: { name: input.name, updatedAt: new Date() },
+      });
+    }),
+
+  /**
+   * Delete a team (owners/admins)
+   * Its templates become visible to the whole workspace again unless shared
+   * with other teams or members.
+   */
+  delete: adminProcedure
+    .input(z.object({ teamId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await getOrganizationTeam(ctx.db, ctx.organizationId, input.teamId);
+
+      await ctx.db.team.delete({ where: { id: input.teamId } });
+
+      return { success: true };
+    }),
+
+  /**
+   * Add a workspace member to a team (owners/admins)
+   */
+  addMember: adminProcedure
+    .input(
+      z.object({
+        teamId: z.string(),
+        userId: z.string(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await getOrganizationTeam(ctx.db, ctx.organizationId, input.teamId);
+
+      const member = await ctx.db.member.findFirst({
+        where: { organizationId: ctx.organizationId, userId: input.userId },
+      });
+
+      if (!member) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Only workspace members can join a team",
+        });
+      }
+
+      return ctx.db.teamMember.upsert({
+        where: { teamId_userId: { teamId: input.teamId, userId: input.userId } },
+        create: {
+          id: randomUUID(),
+          teamId: input.teamId,
+          userId: input.userId,
+          createdAt: new Date(),
+        },
+        update: {},
+      });
+    }),
+
+  /**
+   * Remove a member from a team (owners/admins)
+   */
+  removeMember: adminProcedure
+    .input(
+      z.object({
+        teamId: z.string(),
+        userId: z.string(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await getOrganizationTeam(ctx.db, ctx.organizationId, input.teamId);
+
+      await ctx.db.teamMember.deleteMany({
+        where: { teamId: input.teamId, userId: input.userId },
+      });
+
+      return { success: true };
+    }),
+});
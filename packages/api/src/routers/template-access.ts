@@ -0,0 +1,199 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../index";
+import { verifyTemplateAccess } from "../lib/template-helpers";
+import {
+  TEMPLATE_PERMISSION_LEVELS,
+  getTemplateAccessSubject,
+  getTemplatePermission,
+  isOrganizationAdmin,
+} from "../lib/template-permissions";
+
+const permissionLevelSchema = z.enum(TEMPLATE_PERMISSION_LEVELS);
+
+/**
+ * Template sharing: owning team and per-template grants
+ * Managing access requires publish permission on the template.
+ */
+export const templateAccessRouter = router({
+  /**
+   * Owning team, grants and the caller's own permission
+   */
+  get: protectedProcedure
+    .input(z.object({ templateId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const template = await verifyTemplateAccess<{
+        id: string;
+        organizationId: string;
+        teamId: string | null;
+      }>(ctx.db, ctx.session.user.id, input.templateId);
+
+      const [team, grants, permission] = await Promise.all([
+        template.teamId
+          ? ctx.db.team.findUnique({
+              where: { id: template.teamId },
+              select: { id: true, name: true },
+            })
+          : null,
+        ctx.db.templatePermission.findMany({
+          where: { templateId: template.id },
+          orderBy: { createdAt: "asc" },
+          select: {
+            id: true,
+            level: true,
+            team: { select: { id: true, name: true } },
+            user: { select: { id: true, name: true, email: true, image: true } },
+          },
+        }),
+        getTemplatePermission(ctx.db, ctx.session.user.id, template),
+      ]);
+
+      return {
+        team,
+        grants,
+        permission,
+        isRestricted: !!template.teamId || grants.length > 0,
+        canManage: permission === "publish",
+      };
+    }),
+
+  /**
+   * Assign the owning team, or clear it with null
+   * Members can only hand a template to a team they are on.
+   */
+  setTeam: protectedProcedure
+    .input(
+      z.object({
+        templateId: z.string(),
+        teamId: z.string().nullable(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const template = await verifyTemplateAccess<{ id: string; organizationId: string }>(
+        ctx.db,
+        userId,
+        input.templateId,
+        { permission: "publish" }
+      );
+
+      if (input.teamId) {
+        const [team, subject] = await Promise.all([
+          ctx.db.team.findFirst({
+            where: { id: input.teamId, organizationId: template.organizationId },
+            select: { id: true },
+          }),
+          getTemplateAccessSubject(ctx.db, userId, template.organizationId),
+        ]);
+
+        if (!team) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Team not found",
+          });
+        }
+
+        if (subject && !isOrganizationAdmin(subject.roles) && !subject.teamIds.includes(team.id)) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "You can only assign templates to teams you belong to",
+          });
+        }
+      }
+
+      return ctx.db.template.update({
+        where: { id: template.id },
+        data: { teamId: input.teamId },
+        select: { id: true, teamId: true },
+      });
+    }),
+
+  /**
+   * Grant a team or a single member access to the template
+   */
+  grant: protectedProcedure
+    .input(
+      z
+        .object({
+          templateId: z.string(),
+          teamId: z.string().optional(),
+          userId: z.string().optional(),
+          level: permissionLevelSchema,
+        })
+        .refine((input) => !!input.teamId !== !!input.userId, {
+          message: "Grant access to either a team or a member",
+        })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const template = await verifyTemplateAccess<{ id: string; organizationId: string }>(
+        ctx.db,
+        ctx.session.user.id,
+        input.templateId,
+        { permission: "publish" }
+      );
+
+      const grantee = input.teamId
+        ? await ctx.db.team.findFirst({
+            where: { id: input.teamId, organizationId: template.organizationId },
+            select: { id: true },
+          })
+        : await ctx.db.member.findFirst({
+            where: { userId: input.userId, organizationId: template.organizationId },
+            select: { id: true },
+          });
+
+      if (!grantee) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: input.teamId ? "Team not found" : "Member not found in this workspace",
+        });
+      }
+
+      const data = {
+        templateId: template.id,
+        teamId: input.teamId ?? null,
+        userId: input.userId ?? null,
+        level: input.level,
+        grantedById: ctx.session.user.id,
+      };
+
+      return input.teamId
+        ? ctx.db.templatePermission.upsert({
+            where: { templateId_teamId: { templateId: template.id, teamId: input.teamId } },
+            create: data,
+            update: { level: input.level, grantedById: ctx.session.user.id },
+          })
+        : ctx.db.templatePermission.upsert({
+            where: { templateId_userId: { templateId: template.id, userId: input.userId! } },
+            create: data,
+            update: { level: input.level, grantedById: ctx.session.user.id },
+          });
+    }),
+
+  /**
+   * Remove a grant
+   */
+  revoke: protectedProcedure
+    .input(z.object({ permissionId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const grant = await ctx.db.templatePermission.findUnique({
+        where: { id: input.permissionId },
+        select: { id: true, templateId: true },
+      });
+
+      if (!grant) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Permission not found",
+        });
+      }
+
+      await verifyTemplateAccess(ctx.db, ctx.session.user.id, grant.templateId, {
+        permission: "publish",
+      });
+
+      await ctx.db.templatePermission.delete({ where: { id: grant.id } });
+
+      return { success: true };
+    }),
+});
@@ -0,0 +1,386 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import type { PrismaClient } from "@mocah/db";
+import { EmailService } from "@mocah/auth/email-service";
+import { serverEnv } from "@mocah/config/env";
+import { logger } from "@mocah/shared";
+import { protectedProcedure, router } from "../index";
+import { verifyTemplateAccess } from "../lib/template-helpers";
+import { getTemplatePermission, hasPermissionLevel } from "../lib/template-permissions";
+import {
+  createCommentAnchor,
+  normalizeMentions,
+  reanchorThreads,
+} from "../lib/template-comments";
+
+const USER_SELECT = { id: true, name: true, email: true, image: true } as const;
+
+const COMMENT_INCLUDE = {
+  author: { select: USER_SELECT },
+  mentions: { select: { user: { select: USER_SELECT } } },
+} as const;
+
+const commentBodySchema = z.string().trim().min(1, "Comment can't be empty").max(5000);
+
+type CommentedTemplate = {
+  id: string;
+  name: string;
+  organizationId: string;
+  teamId: string | null;
+  reactEmailCode: string | null;
+  currentVersionId: string | null;
+};
+
+function getCommentUrl(templateId: string, threadId: string): string {
+  const origin = serverEnv.CORS_ORIGIN || "http://localhost:3001";
+  return `${origin.replace(/\/$/, "")}/app/${templateId}?comment=${threadId}`;
+}
+
+/**
+ * Mentioned users who can see the template
+ * Mentions of anyone else are dropped rather than leaking the comment.
+ */
+async function getMentionRecipients(
+  db: PrismaClient,
+  template: CommentedTemplate,
+  userIds: string[]
+) {
+  if (userIds.length === 0) return [];
+
+  const members = await db.member.findMany({
+    where: { organizationId: template.organizationId, userId: { in: userIds } },
+    select: { user: { select: USER_SELECT } },
+  });
+
+  const permissions = await Promise.all(
+    members.map((member) => getTemplatePermission(db, member.user.id, template))
+  );
+
+  return members
+    .filter((_, index) => hasPermissionLevel(permissions[index] ?? null, "view"))
+    .map((member) => member.user);
+}
+
+/**
+ * Email mentioned users
+ * Failures are logged; the comment is saved either way.
+ */
+async function notifyMentions(
+  recipients: Array<{ id: string; email: string }>,
+  author: { email: string; name?: string | null },
+  template: CommentedTemplate,
+  threadId: string,
+  body: string
+): Promise<void> {
+  await Promise.all(
+    recipients.map(async (recipient) => {
+      try {
+        await EmailService.sendCommentMentionEmail({
+          email: recipient.email,
+          author: { email: author.email, name: author.name ?? undefined },
+          templateName: template.name,
+          comment: body,
+          url: getCommentUrl(template.id, threadId),
+        });
+      } catch (error) {
+        logger.error("❌ Failed to send mention email", {
+          error: error as Error,
+          threadId,
+          userId: recipient.id,
+        });
+      }
+    })
+  );
+}
+
+/**
+ * Load a thread and verify the caller's access to its template
+ */
+async function getThreadWithAccess(
+  db: PrismaClient,
+  userId: string,
+  threadId: string,
+  permission: "view" | "comment" | "edit"
+) {
+  const thread = await db.templateCommentThread.findUnique({
+    where: { id: threadId },
+  });
+
+  if (!thread) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Comment thread not found",
+    });
+  }
+
+  const template = await verifyTemplateAccess<CommentedTemplate>(
+    db,
+    userId,
+    thread.templateId,
+    { permission }
+  );
+
+  return { thread, template };
+}
+
+/**
+ * Review comments pinned to elements in the preview
+ * Anyone with comment access can open threads, reply and resolve; the
+ * template's review lock doesn't apply to comments.
+ */
+export const templateCommentsRouter = router({
+  /**
+   * Threads of a template, re-anchored to the current code
+   * Anchors are resolved here without writing; saves store them.
+   */
+  list: protectedProcedure
+    .input(
+      z.object({
+        templateId: z.string(),
+        /** Only threads opened on this version */
+        versionId: z.string().optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const template = await verifyTemplateAccess<CommentedTemplate>(
+        ctx.db,
+        userId,
+        input.templateId
+      );
+
+      const threads = await ctx.db.templateCommentThread.findMany({
+        where: {
+          templateId: template.id,
+          ...(input.versionId && { versionId: input.versionId }),
+        },
+        orderBy: { createdAt: "asc" },
+        include: {
+          version: { select: { id: true, version: true } },
+          createdBy: { select: USER_SELECT },
+          resolvedBy: { select: USER_SELECT },
+          comments: {
+            orderBy: { createdAt: "asc" },
+            include: COMMENT_INCLUDE,
+          },
+        },
+      });
+
+      // Code saved by paths that don't re-anchor (restores, re-brands) may have moved elements
+      const moved = reanchorThreads(threads, template.reactEmailCode);
+      const movedById = new Map(moved.map((thread) => [thread.id, thread]));
+      const permission = await getTemplatePermission(ctx.db, userId, template);
+
+      return {
+        threads: threads.map((thread) => ({ ...thread, ...movedById.get(thread.id) })),
+        canComment: hasPermissionLevel(permission, "comment"),
+        canModerate: hasPermissionLevel(permission, "edit"),
+      };
+    }),
+
+  /**
+   * Open a thread on an element
+   */
+  create: protectedProcedure
+    .input(
+      z.object({
+        templateId: z.string(),
+        elementId: z.string().max(200),
+        body: commentBodySchema,
+        mentionIds: z.array(z.string()).max(20).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const user = ctx.session.user;
+      const template = await verifyTemplateAccess<CommentedTemplate>(
+        ctx.db,
+        user.id,
+        input.templateId,
+        { permission: "comment" }
+      );
+
+      const anchor = createCommentAnchor(template.reactEmailCode, input.elementId);
+
+      if (!anchor) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "That element no longer exists. Refresh the preview and try again.",
+        });
+      }
+
+      const recipients = await getMentionRecipients(
+        ctx.db,
+        template,
+        normalizeMentions(input.mentionIds, user.id)
+      );
+
+      const thread = await ctx.db.templateCommentThread.create({
+        data: {
+          templateId: template.id,
+          versionId: template.currentVersionId,
+          ...anchor,
+          createdById: user.id,
+          comments: {
+            create: {
+              authorId: user.id,
+              body: input.body,
+              mentions: {
+                create: recipients.map((recipient) => ({ userId: recipient.id })),
+              },
+            },
+          },
+        },
+      });
+
+      await notifyMentions(recipients, user, template, thread.id, input.body);
+
+      logger.info("💬 [Comments] Thread opened:", {
+        templateId: template.id,
+        threadId: thread.id,
+        elementId: anchor.elementId,
+        mentions: recipients.length,
+      });
+
+      return thread;
+    }),
+
+  /**
+   * Reply to a thread
+   */
+  reply: protectedProcedure
+    .input(
+      z.object({
+        threadId: z.string(),
+        body: commentBodySchema,
+        mentionIds: z.array(z.string()).max(20).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const user = ctx.session.user;
+      const { thread, template } = await getThreadWithAccess(
+        ctx.db,
+        user.id,
+        input.threadId,
+        "comment"
+      );
+
+      const recipients = await getMentionRecipients(
+        ctx.db,
+        template,
+        normalizeMentions(input.mentionIds, user.id)
+      );
+
+      const comment = await ctx.db.templateComment.create({
+        data: {
+          threadId: thread.id,
+          authorId: user.id,
+          body: input.body,
+          mentions: {
+            create: recipients.map((recipient) => ({ userId: recipient.id })),
+          },
+        },
+        include: COMMENT_INCLUDE,
+      });
+
+      await notifyMentions(recipients, user, template, thread.id, input.body);
+
+      return comment;
+    }),
+
+  /**
+   * Resolve or reopen a thread
+   */
+  setResolved: protectedProcedure
+    .input(z.object({ threadId: z.string(), resolved: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const { thread } = await getThreadWithAccess(ctx.db, userId, input.threadId, "comment");
+
+      return ctx.db.templateCommentThread.update({
+        where: { id: thread.id },
+        data: input.resolved
+          ? { resolvedAt: new Date(), resolvedById: userId }
+          : { resolvedAt: null, resolvedById: null },
+      });
+    }),
+
+  /**
+   * Edit your own comment
+   */
+  update: protectedProcedure
+    .input(z.object({ commentId: z.string(), body: commentBodySchema }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const comment = await ctx.db.templateComment.findUnique({
+        where: { id: input.commentId },
+      });
+
+      if (!comment) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Comment not found",
+        });
+      }
+
+      await getThreadWithAccess(ctx.db, userId, comment.threadId, "comment");
+
+      if (comment.authorId !== userId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "You can only edit your own comments",
+        });
+      }
+
+      return ctx.db.templateComment.update({
+        where: { id: comment.id },
+        data: { body: input.body, editedAt: new Date() },
+        include: COMMENT_INCLUDE,
+      });
+    }),
+
+  /**
+   * Delete a comment (author, or anyone with edit access)
+   * Deleting the last comment removes the thread.
+   */
+  delete: protectedProcedure
+    .input(z.object({ commentId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const comment = await ctx.db.templateComment.findUnique({
+        where: { id: input.commentId },
+      });
+
+      if (!comment) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Comment not found",
+        });
+      }
+
+      const { thread, template } = await getThreadWithAccess(
+        ctx.db,
+        userId,
+        comment.threadId,
+        "comment"
+      );
+
+      if (comment.authorId !== userId) {
+        const permission = await getTemplatePermission(ctx.db, userId, template);
+        if (!hasPermissionLevel(permission, "edit")) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "You can only delete your own comments",
+          });
+        }
+      }
+
+      await ctx.db.templateComment.delete({ where: { id: comment.id } });
+
+      const remaining = await ctx.db.templateComment.count({ where: { threadId: thread.id } });
+      if (remaining === 0) {
+        await ctx.db.templateCommentThread.delete({ where: { id: thread.id } });
+      }
+
+      return { success: true, threadDeleted: remaining === 0 };
+    }),
+});
@@ -1,7 +1,9 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
+import type { TemplateReviewState } from "@mocah/db";
 import { protectedProcedure, router } from "../index";
 import {
+  adminProcedure,
   organizationProcedure,
   templateQuotaProcedure,
   requireActiveOrganization,
@@ -13,20 +15,45 @@ import {
   buildReactEmailRegenerationPrompt,
   reactEmailGenerationSchema,
 } from "../lib/prompts";
-import { logger } from "@mocah/shared";
+import {
+  localeCodeSchema,
+  logger,
+  previewDataSetsSchema,
+  templateVariablesSchema,
+} from "@mocah/shared";
 import { checkMembership } from "../lib/membership-cache";
 import {
   getActiveTrial,
   incrementUsage,
   checkUsageLimit,
   UsageLimitError,
+  getTemplateVersionRetentionPolicy,
 } from "../lib/usage-tracking";
+import { enforceVersionRetention, hydrateVersions } from "../lib/version-retention";
+import { buildTableHtml } from "../lib/table-html";
+import { assignElementIds } from "../lib/element-ids";
+import {
+  getTemplateBrandKit,
+  getTemplateDesignTokens,
+  resolveBrandKitId,
+} from "../lib/brand-kits";
+import { scheduleTemplateThumbnail } from "../lib/template-thumbnails";
+import { reanchorTemplateComments } from "../lib/template-comments";
+import {
+  buildDuplicateGrants,
+  buildTemplateVisibilityFilter,
+  getTemplateAccessSubject,
+  getTemplatePermission,
+} from "../lib/template-permissions";
 import {
   validateStyleType,
   verifyTemplateAccess,
   createInitialVersion,
   validateAndRepairCode,
+  parseTemplateVariables,
+  reconcileClientHtml,
 } from "../lib/template-helpers";
+import { assertTemplateEditable, touchesReviewedContent } from "../lib/template-review";
 
 export const templateCoreRouter = router({
   /**
@@ -48,6 +75,7 @@ export const templateCoreRouter = router({
             versions: {
               orderBy: { version: "desc" },
             },
+            brandKit: true,
             organization: {
               select: {
                 id: true,
@@ -59,7 +87,11 @@ export const templateCoreRouter = router({
         }
       );
 
-      return template;
+      // Compacted versions are stored as deltas; rebuild their content for preview/restore
+      return {
+        ...template,
+        versions: await hydrateVersions(ctx.db, template.versions),
+      };
     }),
 
   /**
@@ -80,9 +112,17 @@ export const templateCoreRouter = router({
         .optional()
     )
     .query(async ({ ctx, input }) => {
+      const subject = await getTemplateAccessSubject(
+        ctx.db,
+        ctx.session!.user.id,
+        ctx.organizationId
+      );
+
       const where: any = {
         organizationId: ctx.organizationId,
         deletedAt: null,
+        // Hide team-owned and shared templates the member has no access to
+        ...(subject && buildTemplateVisibilityFilter(subject)),
       };
 
       // Filter by status - default to ACTIVE only (excludes incomplete drafts)
@@ -121,7 +161,11 @@ export const templateCoreRouter = router({
             name: true,
             updatedAt: true,
             isFavorite: true,
-            htmlCode: true, // Include cached HTML for preview
+            thumbnailUrl: true,
+            htmlCode: true, // Fallback preview until a thumbnail exists
+            team: {
+              select: { id: true, name: true },
+            },
             _count: {
               select: {
                 versions: true,
@@ -131,8 +175,11 @@ export const templateCoreRouter = router({
         }),
       ]);
 
+      // Cards show the thumbnail; only send HTML for templates without one yet
       return {
-        templates,
+        templates: templates.map((template) =>
+          template.thumbnailUrl ? { ...template, htmlCode: null } : template
+        ),
         totalCount,
         nextCursor:
           templates.length === (input?.limit || 50)
@@ -151,25 +198,34 @@ export const templateCoreRouter = router({
     .input(
       z.object({
         prompt: z.string(),
+        brandKitId: z.string().optional(), // Defaults to the organization's default brand
       })
     )
     .mutation(async ({ ctx, input }) => {
-      // 1. Get organization brand kit
-      const organization = await ctx.db.organization.findUnique({
-        where: { id: ctx.organizationId },
-        select: { brandKit: true },
-      });
+      // 1. Get the brand kit to generate with
+      const brandKitId = await resolveBrandKitId(ctx.db, ctx.organizationId, input.brandKitId);
+      const brandKit = brandKitId
+        ? await ctx.db.brandKit.findUnique({ where: { id: brandKitId } })
+        : null;
 
       // 2. Generate React Email template
       const prompt = buildReactEmailPrompt(
         input.prompt,
-        organization?.brandKit as any
+        brandKit as any
       );
 
       const result = await aiClient.generateStructured(
         reactEmailGenerationSchema,
         prompt,
-        TEMPLATE_GENERATION_MODEL
+        TEMPLATE_GENERATION_MODEL,
+        {
+          audit: {
+            organizationId: ctx.organizationId,
+            userId: ctx.session!.user.id,
+            operation: "template.generate",
+            type: "template",
+          },
+        }
       );
 
       // Log AI response summary
@@ -213,6 +269,8 @@ export const templateCoreRouter = router({
         });
       }
 
+      const { code: generatedCode } = assignElementIds(validationResult.code);
+
       // 3. Create template
       if (!ctx.organizationId) {
         throw new TRPCError({
@@ -224,10 +282,11 @@ export const templateCoreRouter = router({
       const template = await ctx.db.template.create({
         data: {
           organizationId: ctx.organizationId,
+          brandKitId,
           name: result.subject || "AI Generated Template",
           subject: result.subject,
           description: `Generated from prompt: ${input.prompt}`,
-          reactEmailCode: validationResult.code,
+          reactEmailCode: generatedCode,
           styleType: validateStyleType(result.styleType),
           styleDefinitions: {},
           previewText: result.previewText,
@@ -242,7 +301,7 @@ export const templateCoreRouter = router({
           version: 1,
           name: "V1",
           subject: result.subject,
-          reactEmailCode: validationResult.code,
+          reactEmailCode: generatedCode,
           styleType: validateStyleType(result.styleType),
           styleDefinitions: {},
           previewText: result.previewText,
@@ -263,6 +322,8 @@ export const templateCoreRouter = router({
       }
       await incrementUsage(ctx.session.user.id, "templateGeneration");
 
+      scheduleTemplateThumbnail(ctx.db, template.id);
+
       return template;
     }),
 
@@ -275,6 +336,7 @@ export const templateCoreRouter = router({
     .input(
       z.object({
         prompt: z.string(),
+        brandKitId: z.string().optional(),
       })
     )
     .query(async ({ ctx, input }) => {
@@ -285,6 +347,7 @@ export const templateCoreRouter = router({
         body: {
           prompt: input.prompt,
           organizationId: ctx.organizationId,
+          brandKitId: input.brandKitId,
         },
       };
     }),
@@ -298,23 +361,36 @@ export const templateCoreRouter = router({
       z.object({
         templateId: z.string(),
         prompt: z.string(),
+        brandKitId: z.string().optional(), // Switch brands; defaults to the template's brand
       })
     )
     .mutation(async ({ ctx, input }) => {
       // Verify access
       const template = await verifyTemplateAccess<{
         id: string;
+        organizationId: string;
         reactEmailCode: string | null;
+        variables: unknown;
+        brandKit: any;
         organization: { brandKit: any };
       }>(
         ctx.db,
         ctx.session!.user.id,
         input.templateId,
         {
-          include: { organization: { select: { brandKit: true } } },
+          include: { brandKit: true, organization: { select: { brandKit: true } } },
+          permission: "edit",
+          editable: true,
         }
       );
 
+      const brandKitId = input.brandKitId
+        ? await resolveBrandKitId(ctx.db, template.organizationId, input.brandKitId)
+        : null;
+      const brandKit = brandKitId
+        ? await ctx.db.brandKit.findUnique({ where: { id: brandKitId } })
+        : getTemplateBrandKit(template);
+
       // Get latest version number
       const latestVersion = await ctx.db.templateVersion.findFirst({
         where: { templateId: input.templateId },
@@ -327,7 +403,8 @@ export const templateCoreRouter = router({
       const prompt = buildReactEmailRegenerationPrompt(
         input.prompt,
         template.reactEmailCode || "", // Current template code for context
-        template.organization.brandKit as any
+        brandKit as any,
+        parseTemplateVariables(template.variables)
       );
 
       logger.info("🔄 [Regeneration] Building prompt with current template", {
@@ -340,7 +417,22 @@ export const templateCoreRouter = router({
       const result = await aiClient.generateStructured(
         reactEmailGenerationSchema,
         prompt,
-        TEMPLATE_GENERATION_MODEL
+        TEMPLATE_GENERATION_MODEL,
+        {
+          audit: {
+            organizationId: template.organizationId,
+            userId: ctx.session!.user.id,
+            operation: "template.regenerate",
+            type: "template",
+            templateId: input.templateId,
+          },
+        }
+      );
+
+      // Keep element ids (comments, selection) the model dropped
+      const { code: regeneratedCode } = assignElementIds(
+        result.reactEmailCode,
+        template.reactEmailCode
       );
 
       // Create new version
@@ -352,10 +444,11 @@ export const templateCoreRouter = router({
           subject: result.subject,
           isCurrent: true,
           createdBy: ctx.session!.user.id,
-          reactEmailCode: result.reactEmailCode,
+          reactEmailCode: regeneratedCode,
           styleType: validateStyleType(result.styleType),
           styleDefinitions: {},
           previewText: result.previewText,
+          variables: template.variables ?? undefined,
           metadata: {
             generatedFrom: "ai",
             prompt: input.prompt,
@@ -368,14 +461,24 @@ export const templateCoreRouter = router({
         where: { id: input.templateId },
         data: {
           currentVersionId: version.id,
+          ...(brandKitId && { brandKitId }),
           subject: result.subject,
-          reactEmailCode: result.reactEmailCode,
+          reactEmailCode: regeneratedCode,
           styleType: validateStyleType(result.styleType),
           styleDefinitions: {},
           previewText: result.previewText,
         },
       });
 
+      scheduleTemplateThumbnail(ctx.db, input.templateId);
+
+      // Prune/compact older versions per the workspace's plan
+      await enforceVersionRetention(
+        ctx.db,
+        input.templateId,
+        await getTemplateVersionRetentionPolicy(input.templateId)
+      );
+
       // Increment usage after successful regeneration
       await incrementUsage(ctx.session!.user.id, "templateGeneration");
 
@@ -399,6 +502,10 @@ export const templateCoreRouter = router({
         styleType: z.enum(["INLINE", "PREDEFINED_CLASSES", "STYLE_OBJECTS"]).default("STYLE_OBJECTS"),
         styleDefinitions: z.record(z.string(), z.any()).optional(),
         previewText: z.string().optional(),
+        variables: templateVariablesSchema.optional(),
+        previewDataSets: previewDataSetsSchema.optional(),
+        defaultLocale: localeCodeSchema.optional(),
+        brandKitId: z.string().optional(), // Defaults to the organization's default brand
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -416,19 +523,43 @@ export const templateCoreRouter = router({
         }
       }
 
+      const brandKitId = await resolveBrandKitId(ctx.db, ctx.organizationId, input.brandKitId);
+
+      // The client's HTML is only a cache - store the server render instead,
+      // with brand tokens resolved to the template's kit
+      const htmlCode =
+        input.htmlCode && input.reactEmailCode.trim()
+          ? await reconcileClientHtml(
+              input.reactEmailCode,
+              input.htmlCode,
+              input.id,
+              await getTemplateDesignTokens(ctx.db, { organizationId: ctx.organizationId, brandKitId })
+            )
+          : input.htmlCode;
+
+      // Email-safe variant of the rendered HTML (inlined CSS, MSO/VML fallbacks)
+      const tableHtmlCode = buildTableHtml(htmlCode);
+      const { code: reactEmailCode } = assignElementIds(input.reactEmailCode);
+
       const template = await ctx.db.template.create({
         data: {
           ...(input.id && { id: input.id }),
           organizationId: ctx.organizationId,
+          brandKitId,
           name: input.name,
           description: input.description,
           subject: input.subject,
           category: input.category,
           isPublic: input.isPublic,
-          reactEmailCode: input.reactEmailCode,
+          reactEmailCode,
+          htmlCode,
+          tableHtmlCode,
           styleType: input.styleType,
           styleDefinitions: input.styleDefinitions,
           previewText: input.previewText,
+          variables: input.variables,
+          previewDataSets: input.previewDataSets,
+          defaultLocale: input.defaultLocale,
         },
       });
 
@@ -440,14 +571,21 @@ export const templateCoreRouter = router({
           version: 1,
           name: "V1",
           subject: input.subject,
-          reactEmailCode: input.reactEmailCode,
+          reactEmailCode,
+          htmlCode,
+          tableHtmlCode,
           styleType: input.styleType,
           styleDefinitions: input.styleDefinitions,
           previewText: input.previewText,
+          variables: input.variables,
         },
         ctx.session?.user?.id
       );
 
+      if (htmlCode || input.reactEmailCode) {
+        scheduleTemplateThumbnail(ctx.db, template.id);
+      }
+
       return template;
     }),
 
@@ -470,13 +608,32 @@ export const templateCoreRouter = router({
         styleType: z.enum(["INLINE", "PREDEFINED_CLASSES", "STYLE_OBJECTS"]).optional(),
         styleDefinitions: z.record(z.string(), z.any()).optional(),
         previewText: z.string().optional(),
+        variables: templateVariablesSchema.optional(),
+        previewDataSets: previewDataSetsSchema.optional(),
+        defaultLocale: localeCodeSchema.optional(),
+        brandKitId: z.string().optional(), // Brand the content was (re)generated with
       })
     )
     .mutation(async ({ ctx, input }) => {
       const { id, ...updateData } = input;
 
       // Verify access
-      await verifyTemplateAccess(ctx.db, ctx.session.user.id, id);
+      const template = await verifyTemplateAccess<{
+        organizationId: string;
+        brandKitId: string | null;
+        reviewState: TemplateReviewState;
+        reactEmailCode: string | null;
+      }>(ctx.db, ctx.session.user.id, id, { permission: "edit" });
+
+      // Only brands of the template's own organization
+      if (updateData.brandKitId) {
+        await resolveBrandKitId(ctx.db, template.organizationId, updateData.brandKitId);
+      }
+
+      // Name, favorites and preview data stay editable on reviewed templates
+      if (touchesReviewedContent(updateData)) {
+        assertTemplateEditable(template);
+      }
 
       // Check if this is a first-time generation (template being saved after streaming)
       // We increment usage when:
@@ -567,13 +724,73 @@ export const templateCoreRouter = router({
         if (validationResult.warnings && validationResult.warnings.length > 0) {
           logger.warn("⚠️ [Template Update] Validation warnings:", validationResult.warnings);
         }
+
+        // Streamed AI edits arrive here; recover ids the model dropped
+        const { code, created, recovered } = assignElementIds(
+          updateData.reactEmailCode,
+          template.reactEmailCode
+        );
+        updateData.reactEmailCode = code;
+
+        if (created > 0 || recovered > 0) {
+          logger.info("🏷️ [Template Update] Assigned element ids:", { templateId: id, created, recovered });
+        }
+      }
+
+      // The client's HTML is only a cache - store the server render instead,
+      // with brand tokens resolved to the values in effect now
+      if (updateData.htmlCode) {
+        const code =
+          updateData.reactEmailCode ??
+          (
+            await ctx.db.template.findUnique({
+              where: { id },
+              select: { reactEmailCode: true },
+            })
+          )?.reactEmailCode;
+
+        if (code?.trim()) {
+          const designTokens = await getTemplateDesignTokens(ctx.db, {
+            organizationId: template.organizationId,
+            brandKitId: updateData.brandKitId ?? template.brandKitId,
+          });
+          updateData.htmlCode = await reconcileClientHtml(code, updateData.htmlCode, id, designTokens);
+        }
       }
 
+      // Regenerate the email-safe table variant whenever rendered HTML changes
       const updatedTemplate = await ctx.db.template.update({
         where: { id },
-        data: updateData,
+        data: {
+          ...updateData,
+          ...(updateData.htmlCode !== undefined && {
+            tableHtmlCode: buildTableHtml(updateData.htmlCode),
+          }),
+        },
       });
 
+      if (updateData.htmlCode !== undefined || updateData.reactEmailCode !== undefined) {
+        scheduleTemplateThumbnail(ctx.db, id);
+      }
+
+      // Line-based element ids move when the code is edited
+      if (updateData.reactEmailCode !== undefined) {
+        await reanchorTemplateComments(ctx.db, id, updatedTemplate.reactEmailCode).catch((err) => {
+          logger.error("Failed to re-anchor template comments", {
+            error: err,
+            templateId: id,
+          });
+          // Comments resolve their anchors on read, so the save still succeeds
+        });
+      }
+
+      // The source language can't also have its own string table
+      if (updateData.defaultLocale) {
+        await ctx.db.templateLocale.deleteMany({
+          where: { templateId: id, locale: updateData.defaultLocale },
+        });
+      }
+
       // Increment usage after successful first generation
       if (shouldIncrementUsage && ctx.session?.user?.id) {
         await incrementUsage(ctx.session.user.id, "templateGeneration").catch(
@@ -623,6 +840,10 @@ export const templateCoreRouter = router({
             },
             take: 1, // Just check if it exists
           },
+          locales: true,
+          permissions: {
+            select: { teamId: true, userId: true, level: true },
+          },
         },
       });
 
@@ -667,7 +888,11 @@ export const templateCoreRouter = router({
           template.organizationId
         );
 
-        if (!isMember) {
+        const permission = isMember
+          ? await getTemplatePermission(ctx.db, ctx.session.user.id, template)
+          : null;
+
+        if (!permission) {
           throw new TRPCError({
             code: "FORBIDDEN",
             message: "You do not have access to this template",
@@ -675,6 +900,12 @@ export const templateCoreRouter = router({
         }
       }
 
+      // Copies within the workspace keep the source's access restrictions
+      const isSameOrganization = targetOrganizationId === template.organizationId;
+      const grants = isSameOrganization
+        ? buildDuplicateGrants(template, template.permissions, ctx.session.user.id)
+        : [];
+
       // Create duplicated template
       const duplicatedTemplate = await ctx.db.template.create({
         data: {
@@ -686,12 +917,27 @@ export const templateCoreRouter = router({
           status: template.status,
           isPublic: false, // Duplicates are private by default
           isFavorite: false, // Don't copy favorite status
+          // Copies within the workspace stay with the owning team
+          teamId: isSameOrganization ? template.teamId : null,
           reactEmailCode: template.reactEmailCode,
           styleType: template.styleType,
           styleDefinitions: template.styleDefinitions as any,
           htmlCode: template.htmlCode,
           tableHtmlCode: template.tableHtmlCode,
+          thumbnailUrl: template.thumbnailUrl,
+          thumbnailUpdatedAt: template.thumbnailUpdatedAt,
           previewText: template.previewText,
+          variables: template.variables ?? undefined,
+          previewDataSets: template.previewDataSets ?? undefined,
+          defaultLocale: template.defaultLocale,
+          permissions: grants.length
+            ? {
+                create: grants.map((grant) => ({
+                  ...grant,
+                  grantedById: ctx.session.user.id,
+                })),
+              }
+            : undefined,
         },
       });
 
@@ -710,6 +956,7 @@ export const templateCoreRouter = router({
             htmlCode: template.currentVersion.htmlCode,
             tableHtmlCode: template.currentVersion.tableHtmlCode,
             previewText: template.currentVersion.previewText,
+            variables: template.currentVersion.variables ?? undefined,
             metadata: {
               duplicatedFrom: template.id,
               duplicatedAt: new Date().toISOString(),
@@ -734,6 +981,20 @@ export const templateCoreRouter = router({
         });
       }
 
+      // Copy locale string tables
+      if (template.locales.length > 0) {
+        await ctx.db.templateLocale.createMany({
+          data: template.locales.map((locale) => ({
+            templateId: duplicatedTemplate.id,
+            locale: locale.locale,
+            strings: locale.strings ?? {},
+            subject: locale.subject,
+            previewText: locale.previewText,
+            translatedAt: locale.translatedAt,
+          })),
+        });
+      }
+
       // Copy image assets with source metadata
       if (template.imageAssets && template.imageAssets.length > 0) {
         const imagesToCreate = template.imageAssets.map((img) => ({
@@ -769,10 +1030,10 @@ export const templateCoreRouter = router({
     }),
 
   /**
-   * Delete a template (soft delete)
+   * Delete a template (soft delete, owners/admins of the active organization)
    * Note: Template deletion is blocked during trial period
    */
-  delete: protectedProcedure
+  delete: adminProcedure
     .input(
       z.object({
         id: z.string(),
@@ -780,7 +1041,7 @@ export const templateCoreRouter = router({
     )
     .mutation(async ({ ctx, input }) => {
       // Check if user is in trial - templates cannot be deleted during trial
-      const trial = await getActiveTrial(ctx.session.user.id);
+      const trial = await getActiveTrial(ctx.session!.user.id);
       
       if (trial) {
         throw new TRPCError({
@@ -795,7 +1056,19 @@ export const templateCoreRouter = router({
       }
 
       // Verify access
-      await verifyTemplateAccess(ctx.db, ctx.session.user.id, input.id);
+      const template = await verifyTemplateAccess<{ organizationId: string }>(
+        ctx.db,
+        ctx.session!.user.id,
+        input.id,
+        { permission: "publish" }
+      );
+
+      if (template.organizationId !== ctx.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Switch to this template's organization to delete it",
+        });
+      }
 
       await ctx.db.template.update({
         where: { id: input.id },
@@ -0,0 +1,269 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { PutObjectCommand } from "@aws-sdk/client-s3";
+import type { TemplateReviewState } from "@mocah/db";
+import { protectedProcedure, router } from "../index";
+import {
+  parseTemplateVariables,
+  renderTemplateHtml,
+  verifyTemplateAccess,
+} from "../lib/template-helpers";
+import { getAllowedExportFormats } from "../lib/usage-tracking";
+import { assertTemplateApproved } from "../lib/template-review";
+import { buildTableHtml } from "../lib/table-html";
+import { getTemplateDesignTokens } from "../lib/brand-kits";
+import { localizeTemplate } from "../lib/template-locales";
+import { reuploadExternalImageToCdn } from "../lib/utils";
+import {
+  s3Client,
+  TIGRIS_BUCKET,
+  generateStoragePath,
+  getPublicUrl,
+} from "../lib/s3";
+import {
+  EXPORTABLE_FORMATS,
+  EXPORT_FORMAT_LABELS,
+  buildExportArtifact,
+  collectImageUrls,
+} from "../lib/template-export";
+import { localeCodeSchema, logger } from "@mocah/shared";
+
+// Cap on images re-hosted per export to bound request time
+const MAX_HOSTED_IMAGES = 30;
+
+export const templateExportRouter = router({
+  /**
+   * List export formats and whether the user's plan allows each one
+   */
+  formats: protectedProcedure.query(async ({ ctx }) => {
+    const allowed = new Set(await getAllowedExportFormats(ctx.session.user.id));
+
+    return EXPORTABLE_FORMATS.map((format) => ({
+      format,
+      label: EXPORT_FORMAT_LABELS[format],
+      allowed: allowed.has(format),
+    }));
+  }),
+
+  /**
+   * List recent exports for a template
+   */
+  list: protectedProcedure
+    .input(
+      z.object({
+        templateId: z.string(),
+        limit: z.number().min(1).max(50).default(10),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      await verifyTemplateAccess(ctx.db, ctx.session.user.id, input.templateId);
+
+      return ctx.db.export.findMany({
+        where: { templateId: input.templateId },
+        orderBy: { createdAt: "desc" },
+        take: input.limit,
+      });
+    }),
+
+  /**
+   * Export a template in the requested format
+   * Builds the artifact, uploads it to S3 and records an Export row.
+   * `locale` exports one of the template's translations.
+   */
+  create: protectedProcedure
+    .input(
+      z.object({
+        templateId: z.string(),
+        format: z.enum(EXPORTABLE_FORMATS),
+        locale: localeCodeSchema.optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+
+      // 1. Verify access
+      const stored = await verifyTemplateAccess<{
+        id: string;
+        organizationId: string;
+        brandKitId: string | null;
+        name: string;
+        subject: string | null;
+        previewText: string | null;
+        reactEmailCode: string | null;
+        styleType: string;
+        styleDefinitions: unknown;
+        htmlCode: string | null;
+        variables: unknown;
+        defaultLocale: string;
+        reviewState: TemplateReviewState;
+      }>(ctx.db, userId, input.templateId, { permission: "publish" });
+
+      assertTemplateApproved(stored, "exporting");
+      const template = await localizeTemplate(ctx.db, stored, input.locale);
+
+      // 2. Gate by plan
+      const allowedFormats = await getAllowedExportFormats(userId);
+      if (!allowedFormats.includes(input.format)) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: `${EXPORT_FORMAT_LABELS[input.format]} export is not available on your plan. Please upgrade to unlock it.`,
+        });
+      }
+
+      // 3. Render on the server and make sure every image is hosted on our CDN
+      const renderedHtml = await renderTemplateHtml(
+        template,
+        await getTemplateDesignTokens(ctx.db, template)
+      );
+      if (!renderedHtml) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Template has no content yet. Save the template before exporting.",
+        });
+      }
+
+      const htmlCode = await hostTemplateImages(renderedHtml, userId);
+      const tableHtmlCode = buildTableHtml(htmlCode);
+      if (!tableHtmlCode) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to prepare email-safe HTML for export",
+        });
+      }
+
+      // 4. Build artifact
+      const artifact = buildExportArtifact(
+        {
+          id: template.id,
+          name: template.name,
+          subject: template.subject,
+          previewText: template.previewText,
+          reactEmailCode: template.reactEmailCode,
+          styleType: template.styleType,
+          styleDefinitions: template.styleDefinitions,
+          htmlCode,
+          tableHtmlCode,
+          imageUrls: collectImageUrls(htmlCode),
+          variables: parseTemplateVariables(template.variables),
+        },
+        input.format
+      );
+
+      // 5. Upload to S3
+      const storageKey = generateStoragePath(artifact.fileName, `exports/${template.id}`);
+      try {
+        await s3Client.send(
+          new PutObjectCommand({
+            Bucket: TIGRIS_BUCKET,
+            Key: storageKey,
+            Body: artifact.body,
+            ContentType: artifact.contentType,
+            ContentDisposition: `attachment; filename="${artifact.fileName}"`,
+            Metadata: {
+              "user-id": userId,
+              "template-id": template.id,
+              "export-format": input.format,
+            },
+            ServerSideEncryption: "AES256",
+          })
+        );
+      } catch (error) {
+        logger.error("❌ [Export] Upload failed", {
+          templateId: template.id,
+          format: input.format,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to upload export file",
+        });
+      }
+
+      // 6. Record export
+      const exportRecord = await ctx.db.export.create({
+        data: {
+          templateId: template.id,
+          format: input.format,
+          fileUrl: getPublicUrl(storageKey),
+          fileSize: artifact.body.byteLength,
+          metadata: {
+            fileName: artifact.fileName,
+            contentType: artifact.contentType,
+            createdBy: userId,
+            ...(input.locale && { locale: input.locale }),
+            ...artifact.metadata,
+          },
+        },
+      });
+
+      logger.info("📤 [Export] Template exported", {
+        templateId: template.id,
+        exportId: exportRecord.id,
+        format: input.format,
+        fileSize: exportRecord.fileSize,
+      });
+
+      return exportRecord;
+    }),
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Re-host external and inline (data URI) images on our CDN and rewrite the HTML
+ * Images that fail to re-host keep their original URL.
+ */
+async function hostTemplateImages(html: string, userId: string): Promise<string> {
+  const sources = [
+    ...new Set(
+      [...html.matchAll(/<img\b[^>]*?\bsrc="([^"]+)"/gi)].map((match) => match[1]!)
+    ),
+  ].slice(0, MAX_HOSTED_IMAGES);
+
+  let hosted = html;
+  for (const source of sources) {
+    let url = source;
+
+    if (source.startsWith("data:")) {
+      url = (await uploadDataUri(source, userId)) ?? source;
+    } else if (/^https?:\/\//i.test(source)) {
+      url = (await reuploadExternalImageToCdn(source, { type: "image", userId })).url;
+    }
+
+    if (url !== source) {
+      hosted = hosted.split(source).join(url);
+    }
+  }
+
+  return hosted;
+}
+
+async function uploadDataUri(dataUri: string, userId: string): Promise<string | null> {
+  const match = dataUri.match(/^data:(image\/[a-z+.-]+);base64,(.+)$/i);
+  if (!match) return null;
+
+  const contentType = match[1]!.toLowerCase();
+  const extension = contentType.split("/")[1]!.replace("svg+xml", "svg").replace("jpeg", "jpg");
+  const key = generateStoragePath(`inline-image.${extension}`, "images");
+
+  try {
+    await s3Client.send(
+      new PutObjectCommand({
+        Bucket: TIGRIS_BUCKET,
+        Key: key,
+        Body: Buffer.from(match[2]!, "base64"),
+        ContentType: contentType,
+        Metadata: { "user-id": userId },
+        ServerSideEncryption: "AES256",
+      })
+    );
+    return getPublicUrl(key);
+  } catch (error) {
+    logger.warn("⚠️ [Export] Failed to host inline image", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
@@ -1,12 +1,124 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
+import type { PrismaClient } from "@mocah/db";
+import { logger } from "@mocah/shared";
+import { COLOR_FAMILIES } from "@mocah/shared/constants";
+import { stripElementIds } from "@mocah/shared/element-ids";
 import { protectedProcedure, publicProcedure, router } from "../index";
+import { organizationProcedure } from "../middleware";
 import { generateTemplateScreenshot } from "../lib/screenshot";
 import {
   checkPublisherPermission,
+  createInitialVersion,
+  renderTemplateHtml,
+  validateAndRepairCode,
   verifyTemplateAccess,
   verifyLibraryEntryOwnership,
 } from "../lib/template-helpers";
+import { assignElementIds } from "../lib/element-ids";
+import { buildTableHtml } from "../lib/table-html";
+import { getTemplateDesignTokens } from "../lib/brand-kits";
+import { scheduleTemplateThumbnail } from "../lib/template-thumbnails";
+import { checkUsageLimit, incrementUsage, UsageLimitError } from "../lib/usage-tracking";
+import {
+  getColorFamilies,
+  searchLibrary,
+  type LibrarySearchFilters,
+} from "../lib/library-search";
+import {
+  applyBrandKit,
+  detectTemplatePalette,
+  mergeStyleDefinitions,
+  mergeTemplateCode,
+  parseStyleDefinitions,
+} from "../lib/workspace-library";
+import { snapshotAndUpdateTemplate } from "./template-versions";
+import { assertTemplateApproved } from "../lib/template-review";
+
+const INSTALL_BRAND_KIT_SELECT = {
+  id: true,
+  primaryColor: true,
+  accentColor: true,
+  fontFamily: true,
+  logo: true,
+} as const;
+
+/**
+ * Workspace BrandKit fields applied to installed library templates
+ * The template's own brand when it has one, otherwise the workspace default.
+ */
+async function getInstallBrandKit(
+  db: PrismaClient,
+  organizationId: string,
+  brandKitId?: string | null
+) {
+  if (brandKitId) {
+    const brandKit = await db.brandKit.findFirst({
+      where: { id: brandKitId, organizationId, deletedAt: null },
+      select: INSTALL_BRAND_KIT_SELECT,
+    });
+    if (brandKit) return brandKit;
+  }
+
+  const organization = await db.organization.findUnique({
+    where: { id: organizationId },
+    select: { brandKit: { select: INSTALL_BRAND_KIT_SELECT } },
+  });
+  return organization?.brandKit ?? null;
+}
+
+/**
+ * An install has a pending update when the library content changed after
+ * its last sync and the notice wasn't dismissed for that change
+ */
+function hasPendingUpdate(install: {
+  syncedAt: Date;
+  dismissedUpdateAt: Date | null;
+  templateLibrary: { contentUpdatedAt: Date; deletedAt: Date | null };
+}): boolean {
+  const { contentUpdatedAt, deletedAt } = install.templateLibrary;
+  if (deletedAt || contentUpdatedAt <= install.syncedAt) return false;
+  return !install.dismissedUpdateAt || install.dismissedUpdateAt < contentUpdatedAt;
+}
+
+/**
+ * Validate library code for saving into a workspace template and give its
+ * elements ids, reusing those of the code it replaces
+ */
+function prepareLibraryCode(code: string, previousCode?: string | null): string {
+  const validation = validateAndRepairCode(code);
+  if (!validation.isValid) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Library template code is invalid: ${validation.errors?.[0] ?? "unknown error"}`,
+    });
+  }
+
+  return assignElementIds(validation.code, previousCode).code;
+}
+
+/**
+ * Replace a library entry's category relations with the given slugs
+ * Unknown or deleted categories are skipped.
+ */
+async function setLibraryCategories(
+  db: PrismaClient,
+  templateLibraryId: string,
+  slugs: string[]
+) {
+  const categories = await db.templateCategory.findMany({
+    where: { slug: { in: slugs }, deletedAt: null },
+    select: { id: true },
+  });
+
+  await db.$transaction([
+    db.templateLibraryCategoryRelation.deleteMany({ where: { templateLibraryId } }),
+    db.templateLibraryCategoryRelation.createMany({
+      data: categories.map((category) => ({ templateLibraryId, categoryId: category.id })),
+      skipDuplicates: true,
+    }),
+  ]);
+}
 
 export const templateLibraryRouter = router({
   /**
@@ -226,50 +338,38 @@ export const templateLibraryRouter = router({
     }),
 
   /**
-   * Get library templates with search and filter
+   * Get library templates with full-text search, faceted filters and facet counts
    */
   getTemplates: publicProcedure
     .input(
       z.object({
         search: z.string().optional(),
-        categorySlug: z.string().optional(),
+        categories: z.array(z.string()).optional(),
+        categorySlug: z.string().optional(), // Single category (older clients)
         tags: z.array(z.string()).optional(),
+        industries: z.array(z.string()).optional(),
+        colors: z.array(z.enum(COLOR_FAMILIES)).optional(),
+        isPremium: z.boolean().optional(),
         limit: z.number().min(1).max(100).optional().default(20),
-        cursor: z.string().optional(),
+        cursor: z.string().optional(), // Id of the last entry of the previous page
       })
     )
     .query(async ({ ctx, input }) => {
-      const where: any = {
-        deletedAt: null,
+      const filters: LibrarySearchFilters = {
+        categories: [
+          ...(input.categories ?? []),
+          ...(input.categorySlug ? [input.categorySlug] : []),
+        ],
+        tags: input.tags,
+        industries: input.industries,
+        colors: input.colors,
+        isPremium: input.isPremium,
       };
 
-      // Search filter
-      if (input.search) {
-        where.OR = [
-          { name: { contains: input.search, mode: "insensitive" } },
-          { description: { contains: input.search, mode: "insensitive" } },
-        ];
-      }
-
-      // Category filter
-      if (input.categorySlug) {
-        where.category = input.categorySlug;
-      }
-
-      // Tags filter
-      if (input.tags && input.tags.length > 0) {
-        where.tags = {
-          hasSome: input.tags,
-        };
-      }
+      const { ids, nextCursor, total, facets } = await searchLibrary(ctx.db, filters, input);
 
       const templates = await ctx.db.templateLibrary.findMany({
-        where,
-        take: input.limit + 1,
-        cursor: input.cursor ? { id: input.cursor } : undefined,
-        orderBy: {
-          createdAt: "desc",
-        },
+        where: { id: { in: ids } },
         select: {
           id: true,
           templateId: true,
@@ -281,20 +381,19 @@ export const templateLibraryRouter = router({
           htmlCode: true,
           isPremium: true,
           tags: true,
+          industry: true,
+          colorPalette: true,
           previewText: true,
           createdAt: true,
         },
       });
-
-      let nextCursor: string | undefined = undefined;
-      if (templates.length > input.limit) {
-        const nextItem = templates.pop();
-        nextCursor = nextItem?.id;
-      }
+      const byId = new Map(templates.map((template) => [template.id, template]));
 
       return {
-        items: templates,
+        items: ids.map((id) => byId.get(id)).filter((template) => !!template),
         nextCursor,
+        total,
+        facets,
       };
     }),
 
@@ -343,6 +442,8 @@ export const templateLibraryRouter = router({
       z.object({
         id: z.string(),
         category: z.string().optional(),
+        categories: z.array(z.string()).optional(), // First one becomes the primary category
+        industry: z.string().optional(),
         tags: z.array(z.string()).optional(),
         isPremium: z.boolean().optional(),
       })
@@ -360,17 +461,31 @@ export const templateLibraryRouter = router({
       const template = await verifyTemplateAccess(
         ctx.db,
         ctx.session.user.id,
-        input.id
+        input.id,
+        { permission: "publish" }
+      );
+
+      assertTemplateApproved(template, "publishing to the library");
+
+      // Render on the server; the stored HTML is a browser-computed cache
+      const htmlCode = await renderTemplateHtml(
+        template,
+        await getTemplateDesignTokens(ctx.db, template)
       );
 
       // Generate thumbnail screenshot
-      const thumbnailUrl = template.htmlCode
+      const thumbnailUrl = htmlCode
         ? await generateTemplateScreenshot({
             templateId: template.id,
-            htmlCode: template.htmlCode,
+            htmlCode,
           })
         : null;
 
+      const categorySlugs =
+        input.categories ?? [input.category || template.category].filter((slug) => !!slug);
+
+      const colorPalette = detectTemplatePalette(template);
+
       // Create or update library template
       const libraryTemplate = await ctx.db.templateLibrary.create({
         data: {
@@ -378,18 +493,23 @@ export const templateLibraryRouter = router({
           name: template.name,
           description: template.description,
           subject: template.subject,
-          category: input.category || template.category,
+          category: categorySlugs[0] ?? null,
           tags: input.tags || [],
+          industry: input.industry?.trim() || null,
+          colorPalette,
+          colorFamilies: getColorFamilies(colorPalette),
           isPremium: input.isPremium || false,
           thumbnail: thumbnailUrl, // Add generated thumbnail
           reactEmailCode: template.reactEmailCode,
-          htmlCode: template.htmlCode, // Save HTML for preview (fallback)
+          htmlCode, // Save HTML for preview (fallback)
           styleType: template.styleType,
           styleDefinitions: template.styleDefinitions as any,
           previewText: template.previewText,
         },
       });
 
+      await setLibraryCategories(ctx.db, libraryTemplate.id, categorySlugs);
+
       return libraryTemplate;
     }),
 
@@ -450,6 +570,9 @@ export const templateLibraryRouter = router({
         where,
         orderBy,
         include: {
+          categories: {
+            select: { category: { select: { slug: true } } },
+          },
           sourceTemplate: {
             select: {
               id: true,
@@ -510,6 +633,8 @@ export const templateLibraryRouter = router({
         description: z.string().optional(),
         subject: z.string().optional(),
         category: z.string().optional(),
+        categories: z.array(z.string()).optional(), // First one becomes the primary category
+        industry: z.string().nullable().optional(),
         tags: z.array(z.string()).optional(),
         isPremium: z.boolean().optional(),
         regenerateThumbnail: z.boolean().optional(),
@@ -525,13 +650,22 @@ export const templateLibraryRouter = router({
 
       // Regenerate thumbnail if requested
       let thumbnailUrl = libraryEntry.thumbnail;
-      if (input.regenerateThumbnail && libraryEntry.htmlCode) {
-        thumbnailUrl = await generateTemplateScreenshot({
-          templateId: libraryEntry.sourceTemplate!.id,
-          htmlCode: libraryEntry.htmlCode,
-        });
+      if (input.regenerateThumbnail) {
+        const htmlCode = await renderTemplateHtml(
+          libraryEntry,
+          await getTemplateDesignTokens(ctx.db, libraryEntry.sourceTemplate!)
+        );
+        if (htmlCode) {
+          thumbnailUrl = await generateTemplateScreenshot({
+            templateId: libraryEntry.sourceTemplate!.id,
+            htmlCode,
+          });
+        }
       }
 
+      const categorySlugs =
+        input.categories ?? (input.category !== undefined ? [input.category] : undefined);
+
       // Update library entry
       const updated = await ctx.db.templateLibrary.update({
         where: { id: input.libraryId },
@@ -539,13 +673,18 @@ export const templateLibraryRouter = router({
           name: input.name,
           description: input.description,
           subject: input.subject,
-          category: input.category,
+          category: categorySlugs ? (categorySlugs[0] ?? null) : undefined,
+          industry: input.industry === undefined ? undefined : input.industry?.trim() || null,
           tags: input.tags,
           isPremium: input.isPremium,
           thumbnail: thumbnailUrl,
         },
       });
 
+      if (categorySlugs) {
+        await setLibraryCategories(ctx.db, input.libraryId, categorySlugs);
+      }
+
       return updated;
     }),
 
@@ -568,34 +707,50 @@ export const templateLibraryRouter = router({
 
       const sourceTemplate = libraryEntry.sourceTemplate!;
 
+      const htmlCode = await renderTemplateHtml(
+        sourceTemplate,
+        await getTemplateDesignTokens(ctx.db, sourceTemplate)
+      );
+
       // Generate new thumbnail
-      const thumbnailUrl = sourceTemplate.htmlCode
+      const thumbnailUrl = htmlCode
         ? await generateTemplateScreenshot({
             templateId: sourceTemplate.id,
-            htmlCode: sourceTemplate.htmlCode,
+            htmlCode,
           })
         : libraryEntry.thumbnail;
 
+      const colorPalette = detectTemplatePalette(sourceTemplate);
+
       // Update library entry with source template data
       const updated = await ctx.db.templateLibrary.update({
         where: { id: input.libraryId },
         data: {
           reactEmailCode: sourceTemplate.reactEmailCode,
-          htmlCode: sourceTemplate.htmlCode,
+          htmlCode,
           styleType: sourceTemplate.styleType,
           styleDefinitions: sourceTemplate.styleDefinitions as any,
           previewText: sourceTemplate.previewText,
+          colorPalette,
+          colorFamilies: getColorFamilies(colorPalette),
           thumbnail: thumbnailUrl,
+          // Installed copies compare against this to offer the update
+          contentUpdatedAt: new Date(),
           // Note: We don't update name/description/category automatically
           // User can update those separately via updateLibraryEntry
         },
       });
 
+      const installsNotified = await ctx.db.workspaceTemplateLibrary.count({
+        where: { templateLibraryId: input.libraryId, templateId: { not: null } },
+      });
+
       return {
         updated,
         changes: {
           codeUpdated: true,
           thumbnailRegenerated: !!thumbnailUrl,
+          installsNotified,
         },
       };
     }),
@@ -658,5 +813,363 @@ export const templateLibraryRouter = router({
         remixCount: libraryEntry._count.customizations,
       };
     }),
-});
 
+  // ==========================================================================
+  // Workspace installs
+  // ==========================================================================
+
+  /**
+   * Install a library template into the active workspace
+   * Creates a template branded with the workspace BrandKit and links it to the
+   * library entry so upstream updates can be merged later. Installing an entry
+   * the workspace already has returns the existing template.
+   */
+  install: organizationProcedure
+    .input(
+      z.object({
+        libraryId: z.string(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session!.user.id;
+
+      const entry = await ctx.db.templateLibrary.findFirst({
+        where: { id: input.libraryId, deletedAt: null },
+      });
+
+      if (!entry) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Library template not found",
+        });
+      }
+
+      const existing = await ctx.db.workspaceTemplateLibrary.findUnique({
+        where: {
+          organizationId_templateLibraryId: {
+            organizationId: ctx.organizationId,
+            templateLibraryId: entry.id,
+          },
+        },
+        select: { template: { select: { id: true, deletedAt: true } } },
+      });
+
+      if (existing?.template && !existing.template.deletedAt) {
+        return { templateId: existing.template.id, alreadyInstalled: true, brandApplied: [] };
+      }
+
+      // Same gate as remixing a library template
+      const usageCheck = await checkUsageLimit(userId, "templateGeneration");
+      if (!usageCheck.allowed) {
+        throw new UsageLimitError({
+          code: usageCheck.isTrialUser ? "TRIAL_LIMIT_REACHED" : "QUOTA_EXCEEDED",
+          remaining: usageCheck.remaining,
+          limit: usageCheck.limit,
+          resetDate: usageCheck.resetDate,
+        });
+      }
+
+      const brandKit = await getInstallBrandKit(ctx.db, ctx.organizationId);
+      const branded = applyBrandKit(entry, brandKit);
+      const reactEmailCode = prepareLibraryCode(branded.reactEmailCode);
+
+      const htmlCode = await renderTemplateHtml(
+        {
+          reactEmailCode,
+          htmlCode: entry.htmlCode,
+        },
+        await getTemplateDesignTokens(ctx.db, {
+          organizationId: ctx.organizationId,
+          brandKitId: brandKit?.id ?? null,
+        })
+      );
+      const tableHtmlCode = buildTableHtml(htmlCode);
+
+      const template = await ctx.db.template.create({
+        data: {
+          organizationId: ctx.organizationId,
+          brandKitId: brandKit?.id ?? null,
+          name: entry.name,
+          description: entry.description,
+          subject: entry.subject,
+          category: entry.category,
+          status: "ACTIVE",
+          reactEmailCode,
+          htmlCode,
+          tableHtmlCode,
+          styleType: entry.styleType,
+          styleDefinitions: branded.styleDefinitions as any,
+          previewText: entry.previewText,
+        },
+      });
+
+      // Increment usage after successful install, like a remix
+      await incrementUsage(userId, "templateGeneration");
+
+      await createInitialVersion(
+        ctx.db,
+        {
+          templateId: template.id,
+          version: 1,
+          name: "V1",
+          subject: entry.subject,
+          reactEmailCode,
+          styleType: entry.styleType,
+          styleDefinitions: branded.styleDefinitions,
+          previewText: entry.previewText,
+          htmlCode,
+          tableHtmlCode,
+          metadata: {
+            installedFromLibrary: entry.id,
+            installedAt: new Date().toISOString(),
+            brandApplied: branded.applied,
+          },
+        },
+        userId
+      );
+
+      // Re-installing after the previous copy was deleted relinks the row.
+      // The base keeps the element ids, so an unedited copy matches it exactly.
+      const link = {
+        templateId: template.id,
+        installedById: userId,
+        customReactEmailCode: reactEmailCode,
+        customStyleDefinitions: branded.styleDefinitions as any,
+        isCustomized: false,
+        syncedAt: entry.contentUpdatedAt,
+        dismissedUpdateAt: null,
+      };
+      await ctx.db.workspaceTemplateLibrary.upsert({
+        where: {
+          organizationId_templateLibraryId: {
+            organizationId: ctx.organizationId,
+            templateLibraryId: entry.id,
+          },
+        },
+        create: { organizationId: ctx.organizationId, templateLibraryId: entry.id, ...link },
+        update: link,
+      });
+
+      scheduleTemplateThumbnail(ctx.db, template.id);
+
+      logger.info("📥 [Library] Template installed", {
+        libraryId: entry.id,
+        templateId: template.id,
+        organizationId: ctx.organizationId,
+        brandApplied: branded.applied,
+      });
+
+      return { templateId: template.id, alreadyInstalled: false, brandApplied: branded.applied };
+    }),
+
+  /**
+   * Library templates installed in the active workspace, with update status
+   */
+  getInstallations: organizationProcedure.query(async ({ ctx }) => {
+    const installs = await ctx.db.workspaceTemplateLibrary.findMany({
+      where: {
+        organizationId: ctx.organizationId,
+        template: { deletedAt: null },
+      },
+      orderBy: { createdAt: "desc" },
+      select: {
+        id: true,
+        syncedAt: true,
+        dismissedUpdateAt: true,
+        isCustomized: true,
+        template: { select: { id: true, name: true } },
+        templateLibrary: {
+          select: { id: true, name: true, thumbnail: true, contentUpdatedAt: true, deletedAt: true },
+        },
+      },
+    });
+
+    return installs.map((install) => ({
+      ...install,
+      updateAvailable: hasPendingUpdate(install),
+    }));
+  }),
+
+  /**
+   * Library link for a template, if it was installed from the library
+   */
+  getInstallForTemplate: protectedProcedure
+    .input(
+      z.object({
+        templateId: z.string(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const template = await verifyTemplateAccess<{ reactEmailCode: string | null }>(
+        ctx.db,
+        ctx.session.user.id,
+        input.templateId
+      );
+
+      const install = await ctx.db.workspaceTemplateLibrary.findUnique({
+        where: { templateId: input.templateId },
+        select: {
+          id: true,
+          syncedAt: true,
+          dismissedUpdateAt: true,
+          customReactEmailCode: true,
+          templateLibrary: {
+            select: { id: true, name: true, contentUpdatedAt: true, deletedAt: true },
+          },
+        },
+      });
+
+      if (!install) return null;
+
+      const { customReactEmailCode, ...rest } = install;
+      return {
+        ...rest,
+        updateAvailable: hasPendingUpdate(install),
+        // Installs from before element ids were kept in the base differ only by ids
+        hasLocalEdits:
+          stripElementIds(template.reactEmailCode ?? "") !== stripElementIds(customReactEmailCode ?? ""),
+      };
+    }),
+
+  /**
+   * Bring the latest library version into an installed template
+   * "merge" keeps local edits (three-way against the copy it was installed
+   * from); "replace" discards them. The current state is snapshotted first.
+   */
+  applyUpstreamUpdate: protectedProcedure
+    .input(
+      z.object({
+        installId: z.string(),
+        strategy: z.enum(["merge", "replace"]).default("merge"),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const install = await ctx.db.workspaceTemplateLibrary.findUnique({
+        where: { id: input.installId },
+        include: { templateLibrary: true },
+      });
+
+      if (!install?.templateId || install.templateLibrary.deletedAt) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Installed library template not found",
+        });
+      }
+
+      const template = await verifyTemplateAccess<{
+        id: string;
+        organizationId: string;
+        brandKitId: string | null;
+        reactEmailCode: string | null;
+        styleDefinitions: unknown;
+      }>(ctx.db, ctx.session.user.id, install.templateId, { permission: "edit", editable: true });
+
+      const brandKit = await getInstallBrandKit(ctx.db, template.organizationId, template.brandKitId);
+      const upstream = applyBrandKit(install.templateLibrary, brandKit);
+
+      let mergedCode = upstream.reactEmailCode;
+      let styleDefinitions = upstream.styleDefinitions;
+      let conflicts = 0;
+
+      if (input.strategy === "merge") {
+        // Element ids differ on every element line; merge the code without them
+        const code = mergeTemplateCode(
+          stripElementIds(install.customReactEmailCode ?? ""),
+          stripElementIds(template.reactEmailCode ?? ""),
+          stripElementIds(upstream.reactEmailCode)
+        );
+        const styles = mergeStyleDefinitions(
+          parseStyleDefinitions(install.customStyleDefinitions),
+          parseStyleDefinitions(template.styleDefinitions),
+          upstream.styleDefinitions
+        );
+        mergedCode = code.merged;
+        styleDefinitions = styles.merged;
+        conflicts = code.conflicts + styles.conflicts;
+      }
+
+      // Elements that survived the update keep their ids (and comment threads)
+      const reactEmailCode = prepareLibraryCode(stripElementIds(mergedCode), template.reactEmailCode);
+
+      // Throws BAD_REQUEST before anything is written if the merge doesn't render
+      const htmlCode = await renderTemplateHtml(
+        { reactEmailCode },
+        await getTemplateDesignTokens(ctx.db, template)
+      );
+
+      const { template: updated } = await snapshotAndUpdateTemplate(
+        ctx.db,
+        ctx.session.user.id,
+        template.id,
+        {
+          changeNote: `Auto-save before library update (${input.strategy})`,
+          source: "pre_library_merge",
+        },
+        {
+          reactEmailCode,
+          styleDefinitions: styleDefinitions as any,
+          htmlCode,
+          tableHtmlCode: buildTableHtml(htmlCode),
+        }
+      );
+
+      // The new base shares the saved code's ids, so untouched elements compare equal
+      const base = assignElementIds(stripElementIds(upstream.reactEmailCode), reactEmailCode).code;
+
+      await ctx.db.workspaceTemplateLibrary.update({
+        where: { id: install.id },
+        data: {
+          customReactEmailCode: base,
+          customStyleDefinitions: upstream.styleDefinitions as any,
+          isCustomized: reactEmailCode !== base,
+          syncedAt: install.templateLibrary.contentUpdatedAt,
+          dismissedUpdateAt: null,
+        },
+      });
+
+      scheduleTemplateThumbnail(ctx.db, template.id);
+
+      logger.info("🔀 [Library] Upstream update applied", {
+        installId: install.id,
+        templateId: template.id,
+        strategy: input.strategy,
+        conflicts,
+      });
+
+      return { template: updated, strategy: input.strategy, conflicts };
+    }),
+
+  /**
+   * Hide the update notice until the library entry changes again
+   */
+  dismissUpstreamUpdate: protectedProcedure
+    .input(
+      z.object({
+        installId: z.string(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const install = await ctx.db.workspaceTemplateLibrary.findUnique({
+        where: { id: input.installId },
+        select: { templateId: true, templateLibrary: { select: { contentUpdatedAt: true } } },
+      });
+
+      if (!install?.templateId) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Installed library template not found",
+        });
+      }
+
+      await verifyTemplateAccess(ctx.db, ctx.session.user.id, install.templateId, {
+        permission: "edit",
+      });
+
+      await ctx.db.workspaceTemplateLibrary.update({
+        where: { id: input.installId },
+        data: { dismissedUpdateAt: install.templateLibrary.contentUpdatedAt },
+      });
+
+      return { success: true };
+    }),
+});
@@ -0,0 +1,346 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../index";
+import { verifyTemplateAccess } from "../lib/template-helpers";
+import { aiClient, DEFAULT_MODEL } from "../lib/ai";
+import { buildTranslationPrompt, translationSchema } from "../lib/prompts";
+import { extractTranslatableStrings, mergeTranslations } from "../lib/template-locales";
+import { getTemplateBrandKit } from "../lib/brand-kits";
+import { checkUsageLimit, incrementUsage, UsageLimitError } from "../lib/usage-tracking";
+import {
+  getLocaleLabel,
+  localeCodeSchema,
+  localeStringsSchema,
+  logger,
+} from "@mocah/shared";
+
+// Strings sent per translation request; the rest are picked up by the next one
+const MAX_TRANSLATABLE_STRINGS = 500;
+
+const LOCALE_SELECT = {
+  id: true,
+  locale: true,
+  strings: true,
+  subject: true,
+  previewText: true,
+  translatedAt: true,
+  updatedAt: true,
+} as const;
+
+export const templateLocalesRouter = router({
+  /**
+   * List a template's locales with their string tables
+   */
+  list: protectedProcedure
+    .input(
+      z.object({
+        templateId: z.string(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const template = await verifyTemplateAccess<{ defaultLocale: string }>(
+        ctx.db,
+        ctx.session.user.id,
+        input.templateId
+      );
+
+      const locales = await ctx.db.templateLocale.findMany({
+        where: { templateId: input.templateId },
+        orderBy: { createdAt: "asc" },
+        select: LOCALE_SELECT,
+      });
+
+      return {
+        defaultLocale: template.defaultLocale,
+        locales: locales.map((locale) => ({
+          ...locale,
+          strings: (locale.strings ?? {}) as Record<string, string>,
+        })),
+      };
+    }),
+
+  /**
+   * Add a locale with an empty string table
+   */
+  add: protectedProcedure
+    .input(
+      z.object({
+        templateId: z.string(),
+        locale: localeCodeSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const template = await verifyTemplateAccess<{ defaultLocale: string }>(
+        ctx.db,
+        ctx.session.user.id,
+        input.templateId,
+        { permission: "edit", editable: true }
+      );
+
+      if (input.locale === template.defaultLocale) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `${getLocaleLabel(input.locale)} is the template's source language`,
+        });
+      }
+
+      const existing = await ctx.db.templateLocale.findUnique({
+        where: { templateId_locale: { templateId: input.templateId, locale: input.locale } },
+        select: { id: true },
+      });
+
+      if (existing) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: `${getLocaleLabel(input.locale)} has already been added`,
+        });
+      }
+
+      return ctx.db.templateLocale.create({
+        data: { templateId: input.templateId, locale: input.locale },
+        select: LOCALE_SELECT,
+      });
+    }),
+
+  /**
+   * Remove a locale and its translations
+   */
+  remove: protectedProcedure
+    .input(
+      z.object({
+        templateId: z.string(),
+        locale: z.string(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await verifyTemplateAccess(ctx.db, ctx.session.user.id, input.templateId, {
+        permission: "edit",
+        editable: true,
+      });
+
+      await ctx.db.templateLocale.deleteMany({
+        where: { templateId: input.templateId, locale: input.locale },
+      });
+
+      return { success: true };
+    }),
+
+  /**
+   * Save manual edits to a locale's strings
+   * Provided keys are merged into the table; empty values remove a translation.
+   */
+  updateStrings: protectedProcedure
+    .input(
+      z.object({
+        templateId: z.string(),
+        locale: z.string(),
+        strings: localeStringsSchema,
+        subject: z.string().max(500).nullish(),
+        previewText: z.string().max(500).nullish(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await verifyTemplateAccess(ctx.db, ctx.session.user.id, input.templateId, {
+        permission: "edit",
+        editable: true,
+      });
+
+      const locale = await ctx.db.templateLocale.findUnique({
+        where: { templateId_locale: { templateId: input.templateId, locale: input.locale } },
+        select: { id: true, strings: true },
+      });
+
+      if (!locale) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Locale not found",
+        });
+      }
+
+      const strings: Record<string, string> = {
+        ...((locale.strings ?? {}) as Record<string, string>),
+      };
+      for (const [key, value] of Object.entries(input.strings)) {
+        if (value.trim()) {
+          strings[key] = value;
+        } else {
+          delete strings[key];
+        }
+      }
+
+      return ctx.db.templateLocale.update({
+        where: { id: locale.id },
+        data: {
+          strings,
+          ...(input.subject !== undefined && { subject: input.subject }),
+          ...(input.previewText !== undefined && { previewText: input.previewText }),
+        },
+        select: LOCALE_SELECT,
+      });
+    }),
+
+  /**
+   * Translate a template's strings into a locale with AI
+   * Source strings come from the saved code. Uses the organization's brand
+   * voice. Only untranslated strings are sent unless `overwrite` is set;
+   * translations of removed copy are dropped.
+   */
+  translate: protectedProcedure
+    .input(
+      z.object({
+        templateId: z.string(),
+        locale: localeCodeSchema,
+        overwrite: z.boolean().default(false),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const template = await verifyTemplateAccess<{
+        id: string;
+        organizationId: string;
+        subject: string | null;
+        previewText: string | null;
+        reactEmailCode: string | null;
+        defaultLocale: string;
+        brandKit: any;
+        organization: { brandKit: any };
+      }>(ctx.db, ctx.session.user.id, input.templateId, {
+        include: { brandKit: true, organization: { select: { brandKit: true } } },
+        permission: "edit",
+        editable: true,
+      });
+
+      if (input.locale === template.defaultLocale) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Cannot translate a template into its source language",
+        });
+      }
+
+      let source: Array<{ key: string; text: string }>;
+      try {
+        source = extractTranslatableStrings(template.reactEmailCode ?? "");
+      } catch {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Template code could not be read. Fix it before translating.",
+        });
+      }
+
+      if (source.length === 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "No text found to translate",
+        });
+      }
+
+      const existing = await ctx.db.templateLocale.findUnique({
+        where: { templateId_locale: { templateId: input.templateId, locale: input.locale } },
+        select: { strings: true, subject: true, previewText: true },
+      });
+      const existingStrings = (existing?.strings ?? {}) as Record<string, string>;
+
+      // 1. Work out what needs translating
+      const pending = (
+        input.overwrite ? source : source.filter((entry) => !existingStrings[entry.key])
+      ).slice(0, MAX_TRANSLATABLE_STRINGS);
+      const translateSubject = !!template.subject && (input.overwrite || !existing?.subject);
+      const translatePreviewText =
+        !!template.previewText && (input.overwrite || !existing?.previewText);
+
+      let translations: Array<{ key: string; text: string }> = [];
+      let subject = existing?.subject ?? null;
+      let previewText = existing?.previewText ?? null;
+
+      // 2. Translate
+      const needsTranslation = pending.length > 0 || translateSubject || translatePreviewText;
+      if (needsTranslation) {
+        const usageCheck = await checkUsageLimit(ctx.session.user.id, "templateGeneration");
+        if (!usageCheck.allowed) {
+          throw new UsageLimitError({
+            code: usageCheck.isTrialUser ? "TRIAL_LIMIT_REACHED" : "QUOTA_EXCEEDED",
+            remaining: usageCheck.remaining,
+            limit: usageCheck.limit,
+            resetDate: usageCheck.resetDate,
+          });
+        }
+
+        const prompt = buildTranslationPrompt(
+          {
+            sourceLanguage: getLocaleLabel(template.defaultLocale),
+            targetLanguage: getLocaleLabel(input.locale),
+            strings: pending,
+            subject: translateSubject ? template.subject : null,
+            previewText: translatePreviewText ? template.previewText : null,
+          },
+          getTemplateBrandKit(template) ?? undefined
+        );
+
+        try {
+          const result = await aiClient.generateStructured(translationSchema, prompt, DEFAULT_MODEL, {
+            schemaName: "TemplateTranslation",
+            schemaDescription: "Translated email strings keyed by source string key",
+            temperature: 0.3,
+            audit: {
+              organizationId: template.organizationId,
+              userId: ctx.session.user.id,
+              operation: "template.translate",
+              type: "text",
+              templateId: input.templateId,
+            },
+          });
+          translations = result.translations;
+          if (translateSubject && result.subject) subject = result.subject;
+          if (translatePreviewText && result.previewText) previewText = result.previewText;
+        } catch (error) {
+          logger.error("❌ [Localization] Translation failed", {
+            templateId: input.templateId,
+            locale: input.locale,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Translation failed. Please try again.",
+          });
+        }
+      }
+
+      // 3. Merge and store
+      const { strings, translatedKeys } = mergeTranslations(source, existingStrings, translations);
+      const skipped = pending.filter((entry) => !translatedKeys.includes(entry.key)).length;
+
+      if (skipped > 0) {
+        logger.warn("⚠️ [Localization] Some strings were not translated", {
+          templateId: input.templateId,
+          locale: input.locale,
+          skipped,
+        });
+      }
+
+      const locale = await ctx.db.templateLocale.upsert({
+        where: { templateId_locale: { templateId: input.templateId, locale: input.locale } },
+        create: {
+          templateId: input.templateId,
+          locale: input.locale,
+          strings,
+          subject,
+          previewText,
+          translatedAt: new Date(),
+        },
+        update: { strings, subject, previewText, translatedAt: new Date() },
+        select: LOCALE_SELECT,
+      });
+
+      // Counted like any other AI generation
+      if (needsTranslation) {
+        await incrementUsage(ctx.session.user.id, "templateGeneration");
+      }
+
+      logger.info("🌐 [Localization] Template translated", {
+        templateId: input.templateId,
+        locale: input.locale,
+        translated: translatedKeys.length,
+      });
+
+      return { locale, translated: translatedKeys.length, skipped };
+    }),
+});
@@ -0,0 +1,372 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import type { TemplateReviewState } from "@mocah/db";
+import { logger } from "@mocah/shared";
+import { protectedProcedure, router } from "../index";
+import { verifyTemplateAccess } from "../lib/template-helpers";
+import { getTemplatePermission, hasPermissionLevel } from "../lib/template-permissions";
+import {
+  LOCKED_REVIEW_STATES,
+  REVIEWABLE_STATES,
+  resolveReviewOutcome,
+} from "../lib/template-review";
+import { expandCompactedVersion } from "../lib/version-retention";
+import { snapshotTemplate } from "./template-versions";
+
+const USER_SELECT = { id: true, name: true, email: true, image: true } as const;
+
+const VERSION_SELECT = { id: true, version: true, name: true } as const;
+
+type ReviewedTemplate = {
+  id: string;
+  organizationId: string;
+  teamId: string | null;
+  reviewState: TemplateReviewState;
+  reactEmailCode: string | null;
+};
+
+/**
+ * Template approval workflow
+ * Requesting a review snapshots the template into a version and locks it;
+ * approval records that version on the template.
+ */
+export const templateReviewRouter = router({
+  /**
+   * Review state, the approved version and recent reviews
+   */
+  get: protectedProcedure
+    .input(z.object({ templateId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const template = await verifyTemplateAccess<
+        ReviewedTemplate & {
+          approvedAt: Date | null;
+          approvedVersion: { id: string; version: number; name: string | null } | null;
+        }
+      >(
+        ctx.db,
+        userId,
+        input.templateId,
+        { include: { approvedVersion: { select: VERSION_SELECT } } }
+      );
+
+      const [reviews, permission] = await Promise.all([
+        ctx.db.templateReview.findMany({
+          where: { templateId: template.id },
+          orderBy: { createdAt: "desc" },
+          take: 10,
+          include: {
+            version: { select: VERSION_SELECT },
+            requestedBy: { select: USER_SELECT },
+            reviewers: {
+              orderBy: { createdAt: "asc" },
+              include: { user: { select: USER_SELECT } },
+            },
+          },
+        }),
+        getTemplatePermission(ctx.db, userId, template),
+      ]);
+
+      const activeReview = reviews.find((review) => review.status === "pending") ?? null;
+
+      return {
+        reviewState: template.reviewState,
+        approvedAt: template.approvedAt,
+        approvedVersion: template.approvedVersion,
+        activeReview,
+        reviews,
+        canEdit: hasPermissionLevel(permission, "edit"),
+        canDecide:
+          !!activeReview &&
+          activeReview.reviewers.some(
+            (reviewer) => reviewer.userId === userId && reviewer.decision === "pending"
+          ),
+      };
+    }),
+
+  /**
+   * Ask specific members to review the current content
+   */
+  request: protectedProcedure
+    .input(
+      z.object({
+        templateId: z.string(),
+        reviewerIds: z.array(z.string()).min(1).max(20),
+        message: z.string().trim().max(2000).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const template = await verifyTemplateAccess<ReviewedTemplate>(
+        ctx.db,
+        userId,
+        input.templateId,
+        { permission: "edit" }
+      );
+
+      if (!REVIEWABLE_STATES.includes(template.reviewState)) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message:
+            template.reviewState === "approved"
+              ? "This template is already approved. Reopen it first."
+              : "This template is already in review",
+        });
+      }
+
+      if (!template.reactEmailCode) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "Generate the template before requesting a review",
+        });
+      }
+
+      const reviewerIds = [...new Set(input.reviewerIds)];
+
+      if (reviewerIds.includes(userId)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "You can't review your own request",
+        });
+      }
+
+      const members = await ctx.db.member.findMany({
+        where: { organizationId: template.organizationId, userId: { in: reviewerIds } },
+        select: { userId: true },
+      });
+
+      if (members.length !== reviewerIds.length) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Reviewers must be members of this workspace",
+        });
+      }
+
+      const permissions = await Promise.all(
+        reviewerIds.map((reviewerId) => getTemplatePermission(ctx.db, reviewerId, template))
+      );
+
+      if (permissions.some((permission) => !hasPermissionLevel(permission, "comment"))) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Every reviewer needs at least comment access to this template",
+        });
+      }
+
+      // The snapshot is what reviewers sign off on
+      const version = await snapshotTemplate(ctx.db, userId, template.id, {
+        name: "Submitted for review",
+        changeNote: input.message,
+        source: "review_request",
+      });
+
+      const [review] = await ctx.db.$transaction([
+        ctx.db.templateReview.create({
+          data: {
+            templateId: template.id,
+            versionId: version.id,
+            message: input.message || null,
+            requestedById: userId,
+            reviewers: {
+              create: reviewerIds.map((reviewerId) => ({ userId: reviewerId })),
+            },
+          },
+        }),
+        ctx.db.template.update({
+          where: { id: template.id },
+          data: { reviewState: "in_review" },
+        }),
+      ]);
+
+      logger.info("📝 [Template] Review requested:", {
+        templateId: template.id,
+        reviewId: review.id,
+        versionId: version.id,
+        reviewers: reviewerIds.length,
+      });
+
+      return review;
+    }),
+
+  /**
+   * Approve or reject as one of the requested reviewers
+   */
+  decide: protectedProcedure
+    .input(
+      z
+        .object({
+          reviewId: z.string(),
+          decision: z.enum(["approved", "rejected"]),
+          comment: z.string().trim().max(2000).optional(),
+        })
+        .refine((input) => input.decision === "approved" || !!input.comment, {
+          message: "Add a comment explaining what needs to change",
+          path: ["comment"],
+        })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const review = await ctx.db.templateReview.findUnique({
+        where: { id: input.reviewId },
+        include: { reviewers: true },
+      });
+
+      if (!review) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Review not found",
+        });
+      }
+
+      await verifyTemplateAccess(ctx.db, userId, review.templateId, { permission: "comment" });
+
+      if (review.status !== "pending") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "This review is closed",
+        });
+      }
+
+      const reviewer = review.reviewers.find((r) => r.userId === userId);
+
+      if (!reviewer) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "You're not a reviewer on this request",
+        });
+      }
+
+      if (reviewer.decision !== "pending") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "You've already responded to this review",
+        });
+      }
+
+      const now = new Date();
+
+      const outcome = await ctx.db.$transaction(async (tx) => {
+        // Touching the review locks it, so concurrent decisions resolve one at a time
+        const open = await tx.templateReview.updateMany({
+          where: { id: review.id, status: "pending" },
+          data: { updatedAt: now },
+        });
+        if (open.count === 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "This review is closed",
+          });
+        }
+
+        const recorded = await tx.templateReviewer.updateMany({
+          where: { id: reviewer.id, decision: "pending" },
+          data: { decision: input.decision, comment: input.comment || null, decidedAt: now },
+        });
+        if (recorded.count === 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "You've already responded to this review",
+          });
+        }
+
+        const reviewers = await tx.templateReviewer.findMany({
+          where: { reviewId: review.id },
+          select: { decision: true },
+        });
+        const outcome = resolveReviewOutcome(reviewers.map((r) => r.decision));
+
+        if (outcome === "pending") return outcome;
+
+        await tx.templateReview.update({
+          where: { id: review.id },
+          data: { status: outcome, decidedAt: now },
+        });
+
+        if (outcome === "rejected") {
+          await tx.template.update({
+            where: { id: review.templateId },
+            data: { reviewState: "rejected" },
+          });
+          return outcome;
+        }
+
+        await tx.template.update({
+          where: { id: review.templateId },
+          data: {
+            reviewState: "approved",
+            approvedVersionId: review.versionId,
+            approvedAt: now,
+          },
+        });
+
+        if (review.versionId) {
+          await tx.templateVersion.update({
+            where: { id: review.versionId },
+            data: { isPinned: true, pinnedAt: now, pinnedBy: userId },
+          });
+        }
+
+        return outcome;
+      });
+
+      // Approved versions are kept uncompacted; pinning already keeps them out of pruning
+      if (outcome === "approved" && review.versionId) {
+        await expandCompactedVersion(ctx.db, review.versionId);
+      }
+
+      logger.info(`✅ [Template] Review ${input.decision} by reviewer:`, {
+        templateId: review.templateId,
+        reviewId: review.id,
+        outcome,
+      });
+
+      return { status: outcome };
+    }),
+
+  /**
+   * Unlock an in-review or approved template for editing
+   * Cancels a pending review; the template needs a new approval afterwards.
+   */
+  reopen: protectedProcedure
+    .input(z.object({ templateId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const template = await verifyTemplateAccess<ReviewedTemplate>(
+        ctx.db,
+        ctx.session.user.id,
+        input.templateId,
+        { permission: "edit" }
+      );
+
+      if (!LOCKED_REVIEW_STATES.includes(template.reviewState)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "This template isn't locked",
+        });
+      }
+
+      const now = new Date();
+
+      await ctx.db.$transaction([
+        ctx.db.templateReviewer.updateMany({
+          where: { review: { templateId: template.id, status: "pending" }, decision: "pending" },
+          data: { decision: "canceled", decidedAt: now },
+        }),
+        ctx.db.templateReview.updateMany({
+          where: { templateId: template.id, status: "pending" },
+          data: { status: "canceled", decidedAt: now },
+        }),
+        ctx.db.template.update({
+          where: { id: template.id },
+          data: { reviewState: "draft", approvedVersionId: null, approvedAt: null },
+        }),
+      ]);
+
+      logger.info("🔓 [Template] Reopened for editing:", {
+        templateId: template.id,
+        previousState: template.reviewState,
+        userId: ctx.session.user.id,
+      });
+
+      return { success: true };
+    }),
+});
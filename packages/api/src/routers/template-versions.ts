@@ -1,6 +1,24 @@
 import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import type { Prisma, PrismaClient, StyleType } from "@mocah/db";
 import { protectedProcedure, router } from "../index";
-import { verifyTemplateAccess } from "../lib/template-helpers";
+import {
+  renderTemplateHtml,
+  validateAndRepairCode,
+  verifyTemplateAccess,
+} from "../lib/template-helpers";
+import { getTemplateDesignTokens } from "../lib/brand-kits";
+import { diffTemplateSnapshots } from "../lib/template-diff";
+import { assignElementIds } from "../lib/element-ids";
+import { buildTableHtml } from "../lib/table-html";
+import { scheduleTemplateThumbnail } from "../lib/template-thumbnails";
+import { getTemplateVersionRetentionPolicy } from "../lib/usage-tracking";
+import {
+  enforceVersionRetention,
+  expandCompactedVersion,
+  hydrateVersion,
+  hydrateVersions,
+} from "../lib/version-retention";
 import { logger } from "@mocah/shared";
 
 export const templateVersionsRouter = router({
@@ -22,7 +40,29 @@ export const templateVersionsRouter = router({
         orderBy: { version: "desc" },
       });
 
-      return versions;
+      return hydrateVersions(ctx.db, versions);
+    }),
+
+  /**
+   * Get the version retention policy for the template's workspace plan
+   */
+  retention: protectedProcedure
+    .input(
+      z.object({
+        templateId: z.string(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      await verifyTemplateAccess(ctx.db, ctx.session.user.id, input.templateId);
+
+      const [policy, pinnedCount] = await Promise.all([
+        getTemplateVersionRetentionPolicy(input.templateId),
+        ctx.db.templateVersion.count({
+          where: { templateId: input.templateId, isPinned: true },
+        }),
+      ]);
+
+      return { ...policy, pinnedCount };
     }),
 
   /**
@@ -39,90 +79,419 @@ export const templateVersionsRouter = router({
       })
     )
     .mutation(async ({ ctx, input }) => {
-      // 1. Get current template with all versions for cleanup
-      const template = await verifyTemplateAccess<{
-        id: string;
+      return snapshotTemplate(ctx.db, ctx.session.user.id, input.templateId, {
+        name: input.name,
+        changeNote: input.changeNote,
+        source: "manual_save",
+      });
+    }),
+
+  /**
+   * Get a single version with its full snapshot
+   */
+  get: protectedProcedure
+    .input(
+      z.object({
+        versionId: z.string(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const version = await ctx.db.templateVersion.findUnique({
+        where: { id: input.versionId },
+      });
+
+      if (!version) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Version not found",
+        });
+      }
+
+      // Verify access through the owning template
+      await verifyTemplateAccess(ctx.db, ctx.session.user.id, version.templateId);
+
+      return hydrateVersion(ctx.db, version);
+    }),
+
+  /**
+   * Rename and/or pin a version
+   * Pinned versions are never pruned or compacted by the retention policy
+   */
+  update: protectedProcedure
+    .input(
+      z.object({
+        versionId: z.string(),
+        name: z.string().trim().min(1).max(100).optional(),
+        isPinned: z.boolean().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const version = await ctx.db.templateVersion.findUnique({
+        where: { id: input.versionId },
+        select: { id: true, templateId: true, isPinned: true },
+      });
+
+      if (!version) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Version not found",
+        });
+      }
+
+      await verifyTemplateAccess(ctx.db, ctx.session.user.id, version.templateId, {
+        permission: "edit",
+      });
+
+      // Pinned versions are stored uncompacted
+      if (input.isPinned && !version.isPinned) {
+        await expandCompactedVersion(ctx.db, version.id);
+      }
+
+      const updated = await ctx.db.templateVersion.update({
+        where: { id: version.id },
+        data: {
+          ...(input.name !== undefined && { name: input.name }),
+          ...(input.isPinned !== undefined && {
+            isPinned: input.isPinned,
+            pinnedAt: input.isPinned ? new Date() : null,
+            pinnedBy: input.isPinned ? ctx.session.user.id : null,
+          }),
+        },
+      });
+
+      logger.info("📌 [Template] Version updated:", {
+        templateId: version.templateId,
+        versionId: version.id,
+        renamed: input.name !== undefined,
+        isPinned: updated.isPinned,
+      });
+
+      return hydrateVersion(ctx.db, updated);
+    }),
+
+  /**
+   * Restore a version as the current template state
+   * The version's code is validated and rendered first. Then, in one
+   * transaction, the current state is snapshotted and the version's content
+   * copied onto the template, with template.currentVersionId pointing at it.
+   * Later snapshots chain from the restored version via parentVersionId,
+   * forming a branch.
+   */
+  restore: protectedProcedure
+    .input(
+      z.object({
+        templateId: z.string(),
+        versionId: z.string(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const storedVersion = await ctx.db.templateVersion.findUnique({
+        where: { id: input.versionId },
+      });
+
+      if (!storedVersion || storedVersion.templateId !== input.templateId) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Version not found for this template",
+        });
+      }
+
+      const current = await verifyTemplateAccess<{
+        organizationId: string;
+        brandKitId: string | null;
         reactEmailCode: string | null;
-        styleType: any;
-        styleDefinitions: any;
-        htmlCode: string | null;
-        tableHtmlCode: string | null;
-        subject: string | null;
-        previewText: string | null;
-        currentVersionId: string | null;
-        versions: Array<{ id: string; version: number }>;
       }>(
+        ctx.db,
+        ctx.session.user.id,
+        input.templateId,
+        { permission: "edit", editable: true }
+      );
+
+      const versionToRestore = await hydrateVersion(ctx.db, storedVersion);
+
+      // 1. Validate and render the version before writing anything
+      let restoredCode = versionToRestore.reactEmailCode;
+      let htmlCode = versionToRestore.htmlCode;
+      let tableHtmlCode = versionToRestore.tableHtmlCode;
+      if (restoredCode) {
+        const validation = validateAndRepairCode(restoredCode);
+        if (!validation.isValid) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Version code is invalid: ${validation.errors[0] ?? "unknown error"}`,
+          });
+        }
+
+        // Versions saved before element ids existed pick them up from matching current elements
+        restoredCode = assignElementIds(validation.code, current.reactEmailCode).code;
+        htmlCode = await renderTemplateHtml(
+          { reactEmailCode: restoredCode },
+          await getTemplateDesignTokens(ctx.db, current)
+        );
+        tableHtmlCode = buildTableHtml(htmlCode);
+      }
+
+      // 2. Snapshot the current state (so the restore can be undone), copy the
+      // version content onto the template and move the pointer, atomically
+      const { snapshot, template } = await snapshotAndUpdateTemplate(
         ctx.db,
         ctx.session.user.id,
         input.templateId,
         {
-          include: {
-            versions: {
-              orderBy: { version: "desc" },
-            },
-          },
+          changeNote: "Auto-save before version restore",
+          source: "pre_restore",
+          protectedVersionIds: [versionToRestore.id],
+        },
+        {
+          reactEmailCode: restoredCode,
+          styleType: versionToRestore.styleType,
+          styleDefinitions: versionToRestore.styleDefinitions ?? undefined,
+          htmlCode,
+          // Older versions predate the table pipeline; rebuild from their HTML
+          tableHtmlCode: tableHtmlCode ?? buildTableHtml(htmlCode),
+          subject: versionToRestore.subject,
+          previewText: versionToRestore.previewText,
+          // Versions saved before variables existed keep the current declarations
+          variables: versionToRestore.variables ?? undefined,
+          currentVersion: { connect: { id: versionToRestore.id } },
         }
       );
 
-      // 2. Delete oldest versions if we have 10 or more (keep most recent 9)
-      if (template.versions.length >= 10) {
-        const versionsToDelete = template.versions.slice(9); // Keep first 9, delete rest
-        const idsToDelete = versionsToDelete.map((v: { id: string }) => v.id);
+      scheduleTemplateThumbnail(ctx.db, input.templateId);
+
+      logger.info("⏪ [Template] Version restored:", {
+        templateId: input.templateId,
+        restoredVersionId: versionToRestore.id,
+        restoredVersionNumber: versionToRestore.version,
+        snapshotVersionId: snapshot.id,
+      });
 
-        await ctx.db.templateVersion.deleteMany({
+      return {
+        template,
+        restoredVersion: versionToRestore,
+        snapshot,
+      };
+    }),
+
+  /**
+   * Diff two versions of the same template
+   * Returns a structural JSX diff plus a style-definition diff.
+   * Omit toVersionId to compare against the current (unsaved-to-version) template state.
+   */
+  diff: protectedProcedure
+    .input(
+      z.object({
+        templateId: z.string(),
+        fromVersionId: z.string(),
+        toVersionId: z.string().optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const template = await verifyTemplateAccess<{
+        id: string;
+        reactEmailCode: string | null;
+        styleDefinitions: unknown;
+        subject: string | null;
+        previewText: string | null;
+      }>(ctx.db, ctx.session.user.id, input.templateId);
+
+      const versionIds = [input.fromVersionId, input.toVersionId].filter(
+        (id): id is string => !!id
+      );
+
+      const versions = await hydrateVersions(
+        ctx.db,
+        await ctx.db.templateVersion.findMany({
           where: {
-            id: { in: idsToDelete },
+            id: { in: versionIds },
+            templateId: input.templateId,
           },
-        });
+        })
+      );
 
-        logger.info("🗑️ [Template] Deleted old versions:", {
-          templateId: input.templateId,
-          deletedCount: idsToDelete.length,
+      const fromVersion = versions.find((v) => v.id === input.fromVersionId);
+      const toVersion = input.toVersionId
+        ? versions.find((v) => v.id === input.toVersionId)
+        : undefined;
+
+      if (!fromVersion || (input.toVersionId && !toVersion)) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Version not found for this template",
         });
       }
 
-      // 3. Calculate next version number
-      const latestVersion = template.versions[0];
-      const nextVersionNumber = latestVersion ? latestVersion.version + 1 : 1;
+      const diff = diffTemplateSnapshots(fromVersion, toVersion ?? template);
 
-      // 4. Create new version (snapshot current template state)
-      const newVersion = await ctx.db.templateVersion.create({
-        data: {
-          templateId: input.templateId,
-          version: nextVersionNumber,
-          name: input.name || `Version ${nextVersionNumber}`,
-          changeNote: input.changeNote,
-          reactEmailCode: template.reactEmailCode,
-          styleType: template.styleType,
-          styleDefinitions: template.styleDefinitions || undefined,
-          htmlCode: template.htmlCode,
-          tableHtmlCode: template.tableHtmlCode,
-          subject: template.subject,
-          previewText: template.previewText,
-          isCurrent: false, // Snapshots are NOT current - template is current
-          parentVersionId: template.currentVersionId,
-          createdBy: ctx.session.user.id,
-          metadata: template.styleDefinitions
-            ? {
-                source: "manual_save",
-                createdAt: new Date().toISOString(),
-              }
-            : undefined,
+      return {
+        from: {
+          id: fromVersion.id,
+          version: fromVersion.version,
+          name: fromVersion.name,
+          createdAt: fromVersion.createdAt,
         },
-      });
+        to: toVersion
+          ? {
+              id: toVersion.id,
+              version: toVersion.version,
+              name: toVersion.name,
+              createdAt: toVersion.createdAt,
+            }
+          : null,
+        ...diff,
+      };
+    }),
+});
 
-      // NOTE: We do NOT update template.currentVersionId here
-      // Snapshots are historical records, not the current state
-      // Only restoreVersion should update currentVersionId
+// ============================================================================
+// Helpers
+// ============================================================================
 
-      logger.info("📦 [Template] Version snapshot created:", {
-        templateId: input.templateId,
-        versionId: newVersion.id,
-        versionNumber: nextVersionNumber,
-        source: "manual_save",
-      });
+interface SnapshotOptions {
+  name?: string;
+  changeNote?: string;
+  source: "manual_save" | "pre_restore" | "pre_library_merge" | "review_request" | "pre_rebrand";
+  /** Versions that must survive pruning (e.g. the one being restored) */
+  protectedVersionIds?: string[];
+}
 
-      return newVersion;
-    }),
-});
+interface SnapshotTemplateState {
+  id: string;
+  reactEmailCode: string | null;
+  styleType: StyleType;
+  styleDefinitions: Prisma.JsonValue;
+  htmlCode: string | null;
+  tableHtmlCode: string | null;
+  subject: string | null;
+  previewText: string | null;
+  variables: Prisma.JsonValue;
+  currentVersionId: string | null;
+}
+
+/**
+ * Write a TemplateVersion row holding the given template state
+ */
+async function createSnapshotVersion(
+  db: Prisma.TransactionClient,
+  userId: string,
+  template: SnapshotTemplateState,
+  options: SnapshotOptions
+) {
+  const latestVersion = await db.templateVersion.findFirst({
+    where: { templateId: template.id },
+    orderBy: { version: "desc" },
+    select: { version: true },
+  });
+  const nextVersionNumber = latestVersion ? latestVersion.version + 1 : 1;
+
+  const newVersion = await db.templateVersion.create({
+    data: {
+      templateId: template.id,
+      version: nextVersionNumber,
+      name: options.name || `Version ${nextVersionNumber}`,
+      changeNote: options.changeNote,
+      reactEmailCode: template.reactEmailCode,
+      styleType: template.styleType,
+      styleDefinitions: template.styleDefinitions || undefined,
+      htmlCode: template.htmlCode,
+      tableHtmlCode: template.tableHtmlCode,
+      subject: template.subject,
+      previewText: template.previewText,
+      variables: template.variables ?? undefined,
+      isCurrent: false, // Snapshots are NOT current - template is current
+      parentVersionId: template.currentVersionId,
+      createdBy: userId,
+      metadata: template.styleDefinitions
+        ? {
+            source: options.source,
+            createdAt: new Date().toISOString(),
+          }
+        : undefined,
+    },
+  });
+
+  // NOTE: We do NOT update template.currentVersionId here
+  // Snapshots are historical records, not the current state
+  // Only restore should update currentVersionId
+
+  return newVersion;
+}
+
+/**
+ * Prune/compact older versions per the workspace's plan
+ */
+async function applyVersionRetention(
+  db: PrismaClient,
+  templateId: string,
+  options: SnapshotOptions
+) {
+  const policy = await getTemplateVersionRetentionPolicy(templateId);
+  await enforceVersionRetention(db, templateId, policy, {
+    protectedVersionIds: options.protectedVersionIds,
+  });
+}
+
+/**
+ * Snapshot the current template state into a new TemplateVersion row,
+ * then apply the plan's retention policy (pruning and compaction).
+ */
+export async function snapshotTemplate(
+  db: PrismaClient,
+  userId: string,
+  templateId: string,
+  options: SnapshotOptions
+) {
+  const template = await verifyTemplateAccess<SnapshotTemplateState>(db, userId, templateId, {
+    permission: "edit",
+  });
+
+  const newVersion = await createSnapshotVersion(db, userId, template, options);
+
+  logger.info("📦 [Template] Version snapshot created:", {
+    templateId,
+    versionId: newVersion.id,
+    versionNumber: newVersion.version,
+    source: options.source,
+  });
+
+  await applyVersionRetention(db, templateId, options);
+
+  return newVersion;
+}
+
+/**
+ * Snapshot the current template state and overwrite it in one transaction
+ * A failed update leaves no snapshot behind, and retention only runs once
+ * both writes have committed.
+ */
+export async function snapshotAndUpdateTemplate(
+  db: PrismaClient,
+  userId: string,
+  templateId: string,
+  options: SnapshotOptions,
+  data: Prisma.TemplateUpdateInput
+) {
+  const current = await verifyTemplateAccess<SnapshotTemplateState>(db, userId, templateId, {
+    permission: "edit",
+  });
+
+  const { snapshot, template } = await db.$transaction(async (tx) => {
+    const snapshot = await createSnapshotVersion(tx, userId, current, options);
+    const template = await tx.template.update({
+      where: { id: templateId },
+      data,
+    });
+    return { snapshot, template };
+  });
+
+  logger.info("📦 [Template] Version snapshot created:", {
+    templateId,
+    versionId: snapshot.id,
+    versionNumber: snapshot.version,
+    source: options.source,
+  });
+
+  await applyVersionRetention(db, templateId, options);
 
+  return { snapshot, template };
+}
@@ -2,9 +2,14 @@ import { router } from "../index";
 import { templateCoreRouter } from "./template-core";
 import { templateVersionsRouter } from "./template-versions";
 import { templateLibraryRouter } from "./template-library";
+import { templateExportRouter } from "./template-export";
+import { templateLocalesRouter } from "./template-locales";
+import { templateAccessRouter } from "./template-access";
+import { templateReviewRouter } from "./template-review";
+import { templateCommentsRouter } from "./template-comments";
 
 /**
- * Template router aggregating core, versions, and library operations
+ * Template router aggregating core, versions, library, export, locale, access, review and comment operations
  * Properly typed nested structure for type safety
  */
 export const templateRouter = router({
@@ -14,4 +19,14 @@ export const templateRouter = router({
   versions: templateVersionsRouter,
   // Library/publishing operations
   library: templateLibraryRouter,
+  // Downloadable exports (zip, JSON, ESP HTML)
+  export: templateExportRouter,
+  // Per-locale string tables and AI translation
+  locales: templateLocalesRouter,
+  // Owning team and per-template permissions
+  access: templateAccessRouter,
+  // Approval workflow (request review, approve/reject, reopen)
+  review: templateReviewRouter,
+  // Review comments pinned to preview elements
+  comments: templateCommentsRouter,
 });
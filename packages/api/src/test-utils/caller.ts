@@ -92,6 +92,7 @@ export function createMockOrganization(overrides: Partial<{
     logo: null,
     metadata: {},
     createdAt: new Date(),
+    defaultBrandKitId: null,
     brandKit: null,
     members: [{
       id: "test-member-id",
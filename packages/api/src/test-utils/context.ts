@@ -72,6 +72,7 @@ export function createMockOrganization(overrides: Partial<MockOrganizationData>
     logo: overrides.logo ?? null,
     metadata: overrides.metadata ?? {},
     createdAt: overrides.createdAt ?? now,
+    defaultBrandKitId: overrides.brandKit?.id ?? null,
     brandKit: overrides.brandKit ?? null,
     members: overrides.members ?? [
       {
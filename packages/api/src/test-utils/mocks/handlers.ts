@@ -165,6 +165,112 @@ export const firecrawlHandlers = [
   }),
 ];
 
+/**
+ * ESP integration handlers (Mailchimp, SendGrid, Klaviyo)
+ * Requests without credentials get a 401 so auth failures can be exercised.
+ */
+export const espHandlers = [
+  // Mailchimp - host is https://{dc}.api.mailchimp.com
+  http.get("https://*.api.mailchimp.com/3.0/", ({ request }) => {
+    if (!request.headers.get("Authorization")) {
+      return HttpResponse.json({ detail: "API Key Invalid" }, { status: 401 });
+    }
+    return HttpResponse.json({ account_id: "mc_account", account_name: "Mocah Test" });
+  }),
+
+  http.get("https://*.api.mailchimp.com/3.0/templates", () => {
+    return HttpResponse.json({
+      templates: [{ id: 1001, name: "Welcome", date_edited: "2026-01-01T00:00:00Z" }],
+      total_items: 1,
+    });
+  }),
+
+  http.post("https://*.api.mailchimp.com/3.0/templates", async ({ request }) => {
+    const body = (await request.json()) as { name: string };
+    return HttpResponse.json({ id: 2001, name: body.name, date_created: "2026-01-02T00:00:00Z" });
+  }),
+
+  http.patch("https://*.api.mailchimp.com/3.0/templates/:id", async ({ params, request }) => {
+    const body = (await request.json()) as { name: string };
+    return HttpResponse.json({
+      id: Number(params.id),
+      name: body.name,
+      date_edited: "2026-01-03T00:00:00Z",
+    });
+  }),
+
+  // SendGrid
+  http.get("https://api.sendgrid.com/v3/user/username", () => {
+    return HttpResponse.json({ username: "mocah-test", user_id: 1 });
+  }),
+
+  http.get("https://api.sendgrid.com/v3/templates", () => {
+    return HttpResponse.json({
+      result: [{ id: "d-welcome", name: "Welcome", updated_at: "2026-01-01 00:00:00" }],
+    });
+  }),
+
+  http.post("https://api.sendgrid.com/v3/templates", async ({ request }) => {
+    const body = (await request.json()) as { name: string };
+    return HttpResponse.json({ id: "d-new", name: body.name, generation: "dynamic" });
+  }),
+
+  http.post("https://api.sendgrid.com/v3/templates/:id/versions", async ({ params, request }) => {
+    const body = (await request.json()) as { name: string };
+    return HttpResponse.json({
+      id: "version-1",
+      template_id: params.id,
+      name: body.name,
+      active: 1,
+      updated_at: "2026-01-02 00:00:00",
+    });
+  }),
+
+  // Klaviyo
+  http.get("https://a.klaviyo.com/api/accounts/", () => {
+    return HttpResponse.json({
+      data: [
+        {
+          type: "account",
+          id: "kl_account",
+          attributes: { contact_information: { organization_name: "Mocah Test" } },
+        },
+      ],
+    });
+  }),
+
+  http.get("https://a.klaviyo.com/api/templates/", () => {
+    return HttpResponse.json({
+      data: [{ type: "template", id: "TPL1", attributes: { name: "Welcome", updated: "2026-01-01T00:00:00Z" } }],
+    });
+  }),
+
+  http.post("https://a.klaviyo.com/api/templates/", async ({ request }) => {
+    const body = (await request.json()) as { data: { attributes: { name: string } } };
+    return HttpResponse.json(
+      {
+        data: {
+          type: "template",
+          id: "TPL2",
+          attributes: { name: body.data.attributes.name, created: "2026-01-02T00:00:00Z" },
+        },
+      },
+      { status: 201 }
+    );
+  }),
+
+  http.patch("https://a.klaviyo.com/api/templates/:id/", async ({ params, request }) => {
+    const body = (await request.json()) as { data: { attributes: { name: string } } };
+    return HttpResponse.json({
+      data: {
+        type: "template",
+        id: params.id,
+        attributes: { name: body.data.attributes.name, updated: "2026-01-03T00:00:00Z" },
+      },
+    });
+  }),
+];
+
 /**
  * All handlers combined
  */
@@ -173,5 +279,6 @@ export const handlers = [
   ...falHandlers,
   ...stripeHandlers,
   ...firecrawlHandlers,
+  ...espHandlers,
 ];
 
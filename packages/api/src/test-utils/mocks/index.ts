@@ -1,3 +1,3 @@
 export { server } from "./server";
-export { handlers, openRouterHandlers, falHandlers, stripeHandlers, firecrawlHandlers } from "./handlers";
+export { handlers, openRouterHandlers, falHandlers, stripeHandlers, firecrawlHandlers, espHandlers } from "./handlers";
 
@@ -0,0 +1,64 @@
+/**
+ * Stub Scrape Provider
+ *
+ * Serves canned Firecrawl responses by URL so brand crawl tests can run
+ * against fixed pages without the network. Pass it to `crawlBrand` as
+ * the `provider` option.
+ */
+
+import type { FirecrawlScrapeResponse } from "../../lib/firecrawl";
+import { normalizeUrl } from "../../lib/firecrawl";
+import type { ScrapeProvider } from "../../lib/brand-crawl";
+
+/** Page data for a URL, or an Error to fail that page with */
+export type StubScrapePages = Record<string, Partial<FirecrawlScrapeResponse["data"]> | Error>;
+
+export interface StubScrapeProvider extends ScrapeProvider {
+  /** URLs requested so far, in order */
+  calls: string[];
+}
+
+/**
+ * Create a provider that answers from `pages`
+ * URLs match without protocol differences or trailing slashes. Unknown URLs
+ * fail like a Firecrawl 404.
+ */
+export function createStubScrapeProvider(pages: StubScrapePages): StubScrapeProvider {
+  const byUrl = new Map(Object.entries(pages).map(([url, page]) => [stubKey(url), page]));
+  const calls: string[] = [];
+
+  const provider = async (url: string): Promise<FirecrawlScrapeResponse> => {
+    calls.push(url);
+    const page = byUrl.get(stubKey(url));
+
+    if (!page) {
+      throw new Error(`Firecrawl API error (404): No stub page for ${url}`);
+    }
+    if (page instanceof Error) {
+      throw page;
+    }
+
+    return {
+      success: true,
+      data: {
+        ...page,
+        metadata: {
+          title: "",
+          description: "",
+          sourceURL: normalizeUrl(url),
+          statusCode: 200,
+          ...page.metadata,
+        },
+      },
+    };
+  };
+
+  return Object.assign(provider, { calls });
+}
+
+function stubKey(url: string): string {
+  return normalizeUrl(url)
+    .replace(/^https?:\/\/(www\.)?/, "")
+    .replace(/\/+$/, "")
+    .toLowerCase();
+}
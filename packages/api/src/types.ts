@@ -17,9 +17,11 @@ export type OrganizationWithRelations = {
   logo: string | null;
   metadata: unknown;
   createdAt: Date;
+  defaultBrandKitId: string | null;
   brandKit: {
     id: string;
     organizationId: string;
+    name: string;
     primaryColor: string | null;
     accentColor: string | null;
     fontFamily: string | null;
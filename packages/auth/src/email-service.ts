@@ -2,6 +2,8 @@ import { Resend } from "resend";
 import {
   createVerificationEmail,
   createPasswordResetEmail,
+  createInvitationEmail,
+  createCommentMentionEmail,
 } from "./email-templates";
 import { serverEnv } from "@mocah/config/env";
 
@@ -128,6 +130,73 @@ export class EmailService {
     });
   }
 
+  /**
+   * Send organization invitation email
+   */
+  static async sendInvitationEmail({
+    email,
+    inviter,
+    organizationName,
+    role,
+    url,
+    expiresInDays,
+  }: {
+    email: string;
+    inviter: { email: string; name?: string };
+    organizationName: string;
+    role: string;
+    url: string;
+    expiresInDays: number;
+  }) {
+    const html = createInvitationEmail({
+      appName: APP_NAME,
+      inviter,
+      organizationName,
+      role,
+      inviteUrl: url,
+      expiresInDays,
+      logoUrl: getLogoUrl(),
+    });
+
+    return this.sendEmail({
+      to: email,
+      subject: `${inviter.name || inviter.email} invited you to ${organizationName} on ${APP_NAME}`,
+      html,
+    });
+  }
+
+  /**
+   * Send a notification for a mention in a template comment
+   */
+  static async sendCommentMentionEmail({
+    email,
+    author,
+    templateName,
+    comment,
+    url,
+  }: {
+    email: string;
+    author: { email: string; name?: string };
+    templateName: string;
+    comment: string;
+    url: string;
+  }) {
+    const html = createCommentMentionEmail({
+      appName: APP_NAME,
+      author,
+      templateName,
+      comment,
+      commentUrl: url,
+      logoUrl: getLogoUrl(),
+    });
+
+    return this.sendEmail({
+      to: email,
+      subject: `${author.name || author.email} mentioned you on "${templateName}"`,
+      html,
+    });
+  }
+
   /**
    * Convert HTML to plain text (simple implementation)
    */
@@ -0,0 +1,58 @@
+import { createBaseEmailTemplate } from "./base-template";
+import { escapeHtml } from "./escape-html";
+import { createEmailContent } from "./sections/content";
+import { createEmailButton } from "./sections/button";
+import type { EmailTheme } from "./theme";
+import { defaultTheme } from "./theme";
+
+export interface CommentMentionEmailProps {
+  appName: string;
+  author: { email: string; name?: string };
+  templateName: string;
+  comment: string;
+  commentUrl: string;
+  theme?: EmailTheme;
+  logoUrl?: string;
+}
+
+/**
+ * Notification for a mention in a template comment
+ */
+export function createCommentMentionEmail({
+  appName,
+  author,
+  templateName,
+  comment,
+  commentUrl,
+  theme = defaultTheme,
+  logoUrl,
+}: CommentMentionEmailProps): string {
+  const authorName = escapeHtml(author.name || author.email);
+  const template = escapeHtml(templateName);
+  const excerpt = comment.length > 500 ? `${comment.slice(0, 500)}…` : comment;
+
+  const content = `
+    ${createEmailContent({
+      title: `${authorName} mentioned you`,
+      paragraphs: [
+        `${authorName} mentioned you in a comment on <strong>${template}</strong>:`,
+        `<em>${escapeHtml(excerpt).replace(/\n/g, "<br />")}</em>`,
+      ],
+      theme,
+    })}
+    ${createEmailButton({
+      text: "View Comment",
+      url: commentUrl,
+      theme,
+    })}
+  `;
+
+  return createBaseEmailTemplate({
+    appName,
+    title: `${authorName} mentioned you on ${appName}`,
+    content,
+    theme,
+    footerText: `You're receiving this because you were mentioned in a comment on ${appName}.`,
+    logoUrl,
+  });
+}
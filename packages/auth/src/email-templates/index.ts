@@ -6,6 +6,8 @@
 
 export { createVerificationEmail } from "./verification-email";
 export { createPasswordResetEmail } from "./password-reset-email";
+export { createInvitationEmail } from "./invitation-email";
+export { createCommentMentionEmail } from "./comment-mention-email";
 export { createBaseEmailTemplate } from "./base-template";
 export { defaultTheme, type EmailTheme } from "./theme";
 export { createEmailHeader } from "./sections/header";
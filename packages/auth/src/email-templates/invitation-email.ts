@@ -0,0 +1,92 @@
+import { createBaseEmailTemplate } from "./base-template";
+import { escapeHtml } from "./escape-html";
+import { createEmailContent } from "./sections/content";
+import { createEmailButton } from "./sections/button";
+import { createLinkFallback } from "./sections/link-fallback";
+import type { EmailTheme } from "./theme";
+import { defaultTheme } from "./theme";
+
+export interface InvitationEmailProps {
+  appName: string;
+  inviter: { email: string; name?: string };
+  organizationName: string;
+  role: string;
+  inviteUrl: string;
+  theme?: EmailTheme;
+  expiresInDays?: number;
+  logoUrl?: string;
+}
+
+/**
+ * Organization invitation template
+ */
+export function createInvitationEmail({
+  appName,
+  inviter,
+  organizationName,
+  role,
+  inviteUrl,
+  theme = defaultTheme,
+  expiresInDays = 7,
+  logoUrl,
+}: InvitationEmailProps): string {
+  const inviterName = escapeHtml(inviter.name || inviter.email);
+  const workspace = escapeHtml(organizationName);
+  const roleLabel = role === "admin" ? "an admin" : role === "owner" ? "an owner" : "a member";
+
+  const expiryText = `
+    <table
+      role="presentation"
+      cellspacing="0"
+      cellpadding="0"
+      border="0"
+      width="100%"
+      style="margin-top: ${theme.spacing.md};"
+    >
+      <tr>
+        <td align="center" style="padding: 0;">
+          <p style="
+            font-size: 11px;
+            color: ${theme.colors.textMuted};
+            font-family: ${theme.fonts.primary};
+            margin: 0;
+            line-height: 1.4;
+          ">
+            This invitation will expire in ${expiresInDays} ${expiresInDays === 1 ? "day" : "days"}.
+          </p>
+        </td>
+      </tr>
+    </table>
+  `;
+
+  const content = `
+    ${createEmailContent({
+      title: `Join ${workspace} on ${appName}`,
+      paragraphs: [
+        "Hi there,",
+        `${inviterName} has invited you to join the <strong>${workspace}</strong> workspace on ${appName} as ${roleLabel}.`,
+        "Sign in or create an account with this email address to accept the invitation.",
+      ],
+      theme,
+    })}
+    ${createEmailButton({
+      text: "Accept Invitation",
+      url: inviteUrl,
+      theme,
+    })}
+    ${createLinkFallback({
+      url: inviteUrl,
+      theme,
+    })}
+    ${expiryText}
+  `;
+
+  return createBaseEmailTemplate({
+    appName,
+    title: `You're invited to ${workspace} on ${appName}`,
+    content,
+    theme,
+    footerText: `If you weren't expecting an invitation to ${appName}, you can safely ignore this email.`,
+    logoUrl,
+  });
+}
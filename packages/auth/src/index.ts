@@ -68,14 +68,20 @@ const authInstance = betterAuth({
           try {
             const metadata = (organization.metadata as any) || {};
 
-            await prisma.brandKit.create({
+            // Created through the organization so it becomes the default kit
+            await prisma.organization.update({
+              where: { id: organization.id },
               data: {
-                organizationId: organization.id,
-                primaryColor: metadata.primaryColor || "#3B82F6",
-                accentColor: metadata.accentColor || "#10B981",
-                fontFamily: metadata.fontFamily || "Arial, sans-serif",
-                brandVoice: metadata.brandVoice || "professional",
-                logo: organization.logo || metadata.logo || null, // Prioritize top-level logo field
+                brandKit: {
+                  create: {
+                    organization: { connect: { id: organization.id } },
+                    primaryColor: metadata.primaryColor || "#3B82F6",
+                    accentColor: metadata.accentColor || "#10B981",
+                    fontFamily: metadata.fontFamily || "Arial, sans-serif",
+                    brandVoice: metadata.brandVoice || "professional",
+                    logo: organization.logo || metadata.logo || null, // Prioritize top-level logo field
+                  },
+                },
               },
             });
           } catch (error) {
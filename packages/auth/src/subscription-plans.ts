@@ -13,18 +13,27 @@ export const PLAN_LIMITS = {
     imagesLimit: 20,
     hasPremiumImageModel: false,
     hasPriorityQueue: false,
+    versionHistoryLimit: 25, // Unpinned versions kept per template
+    compactVersionsAfter: null, // Older versions stored as diffs (null = never)
+    exportFormats: ["html", "json"], // Fallback when the Plan row has no allowedExportFormats
   },
   pro: {
     templatesLimit: 200,
     imagesLimit: 100,
     hasPremiumImageModel: true,
     hasPriorityQueue: true,
+    versionHistoryLimit: 100,
+    compactVersionsAfter: 20,
+    exportFormats: ["html", "json", "mailchimp", "sendgrid", "campaign_monitor", "constant_contact", "liquid"],
   },
   scale: {
     templatesLimit: 500,
     imagesLimit: 300,
     hasPremiumImageModel: true,
     hasPriorityQueue: true,
+    versionHistoryLimit: 250,
+    compactVersionsAfter: 20,
+    exportFormats: ["html", "json", "mailchimp", "sendgrid", "campaign_monitor", "constant_contact", "liquid"],
   },
 } as const;
 
@@ -69,6 +69,14 @@ export const serverEnv = createEnv({
     TEMPLATE_PUBLISHER_EMAILS: z.string().optional(), // Comma-separated emails allowed to publish
     APIFLASH_API_KEY: z.string().optional(), // ApiFlash screenshot API key
 
+    // Screenshots (library and dashboard thumbnails)
+    SCREENSHOT_PROVIDER: z.enum(["playwright", "apiflash"]).optional(), // Defaults to ApiFlash if configured, else local Chromium
+    SCREENSHOT_CHROMIUM_PATH: z.string().optional(), // Chromium executable for the local provider
+
+    // Secret vault (integration credentials) - base64-encoded 32-byte keys
+    VAULT_MASTER_KEY: z.string().optional(),
+    VAULT_PREVIOUS_MASTER_KEYS: z.string().optional(), // Comma-separated, kept until `pnpm -F @mocah/api vault:rotate` succeeds
+
     // Node Environment
     NODE_ENV: z.enum(["development", "test", "production"]).optional(),
   },
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "template_version" ADD COLUMN     "compactedDelta" JSONB,
+ADD COLUMN     "isPinned" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "pinnedAt" TIMESTAMP(3),
+ADD COLUMN     "pinnedBy" TEXT;
+
+-- CreateIndex
+CREATE INDEX "template_version_templateId_isPinned_idx" ON "template_version"("templateId", "isPinned");
@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "ExportFormat" ADD VALUE 'liquid';
+
+-- AlterTable
+ALTER TABLE "template" ADD COLUMN     "previewDataSets" JSONB,
+ADD COLUMN     "variables" JSONB;
+
+-- AlterTable
+ALTER TABLE "template_version" ADD COLUMN     "variables" JSONB;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "template" ADD COLUMN     "defaultLocale" TEXT NOT NULL DEFAULT 'en';
+
+-- CreateTable
+CREATE TABLE "template_locale" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "locale" TEXT NOT NULL,
+    "strings" JSONB NOT NULL DEFAULT '{}',
+    "subject" TEXT,
+    "previewText" TEXT,
+    "translatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "template_locale_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "template_locale_templateId_idx" ON "template_locale"("templateId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "template_locale_templateId_locale_key" ON "template_locale"("templateId", "locale");
+
+-- AddForeignKey
+ALTER TABLE "template_locale" ADD CONSTRAINT "template_locale_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "template"("id") ON DELETE CASCADE ON UPDATE CASCADE;
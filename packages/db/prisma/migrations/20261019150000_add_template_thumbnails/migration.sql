@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "template" ADD COLUMN     "thumbnailUpdatedAt" TIMESTAMP(3),
+ADD COLUMN     "thumbnailUrl" TEXT;
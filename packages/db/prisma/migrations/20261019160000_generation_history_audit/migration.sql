@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "generation_history" ADD COLUMN     "completedAt" TIMESTAMP(3),
+ADD COLUMN     "completionTokens" INTEGER,
+ADD COLUMN     "durationMs" INTEGER,
+ADD COLUMN     "modelId" TEXT,
+ADD COLUMN     "operation" TEXT,
+ADD COLUMN     "promptTokens" INTEGER,
+ADD COLUMN     "provider" TEXT,
+ADD COLUMN     "templateId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "generation_history_organizationId_createdAt_idx" ON "generation_history"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "generation_history_templateId_idx" ON "generation_history"("templateId");
+
+-- AddForeignKey
+ALTER TABLE "generation_history" ADD CONSTRAINT "generation_history_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "template"("id") ON DELETE SET NULL ON UPDATE CASCADE;
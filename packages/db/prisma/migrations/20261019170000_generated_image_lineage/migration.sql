@@ -0,0 +1,19 @@
+-- DropForeignKey
+ALTER TABLE "generated_image" DROP CONSTRAINT "generated_image_generationHistoryId_fkey";
+
+-- AlterTable
+ALTER TABLE "generated_image" ADD COLUMN     "imageAssetId" TEXT,
+ADD COLUMN     "rootImageId" TEXT,
+ALTER COLUMN "generationHistoryId" DROP NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "generated_image_imageAssetId_key" ON "generated_image"("imageAssetId");
+
+-- CreateIndex
+CREATE INDEX "generated_image_rootImageId_idx" ON "generated_image"("rootImageId");
+
+-- AddForeignKey
+ALTER TABLE "generated_image" ADD CONSTRAINT "generated_image_generationHistoryId_fkey" FOREIGN KEY ("generationHistoryId") REFERENCES "generation_history"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "generated_image" ADD CONSTRAINT "generated_image_imageAssetId_fkey" FOREIGN KEY ("imageAssetId") REFERENCES "image_asset"("id") ON DELETE CASCADE ON UPDATE CASCADE;
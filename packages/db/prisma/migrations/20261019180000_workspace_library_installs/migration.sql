@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "template_library" ADD COLUMN     "contentUpdatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- AlterTable
+ALTER TABLE "workspace_template_library" ADD COLUMN     "dismissedUpdateAt" TIMESTAMP(3),
+ADD COLUMN     "installedById" TEXT,
+ADD COLUMN     "syncedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "templateId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workspace_template_library_templateId_key" ON "workspace_template_library"("templateId");
+
+-- AddForeignKey
+ALTER TABLE "workspace_template_library" ADD CONSTRAINT "workspace_template_library_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "template"("id") ON DELETE SET NULL ON UPDATE CASCADE;
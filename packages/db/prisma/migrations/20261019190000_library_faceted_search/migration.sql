@@ -0,0 +1,53 @@
+-- AlterTable
+ALTER TABLE "template_library" ADD COLUMN     "colorFamilies" TEXT[],
+ADD COLUMN     "colorPalette" TEXT[],
+ADD COLUMN     "industry" TEXT,
+ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce("name", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("subject", '')), 'B') ||
+  setweight(to_tsvector('english', coalesce("description", '')), 'C')
+) STORED;
+
+-- CreateTable
+CREATE TABLE "template_library_category_relation" (
+    "id" TEXT NOT NULL,
+    "templateLibraryId" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "template_library_category_relation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "template_library_category_relation_templateLibraryId_idx" ON "template_library_category_relation"("templateLibraryId");
+
+-- CreateIndex
+CREATE INDEX "template_library_category_relation_categoryId_idx" ON "template_library_category_relation"("categoryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "template_library_category_relation_templateLibraryId_catego_key" ON "template_library_category_relation"("templateLibraryId", "categoryId");
+
+-- CreateIndex
+CREATE INDEX "template_library_industry_idx" ON "template_library"("industry");
+
+-- CreateIndex
+CREATE INDEX "template_library_searchVector_idx" ON "template_library" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "template_library_tags_idx" ON "template_library" USING GIN ("tags");
+
+-- CreateIndex
+CREATE INDEX "template_library_colorFamilies_idx" ON "template_library" USING GIN ("colorFamilies");
+
+-- AddForeignKey
+ALTER TABLE "template_library_category_relation" ADD CONSTRAINT "template_library_category_relation_templateLibraryId_fkey" FOREIGN KEY ("templateLibraryId") REFERENCES "template_library"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "template_library_category_relation" ADD CONSTRAINT "template_library_category_relation_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "template_category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: the existing single category becomes the first category relation
+INSERT INTO "template_library_category_relation" ("id", "templateLibraryId", "categoryId")
+SELECT gen_random_uuid()::text, tl."id", tc."id"
+FROM "template_library" tl
+JOIN "template_category" tc ON tc."slug" = tl."category"
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "TemplatePermissionLevel" AS ENUM ('view', 'comment', 'edit', 'publish');
+
+-- AlterTable
+ALTER TABLE "template" ADD COLUMN     "teamId" TEXT;
+
+-- CreateTable
+CREATE TABLE "template_permission" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "teamId" TEXT,
+    "userId" TEXT,
+    "level" "TemplatePermissionLevel" NOT NULL,
+    "grantedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "template_permission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "template_teamId_idx" ON "template"("teamId");
+
+-- CreateIndex
+CREATE INDEX "template_permission_templateId_idx" ON "template_permission"("templateId");
+
+-- CreateIndex
+CREATE INDEX "template_permission_teamId_idx" ON "template_permission"("teamId");
+
+-- CreateIndex
+CREATE INDEX "template_permission_userId_idx" ON "template_permission"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "template_permission_templateId_teamId_key" ON "template_permission"("templateId", "teamId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "template_permission_templateId_userId_key" ON "template_permission"("templateId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "template" ADD CONSTRAINT "template_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "team"("_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "template_permission" ADD CONSTRAINT "template_permission_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "template"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "template_permission" ADD CONSTRAINT "template_permission_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "team"("_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "template_permission" ADD CONSTRAINT "template_permission_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("_id") ON DELETE CASCADE ON UPDATE CASCADE;
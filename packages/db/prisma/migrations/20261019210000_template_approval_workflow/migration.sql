@@ -0,0 +1,71 @@
+-- CreateEnum
+CREATE TYPE "TemplateReviewState" AS ENUM ('draft', 'in_review', 'approved', 'rejected');
+
+-- CreateEnum
+CREATE TYPE "TemplateReviewDecision" AS ENUM ('pending', 'approved', 'rejected', 'canceled');
+
+-- AlterTable
+ALTER TABLE "template" ADD COLUMN     "approvedAt" TIMESTAMP(3),
+ADD COLUMN     "approvedVersionId" TEXT,
+ADD COLUMN     "reviewState" "TemplateReviewState" NOT NULL DEFAULT 'draft';
+
+-- CreateTable
+CREATE TABLE "template_review" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "versionId" TEXT,
+    "status" "TemplateReviewDecision" NOT NULL DEFAULT 'pending',
+    "message" TEXT,
+    "requestedById" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "template_review_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "template_reviewer" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "decision" "TemplateReviewDecision" NOT NULL DEFAULT 'pending',
+    "comment" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "template_reviewer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "template_reviewState_idx" ON "template"("reviewState");
+
+-- CreateIndex
+CREATE INDEX "template_review_templateId_idx" ON "template_review"("templateId");
+
+-- CreateIndex
+CREATE INDEX "template_review_status_idx" ON "template_review"("status");
+
+-- CreateIndex
+CREATE INDEX "template_reviewer_userId_idx" ON "template_reviewer"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "template_reviewer_reviewId_userId_key" ON "template_reviewer"("reviewId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "template" ADD CONSTRAINT "template_approvedVersionId_fkey" FOREIGN KEY ("approvedVersionId") REFERENCES "template_version"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "template_review" ADD CONSTRAINT "template_review_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "template"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "template_review" ADD CONSTRAINT "template_review_versionId_fkey" FOREIGN KEY ("versionId") REFERENCES "template_version"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "template_review" ADD CONSTRAINT "template_review_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "user"("_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "template_reviewer" ADD CONSTRAINT "template_reviewer_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "template_review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "template_reviewer" ADD CONSTRAINT "template_reviewer_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("_id") ON DELETE CASCADE ON UPDATE CASCADE;
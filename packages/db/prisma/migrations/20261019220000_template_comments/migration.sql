@@ -0,0 +1,80 @@
+-- CreateTable
+CREATE TABLE "template_comment_thread" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "versionId" TEXT,
+    "elementId" TEXT NOT NULL,
+    "elementTag" TEXT NOT NULL,
+    "elementPath" TEXT NOT NULL,
+    "elementText" TEXT,
+    "detached" BOOLEAN NOT NULL DEFAULT false,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedById" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "template_comment_thread_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "template_comment" (
+    "id" TEXT NOT NULL,
+    "threadId" TEXT NOT NULL,
+    "authorId" TEXT,
+    "body" TEXT NOT NULL,
+    "editedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "template_comment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "template_comment_mention" (
+    "id" TEXT NOT NULL,
+    "commentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "template_comment_mention_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "template_comment_thread_templateId_idx" ON "template_comment_thread"("templateId");
+
+-- CreateIndex
+CREATE INDEX "template_comment_thread_versionId_idx" ON "template_comment_thread"("versionId");
+
+-- CreateIndex
+CREATE INDEX "template_comment_threadId_idx" ON "template_comment"("threadId");
+
+-- CreateIndex
+CREATE INDEX "template_comment_mention_userId_idx" ON "template_comment_mention"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "template_comment_mention_commentId_userId_key" ON "template_comment_mention"("commentId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "template_comment_thread" ADD CONSTRAINT "template_comment_thread_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "template"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "template_comment_thread" ADD CONSTRAINT "template_comment_thread_versionId_fkey" FOREIGN KEY ("versionId") REFERENCES "template_version"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "template_comment_thread" ADD CONSTRAINT "template_comment_thread_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "user"("_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "template_comment_thread" ADD CONSTRAINT "template_comment_thread_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "user"("_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "template_comment" ADD CONSTRAINT "template_comment_threadId_fkey" FOREIGN KEY ("threadId") REFERENCES "template_comment_thread"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "template_comment" ADD CONSTRAINT "template_comment_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "user"("_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "template_comment_mention" ADD CONSTRAINT "template_comment_mention_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "template_comment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "template_comment_mention" ADD CONSTRAINT "template_comment_mention_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- DropIndex
+DROP INDEX "brand_kit_organizationId_key";
+
+-- AlterTable
+ALTER TABLE "brand_kit" ADD COLUMN     "name" VARCHAR(100) NOT NULL DEFAULT 'Default';
+
+-- AlterTable
+ALTER TABLE "organization" ADD COLUMN     "defaultBrandKitId" TEXT;
+
+-- AlterTable
+ALTER TABLE "template" ADD COLUMN     "brandKitId" TEXT;
+
+-- Each organization's existing brand kit becomes its default
+UPDATE "organization" o
+SET "defaultBrandKitId" = b."id"
+FROM "brand_kit" b
+WHERE b."organizationId" = o."_id" AND b."deletedAt" IS NULL;
+
+-- Existing templates were generated with that kit
+UPDATE "template" t
+SET "brandKitId" = o."defaultBrandKitId"
+FROM "organization" o
+WHERE t."organizationId" = o."_id" AND o."defaultBrandKitId" IS NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organization_defaultBrandKitId_key" ON "organization"("defaultBrandKitId");
+
+-- CreateIndex
+CREATE INDEX "template_brandKitId_idx" ON "template"("brandKitId");
+
+-- AddForeignKey
+ALTER TABLE "organization" ADD CONSTRAINT "organization_defaultBrandKitId_fkey" FOREIGN KEY ("defaultBrandKitId") REFERENCES "brand_kit"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "template" ADD CONSTRAINT "template_brandKitId_fkey" FOREIGN KEY ("brandKitId") REFERENCES "brand_kit"("id") ON DELETE SET NULL ON UPDATE CASCADE;
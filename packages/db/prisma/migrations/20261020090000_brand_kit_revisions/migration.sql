@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "brand_kit_revision" (
+    "id" TEXT NOT NULL,
+    "brandKitId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "changes" JSONB NOT NULL,
+    "source" VARCHAR(20) NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "brand_kit_revision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "brand_kit_revision_brandKitId_version_key" ON "brand_kit_revision"("brandKitId", "version");
+
+-- AddForeignKey
+ALTER TABLE "brand_kit_revision" ADD CONSTRAINT "brand_kit_revision_brandKitId_fkey" FOREIGN KEY ("brandKitId") REFERENCES "brand_kit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
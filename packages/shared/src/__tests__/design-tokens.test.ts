@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import {
+  bindDesignTokens,
+  parseDesignTokenReference,
+  resolveDesignTokens,
+  resolveDesignTokenValue,
+} from "../design-tokens";
+
+describe("resolveDesignTokens", () => {
+  it("reads brand kit fields and falls back for unset ones", () => {
+    const tokens = resolveDesignTokens({ primaryColor: "#FF0000", fontFamily: "  ", borderRadius: null });
+
+    expect(tokens.primary).toBe("#FF0000");
+    expect(tokens.fontFamily).toBe("Arial, sans-serif");
+    expect(tokens.radius).toBe("8px");
+  });
+});
+
+describe("parseDesignTokenReference", () => {
+  it("recognizes known tokens only", () => {
+    expect(parseDesignTokenReference("brand.primary")).toBe("primary");
+    expect(parseDesignTokenReference("brand.logo")).toBeNull();
+    expect(parseDesignTokenReference("#3B82F6")).toBeNull();
+    expect(parseDesignTokenReference(12)).toBeNull();
+  });
+
+  it("resolves references and passes other values through", () => {
+    const tokens = resolveDesignTokens({ accentColor: "#10B981" });
+    expect(resolveDesignTokenValue("brand.accent", tokens)).toBe("#10B981");
+    expect(resolveDesignTokenValue("12px", tokens)).toBe("12px");
+  });
+});
+
+describe("bindDesignTokens", () => {
+  it("binds brand for the component body", () => {
+    const body = bindDesignTokens("return brand.primary;", resolveDesignTokens({ primaryColor: "#123456" }));
+    expect(new Function(`'use strict';\n${body}`)()).toBe("#123456");
+  });
+
+  it("lets a template declare its own brand", () => {
+    const body = bindDesignTokens('const brand = "Acme";\nreturn brand;', resolveDesignTokens(null));
+    expect(new Function(`'use strict';\n${body}`)()).toBe("Acme");
+  });
+
+  it("wraps Head to load the brand's web fonts", () => {
+    const tokens = resolveDesignTokens({
+      fontFamily: "Inter, Arial, sans-serif",
+      webFonts: [
+        {
+          family: "Inter",
+          url: "https://fonts.gstatic.com/inter.woff2",
+          format: "woff2",
+          weight: 400,
+          style: "normal",
+          category: "sans-serif",
+          source: "google",
+        },
+      ],
+    });
+    const React = { createElement: (type: unknown, props: unknown, ...children: unknown[]) => ({ type, props, children }) };
+    const Head = "head";
+    const Font = "font";
+
+    const body = bindDesignTokens("return Head({ children: 'title' });", tokens);
+    const head = new Function("React", "Head", "Font", `'use strict';\n${body}`)(React, Head, Font);
+
+    expect(head.type).toBe("head");
+    expect(head.children[0][0]).toMatchObject({ type: "font", props: { fontFamily: "Inter", fontWeight: 400 } });
+    expect(head.children[1]).toBe("title");
+    expect(body).not.toContain('"webFonts"');
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { createElementId, parseLineElementId, stripElementIds } from "../element-ids";
+
+describe("stripElementIds", () => {
+  it("removes IDs from React Email source", () => {
+    const code = `<Text data-mocah-id="m1a2b3c4" style={text}>Hi</Text>\n<Hr data-mocah-id={'m9z8y7x6'} />`;
+    expect(stripElementIds(code)).toBe(`<Text style={text}>Hi</Text>\n<Hr />`);
+  });
+
+  it("removes IDs from rendered HTML", () => {
+    expect(stripElementIds('<p data-mocah-id="m1a2b3c4" style="margin:0">Hi</p>')).toBe(
+      '<p style="margin:0">Hi</p>'
+    );
+  });
+});
+
+describe("createElementId", () => {
+  it("creates short attribute-safe IDs", () => {
+    expect(createElementId()).toMatch(/^m[a-z0-9]{7}$/);
+  });
+});
+
+describe("parseLineElementId", () => {
+  it("parses legacy line-based IDs only", () => {
+    expect(parseLineElementId("element-Text-42")).toEqual({ tag: "Text", line: 42 });
+    expect(parseLineElementId("m1a2b3c4")).toBeNull();
+  });
+});
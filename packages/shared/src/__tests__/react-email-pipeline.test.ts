@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import {
+  findDisallowedImports,
+  finalizeRenderedHtml,
+  normalizeRenderedHtml,
+} from "../react-email-pipeline";
+
+describe("findDisallowedImports", () => {
+  it("allows React Email components and react", () => {
+    const code = `
+      import * as React from "react";
+      import { Html, Text as Copy, type Preview } from "@react-email/components";
+    `;
+    expect(findDisallowedImports(code)).toEqual([]);
+  });
+
+  it("flags other modules and non-component exports", () => {
+    const code = `
+      import fs from "node:fs";
+      import { Html, render } from "@react-email/components";
+      import "./side-effect";
+    `;
+    expect(findDisallowedImports(code)).toEqual([
+      { module: "node:fs", name: null },
+      { module: "@react-email/components", name: "render" },
+      { module: "./side-effect", name: null },
+    ]);
+  });
+});
+
+describe("normalizeRenderedHtml", () => {
+  it("treats pretty and compact renders as equal", () => {
+    const markup = '<html><body><p style="margin:0">Hello <!-- -->there</p><img src="a.png"/></body></html>';
+
+    expect(normalizeRenderedHtml(finalizeRenderedHtml(markup, true))).toBe(
+      normalizeRenderedHtml(finalizeRenderedHtml(markup, false))
+    );
+    expect(normalizeRenderedHtml(finalizeRenderedHtml(markup, false))).not.toBe(
+      normalizeRenderedHtml(finalizeRenderedHtml(markup.replace("there", "you"), false))
+    );
+  });
+});
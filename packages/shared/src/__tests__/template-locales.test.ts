@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { diffLocaleStrings, getTranslatableStringKey } from "../template-locales";
+
+describe("getTranslatableStringKey", () => {
+  it("ignores whitespace differences", () => {
+    expect(getTranslatableStringKey("Welcome  back\n ")).toBe(getTranslatableStringKey("Welcome back"));
+    expect(getTranslatableStringKey("Welcome back")).toMatch(/^s_[0-9a-f]{8}$/);
+  });
+
+  it("changes when the copy changes", () => {
+    expect(getTranslatableStringKey("Welcome back")).not.toBe(getTranslatableStringKey("Welcome back!"));
+  });
+});
+
+describe("diffLocaleStrings", () => {
+  it("reports missing and stale translations", () => {
+    const source = [
+      { key: "s_1", text: "Welcome back" },
+      { key: "s_2", text: "Shop now" },
+    ];
+
+    expect(diffLocaleStrings(source, { s_1: "Bon retour", s_old: "Ancien" })).toEqual({
+      translated: 1,
+      missing: [{ key: "s_2", text: "Shop now" }],
+      stale: ["s_old"],
+    });
+  });
+});
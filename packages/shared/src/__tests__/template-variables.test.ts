@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import {
+  extractTemplateVariableKeys,
+  substituteTemplateVariables,
+  templateVariablesSchema,
+} from "../template-variables";
+
+const VARIABLES = [
+  { key: "first_name", type: "text" as const, defaultValue: "there" },
+  { key: "order.total", type: "currency" as const, defaultValue: "$0.00" },
+];
+
+describe("extractTemplateVariableKeys", () => {
+  it("returns unique keys with inline fallbacks", () => {
+    const code = `<Text>Hi {"{{first_name|friend}}"}</Text><Text>{{ order.total }} {{first_name}}</Text>`;
+
+    expect(extractTemplateVariableKeys(code)).toEqual([
+      { key: "first_name", fallback: "friend" },
+      { key: "order.total", fallback: null },
+    ]);
+  });
+
+  it("decodes escaped quotes in fallbacks from rendered HTML", () => {
+    expect(extractTemplateVariableKeys("{{ first_name | &quot;friend&quot; }}")).toEqual([
+      { key: "first_name", fallback: "friend" },
+    ]);
+  });
+});
+
+describe("substituteTemplateVariables", () => {
+  it("prefers data set values, then inline fallbacks, then defaults", () => {
+    const html = "<p>{{first_name|friend}}, {{order.total}}</p>";
+
+    expect(substituteTemplateVariables(html, { variables: VARIABLES, values: { first_name: "Ada" } })).toBe(
+      "<p>Ada, $0.00</p>"
+    );
+    expect(substituteTemplateVariables(html, { variables: VARIABLES })).toBe("<p>friend, $0.00</p>");
+  });
+
+  it("escapes values and leaves unknown tags untouched", () => {
+    const html = `<a href="{{link}}">{{first_name}}</a>`;
+
+    expect(
+      substituteTemplateVariables(html, { variables: VARIABLES, values: { first_name: "<b>Ada</b>" } })
+    ).toBe(`<a href="{{link}}">&lt;b&gt;Ada&lt;/b&gt;</a>`);
+  });
+
+  it("escapes fallbacks read from rendered markup exactly once", () => {
+    const html = "<p>{{company|&quot;Tom &amp; Jerry&#39;s&quot;}} {{first_name|&amp;lt;you&amp;gt;}}</p>";
+
+    expect(substituteTemplateVariables(html, { variables: VARIABLES })).toBe(
+      "<p>Tom &amp; Jerry&#39;s &amp;lt;you&amp;gt;</p>"
+    );
+  });
+});
+
+describe("templateVariablesSchema", () => {
+  it("rejects keys that are not identifiers", () => {
+    expect(templateVariablesSchema.safeParse([{ key: "first name" }]).success).toBe(false);
+    expect(templateVariablesSchema.parse([{ key: "order.total" }])).toEqual([
+      { key: "order.total", type: "text", defaultValue: "" },
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import {
+  getFontFaceProps,
+  getFontFallbacks,
+  getPrimaryFontFamily,
+  parseFontFileName,
+  parseWebFonts,
+  simulateOutlookFonts,
+  type WebFont,
+} from "../web-fonts";
+
+const INTER: WebFont = {
+  family: "Inter",
+  url: "https://fonts.gstatic.com/s/inter/v13/inter.woff2",
+  format: "woff2",
+  weight: 400,
+  style: "normal",
+  category: "sans-serif",
+  source: "google",
+};
+
+describe("getFontFallbacks", () => {
+  it("puts the web font first and Outlook's font first among the fallbacks", () => {
+    const fallbacks = getFontFallbacks("Inter", "sans-serif");
+
+    expect(fallbacks.stack).toBe("Inter, -apple-system, BlinkMacSystemFont, Segoe UI, Roboto, Helvetica, Arial, sans-serif");
+    expect(fallbacks.fallbackFontFamily[0]).toBe("Arial");
+    expect(fallbacks.outlook).toBe("Arial");
+    expect(fallbacks.clients.find((client) => client.webFont)?.font).toBe("Inter");
+  });
+
+  it("infers the category from the name", () => {
+    expect(getFontFallbacks("Playfair Display").outlook).toBe("Georgia");
+    expect(getFontFallbacks("JetBrains Mono").outlook).toBe("Courier New");
+  });
+});
+
+describe("getPrimaryFontFamily", () => {
+  it("reads the first family without quotes", () => {
+    expect(getPrimaryFontFamily("'Open Sans', Arial, sans-serif")).toBe("Open Sans");
+    expect(getPrimaryFontFamily(null)).toBe("");
+  });
+});
+
+describe("parseWebFonts", () => {
+  it("drops fonts whose names or URLs could break out of CSS", () => {
+    expect(
+      parseWebFonts([
+        INTER,
+        { ...INTER, family: "Evil'; } body { color: red" },
+        { ...INTER, url: "https://example.com/a.woff2) format('x'); }" },
+        { ...INTER, url: "http://example.com/a.woff2" },
+        "oops",
+      ])
+    ).toEqual([INTER]);
+    expect(parseWebFonts(null)).toEqual([]);
+  });
+});
+
+describe("parseFontFileName", () => {
+  it("reads family, weight and style", () => {
+    expect(parseFontFileName("Acme-SemiBoldItalic.woff2")).toEqual({
+      family: "Acme",
+      weight: 600,
+      style: "italic",
+      format: "woff2",
+    });
+    expect(parseFontFileName("OpenSans-Regular.ttf")).toEqual({
+      family: "Open Sans",
+      weight: 400,
+      style: "normal",
+      format: "truetype",
+    });
+    expect(parseFontFileName("brand_display.otf")).toMatchObject({ family: "brand display", format: "opentype" });
+  });
+});
+
+describe("getFontFaceProps", () => {
+  it("maps fonts to React Email Font props", () => {
+    expect(getFontFaceProps([INTER])).toEqual([
+      {
+        fontFamily: "Inter",
+        fallbackFontFamily: expect.arrayContaining(["Arial", "sans-serif"]),
+        webFont: { url: INTER.url, format: "woff2" },
+        fontWeight: 400,
+        fontStyle: "normal",
+      },
+    ]);
+  });
+});
+
+describe("simulateOutlookFonts", () => {
+  it("drops @font-face and swaps leading web fonts for mso-font-alt", () => {
+    const html = [
+      "<style>@font-face { font-family: 'Inter'; src: url(x.woff2) format('woff2'); }",
+      "* { font-family: 'Inter', Arial, sans-serif; }</style>",
+      '<p style="font-family:Inter, -apple-system, Arial, sans-serif">Hi</p>',
+      '<p style="font-family:&#x27;Inter&#x27;, Arial">Hi</p>',
+      '<p style="font-family:Interstate, Arial">Hi</p>',
+    ].join("");
+
+    const result = simulateOutlookFonts(html, [INTER]);
+
+    expect(result).not.toContain("@font-face");
+    expect(result).toContain("* { font-family: Arial, Arial, sans-serif; }");
+    expect(result).toContain('style="font-family:Arial, -apple-system, Arial, sans-serif"');
+    expect(result).toContain('style="font-family:Arial, Arial"');
+    expect(result).toContain("Interstate");
+  });
+});
@@ -70,3 +70,28 @@ export async function invalidateMembershipCache(
     logger.error("Redis delete error for membership cache", error as Error);
   }
 }
+
+/**
+ * Invalidate (delete) a cached brand kit
+ * The default kit's entry is always cleared since the changed kit may be (or
+ * have been) the default. Call this whenever a brand kit is saved, deleted or
+ * a different kit becomes the default.
+ */
+export async function invalidateBrandKitCache(
+  orgId: string,
+  brandKitId?: string | null
+): Promise<void> {
+  const redis = getRedis();
+  const keys = [CACHE_KEYS.brandKit(orgId)];
+  if (brandKitId) keys.push(CACHE_KEYS.brandKit(orgId, brandKitId));
+
+  if (!isRedisAvailable() || !redis) {
+    return;
+  }
+
+  try {
+    await redis.del(...keys);
+  } catch (error) {
+    logger.error("Redis delete error for brand kit cache", error as Error);
+  }
+}
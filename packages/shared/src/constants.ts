@@ -35,3 +35,20 @@ export const BRAND_VOICES = [
 
 export type BrandVoice = (typeof BRAND_VOICES)[number];
 
+/**
+ * Color families the template library can be filtered by
+ * Each template's palette is bucketed into these by hue.
+ */
+export const COLOR_FAMILIES = [
+  "red",
+  "orange",
+  "yellow",
+  "green",
+  "teal",
+  "blue",
+  "purple",
+  "pink",
+  "neutral",
+] as const;
+
+export type ColorFamily = (typeof COLOR_FAMILIES)[number];
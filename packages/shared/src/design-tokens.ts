@@ -0,0 +1,109 @@
+// ============================================================================
+// Brand design tokens (shared between API and client)
+// ============================================================================
+//
+// Template code can reference brand styles symbolically, e.g.
+// `style={{ color: brand.primary }}`, instead of hard-coding the brand kit's
+// values. Both renderers bind `brand` to the template's resolved tokens, so a
+// brand kit change shows up on the next render. Saved htmlCode holds the values
+// that were resolved when it was rendered.
+//
+// The kit's web fonts travel with the tokens: both renderers wrap <Head> so it
+// also renders a React Email <Font> for each one.
+
+import { getFontFaceProps, parseWebFonts, type WebFont } from "./web-fonts";
+
+/** Identifier template code uses to reference tokens */
+export const DESIGN_TOKEN_NAMESPACE = "brand";
+
+/** Tokens, the brand kit field each one reads and its value when the field is unset */
+export const DESIGN_TOKENS = [
+  { name: "primary", field: "primaryColor", kind: "color", label: "Primary", fallback: "#3B82F6" },
+  { name: "accent", field: "accentColor", kind: "color", label: "Accent", fallback: "#10B981" },
+  { name: "background", field: "backgroundColor", kind: "color", label: "Background", fallback: "#FFFFFF" },
+  { name: "text", field: "textPrimaryColor", kind: "color", label: "Text", fallback: "#374151" },
+  { name: "fontFamily", field: "fontFamily", kind: "fontFamily", label: "Font", fallback: "Arial, sans-serif" },
+  { name: "radius", field: "borderRadius", kind: "borderRadius", label: "Corner radius", fallback: "8px" },
+] as const;
+
+export type DesignTokenName = (typeof DESIGN_TOKENS)[number]["name"];
+export type DesignTokenKind = (typeof DESIGN_TOKENS)[number]["kind"];
+export type DesignTokenField = (typeof DESIGN_TOKENS)[number]["field"];
+
+/** Resolved token values, keyed by token name, plus the web fonts to load */
+export type DesignTokens = Record<DesignTokenName, string> & { webFonts?: WebFont[] };
+
+/** Brand kit fields tokens are read from */
+export type DesignTokenSource = Partial<Record<DesignTokenField, string | null>> & { webFonts?: unknown };
+
+const TOKEN_REFERENCE_PATTERN = /^brand\.([A-Za-z]+)$/;
+
+/**
+ * Token values for a brand kit; unset fields fall back to the defaults
+ */
+export function resolveDesignTokens(brandKit?: DesignTokenSource | null): DesignTokens {
+  const tokens = {} as DesignTokens;
+  for (const token of DESIGN_TOKENS) {
+    tokens[token.name] = brandKit?.[token.field]?.trim() || token.fallback;
+  }
+  const webFonts = parseWebFonts(brandKit?.webFonts);
+  if (webFonts.length > 0) {
+    tokens.webFonts = webFonts;
+  }
+  return tokens;
+}
+
+/**
+ * Reference to a token as written in template code, e.g. "brand.primary"
+ */
+export function formatDesignTokenReference(name: DesignTokenName): string {
+  return `${DESIGN_TOKEN_NAMESPACE}.${name}`;
+}
+
+/**
+ * Token a style value references, or null for plain values
+ */
+export function parseDesignTokenReference(value: unknown): DesignTokenName | null {
+  if (typeof value !== "string") return null;
+  const name = TOKEN_REFERENCE_PATTERN.exec(value.trim())?.[1];
+  return DESIGN_TOKENS.some((token) => token.name === name) ? (name as DesignTokenName) : null;
+}
+
+/**
+ * Replace a token reference with its value; other values pass through
+ */
+export function resolveDesignTokenValue<T>(value: T, tokens: DesignTokens): T | string {
+  const name = parseDesignTokenReference(value);
+  return name ? tokens[name] : value;
+}
+
+/**
+ * Bind `brand` for compiled template code (the body of the component factory)
+ * The code goes in its own block so a template that declares its own `brand`
+ * shadows the tokens instead of failing to compile. With web fonts, `Head` is
+ * shadowed the same way by one that renders a <Font> per font before its
+ * children; the factory must have React, Head and Font in scope.
+ */
+export function bindDesignTokens(jsCode: string, tokens: DesignTokens): string {
+  const values: Record<string, string> = {};
+  for (const token of DESIGN_TOKENS) {
+    values[token.name] = tokens[token.name];
+  }
+  const binding = `const ${DESIGN_TOKEN_NAMESPACE} = Object.freeze(${JSON.stringify(values)});`;
+
+  const fonts = getFontFaceProps(tokens.webFonts ?? []);
+  if (fonts.length === 0) {
+    return `${binding} {\n${jsCode}\n}`;
+  }
+
+  return [
+    binding,
+    `const __brandFonts = ${JSON.stringify(fonts)};`,
+    "const __BrandHead = Head;",
+    "const __BrandFont = Font;",
+    "{",
+    "const Head = (props) => React.createElement(__BrandHead, props, __brandFonts.map((font, index) => React.createElement(__BrandFont, Object.assign({ key: index }, font))), props.children);",
+    `{\n${jsCode}\n}`,
+    "}",
+  ].join("\n");
+}
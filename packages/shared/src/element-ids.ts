@@ -0,0 +1,55 @@
+// ============================================================================
+// Stable element IDs (shared between API and client)
+// ============================================================================
+//
+// React Email elements carry a data-mocah-id attribute in the saved source so
+// selection, edit history and comments survive edits that move lines. The
+// server assigns missing IDs on save; exports strip them.
+
+export const ELEMENT_ID_ATTRIBUTE = "data-mocah-id";
+
+/** React Email components that get an ID (the selectable ones in the preview) */
+export const ELEMENT_ID_COMPONENTS = [
+  "Html",
+  "Head",
+  "Body",
+  "Container",
+  "Section",
+  "Row",
+  "Column",
+  "Heading",
+  "Text",
+  "Button",
+  "Img",
+  "Link",
+  "Hr",
+  "Preview",
+] as const;
+
+/** Legacy line-based preview IDs, e.g. "element-Text-42" */
+const LINE_ELEMENT_ID_PATTERN = /^element-([A-Za-z][\w.]*)-(\d+)$/;
+
+const ELEMENT_ID_ATTRIBUTE_PATTERN = /\s+data-mocah-id=(?:"[^"]*"|'[^']*'|\{\s*(?:"[^"]*"|'[^']*')\s*\})/g;
+
+/**
+ * New random element ID, e.g. "m4k2x9qa"
+ */
+export function createElementId(): string {
+  return `m${Math.random().toString(36).slice(2, 9).padEnd(7, "0")}`;
+}
+
+/**
+ * Parse a legacy line-based preview ID; returns null for stable IDs
+ */
+export function parseLineElementId(elementId: string): { tag: string; line: number } | null {
+  const match = LINE_ELEMENT_ID_PATTERN.exec(elementId);
+  if (!match) return null;
+  return { tag: match[1]!, line: Number(match[2]) };
+}
+
+/**
+ * Remove data-mocah-id attributes from React Email source or rendered HTML
+ */
+export function stripElementIds(source: string): string {
+  return source.replace(ELEMENT_ID_ATTRIBUTE_PATTERN, "");
+}
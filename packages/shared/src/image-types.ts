@@ -190,6 +190,8 @@ export const imageGenerationInputSchema = z.object({
   strength: z.number().min(0).max(1).optional(),
   model: z.string().optional(),
   includeBrandGuide: z.boolean().optional(),
+  // Image asset being regenerated/edited - outputs join its version tree
+  sourceImageId: z.string().optional(),
 });
 
 export type ImageGenerationInput = z.infer<typeof imageGenerationInputSchema>;
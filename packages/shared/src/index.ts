@@ -13,6 +13,24 @@ export * from './constants';
 // Re-export image types and utilities
 export * from './image-types';
 
+// Re-export the React Email render pipeline (shared by client and server renderers)
+export * from './react-email-pipeline';
+
+// Re-export template variable schemas and helpers
+export * from './template-variables';
+
+// Re-export template locale schemas and helpers
+export * from './template-locales';
+
+// Re-export stable element ID helpers
+export * from './element-ids';
+
+// Re-export brand design token helpers
+export * from './design-tokens';
+
+// Re-export brand web font schemas and fallback helpers
+export * from './web-fonts';
+
 // Note: Redis is NOT exported here to keep it server-side only
 // Import directly from '@mocah/shared/redis' if needed in server-side code
 
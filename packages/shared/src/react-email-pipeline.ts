@@ -0,0 +1,171 @@
+/**
+ * React Email render pipeline
+ * Source preprocessing and HTML post-processing shared by the browser
+ * renderer and the sandboxed server renderer, so both produce identical HTML
+ * for the same code.
+ */
+
+/** Components template code may use; nothing else is exposed to it */
+export const ALLOWED_EMAIL_COMPONENTS = [
+  "Body",
+  "Button",
+  "CodeBlock",
+  "CodeInline",
+  "Column",
+  "Container",
+  "Font",
+  "Head",
+  "Heading",
+  "Hr",
+  "Html",
+  "Img",
+  "Link",
+  "Markdown",
+  "Preview",
+  "Row",
+  "Section",
+  "Tailwind",
+  "Text",
+] as const;
+
+export type AllowedEmailComponent = (typeof ALLOWED_EMAIL_COMPONENTS)[number];
+
+/** Modules template code may import from */
+export const ALLOWED_EMAIL_MODULES = ["@react-email/components", "react"] as const;
+
+export const EMAIL_DOCTYPE =
+  '<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">';
+
+const IMPORT_STATEMENT_PATTERN = /import\s+(?:([\s\S]*?)\s+from\s+)?['"]([^'"]+)['"];?/g;
+
+export interface DisallowedImport {
+  module: string;
+  /** Named import that isn't an allowed component, or null when the module itself is disallowed */
+  name: string | null;
+}
+
+/**
+ * Find imports outside the module and component allow-lists
+ * Components must be imported from `@react-email/components` by name;
+ * `react` is allowed since the JSX transform needs it.
+ */
+export function findDisallowedImports(code: string): DisallowedImport[] {
+  const disallowed: DisallowedImport[] = [];
+  const allowedComponents = new Set<string>(ALLOWED_EMAIL_COMPONENTS);
+
+  for (const match of code.matchAll(IMPORT_STATEMENT_PATTERN)) {
+    const clause = match[1] ?? "";
+    const module = match[2]!;
+
+    if (!(ALLOWED_EMAIL_MODULES as readonly string[]).includes(module)) {
+      disallowed.push({ module, name: null });
+      continue;
+    }
+
+    if (module !== "@react-email/components") continue;
+
+    const named = clause.match(/\{([^}]*)\}/)?.[1] ?? "";
+    for (const specifier of named.split(",")) {
+      const name = specifier.trim().split(/\s+as\s+/)[0]?.replace(/^type\s+/, "");
+      if (name && !allowedComponents.has(name)) {
+        disallowed.push({ module, name });
+      }
+    }
+  }
+
+  return disallowed;
+}
+
+/**
+ * Remove import statements from code
+ * React Email components are provided directly at runtime
+ */
+export function removeImports(code: string): string {
+  // Consolidated regex patterns for import removal
+  const importPatterns = [
+    // import X from 'module'
+    /import\s+\w+\s+from\s+['"][^'"]+['"];?\s*/g,
+    // import { X, Y } from 'module'
+    /import\s+\{[^}]*\}\s+from\s+['"][^'"]+['"];?\s*/g,
+    // import * as X from 'module'
+    /import\s+\*\s+as\s+\w+\s+from\s+['"][^'"]+['"];?\s*/g,
+    // import 'module' (side effects)
+    /import\s+['"][^'"]+['"];?\s*/g,
+    // import X, { Y } from 'module'
+    /import\s+\w+\s*,\s*\{[^}]*\}\s+from\s+['"][^'"]+['"];?\s*/g,
+  ];
+
+  let cleanedCode = code;
+  for (const pattern of importPatterns) {
+    cleanedCode = cleanedCode.replace(pattern, "");
+  }
+
+  return cleanedCode;
+}
+
+/**
+ * Transform export default to return statement
+ */
+export function transformExport(code: string): string {
+  // Handle: export default function ComponentName
+  let transformed = code.replace(
+    /export\s+default\s+function\s+(\w+)/,
+    "return function $1"
+  );
+
+  // Handle: export default ComponentName or export default () => ...
+  transformed = transformed.replace(/export\s+default\s+/, "return ");
+
+  return transformed;
+}
+
+/**
+ * Basic HTML pretty printer
+ * Adds indentation to HTML for readability
+ */
+export function formatHtml(html: string): string {
+  let formatted = "";
+  let indent = 0;
+  const indentSize = 2;
+
+  html.split(/(<[^>]+>)/g).forEach((part) => {
+    if (!part.trim()) return;
+
+    // Closing tag
+    if (part.startsWith("</")) {
+      indent = Math.max(0, indent - indentSize);
+      formatted += " ".repeat(indent) + part + "\n";
+    }
+    // Self-closing or opening tag
+    else if (part.startsWith("<")) {
+      formatted += " ".repeat(indent) + part + "\n";
+      // Don't indent for self-closing tags or DOCTYPE/comments
+      if (!part.endsWith("/>") && !part.startsWith("<!")) {
+        indent += indentSize;
+      }
+    }
+    // Text content
+    else {
+      formatted += " ".repeat(indent) + part.trim() + "\n";
+    }
+  });
+
+  return formatted.trim();
+}
+
+/**
+ * Add the email DOCTYPE to rendered markup, optionally pretty printed
+ */
+export function finalizeRenderedHtml(markup: string, pretty: boolean): string {
+  const html = `${EMAIL_DOCTYPE}${markup}`;
+  return pretty ? formatHtml(html) : html;
+}
+
+/**
+ * Normalize rendered HTML for equality checks
+ * Ignores formatting differences between pretty and compact output.
+ */
+export function normalizeRenderedHtml(html: string): string {
+  // formatHtml is idempotent, so pretty and compact output converge
+  return formatHtml(html.replace(/\r\n/g, "\n"));
+}
@@ -50,7 +50,9 @@ export function isRedisAvailable(): boolean {
 export const CACHE_KEYS = {
   membership: (userId: string, orgId: string) =>
     `membership:${userId}:${orgId}`,
-  brandKit: (orgId: string) => `brandkit:${orgId}`,
+  // Keyed per brand; no brandKitId means the organization's default kit
+  brandKit: (orgId: string, brandKitId?: string | null) =>
+    `brandkit:${orgId}:${brandKitId || "default"}`,
   brandGuidePreference: (userId: string, orgId: string) =>
     `brandguide:${userId}:${orgId}`,
   quota: (orgId: string, userId: string | null, period: string) =>
@@ -0,0 +1,101 @@
+import { z } from "zod";
+
+// ============================================================================
+// Template Locales (shared between API and client)
+// ============================================================================
+//
+// A template has one structure (its React Email code, written in the default
+// locale) and one string table per additional locale. Strings are keyed by a
+// hash of their source text, so structure edits carry over to every locale
+// and only changed copy needs translating again.
+
+export const SUPPORTED_LOCALES = [
+  { code: "en", label: "English" },
+  { code: "es", label: "Spanish" },
+  { code: "fr", label: "French" },
+  { code: "de", label: "German" },
+  { code: "it", label: "Italian" },
+  { code: "pt", label: "Portuguese" },
+  { code: "pt-BR", label: "Portuguese (Brazil)" },
+  { code: "nl", label: "Dutch" },
+  { code: "sv", label: "Swedish" },
+  { code: "da", label: "Danish" },
+  { code: "nb", label: "Norwegian" },
+  { code: "fi", label: "Finnish" },
+  { code: "pl", label: "Polish" },
+  { code: "cs", label: "Czech" },
+  { code: "tr", label: "Turkish" },
+  { code: "ru", label: "Russian" },
+  { code: "uk", label: "Ukrainian" },
+  { code: "ar", label: "Arabic" },
+  { code: "he", label: "Hebrew" },
+  { code: "hi", label: "Hindi" },
+  { code: "id", label: "Indonesian" },
+  { code: "th", label: "Thai" },
+  { code: "vi", label: "Vietnamese" },
+  { code: "ja", label: "Japanese" },
+  { code: "ko", label: "Korean" },
+  { code: "zh-CN", label: "Chinese (Simplified)" },
+  { code: "zh-TW", label: "Chinese (Traditional)" },
+] as const;
+
+export type LocaleCode = (typeof SUPPORTED_LOCALES)[number]["code"];
+
+export const LOCALE_CODES = SUPPORTED_LOCALES.map((locale) => locale.code) as [
+  LocaleCode,
+  ...LocaleCode[],
+];
+
+export const localeCodeSchema = z.enum(LOCALE_CODES);
+
+/** Translations by string key */
+export const localeStringsSchema = z.record(z.string().max(32), z.string().max(5000));
+
+export type LocaleStrings = z.infer<typeof localeStringsSchema>;
+
+/** A piece of copy extracted from the template's default-locale source */
+export interface TranslatableString {
+  key: string;
+  text: string;
+}
+
+export function getLocaleLabel(code: string): string {
+  return SUPPORTED_LOCALES.find((locale) => locale.code === code)?.label ?? code;
+}
+
+/** Collapse whitespace the way JSX does, so formatting changes don't alter keys */
+export function normalizeTranslatableText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Stable key for a source string (FNV-1a of the normalized text)
+ * Identical copy shares one translation wherever it appears.
+ */
+export function getTranslatableStringKey(text: string): string {
+  const normalized = normalizeTranslatableText(text);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `s_${(hash >>> 0).toString(16).padStart(8, "0")}`;
+}
+
+/**
+ * Split source strings against a locale's table
+ * `missing` need translating; `stale` are translations of copy no longer in the template.
+ */
+export function diffLocaleStrings(
+  source: TranslatableString[],
+  strings: LocaleStrings
+): { translated: number; missing: TranslatableString[]; stale: string[] } {
+  const sourceKeys = new Set(source.map((entry) => entry.key));
+  const missing = source.filter((entry) => !strings[entry.key]);
+
+  return {
+    translated: source.length - missing.length,
+    missing,
+    stale: Object.keys(strings).filter((key) => !sourceKeys.has(key)),
+  };
+}
@@ -0,0 +1,135 @@
+import { z } from "zod";
+
+// ============================================================================
+// Template Variables (shared between API and client)
+// ============================================================================
+//
+// Templates reference variables as merge tags in their copy and attributes:
+// `{{first_name}}`, `{{order.total}}` or `{{first_name|there}}` with an inline
+// fallback. Rendered HTML keeps the tags; previews substitute values from a
+// preview data set and exports rewrite them into each ESP's syntax.
+
+export const TEMPLATE_VARIABLE_TYPES = [
+  "text",
+  "number",
+  "currency",
+  "date",
+  "url",
+  "image",
+  "boolean",
+] as const;
+
+export type TemplateVariableType = (typeof TEMPLATE_VARIABLE_TYPES)[number];
+
+/** Identifier segments separated by dots, e.g. `order.total` */
+export const TEMPLATE_VARIABLE_KEY_PATTERN = /^[a-zA-Z_]\w*(?:\.[a-zA-Z_]\w*)*$/;
+
+export const templateVariableSchema = z.object({
+  key: z
+    .string()
+    .max(64)
+    .regex(TEMPLATE_VARIABLE_KEY_PATTERN, "Use letters, numbers and underscores, with dots for nesting"),
+  label: z.string().max(100).optional(),
+  type: z.enum(TEMPLATE_VARIABLE_TYPES).default("text"),
+  defaultValue: z.string().max(1000).default(""),
+  description: z.string().max(300).optional(),
+});
+
+export const previewDataSetSchema = z.object({
+  id: z.string().min(1).max(64),
+  name: z.string().min(1).max(100),
+  values: z.record(z.string(), z.string().max(2000)),
+});
+
+export const templateVariablesSchema = z.array(templateVariableSchema).max(100);
+export const previewDataSetsSchema = z.array(previewDataSetSchema).max(20);
+
+export type TemplateVariable = z.infer<typeof templateVariableSchema>;
+export type PreviewDataSet = z.infer<typeof previewDataSetSchema>;
+
+/** Values to substitute when rendering a preview */
+export interface PreviewData {
+  variables: TemplateVariable[];
+  /** Values by variable key; missing keys fall back to inline fallbacks, then defaults */
+  values?: Record<string, string>;
+}
+
+/** `{{ key }}` / `{{ key | fallback }}` - keys are identifiers, dots allowed for nesting */
+export const VARIABLE_TAG_PATTERN = /\{\{\s*([a-zA-Z_][\w.]*)\s*(?:\|\s*([^}]*?)\s*)?\}\}/g;
+
+/**
+ * Unquote an inline fallback
+ * Fallbacks may arrive HTML-escaped when read from rendered markup; only the
+ * quote entities are decoded so the rest stays safe to write back into HTML.
+ */
+export function stripQuotes(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;|&#39;/g, "'")
+    .replace(/^(["'])(.*)\1$/, "$2");
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+};
+
+// Single pass, so `&amp;lt;` decodes to the text `&lt;` rather than `<`
+function decodeHtmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] !== "#") return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+    const codePoint =
+      name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+  });
+}
+
+// Plain-text fallback for substitution; the caller escapes it again
+function decodeFallback(value: string): string {
+  return decodeHtmlEntities(value).replace(/^(["'])(.*)\1$/, "$2");
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Variable keys referenced in code or HTML, in first-seen order
+ * Inline fallbacks are returned so undeclared tags can be declared with them.
+ */
+export function extractTemplateVariableKeys(
+  content: string
+): Array<{ key: string; fallback: string | null }> {
+  const found = new Map<string, string | null>();
+  for (const match of content.matchAll(VARIABLE_TAG_PATTERN)) {
+    if (!found.has(match[1]!)) {
+      found.set(match[1]!, match[2] ? stripQuotes(match[2]) : null);
+    }
+  }
+  return [...found].map(([key, fallback]) => ({ key, fallback }));
+}
+
+/**
+ * Replace merge tags in rendered HTML with preview values
+ * Resolution order: data set value, inline fallback, declared default.
+ * Tags for undeclared variables with no value are left untouched.
+ */
+export function substituteTemplateVariables(html: string, previewData: PreviewData): string {
+  const defaults = new Map(previewData.variables.map((v) => [v.key, v.defaultValue]));
+  const values = previewData.values ?? {};
+
+  return html.replace(VARIABLE_TAG_PATTERN, (tag, key: string, fallback?: string) => {
+    const value =
+      values[key] || (fallback ? decodeFallback(fallback) : undefined) || defaults.get(key);
+    return value === undefined ? tag : escapeHtml(value);
+  });
+}
@@ -0,0 +1,244 @@
+import { z } from "zod";
+
+// ============================================================================
+// Brand web fonts (shared between API and client)
+// ============================================================================
+//
+// A brand kit can register web fonts, uploaded or imported from Google Fonts.
+// Templates load them with React Email's <Font> (an @font-face rule in
+// <Head>) and name them in a fallback stack, so clients that ignore web fonts
+// still land on the closest system font. Outlook for Windows ignores the stack
+// too and only honours mso-font-alt.
+
+export const WEB_FONT_FORMATS = ["woff2", "woff", "truetype", "opentype"] as const;
+export type WebFontFormat = (typeof WEB_FONT_FORMATS)[number];
+
+export const WEB_FONT_SOURCES = ["upload", "google"] as const;
+export type WebFontSource = (typeof WEB_FONT_SOURCES)[number];
+
+export const FONT_CATEGORIES = ["sans-serif", "serif", "monospace"] as const;
+export type FontCategory = (typeof FONT_CATEGORIES)[number];
+
+/** Upload content types and the @font-face format each one maps to */
+export const WEB_FONT_CONTENT_TYPES: Record<string, WebFontFormat> = {
+  "font/woff2": "woff2",
+  "font/woff": "woff",
+  "font/ttf": "truetype",
+  "font/otf": "opentype",
+};
+
+export const MAX_WEB_FONT_SIZE = 2 * 1024 * 1024; // 2MB
+
+/** Font files a brand kit can register */
+export const MAX_WEB_FONTS = 12;
+
+// Names and URLs end up inside <style>, so keep them to characters that can't
+// break out of a CSS string or url()
+const FONT_FAMILY_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 \-]*$/;
+const FONT_URL_PATTERN = /^https:\/\/[^\s'"()\\<>]+$/;
+
+export const webFontSchema = z.object({
+  family: z.string().trim().min(1).max(60).regex(FONT_FAMILY_PATTERN, "Font names may only use letters, numbers, spaces and hyphens"),
+  url: z.string().max(1000).regex(FONT_URL_PATTERN, "Font URL must be an https link"),
+  format: z.enum(WEB_FONT_FORMATS),
+  weight: z.number().int().min(100).max(900).default(400),
+  style: z.enum(["normal", "italic"]).default("normal"),
+  category: z.enum(FONT_CATEGORIES).default("sans-serif"),
+  source: z.enum(WEB_FONT_SOURCES),
+});
+
+export type WebFont = z.infer<typeof webFontSchema>;
+
+export const createFontUploadUrlSchema = z.object({
+  fileName: z.string().min(1, "File name is required"),
+  contentType: z.enum(Object.keys(WEB_FONT_CONTENT_TYPES) as [string, ...string[]]),
+  fileSize: z.number().max(MAX_WEB_FONT_SIZE, "Font file too large. Maximum size is 2MB."),
+});
+
+export type CreateFontUploadUrlInput = z.infer<typeof createFontUploadUrlSchema>;
+
+/** Props for React Email's <Font> */
+export interface FontFaceProps {
+  fontFamily: string;
+  fallbackFontFamily: string[];
+  webFont: { url: string; format: WebFontFormat };
+  fontWeight: number;
+  fontStyle: "normal" | "italic";
+}
+
+/** The font a group of email clients ends up showing */
+export interface ClientFontFallback {
+  clients: string;
+  font: string;
+  /** Whether the clients load the web font itself */
+  webFont: boolean;
+}
+
+export interface FontFallbacks {
+  /** CSS font-family value, web font first */
+  stack: string;
+  /** The stack after the web font; the first entry becomes mso-font-alt */
+  fallbackFontFamily: string[];
+  /** What Outlook for Windows shows */
+  outlook: string;
+  clients: ClientFontFallback[];
+}
+
+// System fonts each platform falls back to, in stack order. Outlook for
+// Windows comes first in the Font fallbacks because React Email uses the first
+// entry for mso-font-alt.
+const CATEGORY_FALLBACKS: Record<
+  FontCategory,
+  { outlook: string; apple: string; windows: string; android: string; system: string[] }
+> = {
+  "sans-serif": {
+    outlook: "Arial",
+    apple: "-apple-system",
+    windows: "Segoe UI",
+    android: "Roboto",
+    system: ["-apple-system", "BlinkMacSystemFont", "Segoe UI", "Roboto", "Helvetica", "Arial", "sans-serif"],
+  },
+  serif: {
+    outlook: "Georgia",
+    apple: "Georgia",
+    windows: "Georgia",
+    android: "Noto Serif",
+    system: ["Georgia", "Noto Serif", "Times New Roman", "serif"],
+  },
+  monospace: {
+    outlook: "Courier New",
+    apple: "SFMono-Regular",
+    windows: "Consolas",
+    android: "Roboto Mono",
+    system: ["SFMono-Regular", "Consolas", "Roboto Mono", "Courier New", "monospace"],
+  },
+};
+
+/**
+ * Guess a font's category from its name
+ */
+export function inferFontCategory(family: string): FontCategory {
+  const lower = family.toLowerCase();
+  if (/mono|code|courier|consol/.test(lower)) return "monospace";
+  if (/serif/.test(lower) && !/sans/.test(lower)) return "serif";
+  if (/garamond|georgia|times|playfair|merriweather|lora|baskerville|caslon|didot|bodoni/.test(lower)) {
+    return "serif";
+  }
+  return "sans-serif";
+}
+
+/**
+ * Fallback stack for a font, and what each group of email clients shows
+ */
+export function getFontFallbacks(family: string, category: FontCategory = inferFontCategory(family)): FontFallbacks {
+  const fallbacks = CATEGORY_FALLBACKS[category];
+  const name = family.trim();
+  const rest = fallbacks.system.filter((font) => font.toLowerCase() !== name.toLowerCase());
+
+  return {
+    stack: [name, ...rest].join(", "),
+    fallbackFontFamily: [fallbacks.outlook, ...rest.filter((font) => font !== fallbacks.outlook)],
+    outlook: fallbacks.outlook,
+    clients: [
+      { clients: "Apple Mail, iOS Mail, Samsung Email", font: name, webFont: true },
+      { clients: "Gmail and Yahoo on Apple devices", font: systemFontLabel(fallbacks.apple), webFont: false },
+      { clients: "Gmail and Outlook.com on Windows", font: fallbacks.windows, webFont: false },
+      { clients: "Gmail on Android", font: fallbacks.android, webFont: false },
+      { clients: "Outlook for Windows", font: fallbacks.outlook, webFont: false },
+    ],
+  };
+}
+
+function systemFontLabel(font: string): string {
+  return font === "-apple-system" ? "San Francisco" : font;
+}
+
+/**
+ * First family of a CSS font-family value, without quotes
+ */
+export function getPrimaryFontFamily(stack: string | null | undefined): string {
+  return (stack ?? "").split(",")[0]?.trim().replace(/^['"]|['"]$/g, "") ?? "";
+}
+
+const WEIGHT_NAMES: Array<[RegExp, number]> = [
+  [/hairline|thin/i, 100],
+  [/extra-?light|ultra-?light/i, 200],
+  [/light/i, 300],
+  [/semi-?bold|demi-?bold/i, 600],
+  [/extra-?bold|ultra-?bold/i, 800],
+  [/black|heavy/i, 900],
+  [/bold/i, 700],
+  [/medium/i, 500],
+];
+
+/**
+ * Family, weight and style of an uploaded font file, from names such as
+ * "Acme-SemiBoldItalic.woff2"
+ */
+export function parseFontFileName(fileName: string): Pick<WebFont, "family" | "weight" | "style"> & { format: WebFontFormat | null } {
+  const extension = /\.(woff2|woff|ttf|otf)$/i.exec(fileName)?.[1]?.toLowerCase();
+  const format: WebFontFormat | null =
+    extension === "ttf" ? "truetype" : extension === "otf" ? "opentype" : (extension as WebFontFormat | undefined) ?? null;
+
+  const base = fileName.replace(/\.[^.]+$/, "");
+  const [familyPart = base, variantPart = ""] = base.split(/[-_](?=[^-_]*$)/);
+  const variant = variantPart || "";
+  const style = /italic|oblique/i.test(variant) ? "italic" : "normal";
+  const weight = WEIGHT_NAMES.find(([pattern]) => pattern.test(variant))?.[1] ?? 400;
+
+  // A lone variant ("Acme-Bold") splits off; anything else stays in the family
+  const isVariant = /^(regular|normal|italic|oblique|book|roman)$/i.test(variant) || weight !== 400 || style === "italic";
+  const family = (isVariant ? familyPart : base)
+    .replace(/[_-]+/g, " ")
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .replace(/[^A-Za-z0-9 ]/g, "")
+    .trim();
+
+  return { family, weight, style, format };
+}
+
+/**
+ * Valid web fonts from a stored value; anything malformed is dropped
+ */
+export function parseWebFonts(value: unknown): WebFont[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry) => {
+    const parsed = webFontSchema.safeParse(entry);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+/**
+ * <Font> props for each registered font file
+ */
+export function getFontFaceProps(webFonts: WebFont[]): FontFaceProps[] {
+  return webFonts.map((font) => ({
+    fontFamily: font.family,
+    fallbackFontFamily: getFontFallbacks(font.family, font.category).fallbackFontFamily,
+    webFont: { url: font.url, format: font.format },
+    fontWeight: font.weight,
+    fontStyle: font.style,
+  }));
+}
+
+/**
+ * Approximate Outlook for Windows: @font-face rules are dropped and every
+ * font-family that starts with a web font switches to its mso-font-alt
+ */
+export function simulateOutlookFonts(html: string, webFonts: WebFont[]): string {
+  let result = html.replace(/@font-face\s*\{[^}]*\}/gi, "");
+
+  const families = new Map(webFonts.map((font) => [font.family.toLowerCase(), font]));
+  for (const font of families.values()) {
+    const outlook = CATEGORY_FALLBACKS[font.category].outlook;
+    const quote = `(&#x27;|&#39;|&quot;|['"])?`;
+    const pattern = new RegExp(`(font-family\\s*:\\s*)${quote}${escapeRegExp(font.family)}\\2(?=\\s*[,;"}]|\\s*$)`, "gi");
+    result = result.replace(pattern, `$1${outlook}`);
+  }
+
+  return result;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}